@@ -2,6 +2,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ApiError } from "@/lib/api";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProfileImageProvider } from "@/contexts/ProfileImageContext";
@@ -13,6 +14,8 @@ import ReportingJournalier from "./pages/ReportingJournalier";
 import SuiviTechniqueHebdomadaire from "./pages/SuiviTechniqueHebdomadaire";
 import InfosSetup from "./pages/InfosSetup";
 import PlanningVaccination from "./pages/PlanningVaccination";
+import NormesPerformance from "./pages/NormesPerformance";
+import ProtocolesVaccination from "./pages/ProtocolesVaccination";
 import ResumeProductionHebdoPage from "./pages/ResumeProductionHebdoPage";
 import ResumeCoutsHebdoPage from "./pages/ResumeCoutsHebdoPage";
 import SortiesFerme from "./pages/SortiesFerme";
@@ -27,10 +30,28 @@ import MainOeuvre from "./pages/MainOeuvre";
 import DepensesDivers from "./pages/DepensesDivers";
 import Employes from "./pages/Employes";
 import Utilisateurs from "./pages/Utilisateurs";
+import JournalAudit from "./pages/JournalAudit";
+import AVerifier from "./pages/AVerifier";
 import Profile from "./pages/Profile";
+import LotTimeline from "./pages/LotTimeline";
+import StockAlimentLedger from "./pages/StockAlimentLedger";
+import GraphiquesBatiment from "./pages/GraphiquesBatiment";
+import ControleCoherence from "./pages/ControleCoherence";
+import RegistreEffectifs from "./pages/RegistreEffectifs";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Writes invalidate their dependents (queryInvalidation.ts); a short staleTime avoids refetching on every remount.
+      staleTime: 30_000,
+      refetchOnWindowFocus: false,
+      // Network errors are retried once; 4xx (session expirée, accès refusé, introuvable…) are not.
+      retry: (failureCount, error) =>
+        failureCount < 1 && !(error instanceof ApiError && error.status >= 400 && error.status < 500),
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -56,6 +77,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/lots/:lot/timeline"
+              element={
+                <ProtectedRoute>
+                  <LotTimeline />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/reporting-journalier"
               element={
@@ -83,14 +112,27 @@ const App = () => (
             <Route
               path="/planning-vaccination"
               element={
-                <RoleRestrictedRoute
-                  allowedRoles={["ADMINISTRATEUR", "RESPONSABLE_TECHNIQUE", "BACKOFFICE_EMPLOYER", "RESPONSABLE_FERME"]}
-                  redirectTo="/dashboard"
-                >
+                <RoleRestrictedRoute resource="planningVaccination" redirectTo="/dashboard">
                   <PlanningVaccination />
                 </RoleRestrictedRoute>
               }
             />
+            <Route
+              path="/protocoles-vaccination"
+              element={
+                <RoleRestrictedRoute resource="planningVaccination" redirectTo="/dashboard">
+                  <ProtocolesVaccination />
+                </RoleRestrictedRoute>
+              }
+            />
+            <Route
+              path="/normes-performance"
+              element={
+                <RoleRestrictedRoute resource="normesPerformance" redirectTo="/dashboard">
+                  <NormesPerformance />
+                </RoleRestrictedRoute>
+              }
+            />
             <Route
               path="/suivi-technique-hebdomadaire/resume-production"
               element={
@@ -103,7 +145,7 @@ const App = () => (
               path="/suivi-technique-hebdomadaire/resume-couts"
               element={
                 <RoleRestrictedRoute
-                  allowedRoles={["ADMINISTRATEUR", "RESPONSABLE_TECHNIQUE", "BACKOFFICE_EMPLOYER"]}
+                  resource="resumeCouts"
                   redirectTo="/suivi-technique-hebdomadaire"
                 >
                   <ResumeCoutsHebdoPage />
@@ -118,6 +160,38 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/registre-stock-aliment"
+              element={
+                <ProtectedRoute>
+                  <StockAlimentLedger />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/graphiques-batiment"
+              element={
+                <ProtectedRoute>
+                  <GraphiquesBatiment />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/controle-coherence"
+              element={
+                <ProtectedRoute>
+                  <ControleCoherence />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/registre-effectifs"
+              element={
+                <ProtectedRoute>
+                  <RegistreEffectifs />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/fournisseurs"
               element={
@@ -230,6 +304,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/a-verifier"
+              element={
+                <RoleRestrictedRoute resource="verification" redirectTo="/dashboard">
+                  <AVerifier />
+                </RoleRestrictedRoute>
+              }
+            />
+            <Route
+              path="/journal-audit"
+              element={
+                <RoleRestrictedRoute resource="audit" redirectTo="/dashboard">
+                  <JournalAudit />
+                </RoleRestrictedRoute>
+              }
+            />
             <Route
               path="/profil"
               element={
@@ -1,8 +1,9 @@
+import { Fragment } from "react";
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 
 export default function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user, loading } = useAuth();
+  const { user, loading, sessionKey } = useAuth();
   const location = useLocation();
 
   if (loading) {
@@ -17,5 +18,6 @@ export default function ProtectedRoute({ children }: { children: React.ReactNode
     return <Navigate to="/auth" state={{ from: location }} replace />;
   }
 
-  return <>{children}</>;
+  // Remount the page after a farm / role switch (per-farm page state starts over)
+  return <Fragment key={sessionKey}>{children}</Fragment>;
 }
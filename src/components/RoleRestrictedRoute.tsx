@@ -1,27 +1,32 @@
+import { Fragment } from "react";
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import type { PermissionAction, PermissionResource } from "@/lib/permissions";
 
 type RoleRestrictedRouteProps = {
   children: React.ReactNode;
-  /** Role names that are allowed to access this route */
-  allowedRoles: string[];
+  /** Resource of the permission matrix the route shows */
+  resource: PermissionResource;
+  /** Action required on the resource (default: read) */
+  action?: PermissionAction;
   /** Where to redirect when user is not allowed (default: /suivi-technique-hebdomadaire) */
   redirectTo?: string;
 };
 
 /**
- * Route wrapper that restricts access to specific roles.
- * User must have at least one of the allowed roles to see the content.
+ * Route wrapper that restricts access by permission (role × resource × action, see permissions.ts).
+ * One of the user's roles must grant the action on the resource to see the content.
  */
 export default function RoleRestrictedRoute({
   children,
-  allowedRoles,
+  resource,
+  action = "read",
   redirectTo = "/suivi-technique-hebdomadaire",
 }: RoleRestrictedRouteProps) {
-  const { user, loading } = useAuth();
+  const { user, loading, permissionsLoading, can, sessionKey } = useAuth();
   const location = useLocation();
 
-  if (loading) {
+  if (loading || permissionsLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <p className="text-muted-foreground">Chargement...</p>
@@ -33,11 +38,9 @@ export default function RoleRestrictedRoute({
     return <Navigate to="/auth" state={{ from: location }} replace />;
   }
 
-  const hasAllowedRole = user.roles?.some((r) => allowedRoles.includes(r.name ?? "")) ?? false;
-
-  if (!hasAllowedRole) {
+  if (!can(resource, action)) {
     return <Navigate to={redirectTo} replace />;
   }
 
-  return <>{children}</>;
+  return <Fragment key={sessionKey}>{children}</Fragment>;
 }
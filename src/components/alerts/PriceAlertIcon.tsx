@@ -2,24 +2,21 @@ import { useState, useEffect, useCallback } from "react";
 import { DollarSign } from "lucide-react";
 import { BorderBeam } from "@/components/ui/border-beam";
 import { countActiveAlerts } from "@/services/priceAlertService";
-import { useAuth } from "@/contexts/AuthContext";
+import { usePermission } from "@/hooks/usePermission";
 import PriceAlertList from "./PriceAlertList";
 
 /**
  * Price Alert Icon Component
  * Displays a green dollar icon with badge count next to the notification bell
- * Visible to RT, Backoffice, and Administrateur (always shown, like vaccination alerts)
+ * Visible with verification:read — RT, Backoffice and Administrateur by default (always shown, like vaccination alerts)
  * Shows count from ALL accessible farms (not filtered by selected farm)
  */
 export default function PriceAlertIcon() {
-  const { isResponsableTechnique, isBackofficeEmployer, isAdministrateur } = useAuth();
+  const canViewAlerts = usePermission("verification", "read");
   const [count, setCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
 
-  // Show to RT, Backoffice, and Administrateur (always, regardless of farm selection)
-  const canViewAlerts = isResponsableTechnique || isBackofficeEmployer || isAdministrateur;
-
   const fetchCount = useCallback(async () => {
     if (!canViewAlerts) return;
     
@@ -10,7 +10,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/contexts/AuthContext";
+import { usePermission } from "@/hooks/usePermission";
 import { useToast } from "@/hooks/use-toast";
 import {
   getActiveAlerts,
@@ -27,10 +27,10 @@ interface PriceAlertListProps {
  * Price Alert List Component
  * Modal/drawer to display all active price alerts
  * Shows: page name, ligne description, created date, created by
- * Confirmation button (only for RT and Backoffice)
+ * Confirmation button (verification:update)
  */
 export default function PriceAlertList({ open, onOpenChange }: PriceAlertListProps) {
-  const { isResponsableTechnique, isBackofficeEmployer, isAdministrateur } = useAuth();
+  const canConfirm = usePermission("verification", "update");
   const { toast } = useToast();
   const [alerts, setAlerts] = useState<PriceAlertResponse[]>([]);
   const [loading, setLoading] = useState(true);
@@ -44,9 +44,6 @@ export default function PriceAlertList({ open, onOpenChange }: PriceAlertListPro
   const [processedAlerts, setProcessedAlerts] = useState<Set<number>>(new Set());
   const [showAllAlerts, setShowAllAlerts] = useState(false);
 
-  // RT, Backoffice, and Admin can confirm alerts
-  const canConfirm = isResponsableTechnique || isBackofficeEmployer || isAdministrateur;
-
   // Sequential thinking logic
   const hasManyAlerts = totalElements > 1; // Activate from 2 alerts
   const shouldUseSequentialThinking = hasManyAlerts && !showAllAlerts;
@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from "react";
+import { Check, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useLivraisonsProduitsVeterinairesQuery, useVaccinationAdministrationsQuery } from "@/hooks/useApiQueries";
+import { api, type VaccinationAlertResponse } from "@/lib/api";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { matchingStock, veterinaryStock } from "@/lib/vaccinationAdministrationsShared";
+
+export interface VaccinationAdministrationDialogProps {
+  /** Alert being confirmed; null closes the dialog. */
+  alert: VaccinationAlertResponse | null;
+  onClose: () => void;
+  /** Called once the alert is confirmed and the administration recorded. */
+  onConfirmed: (alert: VaccinationAlertResponse) => void;
+}
+
+/** Now as "yyyy-MM-ddTHH:mm" in local time (datetime-local input). */
+function localNow(): string {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** Quantity used (> 0); null when empty or invalid. */
+function parseQuantity(s: string): number | null {
+  const t = s.trim().replace(",", ".");
+  if (t === "") return null;
+  const n = Number(t);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+const labelClass = "text-xs font-medium text-muted-foreground";
+
+/**
+ * Confirmation of a vaccination alert with what was actually administered: product, vaccine lot number, dose,
+ * quantity, operator and time. The quantity is drawn from the matching Produits vétérinaires livraison of the lot.
+ */
+export default function VaccinationAdministrationDialog({ alert, onClose, onConfirmed }: VaccinationAdministrationDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const livraisonsQuery = useLivraisonsProduitsVeterinairesQuery(alert?.farmId, alert?.lot);
+  const administrationsQuery = useVaccinationAdministrationsQuery(alert?.farmId, alert?.lot);
+
+  const [produit, setProduit] = useState("");
+  const [numeroLotVaccin, setNumeroLotVaccin] = useState("");
+  const [dose, setDose] = useState("");
+  const [quantite, setQuantite] = useState("");
+  const [operateur, setOperateur] = useState("");
+  const [administeredAt, setAdministeredAt] = useState("");
+  const [remarques, setRemarques] = useState("");
+  /** Livraison id as string; "" = not drawn from stock. null = not chosen yet (best match). */
+  const [livraisonChoice, setLivraisonChoice] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!alert) return;
+    setProduit(alert.vaccinTraitement?.trim() ?? "");
+    setNumeroLotVaccin("");
+    setDose(alert.quantite?.trim() ?? "");
+    setQuantite("");
+    setOperateur(user?.displayName?.trim() || user?.username || "");
+    setAdministeredAt(localNow());
+    setRemarques("");
+    setLivraisonChoice(null);
+  }, [alert, user?.displayName, user?.username]);
+
+  const stock = useMemo(
+    () => veterinaryStock(livraisonsQuery.data ?? [], administrationsQuery.data ?? []),
+    [livraisonsQuery.data, administrationsQuery.data]
+  );
+  const matches = useMemo(() => matchingStock(stock, produit), [stock, produit]);
+  const selectedId =
+    livraisonChoice != null
+      ? livraisonChoice
+      : matches[0] && matches[0].remaining > 0
+        ? String(matches[0].livraison.id)
+        : "";
+  const selectedStock = stock.find((s) => String(s.livraison.id) === selectedId) ?? null;
+  const quantity = parseQuantity(quantite);
+  const overdrawn = selectedStock != null && quantity != null && quantity > selectedStock.remaining;
+  const stockLoading = livraisonsQuery.isLoading || administrationsQuery.isLoading;
+  // Without both lists the remaining stock is unknown: confirming could draw from an exhausted livraison
+  const stockError = livraisonsQuery.isError || administrationsQuery.isError;
+
+  const handleSubmit = async () => {
+    if (!alert || stockLoading || stockError) return;
+    if (!produit.trim() || !operateur.trim() || !administeredAt) {
+      toast({
+        title: "Champs requis",
+        description: "Indiquez le produit, l'opérateur et l'heure d'administration.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (quantite.trim() !== "" && quantity == null) {
+      toast({
+        title: "Quantité invalide",
+        description: "Saisissez une quantité supérieure à 0.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (selectedStock && quantity == null) {
+      toast({
+        title: "Quantité requise",
+        description: "Indiquez la quantité utilisée pour la déduire du stock.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSaving(true);
+    try {
+      await api.vaccinationAlerts.confirm(
+        { farmId: alert.farmId, lot: alert.lot, planningId: alert.planningId },
+        {
+          produit: produit.trim(),
+          numeroLotVaccin: numeroLotVaccin.trim() || null,
+          dose: dose.trim() || null,
+          quantite: quantity,
+          operateur: operateur.trim(),
+          administeredAt,
+          livraisonProduitVeterinaireId: selectedStock?.livraison.id ?? null,
+          remarques: remarques.trim() || null,
+        }
+      );
+      void invalidateAfterWrite("vaccinationAdministrations", { farmId: alert.farmId, lot: alert.lot });
+      toast({
+        title: "Vaccination enregistrée",
+        description: selectedStock
+          ? `${produit.trim()} administré ; ${formatGroupedNumber(quantity ?? 0, 2)} ${selectedStock.livraison.ug ?? ""} déduit(s) du stock.`
+          : `${produit.trim()} administré ; l'alerte est traitée.`,
+      });
+      onConfirmed(alert);
+    } catch {
+      toast({ title: "Erreur", description: "Impossible de confirmer.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={alert != null} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Confirmer la vaccination</DialogTitle>
+          <DialogDescription>
+            {alert && `${alert.farmName} — Lot ${alert.lot} • ${alert.vaccineAgeLabel}${alert.motif ? ` • ${alert.motif}` : ""}. `}
+            Indiquez ce qui a été réellement administré.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="sm:col-span-2 flex flex-col gap-1">
+            <span className={labelClass}>Produit *</span>
+            <Input value={produit} onChange={(e) => setProduit(e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>N° de lot du vaccin</span>
+            <Input value={numeroLotVaccin} onChange={(e) => setNumeroLotVaccin(e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Dose</span>
+            <Input value={dose} onChange={(e) => setDose(e.target.value)} placeholder="ex. 0,5 ml / sujet" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Quantité utilisée{selectedStock?.livraison.ug ? ` (${selectedStock.livraison.ug})` : ""}</span>
+            <Input value={quantite} onChange={(e) => setQuantite(e.target.value)} inputMode="decimal" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Date et heure *</span>
+            <Input type="datetime-local" value={administeredAt} onChange={(e) => setAdministeredAt(e.target.value)} />
+          </label>
+          <label className="sm:col-span-2 flex flex-col gap-1">
+            <span className={labelClass}>Opérateur *</span>
+            <Input value={operateur} onChange={(e) => setOperateur(e.target.value)} />
+          </label>
+          <label className="sm:col-span-2 flex flex-col gap-1">
+            <span className={labelClass}>Stock produits vétérinaires</span>
+            {stockLoading ? (
+              <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" /> Chargement du stock…
+              </span>
+            ) : stockError ? (
+              <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/40 p-3 flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm font-medium text-red-800 dark:text-red-200">
+                  Impossible de charger le stock du lot : la vaccination ne peut pas être confirmée.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    if (livraisonsQuery.isError) void livraisonsQuery.refetch();
+                    if (administrationsQuery.isError) void administrationsQuery.refetch();
+                  }}
+                >
+                  Réessayer
+                </Button>
+              </div>
+            ) : (
+              <select
+                value={selectedId}
+                onChange={(e) => setLivraisonChoice(e.target.value)}
+                className="rounded-md border border-input bg-background px-2 py-2 text-sm"
+              >
+                <option value="">Hors stock (pas de déduction)</option>
+                {(matches.length > 0 ? matches : stock).map((s) => (
+                  <option key={s.livraison.id} value={s.livraison.id}>
+                    {s.livraison.designation} — livré le {s.livraison.date}
+                    {s.livraison.deliveryNoteNumber ? ` (BL ${s.livraison.deliveryNoteNumber})` : ""} — reste{" "}
+                    {formatGroupedNumber(s.remaining, 2)} {s.livraison.ug ?? ""}
+                  </option>
+                ))}
+              </select>
+            )}
+            {!stockLoading && !stockError && matches.length === 0 && produit.trim() !== "" && (
+              <span className="text-xs text-muted-foreground">
+                Aucune livraison de « {produit.trim()} » pour ce lot dans Produits vétérinaires.
+              </span>
+            )}
+            {overdrawn && (
+              <span className="text-xs text-amber-700 dark:text-amber-400">
+                La quantité dépasse le stock restant de cette livraison.
+              </span>
+            )}
+          </label>
+          <label className="sm:col-span-2 flex flex-col gap-1">
+            <span className={labelClass}>Remarques</span>
+            <Input value={remarques} onChange={(e) => setRemarques(e.target.value)} />
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Annuler
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={saving || stockLoading || stockError}
+            className="gap-1 bg-green-600 hover:bg-green-700"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Confirmer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -34,6 +34,7 @@ import { VACCINATION_ALERTS_REFRESH_EVENT } from "@/lib/vaccinationAlertsEvents"
 import { initAlertSound, unlockAndPlayVaccinationAlertSound, playVaccinationAlertSound } from "@/lib/alertSound";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import VaccinationAdministrationDialog from "./VaccinationAdministrationDialog";
 
 /** Format YYYY-MM-DD to dd/mm/yyyy */
 function formatDate(s: string | null | undefined): string {
@@ -53,6 +54,7 @@ export default function VaccinationAlertsBanner() {
   const [alerts, setAlerts] = useState<VaccinationAlertResponse[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [confirmFor, setConfirmFor] = useState<VaccinationAlertResponse | null>(null);
   const [rescheduleFor, setRescheduleFor] = useState<{ planningId: number; farmId: number; lot: string } | null>(null);
   const [rescheduleDate, setRescheduleDate] = useState("");
   const [rescheduleTime, setRescheduleTime] = useState("09:00");
@@ -241,21 +243,19 @@ export default function VaccinationAlertsBanner() {
     }
   };
 
-  const handleConfirm = async (a: VaccinationAlertResponse) => {
-    try {
-      await api.vaccinationAlerts.confirm({ farmId: a.farmId, lot: a.lot, planningId: a.planningId });
-      toast({ title: "Alert confirmée", description: "L'alerte a été marquée comme traitée." });
-      
-      // Mark as processed in sequential thinking mode
-      if (shouldUseSequentialThinking && currentAlert && a.planningId === currentAlert.planningId) {
-        setProcessedAlerts(prev => new Set([...prev, a.planningId]));
-        handleNextAlert();
-      }
-      
-      fetchAlerts();
-    } catch {
-      toast({ title: "Erreur", description: "Impossible de confirmer.", variant: "destructive" });
+  /** Confirming asks what was administered (VaccinationAdministrationDialog), which records it and confirms. */
+  const handleConfirm = (a: VaccinationAlertResponse) => setConfirmFor(a);
+
+  const handleConfirmed = (a: VaccinationAlertResponse) => {
+    setConfirmFor(null);
+
+    // Mark as processed in sequential thinking mode
+    if (shouldUseSequentialThinking && currentAlert && a.planningId === currentAlert.planningId) {
+      setProcessedAlerts(prev => new Set([...prev, a.planningId]));
+      handleNextAlert();
     }
+
+    fetchAlerts();
   };
 
   const handleNextAlert = () => {
@@ -931,6 +931,12 @@ export default function VaccinationAlertsBanner() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <VaccinationAdministrationDialog
+        alert={confirmFor}
+        onClose={() => setConfirmFor(null)}
+        onConfirmed={handleConfirmed}
+      />
     </>
   );
 }
@@ -0,0 +1,146 @@
+import { History, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useAuditRowHistoryQuery } from "@/hooks/useApiQueries";
+import { ApiError, type AuditEntityType, type AuditEntryResponse, type AuditFieldChange } from "@/lib/api";
+import {
+  AUDIT_ACTION_LABELS,
+  auditEntityLabel,
+  auditFieldLabel,
+  auditUserLabel,
+  auditVersionsWithChanges,
+  formatAuditTimestamp,
+  formatAuditValue,
+} from "@/lib/auditTrailShared";
+
+/** Metadata carried by the row itself, shown when the audit trail has no entry for it. */
+export interface RowAuditMeta {
+  version?: number | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  createdBy?: string | number | null;
+  verifiedBy?: string | number | null;
+  verifiedAt?: string | null;
+}
+
+export interface RowHistoryTarget {
+  entityType: AuditEntityType;
+  entityId: number;
+  /** Row summary under the title (date, désignation…). */
+  title: string;
+  meta?: RowAuditMeta;
+}
+
+const ACTION_BADGE: Record<AuditEntryResponse["action"], string> = {
+  CREATE: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300",
+  UPDATE: "bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-300",
+  DELETE: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+export function AuditChangesTable({ changes, action }: { changes: AuditFieldChange[]; action: AuditEntryResponse["action"] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">Aucun champ modifié.</p>;
+  }
+  return (
+    <table className="w-full text-xs">
+      <thead className="text-muted-foreground">
+        <tr>
+          <th className="py-1 pr-2 text-left font-medium">Champ</th>
+          {action !== "CREATE" && <th className="py-1 pr-2 text-left font-medium">Avant</th>}
+          {action !== "DELETE" && <th className="py-1 text-left font-medium">Après</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((c) => (
+          <tr key={c.field} className="border-t border-border/60 align-top">
+            <td className="py-1 pr-2 font-medium">{auditFieldLabel(c.field)}</td>
+            {action !== "CREATE" && (
+              <td className="py-1 pr-2 text-muted-foreground line-through decoration-red-400/70 break-all">
+                {formatAuditValue(c.oldValue)}
+              </td>
+            )}
+            {action !== "DELETE" && <td className="py-1 break-all">{formatAuditValue(c.newValue)}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function RowMetaSummary({ meta }: { meta?: RowAuditMeta }) {
+  const lines = [
+    meta?.createdAt ? `Créée le ${formatAuditTimestamp(meta.createdAt)}${meta.createdBy != null ? ` par ${meta.createdBy}` : ""}` : null,
+    meta?.updatedAt && meta.updatedAt !== meta.createdAt ? `Dernière modification le ${formatAuditTimestamp(meta.updatedAt)}` : null,
+    meta?.verifiedAt ? `Vérifiée le ${formatAuditTimestamp(meta.verifiedAt)}${meta.verifiedBy != null ? ` par ${meta.verifiedBy}` : ""}` : null,
+    meta?.version != null ? `Version ${meta.version}` : null,
+  ].filter(Boolean);
+  if (lines.length === 0) return null;
+  return (
+    <ul className="text-xs text-muted-foreground space-y-0.5">
+      {lines.map((l) => (
+        <li key={l}>{l}</li>
+      ))}
+    </ul>
+  );
+}
+
+interface RowHistorySheetProps {
+  target: RowHistoryTarget | null;
+  onClose: () => void;
+}
+
+/** Right-hand panel listing every version of one row (user, date, field-level diff), newest first. */
+export default function RowHistorySheet({ target, onClose }: RowHistorySheetProps) {
+  const { data = [], isLoading, error } = useAuditRowHistoryQuery(target?.entityType ?? null, target?.entityId ?? null);
+  const versions = auditVersionsWithChanges(data);
+  const notFound = error instanceof ApiError && error.status === 404;
+
+  return (
+    <Sheet open={target != null} onOpenChange={(o) => !o && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" /> Historique
+          </SheetTitle>
+          <SheetDescription>
+            {target ? `${auditEntityLabel(target.entityType)} — ${target.title}` : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4">
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" /> Chargement...
+            </div>
+          ) : error && !notFound ? (
+            <p className="text-sm text-destructive">
+              {error instanceof Error ? error.message : "Impossible de charger l'historique."}
+            </p>
+          ) : versions.length === 0 ? (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Aucune version enregistrée pour cette ligne.</p>
+              <RowMetaSummary meta={target?.meta} />
+            </div>
+          ) : (
+            <ol className="relative border-l border-border ml-2 space-y-4">
+              {versions.map(({ entry, changes }) => (
+                <li key={entry.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-semibold">v{entry.version}</span>
+                    <Badge variant="outline" className={`border-transparent ${ACTION_BADGE[entry.action]}`}>
+                      {AUDIT_ACTION_LABELS[entry.action]}
+                    </Badge>
+                    <span className="text-muted-foreground">{formatAuditTimestamp(entry.timestamp)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mb-1.5">par {auditUserLabel(entry)}</p>
+                  <AuditChangesTable changes={changes} action={entry.action} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useState } from "react";
+import { GitMerge } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  differingConflictFields,
+  formatConflictValue,
+  mergeConflictRows,
+  type ConflictChoice,
+  type ConflictField,
+} from "@/lib/conflictMerge";
+
+export interface ConflictMergeDialogProps<T> {
+  open: boolean;
+  title?: string;
+  description?: string;
+  fields: ConflictField<T>[];
+  /** Row as the user tried to save it. */
+  mine: T;
+  /** Current row on the server. */
+  theirs: T;
+  /** Save the merged row (theirs as base, user's choices applied). */
+  onMerge: (merged: T) => void;
+  /** Discard the user's changes and keep the server row. */
+  onKeepTheirs: () => void;
+}
+
+/**
+ * Conflict resolution dialog (optimistic locking).
+ * Shows only the fields that differ, side by side; for each one the user picks « Ma saisie » or « Serveur ».
+ * Default choice is the user's value.
+ */
+export default function ConflictMergeDialog<T>({
+  open,
+  title = "Conflit de modification",
+  description = "Cette ligne a été modifiée par un autre utilisateur pendant votre saisie. Choisissez la valeur à conserver pour chaque champ.",
+  fields,
+  mine,
+  theirs,
+  onMerge,
+  onKeepTheirs,
+}: ConflictMergeDialogProps<T>) {
+  const diffs = useMemo(() => differingConflictFields(fields, mine, theirs), [fields, mine, theirs]);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    if (open) setChoices({});
+  }, [open, mine, theirs]);
+
+  const choose = (key: string, side: ConflictChoice) => setChoices((prev) => ({ ...prev, [key]: side }));
+
+  const cellClass = (selected: boolean) =>
+    `px-3 py-2 text-left align-top cursor-pointer border transition-colors ${
+      selected ? "bg-primary/10 border-primary font-medium" : "border-border hover:bg-muted/60"
+    }`;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onKeepTheirs()}>
+      <DialogContent className="w-[95vw] max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-amber-600" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {diffs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Aucune différence sur les champs saisis : votre enregistrement peut être relancé sur la version serveur.
+          </p>
+        ) : (
+          <div className="max-h-[60vh] overflow-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="px-3 py-2 text-left font-semibold border border-border">Champ</th>
+                  <th className="px-3 py-2 text-left font-semibold border border-border">Ma saisie</th>
+                  <th className="px-3 py-2 text-left font-semibold border border-border">Serveur</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diffs.map((f) => {
+                  const side = choices[f.key] ?? "mine";
+                  return (
+                    <tr key={f.key}>
+                      <td className="px-3 py-2 border border-border text-muted-foreground">{f.label}</td>
+                      <td className={cellClass(side === "mine")} onClick={() => choose(f.key, "mine")}>
+                        {formatConflictValue(f, mine)}
+                      </td>
+                      <td className={cellClass(side === "theirs")} onClick={() => choose(f.key, "theirs")}>
+                        {formatConflictValue(f, theirs)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onKeepTheirs}>
+            Garder la version serveur
+          </Button>
+          <Button type="button" onClick={() => onMerge(mergeConflictRows(fields, mine, theirs, choices))}>
+            Enregistrer la fusion
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
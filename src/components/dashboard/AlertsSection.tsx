@@ -3,18 +3,37 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertTriangle, BellOff, Check, ChevronDown, ChevronUp, ExternalLink } from "lucide-react";
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
 
 export interface Alert {
   id: string;
   message: string;
   severity: "critical" | "warning" | "info";
+  /** Small line under the message (type, date…). */
+  detail?: string;
+  /** Drill-down to the offending row. */
+  link?: string;
 }
 
+/** Snooze durations offered on each alert (days). */
+const SNOOZE_DAYS = [1, 3, 7];
+
 interface AlertsSectionProps {
   alerts: Alert[];
+  title?: string;
+  /** With the handlers, each alert gets Acquitter / Reporter actions. */
+  onAcknowledge?: (alert: Alert) => void;
+  onSnooze?: (alert: Alert, days: number) => void;
+  actionsDisabled?: boolean;
   className?: string;
 }
 
@@ -24,8 +43,18 @@ const SEVERITY_STYLES = {
   info: "border-blue-200 bg-blue-50 text-blue-800 dark:border-blue-900 dark:bg-blue-950/30 dark:text-blue-300",
 };
 
-export function AlertsSection({ alerts, className }: AlertsSectionProps) {
-  const [open, setOpen] = useState(alerts.length > 0);
+const ACTION_CLASS =
+  "inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-medium hover:bg-black/5 dark:hover:bg-white/10 disabled:opacity-50 disabled:pointer-events-none";
+
+export function AlertsSection({
+  alerts,
+  title = "Alertes critiques",
+  onAcknowledge,
+  onSnooze,
+  actionsDisabled,
+  className,
+}: AlertsSectionProps) {
+  const [open, setOpen] = useState(true);
 
   if (alerts.length === 0) return null;
 
@@ -41,7 +70,7 @@ export function AlertsSection({ alerts, className }: AlertsSectionProps) {
           <div className="flex items-center gap-2">
             <AlertTriangle className="h-5 w-5 text-amber-500" />
             <span className="font-semibold text-foreground">
-              Alertes critiques ({alerts.length})
+              {title} ({alerts.length})
             </span>
           </div>
           {open ? (
@@ -51,7 +80,7 @@ export function AlertsSection({ alerts, className }: AlertsSectionProps) {
           )}
         </CollapsibleTrigger>
         <CollapsibleContent>
-          <ul className="mt-3 space-y-2">
+          <ul className="mt-3 max-h-96 space-y-2 overflow-y-auto">
             {alerts.map((alert) => (
               <li
                 key={alert.id}
@@ -61,7 +90,44 @@ export function AlertsSection({ alerts, className }: AlertsSectionProps) {
                 )}
               >
                 <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
-                {alert.message}
+                <div className="min-w-0 flex-1">
+                  <div>{alert.message}</div>
+                  {alert.detail && <div className="text-xs opacity-80">{alert.detail}</div>}
+                </div>
+                <div className="flex shrink-0 flex-wrap items-center justify-end gap-1">
+                  {alert.link && (
+                    <Link to={alert.link} className={ACTION_CLASS}>
+                      <ExternalLink className="h-3.5 w-3.5" />
+                      Voir le jour
+                    </Link>
+                  )}
+                  {onSnooze && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger className={ACTION_CLASS} disabled={actionsDisabled}>
+                        <BellOff className="h-3.5 w-3.5" />
+                        Reporter
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {SNOOZE_DAYS.map((days) => (
+                          <DropdownMenuItem key={days} onClick={() => onSnooze(alert, days)}>
+                            {days === 1 ? "1 jour" : `${days} jours`}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  {onAcknowledge && (
+                    <button
+                      type="button"
+                      onClick={() => onAcknowledge(alert)}
+                      disabled={actionsDisabled}
+                      className={ACTION_CLASS}
+                    >
+                      <Check className="h-3.5 w-3.5" />
+                      Acquitter
+                    </button>
+                  )}
+                </div>
               </li>
             ))}
           </ul>
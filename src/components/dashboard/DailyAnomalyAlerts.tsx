@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useFarmsQuery } from "@/hooks/useApiQueries";
+import { useDailyAnomalies } from "@/hooks/useDailyAnomalies";
+import { usePermission } from "@/hooks/usePermission";
+import { api } from "@/lib/api";
+import { DAILY_ANOMALY_KIND_LABELS } from "@/lib/dailyAnomalies";
+import { cn } from "@/lib/utils";
+import { AlertsSection, type Alert } from "./AlertsSection";
+
+function formatDay(iso: string): string {
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? `${m[3]}/${m[2]}/${m[1]}` : iso;
+}
+
+/**
+ * Mortality spikes, water drops and temperature excursions of the open lots (dailyAnomalies.ts), with acknowledge
+ * and snooze. Same list as the badge of "Tableau de bord" in the sidebar.
+ */
+export function DailyAnomalyAlerts({ className }: { className?: string }) {
+  const { selectedFarmId, canAccessAllFarms } = useAuth();
+  const canAcknowledge = usePermission("alertesSanitaires", "update", selectedFarmId);
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const { anomalies, failedLots, refetchFailed } = useDailyAnomalies();
+  const { data: farms = [] } = useFarmsQuery(selectedFarmId == null && canAccessAllFarms);
+  const [saving, setSaving] = useState(false);
+
+  const alerts: Alert[] = anomalies.map((a) => {
+    const farmName = selectedFarmId == null ? farms.find((f) => f.id === a.farmId)?.name : undefined;
+    return {
+      id: a.id,
+      message: a.message,
+      severity: a.severity,
+      detail: [DAILY_ANOMALY_KIND_LABELS[a.kind], formatDay(a.date), farmName].filter(Boolean).join(" · "),
+      link: a.link,
+    };
+  });
+
+  const save = async (alert: Alert, snoozeDays: number | null) => {
+    const anomaly = anomalies.find((a) => a.id === alert.id);
+    if (!anomaly) return;
+    setSaving(true);
+    try {
+      await api.anomalyAcknowledgements.save({
+        farmId: anomaly.farmId,
+        lot: anomaly.lot,
+        anomalyId: anomaly.id,
+        snoozedUntil: snoozeDays != null ? new Date(Date.now() + snoozeDays * 24 * 60 * 60 * 1000).toISOString() : null,
+      });
+      void invalidateAfterWrite("anomalyAcknowledgements", { farmId: anomaly.farmId, lot: anomaly.lot });
+      toast({
+        title: snoozeDays != null ? "Alerte reportée" : "Alerte acquittée",
+        description:
+          snoozeDays != null
+            ? `L'alerte réapparaîtra dans ${snoozeDays === 1 ? "1 jour" : `${snoozeDays} jours`} si elle est toujours d'actualité.`
+            : "L'alerte ne sera plus affichée.",
+      });
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer l'acquittement.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const failedLabels = failedLots.map(({ farmId, lot }) => {
+    const farmName = selectedFarmId == null ? farms.find((f) => f.id === farmId)?.name : undefined;
+    return farmName ? `${farmName} — Lot ${lot}` : `Lot ${lot}`;
+  });
+
+  return (
+    <>
+      {failedLots.length > 0 && (
+        <div
+          className={cn(
+            "rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/40 p-4 flex flex-wrap items-center justify-between gap-3",
+            className
+          )}
+        >
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">
+            Alertes sanitaires non vérifiées ({failedLabels.join(", ")}) : les données du lot n'ont pas pu être chargées.
+          </p>
+          <Button variant="outline" size="sm" onClick={refetchFailed}>
+            Réessayer
+          </Button>
+        </div>
+      )}
+      <AlertsSection
+        alerts={alerts}
+        title="Alertes sanitaires"
+        onAcknowledge={canAcknowledge ? (alert) => void save(alert, null) : undefined}
+        onSnooze={canAcknowledge ? (alert, days) => void save(alert, days) : undefined}
+        actionsDisabled={saving}
+        className={className}
+      />
+    </>
+  );
+}
@@ -0,0 +1,383 @@
+/**
+ * Comparaison multi-lots — overlay of the weekly curves of several (ferme, lot) pairs.
+ * Series are loaded per lot (lotComparison.ts) and cached under queryKeys.lotComparison, so adding a lot
+ * only fetches that lot. Below the chart: écart à la moyenne des lots (PerformanceHeatMap) and
+ * semaine à semaine per lot (WeekOverWeekTable).
+ */
+
+import { useMemo, useState } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { GitCompareArrows, Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useLotsWithStatusQuery } from "@/hooks/useApiQueries";
+import { queryKeys } from "@/lib/queryKeys";
+import { canReadClosedLot, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import {
+  COMPARISON_METRICS,
+  comparisonLotLabel,
+  comparisonWeeks,
+  lastTwoWeeksWithValue,
+  loadLotComparisonSeries,
+  type ComparisonLotRef,
+  type ComparisonLotSeries,
+  type ComparisonMetric,
+  type ComparisonMetricDef,
+} from "@/lib/lotComparison";
+import { cn } from "@/lib/utils";
+import { PerformanceHeatMap, type HeatMapRow, type PerformanceStatus } from "./PerformanceHeatMap";
+import { WeekOverWeekTable, type WoWRow } from "./WeekOverWeekTable";
+
+/** More lines than this makes the overlay unreadable. */
+const MAX_COMPARED_LOTS = 6;
+
+const LINE_COLORS = [
+  "hsl(142, 71%, 35%)",
+  "hsl(217, 91%, 55%)",
+  "hsl(25, 95%, 50%)",
+  "hsl(280, 65%, 55%)",
+  "hsl(0, 72%, 51%)",
+  "hsl(180, 70%, 35%)",
+];
+
+/** Relative gap to the mean of the compared lots: within OK → ok, within WATCH (wrong direction) → à suivre. */
+const STATUS_OK_GAP = 0.05;
+const STATUS_WATCH_GAP = 0.15;
+
+interface LotComparisonViewProps {
+  farms: { id: number; name: string }[];
+  lotAccessCtx: ClosedLotSessionContext;
+}
+
+function formatMetric(value: number | null | undefined, def: ComparisonMetricDef): string {
+  return value == null || Number.isNaN(value) ? "—" : formatGroupedNumber(value, def.decimals);
+}
+
+function seriesKey(ref: ComparisonLotRef): string {
+  return `${ref.farmId}|${ref.lot}`;
+}
+
+function lastValue(series: ComparisonLotSeries, metric: ComparisonMetric): number | null {
+  for (let i = series.weeks.length - 1; i >= 0; i--) {
+    const v = series.values[series.weeks[i]]?.[metric];
+    if (v != null) return v;
+  }
+  return null;
+}
+
+function statusAgainstMean(value: number | null, mean: number | null, def: ComparisonMetricDef): PerformanceStatus {
+  if (value == null || mean == null || mean === 0) return "watch";
+  const gap = (value - mean) / Math.abs(mean);
+  const worseGap = def.higherIsBetter ? -gap : gap;
+  if (worseGap <= STATUS_OK_GAP) return "ok";
+  if (worseGap <= STATUS_WATCH_GAP) return "watch";
+  return "bad";
+}
+
+function weekOverWeekRows(series: ComparisonLotSeries): { weeks: [string, string] | null; rows: WoWRow[] } {
+  // Columns follow the most recent pair of weeks that has a mortalité value (always present once the week is entered)
+  const weeks = lastTwoWeeksWithValue(series, "mortaliteCumulPct") ?? lastTwoWeeksWithValue(series, "poidsMoyen");
+  if (!weeks) return { weeks: null, rows: [] };
+  const [prevWeek, curWeek] = weeks;
+  const rows = COMPARISON_METRICS.map((def) => {
+    const previous = series.values[prevWeek]?.[def.key] ?? null;
+    const current = series.values[curWeek]?.[def.key] ?? null;
+    const change =
+      previous != null && current != null && previous !== 0
+        ? Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10
+        : 0;
+    return {
+      metric: def.label,
+      previous: formatMetric(previous, def),
+      current: formatMetric(current, def),
+      change,
+      unit: def.unit,
+      higherIsBetter: def.higherIsBetter,
+    };
+  });
+  return { weeks, rows };
+}
+
+export function LotComparisonView({ farms, lotAccessCtx }: LotComparisonViewProps) {
+  const [pickerFarmId, setPickerFarmId] = useState<number | null>(farms[0]?.id ?? null);
+  const [selected, setSelected] = useState<ComparisonLotRef[]>([]);
+  const [metric, setMetric] = useState<ComparisonMetric>("mortaliteCumulPct");
+
+  const effectivePickerFarmId = pickerFarmId ?? farms[0]?.id ?? null;
+  const { data: pickerLots = [], isLoading: pickerLotsLoading } = useLotsWithStatusQuery(effectivePickerFarmId);
+  const readableLots = useMemo(
+    () =>
+      pickerLots
+        .filter((l) => canReadClosedLot(l.closed, l.closedByUserId, lotAccessCtx))
+        .sort((a, b) => a.lot.localeCompare(b.lot, undefined, { numeric: true })),
+    [pickerLots, lotAccessCtx]
+  );
+
+  const seriesQueries = useQueries({
+    queries: selected.map((ref) => ({
+      queryKey: queryKeys.lotComparison.get({ farmId: ref.farmId, lot: ref.lot }),
+      queryFn: () => loadLotComparisonSeries(ref),
+    })),
+  });
+  const isLoadingSeries = seriesQueries.some((q) => q.isLoading);
+  const failedQueries = selected
+    .map((ref, i) => ({ ref, query: seriesQueries[i] }))
+    .filter((f) => f.query?.isError);
+  const series = seriesQueries.map((q) => q.data).filter((s): s is ComparisonLotSeries => s != null);
+
+  const metricDef = COMPARISON_METRICS.find((m) => m.key === metric) ?? COMPARISON_METRICS[0];
+  const weeks = comparisonWeeks(series);
+
+  // Color follows the position in the selection, so a lot keeps its color while the others load
+  const colorOf = (ref: ComparisonLotRef) => {
+    const i = selected.findIndex((r) => seriesKey(r) === seriesKey(ref));
+    return LINE_COLORS[Math.max(i, 0) % LINE_COLORS.length];
+  };
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    series.map((s, i) => [`l${i}`, { label: comparisonLotLabel(s), color: colorOf(s) }])
+  );
+
+  const chartData = weeks.map((semaine) => {
+    const point: Record<string, string | number | null> = { semaine };
+    series.forEach((s, i) => {
+      point[`l${i}`] = s.values[semaine]?.[metric] ?? null;
+    });
+    return point;
+  });
+
+  const lastValues = series.map((s) => lastValue(s, metric));
+  const knownLastValues = lastValues.filter((v): v is number => v != null);
+  const lotsMean = knownLastValues.length > 0 ? knownLastValues.reduce((a, b) => a + b, 0) / knownLastValues.length : null;
+  const heatMapRows: HeatMapRow[] = series.map((s, i) => ({
+    metric: comparisonLotLabel(s),
+    values: weeks.map((w) => formatMetric(s.values[w]?.[metric], metricDef)),
+    status: statusAgainstMean(lastValues[i], lotsMean, metricDef),
+  }));
+
+  const isSelected = (farmId: number, lot: string) => selected.some((r) => r.farmId === farmId && r.lot === lot);
+
+  const toggleLot = (farmId: number, lot: string) => {
+    if (isSelected(farmId, lot)) {
+      setSelected((prev) => prev.filter((r) => !(r.farmId === farmId && r.lot === lot)));
+      return;
+    }
+    if (selected.length >= MAX_COMPARED_LOTS) return;
+    const farmName = farms.find((f) => f.id === farmId)?.name ?? `Ferme ${farmId}`;
+    setSelected((prev) => [...prev, { farmId, farmName, lot }]);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Lot picker */}
+      <div className="bg-card rounded-lg border border-border shadow-sm p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <label htmlFor="comparison-farm" className="text-xs font-medium text-muted-foreground">
+              Ferme
+            </label>
+            <select
+              id="comparison-farm"
+              value={effectivePickerFarmId ?? ""}
+              onChange={(e) => setPickerFarmId(e.target.value ? Number(e.target.value) : null)}
+              className="block rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {farms.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1 min-w-[200px] space-y-1">
+            <span className="text-xs font-medium text-muted-foreground">
+              Lots ({selected.length}/{MAX_COMPARED_LOTS} sélectionnés)
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {pickerLotsLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : readableLots.length === 0 ? (
+                <span className="text-sm text-muted-foreground">Aucun lot pour cette ferme</span>
+              ) : (
+                readableLots.map((l) => {
+                  const active = effectivePickerFarmId != null && isSelected(effectivePickerFarmId, l.lot);
+                  const disabled = !active && selected.length >= MAX_COMPARED_LOTS;
+                  return (
+                    <button
+                      key={l.lot}
+                      type="button"
+                      aria-pressed={active}
+                      disabled={disabled}
+                      onClick={() => effectivePickerFarmId != null && toggleLot(effectivePickerFarmId, l.lot)}
+                      className={cn(
+                        "inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium transition-colors disabled:opacity-40",
+                        active
+                          ? "border-transparent bg-primary text-primary-foreground"
+                          : "border-border text-foreground hover:bg-muted"
+                      )}
+                    >
+                      {!active && <Plus className="h-3 w-3" />}
+                      Lot {l.lot}
+                      {l.closed && <span className="opacity-70">(clôturé)</span>}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+
+        {selected.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 border-t border-border pt-3">
+            <span className="text-xs font-medium text-muted-foreground">Comparés :</span>
+            {selected.map((ref) => (
+              <span
+                key={seriesKey(ref)}
+                className="inline-flex items-center gap-1.5 rounded-full border border-border bg-muted/40 px-2.5 py-0.5 text-xs"
+              >
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: colorOf(ref) }} />
+                {comparisonLotLabel(ref)}
+                <button
+                  type="button"
+                  onClick={() => toggleLot(ref.farmId, ref.lot)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label={`Retirer ${comparisonLotLabel(ref)}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            <button
+              type="button"
+              onClick={() => setSelected([])}
+              className="ml-auto text-xs font-medium text-muted-foreground hover:text-foreground"
+            >
+              Tout retirer
+            </button>
+          </div>
+        )}
+      </div>
+
+      {selected.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-xl border border-dashed border-border bg-muted/10 py-12 text-center">
+          <GitCompareArrows className="h-12 w-12 text-muted-foreground/50" />
+          <p className="mt-3 text-sm font-medium text-muted-foreground">Sélectionnez au moins un lot à comparer</p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Les lots peuvent provenir de fermes différentes (jusqu'à {MAX_COMPARED_LOTS}).
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Metric selector + overlay chart */}
+          <div className="bg-card rounded-lg border border-border shadow-sm p-4 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {COMPARISON_METRICS.map((m) => (
+                <button
+                  key={m.key}
+                  type="button"
+                  aria-pressed={metric === m.key}
+                  onClick={() => setMetric(m.key)}
+                  className={cn(
+                    "rounded-md border px-3 py-1.5 text-sm font-medium transition-colors",
+                    metric === m.key
+                      ? "border-primary bg-primary/10 text-primary"
+                      : "border-border text-muted-foreground hover:bg-muted"
+                  )}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            {failedQueries.map(({ ref, query }) => (
+              <div
+                key={seriesKey(ref)}
+                className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/40 p-4 flex flex-wrap items-center justify-between gap-3"
+              >
+                <p className="text-sm font-medium text-red-800 dark:text-red-200">
+                  Impossible de charger {comparisonLotLabel(ref)} : ce lot n'apparaît pas dans la comparaison.
+                </p>
+                <Button variant="outline" size="sm" onClick={() => void query.refetch()}>
+                  Réessayer
+                </Button>
+              </div>
+            ))}
+            {isLoadingSeries && series.length === 0 ? (
+              <div className="flex items-center justify-center py-16">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : weeks.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                Aucune semaine de suivi technique pour les lots sélectionnés.
+              </p>
+            ) : (
+              <>
+                <h3 className="flex items-center gap-2 text-base font-display font-semibold text-foreground">
+                  {metricDef.label}
+                  {metricDef.unit && <span className="text-sm font-normal text-muted-foreground">({metricDef.unit})</span>}
+                  {isLoadingSeries && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </h3>
+                <ChartContainer config={chartConfig} className="h-[300px] w-full">
+                  <LineChart data={chartData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted/50" vertical={false} />
+                    <XAxis dataKey="semaine" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+                    <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={(value, name) => [
+                            `${formatMetric(Number(value), metricDef)}${metricDef.unit ? ` ${metricDef.unit}` : ""}`,
+                            ` ${chartConfig[String(name)]?.label ?? name}`,
+                          ]}
+                        />
+                      }
+                    />
+                    {series.map((s, i) => (
+                      <Line
+                        key={seriesKey(s)}
+                        type="monotone"
+                        dataKey={`l${i}`}
+                        stroke={`var(--color-l${i})`}
+                        strokeWidth={2.5}
+                        dot={{ fill: `var(--color-l${i})`, r: 3, strokeWidth: 0 }}
+                        activeDot={{ r: 5, strokeWidth: 2 }}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </>
+            )}
+          </div>
+
+          {weeks.length > 0 && (
+            <PerformanceHeatMap
+              rows={heatMapRows}
+              weeks={weeks}
+              rowHeader="Lot"
+              title={`${metricDef.label} — écart à la moyenne des lots comparés`}
+              subtitle={`Dernière semaine renseignée vs moyenne : vert ≤ ${STATUS_OK_GAP * 100} % | jaune ≤ ${STATUS_WATCH_GAP * 100} % | rouge au-delà (dans le sens défavorable)`}
+            />
+          )}
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            {series.map((s) => {
+              const wow = weekOverWeekRows(s);
+              if (!wow.weeks) return null;
+              return (
+                <WeekOverWeekTable
+                  key={seriesKey(s)}
+                  title={comparisonLotLabel(s)}
+                  previousWeek={wow.weeks[0]}
+                  currentWeek={wow.weeks[1]}
+                  rows={wow.rows}
+                />
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
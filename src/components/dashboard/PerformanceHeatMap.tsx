@@ -1,19 +1,39 @@
+import { useState, type ReactNode } from "react";
+import { SlidersHorizontal } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DEFAULT_PERFORMANCE_TOLERANCES,
+  PERFORMANCE_NORM_METRICS,
+  buildPerformanceNormMatrix,
+  type PerformanceNormWeek,
+  type PerformanceStatus,
+  type PerformanceToleranceBands,
+} from "@/lib/performanceNormStatus";
 
-export type PerformanceStatus = "ok" | "watch" | "bad";
+export type { PerformanceStatus };
 
 export interface HeatMapRow {
   metric: string;
-  s1: string | number;
-  s2: string | number;
-  s3: string | number;
-  s4: string | number;
-  status: PerformanceStatus;
+  /** One value per column of `weeks` (same order); "—" when the week has no data. */
+  values: (string | number)[];
+  /** Optional status per column: colors the cell itself (norme matrix). */
+  cellStatuses?: (PerformanceStatus | null)[];
+  /** null: not enough data to decide. */
+  status: PerformanceStatus | null;
 }
 
 interface PerformanceHeatMapProps {
   rows: HeatMapRow[];
-  weeks?: string[];
+  weeks: string[];
+  title?: string;
+  subtitle?: string;
+  /** Header of the first column (metric or lot). */
+  rowHeader?: string;
+  /** Extra content at the right of the header (e.g. tolerance settings). */
+  headerAction?: ReactNode;
   className?: string;
 }
 
@@ -31,7 +51,11 @@ const STATUS_LABELS: Record<PerformanceStatus, string> = {
 
 export function PerformanceHeatMap({
   rows,
-  weeks = ["S1", "S2", "S3", "S4"],
+  weeks,
+  title = "Performance vs norme (matrice)",
+  subtitle = "Vert = dans la norme | Jaune = attention | Rouge = hors norme",
+  rowHeader = "Métrique",
+  headerAction,
   className,
 }: PerformanceHeatMapProps) {
   return (
@@ -41,20 +65,19 @@ export function PerformanceHeatMap({
         className
       )}
     >
-      <div className="border-b border-border bg-muted/50 px-4 py-3">
-        <h3 className="font-semibold text-foreground">
-          Performance vs norme (matrice)
-        </h3>
-        <p className="text-xs text-muted-foreground">
-          Vert = dans la norme | Jaune = attention | Rouge = hors norme
-        </p>
+      <div className="flex items-start justify-between gap-3 border-b border-border bg-muted/50 px-4 py-3">
+        <div>
+          <h3 className="font-semibold text-foreground">{title}</h3>
+          <p className="text-xs text-muted-foreground">{subtitle}</p>
+        </div>
+        {headerAction}
       </div>
       <div className="overflow-x-auto">
         <table className="w-full text-sm">
           <thead>
             <tr className="border-b border-border bg-muted/30">
               <th className="px-4 py-2.5 text-left font-medium text-foreground">
-                Métrique
+                {rowHeader}
               </th>
               {weeks.map((w) => (
                 <th
@@ -81,27 +104,33 @@ export function PerformanceHeatMap({
                 <td className="px-4 py-2.5 font-medium text-foreground">
                   {row.metric}
                 </td>
-                <td className="px-4 py-2.5 text-center tabular-nums">
-                  {row.s1}
-                </td>
-                <td className="px-4 py-2.5 text-center tabular-nums">
-                  {row.s2}
-                </td>
-                <td className="px-4 py-2.5 text-center tabular-nums">
-                  {row.s3}
-                </td>
-                <td className="px-4 py-2.5 text-center tabular-nums">
-                  {row.s4}
-                </td>
+                {weeks.map((w, j) => {
+                  const cellStatus = row.cellStatuses?.[j];
+                  return (
+                    <td
+                      key={w}
+                      className={cn(
+                        "px-4 py-2.5 text-center tabular-nums",
+                        cellStatus && STATUS_STYLES[cellStatus]
+                      )}
+                    >
+                      {row.values[j] ?? "—"}
+                    </td>
+                  );
+                })}
                 <td className="px-4 py-2.5 text-center">
-                  <span
-                    className={cn(
-                      "inline-flex rounded px-2 py-0.5 text-xs font-medium",
-                      STATUS_STYLES[row.status]
-                    )}
-                  >
-                    {STATUS_LABELS[row.status]}
-                  </span>
+                  {row.status ? (
+                    <span
+                      className={cn(
+                        "inline-flex rounded px-2 py-0.5 text-xs font-medium",
+                        STATUS_STYLES[row.status]
+                      )}
+                    >
+                      {STATUS_LABELS[row.status]}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">—</span>
+                  )}
                 </td>
               </tr>
             ))}
@@ -111,3 +140,126 @@ export function PerformanceHeatMap({
     </div>
   );
 }
+
+interface PerformanceNormHeatMapProps {
+  /** Réel / norme per semaine, in column order (loadPerformanceNormWeeks). */
+  data: PerformanceNormWeek[];
+  tolerances?: PerformanceToleranceBands;
+  /** When set, a "Tolérances" button lets the user edit the bands. */
+  onTolerancesChange?: (bands: PerformanceToleranceBands) => void;
+  title?: string;
+  className?: string;
+}
+
+/** PerformanceHeatMap of réel vs norme: one row per metric, cells colored by the tolerance bands. */
+export function PerformanceNormHeatMap({
+  data,
+  tolerances = DEFAULT_PERFORMANCE_TOLERANCES,
+  onTolerancesChange,
+  title,
+  className,
+}: PerformanceNormHeatMapProps) {
+  const rows: HeatMapRow[] = buildPerformanceNormMatrix(data, tolerances).map((r) => ({
+    metric: r.metric.label,
+    values: r.values,
+    cellStatuses: r.cellStatuses,
+    status: r.status,
+  }));
+  return (
+    <PerformanceHeatMap
+      rows={rows}
+      weeks={data.map((w) => w.semaine)}
+      title={title}
+      subtitle="Valeurs réelles — vert = dans la tolérance | jaune = à suivre | rouge = hors norme (écart défavorable à la norme)"
+      headerAction={
+        onTolerancesChange && <ToleranceBandsEditor value={tolerances} onChange={onTolerancesChange} />
+      }
+      className={className}
+    />
+  );
+}
+
+function ToleranceBandsEditor({
+  value,
+  onChange,
+}: {
+  value: PerformanceToleranceBands;
+  onChange: (bands: PerformanceToleranceBands) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  const [open, setOpen] = useState(false);
+  const invalid = PERFORMANCE_NORM_METRICS.some(
+    (m) => !(draft[m.key].ok >= 0) || !(draft[m.key].watch >= draft[m.key].ok)
+  );
+
+  const setBand = (key: keyof PerformanceToleranceBands, field: "ok" | "watch", raw: string) => {
+    const n = raw.trim() === "" ? NaN : Number(raw.replace(",", "."));
+    setDraft((prev) => ({ ...prev, [key]: { ...prev[key], [field]: n } }));
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setDraft(value);
+        setOpen(next);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="shrink-0 gap-1.5">
+          <SlidersHorizontal className="h-3.5 w-3.5" />
+          Tolérances
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <p className="text-sm font-semibold text-foreground">Tolérances par métrique</p>
+          <p className="text-xs text-muted-foreground">
+            Écart défavorable maximal à la norme (% de la norme) pour « OK » et « À suivre ».
+          </p>
+        </div>
+        <div className="grid grid-cols-[1fr_4.5rem_4.5rem] items-center gap-2 text-xs">
+          <span />
+          <span className="text-center font-medium text-muted-foreground">OK ≤ %</span>
+          <span className="text-center font-medium text-muted-foreground">À suivre ≤ %</span>
+          {PERFORMANCE_NORM_METRICS.map((m) => (
+            <div key={m.key} className="contents">
+              <span className="font-medium text-foreground">{m.label}</span>
+              <Input
+                inputMode="decimal"
+                value={Number.isNaN(draft[m.key].ok) ? "" : String(draft[m.key].ok)}
+                onChange={(e) => setBand(m.key, "ok", e.target.value)}
+                className="h-8 text-center"
+              />
+              <Input
+                inputMode="decimal"
+                value={Number.isNaN(draft[m.key].watch) ? "" : String(draft[m.key].watch)}
+                onChange={(e) => setBand(m.key, "watch", e.target.value)}
+                className="h-8 text-center"
+              />
+            </div>
+          ))}
+        </div>
+        {invalid && (
+          <p className="text-xs text-destructive">Chaque seuil « À suivre » doit être supérieur ou égal au seuil « OK ».</p>
+        )}
+        <div className="flex justify-between gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(DEFAULT_PERFORMANCE_TOLERANCES)}>
+            Valeurs par défaut
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            disabled={invalid}
+            onClick={() => {
+              onChange(draft);
+              setOpen(false);
+            }}
+          >
+            Appliquer
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -7,19 +7,23 @@ export interface WoWRow {
   previous: string | number;
   change: number;
   unit?: string;
+  /** Colors the variation: true (default) = an increase is good (green), false = an increase is bad (e.g. mortalité, IC). */
+  higherIsBetter?: boolean;
 }
 
 interface WeekOverWeekTableProps {
   rows: WoWRow[];
-  currentWeek?: string;
-  previousWeek?: string;
+  currentWeek: string;
+  previousWeek: string;
+  title?: string;
   className?: string;
 }
 
 export function WeekOverWeekTable({
   rows,
-  currentWeek = "S4",
-  previousWeek = "S3",
+  currentWeek,
+  previousWeek,
+  title = "Comparaison semaine à semaine",
   className,
 }: WeekOverWeekTableProps) {
   return (
@@ -30,9 +34,7 @@ export function WeekOverWeekTable({
       )}
     >
       <div className="border-b border-border bg-muted/50 px-4 py-3">
-        <h3 className="font-semibold text-foreground">
-          Comparaison semaine à semaine
-        </h3>
+        <h3 className="font-semibold text-foreground">{title}</h3>
         <p className="text-xs text-muted-foreground">
           {previousWeek} vs {currentWeek}
         </p>
@@ -59,10 +61,13 @@ export function WeekOverWeekTable({
             {rows.map((row, i) => {
               const isPositive = row.change > 0;
               const isNegative = row.change < 0;
+              const higherIsBetter = row.higherIsBetter ?? true;
+              const isGood = higherIsBetter ? isPositive : isNegative;
+              const isBad = higherIsBetter ? isNegative : isPositive;
               const changeColor =
-                isPositive
+                isGood
                   ? "text-green-600 dark:text-green-500"
-                  : isNegative
+                  : isBad
                     ? "text-red-600 dark:text-red-500"
                     : "text-muted-foreground";
 
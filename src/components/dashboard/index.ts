@@ -1,9 +1,16 @@
 export { DashboardFilterBar, type DashboardFilters } from "./DashboardFilterBar";
 export { KPICard, type KPICardProps, type TrendDirection } from "./KPICard";
 export { AlertsSection, type Alert } from "./AlertsSection";
-export { PerformanceHeatMap, type HeatMapRow, type PerformanceStatus } from "./PerformanceHeatMap";
+export { DailyAnomalyAlerts } from "./DailyAnomalyAlerts";
+export {
+  PerformanceHeatMap,
+  PerformanceNormHeatMap,
+  type HeatMapRow,
+  type PerformanceStatus,
+} from "./PerformanceHeatMap";
 export { MiniTrendChart, type TrendDataPoint } from "./MiniTrendChart";
 export { WaterConsumptionLineChart, type DailyWaterDataPoint } from "./WaterConsumptionLineChart";
 export { MortalityLineChart, type DailyMortalityDataPoint } from "./MortalityLineChart";
 export { WeekOverWeekTable, type WoWRow } from "./WeekOverWeekTable";
 export { DailyMetricsCard } from "./DailyMetricsCard";
+export { LotComparisonView } from "./LotComparisonView";
@@ -0,0 +1,126 @@
+/**
+ * Step chart of the price per kg of one designation over time, one line per fournisseur
+ * (versions of the Fournisseurs grid, see fournisseursPriceHistoryShared.ts).
+ */
+
+import { useMemo, useState } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { TrendingUp } from "lucide-react";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { AlimentPriceVersionResponse, FournisseurItemResponse } from "@/lib/api";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import {
+  designationsWithPriceChanges,
+  formatPriceDate,
+  priceEvolutionDataKey,
+  priceEvolutionSeries,
+} from "@/lib/fournisseursPriceHistoryShared";
+
+const LINE_COLORS = [
+  "hsl(142, 71%, 36%)",
+  "hsl(217, 91%, 52%)",
+  "hsl(25, 95%, 50%)",
+  "hsl(280, 65%, 52%)",
+  "hsl(0, 72%, 50%)",
+  "hsl(190, 80%, 40%)",
+];
+
+interface FournisseurPriceEvolutionChartProps {
+  history: AlimentPriceVersionResponse[];
+  fournisseurs: FournisseurItemResponse[];
+  designations: string[];
+  className?: string;
+}
+
+export function FournisseurPriceEvolutionChart({
+  history,
+  fournisseurs,
+  designations,
+  className = "",
+}: FournisseurPriceEvolutionChartProps) {
+  const changed = useMemo(() => designationsWithPriceChanges(history), [history]);
+  const [selected, setSelected] = useState<string>("");
+  const designation = selected || changed[0] || designations[0] || "";
+
+  const data = useMemo(
+    () => priceEvolutionSeries(history, designation, fournisseurs),
+    [history, designation, fournisseurs]
+  );
+  const shown = fournisseurs.filter((f) => data.some((p) => p[priceEvolutionDataKey(f.id)] !== undefined));
+  const chartConfig = useMemo(
+    () =>
+      Object.fromEntries(
+        shown.map((f, i) => [priceEvolutionDataKey(f.id), { label: f.name, color: LINE_COLORS[i % LINE_COLORS.length] }])
+      ) satisfies ChartConfig,
+    [shown]
+  );
+
+  return (
+    <div className={className}>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="flex items-center gap-2 text-base font-display font-semibold text-foreground">
+          <TrendingUp className="h-5 w-5 text-primary" />
+          Évolution des prix
+        </h3>
+        <select
+          value={designation}
+          onChange={(e) => setSelected(e.target.value)}
+          className="rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+          aria-label="Désignation"
+        >
+          {designations.map((d) => (
+            <option key={d} value={d}>
+              {d}
+              {changed.includes(d) ? " •" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+      {data.length === 0 ? (
+        <p className="rounded-xl border border-dashed border-border bg-muted/10 py-10 text-center text-sm text-muted-foreground">
+          Aucun prix daté pour cette désignation
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-[260px] w-full">
+          <LineChart data={data} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted/50" vertical={false} />
+            <XAxis
+              dataKey="date"
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(v) => formatPriceDate(String(v))}
+            />
+            <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} domain={["auto", "auto"]} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const date = payload?.[0]?.payload?.date as string | undefined;
+                    return date ? `À partir du ${formatPriceDate(date)}` : "";
+                  }}
+                  formatter={(value, name) => [
+                    ` ${value != null ? formatGroupedNumber(Number(value), 2) : "—"}`,
+                    chartConfig[String(name)]?.label ?? String(name),
+                  ]}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            {shown.map((f) => (
+              <Line
+                key={f.id}
+                type="stepAfter"
+                dataKey={priceEvolutionDataKey(f.id)}
+                stroke={`var(--color-${priceEvolutionDataKey(f.id)})`}
+                strokeWidth={2}
+                dot={{ r: 3, strokeWidth: 0, fill: `var(--color-${priceEvolutionDataKey(f.id)})` }}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Loader2, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { api, type AlimentPriceVersionResponse } from "@/lib/api";
+import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
+import { formatPriceDate } from "@/lib/fournisseursPriceHistoryShared";
+
+export interface FournisseurPriceHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  farmId: number | null | undefined;
+  fournisseur: { id: number; name: string };
+  designation: string;
+  /** Versions of this cell, oldest first. */
+  versions: AlimentPriceVersionResponse[];
+  /** Dated versions can be added (past tariff entered afterwards). */
+  canAdd: boolean;
+  /** Called after a version was added (the page reloads its grid). */
+  onAdded?: () => void;
+}
+
+/** Price versions of one (fournisseur, designation) cell, newest first; the row in force today is marked. */
+export default function FournisseurPriceHistoryDialog({
+  open,
+  onOpenChange,
+  farmId,
+  fournisseur,
+  designation,
+  versions,
+  canAdd,
+  onAdded,
+}: FournisseurPriceHistoryDialogProps) {
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const [validFrom, setValidFrom] = useState("");
+  const [price, setPrice] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const today = new Date().toISOString().split("T")[0];
+  const current = [...versions].reverse().find((v) => v.validFrom <= today);
+  const newestFirst = [...versions].reverse();
+
+  const handleAdd = async () => {
+    const priceKg = toOptionalNumber(price);
+    if (!validFrom || priceKg == null || priceKg < 0) {
+      toast({
+        title: "Version incomplète",
+        description: "Indiquez la date d'effet et un prix positif.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setAdding(true);
+    try {
+      await api.fournisseurs.addPriceVersion(
+        { fournisseurId: fournisseur.id, designation, price_kg: priceKg, validFrom },
+        farmId ?? undefined
+      );
+      toast({ title: "Prix ajouté", description: `${formatGroupedNumber(priceKg, 2)} à partir du ${formatPriceDate(validFrom)}.` });
+      void invalidateAfterWrite("fournisseurs", { farmId });
+      setValidFrom("");
+      setPrice("");
+      onAdded?.();
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'ajouter ce prix.", variant: "destructive" });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Historique des prix</DialogTitle>
+          <DialogDescription>
+            {fournisseur.name} — {designation}
+          </DialogDescription>
+        </DialogHeader>
+
+        {newestFirst.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">Aucun prix daté pour cette cellule.</p>
+        ) : (
+          <div className="max-h-[320px] overflow-y-auto rounded-md border border-border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-xs text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Valable à partir du</th>
+                  <th className="px-3 py-2 text-right font-medium">Prix / kg</th>
+                  <th className="px-3 py-2 text-left font-medium">Saisi</th>
+                </tr>
+              </thead>
+              <tbody>
+                {newestFirst.map((v) => (
+                  <tr key={v.id} className={`border-t border-border ${v === current ? "bg-primary/5 font-medium" : ""}`}>
+                    <td className="px-3 py-1.5">
+                      {formatPriceDate(v.validFrom)}
+                      {v === current && <span className="ml-2 text-xs text-primary">en vigueur</span>}
+                      {v.validFrom > today && <span className="ml-2 text-xs text-muted-foreground">à venir</span>}
+                    </td>
+                    <td className="px-3 py-1.5 text-right tabular-nums">
+                      {v.price_kg != null ? formatGroupedNumber(v.price_kg, 2) : "—"}
+                    </td>
+                    <td className="px-3 py-1.5 text-xs text-muted-foreground">
+                      {[v.createdAt ? formatPriceDate(v.createdAt) : null, v.createdBy].filter(Boolean).join(" · ") || "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canAdd && (
+          <div className="flex flex-wrap items-end gap-2 border-t border-border pt-3">
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              Date d'effet
+              <input
+                type="date"
+                value={validFrom}
+                onChange={(e) => setValidFrom(e.target.value)}
+                className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              Prix / kg
+              <input
+                type="number"
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="0.00"
+                className="w-28 rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground"
+              />
+            </label>
+            <Button type="button" size="sm" onClick={handleAdd} disabled={adding}>
+              {adding ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+              Ajouter un prix daté
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
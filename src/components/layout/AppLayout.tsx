@@ -1,16 +1,22 @@
 import AppSidebar from "./AppSidebar";
+import SessionExpiredDialog from "./SessionExpiredDialog";
+import SessionExpiryBanner from "./SessionExpiryBanner";
 import VaccinationAlertsBanner from "@/components/alerts/VaccinationAlertsBanner";
 import PriceAlertIcon from "@/components/alerts/PriceAlertIcon";
+import { useOutboxAutoSync } from "@/hooks/useOutbox";
+import "@/lib/outboxHandlers";
 
 interface AppLayoutProps {
   children: React.ReactNode;
 }
 
 export default function AppLayout({ children }: AppLayoutProps) {
+  useOutboxAutoSync();
   return (
     <div className="flex min-h-screen">
       <AppSidebar />
       <main className="flex-1 min-w-0 lg:ml-0 overflow-auto relative">
+        <SessionExpiryBanner />
         <VaccinationAlertsBanner />
         {/* Price Alert Icon - positioned next to vaccination bell */}
         <div className="fixed top-3 right-16 sm:top-4 sm:right-20 md:right-24 z-50">
@@ -20,6 +26,7 @@ export default function AppLayout({ children }: AppLayoutProps) {
           {children}
         </div>
       </main>
+      <SessionExpiredDialog />
     </div>
   );
 }
@@ -1,6 +1,8 @@
 import { useState } from "react";
 import { useNavigate, useLocation, Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { useDailyAnomalies } from "@/hooks/useDailyAnomalies";
+import type { PermissionResource } from "@/lib/permissions";
 import {
   LayoutDashboard,
   Wallet,
@@ -15,6 +17,8 @@ import {
   Menu,
   PanelLeftClose,
   PanelLeft,
+  History,
+  ClipboardCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -27,6 +31,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import SessionContextSwitcher from "./SessionContextSwitcher";
 
 const NAV_SECTIONS_BASE = [
   {
@@ -39,6 +44,7 @@ const NAV_SECTIONS_BASE = [
     icon: Wallet,
     children: [
       { label: "Livraisons Aliment", path: "/livraisons-aliment" },
+      { label: "Registre stock aliment", path: "/registre-stock-aliment" },
       { label: "Produits Vétérinaires", path: "/produits-veterinaires" },
       { label: "Produits Hygiène", path: "/produits-hygiene" },
       { label: "Électricité", path: "/electricite" },
@@ -56,7 +62,12 @@ const NAV_SECTIONS_BASE = [
       { label: "Données mises en place", path: "/infos-setup" },
       { label: "Reporting Journalier", path: "/reporting-journalier" },
       { label: "Suivi Technique Hebdo", path: "/suivi-technique-hebdomadaire" },
-      { label: "Planning de vaccination", path: "/planning-vaccination", rolesOnly: ["ADMINISTRATEUR", "RESPONSABLE_TECHNIQUE", "BACKOFFICE_EMPLOYER", "RESPONSABLE_FERME"] as const },
+      { label: "Graphiques eau & température", path: "/graphiques-batiment" },
+      { label: "Contrôle de cohérence", path: "/controle-coherence" },
+      { label: "Registre des effectifs", path: "/registre-effectifs" },
+      { label: "Planning de vaccination", path: "/planning-vaccination", resource: "planningVaccination" as const },
+      { label: "Protocoles de vaccination", path: "/protocoles-vaccination", resource: "planningVaccination" as const },
+      { label: "Normes de performance", path: "/normes-performance", resource: "normesPerformance" as const },
     ],
   },
   {
@@ -66,16 +77,28 @@ const NAV_SECTIONS_BASE = [
       { label: "Sorties Ferme", path: "/sorties-ferme" },
     ],
   },
+  {
+    label: "À vérifier",
+    icon: ClipboardCheck,
+    path: "/a-verifier",
+    resource: "verification" as const,
+  },
   {
     label: "Gestion Utilisateurs",
     icon: Users,
     path: "/utilisateurs",
   },
+  {
+    label: "Journal d'audit",
+    icon: History,
+    path: "/journal-audit",
+    resource: "audit" as const,
+  },
   {
     label: "Liste des employés",
     icon: UserCircle2,
     path: "/employes",
-    requiresEmployesAccess: true,
+    resource: "employes" as const,
   },
   {
     label: "Profil",
@@ -87,24 +110,23 @@ const NAV_SECTIONS_BASE = [
 export default function AppSidebar() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { logout, canManageUsers, hasFullAccess, isBackofficeEmployer, user } = useAuth();
-  const showEmployesLink = hasFullAccess || isBackofficeEmployer;
+  const { logout, canManageUsers, can, user } = useAuth();
   const [openSections, setOpenSections] = useState<string[]>(["Suivi charge", "Suivi technique", "Suivi de sortie"]);
   const [mobileOpen, setMobileOpen] = useState(false);
   const [collapsed, setCollapsed] = useState(false);
   const [logoutDialogOpen, setLogoutDialogOpen] = useState(false);
-
-  const userRoles = new Set((user?.roles ?? []).map((r) => r.name ?? ""));
+  const { anomalies, failedLots } = useDailyAnomalies({ load: false });
+  /** Open daily anomalies and lots the detection could not load, as last loaded by the dashboard (DailyAnomalyAlerts). */
+  const badgeFor = (path: string | undefined) => (path === "/dashboard" ? anomalies.length + failedLots.length : 0);
 
   const navSections = NAV_SECTIONS_BASE.map((section) => {
-    if ("requiresEmployesAccess" in section && section.requiresEmployesAccess && !showEmployesLink) return null;
+    if ("resource" in section && section.resource && !can(section.resource, "read")) return null;
     if (section.path !== undefined && section.path !== "/utilisateurs") return section;
     if (section.path === "/utilisateurs" && !canManageUsers) return null;
     if (!section.children) return section;
-    const filteredChildren = section.children.filter((child: { label: string; path: string; rolesOnly?: readonly string[] }) => {
-      if (!child.rolesOnly) return true;
-      return child.rolesOnly.some((role) => userRoles.has(role));
-    });
+    const filteredChildren = section.children.filter(
+      (child: { label: string; path: string; resource?: PermissionResource }) => !child.resource || can(child.resource, "read")
+    );
     return { ...section, children: filteredChildren };
   }).filter(Boolean) as typeof NAV_SECTIONS_BASE;
 
@@ -232,8 +254,21 @@ export default function AppSidebar() {
               }`}
               title={effectiveCollapsed ? section.label : undefined}
             >
-              <section.icon className="w-4 h-4 shrink-0" />
-              {!effectiveCollapsed && <span>{section.label}</span>}
+              <span className="relative shrink-0">
+                <section.icon className="w-4 h-4" />
+                {effectiveCollapsed && badgeFor(section.path) > 0 && (
+                  <span className="absolute -right-1 -top-1 h-2 w-2 rounded-full bg-destructive" aria-hidden />
+                )}
+              </span>
+              {!effectiveCollapsed && <span className="flex-1">{section.label}</span>}
+              {!effectiveCollapsed && badgeFor(section.path) > 0 && (
+                <span
+                  className="rounded-full bg-destructive px-1.5 py-0.5 text-[10px] font-semibold leading-none text-destructive-foreground"
+                  title={`${badgeFor(section.path)} alerte(s) sanitaire(s) à traiter`}
+                >
+                  {badgeFor(section.path)}
+                </span>
+              )}
             </Link>
           );
         })}
@@ -241,6 +276,7 @@ export default function AppSidebar() {
 
       {/* Footer - fixed at bottom so nav can scroll (zoom > 90%) */}
       <div className={`flex-shrink-0 py-4 border-t border-sidebar-border ${effectiveCollapsed ? "px-2" : "px-3"}`}>
+        <SessionContextSwitcher collapsed={effectiveCollapsed} onSwitched={() => setMobileOpen(false)} />
         <button
           type="button"
           onClick={openLogoutDialog}
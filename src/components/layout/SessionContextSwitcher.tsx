@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { ArrowLeftRight, Building2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useFarmsQuery } from "@/hooks/useApiQueries";
+import { LOGIN_ROLES, type FarmResponse, type UserResponse } from "@/lib/api";
+import { roleLabel, roleNeedsAssignedFarms } from "@/lib/permissions";
+
+/** Roles that must pick a farm (login rule); custom roles limited to their assigned farms too. */
+function roleRequiresFarm(role: { name: string }): boolean {
+  const loginRole = LOGIN_ROLES.find((r) => r.value === role.name);
+  return loginRole ? loginRole.requiresFarm : roleNeedsAssignedFarms(role);
+}
+
+/** Farms the user is assigned to (RESPONSABLE_FERME), with the legacy single farm as fallback. */
+function assignedFarmsOf(user: UserResponse | null): Pick<FarmResponse, "id" | "name">[] {
+  if (user?.assignedFarms && user.assignedFarms.length > 0) return user.assignedFarms;
+  return user?.farmId != null ? [{ id: user.farmId, name: user.farmName ?? `Ferme ${user.farmId}` }] : [];
+}
+
+interface SessionContextSwitcherProps {
+  collapsed?: boolean;
+  /** Called before navigating (closes the mobile drawer). */
+  onSwitched?: () => void;
+}
+
+/**
+ * Current farm / role of the session in the sidebar footer, with a dialog to switch either without logging out
+ * (token exchange, AuthContext.switchContext). The page is reloaded without its lot / semaine / bâtiment filters.
+ */
+export default function SessionContextSwitcher({ collapsed = false, onSwitched }: SessionContextSwitcherProps) {
+  const { user, selectedRole, selectedFarm, allFarmsMode, switchContext } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [open, setOpen] = useState(false);
+  const [role, setRole] = useState("");
+  const [farmId, setFarmId] = useState("");
+  const [switching, setSwitching] = useState(false);
+
+  const userRoles = user?.roles ?? [];
+  const currentRole = userRoles.find((r) => r.name === selectedRole);
+  const targetRole = userRoles.find((r) => r.name === role);
+  const requiresFarm = targetRole ? roleRequiresFarm(targetRole) : true;
+  const farmsQuery = useFarmsQuery(open && !requiresFarm);
+  const farmOptions = requiresFarm ? assignedFarmsOf(user) : farmsQuery.data ?? [];
+
+  const currentLabel = allFarmsMode || !selectedFarm ? "Toutes les fermes" : selectedFarm.name;
+  const canSwitch = userRoles.length > 1 || assignedFarmsOf(user).length > 1 || (currentRole && !roleRequiresFarm(currentRole));
+  if (!user || !canSwitch) return null;
+
+  const openDialog = () => {
+    setRole(selectedRole ?? userRoles[0]?.name ?? "");
+    setFarmId(selectedFarm && !allFarmsMode ? String(selectedFarm.id) : "");
+    setOpen(true);
+  };
+
+  const changeRole = (name: string) => {
+    setRole(name);
+    const next = userRoles.find((r) => r.name === name);
+    // Keep the farm when it is still allowed for the new role
+    if (next && roleRequiresFarm(next) && !assignedFarmsOf(user).some((f) => String(f.id) === farmId)) {
+      setFarmId(assignedFarmsOf(user).length === 1 ? String(assignedFarmsOf(user)[0].id) : "");
+    }
+  };
+
+  const unchanged = role === selectedRole && farmId === (selectedFarm && !allFarmsMode ? String(selectedFarm.id) : "");
+
+  const handleSwitch = async () => {
+    if (requiresFarm && !farmId) {
+      toast({ title: "Choisissez une ferme pour ce rôle", variant: "destructive" });
+      return;
+    }
+    setSwitching(true);
+    try {
+      await switchContext(role, farmId ? Number(farmId) : null);
+      setOpen(false);
+      onSwitched?.();
+      // Lot / semaine / bâtiment of the previous farm do not apply: reload the page without its filters
+      navigate(location.pathname.startsWith("/lots/") ? "/dashboard" : location.pathname, { replace: true });
+      const farmName = farmOptions.find((f) => String(f.id) === farmId)?.name ?? "Toutes les fermes";
+      toast({ title: "Session changée", description: `${targetRole ? roleLabel(targetRole) : role} — ${farmName}` });
+    } catch (e) {
+      toast({
+        title: "Changement impossible",
+        description: e instanceof Error ? e.message : "Le serveur a refusé ce rôle ou cette ferme.",
+        variant: "destructive",
+      });
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={openDialog}
+        className={`w-full flex items-center gap-3 rounded-md text-sm text-sidebar-foreground/80 hover:bg-sidebar-accent/50 transition-colors mb-1 ${collapsed ? "justify-center px-2 py-2" : "px-3 py-2"}`}
+        title={collapsed ? `${currentLabel} — changer de ferme ou de rôle` : "Changer de ferme ou de rôle"}
+      >
+        <Building2 className="w-4 h-4 shrink-0" />
+        {!collapsed && (
+          <span className="min-w-0 flex-1 text-left">
+            <span className="block truncate font-medium">{currentLabel}</span>
+            <span className="block truncate text-xs text-sidebar-foreground/60">
+              {currentRole ? roleLabel(currentRole) : selectedRole}
+            </span>
+          </span>
+        )}
+        {!collapsed && <ArrowLeftRight className="w-3.5 h-3.5 shrink-0 opacity-60" />}
+      </button>
+
+      <Dialog open={open} onOpenChange={(o) => !switching && setOpen(o)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Changer de ferme ou de rôle</DialogTitle>
+            <DialogDescription>
+              Sans vous déconnecter. La page est rechargée pour la nouvelle ferme : les saisies non enregistrées sont
+              perdues.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <label className="flex flex-col gap-1 text-sm font-medium">
+              Rôle
+              <select
+                value={role}
+                onChange={(e) => changeRole(e.target.value)}
+                disabled={userRoles.length < 2}
+                className="rounded-md border border-input bg-background px-3 py-2 text-sm font-normal"
+              >
+                {userRoles.map((r) => (
+                  <option key={r.id} value={r.name}>
+                    {roleLabel(r)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-sm font-medium">
+              Ferme
+              <select
+                value={farmId}
+                onChange={(e) => setFarmId(e.target.value)}
+                className="rounded-md border border-input bg-background px-3 py-2 text-sm font-normal"
+              >
+                {requiresFarm ? (
+                  <option value="" disabled>
+                    Choisir une ferme…
+                  </option>
+                ) : (
+                  <option value="">Toutes les fermes</option>
+                )}
+                {farmOptions.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.name}
+                  </option>
+                ))}
+              </select>
+              {requiresFarm && farmOptions.length === 0 && (
+                <span className="text-xs font-normal text-destructive">Aucune ferme assignée pour ce rôle.</span>
+              )}
+            </label>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={switching}>
+              Annuler
+            </Button>
+            <Button type="button" onClick={handleSwitch} disabled={switching || unchanged || (requiresFarm && !farmId)}>
+              {switching && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Changer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { KeyRound, Loader2, LogOut } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { ApiUnauthorizedError } from "@/lib/api";
+
+/**
+ * Central re-login flow (401 on any authenticated request → AuthContext.sessionExpired).
+ * Asks only the password again (same user, role and farm); the current page stays mounted so
+ * unsaved input is kept and the user can click ✓ again once reconnected. Grid pages also stash their input
+ * (useDraftStash): after Déconnexion and a new login, the user gets back to the same page with it.
+ */
+export default function SessionExpiredDialog() {
+  const { user, sessionExpired, relogin, logout } = useAuth();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (sessionExpired) {
+      setPassword("");
+      setError(null);
+    }
+  }, [sessionExpired]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await relogin(password);
+    } catch (err) {
+      if (err instanceof ApiUnauthorizedError) setError("Mot de passe incorrect.");
+      else setError(err instanceof Error ? err.message : "Connexion impossible");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={sessionExpired && user != null}>
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-amber-600" />
+              Session expirée
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Votre session a expiré. Saisissez à nouveau le mot de passe de <strong>{user?.username}</strong> pour
+              continuer : vos saisies en cours sont conservées, et remises sur cette page si vous vous déconnectez.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-1.5">
+            <label className="block text-sm font-medium text-foreground">Mot de passe</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full rounded-md border border-input bg-background px-3 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              placeholder="••••••••"
+              autoComplete="current-password"
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <AlertDialogFooter>
+            <Button type="button" variant="outline" onClick={logout} className="gap-2">
+              <LogOut className="w-4 h-4" />
+              Déconnexion
+            </Button>
+            <Button type="submit" disabled={submitting || !password} className="gap-2">
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+              Se reconnecter
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,44 @@
+import { Clock, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSessionExpiry } from "@/hooks/useSessionExpiry";
+import { API_UNAUTHORIZED_EVENT } from "@/lib/api";
+
+/** The countdown shows this long before the token expires. */
+const WARN_BEFORE_MS = 5 * 60_000;
+
+function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Countdown before the session expires, when it cannot be renewed silently (no refresh token, or refresh refused).
+ * "Se reconnecter" opens the re-login dialog now, while the page and its input stay as they are.
+ */
+export default function SessionExpiryBanner() {
+  const { remainingMs, canRefresh } = useSessionExpiry();
+  if (canRefresh || remainingMs == null || remainingMs <= 0 || remainingMs > WARN_BEFORE_MS) return null;
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-40 flex flex-wrap items-center justify-center gap-3 border-b border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950/60 dark:text-amber-200"
+    >
+      <Clock className="h-4 w-4 shrink-0" />
+      <span>
+        Votre session expire dans <strong className="tabular-nums">{formatCountdown(remainingMs)}</strong>. Enregistrez
+        vos saisies ou reconnectez-vous.
+      </span>
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        className="h-7 gap-1.5 border-amber-300 bg-transparent"
+        onClick={() => window.dispatchEvent(new CustomEvent(API_UNAUTHORIZED_EVENT))}
+      >
+        <KeyRound className="h-3.5 w-3.5" />
+        Se reconnecter
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { ExternalLink } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DELIVERY_NOTE_SOURCES,
+  deliveryNoteEntryUrl,
+  type DeliveryNoteEntry,
+} from "@/lib/deliveryNoteDuplicates";
+
+interface DeliveryNoteDuplicateDialogProps {
+  open: boolean;
+  candidates: DeliveryNoteEntry[];
+  duplicates: DeliveryNoteEntry[];
+  /** The notes of the farm could not be loaded: the check is incomplete. */
+  indexError?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function formatDate(date: string | null): string {
+  return date ? date.split("-").reverse().join("/") : "";
+}
+
+/**
+ * Warning before saving a row whose N° BL / N° BR already exists for the supplier (links open in a new tab),
+ * or whose notes could not be checked against the farm.
+ */
+export default function DeliveryNoteDuplicateDialog({
+  open,
+  candidates,
+  duplicates,
+  indexError = false,
+  onConfirm,
+  onCancel,
+}: DeliveryNoteDuplicateDialogProps) {
+  const numbers = [...new Set(candidates.map((c) => `${c.kind} ${c.number}`))].join(", ");
+  const supplier = candidates[0]?.supplier?.trim();
+  return (
+    <AlertDialog open={open} onOpenChange={(o) => !o && onCancel()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{duplicates.length > 0 ? "Bon déjà saisi ?" : "Vérification des bons impossible"}</AlertDialogTitle>
+          {duplicates.length > 0 && (
+            <AlertDialogDescription>
+              {numbers}
+              {supplier ? ` (${supplier})` : ""} existe déjà pour cette ferme :
+            </AlertDialogDescription>
+          )}
+        </AlertDialogHeader>
+        {indexError && (
+          <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+            Les bons déjà enregistrés pour cette ferme n'ont pas pu être chargés : {numbers} n'a pas pu être comparé aux
+            autres pages. Vérifiez la connexion avant d'enregistrer.
+          </p>
+        )}
+        {duplicates.length > 0 && (
+          <ul className="max-h-[50vh] overflow-auto divide-y divide-border rounded-md border border-border text-sm">
+            {duplicates.map((d, i) => (
+              <li key={`${d.source}-${d.id ?? d.rowKey}-${d.kind}-${i}`} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {DELIVERY_NOTE_SOURCES[d.source].label} — N° {d.kind} {d.number}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {d.id == null
+                      ? "Ligne non enregistrée de ce tableau"
+                      : [d.lot && `Lot ${d.lot}`, d.semaine, formatDate(d.date), d.designation].filter(Boolean).join(" — ")}
+                  </p>
+                </div>
+                {d.id != null && (
+                  <a
+                    href={deliveryNoteEntryUrl(d)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex shrink-0 items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    Voir la ligne
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Annuler</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Enregistrer quand même</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
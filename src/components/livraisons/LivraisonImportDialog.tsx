@@ -0,0 +1,354 @@
+import { useRef, useState } from "react";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useDeliveryNoteDuplicateGuard } from "@/hooks/useDeliveryNoteGuard";
+import {
+  LIVRAISON_IMPORT_KINDS,
+  REQUIRED_IMPORT_HEADERS,
+  buildLivraisonImportPreview,
+  guessImportMapping,
+  importCellText,
+  importDeliveryNoteEntries,
+  livraisonImportHeaders,
+  loadSupplierImportMapping,
+  readImportWorkbook,
+  saveSupplierImportMapping,
+  savedImportMappingSuppliers,
+  submitLivraisonImport,
+  type ImportSheet,
+  type LivraisonImportKind,
+  type LivraisonImportMapping,
+  type LivraisonImportRequestMap,
+} from "@/lib/livraisonImportShared";
+
+type Step = "file" | "mapping" | "preview";
+
+export interface LivraisonImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: LivraisonImportKind;
+  farmId: number | null;
+  lot: string;
+  /** Semaine of the page (rows without SEM are imported in it). */
+  semaine: string;
+  /** Called after rows were created (reload the grid). */
+  onImported?: () => void;
+}
+
+const selectClass =
+  "w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+/**
+ * Import wizard for the livraison grids: file → column mapping (remembered per supplier) → validated preview
+ * → duplicate BL / BR check against the farm → createBatch. Rows with errors are listed but never sent.
+ */
+export default function LivraisonImportDialog({
+  open,
+  onOpenChange,
+  kind,
+  farmId,
+  lot,
+  semaine,
+  onImported,
+}: LivraisonImportDialogProps) {
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const deliveryNoteGuard = useDeliveryNoteDuplicateGuard();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const headers = livraisonImportHeaders(kind);
+
+  const [step, setStep] = useState<Step>("file");
+  const [supplier, setSupplier] = useState("");
+  const [reading, setReading] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [sheets, setSheets] = useState<ImportSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<LivraisonImportMapping>({});
+  const [rememberMapping, setRememberMapping] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const sheet = sheets[sheetIndex] ?? null;
+  const preview = sheet ? buildLivraisonImportPreview(kind, sheet, mapping, { farmId, lot, semaine, supplier }) : [];
+  const validRequests = preview
+    .map((r) => r.request)
+    .filter((r): r is LivraisonImportRequestMap[LivraisonImportKind] => r != null);
+  const invalidCount = preview.length - validRequests.length;
+  const missingRequired = REQUIRED_IMPORT_HEADERS.filter((h) => !mapping[h]);
+
+  const reset = () => {
+    setStep("file");
+    setFileName("");
+    setSheets([]);
+    setSheetIndex(0);
+    setMapping({});
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const initialMapping = (s: ImportSheet): LivraisonImportMapping =>
+    (supplier.trim() && loadSupplierImportMapping(kind, supplier, s.columns)) || guessImportMapping(kind, s.columns);
+
+  const handleFile = async (file: File) => {
+    setReading(true);
+    try {
+      const read = await readImportWorkbook(await file.arrayBuffer());
+      if (read.length === 0) {
+        toast({
+          title: "Fichier vide",
+          description: "Aucune feuille ne contient de ligne d'en-têtes.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setFileName(file.name);
+      setSheets(read);
+      setSheetIndex(0);
+      setMapping(initialMapping(read[0]));
+      setStep("mapping");
+    } catch {
+      toast({ title: "Erreur", description: "Fichier Excel illisible.", variant: "destructive" });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleSheetChange = (index: number) => {
+    setSheetIndex(index);
+    setMapping(initialMapping(sheets[index]));
+  };
+
+  const sampleOf = (column: string | undefined): string => {
+    if (!sheet || !column) return "";
+    const i = sheet.columns.indexOf(column);
+    const cell = sheet.rows.map((r) => importCellText(r.cells[i] ?? null)).find((t) => t !== "");
+    return cell ?? "";
+  };
+
+  const handleSubmit = async () => {
+    if (validRequests.length === 0) return;
+    setSubmitting(true);
+    try {
+      // Lines of one file often share their BL: only the notes already saved for the farm are duplicates
+      const proceed = await deliveryNoteGuard.confirmEntries({
+        farmId,
+        candidates: importDeliveryNoteEntries(kind, validRequests, { farmId, lot }),
+      });
+      if (!proceed) return;
+      const created = await submitLivraisonImport(kind, validRequests, farmId);
+      if (rememberMapping && supplier.trim()) saveSupplierImportMapping(kind, supplier, mapping);
+      void invalidateAfterWrite(LIVRAISON_IMPORT_KINDS[kind].namespace, { farmId, lot });
+      // Same event as a manual save: refresh the price alert counter
+      window.dispatchEvent(new CustomEvent("priceAlertChanged"));
+      toast({
+        title: "Import terminé",
+        description: `${created} ligne(s) importée(s)${invalidCount > 0 ? `, ${invalidCount} ignorée(s)` : ""}.`,
+      });
+      onImported?.();
+      handleOpenChange(false);
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'importer les lignes.", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-emerald-600" />
+            Importer un bon de livraison — {LIVRAISON_IMPORT_KINDS[kind].label}
+          </DialogTitle>
+          <DialogDescription>
+            Lot {lot} — {semaine}
+            {fileName && ` — ${fileName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <label htmlFor="import-supplier" className="text-sm font-medium">
+                Fournisseur
+              </label>
+              <input
+                id="import-supplier"
+                list="import-supplier-mappings"
+                value={supplier}
+                onChange={(e) => setSupplier(e.target.value)}
+                placeholder="Nom du fournisseur (mémorise la correspondance des colonnes)"
+                className={selectClass}
+              />
+              <datalist id="import-supplier-mappings">
+                {savedImportMappingSuppliers(kind).map((s) => (
+                  <option key={s} value={s} />
+                ))}
+              </datalist>
+              <p className="text-xs text-muted-foreground">
+                Utilisé aussi comme FOURNISSEUR des lignes lorsque le fichier n'a pas de colonne fournisseur.
+              </p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void handleFile(file);
+              }}
+            />
+            <Button variant="outline" className="gap-2" disabled={reading} onClick={() => fileInputRef.current?.click()}>
+              {reading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Choisir un fichier Excel
+            </Button>
+          </div>
+        )}
+
+        {step === "mapping" && sheet && (
+          <div className="flex-1 overflow-auto space-y-4 py-2">
+            {sheets.length > 1 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Feuille</span>
+                <select
+                  value={sheetIndex}
+                  onChange={(e) => handleSheetChange(Number(e.target.value))}
+                  className="rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+                >
+                  {sheets.map((s, i) => (
+                    <option key={s.sheetName} value={i}>
+                      {s.sheetName} ({s.rows.length} ligne(s))
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b border-border bg-muted/30">
+                  <th className="px-3 py-2 text-left font-semibold w-40">Colonne de la page</th>
+                  <th className="px-3 py-2 text-left font-semibold">Colonne du fichier</th>
+                  <th className="px-3 py-2 text-left font-semibold">Exemple</th>
+                </tr>
+              </thead>
+              <tbody>
+                {headers.map((h) => (
+                  <tr key={h} className="border-b border-border">
+                    <td className="px-3 py-1.5 font-medium">
+                      {h}
+                      {REQUIRED_IMPORT_HEADERS.includes(h) && <span className="text-destructive"> *</span>}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <select
+                        value={mapping[h] ?? ""}
+                        onChange={(e) => setMapping((prev) => ({ ...prev, [h]: e.target.value || undefined }))}
+                        className={selectClass}
+                      >
+                        <option value="">— Ignorer —</option>
+                        {sheet.columns.map((c) => (
+                          <option key={c} value={c}>
+                            {c}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-1.5 text-muted-foreground truncate max-w-[220px]">{sampleOf(mapping[h])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {supplier.trim() && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={rememberMapping} onCheckedChange={(c) => setRememberMapping(c === true)} />
+                Mémoriser cette correspondance pour {supplier.trim()}
+              </label>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="flex-1 overflow-auto rounded-md border border-border">
+            <table className="w-full text-sm border-collapse">
+              <thead className="sticky top-0 bg-muted/60">
+                <tr className="border-b border-border">
+                  <th className="px-2 py-2 text-left font-semibold">Ligne</th>
+                  {headers.map((h) => (
+                    <th key={h} className="px-2 py-2 text-left font-semibold whitespace-nowrap">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((row) => (
+                  <tr key={row.line} className={`border-b border-border ${row.request ? "" : "bg-red-50/60 dark:bg-red-950/20"}`}>
+                    <td className="px-2 py-1 tabular-nums text-muted-foreground">{row.line}</td>
+                    {headers.map((h) => (
+                      <td
+                        key={h}
+                        title={row.errors[h]}
+                        className={`px-2 py-1 whitespace-nowrap ${
+                          row.errors[h] ? "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200 font-medium" : ""
+                        }`}
+                      >
+                        {row.values[h] || (row.errors[h] ? "∅" : "")}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {step !== "file" && (
+          <DialogFooter className="items-center gap-2 sm:justify-between">
+            <p className="text-xs text-muted-foreground">
+              {step === "mapping"
+                ? missingRequired.length > 0
+                  ? `Colonne obligatoire non associée : ${missingRequired.join(", ")}.`
+                  : `${sheet?.rows.length ?? 0} ligne(s) dans la feuille.`
+                : `${validRequests.length} ligne(s) valide(s)${invalidCount > 0 ? `, ${invalidCount} en erreur (survolez les cellules rouges)` : ""}.`}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setStep(step === "preview" ? "mapping" : "file")}
+                disabled={submitting}
+              >
+                Retour
+              </Button>
+              {step === "mapping" ? (
+                <Button onClick={() => setStep("preview")} disabled={missingRequired.length > 0}>
+                  Aperçu
+                </Button>
+              ) : (
+                <Button onClick={handleSubmit} disabled={submitting || validRequests.length === 0} className="gap-2">
+                  {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Importer {validRequests.length} ligne(s)
+                </Button>
+              )}
+            </div>
+          </DialogFooter>
+        )}
+        {deliveryNoteGuard.dialog}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { Plus, Check, Trash2, Loader2, Info } from "lucide-react";
+import { Plus, Check, Trash2, Loader2, Info, CloudOff, AlertTriangle, History } from "lucide-react";
 import { api, type DailyReportResponse, type DailyReportRequest, type SetupInfoResponse } from "@/lib/api";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
+import { useOutbox } from "@/hooks/useOutbox";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { useDraftStash } from "@/hooks/useDraftStash";
+import { discardOutboxEntry, isNetworkError, type OutboxEntry } from "@/lib/offlineOutbox";
+import {
+  DAILY_REPORTS_OUTBOX_KIND,
+  dailyReportBaseVersions,
+  dailyReportOutboxRows,
+  enqueueDailyReportWrite,
+  listPendingDailyReports,
+  type DailyReportOutboxPayload,
+} from "@/lib/dailyReportsOutbox";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
 import { NumericInput } from "@/components/ui/NumericInput";
 import {
@@ -13,6 +27,8 @@ import {
   reportingDailyTrailColSpanAfterNbr,
   reportingDailyTotalMortalityLabelColSpan,
 } from "@/lib/reportingJournalierShared";
+import { canEditSavedRow, rowRejection, type RowRejection } from "@/lib/verificationShared";
+import RejectedRowMarker from "@/components/verification/RejectedRowMarker";
 
 const BUILDINGS_FALLBACK = ["Bâtiment 01", "Bâtiment 02", "Bâtiment 03", "Bâtiment 04"];
 const DESIGNATIONS_FALLBACK = ["Mâle", "Femelle"];
@@ -35,6 +51,13 @@ interface DailyRow {
   temp_max: string;
   traitement: string;
   verified: boolean;
+  /** Server version (saved rows) — sent with offline writes for conflict detection. */
+  version?: number;
+  /** Rejected in the À vérifier inbox: editable once more to correct it. */
+  rejection?: RowRejection | null;
+  /** Set when the row's last save is waiting in the offline outbox. */
+  outboxId?: string;
+  outboxStatus?: OutboxEntry["status"];
 }
 
 function toNum(s: string): number {
@@ -60,6 +83,14 @@ function formatDecDisplay(s: string): string {
 
 type NumericFieldDaily = "nbr" | "water_l" | "temp_min" | "temp_max";
 
+/** DailyReportRequest property of each editable DailyRow field (ApiValidationError.fieldErrors keys). */
+const DAILY_REQUEST_FIELDS: Partial<Record<keyof DailyRow, keyof DailyReportRequest>> = {
+  report_date: "reportDate",
+  water_l: "waterL",
+  temp_min: "tempMin",
+  temp_max: "tempMax",
+};
+
 function dailyNumericFocusKey(rowId: string, field: NumericFieldDaily): string {
   return `${rowId}:${field}`;
 }
@@ -78,9 +109,58 @@ function toRow(r: DailyReportResponse): DailyRow {
     temp_max: normalizeDecFromApi(r.tempMax),
     traitement: r.traitement ?? "",
     verified: r.verified,
+    version: r.version,
+    rejection: rowRejection(r),
   };
 }
 
+/**
+ * Overlay writes still waiting in the offline outbox on the loaded rows (same date/bâtiment/désignation),
+ * so a day typed without network stays visible after reload until it is synchronised.
+ */
+function applyPendingOutboxRows(
+  rows: DailyRow[],
+  entries: OutboxEntry<DailyReportOutboxPayload>[],
+  dateFilter: string | null
+): DailyRow[] {
+  let out = [...rows];
+  for (const entry of entries) {
+    for (const req of dailyReportOutboxRows(entry.payload)) {
+      if (dateFilter && req.reportDate !== dateFilter) continue;
+      const values: Partial<DailyRow> = {
+        report_date: req.reportDate,
+        building: req.building,
+        designation: req.designation,
+        nbr: String(req.nbr ?? ""),
+        water_l: normalizeDecFromApi(req.waterL),
+        temp_min: normalizeDecFromApi(req.tempMin),
+        temp_max: normalizeDecFromApi(req.tempMax),
+        traitement: req.traitement ?? "",
+        verified: req.verified,
+        outboxId: entry.id,
+        outboxStatus: entry.status,
+      };
+      const updateId = entry.payload.op === "update" ? String(entry.payload.id) : null;
+      const idx = out.findIndex((r) =>
+        updateId != null
+          ? r.id === updateId
+          : r.report_date === req.reportDate && r.building === req.building && r.designation === req.designation
+      );
+      if (idx >= 0) {
+        out = out.map((r, i) => (i === idx ? { ...r, ...values } : r));
+      } else {
+        out.push({
+          ...emptyRow(req.reportDate),
+          age_jour: req.ageJour != null ? String(req.ageJour) : "",
+          semaine: req.semaine != null ? String(req.semaine) : "",
+          ...values,
+        });
+      }
+    }
+  }
+  return out;
+}
+
 function emptyRow(today: string): DailyRow {
   return {
     id: crypto.randomUUID(),
@@ -312,9 +392,12 @@ interface DailyReportTableProps {
 
 export default function DailyReportTable({ initialDate, farmId, lot, isNewReport, onSaveSuccess }: DailyReportTableProps) {
   const today = new Date().toISOString().split("T")[0];
-  const { selectedFarmName, allFarmsMode, canCreate, canUpdate, canDelete, isReadOnly, isResponsableFerme } = useAuth();
+  const { user, selectedFarmName, allFarmsMode, canCreate, canUpdate, canDelete, hasFullAccess, isReadOnly } = useAuth();
   /** Only Admin/RT (canUpdate) can edit age/semaine on saved rows. RESPONSABLE_FERME cannot modify after save. */
   const { toast } = useToast();
+  const fieldErrors = useRowFieldErrors();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const rowHistory = useRowHistory();
   const [rows, setRows] = useState<DailyRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [savingRowId, setSavingRowId] = useState<string | null>(null);
@@ -333,6 +416,18 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
   /** Building+Sex configurations from setup info */
   const [setupConfigs, setSetupConfigs] = useState<BuildingSexConfig[]>([]);
   const [setupLoading, setSetupLoading] = useState(true);
+  /** Something was typed since the last load (rows added from setup are blank, saved rows are not tracked). */
+  const typedSinceLoadRef = useRef(false);
+  useDraftStash({
+    scope: `reportingJournalier:${initialDate ?? ""}`,
+    draft: rows,
+    isDirty: () => typedSinceLoadRef.current,
+    ready: !loading && !setupLoading,
+    restore: (draftRows) => {
+      typedSinceLoadRef.current = true;
+      setRows(draftRows);
+    },
+  });
   
   /** Get available buildings from setup configs or fallback */
   const availableBuildings = setupConfigs.length > 0 
@@ -406,15 +501,19 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
     }
     
     setLoading(true);
+    typedSinceLoadRef.current = false;
     const todayStr = new Date().toISOString().split("T")[0];
     let forDate = initialDate ?? todayStr;
+    const pending = await listPendingDailyReports(farmId, lot);
+    const pendingDates = pending.map((e) => e.date).filter((d): d is string => d != null && d.trim() !== "");
     try {
       const list = await api.dailyReports.list(farmId ?? undefined, lot ?? undefined);
       console.log("✅ DailyReportTable - Daily reports loaded:", { count: list.length, list });
       // For "Nouveau rapport": use next day after last saved report so each day has a unique age (no duplication)
-      if (isNewReport && list.length > 0) {
-        const existingDates = new Set(list.map((r) => r.reportDate).filter((d): d is string => d != null && d.trim() !== ""));
-        const maxReportDate = list.reduce((max, r) => (r.reportDate > max ? r.reportDate : max), list[0].reportDate);
+      if (isNewReport && list.length + pendingDates.length > 0) {
+        const allDates = [...list.map((r) => r.reportDate), ...pendingDates];
+        const existingDates = new Set(allDates.filter((d): d is string => d != null && d.trim() !== ""));
+        const maxReportDate = allDates.reduce((max, d) => (d > max ? d : max), allDates[0]);
         forDate = addDays(maxReportDate, 1);
         // Ensure we never pick a date that already has reports (handles race/stale data)
         while (existingDates.has(forDate)) {
@@ -429,6 +528,8 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
       // When we just saved a batch with multiple dates, show all rows (no filter)
       const skipDateFilter = showAllOnNextLoadRef.current;
       if (skipDateFilter) showAllOnNextLoadRef.current = false;
+      const dateFilter = initialDate && !isNewReport && !skipDateFilter ? initialDate : isNewReport && !skipDateFilter ? forDate : null;
+      const withPending = (next: DailyRow[]) => applyPendingOutboxRows(next, pending, dateFilter);
       const filtered = (initialDate && !isNewReport && !skipDateFilter)
         ? list.filter((r) => r.reportDate === initialDate)
         : list;
@@ -450,29 +551,31 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
       // When "Nouveau rapport" (and not refreshing after multi-date save): full effectif template for that day
       if (isNewReport && !skipDateFilter) {
         const emptyRows = createEmptyRowsFromSetup(forDate, effectivePlacement);
-        setRows(emptyRows);
+        setRows(withPending(emptyRows));
       } else {
         if (isReadOnly) {
-          setRows(sortRowsByEffectifOrder(mapped, setupConfigs));
+          setRows(sortRowsByEffectifOrder(withPending(mapped), setupConfigs));
         } else if (setupConfigs.length > 0) {
           const padDateIfEmpty =
             initialDate && !isNewReport && !skipDateFilter ? initialDate : null;
           setRows(
-            mergeEffectifDraftsForDates(mapped, setupConfigs, effectivePlacement, padDateIfEmpty)
+            sortRowsByEffectifOrder(
+              withPending(mergeEffectifDraftsForDates(mapped, setupConfigs, effectivePlacement, padDateIfEmpty)),
+              setupConfigs
+            )
           );
-        } else if (mapped.length > 0) {
-          setRows(mapped);
+        } else if (mapped.length > 0 || pending.length > 0) {
+          setRows(withPending(mapped));
         } else {
           setRows([]);
         }
       }
     } catch (error) {
       console.error("❌ DailyReportTable - Error loading daily reports:", error);
-      if (isNewReport) {
-        setRows(createEmptyRowsFromSetup(forDate, placementDateForLot));
-      } else {
-        setRows([]);
-      }
+      // Offline: keep the day usable from setup + writes waiting in the outbox.
+      const offlineDate = isNewReport ? forDate : initialDate ?? null;
+      const base = offlineDate ? createEmptyRowsFromSetup(offlineDate, placementDateForLot) : [];
+      setRows(sortRowsByEffectifOrder(applyPendingOutboxRows(base, pending, offlineDate), setupConfigs));
     } finally {
       setLoading(false);
     }
@@ -485,6 +588,23 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
     }
   }, [load, setupLoading]);
 
+  /** Reload once a pending row has been synchronised (or discarded); follow status changes (conflict…). */
+  const { entries: outboxEntries } = useOutbox({ kind: DAILY_REPORTS_OUTBOX_KIND, farmId, lot });
+  useEffect(() => {
+    const live = new Map(outboxEntries.map((e) => [e.id, e.status]));
+    const pendingRows = rows.filter((r) => r.outboxId);
+    if (pendingRows.length === 0) return;
+    if (pendingRows.some((r) => !live.has(r.outboxId!))) {
+      void load();
+      return;
+    }
+    if (pendingRows.some((r) => live.get(r.outboxId!) !== r.outboxStatus)) {
+      setRows((prev) =>
+        prev.map((r) => (r.outboxId && live.has(r.outboxId) ? { ...r, outboxStatus: live.get(r.outboxId) } : r))
+      );
+    }
+  }, [outboxEntries, rows, load]);
+
   const addRow = () => {
     const placement = effectivePlacementRef.current ?? placementDateForLot;
     const last = rows[rows.length - 1];
@@ -529,6 +649,7 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
     if (isSavedRow(id) && canDelete) {
       try {
         await api.dailyReports.delete(parseInt(id, 10));
+        void invalidateAfterWrite("dailyReports", { farmId, lot });
         setRows((prev) => prev.filter((r) => r.id !== id));
         toast({ title: "Ligne supprimée", description: "Le rapport a été supprimé de la base de données." });
       } catch {
@@ -540,6 +661,8 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
   };
 
   const updateRow = (id: string, field: keyof DailyRow, value: string | boolean) => {
+    fieldErrors.clearField(id, DAILY_REQUEST_FIELDS[field] ?? field);
+    typedSinceLoadRef.current = true;
     setRows((prev) => {
       const next = prev.map((r) => (r.id === id ? { ...r, [field]: value } : r));
       if (field === "report_date" && placementDateForLot && typeof value === "string") {
@@ -585,7 +708,7 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
   /** Enregistrement par ligne (✓), comme Livraisons Aliment. Validations globales (âges / doublons) sur toutes les lignes valides. */
   const saveRow = async (row: DailyRow) => {
     const saved = isSavedRow(row.id);
-    if (saved && !canUpdate) return;
+    if (saved && !canEditSavedRow(canUpdate, row, user?.username)) return;
     if (!saved && !canCreate) {
       toast({ title: "Non autorisé", description: "Vous ne pouvez pas créer de données.", variant: "destructive" });
       return;
@@ -612,15 +735,20 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
 
     const updatingIds = saved ? new Set([parseInt(row.id, 10)]) : new Set<number>();
     if (placementDateForLot) {
-      const ok = await checkAgeWeekConsistency(
-        rowsWithCalculatedAge,
-        updatingIds,
-        farmId,
-        lot,
-        placementDateForLot,
-        toast
-      );
-      if (!ok) return;
+      try {
+        const ok = await checkAgeWeekConsistency(
+          rowsWithCalculatedAge,
+          updatingIds,
+          farmId,
+          lot,
+          placementDateForLot,
+          toast
+        );
+        if (!ok) return;
+      } catch (e) {
+        // Offline: the server re-validates when the outbox replays the write.
+        if (!isNetworkError(e)) throw e;
+      }
     }
 
     setRows((prevRows) =>
@@ -631,18 +759,27 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
     if (!recalced) return;
 
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
+    const d = recalced.report_date;
+    const forDate = rowsWithCalculatedAge.filter((r) => r.report_date === d);
+    // A saved row reaches here without update rights only when rejected: it is corrected in place
+    const payload: DailyReportOutboxPayload = saved
+      ? { op: "update", id: parseInt(row.id, 10), row: toRequest(recalced) }
+      : canUpdate
+        ? { op: "createBatch", rows: [toRequest(recalced)] }
+        : { op: "replaceBatch", reportDate: d, rows: forDate.map(toRequest) };
     try {
-      if (canUpdate) {
-        if (saved) {
-          await api.dailyReports.update(parseInt(row.id, 10), toRequest(recalced));
-        } else {
-          await api.dailyReports.createBatch([toRequest(recalced)], farmId ?? undefined);
-        }
+      if (payload.op === "update") {
+        await api.dailyReports.update(payload.id, payload.row);
+        // Corrected after a rejection: back in the À vérifier queue
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, rejection: null } : r)));
+      } else if (payload.op === "createBatch") {
+        await api.dailyReports.createBatch(payload.rows, farmId ?? undefined);
       } else {
-        const d = recalced.report_date;
-        const forDate = rowsWithCalculatedAge.filter((r) => r.report_date === d);
-        await api.dailyReports.replaceBatch(d, forDate.map(toRequest), farmId ?? undefined);
+        await api.dailyReports.replaceBatch(payload.reportDate, payload.rows, farmId ?? undefined);
       }
+      // Reports are merged into the weekly suivi (and everything derived from it)
+      void invalidateAfterWrite("dailyReports", { farmId, lot });
 
       toast({
         title: "Ligne enregistrée",
@@ -654,13 +791,44 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
       } else {
         await load();
       }
-    } catch {
-      toast({ title: "Erreur", description: "Impossible d'enregistrer la ligne.", variant: "destructive" });
+    } catch (e) {
+      if (fieldErrors.capture(row.id, e)) {
+        toast({ title: "Valeurs invalides", description: "Corrigez les cellules signalées en rouge.", variant: "destructive" });
+        return;
+      }
+      if (!isNetworkError(e)) {
+        toast({ title: "Erreur", description: "Impossible d'enregistrer la ligne.", variant: "destructive" });
+        return;
+      }
+      await queueOfflineSave(payload, recalced, payload.op === "replaceBatch" ? forDate : [recalced]);
     } finally {
       setSavingRowId(null);
     }
   };
 
+  /** Network unavailable: keep the write in the outbox (replayed automatically) and mark the rows as pending. */
+  const queueOfflineSave = async (payload: DailyReportOutboxPayload, row: DailyRow, affected: DailyRow[]) => {
+    const baseRows = affected
+      .filter((r) => isSavedRow(r.id) && r.version != null)
+      .map((r) => ({ id: parseInt(r.id, 10), version: r.version! }));
+    const entry = await enqueueDailyReportWrite(payload, {
+      farmId,
+      lot,
+      baseVersions: dailyReportBaseVersions(baseRows),
+    });
+    const affectedIds = new Set(affected.map((r) => r.id));
+    setRows((prev) =>
+      prev.map((r) => (affectedIds.has(r.id) ? { ...r, outboxId: entry.id, outboxStatus: entry.status } : r))
+    );
+    // A newer offline save of the same rows supersedes the queued one.
+    const superseded = new Set(affected.map((r) => r.outboxId).filter((id): id is string => id != null));
+    for (const id of superseded) await discardOutboxEntry(id);
+    toast({
+      title: "Hors ligne",
+      description: `Le rapport du ${row.report_date} est enregistré sur cet appareil et sera synchronisé dès le retour du réseau.`,
+    });
+  };
+
   const totalMortality = rows.reduce((s, r) => s + toNum(r.nbr), 0);
 
   const showSaveCol = !isReadOnly && (canCreate || canUpdate);
@@ -731,20 +899,25 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                 </th>
               ) : null}
               {showDeleteCol ? <th className="w-10"></th> : null}
+              <th className="w-9 min-w-0 !px-1" title="Historique"></th>
             </tr>
           </thead>
           <tbody>
             {rows.map((row) => {
               const saved = isSavedRow(row.id);
-              const readOnly = isReadOnly || (saved && !canUpdate);
-              const canSaveRow = showSaveCol && ((!saved && canCreate) || (saved && canUpdate));
-              const canDeleteThisRow = canDelete && !(isResponsableFerme && saved);
+              const readOnly = isReadOnly || (saved && !canEditSavedRow(canUpdate, row, user?.username));
+              const canSaveRow = showSaveCol && ((!saved && canCreate) || (saved && canEditSavedRow(canUpdate, row, user?.username)));
+              // Saved rows: full access only, like the other grids; unsaved rows: donnees:delete
+              const canDeleteThisRow = saved ? hasFullAccess : canDelete;
               return (
                 <tr key={row.id}>
                   <td className="text-sm font-medium text-muted-foreground tabular-nums">
                     {row.age_jour || "—"}
                   </td>
-                  <td>
+                  <td
+                    className={fieldErrors.cellClass(row.id, "reportDate")}
+                    title={fieldErrors.fieldError(row.id, "reportDate") ?? undefined}
+                  >
                     {readOnly ? (
                       <span className="text-sm">{row.report_date}</span>
                     ) : dateFocusRowId === row.id ? (
@@ -769,7 +942,10 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                   <td className="text-sm font-medium text-muted-foreground">
                     {row.semaine?.trim() ? (row.semaine.match(/^\d+$/) ? `S${row.semaine}` : row.semaine) : "—"}
                   </td>
-                  <td>
+                  <td
+                    className={fieldErrors.cellClass(row.id, "building")}
+                    title={fieldErrors.fieldError(row.id, "building") ?? undefined}
+                  >
                     {setupConfigs.length > 0 ? (
                       <span className="text-sm font-medium">{row.building}</span>
                     ) : (
@@ -785,7 +961,10 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                       </select>
                     )}
                   </td>
-                  <td>
+                  <td
+                    className={fieldErrors.cellClass(row.id, "designation")}
+                    title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                  >
                     {setupConfigs.length > 0 ? (
                       <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
                         row.designation === "Mâle" 
@@ -807,7 +986,10 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                       </select>
                     )}
                   </td>
-                  <td className="text-center">
+                  <td
+                    className={`text-center ${fieldErrors.cellClass(row.id, "nbr")}`}
+                    title={fieldErrors.fieldError(row.id, "nbr") ?? undefined}
+                  >
                     {readOnly ? (
                       <span className="block text-center tabular-nums px-1 py-0.5">{formatIntDisplay(row.nbr)}</span>
                     ) : (
@@ -822,7 +1004,10 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                       />
                     )}
                   </td>
-                  <td className="min-w-[128px] text-center">
+                  <td
+                    className={`min-w-[128px] text-center ${fieldErrors.cellClass(row.id, "waterL")}`}
+                    title={fieldErrors.fieldError(row.id, "waterL") ?? undefined}
+                  >
                     {readOnly ? (
                       <span className="block text-center tabular-nums px-1 py-0.5">{formatDecDisplay(row.water_l)}</span>
                     ) : (
@@ -838,7 +1023,10 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                       />
                     )}
                   </td>
-                  <td className="text-center">
+                  <td
+                    className={`text-center ${fieldErrors.cellClass(row.id, "tempMin")}`}
+                    title={fieldErrors.fieldError(row.id, "tempMin") ?? undefined}
+                  >
                     {readOnly ? (
                       <span className="block text-center tabular-nums px-1 py-0.5">{formatDecDisplay(row.temp_min)}</span>
                     ) : (
@@ -855,7 +1043,10 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                       />
                     )}
                   </td>
-                  <td className="text-center">
+                  <td
+                    className={`text-center ${fieldErrors.cellClass(row.id, "tempMax")}`}
+                    title={fieldErrors.fieldError(row.id, "tempMax") ?? undefined}
+                  >
                     {readOnly ? (
                       <span className="block text-center tabular-nums px-1 py-0.5">{formatDecDisplay(row.temp_max)}</span>
                     ) : (
@@ -872,7 +1063,10 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                       />
                     )}
                   </td>
-                  <td>
+                  <td
+                    className={fieldErrors.cellClass(row.id, "traitement")}
+                    title={fieldErrors.fieldError(row.id, "traitement") ?? undefined}
+                  >
                     <input
                       type="text"
                       value={row.traitement}
@@ -884,6 +1078,7 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                   </td>
                   {showSaveCol ? (
                     <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                      {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                       {canSaveRow && (
                         <button
                           type="button"
@@ -899,6 +1094,26 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                           )}
                         </button>
                       )}
+                      {row.outboxId && (
+                        <span
+                          className={`inline-flex justify-center p-0.5 ${
+                            row.outboxStatus === "conflict" || row.outboxStatus === "failed" ? "text-destructive" : "text-amber-600"
+                          }`}
+                          title={
+                            row.outboxStatus === "conflict"
+                              ? "Conflit de synchronisation — à résoudre dans « Jours enregistrés »"
+                              : row.outboxStatus === "failed"
+                                ? "Échec de synchronisation — à relancer dans « Jours enregistrés »"
+                                : "En attente de synchronisation"
+                          }
+                        >
+                          {row.outboxStatus === "conflict" || row.outboxStatus === "failed" ? (
+                            <AlertTriangle className="w-4 h-4" />
+                          ) : (
+                            <CloudOff className="w-4 h-4" />
+                          )}
+                        </span>
+                      )}
                     </td>
                   ) : null}
                   {showDeleteCol ? (
@@ -914,6 +1129,25 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
                       ) : null}
                     </td>
                   ) : null}
+                  <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                    {saved && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          rowHistory.open({
+                            entityType: "DAILY_REPORT",
+                            entityId: parseInt(row.id, 10),
+                            title: [row.report_date, row.building, row.designation].filter(Boolean).join(" — "),
+                            meta: { version: row.version },
+                          })
+                        }
+                        className="text-muted-foreground hover:text-primary transition-colors p-0.5 inline-flex justify-center"
+                        title="Historique"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
                 </tr>
               );
             })}
@@ -934,6 +1168,7 @@ export default function DailyReportTable({ initialDate, farmId, lot, isNewReport
           </tfoot>
         </table>
       </div>
+      {rowHistory.sheet}
     </div>
   );
 }
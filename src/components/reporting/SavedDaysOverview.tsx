@@ -1,8 +1,11 @@
-import { useState, useEffect, useCallback } from "react";
-import { Calendar, ChevronDown, ChevronRight, Loader2, Plus } from "lucide-react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { AlertTriangle, Calendar, ChevronDown, ChevronRight, CloudOff, Loader2, Plus, RefreshCw } from "lucide-react";
 import { api, type DailyReportResponse } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
+import { useOutbox } from "@/hooks/useOutbox";
+import { DAILY_REPORTS_OUTBOX_KIND, dailyReportOutboxRows, type DailyReportOutboxPayload } from "@/lib/dailyReportsOutbox";
+import type { OutboxEntry } from "@/lib/offlineOutbox";
 
 /** Format YYYY-MM-DD → YYYY-MM-DD (keep original format) */
 function formatDateDMY(iso: string): string {
@@ -26,21 +29,33 @@ function addDays(iso: string, n: number): string {
   return d.toISOString().split("T")[0]!;
 }
 
-type DayInWeek = { date: string; hasReport: boolean };
+type DayInWeek = { date: string; hasReport: boolean; pendingSync: boolean };
 type DayItem = { type: "day"; date: string };
 type WeekItem = { type: "week"; weekKey: string; label: string; dateRange: string; days: DayInWeek[] };
 
 /**
  * Build week items with exactly 7 days each. S1 = ages 1–7, S2 = ages 8–14, etc.
  * Each week box shows all 7 days; days with reports are highlighted, others are "À faire".
+ * Days only saved on this device (offline outbox) count as reported and are flagged pendingSync.
  */
-function buildOverviewItems(reports: DailyReportResponse[]): (DayItem | WeekItem)[] {
+function buildOverviewItems(
+  reports: DailyReportResponse[],
+  pendingEntries: OutboxEntry<DailyReportOutboxPayload>[] = []
+): (DayItem | WeekItem)[] {
   const uniqueByDate = new Map<string, number>();
   for (const r of reports) {
     if (r.reportDate && !uniqueByDate.has(r.reportDate)) {
       uniqueByDate.set(r.reportDate, r.ageJour ?? 0);
     }
   }
+  const pendingDates = new Set<string>();
+  for (const entry of pendingEntries) {
+    for (const r of dailyReportOutboxRows(entry.payload)) {
+      if (!r.reportDate) continue;
+      pendingDates.add(r.reportDate);
+      if (!uniqueByDate.has(r.reportDate)) uniqueByDate.set(r.reportDate, r.ageJour ?? 0);
+    }
+  }
   const datesWithAge = [...uniqueByDate.entries()];
   if (datesWithAge.length === 0) return [];
 
@@ -67,7 +82,7 @@ function buildOverviewItems(reports: DailyReportResponse[]): (DayItem | WeekItem
     const days: DayInWeek[] = [];
     for (let i = 0; i < 7; i++) {
       const date = addDays(placement, (sem - 1) * 7 + i);
-      days.push({ date, hasReport: savedDates.has(date) });
+      days.push({ date, hasReport: savedDates.has(date), pendingSync: pendingDates.has(date) });
     }
     const dateStrings = days.map((d) => d.date);
     return {
@@ -95,6 +110,8 @@ export default function SavedDaysOverview({ onSelectDay, onNewReport, farmId, lo
   const [loading, setLoading] = useState(true);
   const [reports, setReports] = useState<DailyReportResponse[]>([]);
   const [expandedWeeks, setExpandedWeeks] = useState<Set<string>>(new Set());
+  const outbox = useOutbox({ kind: DAILY_REPORTS_OUTBOX_KIND, farmId, lot });
+  const pendingEntries = outbox.entries as OutboxEntry<DailyReportOutboxPayload>[];
 
   const load = useCallback(async () => {
     console.log("📊 SavedDaysOverview - Loading daily reports with:", { farmId, lot });
@@ -115,6 +132,26 @@ export default function SavedDaysOverview({ onSelectDay, onNewReport, farmId, lo
     load();
   }, [load]);
 
+  /** Entries leave the outbox once synchronised: reload so the day shows as saved on the server. */
+  const outboxCountRef = useRef(pendingEntries.length);
+  useEffect(() => {
+    if (pendingEntries.length < outboxCountRef.current) load();
+    outboxCountRef.current = pendingEntries.length;
+  }, [pendingEntries.length, load]);
+
+  const handleSyncNow = async () => {
+    const summary = await outbox.syncNow();
+    if (summary.synced > 0) {
+      toast({ title: "Synchronisation", description: `${summary.synced} enregistrement(s) synchronisé(s).` });
+    } else if (summary.remaining > 0) {
+      toast({
+        title: "Synchronisation impossible",
+        description: "Le serveur n'est pas joignable ou des conflits restent à résoudre.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const toggleWeek = (weekKey: string) => {
     setExpandedWeeks((prev) => {
       const next = new Set(prev);
@@ -133,7 +170,8 @@ export default function SavedDaysOverview({ onSelectDay, onNewReport, farmId, lo
     );
   }
 
-  const items = buildOverviewItems(reports);
+  const items = buildOverviewItems(reports, pendingEntries);
+  const blockedEntries = pendingEntries.filter((e) => e.status === "conflict" || e.status === "failed");
 
   return (
     <div className="bg-card rounded-lg border border-border shadow-sm animate-fade-in">
@@ -160,6 +198,65 @@ export default function SavedDaysOverview({ onSelectDay, onNewReport, farmId, lo
         )}
       </div>
 
+      {pendingEntries.length > 0 && (
+        <div className="mx-5 mt-4 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="flex items-center gap-2 text-sm font-medium text-amber-800 dark:text-amber-200">
+              <CloudOff className="w-4 h-4" />
+              {outbox.pendingCount > 0 && `${outbox.pendingCount} enregistrement(s) en attente de synchronisation`}
+              {outbox.pendingCount > 0 && blockedEntries.length > 0 && " — "}
+              {blockedEntries.length > 0 && `${blockedEntries.length} à résoudre`}
+            </p>
+            <button
+              type="button"
+              onClick={handleSyncNow}
+              disabled={outbox.syncing}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-amber-300 bg-background text-sm font-medium hover:bg-muted/60 transition-colors disabled:opacity-60"
+            >
+              <RefreshCw className={`w-4 h-4 ${outbox.syncing ? "animate-spin" : ""}`} /> Synchroniser
+            </button>
+          </div>
+          {blockedEntries.map((entry) => (
+            <div key={entry.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-destructive/30 bg-background px-3 py-2">
+              <p className="flex items-start gap-2 text-xs text-foreground">
+                <AlertTriangle className="w-4 h-4 shrink-0 text-destructive" />
+                <span>
+                  <strong>{entry.date ?? "—"}</strong> — {entry.status === "conflict" ? "Conflit" : "Échec"} : {entry.lastError ?? "erreur inconnue"}
+                </span>
+              </p>
+              <div className="flex gap-2">
+                {entry.status === "conflict" ? (
+                  <button
+                    type="button"
+                    onClick={() => outbox.retry(entry.id, { force: true })}
+                    className="px-2 py-1 rounded-md bg-primary text-primary-foreground text-xs font-medium hover:opacity-90"
+                    title="Remplacer la version du serveur par la saisie de cet appareil"
+                  >
+                    Garder ma saisie
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => outbox.retry(entry.id)}
+                    className="px-2 py-1 rounded-md bg-primary text-primary-foreground text-xs font-medium hover:opacity-90"
+                  >
+                    Réessayer
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => outbox.discard(entry.id)}
+                  className="px-2 py-1 rounded-md border border-border text-xs font-medium hover:bg-muted/60"
+                  title="Abandonner la saisie locale et garder la version du serveur"
+                >
+                  Garder le serveur
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="p-5">
         {items.length === 0 ? (
           <p className="text-sm text-muted-foreground py-6 text-center">
@@ -199,18 +296,21 @@ export default function SavedDaysOverview({ onSelectDay, onNewReport, farmId, lo
                   </button>
                   {isExpanded && (
                     <div className="flex flex-wrap gap-2 pl-2">
-                      {item.days.map(({ date, hasReport }) => (
+                      {item.days.map(({ date, hasReport, pendingSync }) => (
                         <button
                           key={date}
                           type="button"
                           onClick={() => onSelectDay(date)}
-                          className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
-                            hasReport
-                              ? "border-border bg-background hover:bg-primary/10 hover:border-primary/50 text-foreground"
-                              : "border-dashed border-muted-foreground/50 bg-muted/30 hover:border-primary/50 hover:bg-primary/5 text-muted-foreground"
+                          className={`flex items-center gap-1.5 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                            pendingSync
+                              ? "border-amber-400 bg-amber-50 dark:bg-amber-950/40 hover:border-primary/50 text-foreground"
+                              : hasReport
+                                ? "border-border bg-background hover:bg-primary/10 hover:border-primary/50 text-foreground"
+                                : "border-dashed border-muted-foreground/50 bg-muted/30 hover:border-primary/50 hover:bg-primary/5 text-muted-foreground"
                           }`}
-                          title={hasReport ? date : `${date} — À faire`}
+                          title={pendingSync ? `${date} — En attente de synchronisation` : hasReport ? date : `${date} — À faire`}
                         >
+                          {pendingSync && <CloudOff className="w-3.5 h-3.5 text-amber-600" />}
                           {formatDateDMY(date)}
                         </button>
                       ))}
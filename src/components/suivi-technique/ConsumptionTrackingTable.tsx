@@ -1,8 +1,8 @@
-import { useState, useEffect, useCallback } from "react";
+import { useEffect } from "react";
 import { Loader2 } from "lucide-react";
-import { api, type SuiviConsommationHebdoResponse } from "@/lib/api";
+import { type SuiviConsommationHebdoResponse } from "@/lib/api";
 import { formatGroupedNumber } from "@/lib/formatResumeAmount";
-import { useToast } from "@/hooks/use-toast";
+import { useSuiviConsommationHebdoQuery } from "@/hooks/useApiQueries";
 
 type RowKey = "consommation_aliment" | "cumul_aliment" | "indice_eau_aliment" | "conso_kg_j";
 
@@ -40,27 +40,16 @@ interface ConsumptionTrackingTableProps {
 }
 
 export default function ConsumptionTrackingTable({ farmId, lot, semaine, sex, batiment, onSaveSuccess, refreshKey }: ConsumptionTrackingTableProps) {
-  const { toast } = useToast();
-  const [loading, setLoading] = useState(true);
-  const [data, setData] = useState<SuiviConsommationHebdoResponse | null>(null);
-
-  const load = useCallback(async () => {
-    setLoading(true);
-    try {
-      const res = await api.suiviConsommationHebdo.get({ farmId, lot, semaine, sex, batiment: batiment ?? undefined });
-      setData(res);
-    } catch {
-      setData(null);
-    } finally {
-      setLoading(false);
-    }
-  }, [farmId, lot, semaine, sex, batiment, toast, refreshKey]);
+  const consommationQuery = useSuiviConsommationHebdoQuery({ farmId, lot, semaine, sex, batiment });
+  const loading = consommationQuery.isPending && consommationQuery.fetchStatus !== "idle";
+  const data: SuiviConsommationHebdoResponse | null = consommationQuery.isError ? null : (consommationQuery.data ?? null);
+  const refetchConsommation = consommationQuery.refetch;
 
   // Refetch when refreshKey changes (e.g. after stock aliment save) so CONSOMMATION ALIMENT updates for S1 and S2+.
   // Backend computes conso from stock (and livraisons when present); livraisons may be 0 — we display the returned value (including 0).
   useEffect(() => {
-    load();
-  }, [load]);
+    if (refreshKey) void refetchConsommation();
+  }, [refreshKey, refetchConsommation]);
 
   if (loading) {
     return (
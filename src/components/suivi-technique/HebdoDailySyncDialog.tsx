@@ -0,0 +1,259 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { ApiConflictError } from "@/lib/api";
+import {
+  applyHebdoDailySync,
+  dailyReportSemaines,
+  HEBDO_SYNC_ACTION_LABELS,
+  hebdoSyncCounts,
+  loadHebdoSyncSources,
+  planHebdoDailySync,
+  type HebdoSyncAction,
+  type HebdoSyncSources,
+} from "@/lib/hebdoDailySync";
+import { cn } from "@/lib/utils";
+
+export interface HebdoDailySyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  farmId: number;
+  lot: string;
+  /** Called after the weeks were written. */
+  onApplied?: () => void;
+}
+
+const ACTION_BADGE: Record<HebdoSyncAction, string> = {
+  create: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/50 dark:text-emerald-300",
+  update: "bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300",
+  unchanged: "bg-muted text-muted-foreground",
+};
+
+/** Display yyyy-mm-dd as dd/mm. */
+function formatDay(iso: string): string {
+  const m = iso.match(/^\d{4}-(\d{2})-(\d{2})/);
+  return m ? `${m[2]}/${m[1]}` : iso;
+}
+
+/**
+ * Dry run then apply of the lot-wide journalier → suivi hebdo synchronisation (hebdoDailySync.ts), for a range of
+ * semaines, every bâtiment and both sexes.
+ */
+export default function HebdoDailySyncDialog({ open, onOpenChange, farmId, lot, onApplied }: HebdoDailySyncDialogProps) {
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [sources, setSources] = useState<HebdoSyncSources | null>(null);
+  const [fromSemaine, setFromSemaine] = useState("");
+  const [toSemaine, setToSemaine] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    setSources(null);
+    loadHebdoSyncSources(farmId, lot)
+      .then((loaded) => {
+        if (cancelled) return;
+        const semaines = dailyReportSemaines(loaded.dailyReports);
+        setSources(loaded);
+        setFromSemaine(semaines[0] ?? "");
+        setToSemaine(semaines[semaines.length - 1] ?? "");
+      })
+      .catch(() => {
+        if (!cancelled) toast({ title: "Erreur", description: "Impossible de charger le reporting journalier.", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, farmId, lot, toast]);
+
+  const semaines = useMemo(() => dailyReportSemaines(sources?.dailyReports ?? []), [sources]);
+  const plan = useMemo(
+    () => (sources && fromSemaine && toSemaine ? planHebdoDailySync(sources, { lot, fromSemaine, toSemaine }) : null),
+    [sources, lot, fromSemaine, toSemaine]
+  );
+  const counts = plan ? hebdoSyncCounts(plan) : { create: 0, update: 0, unchanged: 0 };
+  const pendingWeeks = (plan?.groups ?? []).filter((g) => g.rows.some((r) => r.action !== "unchanged")).length;
+
+  const handleApply = async () => {
+    if (!plan || pendingWeeks === 0) return;
+    setApplying(true);
+    setProgress({ done: 0, total: pendingWeeks });
+    try {
+      const { written, skipped } = await applyHebdoDailySync(farmId, lot, plan, (done, total) =>
+        setProgress({ done, total })
+      );
+      void invalidateAfterWrite("suiviTechniqueHebdo", { farmId, lot, semaine: fromSemaine });
+      const writtenCounts = hebdoSyncCounts({ groups: written, unmatchedReports: [] });
+      toast({
+        title: "Semaines synchronisées",
+        description: `${writtenCounts.create} ligne(s) créée(s), ${writtenCounts.update} mise(s) à jour sur ${written.length} semaine(s) bâtiment.`,
+      });
+      if (skipped.length > 0) {
+        toast({
+          title: "Semaines non synchronisées",
+          description: `Effectif de départ inconnu (effectif restant de la semaine précédente non saisi) : ${skipped
+            .map((g) => `${g.semaine} ${g.batiment} ${g.sex}`)
+            .join(", ")}.`,
+          variant: "destructive",
+        });
+      }
+      onApplied?.();
+      onOpenChange(false);
+    } catch (error) {
+      void invalidateAfterWrite("suiviTechniqueHebdo", { farmId, lot, semaine: fromSemaine });
+      toast({
+        title: "Erreur",
+        description:
+          error instanceof ApiConflictError
+            ? "Une semaine a été modifiée entre-temps. Relancez l'analyse puis appliquez à nouveau."
+            : "La synchronisation s'est arrêtée avant la fin. Les semaines déjà écrites sont conservées.",
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+      setProgress(null);
+    }
+  };
+
+  const selectClass = "rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground";
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !applying && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Remplir les semaines depuis le reporting journalier — lot {lot}</DialogTitle>
+          <DialogDescription>
+            Les lignes du reporting journalier sont reportées dans le suivi technique hebdomadaire de tous les
+            bâtiments et des deux sexes, puis les cumuls de mortalité sont recalculés. Vaccination et observation déjà
+            saisies sont conservées.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>Chargement du reporting journalier…</span>
+          </div>
+        ) : semaines.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Aucun reporting journalier pour ce lot.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+                De
+                <select value={fromSemaine} onChange={(e) => setFromSemaine(e.target.value)} className={selectClass}>
+                  {semaines.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+                À
+                <select value={toSemaine} onChange={(e) => setToSemaine(e.target.value)} className={selectClass}>
+                  {semaines.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex flex-wrap gap-2 pb-1.5 text-xs">
+                {(Object.keys(HEBDO_SYNC_ACTION_LABELS) as HebdoSyncAction[]).map((action) => (
+                  <span key={action} className={cn("rounded px-2 py-0.5 font-medium", ACTION_BADGE[action])}>
+                    {HEBDO_SYNC_ACTION_LABELS[action]} : {counts[action]}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {plan && plan.unmatchedReports.length > 0 && (
+              <p className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-200">
+                {plan.unmatchedReports.length} ligne(s) du reporting journalier ont un bâtiment ou un sexe absent des
+                données mises en place : elles ne seront pas reportées.
+              </p>
+            )}
+
+            {!plan || plan.groups.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">Rien à reporter sur ces semaines.</p>
+            ) : (
+              <div className="flex-1 overflow-auto rounded-md border border-border">
+                <table className="w-full text-sm border-collapse">
+                  <thead className="sticky top-0 bg-muted/60">
+                    <tr className="border-b border-border">
+                      <th className="px-3 py-2 text-left font-semibold">Semaine</th>
+                      <th className="px-3 py-2 text-left font-semibold">Bâtiment</th>
+                      <th className="px-3 py-2 text-left font-semibold">Sexe</th>
+                      <th className="px-3 py-2 text-left font-semibold">Jours</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.groups.map((g) => (
+                      <tr key={`${g.semaine}|${g.batiment}|${g.sex}`} className="border-b border-border align-top">
+                        <td className="px-3 py-1.5 font-medium">{g.semaine}</td>
+                        <td className="px-3 py-1.5">{g.batiment}</td>
+                        <td className="px-3 py-1.5">{g.sex}</td>
+                        <td className="px-3 py-1.5">
+                          <div className="flex flex-wrap gap-1">
+                            {g.rows.map((r) => (
+                              <span
+                                key={r.date}
+                                className={cn("rounded px-1.5 py-0.5 text-xs tabular-nums", ACTION_BADGE[r.action])}
+                                title={
+                                  r.action === "update"
+                                    ? `${HEBDO_SYNC_ACTION_LABELS.update} : ${r.changedFields.join(", ")}`
+                                    : HEBDO_SYNC_ACTION_LABELS[r.action]
+                                }
+                              >
+                                {formatDay(r.date)}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="text-xs text-muted-foreground">
+            {progress
+              ? `Écriture ${progress.done} / ${progress.total} semaine(s) bâtiment…`
+              : `${pendingWeeks} semaine(s) bâtiment à écrire.`}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+              Annuler
+            </Button>
+            <Button onClick={handleApply} disabled={applying || loading || pendingWeeks === 0} className="gap-2">
+              {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+              Appliquer
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
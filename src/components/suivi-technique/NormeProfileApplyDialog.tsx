@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { api, type PerformanceNormeProfileRequest, type PerformanceNormeResponse } from "@/lib/api";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import {
+  buildNormeRequestsFromDiff,
+  diffFarmNormesWithProfile,
+  diffRowKey,
+  loadFarmNormesForProfile,
+  type NormeProfileDiffRow,
+} from "@/lib/performanceNormeProfilesShared";
+
+export interface NormeProfileApplyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  farmId: number;
+  farmName?: string;
+  profile: PerformanceNormeProfileRequest;
+  /** Called after the farm normes were written. */
+  onApplied?: () => void;
+}
+
+function formatNorme(value: number | null): string {
+  if (value == null) return "—";
+  return Number.isInteger(value) ? formatGroupedNumber(value, 0) : formatGroupedNumber(value, 3);
+}
+
+/**
+ * Diff preview before writing a souche profile into the farm normes (performanceNorme).
+ * Empty farm values are pre-selected; differing farm values (per-farm overrides) are kept unless checked.
+ */
+export default function NormeProfileApplyDialog({
+  open,
+  onOpenChange,
+  farmId,
+  farmName,
+  profile,
+  onApplied,
+}: NormeProfileApplyDialogProps) {
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [farmNormes, setFarmNormes] = useState<Map<string, PerformanceNormeResponse | null>>(new Map());
+  const [diff, setDiff] = useState<NormeProfileDiffRow[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  /** Semaines whose farm norme failed to load; Apply stays disabled until a reload reads them all. */
+  const [failedSemaines, setFailedSemaines] = useState<string[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    loadFarmNormesForProfile(farmId, profile)
+      .then(({ normes, failedSemaines: failed }) => {
+        if (cancelled) return;
+        const rows = diffFarmNormesWithProfile(profile, normes);
+        setFarmNormes(normes);
+        setFailedSemaines(failed);
+        setDiff(rows);
+        setSelected(new Set(rows.filter((r) => r.kind === "fill").map(diffRowKey)));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, farmId, profile, reloadKey]);
+
+  const changes = diff.filter((r) => r.kind !== "same");
+  const overrides = changes.filter((r) => r.kind === "override");
+  const selectedCount = changes.filter((r) => selected.has(diffRowKey(r))).length;
+
+  const toggle = (row: NormeProfileDiffRow, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(diffRowKey(row));
+      else next.delete(diffRowKey(row));
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (failedSemaines.length > 0) return;
+    const requests = buildNormeRequestsFromDiff(profile.sex, diff, selected, farmNormes);
+    if (requests.length === 0) return;
+    setApplying(true);
+    try {
+      for (const body of requests) {
+        await api.performanceNorme.save(body, farmId);
+      }
+      await invalidateAfterWrite("performanceNorme", { farmId });
+      toast({
+        title: "Profil appliqué",
+        description: `${selectedCount} valeur(s) de norme enregistrée(s) sur ${requests.length} semaine(s).`,
+      });
+      onApplied?.();
+      onOpenChange(false);
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'appliquer le profil.", variant: "destructive" });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            Appliquer le profil {profile.souche} — {profile.sex}
+          </DialogTitle>
+          <DialogDescription>
+            {farmName ? `Normes de la ferme ${farmName}. ` : ""}
+            Les valeurs vides sont complétées ; les valeurs propres à la ferme ne sont remplacées que si elles sont cochées.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!loading && failedSemaines.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800 dark:border-red-800 dark:bg-red-950/40 dark:text-red-200">
+            <span>
+              Normes de la ferme non chargées pour {failedSemaines.join(", ")} : impossible de comparer ces semaines,
+              l&apos;application est désactivée.
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setReloadKey((k) => k + 1)}>
+              Réessayer
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>Comparaison avec les normes de la ferme…</span>
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Les normes de la ferme sont déjà identiques au profil.
+          </p>
+        ) : (
+          <div className="flex-1 overflow-auto rounded-md border border-border">
+            <table className="w-full text-sm border-collapse">
+              <thead className="sticky top-0 bg-muted/60">
+                <tr className="border-b border-border">
+                  <th className="w-10 px-2 py-2" />
+                  <th className="px-3 py-2 text-left font-semibold">Semaine</th>
+                  <th className="px-3 py-2 text-left font-semibold">Indicateur</th>
+                  <th className="px-3 py-2 text-right font-semibold">Norme ferme</th>
+                  <th className="px-3 py-2 text-right font-semibold">Profil</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((row) => {
+                  const key = diffRowKey(row);
+                  return (
+                    <tr
+                      key={key}
+                      className={`border-b border-border ${row.kind === "override" ? "bg-amber-50 dark:bg-amber-950/30" : ""}`}
+                    >
+                      <td className="px-2 py-1.5 text-center">
+                        <Checkbox checked={selected.has(key)} onCheckedChange={(c) => toggle(row, c === true)} />
+                      </td>
+                      <td className="px-3 py-1.5">{row.semaine}</td>
+                      <td className="px-3 py-1.5">{row.metric.label}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">
+                        {row.kind === "override" ? (
+                          <span className="line-through decoration-amber-600/60">{formatNorme(row.current)}</span>
+                        ) : (
+                          formatNorme(row.current)
+                        )}
+                      </td>
+                      <td className="px-3 py-1.5 text-right tabular-nums font-medium">{formatNorme(row.profile)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="text-xs text-muted-foreground">
+            {overrides.length > 0 && `${overrides.length} valeur(s) propre(s) à la ferme (surlignées). `}
+            {selectedCount} modification(s) sélectionnée(s).
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+              Annuler
+            </Button>
+            <Button onClick={handleApply} disabled={applying || loading || failedSemaines.length > 0 || selectedCount === 0} className="gap-2">
+              {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+              Appliquer
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
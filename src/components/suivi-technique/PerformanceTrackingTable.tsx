@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from "react";
-import { Save, Loader2 } from "lucide-react";
+import { useState, useEffect } from "react";
+import { Save, Loader2, BookOpen } from "lucide-react";
 import {
   api,
   type SuiviPerformancesHebdoResponse,
@@ -8,8 +8,18 @@ import {
 } from "@/lib/api";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import {
+  usePerformanceNormeProfilesQuery,
+  useSetupInfoListQuery,
+  useSuiviPerformancesHebdoQuery,
+} from "@/hooks/useApiQueries";
+import { useQuerySeededForm } from "@/hooks/useQuerySeededForm";
 import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { NORME_FIELD } from "@/lib/performanceNormStatus";
+import { findNormeProfile, profileWeek, soucheFromSetup } from "@/lib/performanceNormeProfilesShared";
 import { QuantityInput } from "@/components/ui/QuantityInput";
+import NormeProfileApplyDialog from "@/components/suivi-technique/NormeProfileApplyDialog";
 
 type MetricKey =
   | "poidsMoyen"
@@ -84,9 +94,13 @@ export default function PerformanceTrackingTable({
 }: PerformanceTrackingTableProps) {
   const { isReadOnly, canCreate, canUpdate } = useAuth();
   const { toast } = useToast();
-  const [loading, setLoading] = useState(true);
+  const invalidateAfterWrite = useInvalidateAfterWrite();
   const [saving, setSaving] = useState(false);
-  const [data, setData] = useState<SuiviPerformancesHebdoResponse | null>(null);
+  const performancesQuery = useSuiviPerformancesHebdoQuery({ farmId, lot, semaine, sex, batiment });
+  const loading = performancesQuery.isPending && performancesQuery.fetchStatus !== "idle";
+  const data: SuiviPerformancesHebdoResponse | null = performancesQuery.isError ? null : (performancesQuery.data ?? null);
+  const refetchPerformances = performancesQuery.refetch;
+  const [applyProfileOpen, setApplyProfileOpen] = useState(false);
   
   // Focus state management for QuantityInput components
   const [reelFocusKey, setReelFocusKey] = useState<MetricKey | null>(null);
@@ -107,45 +121,42 @@ export default function PerformanceTrackingTable({
     viabilite: "",
   });
 
-  const load = useCallback(async () => {
-    setLoading(true);
-    try {
-      const res = await api.suiviPerformancesHebdo.get({
-        farmId,
-        lot,
-        semaine,
-        sex,
-        batiment: batiment ?? undefined,
-      });
-      setData(res);
+  const performancesForm = useQuerySeededForm(
+    data,
+    (res) => {
       setReel({
-        poidsMoyen: res.poidsMoyenReel != null ? String(res.poidsMoyenReel) : "",
-        homogeneite: res.homogeneiteReel != null ? String(res.homogeneiteReel) : "",
+        poidsMoyen: res?.poidsMoyenReel != null ? String(res.poidsMoyenReel) : "",
+        homogeneite: res?.homogeneiteReel != null ? String(res.homogeneiteReel) : "",
         indiceConsommation:
-          res.indiceConsommationReel != null ? String(res.indiceConsommationReel) : "",
-        gmq: res.gmqReel != null ? String(res.gmqReel) : "",
-        viabilite: res.viabiliteReel != null ? String(res.viabiliteReel) : "",
+          res?.indiceConsommationReel != null ? String(res.indiceConsommationReel) : "",
+        gmq: res?.gmqReel != null ? String(res.gmqReel) : "",
+        viabilite: res?.viabiliteReel != null ? String(res.viabiliteReel) : "",
       });
       setNorme({
-        poidsMoyen: res.poidsMoyenNorme != null ? String(res.poidsMoyenNorme) : "",
-        homogeneite: res.homogeneiteNorme != null ? String(res.homogeneiteNorme) : "",
+        poidsMoyen: res?.poidsMoyenNorme != null ? String(res.poidsMoyenNorme) : "",
+        homogeneite: res?.homogeneiteNorme != null ? String(res.homogeneiteNorme) : "",
         indiceConsommation:
-          res.indiceConsommationNorme != null ? String(res.indiceConsommationNorme) : "",
-        gmq: res.gmqNorme != null ? String(res.gmqNorme) : "",
-        viabilite: res.viabiliteNorme != null ? String(res.viabiliteNorme) : "",
+          res?.indiceConsommationNorme != null ? String(res.indiceConsommationNorme) : "",
+        gmq: res?.gmqNorme != null ? String(res.gmqNorme) : "",
+        viabilite: res?.viabiliteNorme != null ? String(res.viabiliteNorme) : "",
       });
-    } catch {
-      /* API error — logged in backend only */
-      setData(null);
-    } finally {
-      setLoading(false);
-    }
-  }, [farmId, lot, semaine, sex, batiment, toast, refreshKey]);
+    },
+    [farmId, lot, semaine, sex, batiment]
+  );
 
-  // Refetch when refreshKey changes so computed fields (indice consommation, viabilité) and CONSOMME ALIMENT–derived values update.
+  // Writes made outside the query cache (setup, autre sexe) still bump refreshKey: refetch so computed fields
+  // (indice consommation, viabilité) and CONSOMME ALIMENT–derived values update.
   useEffect(() => {
-    load();
-  }, [load]);
+    if (refreshKey) void refetchPerformances();
+  }, [refreshKey, refetchPerformances]);
+
+  /** Souche profile of the lot (Normes de performance): shown when the farm has no NORME for a metric. */
+  const setupQuery = useSetupInfoListQuery(farmId, lot);
+  const profilesQuery = usePerformanceNormeProfilesQuery();
+  const souche = soucheFromSetup(setupQuery.data ?? [], sex, batiment);
+  const profile = findNormeProfile(profilesQuery.data ?? [], souche, sex);
+  const profileNorme = profileWeek(profile, semaine);
+  const profileNormeValue = (key: MetricKey): number | null => toNum(profileNorme?.[NORME_FIELD[key]]);
 
   const hasExistingRecord = data?.id != null;
   /** REEL: editable only when (no record yet and can create) or (record exists and can update). RESPONSABLE_FERME cannot modify after saving (permission.mdc). */
@@ -154,9 +165,11 @@ export default function PerformanceTrackingTable({
   const canEditNorme = !isReadOnly && canUpdate;
 
   const setReelField = (key: MetricKey, value: string) => {
+    performancesForm.markDirty();
     setReel((prev) => ({ ...prev, [key]: value }));
   };
   const setNormeField = (key: MetricKey, value: string) => {
+    performancesForm.markDirty();
     setNorme((prev) => ({ ...prev, [key]: value }));
   };
 
@@ -204,12 +217,14 @@ export default function PerformanceTrackingTable({
     try {
       if (normeOnly) {
         await api.performanceNorme.save(buildNormeBody(), farmId);
+        await invalidateAfterWrite("performanceNorme", { farmId });
         toast({ title: "Enregistré", description: "Normes enregistrées (appliquées à tous les lots et bâtiments)." });
       } else {
         await api.suiviPerformancesHebdo.save(buildReelBody(), farmId);
+        await invalidateAfterWrite("suiviPerformancesHebdo", { farmId, lot, semaine, sex, batiment });
         toast({ title: "Enregistré", description: "Suivi de performances REEL enregistré." });
       }
-      await load();
+      performancesForm.markClean();
       onSaveSuccess?.();
     } catch {
       /* API error — logged in backend only */
@@ -225,7 +240,9 @@ export default function PerformanceTrackingTable({
     return parseOptional(reel[key]);
   };
 
-  const getNormeValue = (key: MetricKey): number | null => parseOptional(norme[key]);
+  /** Farm NORME, else the souche profile value (per-farm values take precedence). */
+  const getNormeValue = (key: MetricKey): number | null => parseOptional(norme[key]) ?? profileNormeValue(key);
+  const isProfileNorme = (key: MetricKey): boolean => norme[key].trim() === "" && profileNormeValue(key) != null;
 
   const ecart = (key: MetricKey): number | null => {
     const r = getReelValue(key);
@@ -268,6 +285,18 @@ export default function PerformanceTrackingTable({
           </p>
         </div>
         <div className="flex items-center gap-2">
+          {showSaveNorme && profile && (
+            <button
+              type="button"
+              onClick={() => setApplyProfileOpen(true)}
+              disabled={saving}
+              title={`Copier les normes du profil ${profile.souche} dans les normes de la ferme (aperçu avant écriture)`}
+              className="flex items-center gap-1.5 px-3 py-1.5 border border-amber-600 text-amber-700 dark:text-amber-400 rounded-md text-sm font-medium hover:bg-amber-50 dark:hover:bg-amber-950/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <BookOpen className="w-4 h-4" />
+              Appliquer le profil
+            </button>
+          )}
           {showSaveReel && (
             <button
               type="button"
@@ -375,7 +404,11 @@ export default function PerformanceTrackingTable({
                           onChange={(value) => setNormeField(row.key, value)}
                           isFocused={normeFocusKey === row.key}
                           onFocusChange={(focused) => setNormeFocusKey(focused ? row.key : null)}
-                          placeholder={getPlaceholder(rowUnit)}
+                          placeholder={
+                            isProfileNorme(row.key)
+                              ? formatVal(profileNormeValue(row.key))
+                              : getPlaceholder(rowUnit)
+                          }
                           className="flex-1 min-w-0 text-center bg-amber-50/50 dark:bg-amber-950/20"
                           showFormattedDisplay={true}
                         />
@@ -385,9 +418,14 @@ export default function PerformanceTrackingTable({
                       <div className={normeCellReadOnly}>
                         {norme[row.key].trim() !== ""
                           ? formatVal(parseOptional(norme[row.key]), rowUnit)
+                          : isProfileNorme(row.key)
+                          ? <span className="italic">{formatVal(profileNormeValue(row.key), rowUnit)}</span>
                           : rowUnit === "%" ? "0 %" : "—"}
                       </div>
                     )}
+                    {isProfileNorme(row.key) && (
+                      <p className="text-[10px] text-muted-foreground pb-1">profil {profile?.souche}</p>
+                    )}
                   </td>
                   <td className={`align-middle border-l border-border ${ecartCell}`}>
                     {formatVal(displayEcart, rowUnit)}
@@ -398,6 +436,18 @@ export default function PerformanceTrackingTable({
           </tbody>
         </table>
       </div>
+      {profile && (
+        <NormeProfileApplyDialog
+          open={applyProfileOpen}
+          onOpenChange={setApplyProfileOpen}
+          farmId={farmId}
+          profile={profile}
+          onApplied={() => {
+            performancesForm.markClean();
+            onSaveSuccess?.();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -1,8 +1,11 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { Save, Loader2 } from "lucide-react";
 import { api, type SuiviProductionHebdoResponse, type SuiviProductionHebdoRequest } from "@/lib/api";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useSuiviProductionHebdoQuery } from "@/hooks/useApiQueries";
+import { useQuerySeededForm } from "@/hooks/useQuerySeededForm";
 import { formatGroupedNumber } from "@/lib/formatResumeAmount";
 
 type RowKey = "report" | "vente" | "conso" | "autre" | "total";
@@ -70,9 +73,12 @@ function displayReadOnlyPoids(v: string | number): string {
 export default function ProductionTrackingTable({ farmId, lot, semaine, sex, batiment, onSaveSuccess, refreshKey }: ProductionTrackingTableProps) {
   const { isReadOnly, canCreate, canUpdate } = useAuth();
   const { toast } = useToast();
-  const [loading, setLoading] = useState(true);
+  const invalidateAfterWrite = useInvalidateAfterWrite();
   const [saving, setSaving] = useState(false);
-  const [data, setData] = useState<SuiviProductionHebdoResponse | null>(null);
+  const productionQuery = useSuiviProductionHebdoQuery({ farmId, lot, semaine, sex, batiment });
+  const loading = productionQuery.isPending && productionQuery.fetchStatus !== "idle";
+  const data: SuiviProductionHebdoResponse | null = productionQuery.isError ? null : (productionQuery.data ?? null);
+  const refetchProduction = productionQuery.refetch;
 
   const [venteNbre, setVenteNbre] = useState("");
   const [ventePoids, setVentePoids] = useState("");
@@ -81,29 +87,23 @@ export default function ProductionTrackingTable({ farmId, lot, semaine, sex, bat
   const [autreNbre, setAutreNbre] = useState("");
   const [autrePoids, setAutrePoids] = useState("");
 
-  const load = useCallback(async () => {
-    setLoading(true);
-    try {
-      const res = await api.suiviProductionHebdo.get({ farmId, lot, semaine, sex, batiment: batiment ?? undefined });
-      setData(res);
-      setVenteNbre(res.venteNbre != null ? String(res.venteNbre) : "");
-      setVentePoids(res.ventePoids != null ? String(res.ventePoids) : "");
-      setConsoNbre(res.consoNbre != null ? String(res.consoNbre) : "");
-      setConsoPoids(res.consoPoids != null ? String(res.consoPoids) : "");
-      setAutreNbre(res.autreNbre != null ? String(res.autreNbre) : "");
-      setAutrePoids(res.autrePoids != null ? String(res.autrePoids) : "");
-    } catch {
-      /* API error — logged in backend only */
-      setData(null);
-    } finally {
-      setLoading(false);
-    }
-  }, [farmId, lot, semaine, sex, batiment, toast]);
+  const productionForm = useQuerySeededForm(
+    data,
+    (res) => {
+      setVenteNbre(res?.venteNbre != null ? String(res.venteNbre) : "");
+      setVentePoids(res?.ventePoids != null ? String(res.ventePoids) : "");
+      setConsoNbre(res?.consoNbre != null ? String(res.consoNbre) : "");
+      setConsoPoids(res?.consoPoids != null ? String(res.consoPoids) : "");
+      setAutreNbre(res?.autreNbre != null ? String(res.autreNbre) : "");
+      setAutrePoids(res?.autrePoids != null ? String(res.autrePoids) : "");
+    },
+    [farmId, lot, semaine, sex, batiment]
+  );
 
-  // Refetch when refreshKey changes so derived values stay in sync without page refresh.
+  // Writes made outside the query cache (setup, autre sexe) still bump refreshKey: refetch so REPORT stays in sync.
   useEffect(() => {
-    load();
-  }, [load, refreshKey]);
+    if (refreshKey) void refetchProduction();
+  }, [refreshKey, refetchProduction]);
 
   // REPORT = total from previous week (from API). TOTAL = REPORT + VENTE + CONSO + AUTRE (same as backend).
   const reportNbre = typeof data?.reportNbre === "number" ? data.reportNbre : (data?.reportNbre != null ? Number(data.reportNbre) : 0);
@@ -148,9 +148,10 @@ export default function ProductionTrackingTable({ farmId, lot, semaine, sex, bat
         autrePoids: autrePoids.trim() !== "" ? aP : null,
       };
       await api.suiviProductionHebdo.save(body, farmId);
+      await invalidateAfterWrite("suiviProductionHebdo", { farmId, lot, semaine, sex, batiment });
+      productionForm.markClean();
       toast({ title: "Enregistré", description: "Suivi de la livraison enregistré." });
       onSaveSuccess?.();
-      await load();
     } catch {
       /* API error — logged in backend only */
     } finally {
@@ -251,6 +252,7 @@ export default function ProductionTrackingTable({ farmId, lot, semaine, sex, bat
                         type="number"
                         value={nbreVal}
                         onChange={(e) => {
+                          productionForm.markDirty();
                           const next = normalizeNbreInput(e.target.value);
                           if (row.key === "vente") setVenteNbre(next);
                           if (row.key === "conso") setConsoNbre(next);
@@ -270,6 +272,7 @@ export default function ProductionTrackingTable({ farmId, lot, semaine, sex, bat
                         type="number"
                         value={poidsVal}
                         onChange={(e) => {
+                          productionForm.markDirty();
                           const next = normalizePoidsInput(e.target.value);
                           if (row.key === "vente") setVentePoids(next);
                           if (row.key === "conso") setConsoPoids(next);
@@ -8,7 +8,8 @@
  */
 
 import { useState, useMemo } from "react";
-import { api, type SuiviCoutHebdoResponse } from "@/lib/api";
+import type { SuiviCoutHebdoResponse } from "@/lib/api";
+import { useSaveCoutHebdo } from "@/hooks/useApiMutations";
 import { formatResumeAmount, toOptionalNumber } from "@/lib/formatResumeAmount";
 import { buildDisplayRows, getEffectiveCumul, toNum } from "@/lib/resumeCoutsHebdoDisplay";
 import {
@@ -44,7 +45,7 @@ export interface ResumeCoutsHebdoTableProps {
   canUpdate: boolean;
   farmId: number;
   lot: string;
-  /** Callback after save to refresh the list */
+  /** Callback after save (the résumé summaries are already invalidated by useSaveCoutHebdo) */
   onSaveSuccess?: () => void;
 }
 
@@ -80,7 +81,8 @@ export default function ResumeCoutsHebdoTable({
   onSaveSuccess,
 }: ResumeCoutsHebdoTableProps) {
   const [editingId, setEditingId] = useState<number | null>(null);
-  const [saving, setSaving] = useState(false);
+  const saveCout = useSaveCoutHebdo();
+  const saving = saveCout.isPending;
   const [editValeurS1, setEditValeurS1] = useState<string>("");
   const [editCumul, setEditCumul] = useState<string>("");
 
@@ -137,23 +139,18 @@ export default function ResumeCoutsHebdoTable({
 
   const saveEdit = async (row: SuiviCoutHebdoResponse) => {
     if (!canEditRow(row)) return;
-    setSaving(true);
-    try {
-      const valeurS1 = editValeurS1.trim() === "" ? null : toOptionalNumber(editValeurS1);
-      const cumul = editCumul.trim() === "" ? null : toOptionalNumber(editCumul);
-      await api.suiviCoutHebdo.save(
-        {
-          designation: row.designation,
-          valeurS1,
-          cumul,
-        },
-        { farmId, lot, semaine }
-      );
-      cancelEdit();
-      onSaveSuccess?.();
-    } finally {
-      setSaving(false);
-    }
+    const valeurS1 = editValeurS1.trim() === "" ? null : toOptionalNumber(editValeurS1);
+    const cumul = editCumul.trim() === "" ? null : toOptionalNumber(editCumul);
+    await saveCout.mutateAsync({
+      body: {
+        designation: row.designation,
+        valeurS1,
+        cumul,
+      },
+      params: { farmId, lot, semaine },
+    });
+    cancelEdit();
+    onSaveSuccess?.();
   };
 
   return (
@@ -1,7 +1,9 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { Loader2, Save } from "lucide-react";
-import { api, type SuiviStockResponse } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useSuiviStockQuery } from "@/hooks/useApiQueries";
+import { useSaveStockAliment } from "@/hooks/useApiMutations";
+import { useQuerySeededForm } from "@/hooks/useQuerySeededForm";
 import { useAuth } from "@/contexts/AuthContext";
 import { formatGroupedNumber } from "@/lib/formatResumeAmount";
 
@@ -12,7 +14,7 @@ interface StockTrackingTableProps {
   sex: string;
   /** Batiment for batiment-specific stock (Lot → Semaine → Batiment workflow). When set, STOCK ALIMENT is user-entered (editable). */
   batiment?: string;
-  /** When this changes, stock is refetched (e.g. after saving hebdo/production/consumption). */
+  /** When this changes, stock is refetched (e.g. after saving hebdo/production/consumption not yet going through useApiMutations). */
   refreshKey?: number;
   /** Called after stock aliment is saved (e.g. to refresh consumption table). */
   onSaveSuccess?: () => void;
@@ -43,35 +45,23 @@ export default function StockTrackingTable({
 }: StockTrackingTableProps) {
   const { toast } = useToast();
   const { isReadOnly, canCreate, canUpdate } = useAuth();
-  const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
-  const [data, setData] = useState<SuiviStockResponse | null>(null);
   const [stockAlimentInput, setStockAlimentInput] = useState("");
+  const stockQuery = useSuiviStockQuery({ farmId, lot, semaine, sex, batiment });
+  const saveStock = useSaveStockAliment();
+  const loading = stockQuery.isPending && stockQuery.fetchStatus !== "idle";
+  const saving = saveStock.isPending;
+  const data = stockQuery.isError ? null : (stockQuery.data ?? null);
+  const refetchStock = stockQuery.refetch;
 
-  const load = useCallback(async () => {
-    setLoading(true);
-    try {
-      const res = await api.suiviStock.get({
-        farmId,
-        lot,
-        semaine,
-        sex,
-        batiment: batiment ?? undefined,
-      });
-      setData(res);
-      setStockAlimentInput(
-        res.stockAliment != null ? String(res.stockAliment) : ""
-      );
-    } catch {
-      setData(null);
-    } finally {
-      setLoading(false);
-    }
-  }, [farmId, lot, semaine, sex, batiment, toast]);
+  const stockForm = useQuerySeededForm(
+    data,
+    (res) => setStockAlimentInput(res?.stockAliment != null ? String(res.stockAliment) : ""),
+    [farmId, lot, semaine, sex, batiment]
+  );
 
   useEffect(() => {
-    load();
-  }, [load, refreshKey]);
+    if (refreshKey > 0) void refetchStock();
+  }, [refreshKey, refetchStock]);
 
   // RESPONSABLE_FERME: can create (first save) but cannot update (modify after saving). Use backend flag to show edit only when no record exists (canCreate) or user has canUpdate.
   const stockRecordExists = Boolean(data?.stockAlimentRecordExists);
@@ -82,26 +72,24 @@ export default function StockTrackingTable({
 
   const handleSaveStockAliment = async () => {
     if (!canEditStock) return;
-    setSaving(true);
     try {
       const kg = stockAlimentInput.trim() === "" ? null : parseFloat(stockAlimentInput);
-      await api.suiviStock.saveStockAliment(
-        { farmId, lot, semaine, sex, batiment: batiment ?? undefined },
-        {
+      // Invalidates this stock and the consommation / prix de revient résumés of the week and the following ones
+      await saveStock.mutateAsync({
+        params: { farmId, lot, semaine, sex, batiment: batiment ?? undefined },
+        body: {
           lot,
           semaine,
           sex,
           batiment: batiment ?? undefined,
           stockAlimentKg: kg != null && !Number.isNaN(kg) ? kg : null,
-        }
-      );
+        },
+      });
+      stockForm.markClean();
       toast({ title: "Enregistré", description: "Stock aliment enregistré. Consommation calculée automatiquement." });
       onSaveSuccess?.();
-      await load();
     } catch {
       /* API error — logged in backend only */
-    } finally {
-      setSaving(false);
     }
   };
 
@@ -181,7 +169,10 @@ export default function StockTrackingTable({
                   <input
                     type="number"
                     value={stockAlimentInput}
-                    onChange={(e) => setStockAlimentInput(normalizeDecimalInput(e.target.value))}
+                    onChange={(e) => {
+                      stockForm.markDirty();
+                      setStockAlimentInput(normalizeDecimalInput(e.target.value));
+                    }}
                     min={0}
                     step="0.01"
                     className={inputBase}
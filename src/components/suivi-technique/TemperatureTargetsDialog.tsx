@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_TEMPERATURE_TARGETS, type TemperatureTargetPoint } from "@/lib/batimentControlCharts";
+
+export interface TemperatureTargetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targets: TemperatureTargetPoint[];
+  /** Called with the validated curve (sorted by age); the page saves it for the farm. */
+  onSave: (targets: TemperatureTargetPoint[]) => void;
+}
+
+interface DraftPoint {
+  ageJour: string;
+  min: string;
+  max: string;
+}
+
+function toDraft(points: TemperatureTargetPoint[]): DraftPoint[] {
+  return points.map((p) => ({ ageJour: String(p.ageJour), min: String(p.min), max: String(p.max) }));
+}
+
+function parseNumber(value: string): number | null {
+  const n = parseFloat(value.replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+const INPUT_CLASS =
+  "w-full rounded-md border border-input bg-background px-2 py-1 text-sm text-right tabular-nums text-foreground";
+
+/**
+ * Edit the temperature target curve by age of the farm: band of the graphiques bâtiment and of the bâtiment PDF.
+ */
+export function TemperatureTargetsDialog({ open, onOpenChange, targets, onSave }: TemperatureTargetsDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DraftPoint[]>(() => toDraft(targets));
+
+  useEffect(() => {
+    if (open) setDraft(toDraft(targets));
+  }, [open, targets]);
+
+  const update = (index: number, field: keyof DraftPoint, value: string) =>
+    setDraft((prev) => prev.map((p, i) => (i === index ? { ...p, [field]: value } : p)));
+
+  const handleSave = () => {
+    const points: TemperatureTargetPoint[] = [];
+    for (const p of draft) {
+      const ageJour = parseNumber(p.ageJour);
+      const min = parseNumber(p.min);
+      const max = parseNumber(p.max);
+      if (ageJour == null || min == null || max == null || ageJour < 0 || max < min) {
+        toast({
+          title: "Courbe invalide",
+          description: "Chaque point doit avoir un âge, une température min et une température max (max ≥ min).",
+          variant: "destructive",
+        });
+        return;
+      }
+      points.push({ ageJour, min, max });
+    }
+    if (points.length === 0) {
+      toast({ title: "Courbe invalide", description: "Ajoutez au moins un point.", variant: "destructive" });
+      return;
+    }
+    if (new Set(points.map((p) => p.ageJour)).size !== points.length) {
+      toast({ title: "Courbe invalide", description: "Deux points ont le même âge.", variant: "destructive" });
+      return;
+    }
+    onSave([...points].sort((a, b) => a.ageJour - b.ageJour));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Courbe de température cible</DialogTitle>
+          <DialogDescription>
+            Plage de confort par âge (°C), interpolée entre les points. Enregistrée pour la ferme ; utilisée par les
+            graphiques et par l'export PDF du suivi technique bâtiment.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[50vh] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground">
+                <th className="px-1 py-1 text-left font-medium">Âge (jours)</th>
+                <th className="px-1 py-1 text-left font-medium">Min (°C)</th>
+                <th className="px-1 py-1 text-left font-medium">Max (°C)</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((p, i) => (
+                <tr key={i}>
+                  <td className="px-1 py-1">
+                    <input
+                      inputMode="numeric"
+                      value={p.ageJour}
+                      onChange={(e) => update(i, "ageJour", e.target.value)}
+                      className={INPUT_CLASS}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <input
+                      inputMode="decimal"
+                      value={p.min}
+                      onChange={(e) => update(i, "min", e.target.value)}
+                      className={INPUT_CLASS}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <input
+                      inputMode="decimal"
+                      value={p.max}
+                      onChange={(e) => update(i, "max", e.target.value)}
+                      className={INPUT_CLASS}
+                    />
+                  </td>
+                  <td className="px-1 py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setDraft((prev) => prev.filter((_, j) => j !== i))}
+                      className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-destructive"
+                      title="Supprimer le point"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-fit gap-1"
+          onClick={() => setDraft((prev) => [...prev, { ageJour: "", min: "", max: "" }])}
+        >
+          <Plus className="h-4 w-4" />
+          Ajouter un point
+        </Button>
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={() => setDraft(toDraft(DEFAULT_TEMPERATURE_TARGETS))}>
+            Valeurs par défaut
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Annuler
+            </Button>
+            <Button onClick={handleSave}>Enregistrer</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
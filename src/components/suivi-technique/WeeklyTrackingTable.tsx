@@ -1,7 +1,14 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
-import { Plus, Save, Trash2, Loader2, Check } from "lucide-react";
-import { api, type SuiviTechniqueHebdoResponse, type SuiviTechniqueHebdoRequest, type DailyReportResponse } from "@/lib/api";
+import { Plus, Save, Trash2, Loader2, Check, History } from "lucide-react";
 import {
+  api,
+  ApiConflictError,
+  type SuiviTechniqueHebdoResponse,
+  type SuiviTechniqueHebdoRequest,
+  type DailyReportResponse,
+} from "@/lib/api";
+import {
+  buildHebdoRequestFromMergedRow,
   mergeHebdoRowsWithDailyReports,
   resolveAnchorRecordDateForEffectif,
   dailyReportMatchesSuiviContext,
@@ -17,9 +24,22 @@ import {
   SUIVI_HEBDO_SUBHEADER_TH_CLASS,
   suiviHebdoTransportRowLabelColSpan,
   getTransportMortaliteLabel,
+  SUIVI_HEBDO_CONFLICT_FIELDS,
 } from "@/lib/suiviTechniqueHebdomadaireShared";
+import { withConflictFieldsFrom } from "@/lib/conflictMerge";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useConflictResolver } from "@/hooks/useConflictResolver";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { useDraftStash } from "@/hooks/useDraftStash";
+import { useInvalidateAfterWrite, useSaveSuiviTechniqueHebdo } from "@/hooks/useApiMutations";
+import { useVaccinationAdministrationsQuery } from "@/hooks/useApiQueries";
+import {
+  administrationsByDate,
+  administrationSummary,
+  administrationTime,
+  vaccinationCellText,
+} from "@/lib/vaccinationAdministrationsShared";
 
 interface WeeklyRow {
   id: string;
@@ -39,6 +59,8 @@ interface WeeklyRow {
   observation: string;
   /** From API: true when age/mortalite/conso all null — placeholder rows stay editable */
   isPlaceholder?: boolean;
+  /** Server version of the saved line (sent on save for optimistic locking). */
+  version?: number | null;
 }
 
 function emptyRow(date: string): WeeklyRow {
@@ -101,34 +123,6 @@ async function saveHebdoRequestsSequentially(rows: SuiviTechniqueHebdoRequest[],
   }
 }
 
-function buildHebdoRequestFromRow(
-  r: WeeklyRow,
-  p: {
-    lot: string;
-    sex: string;
-    batiment: string;
-    semaine: string;
-    effectifDepart: number | null;
-  }
-): SuiviTechniqueHebdoRequest {
-  return {
-    lot: p.lot,
-    sex: p.sex,
-    batiment: p.batiment,
-    semaine: p.semaine,
-    effectifDepart: p.effectifDepart,
-    recordDate: r.recordDate,
-    ageJour: r.ageJour.trim() !== "" ? parseInt(r.ageJour, 10) : null,
-    mortaliteNbre: r.mortaliteNbre.trim() !== "" ? parseInt(r.mortaliteNbre, 10) : null,
-    consoEauL: r.consoEauL.trim() !== "" ? parseFloat(r.consoEauL.replace(",", ".")) : null,
-    tempMin: r.tempMin.trim() !== "" ? parseFloat(r.tempMin.replace(",", ".")) : null,
-    tempMax: r.tempMax.trim() !== "" ? parseFloat(r.tempMax.replace(",", ".")) : null,
-    vaccination: r.vaccination.trim() || null,
-    traitement: r.traitement.trim() || null,
-    observation: r.observation.trim() || null,
-  };
-}
-
 function floatCloseEnough(a: number | null | undefined, b: number | null | undefined): boolean {
   if (a == null && b == null) return true;
   if (a == null || b == null) return false;
@@ -241,11 +235,27 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
   const today = new Date().toISOString().split("T")[0];
   const { isReadOnly, canCreate, canUpdate, canDelete } = useAuth();
   const { toast } = useToast();
+  const conflicts = useConflictResolver<SuiviTechniqueHebdoRequest>();
+  const rowHistory = useRowHistory();
   const effectiveReadOnly = isReadOnly || forceReadOnly;
 
   /** Align with backend week keys (S02 → S2) for list/save/transport-cumul. */
   const semaineCanon = useMemo(() => canonicalSemaine(semaine), [semaine]);
 
+  const saveHebdo = useSaveSuiviTechniqueHebdo();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  /** After batch saves: stock, production, performances and résumés of this week onward are stale. */
+  const invalidateWeekSummaries = useCallback(() => {
+    void invalidateAfterWrite("suiviTechniqueHebdo", { farmId, lot, semaine: semaineCanon, sex, batiment });
+  }, [invalidateAfterWrite, farmId, lot, semaineCanon, sex, batiment]);
+
+  /** Vaccinations recorded on alert confirmation, shown under the vaccination cell of their date. */
+  const administrationsQuery = useVaccinationAdministrationsQuery(farmId, lot);
+  const administrationsOnDate = useMemo(
+    () => administrationsByDate(administrationsQuery.data ?? []),
+    [administrationsQuery.data]
+  );
+
   // Determine if this is the first week (S1) or subsequent weeks (S2+)
   const isFirstWeek = previousSemaine(semaineCanon) === null;
 
@@ -259,10 +269,23 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
   const [savingRowId, setSavingRowId] = useState<string | null>(null);
   const [savingEffectif, setSavingEffectif] = useState(false);
   const loadGenRef = useRef(0);
+  /** Something was typed since the last load (journalier data merged into the week is not a saisie). */
+  const typedSinceLoadRef = useRef(false);
+  useDraftStash({
+    scope: `suiviTechniqueHebdo:${sex}`,
+    draft: rows,
+    isDirty: () => typedSinceLoadRef.current,
+    ready: !loading,
+    restore: (draftRows) => {
+      typedSinceLoadRef.current = true;
+      setRows(draftRows);
+    },
+  });
 
   const load = useCallback(async () => {
     const gen = ++loadGenRef.current;
     setLoading(true);
+    typedSinceLoadRef.current = false;
     const prevSem = previousSemaine(semaineCanon);
     try {
       const [list, dailyList, stockPrev] = await Promise.all([
@@ -332,7 +355,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
             const rowsToSave = mapped
               .filter((row) => row.recordDate?.trim())
               .map((row) =>
-                buildHebdoRequestFromRow(row, {
+                buildHebdoRequestFromMergedRow(row, {
                   lot,
                   sex,
                   batiment,
@@ -343,6 +366,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
 
             if (rowsToSave.length > 0) {
               await saveHebdoRequestsSequentially(rowsToSave, farmId);
+              invalidateWeekSummaries();
               
               // Console logs for debugging (can be removed in production)
               if (correctedEffectifDepart !== null) {
@@ -438,7 +462,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
               ? mapped
                   .filter((r) => r.recordDate?.trim())
                   .map((r) =>
-                    buildHebdoRequestFromRow(r, {
+                    buildHebdoRequestFromMergedRow(r, {
                       lot,
                       sex,
                       batiment,
@@ -470,6 +494,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
                   },
                 ];
           await saveHebdoRequestsSequentially(effectifPayloads, farmId);
+          invalidateWeekSummaries();
           if (gen === loadGenRef.current) {
             setHasSavedEffectif(true);
             toast({
@@ -507,6 +532,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
     canUpdate,
     isFirstWeek,
     onSaveSuccess,
+    invalidateWeekSummaries,
     effectifInitial,
   ]);
 
@@ -623,6 +649,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
     // - RESPONSABLE_FERME (create-only) may edit only non-saved rows OR backend placeholders
     // - Saved non-placeholder rows require update permission
     if (effectiveReadOnly || (!canCreate && !canUpdate)) return;
+    typedSinceLoadRef.current = true;
     setRows((prev) =>
       prev.map((r) => {
         if (r.id !== id) return r;
@@ -635,7 +662,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
   };
 
   const rowToRequest = (r: WeeklyRow): SuiviTechniqueHebdoRequest =>
-    buildHebdoRequestFromRow(r, {
+    buildHebdoRequestFromMergedRow(r, {
       lot,
       sex,
       batiment,
@@ -675,17 +702,53 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
 
     setSavingRowId(row.id);
     try {
-      await api.suiviTechniqueHebdo.save(payload, farmId);
+      await saveHebdo.mutateAsync({ farmId, body: payload });
       toast({ title: "Ligne enregistrée", description: "Données du jour sauvegardées." });
       onSaveSuccess?.();
       await load();
-    } catch {
-      /* API error — logged in backend only */
+    } catch (e) {
+      if (e instanceof ApiConflictError) await resolveSaveConflict(payload, e);
+      /* other API errors — logged in backend only */
     } finally {
       setSavingRowId(null);
     }
   };
 
+  /** 409 on save: merge the user's line with the server's current one, then save again on the server version. */
+  const resolveSaveConflict = async (payload: SuiviTechniqueHebdoRequest, e: ApiConflictError) => {
+    let theirs = e.current as SuiviTechniqueHebdoResponse | null;
+    if (!theirs) {
+      const list = await api.suiviTechniqueHebdo
+        .list({ farmId, lot, sex, batiment, semaine: semaineCanon })
+        .catch((): SuiviTechniqueHebdoResponse[] => []);
+      theirs = list.find((r) => r.recordDate === payload.recordDate) ?? null;
+    }
+    if (!theirs) {
+      toast({ title: "Conflit", description: e.message, variant: "destructive" });
+      await load();
+      return;
+    }
+    const merged = await conflicts.resolve({
+      title: `Conflit — ligne du ${formatIsoDateDisplay(payload.recordDate)}`,
+      fields: SUIVI_HEBDO_CONFLICT_FIELDS,
+      mine: payload,
+      theirs: withConflictFieldsFrom(SUIVI_HEBDO_CONFLICT_FIELDS, payload, theirs),
+    });
+    if (!merged) {
+      toast({ title: "Version serveur conservée", description: "Vos modifications sur cette ligne ont été abandonnées." });
+      await load();
+      return;
+    }
+    try {
+      await saveHebdo.mutateAsync({ farmId, body: { ...merged, version: theirs.version ?? null } });
+      toast({ title: "Ligne enregistrée", description: "Fusion enregistrée." });
+      onSaveSuccess?.();
+    } catch {
+      /* API error — logged in backend only */
+    }
+    await load();
+  };
+
   /** Rows eligible for effectif save: have recordDate and (user can update any row, or row is not yet saved). RESPONSABLE_FERME can only create — cannot include saved rows. */
   const effectifEligibleRowCount = useMemo(
     () =>
@@ -756,6 +819,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
     setSavingEffectif(true);
     try {
       await saveHebdoRequestsSequentially(toSend, farmId);
+      invalidateWeekSummaries();
       setHasSavedEffectif(true);
       toast({ title: "Effectif enregistré", description: "Effectif départ de la semaine enregistré." });
       onSaveSuccess?.();
@@ -935,7 +999,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
         consoEauL: row.consoEauL,
         tempMin: row.tempMin,
         tempMax: row.tempMax,
-        vaccination: row.vaccination,
+        vaccination: vaccinationCellText(row.vaccination, administrationsOnDate.get(row.recordDate) ?? []),
         traitement: row.traitement,
         observation: row.observation,
       };
@@ -953,6 +1017,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
   }, [
     rows, 
     mortalityComputedByRowId, 
+    administrationsOnDate,
     effectifDepart, 
     mortaliteTransportDisplay, 
     weeklyTotals, 
@@ -1066,6 +1131,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
               <col style={{ width: "1%", minWidth: 140 }} />
               {showSaveCol ? <col className="w-10" /> : null}
               {showDeleteCol ? <col className="w-10" /> : null}
+              <col className="w-10" />
             </colgroup>
             <thead>
               <tr className="bg-muted/80 border-b-2 border-border">
@@ -1080,6 +1146,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
                   </th>
                 ) : null}
                 {showDeleteCol ? <th className="w-10 border-l border-border"></th> : null}
+                <th className="w-10 border-l border-border" title="Historique"></th>
               </tr>
               <tr className="bg-muted/60 border-b border-border">
                 {SUIVI_HEBDO_EXPORT_HEADERS.map((h) => (
@@ -1093,6 +1160,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
                 ))}
                 {showSaveCol ? <th className="border-l border-border"></th> : null}
                 {showDeleteCol ? <th className="border-l border-border"></th> : null}
+                <th className="border-l border-border"></th>
               </tr>
             </thead>
             <tbody>
@@ -1119,6 +1187,7 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
                 <td className="border-r border-border px-1 py-2 align-middle" />
                 {showSaveCol ? <td className="border-l border-border px-1 py-2" /> : null}
                 {showDeleteCol ? <td className="border-l border-border px-1 py-2" /> : null}
+                <td className="border-l border-border px-1 py-2" />
               </tr>
               {rows.map((row, index) => {
                 const saved = isSavedRow(row.id);
@@ -1229,6 +1298,18 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
                         className={`${inputBase} min-w-[90px]`}
                         readOnly={readOnly}
                       />
+                      {(administrationsOnDate.get(row.recordDate) ?? []).map((rec) => (
+                        <div
+                          key={rec.id}
+                          className="mt-0.5 truncate text-[10px] leading-tight text-emerald-700 dark:text-emerald-400"
+                          title={[
+                            administrationSummary(rec),
+                            `par ${rec.operateur}${administrationTime(rec) ? ` à ${administrationTime(rec)}` : ""}`,
+                          ].join(" — ")}
+                        >
+                          ✓ {rec.produit}
+                        </div>
+                      ))}
                     </td>
                     <td className="border-r border-border align-middle px-1">
                       <input
@@ -1283,6 +1364,26 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
                         ) : null}
                       </td>
                     ) : null}
+                    <td className="border-l border-border text-center align-middle">
+                      {saved ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            rowHistory.open({
+                              entityType: "SUIVI_TECHNIQUE_HEBDO",
+                              entityId: parseInt(row.id, 10),
+                              title: [semaineCanon, sex, batiment, row.recordDate].filter(Boolean).join(" — "),
+                              meta: { version: row.version },
+                            })
+                          }
+                          className="inline-flex p-1.5 text-muted-foreground hover:text-primary hover:bg-muted rounded transition-colors"
+                          aria-label="Historique de la ligne"
+                          title="Historique"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                      ) : null}
+                    </td>
                   </tr>
                 );
               })}
@@ -1320,11 +1421,14 @@ export default function WeeklyTrackingTable({ farmId, lot, semaine, sex, batimen
                 <td className="px-1.5 py-2 text-center border-r border-border"></td>
                 {showSaveCol ? <td className="px-1.5 py-2 text-center border-l border-border"></td> : null}
                 {showDeleteCol ? <td className="px-1.5 py-2 text-center border-l border-border"></td> : null}
+                <td className="px-1.5 py-2 text-center border-l border-border"></td>
               </tr>
             </tfoot>
           </table>
         </div>
       </div>
+      {conflicts.dialog}
+      {rowHistory.sheet}
     </div>
   );
 }
@@ -0,0 +1,312 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useRolesQuery } from "@/hooks/useApiQueries";
+import { api, type RolePermission, type RoleResponse } from "@/lib/api";
+import {
+  PERMISSION_ACTION_LABELS,
+  PERMISSION_ACTIONS,
+  PERMISSION_RESOURCE_LABELS,
+  PERMISSION_RESOURCES,
+  PERMISSION_SCOPE_LABELS,
+  roleLabel,
+  rolePermissions,
+  type PermissionAction,
+  type PermissionFarmScope,
+  type PermissionResource,
+} from "@/lib/permissions";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+
+/** Cell value: no grant, or the farm scope of the grant. */
+type CellValue = "" | PermissionFarmScope;
+
+/** roleId → "resource:action" → scope */
+type Draft = Record<number, Record<string, CellValue>>;
+
+function cellKey(resource: PermissionResource, action: PermissionAction): string {
+  return `${resource}:${action}`;
+}
+
+function cellsOf(role: RoleResponse): Record<string, CellValue> {
+  const cells: Record<string, CellValue> = {};
+  for (const p of rolePermissions(role)) {
+    cells[`${p.resource}:${p.action}`] = p.farmScope === "ASSIGNED" ? "ASSIGNED" : "ALL";
+  }
+  return cells;
+}
+
+function permissionsOf(cells: Record<string, CellValue>): RolePermission[] {
+  return Object.entries(cells)
+    .filter(([, scope]) => scope !== "")
+    .map(([key, scope]) => {
+      const [resource, action] = key.split(":");
+      return { resource, action, farmScope: scope as PermissionFarmScope };
+    });
+}
+
+function sameCells(a: Record<string, CellValue>, b: Record<string, CellValue>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((k) => (a[k] ?? "") === (b[k] ?? ""));
+}
+
+interface RolePermissionMatrixEditorProps {
+  /** roles:update — cells are read-only otherwise. */
+  canEdit: boolean;
+}
+
+/**
+ * Role × resource × action matrix of /api/roles (Utilisateurs → Rôles et permissions).
+ * Each cell grants the action on all farms or on the user's assigned farms only; a new role (e.g. vétérinaire)
+ * can be created here and given its grants without a code change.
+ */
+export default function RolePermissionMatrixEditor({ canEdit }: RolePermissionMatrixEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: roles = [], isLoading, error } = useRolesQuery();
+  const [draft, setDraft] = useState<Draft>({});
+  const [saving, setSaving] = useState(false);
+  const [newRoleName, setNewRoleName] = useState("");
+  const [newRoleDescription, setNewRoleDescription] = useState("");
+  const [copyFromRoleId, setCopyFromRoleId] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const saved = useMemo(() => new Map(roles.map((r) => [r.id, cellsOf(r)])), [roles]);
+  const cellsFor = (roleId: number) => draft[roleId] ?? saved.get(roleId) ?? {};
+  const changedRoles = roles.filter((r) => draft[r.id] && !sameCells(draft[r.id], saved.get(r.id) ?? {}));
+
+  const setCell = (roleId: number, key: string, value: CellValue) => {
+    setDraft((d) => ({ ...d, [roleId]: { ...(d[roleId] ?? saved.get(roleId) ?? {}), [key]: value } }));
+  };
+
+  const handleSave = async () => {
+    // Never leave the matrix without a role able to edit it
+    const editorsLeft = roles.some((r) => (cellsFor(r.id)[cellKey("roles", "update")] ?? "") !== "");
+    if (!editorsLeft) {
+      toast({
+        title: "Enregistrement impossible",
+        description: "Au moins un rôle doit garder « Modifier » sur Rôles et permissions.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSaving(true);
+    let failed = 0;
+    for (const role of changedRoles) {
+      try {
+        await api.roles.updatePermissions(role.id, permissionsOf(draft[role.id]));
+      } catch {
+        failed += 1;
+      }
+    }
+    setSaving(false);
+    await queryClient.invalidateQueries({ queryKey: queryKeys.roles.all });
+    if (failed > 0) {
+      toast({
+        title: "Erreur",
+        description: `${failed} rôle(s) n'ont pas pu être enregistrés.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setDraft({});
+    toast({
+      title: "Permissions enregistrées",
+      description: `${changedRoles.length} rôle(s) mis à jour. Les utilisateurs concernés voient les changements à leur prochain chargement.`,
+    });
+  };
+
+  const handleCreateRole = async () => {
+    const name = newRoleName.trim().toUpperCase().replace(/\s+/g, "_");
+    if (!/^[A-Z][A-Z0-9_]*$/.test(name)) {
+      toast({
+        title: "Nom de rôle invalide",
+        description: "Lettres majuscules, chiffres et _ uniquement (ex. VETERINAIRE).",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (roles.some((r) => r.name === name)) {
+      toast({ title: "Ce rôle existe déjà", variant: "destructive" });
+      return;
+    }
+    setCreating(true);
+    try {
+      const created = await api.roles.create({ name, description: newRoleDescription.trim() || undefined });
+      const source = roles.find((r) => String(r.id) === copyFromRoleId);
+      if (source) await api.roles.updatePermissions(created.id, rolePermissions(source));
+      await queryClient.invalidateQueries({ queryKey: queryKeys.roles.all });
+      setNewRoleName("");
+      setNewRoleDescription("");
+      setCopyFromRoleId("");
+      toast({
+        title: "Rôle créé",
+        description: source ? `${name} reprend les droits de ${roleLabel(source)}.` : `${name} n'a encore aucun droit.`,
+      });
+    } catch (e) {
+      toast({
+        title: "Erreur",
+        description: e instanceof Error ? e.message : "Impossible de créer le rôle.",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="p-8 text-center text-muted-foreground">Chargement...</div>;
+  }
+  if (error) {
+    return (
+      <div className="p-4 text-destructive text-sm">{error instanceof Error ? error.message : "Erreur de chargement"}</div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-card rounded-lg border border-border shadow-sm">
+        <div className="px-5 py-4 border-b border-border flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-display font-bold text-foreground">Matrice des permissions</h2>
+            <p className="text-xs text-muted-foreground mt-1">
+              Pour chaque rôle : action autorisée sur toutes les fermes, sur les fermes assignées à l'utilisateur, ou
+              pas du tout (—).
+            </p>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({})}
+                disabled={saving || changedRoles.length === 0}
+              >
+                <RotateCcw className="w-4 h-4 mr-1" /> Annuler
+              </Button>
+              <Button type="button" size="sm" onClick={handleSave} disabled={saving || changedRoles.length === 0}>
+                {saving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+                Enregistrer{changedRoles.length > 0 ? ` (${changedRoles.length})` : ""}
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="table-farm">
+            <thead>
+              <tr>
+                <th>RESSOURCE</th>
+                <th>ACTION</th>
+                {roles.map((r) => (
+                  <th key={r.id} className="!text-center" title={r.name}>
+                    {roleLabel(r)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PERMISSION_RESOURCES.map((resource) =>
+                PERMISSION_ACTIONS.map((action, i) => {
+                  const key = cellKey(resource, action);
+                  return (
+                    <tr key={key} className={cn(i === 0 && "border-t-2 border-border")}>
+                      {i === 0 && (
+                        <td rowSpan={PERMISSION_ACTIONS.length} className="align-top">
+                          <div className="font-medium">{PERMISSION_RESOURCE_LABELS[resource].label}</div>
+                          {PERMISSION_RESOURCE_LABELS[resource].hint && (
+                            <div className="text-xs text-muted-foreground max-w-[220px]">
+                              {PERMISSION_RESOURCE_LABELS[resource].hint}
+                            </div>
+                          )}
+                        </td>
+                      )}
+                      <td className="text-sm">{PERMISSION_ACTION_LABELS[action]}</td>
+                      {roles.map((r) => {
+                        const value = cellsFor(r.id)[key] ?? "";
+                        const changed = value !== (saved.get(r.id)?.[key] ?? "");
+                        return (
+                          <td key={r.id} className="text-center">
+                            <select
+                              value={value}
+                              onChange={(e) => setCell(r.id, key, e.target.value as CellValue)}
+                              disabled={!canEdit || saving}
+                              aria-label={`${roleLabel(r)} — ${PERMISSION_RESOURCE_LABELS[resource].label} — ${PERMISSION_ACTION_LABELS[action]}`}
+                              className={cn(
+                                "rounded-md border border-input bg-background px-1.5 py-1 text-xs",
+                                value === "ALL" && "text-emerald-700 dark:text-emerald-400",
+                                value === "ASSIGNED" && "text-sky-700 dark:text-sky-400",
+                                value === "" && "text-muted-foreground",
+                                changed && "ring-2 ring-amber-400"
+                              )}
+                            >
+                              <option value="">—</option>
+                              <option value="ALL">{PERMISSION_SCOPE_LABELS.ALL}</option>
+                              <option value="ASSIGNED">{PERMISSION_SCOPE_LABELS.ASSIGNED}</option>
+                            </select>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="bg-card rounded-lg border border-border shadow-sm p-5">
+          <h3 className="text-base font-display font-semibold text-foreground mb-3">Nouveau rôle</h3>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label htmlFor="new-role-name">Code</Label>
+              <Input
+                id="new-role-name"
+                value={newRoleName}
+                onChange={(e) => setNewRoleName(e.target.value)}
+                placeholder="VETERINAIRE"
+                className="w-48"
+              />
+            </div>
+            <div>
+              <Label htmlFor="new-role-description">Libellé</Label>
+              <Input
+                id="new-role-description"
+                value={newRoleDescription}
+                onChange={(e) => setNewRoleDescription(e.target.value)}
+                placeholder="Vétérinaire"
+                className="w-56"
+              />
+            </div>
+            <div>
+              <Label htmlFor="new-role-copy">Reprendre les droits de</Label>
+              <select
+                id="new-role-copy"
+                value={copyFromRoleId}
+                onChange={(e) => setCopyFromRoleId(e.target.value)}
+                className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">Aucun droit</option>
+                {roles.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {roleLabel(r)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="button" onClick={handleCreateRole} disabled={creating || !newRoleName.trim()}>
+              {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Créer le rôle
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { api, type VaccinationPlanningRequest, type VaccinationProtocolResponse } from "@/lib/api";
+import { dispatchVaccinationAlertsRefresh } from "@/lib/vaccinationAlertsEvents";
+import {
+  diffPlanningWithProtocol,
+  loadLotPlanningContext,
+  PLANNING_LINE_FIELDS,
+  protocolPlanningRequests,
+  type ProtocolDiffKind,
+  type ProtocolDiffRow,
+} from "@/lib/vaccinationProtocolsShared";
+
+export interface ProtocolApplyTarget {
+  farmId: number;
+  farmName?: string | null;
+  lot: string;
+  /** Planning edited by hand since the protocol was applied: not preselected. */
+  customized?: boolean;
+}
+
+export interface ProtocolApplyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  protocol: VaccinationProtocolResponse;
+  targets: ProtocolApplyTarget[];
+  /** Called after the plannings were replaced. */
+  onApplied?: () => void;
+}
+
+interface LotPreview {
+  target: ProtocolApplyTarget;
+  dateMiseEnPlace: string | null;
+  requests: VaccinationPlanningRequest[];
+  diff: ProtocolDiffRow[];
+  error: boolean;
+}
+
+const KIND_LABELS: Record<Exclude<ProtocolDiffKind, "same">, string> = {
+  add: "Ajoutée",
+  remove: "Supprimée",
+  change: "Modifiée",
+};
+
+const KIND_COLORS: Record<Exclude<ProtocolDiffKind, "same">, string> = {
+  add: "text-emerald-700 dark:text-emerald-400",
+  remove: "text-destructive",
+  change: "text-amber-700 dark:text-amber-400",
+};
+
+function targetKey(t: Pick<ProtocolApplyTarget, "farmId" | "lot">): string {
+  return `${t.farmId}|${t.lot}`;
+}
+
+/** A lot without dateMiseEnPlace would get a planning without dates: never applied. */
+function canApply(p: LotPreview): boolean {
+  return !p.error && p.dateMiseEnPlace != null && p.requests.length > 0;
+}
+
+function lineSummary(row: ProtocolDiffRow): string {
+  const line = row.kind === "remove" ? row.before : row.after;
+  if (!line) return "";
+  if (row.kind === "change") {
+    return row.fields
+      .map((f) => {
+        const label = PLANNING_LINE_FIELDS.find((x) => x.key === f)?.label ?? f;
+        return `${label} : ${row.before?.[f] || "—"} → ${row.after?.[f] || "—"}`;
+      })
+      .join(" · ");
+  }
+  return [line.vaccinTraitement, line.motif, line.administration].filter(Boolean).join(" · ") || "—";
+}
+
+/**
+ * Preview before replacing the planning of one or more lots with a protocol (vaccinationPlanning.replace):
+ * lines added, removed or changed per lot. Lots edited by hand since the protocol was applied are left unchecked.
+ */
+export default function ProtocolApplyDialog({ open, onOpenChange, protocol, targets, onApplied }: ProtocolApplyDialogProps) {
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [previews, setPreviews] = useState<LotPreview[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(
+      targets.map(async (target): Promise<LotPreview> => {
+        try {
+          const { dateMiseEnPlace, planning } = await loadLotPlanningContext(target.farmId, target.lot);
+          const requests = protocolPlanningRequests(protocol, { ...target, dateMiseEnPlace });
+          return { target, dateMiseEnPlace, requests, diff: diffPlanningWithProtocol(planning, requests), error: false };
+        } catch {
+          return { target, dateMiseEnPlace: null, requests: [], diff: [], error: true };
+        }
+      })
+    )
+      .then((list) => {
+        if (cancelled) return;
+        setPreviews(list);
+        setSelected(
+          new Set(
+            list
+              .filter((p) => canApply(p) && !p.target.customized && p.diff.some((r) => r.kind !== "same"))
+              .map((p) => targetKey(p.target))
+          )
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, protocol, targets]);
+
+  const toggle = (target: ProtocolApplyTarget, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(targetKey(target));
+      else next.delete(targetKey(target));
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    const chosen = previews.filter((p) => selected.has(targetKey(p.target)) && canApply(p));
+    if (chosen.length === 0) return;
+    setApplying(true);
+    let done = 0;
+    try {
+      for (const p of chosen) {
+        await api.vaccinationPlanning.replace(
+          { farmId: p.target.farmId, lot: p.target.lot, protocolId: protocol.id, protocolVersion: protocol.version },
+          p.requests
+        );
+        void invalidateAfterWrite("vaccinationPlanning", { farmId: p.target.farmId, lot: p.target.lot });
+        done++;
+      }
+      dispatchVaccinationAlertsRefresh();
+      toast({
+        title: "Protocole appliqué",
+        description: `${protocol.name} appliqué à ${done} lot(s).`,
+      });
+      onApplied?.();
+      onOpenChange(false);
+    } catch {
+      if (done > 0) {
+        dispatchVaccinationAlertsRefresh();
+        onApplied?.();
+      }
+      toast({
+        title: "Erreur",
+        description:
+          done > 0
+            ? `Protocole appliqué à ${done} lot(s) sur ${chosen.length} ; les suivants n'ont pas été modifiés.`
+            : "Impossible d'appliquer le protocole.",
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const single = targets.length === 1;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            Appliquer le protocole {protocol.name} (v{protocol.version})
+          </DialogTitle>
+          <DialogDescription>
+            {protocol.souche} — {protocol.typeElevage}. Le planning {single ? "du lot est remplacé" : "des lots cochés est remplacé"}{" "}
+            par les lignes du protocole, datées à partir de la date de mise en place. Les notes du planning sont conservées.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>Comparaison avec le planning actuel…</span>
+          </div>
+        ) : previews.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Aucun lot ouvert ne suit ce protocole.</p>
+        ) : (
+          <div className="flex-1 overflow-auto space-y-4">
+            {previews.map((p) => {
+              const key = targetKey(p.target);
+              const changes = p.diff.filter((r) => r.kind !== "same");
+              return (
+                <div key={key} className="rounded-md border border-border">
+                  <label className="flex items-center gap-2 px-3 py-2 border-b border-border bg-muted/40 text-sm">
+                    <Checkbox
+                      checked={selected.has(key)}
+                      onCheckedChange={(c) => toggle(p.target, c === true)}
+                      disabled={!canApply(p)}
+                    />
+                    <span className="font-medium">
+                      {p.target.farmName ? `${p.target.farmName} — ` : ""}Lot {p.target.lot}
+                    </span>
+                    {p.dateMiseEnPlace && (
+                      <span className="text-xs text-muted-foreground">mise en place {p.dateMiseEnPlace}</span>
+                    )}
+                    {p.target.customized && (
+                      <span className="ml-auto text-xs text-amber-700 dark:text-amber-400">Planning modifié à la main</span>
+                    )}
+                  </label>
+                  {p.error ? (
+                    <p className="px-3 py-2 text-sm text-destructive">Impossible de charger le planning du lot.</p>
+                  ) : !p.dateMiseEnPlace ? (
+                    <p className="px-3 py-2 text-sm text-destructive">
+                      Date de mise en place manquante : renseignez-la dans Données mises en place avant d'appliquer le protocole.
+                    </p>
+                  ) : changes.length === 0 ? (
+                    <p className="px-3 py-2 text-sm text-muted-foreground">Planning déjà identique au protocole.</p>
+                  ) : (
+                    <table className="w-full text-sm border-collapse">
+                      <tbody>
+                        {changes.map((row, i) => {
+                          const kind = row.kind as Exclude<ProtocolDiffKind, "same">;
+                          return (
+                            <tr key={`${row.age}-${i}`} className="border-b border-border last:border-b-0">
+                              <td className="px-3 py-1.5 w-20 font-medium">{row.age}</td>
+                              <td className={`px-3 py-1.5 w-24 text-xs font-medium ${KIND_COLORS[kind]}`}>
+                                {KIND_LABELS[kind]}
+                              </td>
+                              <td className="px-3 py-1.5 text-xs">{lineSummary(row)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="text-xs text-muted-foreground">{selected.size} lot(s) sélectionné(s).</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+              Annuler
+            </Button>
+            <Button onClick={handleApply} disabled={applying || loading || selected.size === 0} className="gap-2">
+              {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+              Appliquer
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
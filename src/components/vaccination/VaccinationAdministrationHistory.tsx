@@ -0,0 +1,96 @@
+import { Loader2, Syringe } from "lucide-react";
+import { useLivraisonsProduitsVeterinairesQuery, useVaccinationAdministrationsQuery } from "@/hooks/useApiQueries";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { administrationDate, administrationTime } from "@/lib/vaccinationAdministrationsShared";
+
+interface VaccinationAdministrationHistoryProps {
+  farmId: number | null | undefined;
+  lot: string;
+}
+
+function formatDay(iso: string): string {
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? `${m[3]}/${m[2]}/${m[1]}` : iso || "—";
+}
+
+/** Historique des vaccinations du lot: what was administered at each confirmed alert, newest first. */
+export default function VaccinationAdministrationHistory({ farmId, lot }: VaccinationAdministrationHistoryProps) {
+  const administrationsQuery = useVaccinationAdministrationsQuery(farmId, lot);
+  const livraisonsQuery = useLivraisonsProduitsVeterinairesQuery(farmId, lot);
+  const records = [...(administrationsQuery.data ?? [])].sort((a, b) =>
+    (b.administeredAt ?? "").localeCompare(a.administeredAt ?? "")
+  );
+  const livraisonById = new Map((livraisonsQuery.data ?? []).map((l) => [l.id, l]));
+
+  return (
+    <div className="border rounded-md">
+      <div className="flex items-center gap-2 px-3 py-2 border-b bg-muted/50">
+        <Syringe className="w-4 h-4 text-muted-foreground" />
+        <h2 className="text-sm font-semibold">Historique des vaccinations administrées</h2>
+      </div>
+      {administrationsQuery.isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" /> Chargement…
+        </div>
+      ) : records.length === 0 ? (
+        <p className="px-3 py-4 text-sm text-muted-foreground">
+          Aucune vaccination enregistrée. Elles sont saisies en confirmant les rappels de vaccination.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Date</th>
+                <th className="text-left p-2 font-medium">Âge</th>
+                <th className="text-left p-2 font-medium">Produit</th>
+                <th className="text-left p-2 font-medium">N° lot vaccin</th>
+                <th className="text-left p-2 font-medium">Dose</th>
+                <th className="text-right p-2 font-medium">Quantité</th>
+                <th className="text-left p-2 font-medium">Stock</th>
+                <th className="text-left p-2 font-medium">Opérateur</th>
+                <th className="text-left p-2 font-medium">Remarques</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((rec) => {
+                const livraison =
+                  rec.livraisonProduitVeterinaireId != null ? livraisonById.get(rec.livraisonProduitVeterinaireId) : undefined;
+                return (
+                  <tr key={rec.id} className="border-b last:border-b-0 align-top">
+                    <td className="p-2 whitespace-nowrap tabular-nums">
+                      {formatDay(administrationDate(rec))}
+                      {administrationTime(rec) && (
+                        <span className="text-muted-foreground"> {administrationTime(rec)}</span>
+                      )}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">{rec.age || "—"}</td>
+                    <td className="p-2">
+                      <div className="font-medium">{rec.produit}</div>
+                      {rec.motif && <div className="text-xs text-muted-foreground">{rec.motif}</div>}
+                    </td>
+                    <td className="p-2">{rec.numeroLotVaccin || "—"}</td>
+                    <td className="p-2">{rec.dose || "—"}</td>
+                    <td className="p-2 text-right tabular-nums">
+                      {rec.quantite != null ? formatGroupedNumber(rec.quantite, rec.quantite % 1 === 0 ? 0 : 2) : "—"}
+                      {livraison?.ug ? ` ${livraison.ug}` : ""}
+                    </td>
+                    <td className="p-2 text-xs">
+                      {livraison
+                        ? `${livraison.designation ?? ""} du ${formatDay(livraison.date)}${livraison.deliveryNoteNumber ? ` (BL ${livraison.deliveryNoteNumber})` : ""}`
+                        : rec.livraisonProduitVeterinaireId != null
+                          ? `Livraison #${rec.livraisonProduitVeterinaireId}`
+                          : "Hors stock"}
+                    </td>
+                    <td className="p-2">{rec.operateur}</td>
+                    <td className="p-2 text-xs">{rec.remarques || "—"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
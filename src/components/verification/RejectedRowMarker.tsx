@@ -0,0 +1,19 @@
+import { MessageSquareWarning } from "lucide-react";
+import type { RowRejection } from "@/lib/verificationShared";
+import { formatAuditTimestamp } from "@/lib/auditTrailShared";
+
+/** Shown in the ✓ cell of a row rejected in the À vérifier inbox: the row is editable once to correct it. */
+export default function RejectedRowMarker({ rejection }: { rejection: RowRejection }) {
+  const by = [
+    rejection.rejectedBy ? `par ${rejection.rejectedBy}` : null,
+    rejection.rejectedAt ? `le ${formatAuditTimestamp(rejection.rejectedAt)}` : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const text = `Rejetée${by ? ` ${by}` : ""} : ${rejection.comment || "sans commentaire"} — corrigez puis enregistrez la ligne.`;
+  return (
+    <span className="inline-flex justify-center p-0.5 text-amber-600" title={text} aria-label={text}>
+      <MessageSquareWarning className="w-4 h-4" />
+    </span>
+  );
+}
@@ -8,14 +8,27 @@ import {
   useState,
   type ReactNode,
 } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { 
   api, 
+  API_UNAUTHORIZED_EVENT,
   getStoredToken, 
   setStoredToken, 
+  setStoredRefreshToken,
   getStoredSelectedFarm,
   setStoredSelectedFarm,
   type UserResponse 
 } from "@/lib/api";
+import type { ClosedLotSessionContext } from "@/lib/lotAccess";
+import {
+  assignedFarmIds,
+  buildPermissionSet,
+  hasPermission,
+  permissionScope,
+  type PermissionAction,
+  type PermissionResource,
+} from "@/lib/permissions";
+import { queryKeys } from "@/lib/queryKeys";
 
 type SelectedFarm = {
   id: number;
@@ -33,31 +46,56 @@ type AuthState = {
   selectedFarm: SelectedFarm;
   /** True if ADMINISTRATEUR logged in without selecting a farm (can see all farms' data) */
   allFarmsMode: boolean;
+  /**
+   * True after an authenticated request got a 401: the re-login dialog is shown (SessionExpiredDialog)
+   * while pages stay mounted, so unsaved grid input is kept.
+   */
+  sessionExpired: boolean;
+  /**
+   * Incremented on each farm / role switch: route wrappers key the page on it, so per-farm page state
+   * (selected lot, semaine, bâtiment…) starts over.
+   */
+  sessionKey: number;
 };
 
 /**
- * Permission Matrix:
- * | Role                    | Read | Create rows | New lot (InfosSetup only) | Update | Delete |
- * |-------------------------|------|-------------|---------------------------|--------|--------|
- * | ADMINISTRATEUR          |  ✓   |     ✓       |            ✓              |   ✓    |   ✓    |
- * | RESPONSABLE_TECHNIQUE   |  ✓   |     ✓       |            ✓              |   ✓    |   ✓    |
- * | BACKOFFICE_EMPLOYER     |  ✓   |     ✓       |            ✓              |   ✓    |   ✓    |
- * | RESPONSABLE_FERME       |  ✓   |     ✓       |            ✗              |   ✗    |   ✗    |
+ * Permissions come from the role × resource × action matrix loaded from /api/roles (see permissions.ts, edited on
+ * Utilisateurs → Rôles et permissions). The boolean properties below are derived from it for existing callers;
+ * new checks should use can() / usePermission().
  */
 type AuthContextValue = AuthState & {
   /**
    * Login with role selection, credentials, and optional farm selection.
    * - ADMINISTRATEUR: farmId is optional (all-farms mode if null)
    * - Other roles: farmId is required
-   * To switch farms/roles, user must logout and login again.
+   * To switch farms/roles afterwards, use switchContext (no password).
    */
   login: (username: string, password: string, role: string, farmId?: number | null) => Promise<void>;
+  /**
+   * Switch to another of the user's roles and/or farm without logging out (token exchange).
+   * Same farm rules as login. Clears cached queries and bumps sessionKey; throws when the backend refuses.
+   */
+  switchContext: (role: string, farmId?: number | null) => Promise<void>;
   logout: () => void;
-  /** True if user can manage users (ADMINISTRATEUR or RESPONSABLE_TECHNIQUE). */
+  /**
+   * Re-login after session expiry with the same user, role and farm (only the password is asked again).
+   * Clears sessionExpired on success; throws on wrong password.
+   */
+  relogin: (password: string) => Promise<void>;
+  /**
+   * True if one of the user's roles grants the action on the resource. With a farmId, grants limited to the
+   * assigned farms only count for those farms.
+   */
+  can: (resource: PermissionResource, action: PermissionAction, farmId?: number | null) => boolean;
+  /** True while the role definitions of /api/roles are loading (routes wait before redirecting). */
+  permissionsLoading: boolean;
+  /** Closed-lot read access of the session (lotsFermes grants), passed to canReadClosedLot. */
+  closedLotAccess: ClosedLotSessionContext;
+  /** True if user has full CRUD access (same as hasFullAccess). */
   isUserManager: boolean;
   /** @deprecated Use isUserManager. Kept for compatibility. */
   isAdmin: boolean;
-  /** True if user can manage users (ADMINISTRATEUR or RESPONSABLE_TECHNIQUE only, excludes BACKOFFICE_EMPLOYER). */
+  /** True if user can manage users (utilisateurs:update). */
   canManageUsers: boolean;
   /** 
    * The selected farm ID for this session (from JWT).
@@ -73,38 +111,38 @@ type AuthContextValue = AuthState & {
   // ==================== Permission Properties ====================
   
   /** 
-   * True if user can CREATE new platform data records.
-   * Allowed: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, RESPONSABLE_FERME, BACKOFFICE_EMPLOYER
+   * True if user can CREATE new platform data records (donnees:create).
+   * Default: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, RESPONSABLE_FERME, BACKOFFICE_EMPLOYER
    */
   canCreate: boolean;
 
   /**
-   * True if user may add a new lot from the lot selector (Nouveau lot).
-   * Intended for the InfosSetup page only (Nouveau lot) — RT/Admin/BACKOFFICE_EMPLOYER. Other pages list existing lots only.
+   * True if user may add a new lot from the lot selector (lots:create).
+   * Intended for the InfosSetup page only (Nouveau lot). Other pages list existing lots only.
    */
   canCreateNewLot: boolean;
   
   /** 
-   * True if user can UPDATE existing platform data records.
-   * Allowed: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, BACKOFFICE_EMPLOYER
+   * True if user can UPDATE existing platform data records (donnees:update).
+   * Default: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, BACKOFFICE_EMPLOYER
    * RESPONSABLE_FERME cannot modify data after saving.
    */
   canUpdate: boolean;
   
   /** 
-   * True if user can DELETE platform data records.
-   * Allowed: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, BACKOFFICE_EMPLOYER, RESPONSABLE_FERME
+   * True if user can DELETE platform data records (donnees:delete).
+   * Default: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, BACKOFFICE_EMPLOYER, RESPONSABLE_FERME
    * Note: RESPONSABLE_FERME can only delete unsaved rows (handled at component level)
    */
   canDelete: boolean;
   
   /** 
-   * True if user has full CRUD access (ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, or BACKOFFICE_EMPLOYER).
+   * True if user has full CRUD access on platform data (create, update and delete).
    */
   hasFullAccess: boolean;
   
   /**
-   * True if user can access all farms (ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, or BACKOFFICE_EMPLOYER).
+   * True if the donnees:read grant is not limited to assigned farms.
    * These roles can view data from any farm without being assigned to it.
    */
   canAccessAllFarms: boolean;
@@ -184,8 +222,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     selectedRole: null,
     selectedFarm: null,
     allFarmsMode: false,
+    sessionExpired: false,
+    sessionKey: 0,
   });
   const validatedRef = useRef(false);
+  const queryClient = useQueryClient();
 
   /**
    * Login with role selection and optional farm selection.
@@ -194,12 +235,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    */
   const login = useCallback(async (username: string, password: string, role: string, farmId?: number | null) => {
     setState((s) => ({ ...s, loading: true, error: null }));
+    // Cached queries belong to the previous user / role / farm
+    queryClient.clear();
     try {
       const response = await api.auth.login(username.trim(), password, role, farmId);
       const { token, user, selectedRole, selectedFarmId, selectedFarmName, selectedFarmCode, allFarmsMode } = response;
       
       // Store token, role, and selected farm
       setStoredToken(token);
+      setStoredRefreshToken(response.refreshToken ?? null);
       setStoredSelectedRole(selectedRole);
       setStoredAllFarmsMode(allFarmsMode);
       
@@ -218,6 +262,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         selectedRole,
         selectedFarm,
         allFarmsMode,
+        sessionExpired: false,
         loading: false, 
         error: null 
       }));
@@ -238,9 +283,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }));
       throw e;
     }
-  }, []);
+  }, [queryClient]);
 
   const logout = useCallback(() => {
+    queryClient.clear();
     setStoredToken(null);
     setStoredSelectedRole(null);
     setStoredSelectedFarm(null);
@@ -252,7 +298,52 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       selectedRole: null,
       selectedFarm: null,
       allFarmsMode: false,
+      sessionExpired: false,
+      sessionKey: 0,
     });
+  }, [queryClient]);
+
+  const switchContext = useCallback(async (role: string, farmId?: number | null) => {
+    const response = await api.auth.switchContext(role, farmId);
+    const { token, user, selectedRole, selectedFarmId, selectedFarmName, selectedFarmCode, allFarmsMode } = response;
+    // Cached queries belong to the previous farm / role
+    queryClient.clear();
+    setStoredToken(token);
+    setStoredRefreshToken(response.refreshToken ?? null);
+    setStoredSelectedRole(selectedRole);
+    setStoredAllFarmsMode(allFarmsMode);
+    const selectedFarm = selectedFarmId && selectedFarmName && selectedFarmCode
+      ? { id: selectedFarmId, name: selectedFarmName, code: selectedFarmCode }
+      : null;
+    setStoredSelectedFarm(selectedFarm);
+    setState((s) => ({
+      ...s,
+      user,
+      selectedRole,
+      selectedFarm,
+      allFarmsMode,
+      sessionExpired: false,
+      error: null,
+      sessionKey: s.sessionKey + 1,
+    }));
+  }, [queryClient]);
+
+  const relogin = useCallback(async (password: string) => {
+    const username = state.user?.username;
+    if (!username || !state.selectedRole) throw new Error("Session introuvable. Veuillez vous reconnecter.");
+    const response = await api.auth.login(username, password, state.selectedRole, state.selectedFarm?.id ?? null);
+    setStoredToken(response.token);
+    setStoredRefreshToken(response.refreshToken ?? null);
+    setState((s) => ({ ...s, user: response.user, sessionExpired: false, error: null }));
+  }, [state.user?.username, state.selectedRole, state.selectedFarm?.id]);
+
+  // Central 401 handling: any authenticated request answered 401 opens the re-login dialog (no per-page handling).
+  useEffect(() => {
+    const onUnauthorized = () => {
+      setState((s) => (s.user && !s.sessionExpired ? { ...s, sessionExpired: true } : s));
+    };
+    window.addEventListener(API_UNAUTHORIZED_EVENT, onUnauthorized);
+    return () => window.removeEventListener(API_UNAUTHORIZED_EVENT, onUnauthorized);
   }, []);
 
   useEffect(() => {
@@ -342,50 +433,53 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   );
   
   // ==================== Permission Calculations ====================
-  
-  /** ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, or BACKOFFICE_EMPLOYER have full access */
-  const hasFullAccess = isAdministrateur || isResponsableTechnique || isBackofficeEmployer;
-  
-  /** Can manage users (ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, or BACKOFFICE_EMPLOYER) */
+
+  // Selected farm from session (primary)
+  const selectedFarmId = state.selectedFarm?.id ?? null;
+  const selectedFarmName = state.selectedFarm?.name ?? null;
+
+  // Role definitions (with their grants); until loaded, the roles embedded in the user apply.
+  const rolesQuery = useQuery({
+    queryKey: queryKeys.roles.list(),
+    queryFn: () => api.roles.list(),
+    enabled: state.user != null,
+    staleTime: 5 * 60_000,
+  });
+  const permissionsLoading = state.user != null && rolesQuery.isPending;
+
+  const permissionSet = useMemo(
+    () => buildPermissionSet(state.user?.roles, rolesQuery.data),
+    [state.user?.roles, rolesQuery.data]
+  );
+  const farmIds = useMemo(() => assignedFarmIds(state.user, selectedFarmId), [state.user, selectedFarmId]);
+  const can = useCallback(
+    (resource: PermissionResource, action: PermissionAction, farmId?: number | null) =>
+      hasPermission(permissionSet, resource, action, farmId, farmIds),
+    [permissionSet, farmIds]
+  );
+
+  const canCreate = can("donnees", "create");
+  const canCreateNewLot = can("lots", "create");
+  const canUpdate = can("donnees", "update");
+  /** RESPONSABLE_FERME can delete unsaved rows only (handled at component level) */
+  const canDelete = can("donnees", "delete");
+  const hasFullAccess = canCreate && canUpdate && canDelete;
   const isUserManager = hasFullAccess;
-  
-  /** Can manage users (ADMINISTRATEUR or RESPONSABLE_TECHNIQUE only, excludes BACKOFFICE_EMPLOYER) */
-  const canManageUsers = isAdministrateur || isResponsableTechnique;
-  
-  /** 
-   * Can CREATE: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, RESPONSABLE_FERME, BACKOFFICE_EMPLOYER
-   */
-  const canCreate = hasFullAccess || isResponsableFerme || isBackofficeEmployer;
+  const canManageUsers = can("utilisateurs", "update");
+  const canAccessAllFarms = permissionScope(permissionSet, "donnees", "read") === "ALL";
 
-  /** New lot registration in UI: RT, Admin, and BACKOFFICE_EMPLOYER (RF uses existing lots). */
-  const canCreateNewLot = hasFullAccess || isBackofficeEmployer;
-  
-  /** 
-   * Can UPDATE: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, BACKOFFICE_EMPLOYER
-   * RESPONSABLE_FERME cannot modify after saving
-   */
-  const canUpdate = hasFullAccess || isBackofficeEmployer;
-  
-  /** 
-   * Can DELETE: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, BACKOFFICE_EMPLOYER, RESPONSABLE_FERME
-   * RESPONSABLE_FERME can delete unsaved rows only (handled at component level)
-   */
-  const canDelete = hasFullAccess || isResponsableFerme || isBackofficeEmployer;
-  
   /** 
    * @deprecated BACKOFFICE_EMPLOYER now has full CRUD access. This is always false.
    */
   const isReadOnly = false;
-  
-  /**
-   * Can access all farms: ADMINISTRATEUR, RESPONSABLE_TECHNIQUE, BACKOFFICE_EMPLOYER
-   * These roles can view data from any farm without being assigned to it.
-   */
-  const canAccessAllFarms = hasFullAccess || isBackofficeEmployer;
 
-  // Selected farm from session (primary)
-  const selectedFarmId = state.selectedFarm?.id ?? null;
-  const selectedFarmName = state.selectedFarm?.name ?? null;
+  const currentUserId = state.user?.id ?? null;
+  const canReadAnyClosedLot = can("lotsFermes", "read");
+  const canReadOwnClosedLot = can("lotsFermes", "update");
+  const closedLotAccess = useMemo<ClosedLotSessionContext>(
+    () => ({ currentUserId, canReadAnyClosedLot, canReadOwnClosedLot }),
+    [currentUserId, canReadAnyClosedLot, canReadOwnClosedLot]
+  );
   
   // Legacy fields for backward compatibility
   const farmId = selectedFarmId ?? state.user?.farmId ?? null;
@@ -396,6 +490,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       ...state,
       login,
       logout,
+      relogin,
+      switchContext,
+      can,
+      permissionsLoading,
+      closedLotAccess,
       isUserManager,
       isAdmin: isUserManager,
       canManageUsers,
@@ -417,7 +516,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       isResponsableTechnique,
     }),
     [
-      state, login, logout, isUserManager, canManageUsers, selectedFarmId, selectedFarmName, farmId, farmName,
+      state, login, logout, relogin, switchContext, can, permissionsLoading, closedLotAccess, isUserManager, canManageUsers, selectedFarmId, selectedFarmName, farmId, farmName,
       canCreate, canCreateNewLot, canUpdate, canDelete, hasFullAccess, canAccessAllFarms, isReadOnly,
       isResponsableFerme, isBackofficeEmployer, isAdministrateur, isResponsableTechnique
     ]
@@ -0,0 +1,80 @@
+import { useCallback } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  api,
+  type PerformanceTolerancesRequest,
+  type SaveStockAlimentRequest,
+  type SuiviCoutHebdoRequest,
+  type SuiviTechniqueHebdoRequest,
+  type TemperatureTargetsRequest,
+} from "@/lib/api";
+import type { QueryScope } from "@/lib/queryKeys";
+import { invalidateAfterWrite, type QueryNamespace } from "@/lib/queryInvalidation";
+
+/**
+ * Write hooks: each mutation invalidates exactly the cached summaries depending on what it wrote
+ * (e.g. a stock save refreshes the consommation and prix de revient résumés of that week and the following ones).
+ */
+
+/** For save paths not migrated to a mutation hook yet: `invalidate("sorties", { farmId, lot })` after a successful write. */
+export function useInvalidateAfterWrite() {
+  const queryClient = useQueryClient();
+  return useCallback(
+    (entity: QueryNamespace, scope: QueryScope) => invalidateAfterWrite(queryClient, entity, scope),
+    [queryClient]
+  );
+}
+
+type StockScope = { farmId: number; lot: string; semaine: string; sex: string; batiment?: string | null };
+
+export function useSaveStockAliment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ params, body }: { params: StockScope; body: SaveStockAlimentRequest }) =>
+      api.suiviStock.saveStockAliment(params, body),
+    onSuccess: (_data, { params }) => invalidateAfterWrite(queryClient, "suiviStock", params),
+  });
+}
+
+export function useSaveCoutHebdo() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ params, body }: { params: { farmId: number; lot: string; semaine: string }; body: SuiviCoutHebdoRequest }) =>
+      api.suiviCoutHebdo.save(body, params),
+    onSuccess: (_data, { params }) => invalidateAfterWrite(queryClient, "suiviCoutHebdo", params),
+  });
+}
+
+export function useSaveSuiviTechniqueHebdo() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ farmId, body }: { farmId: number; body: SuiviTechniqueHebdoRequest }) =>
+      api.suiviTechniqueHebdo.save(body, farmId),
+    onSuccess: (_data, { farmId, body }) =>
+      invalidateAfterWrite(queryClient, "suiviTechniqueHebdo", {
+        farmId,
+        lot: body.lot,
+        semaine: body.semaine,
+        sex: body.sex,
+        batiment: body.batiment,
+      }),
+  });
+}
+
+export function useSavePerformanceTolerances() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ farmId, body }: { farmId: number; body: PerformanceTolerancesRequest }) =>
+      api.performanceTolerances.save(body, farmId),
+    onSuccess: (_data, { farmId }) => invalidateAfterWrite(queryClient, "performanceTolerances", { farmId }),
+  });
+}
+
+export function useSaveTemperatureTargets() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ farmId, body }: { farmId: number; body: TemperatureTargetsRequest }) =>
+      api.temperatureTargets.save(body, farmId),
+    onSuccess: (_data, { farmId }) => invalidateAfterWrite(queryClient, "temperatureTargets", { farmId }),
+  });
+}
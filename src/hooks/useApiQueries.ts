@@ -0,0 +1,292 @@
+import { useQuery } from "@tanstack/react-query";
+import { api, type AuditEntityType, type AuditListParams, type VerificationQueueParams } from "@/lib/api";
+import { queryKeys } from "@/lib/queryKeys";
+import { loadPerformanceNormWeeks, loadPerformanceTolerances, semainesUpTo } from "@/lib/performanceNormStatus";
+import { loadProfileNormeFallback } from "@/lib/performanceNormeProfilesShared";
+import { loadTemperatureTargets } from "@/lib/batimentControlCharts";
+
+/**
+ * Shared TanStack Query reads. Pages using the same hook share one cache entry (keys from queryKeys.ts),
+ * and writes made through useApiMutations invalidate them (see queryInvalidation.ts).
+ */
+
+export function useFarmsQuery(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.farms.list(),
+    queryFn: () => api.farms.list(),
+    enabled,
+  });
+}
+
+export function useRolesQuery(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.roles.list(),
+    queryFn: () => api.roles.list(),
+    enabled,
+  });
+}
+
+export function useLotsWithStatusQuery(farmId: number | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.farms.lotsWithStatus(farmId),
+    queryFn: () => api.farms.lotsWithStatus(farmId as number),
+    enabled: farmId != null,
+  });
+}
+
+export function useSuiviStockQuery(params: {
+  farmId: number;
+  lot: string;
+  semaine: string;
+  sex: string;
+  batiment?: string | null;
+}) {
+  const { farmId, lot, semaine, sex, batiment } = params;
+  return useQuery({
+    queryKey: queryKeys.suiviStock.get({ farmId, lot, semaine, sex, batiment }),
+    queryFn: () => api.suiviStock.get({ farmId, lot, semaine, sex, batiment }),
+    enabled: Boolean(lot && semaine && sex),
+  });
+}
+
+export function useSuiviProductionHebdoQuery(params: {
+  farmId: number;
+  lot: string;
+  semaine: string;
+  sex: string;
+  batiment?: string | null;
+}) {
+  const { farmId, lot, semaine, sex, batiment } = params;
+  return useQuery({
+    queryKey: queryKeys.suiviProductionHebdo.get({ farmId, lot, semaine, sex, batiment }),
+    queryFn: () => api.suiviProductionHebdo.get({ farmId, lot, semaine, sex, batiment: batiment ?? undefined }),
+    enabled: Boolean(lot && semaine && sex),
+  });
+}
+
+export function useSuiviPerformancesHebdoQuery(params: {
+  farmId: number;
+  lot: string;
+  semaine: string;
+  sex: string;
+  batiment?: string | null;
+}) {
+  const { farmId, lot, semaine, sex, batiment } = params;
+  return useQuery({
+    queryKey: queryKeys.suiviPerformancesHebdo.get({ farmId, lot, semaine, sex, batiment }),
+    queryFn: () => api.suiviPerformancesHebdo.get({ farmId, lot, semaine, sex, batiment: batiment ?? undefined }),
+    enabled: Boolean(lot && semaine && sex),
+  });
+}
+
+export function useSuiviConsommationHebdoQuery(params: {
+  farmId: number;
+  lot: string;
+  semaine: string;
+  sex: string;
+  batiment?: string | null;
+}) {
+  const { farmId, lot, semaine, sex, batiment } = params;
+  return useQuery({
+    queryKey: queryKeys.suiviConsommationHebdo.get({ farmId, lot, semaine, sex, batiment }),
+    queryFn: () => api.suiviConsommationHebdo.get({ farmId, lot, semaine, sex, batiment: batiment ?? undefined }),
+    enabled: Boolean(lot && semaine && sex),
+  });
+}
+
+/** Résumé prix de revient (page Résumé des coûts, Dashboard, Résumé production). `batiments` is comma-separated. */
+export function useCoutResumeSummaryQuery(params: {
+  farmId: number | null | undefined;
+  lot: string | null | undefined;
+  semaine: string | null | undefined;
+  batiments: string;
+}, enabled = true) {
+  const { farmId, lot, semaine, batiments } = params;
+  return useQuery({
+    queryKey: queryKeys.suiviCoutHebdo.resumeSummary({ farmId, lot, semaine }, batiments),
+    queryFn: () =>
+      api.suiviCoutHebdo.getResumeSummary({ farmId: farmId as number, lot: lot as string, semaine: semaine as string, batiments }),
+    enabled: enabled && farmId != null && Boolean(lot && semaine && batiments.trim()),
+  });
+}
+
+export function useConsommationResumeSummaryQuery(params: {
+  farmId: number | null | undefined;
+  lot: string | null | undefined;
+  semaine: string | null | undefined;
+  batiments: string[];
+}, enabled = true) {
+  const { farmId, lot, semaine, batiments } = params;
+  return useQuery({
+    queryKey: queryKeys.suiviConsommationHebdo.resumeSummary({ farmId, lot, semaine }, batiments),
+    queryFn: () =>
+      api.suiviConsommationHebdo.getResumeSummary({
+        farmId: farmId as number,
+        lot: lot as string,
+        semaine: semaine as string,
+        batiments,
+      }),
+    enabled: enabled && farmId != null && Boolean(lot && semaine) && batiments.length > 0,
+  });
+}
+
+/** Performances réel vs norme from S1 to `semaine`, aggregated over `groups` (weekly Dashboard heat map). */
+export function usePerformanceNormMatrixQuery(params: {
+  farmId: number | null | undefined;
+  lot: string | null | undefined;
+  semaine: string | null | undefined;
+  sex?: string | null;
+  groups: { sex: string; batiment: string }[];
+}, enabled = true) {
+  const { farmId, lot, semaine, sex, groups } = params;
+  return useQuery({
+    queryKey: queryKeys.suiviPerformancesHebdo.normMatrix({ farmId, lot, sex }, semaine ?? "", groups),
+    queryFn: async () =>
+      loadPerformanceNormWeeks({
+        farmId: farmId as number,
+        lot: lot as string,
+        weeks: semainesUpTo(semaine as string),
+        groups,
+        profileNorme: await loadProfileNormeFallback(farmId as number, lot as string),
+      }),
+    enabled: enabled && farmId != null && Boolean(lot && semaine) && groups.length > 0,
+  });
+}
+
+/** Tolerance bands of the farm (defaults when never saved). */
+export function usePerformanceTolerancesQuery(farmId: number | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.performanceTolerances.get(farmId),
+    queryFn: () => loadPerformanceTolerances(farmId as number),
+    enabled: enabled && farmId != null,
+  });
+}
+
+/** Temperature target curve of the farm (default curve when never saved). */
+export function useTemperatureTargetsQuery(farmId: number | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.temperatureTargets.get(farmId),
+    queryFn: () => loadTemperatureTargets(farmId as number),
+    enabled: enabled && farmId != null,
+  });
+}
+
+/** Prix d'aliment grid of the Fournisseurs page (supplier × designation price_kg). */
+export function useFournisseurGridQuery(farmId: number | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.fournisseurs.grid(farmId),
+    queryFn: () => api.fournisseurs.getGrid(farmId ?? undefined),
+    enabled,
+  });
+}
+
+/** Dated price versions of the Fournisseurs grid (history, evolution chart, PRIX at a livraison date). */
+export function useFournisseurPriceHistoryQuery(farmId: number | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.fournisseurs.priceHistory(farmId),
+    queryFn: () => api.fournisseurs.priceHistory(farmId ?? undefined),
+    enabled,
+  });
+}
+
+/** Norm profiles per souche / sex (all farms). */
+export function usePerformanceNormeProfilesQuery(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.performanceNormeProfiles.list(),
+    queryFn: () => api.performanceNormeProfiles.list(),
+    enabled,
+  });
+}
+
+/** Vaccination protocol templates (all souches). */
+export function useVaccinationProtocolsQuery(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.vaccinationProtocols.list(),
+    queryFn: () => api.vaccinationProtocols.list(),
+    enabled,
+  });
+}
+
+/** Lots following a protocol (propagation of an edit). */
+export function useVaccinationProtocolLotsQuery(id: number | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.vaccinationProtocols.lots(id ?? 0),
+    queryFn: () => api.vaccinationProtocols.lots(id as number),
+    enabled: id != null,
+  });
+}
+
+/** Administrations recorded for the lot (vaccination alert confirmations). */
+export function useVaccinationAdministrationsQuery(farmId: number | null | undefined, lot: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.vaccinationAdministrations.list({ farmId, lot }),
+    queryFn: () => api.vaccinationAdministrations.list({ farmId, lot: lot as string }),
+    enabled: Boolean(lot),
+  });
+}
+
+/** Livraisons produits vétérinaires of the lot (stock drawn by vaccination administrations). */
+export function useLivraisonsProduitsVeterinairesQuery(farmId: number | null | undefined, lot: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.livraisonsProduitsVeterinaires.list({ farmId, lot }),
+    queryFn: () => api.livraisonsProduitsVeterinaires.list({ farmId, lot }),
+    enabled: Boolean(lot),
+  });
+}
+
+/** Données mises en place of the lot (souche, effectifs per bâtiment / sex). */
+export function useSetupInfoListQuery(farmId: number | null | undefined, lot: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.setupInfo.list({ farmId, lot }),
+    queryFn: () => api.setupInfo.list(farmId as number, lot as string),
+    enabled: farmId != null && Boolean(lot),
+  });
+}
+
+export function useSuiviTechniqueHebdoListQuery(params: {
+  farmId: number | null | undefined;
+  lot?: string | null;
+  semaine?: string | null;
+  sex?: string | null;
+  batiment?: string | null;
+}, enabled = true) {
+  const { farmId, lot, semaine, sex, batiment } = params;
+  return useQuery({
+    queryKey: queryKeys.suiviTechniqueHebdo.list({ farmId, lot, semaine, sex, batiment }),
+    queryFn: () => api.suiviTechniqueHebdo.list({ farmId: farmId as number, lot, semaine, sex, batiment }),
+    enabled: enabled && farmId != null && Boolean(lot),
+  });
+}
+
+/** Versions of one data row (Historique panel); always refetched on open since not every grid invalidates it. */
+export function useAuditRowHistoryQuery(entityType: AuditEntityType | null, entityId: number | null) {
+  return useQuery({
+    queryKey: queryKeys.audit.rowHistory(entityType ?? "", entityId ?? 0),
+    queryFn: () => api.audit.rowHistory(entityType as AuditEntityType, entityId as number),
+    enabled: entityType != null && entityId != null,
+    staleTime: 0,
+  });
+}
+
+/** Journal d'audit (all writes matching the filters, newest first). */
+export function useAuditListQuery(params: AuditListParams, enabled = true) {
+  const { farmId, lot, username, entityType, from, to, limit } = params;
+  return useQuery({
+    queryKey: queryKeys.audit.list(
+      { farmId, lot },
+      { username: username ?? undefined, entityType: entityType ?? undefined, from: from ?? undefined, to: to ?? undefined }
+    ),
+    queryFn: () => api.audit.list({ farmId, lot, username, entityType, from, to, limit }),
+    enabled,
+  });
+}
+
+/** À vérifier inbox (pending and rejected rows matching the filters). */
+export function useVerificationQueueQuery(params: VerificationQueueParams, enabled = true) {
+  const { farmId, lot, entityType, status } = params;
+  return useQuery({
+    queryKey: queryKeys.verification.queue({ farmId, lot }, { entityType: entityType ?? undefined, status: status ?? undefined }),
+    queryFn: () => api.verification.queue({ farmId, lot, entityType, status }),
+    enabled,
+  });
+}
@@ -0,0 +1,49 @@
+import { useCallback, useRef, useState } from "react";
+import ConflictMergeDialog from "@/components/conflict/ConflictMergeDialog";
+import type { ConflictField } from "@/lib/conflictMerge";
+
+interface PendingConflict<T> {
+  title?: string;
+  fields: ConflictField<T>[];
+  mine: T;
+  theirs: T;
+}
+
+/**
+ * Promise-based conflict resolution for save paths.
+ * `resolve(...)` opens the merge dialog and resolves with the merged row, or null when the user keeps
+ * the server version. Render `dialog` once in the component.
+ */
+export function useConflictResolver<T>() {
+  const [pending, setPending] = useState<PendingConflict<T> | null>(null);
+  const settleRef = useRef<((merged: T | null) => void) | null>(null);
+
+  const resolve = useCallback((conflict: PendingConflict<T>): Promise<T | null> => {
+    settleRef.current?.(null);
+    return new Promise<T | null>((res) => {
+      settleRef.current = res;
+      setPending(conflict);
+    });
+  }, []);
+
+  const settle = (merged: T | null) => {
+    const fn = settleRef.current;
+    settleRef.current = null;
+    setPending(null);
+    fn?.(merged);
+  };
+
+  const dialog = pending ? (
+    <ConflictMergeDialog<T>
+      open
+      title={pending.title}
+      fields={pending.fields}
+      mine={pending.mine}
+      theirs={pending.theirs}
+      onMerge={(merged) => settle(merged)}
+      onKeepTheirs={() => settle(null)}
+    />
+  ) : null;
+
+  return { resolve, dialog };
+}
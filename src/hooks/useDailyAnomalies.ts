@@ -0,0 +1,77 @@
+import { useMemo } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useFarmsQuery } from "@/hooks/useApiQueries";
+import { api } from "@/lib/api";
+import { detectDailyAnomalies, isAnomalyOpen, loadDailyAnomalySources, type DailyAnomaly } from "@/lib/dailyAnomalies";
+import { queryKeys } from "@/lib/queryKeys";
+
+/** Detection reloads every lot of the farm: keep results a while (writes still invalidate them). */
+const ANOMALY_STALE_TIME = 15 * 60_000;
+/** Kept after leaving the dashboard, for the sidebar badge. */
+const ANOMALY_GC_TIME = 60 * 60_000;
+
+/**
+ * Daily anomalies of the open lots of the session farm (every farm in all-farms mode), minus the acknowledged and
+ * still-snoozed ones. Shared by the dashboard AlertsSection and the sidebar badge (same cache entries).
+ * With `load: false` (sidebar, mounted on every page) the detection is not run: only the results already loaded
+ * by the dashboard are read. Lots whose sources failed to load are listed in `failedLots`, not counted as clean.
+ */
+export function useDailyAnomalies({ load = true }: { load?: boolean } = {}) {
+  const { selectedFarmId, canAccessAllFarms } = useAuth();
+  const allFarmsMode = selectedFarmId == null && canAccessAllFarms;
+  const farmsQuery = useFarmsQuery(allFarmsMode);
+  const farmIds = useMemo(
+    () => (selectedFarmId != null ? [selectedFarmId] : allFarmsMode ? (farmsQuery.data ?? []).map((f) => f.id) : []),
+    [selectedFarmId, allFarmsMode, farmsQuery.data]
+  );
+
+  const lotsQueries = useQueries({
+    queries: farmIds.map((farmId) => ({
+      queryKey: queryKeys.farms.lotsWithStatus(farmId),
+      queryFn: () => api.farms.lotsWithStatus(farmId),
+    })),
+  });
+  const openLots = lotsQueries.flatMap((q, i) =>
+    (q.data ?? []).filter((l) => !l.closed).map((l) => ({ farmId: farmIds[i], lot: l.lot }))
+  );
+
+  const anomalyQueries = useQueries({
+    queries: openLots.map(({ farmId, lot }) => ({
+      queryKey: queryKeys.dailyAnomalies.get({ farmId, lot }),
+      queryFn: async () => detectDailyAnomalies(await loadDailyAnomalySources(farmId, lot), farmId, lot),
+      staleTime: ANOMALY_STALE_TIME,
+      gcTime: ANOMALY_GC_TIME,
+      enabled: load,
+    })),
+  });
+  const acknowledgementsQuery = useQuery({
+    queryKey: queryKeys.anomalyAcknowledgements.list({ farmId: selectedFarmId }),
+    queryFn: () => api.anomalyAcknowledgements.list({ farmId: selectedFarmId }),
+    enabled: farmIds.length > 0,
+  });
+
+  const detected = anomalyQueries.flatMap((q) => q.data ?? []);
+  const acknowledgements = new Map((acknowledgementsQuery.data ?? []).map((a) => [a.anomalyId, a]));
+  const now = new Date();
+  const anomalies: DailyAnomaly[] = detected
+    .filter((a) => isAnomalyOpen(a, acknowledgements, now))
+    .sort((a, b) => b.date.localeCompare(a.date) || Number(b.severity === "critical") - Number(a.severity === "critical"));
+
+  const failedLots = openLots.filter((_, i) => anomalyQueries[i].isError);
+
+  return {
+    anomalies,
+    failedLots,
+    refetchFailed: () => {
+      for (const q of anomalyQueries) if (q.isError) void q.refetch();
+    },
+    /** Detected, including acknowledged and snoozed ones. */
+    detectedCount: detected.length,
+    isLoading:
+      farmsQuery.isLoading ||
+      lotsQueries.some((q) => q.isLoading) ||
+      anomalyQueries.some((q) => q.isLoading) ||
+      acknowledgementsQuery.isLoading,
+  };
+}
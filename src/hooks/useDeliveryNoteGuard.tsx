@@ -0,0 +1,105 @@
+import { useCallback, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import DeliveryNoteDuplicateDialog from "@/components/livraisons/DeliveryNoteDuplicateDialog";
+import {
+  findDeliveryNoteDuplicates,
+  gridDeliveryNoteEntries,
+  loadDeliveryNoteIndex,
+  type DeliveryNoteEntry,
+  type DeliveryNoteSource,
+  type GridNoteRow,
+} from "@/lib/deliveryNoteDuplicates";
+import { queryKeys } from "@/lib/queryKeys";
+
+interface PendingDuplicate {
+  candidates: DeliveryNoteEntry[];
+  duplicates: DeliveryNoteEntry[];
+  /** The farm index failed to load: only `local` entries were checked. */
+  indexError: boolean;
+}
+
+/**
+ * Promise-based duplicate BL / BR check for save paths.
+ * `confirm(...)` resolves true at once when the row's notes are new (grid rows + farm index), otherwise opens
+ * the warning and resolves with the user's choice; `confirmEntries(...)` does the same for prepared entries
+ * (Excel import). When the farm index cannot be loaded the warning opens as well: nothing is saved unchecked
+ * without the user's say. Render `dialog` once in the component.
+ */
+export function useDeliveryNoteDuplicateGuard() {
+  const queryClient = useQueryClient();
+  const [pending, setPending] = useState<PendingDuplicate | null>(null);
+  const settleRef = useRef<((proceed: boolean) => void) | null>(null);
+
+  const confirmEntries = useCallback(
+    async (params: {
+      farmId: number | null;
+      candidates: DeliveryNoteEntry[];
+      /** Entries not on the server yet (unsaved rows of the grid). */
+      local?: DeliveryNoteEntry[];
+    }): Promise<boolean> => {
+      const { farmId, candidates, local = [] } = params;
+      if (candidates.length === 0) return true;
+      let index: DeliveryNoteEntry[] = [];
+      let indexError = false;
+      if (farmId != null) {
+        try {
+          index = await queryClient.fetchQuery({
+            queryKey: queryKeys.deliveryNotes.index(farmId),
+            queryFn: () => loadDeliveryNoteIndex(farmId),
+          });
+        } catch {
+          indexError = true;
+        }
+      }
+      const duplicates = findDeliveryNoteDuplicates(candidates, [...local, ...index]);
+      if (duplicates.length === 0 && !indexError) return true;
+      settleRef.current?.(false);
+      return new Promise<boolean>((res) => {
+        settleRef.current = res;
+        setPending({ candidates, duplicates, indexError });
+      });
+    },
+    [queryClient]
+  );
+
+  const confirm = useCallback(
+    <R extends GridNoteRow>(params: {
+      source: DeliveryNoteSource;
+      farmId: number | null;
+      lot: string;
+      /** Row being saved, and every row of the grid (unsaved drafts included). */
+      row: R;
+      rows: R[];
+      notesOf: (r: R) => { bl?: string | null; br?: string | null };
+    }): Promise<boolean> => {
+      const { source, farmId, lot, row, rows, notesOf } = params;
+      const ctx = { farmId, lot };
+      return confirmEntries({
+        farmId,
+        candidates: gridDeliveryNoteEntries(source, [row], ctx, notesOf),
+        local: gridDeliveryNoteEntries(source, rows, ctx, notesOf),
+      });
+    },
+    [confirmEntries]
+  );
+
+  const settle = (proceed: boolean) => {
+    const fn = settleRef.current;
+    settleRef.current = null;
+    setPending(null);
+    fn?.(proceed);
+  };
+
+  const dialog = pending ? (
+    <DeliveryNoteDuplicateDialog
+      open
+      candidates={pending.candidates}
+      duplicates={pending.duplicates}
+      indexError={pending.indexError}
+      onConfirm={() => settle(true)}
+      onCancel={() => settle(false)}
+    />
+  ) : null;
+
+  return { confirm, confirmEntries, dialog };
+}
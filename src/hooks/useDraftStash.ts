@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react";
+import { useLocation } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { dropStashedDraft, stashDraft, takeStashedDraft } from "@/lib/draftStash";
+
+interface UseDraftStashOptions<T> {
+  /** Page id, combined with the URL (farm, lot, semaine…) to key the stash. */
+  scope: string;
+  /** Current page state to keep. */
+  draft: T;
+  /** Only a dirty draft is stashed. */
+  isDirty: (draft: NoInfer<T>) => boolean;
+  /** False while the page loads its data; the draft is restored after the first load. */
+  ready: boolean;
+  restore: (draft: NoInfer<T>) => void;
+}
+
+/**
+ * Keeps unsaved page state across a forced re-login: stashed when the session expires, dropped if the user
+ * re-logs in place (the page is still mounted), handed back to `restore` when they come back after a new login.
+ */
+export function useDraftStash<T>({ scope, draft, isDirty, ready, restore }: UseDraftStashOptions<T>) {
+  const { user, sessionExpired } = useAuth();
+  const { toast } = useToast();
+  const location = useLocation();
+  const params = new URLSearchParams(location.search);
+  params.delete("row");
+  const page = `${scope}:${location.pathname}?${params.toString()}`;
+
+  const latest = useRef({ draft, isDirty, restore });
+  latest.current = { draft, isDirty, restore };
+  const stashedRef = useRef(false);
+  const sawLoadingRef = useRef(false);
+  const restoredRef = useRef(false);
+  const username = user?.username ?? null;
+
+  useEffect(() => {
+    if (sessionExpired && username && latest.current.isDirty(latest.current.draft)) {
+      stashDraft(username, page, latest.current.draft);
+      stashedRef.current = true;
+    } else if (!sessionExpired && stashedRef.current) {
+      // Re-logged in place: the page still holds the draft
+      dropStashedDraft(page);
+      stashedRef.current = false;
+    }
+  }, [sessionExpired, username, page]);
+
+  useEffect(() => {
+    if (!ready) {
+      sawLoadingRef.current = true;
+      return;
+    }
+    if (!sawLoadingRef.current || restoredRef.current || !username || sessionExpired) return;
+    restoredRef.current = true;
+    const stashed = takeStashedDraft<T>(username, page);
+    if (stashed == null) return;
+    latest.current.restore(stashed);
+    toast({
+      title: "Saisies restaurées",
+      description: "Les saisies non enregistrées avant l'expiration de la session ont été remises. Pensez à les enregistrer.",
+    });
+  }, [ready, username, sessionExpired, page, toast]);
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+
+const HIGHLIGHT_CLASSES = ["ring-2", "ring-amber-400", "bg-amber-50"];
+
+/**
+ * Scrolls to and briefly highlights the table row `[data-server-id]` given by `?row=` (links from the
+ * duplicate BL / BR warning). Runs once per row id, when `ready` (rows loaded).
+ */
+export function useHighlightRowFromUrl(ready: boolean) {
+  const [searchParams] = useSearchParams();
+  const rowId = searchParams.get("row");
+  const doneRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!ready || !rowId || doneRef.current === rowId) return;
+    const el = document.querySelector<HTMLElement>(`[data-server-id="${CSS.escape(rowId)}"]`);
+    if (!el) return;
+    doneRef.current = rowId;
+    el.scrollIntoView({ block: "center", behavior: "smooth" });
+    el.classList.add(...HIGHLIGHT_CLASSES);
+    // Not cleared on re-render: the effect runs after every render until the row is found
+    window.setTimeout(() => el.classList.remove(...HIGHLIGHT_CLASSES), 4000);
+  });
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  OUTBOX_CHANGED_EVENT,
+  discardOutboxEntry,
+  flushOutbox,
+  listOutbox,
+  retryOutboxEntry,
+  type OutboxEntry,
+  type OutboxFlushSummary,
+} from "@/lib/offlineOutbox";
+
+/** Interval of the background replay while entries are waiting (ms). */
+const AUTO_SYNC_INTERVAL_MS = 60_000;
+
+/**
+ * Live view of the offline outbox, filtered by kind/farm/lot. Refreshes on every outbox change.
+ */
+export function useOutbox(filter?: { kind?: string; farmId?: number | null; lot?: string | null }) {
+  const kind = filter?.kind;
+  const farmId = filter?.farmId;
+  const lot = filter?.lot;
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setEntries(await listOutbox({ kind, farmId, lot }));
+  }, [kind, farmId, lot]);
+
+  useEffect(() => {
+    void refresh();
+    const onChange = () => void refresh();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, onChange);
+    return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, onChange);
+  }, [refresh]);
+
+  const syncNow = useCallback(async (): Promise<OutboxFlushSummary> => {
+    setSyncing(true);
+    try {
+      return await flushOutbox();
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  return {
+    entries,
+    pendingCount: entries.filter((e) => e.status === "pending" || e.status === "syncing").length,
+    conflictCount: entries.filter((e) => e.status === "conflict").length,
+    failedCount: entries.filter((e) => e.status === "failed").length,
+    syncing,
+    syncNow,
+    discard: discardOutboxEntry,
+    retry: retryOutboxEntry,
+  };
+}
+
+/**
+ * Background replay of the outbox: on startup, when the browser goes back online, and periodically.
+ * Mounted once in AppLayout.
+ */
+export function useOutboxAutoSync(): void {
+  useEffect(() => {
+    const run = () => {
+      if (typeof navigator !== "undefined" && navigator.onLine === false) return;
+      void flushOutbox();
+    };
+    run();
+    window.addEventListener("online", run);
+    const timer = window.setInterval(run, AUTO_SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", run);
+      window.clearInterval(timer);
+    };
+  }, []);
+}
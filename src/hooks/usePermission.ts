@@ -0,0 +1,21 @@
+import { useAuth } from "@/contexts/AuthContext";
+import type { ClosedLotSessionContext } from "@/lib/lotAccess";
+import type { PermissionAction, PermissionResource } from "@/lib/permissions";
+
+/**
+ * True when the session's roles grant `action` on `resource` (permission matrix of /api/roles).
+ * Pass the farm of the data to honour grants limited to the user's assigned farms.
+ */
+export function usePermission(
+  resource: PermissionResource,
+  action: PermissionAction = "read",
+  farmId?: number | null
+): boolean {
+  const { can } = useAuth();
+  return can(resource, action, farmId);
+}
+
+/** Closed-lot read access of the session, for canReadClosedLot / isClosedLotBlockedForSession. */
+export function useClosedLotAccess(): ClosedLotSessionContext {
+  return useAuth().closedLotAccess;
+}
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Form inputs seeded from a query. `seed` runs whenever the query data changes (e.g. a refetch after a write made
+ * on another table of the page) unless the user edited the inputs since: a background refetch never overwrites
+ * what is being typed. The dirty flag belongs to `scope` (farm / lot / semaine / sex / bâtiment), so moving to
+ * another week reseeds. Call `markDirty` on edit and `markClean` once the save has been refetched.
+ */
+export function useQuerySeededForm<T>(data: T, seed: (data: T) => void, scope: readonly unknown[]) {
+  const scopeKey = JSON.stringify(scope);
+  const [dirtyScope, setDirtyScope] = useState<string | null>(null);
+  const dirty = dirtyScope === scopeKey;
+  const seedRef = useRef(seed);
+  seedRef.current = seed;
+
+  useEffect(() => {
+    if (!dirty) seedRef.current(data);
+  }, [data, dirty]);
+
+  const markDirty = useCallback(() => setDirtyScope(scopeKey), [scopeKey]);
+  const markClean = useCallback(() => setDirtyScope(null), []);
+
+  return { dirty, markDirty, markClean };
+}
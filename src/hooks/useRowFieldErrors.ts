@@ -0,0 +1,61 @@
+import { useCallback, useState } from "react";
+import { apiFieldErrorsOf, type ApiFieldErrors } from "@/lib/api";
+
+/** Cell style for a field rejected by the backend (ApiValidationError.fieldErrors). */
+export const FIELD_ERROR_CELL_CLASS = "bg-destructive/10 ring-2 ring-inset ring-destructive";
+
+/**
+ * Per-row field errors for editable grids: `capture(rowId, e)` after a failed save keeps the
+ * backend's per-field messages so the offending cells are highlighted (`cellClass` + `fieldError` as tooltip).
+ * Field names are request DTO properties (e.g. "prix_kg", "qte").
+ */
+export function useRowFieldErrors() {
+  const [errors, setErrors] = useState<Record<string, ApiFieldErrors>>({});
+
+  /** Store the field errors of `e` for the row. Returns false when `e` carries none (caller shows a toast). */
+  const capture = useCallback((rowId: string, e: unknown): boolean => {
+    const fieldErrors = apiFieldErrorsOf(e);
+    if (Object.keys(fieldErrors).length === 0) return false;
+    setErrors((prev) => ({ ...prev, [rowId]: fieldErrors }));
+    return true;
+  }, []);
+
+  const clearRow = useCallback((rowId: string) => {
+    setErrors((prev) => {
+      if (!(rowId in prev)) return prev;
+      const next = { ...prev };
+      delete next[rowId];
+      return next;
+    });
+  }, []);
+
+  /** Drop the error of one field once the user edits it. */
+  const clearField = useCallback((rowId: string, field: string) => {
+    setErrors((prev) => {
+      const row = prev[rowId];
+      if (!row || !(field in row)) return prev;
+      const rest = { ...row };
+      delete rest[field];
+      return { ...prev, [rowId]: rest };
+    });
+  }, []);
+
+  /** First message among the given fields (a cell may map to several DTO fields), or null. */
+  const fieldError = useCallback(
+    (rowId: string, ...fields: string[]): string | null => {
+      const row = errors[rowId];
+      if (!row) return null;
+      for (const f of fields) if (row[f]) return row[f];
+      return null;
+    },
+    [errors]
+  );
+
+  /** Error class for the cell when one of the fields was rejected ("" otherwise); pair with `fieldError` as title. */
+  const cellClass = useCallback(
+    (rowId: string, ...fields: string[]): string => (fieldError(rowId, ...fields) ? FIELD_ERROR_CELL_CLASS : ""),
+    [fieldError]
+  );
+
+  return { capture, clearRow, clearField, fieldError, cellClass };
+}
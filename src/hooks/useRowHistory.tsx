@@ -0,0 +1,13 @@
+import { useCallback, useState } from "react";
+import RowHistorySheet, { type RowHistoryTarget } from "@/components/audit/RowHistorySheet";
+
+/**
+ * Historique panel of the grids: `open({ entityType, entityId, title, meta })` shows every version of a saved row.
+ * Render `sheet` once in the component.
+ */
+export function useRowHistory() {
+  const [target, setTarget] = useState<RowHistoryTarget | null>(null);
+  const open = useCallback((next: RowHistoryTarget) => setTarget(next), []);
+  const sheet = <RowHistorySheet target={target} onClose={() => setTarget(null)} />;
+  return { open, sheet };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  API_UNAUTHORIZED_EVENT,
+  getStoredRefreshToken,
+  getStoredToken,
+  refreshAccessToken,
+  tokenExpiresAt,
+} from "@/lib/api";
+
+/** The token is renewed this long before it expires (when a refresh token exists). */
+const SILENT_REFRESH_BEFORE_MS = 60_000;
+
+/**
+ * Time left on the access token (ms, ticking every second; null when unknown) and whether it can be renewed
+ * silently. Renews it a minute before expiry when possible; otherwise opens the re-login dialog at expiry,
+ * before a save would fail.
+ */
+export function useSessionExpiry(): { remainingMs: number | null; canRefresh: boolean } {
+  const { user, sessionExpired } = useAuth();
+  const [now, setNow] = useState(() => Date.now());
+  const refreshingRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [user]);
+
+  const token = user ? getStoredToken() : null;
+  const expiresAt = tokenExpiresAt(token);
+  const remainingMs = expiresAt != null ? expiresAt - now : null;
+  const canRefresh = getStoredRefreshToken() != null;
+
+  useEffect(() => {
+    if (remainingMs == null || sessionExpired) return;
+    if (canRefresh && remainingMs <= SILENT_REFRESH_BEFORE_MS && refreshingRef.current !== token) {
+      // Once per token: a refused refresh leaves the banner and the re-login dialog at expiry
+      refreshingRef.current = token;
+      void refreshAccessToken();
+    } else if (remainingMs <= 0 && (!canRefresh || refreshingRef.current === token)) {
+      window.dispatchEvent(new CustomEvent(API_UNAUTHORIZED_EVENT));
+    }
+  }, [remainingMs, canRefresh, token, sessionExpired]);
+
+  return { remainingMs, canRefresh };
+}
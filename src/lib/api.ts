@@ -3,12 +3,35 @@
  * Set VITE_API_URL in .env (e.g. VITE_API_URL=http://localhost:7070)
  */
 import { canonicalSemaine } from "@/lib/semaineCanonical";
+import {
+  API_UNAUTHORIZED_EVENT,
+  ApiNetworkError,
+  ApiTimeoutError,
+  ApiUnauthorizedError,
+  noneIfNotFound,
+  toApiError,
+} from "@/lib/apiErrors";
+
+export {
+  API_UNAUTHORIZED_EVENT,
+  ApiError,
+  ApiUnauthorizedError,
+  ApiForbiddenError,
+  ApiNotFoundError,
+  ApiConflictError,
+  ApiValidationError,
+  ApiNetworkError,
+  ApiTimeoutError,
+  apiFieldErrorsOf,
+  type ApiFieldErrors,
+} from "@/lib/apiErrors";
 
 const API_BASE =
   (typeof import.meta !== "undefined" && import.meta.env?.VITE_API_URL) ||
   "http://localhost:7070";
 
 const TOKEN_STORAGE_KEY = "elevagepro_token";
+const REFRESH_TOKEN_STORAGE_KEY = "elevagepro_refresh_token";
 const SELECTED_FARM_KEY = "elevagepro_selected_farm";
 
 export function getApiBase(): string {
@@ -25,15 +48,51 @@ export function getStoredToken(): string | null {
   }
 }
 
+/** Store the access token; clearing it (logout) also drops the refresh token. */
 export function setStoredToken(token: string | null): void {
   try {
     if (token) sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
-    else sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    else {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      sessionStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+    }
+  } catch {
+    /* ignore */
+  }
+}
+
+export function getStoredRefreshToken(): string | null {
+  try {
+    return sessionStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setStoredRefreshToken(token: string | null): void {
+  try {
+    if (token) sessionStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, token);
+    else sessionStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
   } catch {
     /* ignore */
   }
 }
 
+/** Expiry (ms since epoch) from the JWT `exp` claim, or null when the token cannot be decoded. */
+export function tokenExpiresAt(token: string | null): number | null {
+  const payload = token?.split(".")[1];
+  if (!payload) return null;
+  try {
+    const json = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof json.exp === "number" ? json.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Event dispatched on window after the access token was renewed with the refresh token. */
+export const API_TOKEN_REFRESHED_EVENT = "apiTokenRefreshed";
+
 /**
  * Get stored selected farm from session storage.
  */
@@ -65,46 +124,135 @@ function authHeader(credentials: AuthCredentials | null, token: string | null):
   return { Authorization: `Basic ${encoded}` };
 }
 
+/** Default request timeout (ms); beyond it the request is aborted with ApiTimeoutError. */
+const API_TIMEOUT_MS = 60_000;
+
 /**
- * Parse API error response. Extracts user-facing message from Spring ProblemDetail
- * (RFC 7807) when available; otherwise returns a generic message.
+ * fetch() with timeout: network failures become ApiNetworkError, timeouts ApiTimeoutError.
+ * A caller-provided AbortSignal still aborts the request (its AbortError is rethrown as is).
  */
-function parseApiErrorMessage(text: string, status: number): string {
-  if (status === 401) return "Session expirée. Veuillez vous reconnecter.";
+async function sendRequest(url: string, init: RequestInit, timeoutMs = API_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const callerSignal = init.signal;
+  if (callerSignal) {
+    if (callerSignal.aborted) controller.abort();
+    else callerSignal.addEventListener("abort", () => controller.abort(), { once: true });
+  }
   try {
-    if (text?.trim()) {
-      const body = JSON.parse(text) as { detail?: string; userMessage?: string; message?: string };
-      const msg = body.detail ?? body.userMessage ?? body.message;
-      if (typeof msg === "string" && msg.trim()) return msg.trim();
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (e) {
+    if (timedOut) throw new ApiTimeoutError();
+    if (callerSignal?.aborted) throw e;
+    throw new ApiNetworkError();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new access token; concurrent 401s share one request.
+ * Resolves to the new token, or null when there is no refresh token or the backend refuses it.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  const refreshToken = getStoredRefreshToken();
+  if (!refreshToken) return Promise.resolve(null);
+  if (refreshInFlight) return refreshInFlight;
+  refreshInFlight = (async () => {
+    try {
+      const res = await sendRequest(`${getApiBase()}/api/auth/refresh`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        setStoredRefreshToken(null);
+        return null;
+      }
+      const body = (await res.json()) as RefreshTokenResponse;
+      setStoredToken(body.token);
+      if (body.refreshToken) setStoredRefreshToken(body.refreshToken);
+      if (typeof window !== "undefined") window.dispatchEvent(new CustomEvent(API_TOKEN_REFRESHED_EVENT));
+      return body.token;
+    } catch {
+      return null;
+    } finally {
+      refreshInFlight = null;
     }
-  } catch {
-    /* ignore */
+  })();
+  return refreshInFlight;
+}
+
+/**
+ * JSON content type, then the auth header, then the caller's headers (any HeadersInit form).
+ * A FormData body gets no content type: the browser sets the multipart boundary itself.
+ */
+function requestHeaders(auth: HeadersInit, extra: HeadersInit | undefined, body?: BodyInit | null): Headers {
+  const headers = new Headers(body instanceof FormData ? {} : { "Content-Type": "application/json" });
+  for (const init of [auth, extra]) new Headers(init).forEach((value, key) => headers.set(key, value));
+  return headers;
+}
+
+/**
+ * sendRequest with the bearer token; a 401 is retried once after a silent token refresh
+ * (the caller then sees the retried response, or the original 401 when no refresh was possible).
+ */
+async function sendAuthenticated(
+  url: string,
+  init: RequestInit & { headers: Headers },
+  token: string | null,
+  timeoutMs?: number
+): Promise<Response> {
+  const res = await sendRequest(url, init, timeoutMs);
+  if (res.status !== 401 || !token || !init.headers.get("Authorization")?.startsWith("Bearer ")) return res;
+  const refreshed = await refreshAccessToken();
+  if (!refreshed) return res;
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${refreshed}`);
+  return sendRequest(url, { ...init, headers }, timeoutMs);
+}
+
+/** Read the body of a failed response and throw the matching ApiError (401 with a token → re-login event). */
+async function throwApiError(res: Response, sentToken: boolean): Promise<never> {
+  const text = await res.text();
+  const error = toApiError(text, res.status);
+  if (error instanceof ApiUnauthorizedError && sentToken && typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(API_UNAUTHORIZED_EVENT));
   }
-  return "Une erreur est survenue.";
+  throw error;
 }
 
+/**
+ * JSON request to the backend. Throws a typed ApiError (see apiErrors.ts) on failure;
+ * `timeoutMs` overrides the default timeout for slow endpoints. An expired token is refreshed once, silently.
+ */
 export async function apiFetch<T>(
   path: string,
-  options: RequestInit & { credentials?: AuthCredentials; token?: string | null; skipAuth?: boolean } = {}
+  options: RequestInit & {
+    credentials?: AuthCredentials;
+    token?: string | null;
+    skipAuth?: boolean;
+    timeoutMs?: number;
+  } = {}
 ): Promise<T> {
-  const { credentials, token: optToken, skipAuth, ...rest } = options as RequestInit & {
+  const { credentials, token: optToken, skipAuth, timeoutMs, ...rest } = options as RequestInit & {
     credentials?: AuthCredentials;
     token?: string | null;
     skipAuth?: boolean;
+    timeoutMs?: number;
   };
   const token = skipAuth ? null : (optToken ?? getStoredToken());
   const url = path.startsWith("http") ? path : `${getApiBase()}${path}`;
-  const headers: HeadersInit = {
-    "Content-Type": "application/json",
-    ...authHeader(credentials ?? null, token),
-    ...(rest.headers ?? {}),
-  };
-  const res = await fetch(url, { ...rest, headers, credentials: "include" });
-  if (!res.ok) {
-    const text = await res.text();
-    const msg = parseApiErrorMessage(text, res.status);
-    throw new Error(msg);
-  }
+  const headers = requestHeaders(authHeader(credentials ?? null, token), rest.headers, rest.body);
+  const res = await sendAuthenticated(url, { ...rest, headers, credentials: "include" }, token, timeoutMs);
+  if (!res.ok) await throwApiError(res, token != null);
   if (res.status === 204) return undefined as T;
   const text = await res.text();
   if (!text || text.trim() === "") return undefined as T;
@@ -117,21 +265,14 @@ export async function apiFetch<T>(
  */
 async function apiFetchOrNull<T>(
   path: string,
-  options: RequestInit & { token?: string | null; skipAuth?: boolean } = {}
+  options: RequestInit & { token?: string | null; skipAuth?: boolean; timeoutMs?: number } = {}
 ): Promise<T | null> {
-  const { token: optToken, skipAuth, ...rest } = options;
+  const { token: optToken, skipAuth, timeoutMs, ...rest } = options;
   const token = skipAuth ? null : (optToken ?? getStoredToken());
   const url = path.startsWith("http") ? path : `${getApiBase()}${path}`;
-  const headers: HeadersInit = {
-    "Content-Type": "application/json",
-    ...authHeader(null, token),
-    ...(rest.headers ?? {}),
-  };
-  const res = await fetch(url, { ...rest, headers, credentials: "include" });
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(parseApiErrorMessage(text, res.status));
-  }
+  const headers = requestHeaders(authHeader(null, token), rest.headers, rest.body);
+  const res = await sendAuthenticated(url, { ...rest, headers, credentials: "include" }, token, timeoutMs);
+  if (!res.ok) await throwApiError(res, token != null);
   if (res.status === 204) return null;
   const text = await res.text();
   if (!text || !text.trim()) return null;
@@ -177,6 +318,8 @@ export interface LoginRequest {
  */
 export interface AuthResponse {
   token: string;
+  /** Long-lived token for /api/auth/refresh (absent when the backend does not issue one). */
+  refreshToken?: string | null;
   user: UserResponse;
   /** The role selected for this session */
   selectedRole: string;
@@ -188,6 +331,13 @@ export interface AuthResponse {
   allFarmsMode: boolean;
 }
 
+/** Response of /api/auth/refresh. */
+export interface RefreshTokenResponse {
+  token: string;
+  /** Rotated refresh token, when the backend rotates them. */
+  refreshToken?: string | null;
+}
+
 /**
  * Response from /api/auth/me endpoint
  */
@@ -225,6 +375,17 @@ export const api = {
      */
     me: (token?: string | null) =>
       apiFetch<MeResponse>("/api/auth/me", { token: token ?? getStoredToken() }),
+
+    /**
+     * Exchange the current token for one with another role and/or farm (same user, no password).
+     * Same farm rules as login; RESPONSABLE_FERME may only pick one of its assigned farms.
+     */
+    switchContext: (role: string, farmId?: number | null, token?: string | null) =>
+      apiFetch<AuthResponse>("/api/auth/switch", {
+        method: "POST",
+        body: JSON.stringify({ role, farmId: farmId ?? null }),
+        token: token ?? getStoredToken(),
+      }),
   },
   users: {
     list: (token?: string | null) =>
@@ -246,34 +407,39 @@ export const api = {
     delete: (id: number, token?: string | null) =>
       apiFetch<void>(`/api/users/${id}`, { method: "DELETE", token: token ?? getStoredToken() }),
     /** Upload profile image (ADMINISTRATEUR or RESPONSABLE_TECHNIQUE only). */
-    uploadProfileImage: async (userKey: string | number, file: File, token?: string | null): Promise<UserResponse> => {
-      const t = token ?? getStoredToken();
-      const url = `${getApiBase()}/api/users/${encodeURIComponent(String(userKey))}/profile-image`;
-      const headers: HeadersInit = t ? { Authorization: `Bearer ${t}` } : {};
+    uploadProfileImage: (userKey: string | number, file: File, token?: string | null) => {
       const formData = new FormData();
       formData.append("file", file);
-      const res = await fetch(url, { method: "POST", headers, body: formData, credentials: "include" });
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(parseApiErrorMessage(text, res.status));
-      }
-      return res.json() as Promise<UserResponse>;
+      return apiFetch<UserResponse>(`/api/users/${encodeURIComponent(String(userKey))}/profile-image`, {
+        method: "POST",
+        body: formData,
+        token: token ?? getStoredToken(),
+      });
     },
     /** Delete profile image (ADMINISTRATEUR or RESPONSABLE_TECHNIQUE only). */
-    deleteProfileImage: async (userKey: string | number, token?: string | null): Promise<void> => {
-      const t = token ?? getStoredToken();
-      const url = `${getApiBase()}/api/users/${encodeURIComponent(String(userKey))}/profile-image`;
-      const headers: HeadersInit = t ? { Authorization: `Bearer ${t}` } : {};
-      const res = await fetch(url, { method: "DELETE", headers, credentials: "include" });
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(parseApiErrorMessage(text, res.status));
-      }
-    },
+    deleteProfileImage: (userKey: string | number, token?: string | null) =>
+      apiFetch<void>(`/api/users/${encodeURIComponent(String(userKey))}/profile-image`, {
+        method: "DELETE",
+        token: token ?? getStoredToken(),
+      }),
   },
   roles: {
     list: (token?: string | null) =>
       apiFetch<RoleResponse[]>("/api/roles", { token: token ?? getStoredToken() }),
+    /** Create a role (ADMINISTRATEUR only); it starts without permissions. */
+    create: (body: RoleRequest, token?: string | null) =>
+      apiFetch<RoleResponse>("/api/roles", {
+        method: "POST",
+        body: JSON.stringify(body),
+        token: token ?? getStoredToken(),
+      }),
+    /** Replace the permission grants of a role (ADMINISTRATEUR only). */
+    updatePermissions: (roleId: number, permissions: RolePermission[], token?: string | null) =>
+      apiFetch<RoleResponse>(`/api/roles/${roleId}/permissions`, {
+        method: "PUT",
+        body: JSON.stringify(permissions),
+        token: token ?? getStoredToken(),
+      }),
   },
   farms: {
     /** List farms (requires authentication) */
@@ -461,6 +627,22 @@ export const api = {
           token: token ?? getStoredToken(),
         }
       ),
+    /** Every price version of the farm's grid (all fournisseurs / designations, oldest first). */
+    priceHistory: (farmId?: number | null, token?: string | null) =>
+      apiFetch<AlimentPriceVersionResponse[]>(
+        farmId != null ? `/api/fournisseurs/prices/history?farmId=${farmId}` : "/api/fournisseurs/prices/history",
+        { token: token ?? getStoredToken() }
+      ),
+    /** Adds one dated version to a cell (e.g. a past tariff entered afterwards); the grid shows the latest one. */
+    addPriceVersion: (body: AlimentPriceVersionRequest, farmId?: number | null, token?: string | null) =>
+      apiFetch<AlimentPriceVersionResponse>(
+        farmId != null ? `/api/fournisseurs/prices/history?farmId=${farmId}` : "/api/fournisseurs/prices/history",
+        {
+          method: "POST",
+          body: JSON.stringify(body),
+          token: token ?? getStoredToken(),
+        }
+      ),
   },
   /** Livraisons Aliment — optional farmId, lot, sem for filtering */
   livraisonsAliment: {
@@ -861,10 +1043,17 @@ export const api = {
           token: token ?? getStoredToken(),
         }
       ),
-    replace: (params: { lot: string; farmId?: number | null }, body: VaccinationPlanningRequest[], token?: string | null) => {
+    /** Replace the whole planning of the lot; with `protocolId` the lot is recorded as following that protocol version. */
+    replace: (
+      params: { lot: string; farmId?: number | null; protocolId?: number | null; protocolVersion?: number | null },
+      body: VaccinationPlanningRequest[],
+      token?: string | null
+    ) => {
       const search = new URLSearchParams();
       search.set("lot", params.lot);
       if (params.farmId != null) search.set("farmId", String(params.farmId));
+      if (params.protocolId != null) search.set("protocolId", String(params.protocolId));
+      if (params.protocolVersion != null) search.set("protocolVersion", String(params.protocolVersion));
       return apiFetch<VaccinationPlanningResponse[]>(`/api/vaccination-planning/replace?${search.toString()}`, {
         method: "POST",
         body: JSON.stringify(body),
@@ -880,6 +1069,45 @@ export const api = {
     delete: (id: number, token?: string | null) =>
       apiFetch<void>(`/api/vaccination-planning/${id}`, { method: "DELETE", token: token ?? getStoredToken() }),
   },
+  /** What was actually administered to a lot (recorded when confirming a vaccination alert), oldest first. */
+  vaccinationAdministrations: {
+    list: (params: { farmId?: number | null; lot: string }, token?: string | null) => {
+      const search = new URLSearchParams();
+      search.set("lot", params.lot);
+      if (params.farmId != null) search.set("farmId", String(params.farmId));
+      return apiFetch<VaccinationAdministrationResponse[]>(`/api/vaccination-administrations?${search.toString()}`, {
+        token: token ?? getStoredToken(),
+      });
+    },
+  },
+  /**
+   * Vaccination protocol templates per souche / type d'élevage (page Protocoles de vaccination). All users can read;
+   * planningVaccination:update saves and deletes. A protocol is applied to a lot through vaccinationPlanning.replace.
+   */
+  vaccinationProtocols: {
+    list: (token?: string | null) =>
+      apiFetch<VaccinationProtocolResponse[]>("/api/vaccination-protocols", { token: token ?? getStoredToken() }),
+    create: (body: VaccinationProtocolRequest, token?: string | null) =>
+      apiFetch<VaccinationProtocolResponse>("/api/vaccination-protocols", {
+        method: "POST",
+        body: JSON.stringify(body),
+        token: token ?? getStoredToken(),
+      }),
+    /** 409 (ApiConflictError) when `version` is not the current one. */
+    update: (id: number, body: VaccinationProtocolRequest, token?: string | null) =>
+      apiFetch<VaccinationProtocolResponse>(`/api/vaccination-protocols/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(body),
+        token: token ?? getStoredToken(),
+      }),
+    delete: (id: number, token?: string | null) =>
+      apiFetch<void>(`/api/vaccination-protocols/${id}`, { method: "DELETE", token: token ?? getStoredToken() }),
+    /** Lots whose planning was applied from the protocol (any version), open and closed. */
+    lots: (id: number, token?: string | null) =>
+      apiFetch<VaccinationProtocolLotResponse[]>(`/api/vaccination-protocols/${id}/lots`, {
+        token: token ?? getStoredToken(),
+      }),
+  },
   /** Vaccination planning notes — list by farm+lot, replace all (RT/Admin only) */
   vaccinationPlanningNotes: {
     list: (params: { farmId?: number | null; lot: string }, token?: string | null) => {
@@ -935,10 +1163,22 @@ export const api = {
         method: "POST",
         token: token ?? getStoredToken(),
       }),
-    confirm: (params: { farmId: number; lot: string; planningId: number }, token?: string | null) =>
-      apiFetch<void>(
+    /**
+     * Mark the alert as handled. With `body` the server records what was administered (vaccinationAdministrations)
+     * and draws the quantity from the linked livraison produits vétérinaires.
+     */
+    confirm: (
+      params: { farmId: number; lot: string; planningId: number },
+      body?: VaccinationAdministrationRequest | null,
+      token?: string | null
+    ) =>
+      apiFetch<VaccinationAdministrationResponse | null>(
         `/api/vaccination-alerts/confirm?farmId=${params.farmId}&lot=${encodeURIComponent(params.lot)}&planningId=${params.planningId}`,
-        { method: "POST", token: token ?? getStoredToken() }
+        {
+          method: "POST",
+          ...(body ? { body: JSON.stringify(body) } : {}),
+          token: token ?? getStoredToken(),
+        }
       ),
     reschedule: (
       params: { farmId: number; lot: string; planningId: number; rescheduleDate: string; rescheduleTime?: string | null },
@@ -952,6 +1192,25 @@ export const api = {
       });
     },
   },
+  /** Daily anomalies acknowledged or snoozed (detection itself is client-side, dailyAnomalies.ts). */
+  anomalyAcknowledgements: {
+    list: (params?: { farmId?: number | null }, token?: string | null) => {
+      const search = new URLSearchParams();
+      if (params?.farmId != null) search.set("farmId", String(params.farmId));
+      const qs = search.toString();
+      return apiFetch<AnomalyAcknowledgementResponse[]>(
+        `/api/anomaly-acknowledgements${qs ? `?${qs}` : ""}`,
+        { token: token ?? getStoredToken() }
+      );
+    },
+    /** Create or replace the acknowledgement of `anomalyId` (snoozedUntil null = acknowledged for good). */
+    save: (body: AnomalyAcknowledgementRequest, token?: string | null) =>
+      apiFetch<AnomalyAcknowledgementResponse>("/api/anomaly-acknowledgements", {
+        method: "PUT",
+        body: JSON.stringify(body),
+        token: token ?? getStoredToken(),
+      }),
+  },
   /** Liste des employés — global list, not scoped by farm */
   employers: {
     list: (token?: string | null) =>
@@ -988,7 +1247,7 @@ export const api = {
       );
     },
     /** Get setup for (farm, lot, semaine, sex, batiment). Returns null when none exists. */
-    getBySex: async (
+    getBySex: (
       params: { farmId: number; lot: string; semaine: string; sex: string; batiment: string },
       token?: string | null
     ): Promise<SuiviTechniqueSetupResponse | null> => {
@@ -998,20 +1257,11 @@ export const api = {
       search.set("semaine", params.semaine);
       search.set("sex", params.sex);
       search.set("batiment", params.batiment);
-      const t = token ?? getStoredToken();
-      const url = `${getApiBase()}/api/suivi-technique-setup/by-sex?${search.toString()}`;
-      const res = await fetch(url, {
-        headers: { "Content-Type": "application/json", ...authHeader(null, t) },
-        credentials: "include",
-      });
-      if (res.status === 404) return null;
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(res.status === 401 ? "Unauthorized" : text || `HTTP ${res.status}`);
-      }
-      const text = await res.text();
-      if (!text || text.trim() === "") return null;
-      return JSON.parse(text) as SuiviTechniqueSetupResponse;
+      return noneIfNotFound(
+        apiFetchOrNull<SuiviTechniqueSetupResponse>(`/api/suivi-technique-setup/by-sex?${search.toString()}`, {
+          token: token ?? getStoredToken(),
+        })
+      );
     },
     save: (body: SuiviTechniqueSetupRequest, farmId: number, token?: string | null) =>
       apiFetch<SuiviTechniqueSetupResponse>(
@@ -1245,6 +1495,55 @@ export const api = {
         }
       ),
   },
+  /**
+   * Norm profiles per souche and sex (breeder curves shared by all farms). All users can read;
+   * only ADMINISTRATEUR can save or delete. Per-farm performanceNorme values take precedence.
+   */
+  performanceNormeProfiles: {
+    list: (token?: string | null) =>
+      apiFetch<PerformanceNormeProfileResponse[]>("/api/performance-norme-profiles", { token: token ?? getStoredToken() }),
+    /** Create or replace the profile of (souche, sex) with the given weeks. */
+    save: (body: PerformanceNormeProfileRequest, token?: string | null) =>
+      apiFetch<PerformanceNormeProfileResponse>("/api/performance-norme-profiles", {
+        method: "PUT",
+        body: JSON.stringify(body),
+        token: token ?? getStoredToken(),
+      }),
+    delete: (id: number, token?: string | null) =>
+      apiFetch<void>(`/api/performance-norme-profiles/${id}`, { method: "DELETE", token: token ?? getStoredToken() }),
+  },
+  /**
+   * Performance vs norme tolerance bands, one set per farm (Dashboard heat map and bâtiment export).
+   * 404 when the farm never saved any: the default bands apply. Only roles updating normes de performance can save.
+   */
+  performanceTolerances: {
+    get: (farmId: number, token?: string | null) =>
+      apiFetch<PerformanceTolerancesResponse>(`/api/performance-tolerances?farmId=${farmId}`, {
+        token: token ?? getStoredToken(),
+      }),
+    save: (body: PerformanceTolerancesRequest, farmId: number, token?: string | null) =>
+      apiFetch<PerformanceTolerancesResponse>(`/api/performance-tolerances?farmId=${farmId}`, {
+        method: "PUT",
+        body: JSON.stringify(body),
+        token: token ?? getStoredToken(),
+      }),
+  },
+  /**
+   * Temperature target curve (comfort band by age), one per farm (graphiques bâtiment and the bâtiment PDF).
+   * 404 when the farm never saved one: the default curve applies. Only roles updating normes de performance can save.
+   */
+  temperatureTargets: {
+    get: (farmId: number, token?: string | null) =>
+      apiFetch<TemperatureTargetsResponse>(`/api/temperature-targets?farmId=${farmId}`, {
+        token: token ?? getStoredToken(),
+      }),
+    save: (body: TemperatureTargetsRequest, farmId: number, token?: string | null) =>
+      apiFetch<TemperatureTargetsResponse>(`/api/temperature-targets?farmId=${farmId}`, {
+        method: "PUT",
+        body: JSON.stringify(body),
+        token: token ?? getStoredToken(),
+      }),
+  },
   /** Suivi de Stock — effectif restant, poids vif produit (kg), stock aliment (user-entered when batiment set) */
   suiviStock: {
     get: (params: { farmId?: number | null; lot: string; semaine: string; sex: string; batiment?: string | null }, token?: string | null) => {
@@ -1312,6 +1611,53 @@ export const api = {
         }
       ),
   },
+  /** À vérifier inbox: unverified daily / livraison / sortie / dépense rows and the checker's decisions. */
+  verification: {
+    /** Rows waiting for verification (and rejected rows not corrected yet), oldest first. */
+    queue: (params: VerificationQueueParams = {}, token?: string | null) => {
+      const search = new URLSearchParams();
+      if (params.farmId != null) search.set("farmId", String(params.farmId));
+      if (params.lot?.trim()) search.set("lot", params.lot.trim());
+      if (params.entityType) search.set("entityType", params.entityType);
+      if (params.status) search.set("status", params.status);
+      const qs = search.toString();
+      return apiFetch<VerificationItemResponse[]>(`/api/verification/queue${qs ? `?${qs}` : ""}`, {
+        token: token ?? getStoredToken(),
+      });
+    },
+    /**
+     * Approve or reject several rows at once (comment required to reject). A rejected row can be edited once more
+     * by its author, then comes back to the queue. The backend refuses rows entered by the checker.
+     */
+    decide: (body: VerificationDecisionRequest, token?: string | null) =>
+      apiFetch<VerificationDecisionResponse>("/api/verification/decisions", {
+        method: "POST",
+        body: JSON.stringify(body),
+        token: token ?? getStoredToken(),
+      }),
+  },
+  /** Versions of the data rows (who changed what): per-row history and the admin-wide journal. */
+  audit: {
+    /** Every version of one row, oldest first. */
+    rowHistory: (entityType: AuditEntityType, entityId: number, token?: string | null) =>
+      apiFetch<AuditEntryResponse[]>(
+        `/api/audit/${encodeURIComponent(entityType)}/${entityId}`,
+        { token: token ?? getStoredToken() }
+      ),
+    /** Journal of all writes, newest first (ADMINISTRATEUR). Every filter is optional. */
+    list: (params: AuditListParams = {}, token?: string | null) => {
+      const search = new URLSearchParams();
+      if (params.farmId != null) search.set("farmId", String(params.farmId));
+      if (params.lot?.trim()) search.set("lot", params.lot.trim());
+      if (params.username?.trim()) search.set("username", params.username.trim());
+      if (params.entityType) search.set("entityType", params.entityType);
+      if (params.from) search.set("from", params.from);
+      if (params.to) search.set("to", params.to);
+      if (params.limit != null) search.set("limit", String(params.limit));
+      const qs = search.toString();
+      return apiFetch<AuditEntryResponse[]>(`/api/audit${qs ? `?${qs}` : ""}`, { token: token ?? getStoredToken() });
+    },
+  },
 };
 
 // DTOs aligned with backend
@@ -1319,6 +1665,20 @@ export interface RoleResponse {
   id: number;
   name: string;
   description?: string;
+  /** Permission grants; absent when the backend predates the permission matrix (defaults apply, see permissions.ts). */
+  permissions?: RolePermission[] | null;
+}
+
+/** One grant of the permission matrix: resource × action, optionally limited to the user's assigned farms. */
+export interface RolePermission {
+  resource: string;
+  action: string;
+  farmScope?: "ALL" | "ASSIGNED" | null;
+}
+
+export interface RoleRequest {
+  name: string;
+  description?: string;
 }
 
 export interface FarmResponse {
@@ -1426,7 +1786,7 @@ export interface DailyReportRequest {
   verified: boolean;
 }
 
-export interface DailyReportResponse {
+export interface DailyReportResponse extends VerificationFields {
   id: number;
   farmId: number;
   reportDate: string;
@@ -1460,9 +1820,11 @@ export interface SortieRequest {
   qte_brute_kg?: number | null;
   prix_kg?: number | null;
   montant_ttc?: number | null;
+  /** Version read with the row (optimistic locking); the backend answers 409 when it no longer matches. */
+  version?: number | null;
 }
 
-export interface SortieResponse {
+export interface SortieResponse extends VerificationFields {
   id: number;
   farmId: number;
   date: string;
@@ -1522,6 +1884,27 @@ export interface FournisseurGridRequest {
   fournisseurs: FournisseurItemRequest[];
   designations: string[];
   prices: AlimentPriceCellRequest[];
+  /** YYYY-MM-DD from which changed prices apply; the previous price stays in the history until then. Default: today. */
+  validFrom?: string | null;
+}
+
+/** One dated price of a (fournisseur, designation) cell. */
+export interface AlimentPriceVersionResponse {
+  id: number;
+  fournisseurId: number;
+  designation: string;
+  price_kg: number | null;
+  /** YYYY-MM-DD */
+  validFrom: string;
+  createdAt?: string | null;
+  createdBy?: string | null;
+}
+
+export interface AlimentPriceVersionRequest {
+  fournisseurId: number;
+  designation: string;
+  price_kg: number | null;
+  validFrom: string;
 }
 
 /** Livraisons Aliment — request (farm from JWT or optional farmId for Admin/RT) */
@@ -1546,9 +1929,11 @@ export interface LivraisonAlimentRequest {
   stockBeforeKg?: number | null;
   movementType?: string | null;
   notes?: string | null;
+  /** Version read with the row (optimistic locking); the backend answers 409 when it no longer matches. */
+  version?: number | null;
 }
 
-export interface LivraisonAlimentResponse {
+export interface LivraisonAlimentResponse extends VerificationFields {
   id: number;
   farmId: number;
   lot?: string | null;
@@ -1596,7 +1981,7 @@ export interface LivraisonProduitVeterinaireRequest {
   montant?: number | null;
 }
 
-export interface LivraisonProduitVeterinaireResponse {
+export interface LivraisonProduitVeterinaireResponse extends VerificationFields {
   id: number;
   farmId: number;
   lot?: string | null;
@@ -1633,7 +2018,7 @@ export interface LivraisonProduitHygieneRequest {
   femelle?: number | null;
 }
 
-export interface LivraisonProduitHygieneResponse {
+export interface LivraisonProduitHygieneResponse extends VerificationFields {
   id: number;
   farmId: number;
   lot?: string | null;
@@ -1695,7 +2080,7 @@ export interface LivraisonPailleRequest {
   numeroBR?: string | null;
 }
 
-export interface LivraisonPailleResponse {
+export interface LivraisonPailleResponse extends VerificationFields {
   id: number;
   farmId: number;
   lot?: string | null;
@@ -1756,7 +2141,7 @@ export interface LivraisonElectriciteRequest {
   femelle?: number | null;
 }
 
-export interface LivraisonElectriciteResponse {
+export interface LivraisonElectriciteResponse extends VerificationFields {
   id: number;
   farmId: number;
   lot?: string | null;
@@ -1794,7 +2179,7 @@ export interface LivraisonGazRequest {
   femelle?: number | null;
 }
 
-export interface LivraisonGazResponse {
+export interface LivraisonGazResponse extends VerificationFields {
   id: number;
   farmId: number;
   lot?: string | null;
@@ -1854,6 +2239,8 @@ export interface MainOeuvreRequest {
   prixPerUnit?: number | null;
   montant?: number | null;
   observation?: string | null;
+  /** Version read with the row (optimistic locking); the backend answers 409 when it no longer matches. */
+  version?: number | null;
 }
 
 export interface MainOeuvreResponse {
@@ -1893,7 +2280,7 @@ export interface DepenseDiversRequest {
   montant?: number | null;
 }
 
-export interface DepenseDiversResponse {
+export interface DepenseDiversResponse extends VerificationFields {
   id: number;
   farmId: number;
   lot?: string | null;
@@ -1942,6 +2329,48 @@ export interface VaccinationPlanningResponse {
   updatedAt?: string;
 }
 
+/** Vaccination protocol step — one planning line, the age relative to the mise en place ("Couvoir" or "N J"). */
+export interface VaccinationProtocolStep {
+  ordre: number;
+  age: string;
+  motif?: string | null;
+  vaccinTraitement?: string | null;
+  quantite?: string | null;
+  administration?: string | null;
+  remarques?: string | null;
+}
+
+/** Vaccination protocol template — request (souche / typeElevage as declared in InfosSetup) */
+export interface VaccinationProtocolRequest {
+  name: string;
+  souche: string;
+  typeElevage: string;
+  steps: VaccinationProtocolStep[];
+  /** Version being edited (optimistic locking on update). */
+  version?: number | null;
+}
+
+export interface VaccinationProtocolResponse extends VaccinationProtocolRequest {
+  id: number;
+  version: number;
+  updatedBy?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Lot whose planning was applied from a protocol. */
+export interface VaccinationProtocolLotResponse {
+  farmId: number;
+  farmName?: string | null;
+  lot: string;
+  closed: boolean;
+  /** Protocol version the planning was applied from. */
+  appliedVersion: number;
+  appliedAt?: string | null;
+  /** A planning line was edited by hand since: the lot no longer follows the protocol as is. */
+  customized: boolean;
+}
+
 /** Vaccination planning notes — request (replace list) */
 export interface VaccinationPlanningNoteRequest {
   farmId?: number | null;
@@ -1995,6 +2424,36 @@ export interface VaccinationAlertResponse {
   rescheduleTime?: string | null;
 }
 
+/** Vaccination administration — what was given when confirming an alert. */
+export interface VaccinationAdministrationRequest {
+  produit: string;
+  /** Lot / batch number printed on the vaccine. */
+  numeroLotVaccin?: string | null;
+  /** Dose per bird, e.g. "0,5 ml / sujet". */
+  dose?: string | null;
+  /** Quantity used, in the unit of the livraison (flacons, doses…); drawn from the livraison stock. */
+  quantite?: number | null;
+  operateur: string;
+  /** Local date-time "yyyy-MM-ddTHH:mm". */
+  administeredAt: string;
+  /** Livraison produits vétérinaires the quantity is drawn from; null when the product is not in stock. */
+  livraisonProduitVeterinaireId?: number | null;
+  remarques?: string | null;
+}
+
+export interface VaccinationAdministrationResponse extends VaccinationAdministrationRequest {
+  id: number;
+  farmId: number;
+  lot: string;
+  planningId?: number | null;
+  /** Planning line the alert came from. */
+  age?: string | null;
+  motif?: string | null;
+  administration?: string | null;
+  createdBy?: string | null;
+  createdAt?: string;
+}
+
 /** Liste des employés — request (global list, not tied to farm) */
 export interface EmployerRequest {
   nom: string;
@@ -2066,6 +2525,8 @@ export interface SuiviTechniqueHebdoRequest {
   vaccination?: string | null;
   traitement?: string | null;
   observation?: string | null;
+  /** Version read with the row (optimistic locking); the backend answers 409 when it no longer matches. */
+  version?: number | null;
 }
 
 export interface SuiviTechniqueHebdoResponse {
@@ -2311,6 +2772,70 @@ export interface PerformanceNormeResponse {
   updatedAt?: string;
 }
 
+/** One semaine of a norm profile (same fields as PerformanceNormeRequest, without sex). */
+export interface PerformanceNormeProfileWeek {
+  semaine: string;
+  poidsMoyenNorme?: number | null;
+  homogeneiteNorme?: number | null;
+  indiceConsommationNorme?: number | null;
+  gmqNorme?: number | null;
+  viabiliteNorme?: number | null;
+}
+
+/** Norm profile — request: breeder curve for one souche and sex (souche as declared in InfosSetup). */
+export interface PerformanceNormeProfileRequest {
+  souche: string;
+  sex: string;
+  weeks: PerformanceNormeProfileWeek[];
+}
+
+/** Norm profile — response */
+export interface PerformanceNormeProfileResponse extends PerformanceNormeProfileRequest {
+  id: number;
+  version?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Performance vs norme tolerance band: max unfavourable écart (% of the norme) still ok, resp. à suivre. */
+export interface PerformanceToleranceBandDto {
+  ok: number;
+  watch: number;
+}
+
+/** Tolerance bands of the farm — request: one band per metric (poidsMoyen, homogeneite, indiceConsommation, gmq, viabilite). */
+export interface PerformanceTolerancesRequest {
+  bands: Record<string, PerformanceToleranceBandDto>;
+}
+
+/** Tolerance bands of the farm — response (metrics never saved are missing: defaults apply). */
+export interface PerformanceTolerancesResponse {
+  farmId: number;
+  bands: Partial<Record<string, PerformanceToleranceBandDto>>;
+  version?: number;
+  updatedAt?: string;
+}
+
+/** Point of the temperature target curve: comfort band (°C) at the age (days). */
+export interface TemperatureTargetPointDto {
+  ageJour: number;
+  min: number;
+  max: number;
+}
+
+/** Temperature target curve of the farm — request (points sorted by age). */
+export interface TemperatureTargetsRequest {
+  points: TemperatureTargetPointDto[];
+}
+
+/** Temperature target curve of the farm — response. */
+export interface TemperatureTargetsResponse {
+  farmId: number;
+  points: TemperatureTargetPointDto[];
+  version?: number;
+  updatedAt?: string;
+}
+
 /** Effectif initial (Effectif Mis en Place) per building and sex for the lot */
 export interface DailyEffectifInitialEntry {
   building: string;
@@ -2338,3 +2863,139 @@ export interface DailySexMetrics {
   tempMax?: number | null;
   traitement?: string | null;
 }
+
+/** Acknowledgement or snooze of a daily anomaly (id from dailyAnomalies.ts). */
+export interface AnomalyAcknowledgementRequest {
+  farmId: number;
+  lot: string;
+  anomalyId: string;
+  /** ISO date-time; null = acknowledged, the anomaly does not come back. */
+  snoozedUntil?: string | null;
+  comment?: string | null;
+}
+
+export interface AnomalyAcknowledgementResponse extends AnomalyAcknowledgementRequest {
+  id: number;
+  createdBy?: string | null;
+  createdAt?: string;
+}
+
+/** Data rows with an audit trail (entityType of /api/audit). */
+export type AuditEntityType =
+  | "DAILY_REPORT"
+  | "LIVRAISON_ALIMENT"
+  | "LIVRAISON_GAZ"
+  | "LIVRAISON_PAILLE"
+  | "LIVRAISON_PRODUIT_VETERINAIRE"
+  | "LIVRAISON_PRODUIT_HYGIENE"
+  | "SORTIE"
+  | "MAIN_OEUVRE"
+  | "SUIVI_TECHNIQUE_HEBDO";
+
+/** One field changed by a version; values as stored (string, number, boolean or null). */
+export interface AuditFieldChange {
+  field: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+/** One version of a data row. */
+export interface AuditEntryResponse {
+  id: number;
+  entityType: AuditEntityType;
+  entityId: number;
+  /** Row version after the write (1 = creation). */
+  version: number;
+  action: "CREATE" | "UPDATE" | "DELETE";
+  farmId?: number | null;
+  farmName?: string | null;
+  lot?: string | null;
+  username?: string | null;
+  userDisplayName?: string | null;
+  /** ISO date-time of the write. */
+  timestamp: string;
+  /** Field-level diff; absent on older entries, rebuilt from the snapshots (auditTrailShared.ts). */
+  changes?: AuditFieldChange[] | null;
+  /** Row as saved by this version (null for DELETE). */
+  snapshot?: Record<string, unknown> | null;
+}
+
+export interface AuditListParams {
+  farmId?: number | null;
+  lot?: string | null;
+  username?: string | null;
+  entityType?: AuditEntityType | null;
+  /** yyyy-MM-dd, inclusive. */
+  from?: string | null;
+  to?: string | null;
+  limit?: number;
+}
+
+/** Rows going through the À vérifier inbox (entityType of /api/verification). */
+export type VerificationEntityType =
+  | "DAILY_REPORT"
+  | "LIVRAISON_ALIMENT"
+  | "LIVRAISON_GAZ"
+  | "LIVRAISON_PAILLE"
+  | "LIVRAISON_PRODUIT_VETERINAIRE"
+  | "LIVRAISON_PRODUIT_HYGIENE"
+  | "LIVRAISON_ELECTRICITE"
+  | "SORTIE"
+  | "DEPENSE_DIVERS";
+
+/** PENDING: entered, not checked yet. REJECTED: sent back to its author, editable once. */
+export type VerificationStatus = "PENDING" | "VERIFIED" | "REJECTED";
+
+/** Verification state carried by the verifiable rows; absent when the backend predates the workflow. */
+export interface VerificationFields {
+  verificationStatus?: VerificationStatus | null;
+  /** Username of the author (maker); only they may correct the row after a rejection. */
+  createdByUsername?: string | null;
+  rejectionComment?: string | null;
+  rejectedBy?: string | null;
+  rejectedAt?: string | null;
+}
+
+/** One row of the À vérifier inbox. */
+export interface VerificationItemResponse {
+  entityType: VerificationEntityType;
+  entityId: number;
+  version?: number | null;
+  farmId: number;
+  farmName?: string | null;
+  lot?: string | null;
+  semaine?: string | null;
+  /** Date of the row (livraison, report, sortie…), yyyy-MM-dd. */
+  date?: string | null;
+  /** One-line description built by the backend (désignation, fournisseur, quantité…). */
+  summary?: string | null;
+  montant?: number | null;
+  /** Username of the author (maker). */
+  createdBy?: string | null;
+  createdByDisplayName?: string | null;
+  createdAt?: string | null;
+  status: Exclude<VerificationStatus, "VERIFIED">;
+  rejectionComment?: string | null;
+  rejectedBy?: string | null;
+  rejectedAt?: string | null;
+}
+
+export interface VerificationQueueParams {
+  farmId?: number | null;
+  lot?: string | null;
+  entityType?: VerificationEntityType | null;
+  status?: Exclude<VerificationStatus, "VERIFIED"> | null;
+}
+
+export interface VerificationDecisionRequest {
+  decision: "APPROVE" | "REJECT";
+  /** Required for REJECT; shown to the author on the row. */
+  comment?: string | null;
+  items: { entityType: VerificationEntityType; entityId: number; version?: number | null }[];
+}
+
+export interface VerificationDecisionResponse {
+  processed: number;
+  /** Rows left unchanged (changed meanwhile, own entry, already decided…). */
+  failed?: { entityType: VerificationEntityType; entityId: number; message?: string | null }[] | null;
+}
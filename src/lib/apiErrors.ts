@@ -0,0 +1,193 @@
+/**
+ * Typed errors thrown by apiFetch / apiFetchOrNull (see api.ts).
+ *
+ * Every failed request becomes an ApiError carrying the HTTP status, the ProblemDetail (RFC 7807)
+ * `type` and the per-field validation messages, so pages can branch on the class (`instanceof`)
+ * and highlight the offending cells instead of only showing a toast.
+ *
+ * | Class                 | When                                             |
+ * |-----------------------|--------------------------------------------------|
+ * | ApiUnauthorizedError  | 401 — session expired (central re-login flow)    |
+ * | ApiForbiddenError     | 403 — role not allowed                           |
+ * | ApiNotFoundError      | 404                                              |
+ * | ApiConflictError      | 409 — optimistic locking, carries server row     |
+ * | ApiValidationError    | 400 / 422 — fieldErrors filled                   |
+ * | ApiNetworkError       | request never reached the server (status 0)      |
+ * | ApiTimeoutError       | no response within the timeout (status 0)        |
+ */
+
+/** Event dispatched on window when an authenticated request gets a 401 (AuthContext opens the re-login dialog). */
+export const API_UNAUTHORIZED_EVENT = "apiUnauthorized";
+
+/** Field name (request DTO property, e.g. "prix_kg") → user-facing message. */
+export type ApiFieldErrors = Record<string, string>;
+
+export class ApiError extends Error {
+  /** HTTP status; 0 when no response was received. */
+  readonly status: number;
+  /** ProblemDetail `type` URI when provided by the backend. */
+  readonly type: string | null;
+  readonly fieldErrors: ApiFieldErrors;
+
+  constructor(message: string, opts: { status: number; type?: string | null; fieldErrors?: ApiFieldErrors }) {
+    super(message);
+    this.name = "ApiError";
+    this.status = opts.status;
+    this.type = opts.type ?? null;
+    this.fieldErrors = opts.fieldErrors ?? {};
+  }
+
+  /** True when the backend rejected at least one field. */
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+export class ApiUnauthorizedError extends ApiError {
+  constructor(message = "Session expirée. Veuillez vous reconnecter.", type?: string | null) {
+    super(message, { status: 401, type });
+    this.name = "ApiUnauthorizedError";
+  }
+}
+
+export class ApiForbiddenError extends ApiError {
+  constructor(message = "Vous n'avez pas la permission d'effectuer cette action.", type?: string | null) {
+    super(message, { status: 403, type });
+    this.name = "ApiForbiddenError";
+  }
+}
+
+export class ApiNotFoundError extends ApiError {
+  constructor(message = "Élément introuvable.", type?: string | null) {
+    super(message, { status: 404, type });
+    this.name = "ApiNotFoundError";
+  }
+}
+
+/**
+ * Optimistic-locking conflict (HTTP 409): the row was modified by someone else since it was read.
+ * `current` is the server's current row when the backend includes it in the ProblemDetail
+ * (property "current"); otherwise null and callers refetch the row.
+ */
+export class ApiConflictError<T = unknown> extends ApiError {
+  readonly current: T | null;
+
+  constructor(
+    message = "Cette ligne a été modifiée par un autre utilisateur.",
+    current: T | null = null,
+    type?: string | null
+  ) {
+    super(message, { status: 409, type });
+    this.name = "ApiConflictError";
+    this.current = current;
+  }
+}
+
+export class ApiValidationError extends ApiError {
+  constructor(message: string, opts: { status?: number; type?: string | null; fieldErrors?: ApiFieldErrors }) {
+    super(message, { status: opts.status ?? 400, type: opts.type, fieldErrors: opts.fieldErrors });
+    this.name = "ApiValidationError";
+  }
+}
+
+export class ApiNetworkError extends ApiError {
+  constructor(message = "Serveur injoignable. Vérifiez votre connexion.") {
+    super(message, { status: 0 });
+    this.name = "ApiNetworkError";
+  }
+}
+
+export class ApiTimeoutError extends ApiNetworkError {
+  constructor(message = "Le serveur ne répond pas (délai dépassé).") {
+    super(message);
+    this.name = "ApiTimeoutError";
+  }
+}
+
+type ProblemDetailBody = {
+  type?: string;
+  title?: string;
+  detail?: string;
+  userMessage?: string;
+  message?: string;
+  current?: unknown;
+  errors?: unknown;
+  fieldErrors?: unknown;
+  invalidParams?: unknown;
+  violations?: unknown;
+};
+
+/**
+ * Collect field errors from the shapes Spring backends commonly return:
+ * `{ field: message }` maps, or arrays of `{ field | name | propertyPath, message | defaultMessage | reason }`.
+ */
+function parseFieldErrors(body: ProblemDetailBody): ApiFieldErrors {
+  const out: ApiFieldErrors = {};
+  for (const source of [body.fieldErrors, body.errors, body.invalidParams, body.violations]) {
+    if (Array.isArray(source)) {
+      for (const item of source) {
+        if (!item || typeof item !== "object") continue;
+        const o = item as Record<string, unknown>;
+        const field = o.field ?? o.name ?? o.propertyPath;
+        const msg = o.message ?? o.defaultMessage ?? o.reason;
+        if (typeof field === "string" && field && out[field] == null) {
+          out[field] = typeof msg === "string" && msg.trim() ? msg.trim() : "Valeur invalide.";
+        }
+      }
+    } else if (source && typeof source === "object") {
+      for (const [field, msg] of Object.entries(source as Record<string, unknown>)) {
+        const m = Array.isArray(msg) ? msg[0] : msg;
+        if (out[field] == null) out[field] = typeof m === "string" && m.trim() ? m.trim() : "Valeur invalide.";
+      }
+    }
+  }
+  return out;
+}
+
+function parseProblemDetail(text: string): ProblemDetailBody | null {
+  try {
+    if (!text?.trim()) return null;
+    const body = JSON.parse(text) as unknown;
+    return body && typeof body === "object" ? (body as ProblemDetailBody) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Build the typed error for a non-OK response (status + raw body text). */
+export function toApiError(text: string, status: number): ApiError {
+  const body = parseProblemDetail(text);
+  const raw = body?.detail ?? body?.userMessage ?? body?.message;
+  const detail = typeof raw === "string" && raw.trim() ? raw.trim() : undefined;
+  const type = typeof body?.type === "string" ? body.type : null;
+  const fieldErrors = body ? parseFieldErrors(body) : {};
+
+  switch (status) {
+    case 401:
+      return new ApiUnauthorizedError(undefined, type);
+    case 403:
+      return new ApiForbiddenError(detail, type);
+    case 404:
+      return new ApiNotFoundError(detail, type);
+    case 409:
+      return new ApiConflictError(detail, body?.current ?? null, type);
+    case 400:
+    case 422:
+      return new ApiValidationError(detail ?? "Certaines valeurs sont invalides.", { status, type, fieldErrors });
+    default:
+      return new ApiError(detail ?? "Une erreur est survenue.", { status, type, fieldErrors });
+  }
+}
+
+/** Field errors of any thrown value (empty when it is not an ApiError). */
+export function apiFieldErrorsOf(e: unknown): ApiFieldErrors {
+  return e instanceof ApiError ? e.fieldErrors : {};
+}
+
+/** Resolve a 404 as `null` ("no data"); any other failure still rejects. */
+export function noneIfNotFound<T>(request: Promise<T | null>): Promise<T | null> {
+  return request.catch((e: unknown) => {
+    if (e instanceof ApiNotFoundError) return null;
+    throw e;
+  });
+}
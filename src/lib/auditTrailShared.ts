@@ -0,0 +1,135 @@
+/**
+ * Audit trail of the data rows (/api/audit): entity types, field labels and the field-level diff shown by the
+ * Historique panel (RowHistorySheet) and the Journal d'audit page.
+ */
+
+import type { AuditEntityType, AuditEntryResponse, AuditFieldChange } from "@/lib/api";
+import type { QueryNamespace } from "@/lib/queryInvalidation";
+
+export const AUDIT_ENTITY_TYPES: { value: AuditEntityType; label: string; namespace: QueryNamespace }[] = [
+  { value: "DAILY_REPORT", label: "Reporting journalier", namespace: "dailyReports" },
+  { value: "LIVRAISON_ALIMENT", label: "Livraisons aliment", namespace: "livraisonsAliment" },
+  { value: "LIVRAISON_GAZ", label: "Livraisons gaz", namespace: "livraisonsGaz" },
+  { value: "LIVRAISON_PAILLE", label: "Livraisons paille", namespace: "livraisonsPaille" },
+  { value: "LIVRAISON_PRODUIT_VETERINAIRE", label: "Produits vétérinaires", namespace: "livraisonsProduitsVeterinaires" },
+  { value: "LIVRAISON_PRODUIT_HYGIENE", label: "Produits d'hygiène", namespace: "livraisonsProduitsHygiene" },
+  { value: "SORTIE", label: "Sorties ferme", namespace: "sorties" },
+  { value: "MAIN_OEUVRE", label: "Main d'œuvre", namespace: "mainOeuvre" },
+  { value: "SUIVI_TECHNIQUE_HEBDO", label: "Suivi technique hebdomadaire", namespace: "suiviTechniqueHebdo" },
+];
+
+export function auditEntityLabel(entityType: string): string {
+  return AUDIT_ENTITY_TYPES.find((t) => t.value === entityType)?.label ?? entityType;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditEntryResponse["action"], string> = {
+  CREATE: "Création",
+  UPDATE: "Modification",
+  DELETE: "Suppression",
+};
+
+/** Column headers of the grids, by DTO field; other fields are shown as-is. */
+const FIELD_LABELS: Record<string, string> = {
+  date: "Date",
+  reportDate: "Date",
+  recordDate: "Date",
+  age: "Âge",
+  ageJour: "Âge (j)",
+  sem: "Semaine",
+  semaine: "Semaine",
+  lot: "Lot",
+  sex: "Sexe",
+  batiment: "Bâtiment",
+  building: "Bâtiment",
+  designation: "Désignation",
+  supplier: "Fournisseur",
+  client: "Client",
+  deliveryNoteNumber: "N° BL",
+  numeroBonReception: "N° BR",
+  numeroBR: "N° BR",
+  num: "N°",
+  type: "Type",
+  ug: "UG",
+  qte: "Quantité",
+  nbre: "Nombre",
+  nbr: "Nombre",
+  maleQty: "Qté mâle",
+  femaleQty: "Qté femelle",
+  male: "Mâle",
+  femelle: "Femelle",
+  prix: "Prix",
+  prixPerUnit: "Prix unitaire",
+  montant: "Montant",
+  movementType: "Mouvement",
+  notes: "Notes",
+  observation: "Observation",
+  waterL: "Eau (L)",
+  consoEauL: "Eau (L)",
+  tempMin: "T° min",
+  tempMax: "T° max",
+  traitement: "Traitement",
+  vaccination: "Vaccination",
+  verified: "Vérifié",
+  mortaliteNbre: "Mortalité",
+  effectifDepart: "Effectif départ",
+  employerId: "Employé",
+  fullDay: "Journée complète",
+  nbMo: "Nb MO",
+};
+
+/** Technical fields never shown in a diff. */
+const IGNORED_FIELDS = new Set(["id", "farmId", "version", "createdAt", "updatedAt", "createdBy", "verifiedBy", "verifiedAt"]);
+
+export function auditFieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Oui" : "Non";
+  if (typeof value === "number") return value.toLocaleString("fr-FR", { maximumFractionDigits: 3 });
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatAuditTimestamp(timestamp: string): string {
+  const d = new Date(timestamp);
+  if (Number.isNaN(d.getTime())) return timestamp;
+  return d.toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "medium" });
+}
+
+export function auditUserLabel(entry: Pick<AuditEntryResponse, "username" | "userDisplayName">): string {
+  return entry.userDisplayName?.trim() || entry.username?.trim() || "Utilisateur inconnu";
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if ((a == null || a === "") && (b == null || b === "")) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Changed fields of a version: the backend diff when present, otherwise rebuilt from the snapshots of this version
+ * and the previous one (creation: every filled field; deletion: every field of the last snapshot).
+ */
+export function auditChanges(entry: AuditEntryResponse, previous?: AuditEntryResponse | null): AuditFieldChange[] {
+  if (entry.changes && entry.changes.length > 0) {
+    return entry.changes.filter((c) => !IGNORED_FIELDS.has(c.field));
+  }
+  const before = previous?.snapshot ?? {};
+  const after = entry.action === "DELETE" ? {} : entry.snapshot ?? {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: AuditFieldChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field) || sameValue(before[field], after[field])) continue;
+    changes.push({ field, oldValue: before[field] ?? null, newValue: after[field] ?? null });
+  }
+  return changes;
+}
+
+/** Versions newest first, each with its diff against the version before it. */
+export function auditVersionsWithChanges(
+  entries: AuditEntryResponse[]
+): { entry: AuditEntryResponse; changes: AuditFieldChange[] }[] {
+  const sorted = [...entries].sort((a, b) => a.version - b.version || a.timestamp.localeCompare(b.timestamp));
+  return sorted.map((entry, i) => ({ entry, changes: auditChanges(entry, sorted[i - 1]) })).reverse();
+}
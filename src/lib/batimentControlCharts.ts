@@ -0,0 +1,196 @@
+/**
+ * Multi-week control charts of one bâtiment / sex (/graphiques-batiment, section 8 of the Suivi Technique bâtiment
+ * PDF): daily water per bird, weekly water / feed index and the min / max temperature against a target band by age.
+ * Days come from the suivi technique hebdo rows (consoEauL, tempMin, tempMax), the index from suiviConsommationHebdo
+ * (indiceEauAliment, else totalEauSemaineL / consommationAlimentSemaine). The target curve is saved per farm on the
+ * server (api.temperatureTargets), like the performance tolerances, so the page and the PDF of every user agree;
+ * the dailyAnomalies.ts alerts keep their own fixed band.
+ */
+
+import { api, type SuiviConsommationHebdoResponse, type SuiviTechniqueHebdoResponse } from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import { mapWithConcurrency } from "@/lib/mapWithConcurrency";
+import { semainesUpTo } from "@/lib/performanceNormStatus";
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+import { sortSemaines } from "@/utils/semaineAgeUtils";
+
+/** One point of the target curve: comfort band (°C) at the age; linear between points. */
+export interface TemperatureTargetPoint {
+  ageJour: number;
+  min: number;
+  max: number;
+}
+
+export const DEFAULT_TEMPERATURE_TARGETS: TemperatureTargetPoint[] = [
+  { ageJour: 1, min: 30, max: 36 },
+  { ageJour: 7, min: 28, max: 34 },
+  { ageJour: 14, min: 25, max: 31 },
+  { ageJour: 21, min: 22, max: 28 },
+  { ageJour: 28, min: 19, max: 26 },
+  { ageJour: 42, min: 16, max: 24 },
+  { ageJour: 70, min: 14, max: 22 },
+];
+
+function isValidTargetPoint(p: unknown): p is TemperatureTargetPoint {
+  const point = p as TemperatureTargetPoint | null;
+  return (
+    point != null &&
+    typeof point.ageJour === "number" &&
+    typeof point.min === "number" &&
+    typeof point.max === "number" &&
+    point.ageJour >= 0 &&
+    point.max >= point.min
+  );
+}
+
+/** Saved curve sorted by age (invalid points are ignored); defaults when nothing valid is saved. */
+export function resolveTemperatureTargets(saved: unknown[] | null | undefined): TemperatureTargetPoint[] {
+  const points = (saved ?? []).filter(isValidTargetPoint).map((p) => ({ ageJour: p.ageJour, min: p.min, max: p.max }));
+  return points.length > 0 ? points.sort((a, b) => a.ageJour - b.ageJour) : DEFAULT_TEMPERATURE_TARGETS;
+}
+
+/** Curve of the farm; the defaults when it never saved one. */
+export async function loadTemperatureTargets(farmId: number): Promise<TemperatureTargetPoint[]> {
+  return resolveTemperatureTargets((await noneIfNotFound(api.temperatureTargets.get(farmId)))?.points);
+}
+
+/** Target band at the age: linear between the points, flat before the first and after the last. */
+export function temperatureTargetAt(
+  points: TemperatureTargetPoint[],
+  ageJour: number | null | undefined
+): { min: number; max: number } | null {
+  if (points.length === 0 || ageJour == null) return null;
+  const sorted = [...points].sort((a, b) => a.ageJour - b.ageJour);
+  if (ageJour <= sorted[0].ageJour) return { min: sorted[0].min, max: sorted[0].max };
+  for (let i = 1; i < sorted.length; i++) {
+    const a = sorted[i - 1];
+    const b = sorted[i];
+    if (ageJour <= b.ageJour) {
+      const t = (ageJour - a.ageJour) / (b.ageJour - a.ageJour);
+      return { min: a.min + (b.min - a.min) * t, max: a.max + (b.max - a.max) * t };
+    }
+  }
+  const last = sorted[sorted.length - 1];
+  return { min: last.min, max: last.max };
+}
+
+export interface BatimentControlDay {
+  /** yyyy-mm-dd */
+  date: string;
+  /** "J12", or the date when the age is unknown. */
+  dayLabel: string;
+  ageJour: number | null;
+  semaine: string;
+  eauL: number | null;
+  /** Birds present at the start of the day: effectif départ of the week − deaths of the previous days. */
+  effectif: number | null;
+  eauParSujetMl: number | null;
+  tempMin: number | null;
+  tempMax: number | null;
+  cibleMin: number | null;
+  cibleMax: number | null;
+}
+
+export interface BatimentControlWeek {
+  semaine: string;
+  indiceEauAliment: number | null;
+  totalEauSemaineL: number | null;
+  consommationAlimentSemaine: number | null;
+}
+
+export interface BatimentControlSources {
+  hebdoRows: SuiviTechniqueHebdoResponse[];
+  consommations: SuiviConsommationHebdoResponse[];
+}
+
+export interface BatimentControlSeries {
+  days: BatimentControlDay[];
+  weeks: BatimentControlWeek[];
+}
+
+function isoDate(value: string | null | undefined): string | null {
+  const m = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  return m ? m[1] : null;
+}
+
+export function buildBatimentControlSeries(
+  sources: BatimentControlSources,
+  targets: TemperatureTargetPoint[]
+): BatimentControlSeries {
+  const bySemaine = new Map<string, SuiviTechniqueHebdoResponse[]>();
+  for (const r of sources.hebdoRows) {
+    if (!r.semaine || r.isPlaceholder || !isoDate(r.recordDate)) continue;
+    const semaine = canonicalSemaine(r.semaine);
+    bySemaine.set(semaine, [...(bySemaine.get(semaine) ?? []), r]);
+  }
+  const semaines = sortSemaines([...bySemaine.keys()]);
+
+  const days: BatimentControlDay[] = [];
+  for (const semaine of semaines) {
+    const rows = [...(bySemaine.get(semaine) ?? [])].sort((a, b) => (a.recordDate ?? "").localeCompare(b.recordDate ?? ""));
+    const effectifDepart = rows.find((r) => r.effectifDepart != null)?.effectifDepart ?? null;
+    let mortsSemaine = 0;
+    for (const r of rows) {
+      const effectif = effectifDepart != null ? effectifDepart - mortsSemaine : null;
+      mortsSemaine += r.mortaliteNbre ?? 0;
+      const date = isoDate(r.recordDate) as string;
+      const eauL = r.consoEauL ?? null;
+      const cible = temperatureTargetAt(targets, r.ageJour);
+      days.push({
+        date,
+        dayLabel: r.ageJour != null ? `J${r.ageJour}` : date,
+        ageJour: r.ageJour ?? null,
+        semaine,
+        eauL,
+        effectif,
+        eauParSujetMl: eauL != null && effectif != null && effectif > 0 ? (eauL * 1000) / effectif : null,
+        tempMin: r.tempMin ?? null,
+        tempMax: r.tempMax ?? null,
+        cibleMin: cible?.min ?? null,
+        cibleMax: cible?.max ?? null,
+      });
+    }
+  }
+
+  const consoBySemaine = new Map(sources.consommations.map((c) => [canonicalSemaine(c.semaine), c]));
+  const weeks = semaines.map((semaine): BatimentControlWeek => {
+    const c = consoBySemaine.get(semaine);
+    const totalEau = c?.totalEauSemaineL ?? null;
+    const aliment = c?.consommationAlimentSemaine ?? null;
+    return {
+      semaine,
+      indiceEauAliment: c?.indiceEauAliment ?? (totalEau != null && aliment != null && aliment > 0 ? totalEau / aliment : null),
+      totalEauSemaineL: totalEau,
+      consommationAlimentSemaine: aliment,
+    };
+  });
+  return { days, weeks };
+}
+
+/** Parallel consommation requests (one per semaine). */
+const MAX_CONCURRENT_REQUESTS = 6;
+
+/**
+ * Hebdo rows of the bâtiment / sex (all semaines, or S1…`upTo`) and the consommation of each of their semaines.
+ * A semaine without consommation (404) has no index; any other failure rejects.
+ */
+export async function loadBatimentControlSources(params: {
+  farmId: number;
+  lot: string;
+  batiment: string;
+  sex: string;
+  upTo?: string | null;
+}): Promise<BatimentControlSources> {
+  const { farmId, lot, batiment, sex, upTo } = params;
+  const allRows = await api.suiviTechniqueHebdo.list({ farmId, lot, sex, batiment });
+  const allowed = upTo ? new Set(semainesUpTo(canonicalSemaine(upTo))) : null;
+  const hebdoRows = (allRows ?? []).filter((r) => r.semaine && (!allowed || allowed.has(canonicalSemaine(r.semaine))));
+  const semaines = [...new Set(hebdoRows.map((r) => canonicalSemaine(r.semaine as string)))];
+  const consommations = await mapWithConcurrency(semaines, MAX_CONCURRENT_REQUESTS, (semaine) =>
+    noneIfNotFound(api.suiviConsommationHebdo.get({ farmId, lot, semaine, sex, batiment }))
+  );
+  return {
+    hebdoRows,
+    consommations: consommations.filter((c): c is SuiviConsommationHebdoResponse => c != null),
+  };
+}
@@ -177,3 +177,229 @@ export function renderMortalityChartToBase64(
   chart.destroy();
   return base64;
 }
+
+export interface WaterPerBirdDataPoint {
+  dayLabel: string;
+  eauParSujetMl: number | null;
+}
+
+export interface WaterFeedIndexDataPoint {
+  semaine: string;
+  indiceEauAliment: number | null;
+}
+
+export interface TemperatureBandDataPoint {
+  dayLabel: string;
+  tempMin: number | null;
+  tempMax: number | null;
+  cibleMin: number | null;
+  cibleMax: number | null;
+}
+
+/**
+ * Renders Eau par sujet (mL/sujet/jour) over several weeks to base64 PNG (graphiques bâtiment).
+ */
+export function renderWaterPerBirdChartToBase64(data: WaterPerBirdDataPoint[], subtitle?: string): string | null {
+  if (!data || data.every((d) => d.eauParSujetMl == null)) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = CHART_WIDTH;
+  canvas.height = CHART_HEIGHT;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  const chart = new Chart(ctx, {
+    type: "line",
+    data: {
+      labels: data.map((d) => d.dayLabel),
+      datasets: [
+        {
+          label: "Eau (mL/sujet)",
+          data: data.map((d) => d.eauParSujetMl),
+          borderColor: "rgb(59, 130, 246)",
+          backgroundColor: "rgba(59, 130, 246, 0.1)",
+          fill: true,
+          tension: 0.3,
+          spanGaps: true,
+          pointRadius: 2,
+        },
+      ],
+    },
+    options: {
+      responsive: false,
+      animation: false,
+      plugins: {
+        legend: { display: false },
+        title: {
+          display: true,
+          text: `Eau par sujet (mL/jour)${subtitle ? ` — ${subtitle}` : ""}`,
+          font: { size: 12 },
+        },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: { maxRotation: 45, autoSkip: true, font: { size: 9 } },
+        },
+        y: {
+          beginAtZero: true,
+          grid: { color: "rgba(0,0,0,0.08)" },
+          ticks: { font: { size: 9 } },
+        },
+      },
+    },
+  });
+
+  const base64 = chart.toBase64Image("image/png", 1);
+  chart.destroy();
+  return base64;
+}
+
+/**
+ * Renders the weekly Indice eau / aliment (L/kg) to base64 PNG (graphiques bâtiment).
+ */
+export function renderWaterFeedIndexChartToBase64(data: WaterFeedIndexDataPoint[], subtitle?: string): string | null {
+  if (!data || data.every((d) => d.indiceEauAliment == null)) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = CHART_WIDTH;
+  canvas.height = CHART_HEIGHT;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  const chart = new Chart(ctx, {
+    type: "line",
+    data: {
+      labels: data.map((d) => d.semaine),
+      datasets: [
+        {
+          label: "Indice eau / aliment",
+          data: data.map((d) => d.indiceEauAliment),
+          borderColor: "rgb(20, 184, 166)",
+          backgroundColor: "rgba(20, 184, 166, 0.1)",
+          fill: false,
+          tension: 0.2,
+          spanGaps: true,
+          pointBackgroundColor: "rgb(20, 184, 166)",
+          pointRadius: 4,
+        },
+      ],
+    },
+    options: {
+      responsive: false,
+      animation: false,
+      plugins: {
+        legend: { display: false },
+        title: {
+          display: true,
+          text: `Indice eau / aliment (L/kg)${subtitle ? ` — ${subtitle}` : ""}`,
+          font: { size: 12 },
+        },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: { font: { size: 9 } },
+        },
+        y: {
+          beginAtZero: true,
+          grid: { color: "rgba(0,0,0,0.08)" },
+          ticks: { font: { size: 9 } },
+        },
+      },
+    },
+  });
+
+  const base64 = chart.toBase64Image("image/png", 1);
+  chart.destroy();
+  return base64;
+}
+
+/**
+ * Renders Température min / max against the target band by age to base64 PNG (graphiques bâtiment).
+ */
+export function renderTemperatureBandChartToBase64(data: TemperatureBandDataPoint[], subtitle?: string): string | null {
+  if (!data || data.every((d) => d.tempMin == null && d.tempMax == null)) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = CHART_WIDTH;
+  canvas.height = CHART_HEIGHT;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  const chart = new Chart(ctx, {
+    type: "line",
+    data: {
+      labels: data.map((d) => d.dayLabel),
+      datasets: [
+        {
+          label: "Cible min",
+          data: data.map((d) => d.cibleMin),
+          borderColor: "rgba(34, 197, 94, 0.6)",
+          borderDash: [4, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+          fill: false,
+        },
+        {
+          // Filled down to "Cible min": the target band
+          label: "Cible max",
+          data: data.map((d) => d.cibleMax),
+          borderColor: "rgba(34, 197, 94, 0.6)",
+          backgroundColor: "rgba(34, 197, 94, 0.12)",
+          borderDash: [4, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+          fill: "-1",
+        },
+        {
+          label: "T° min",
+          data: data.map((d) => d.tempMin),
+          borderColor: "rgb(59, 130, 246)",
+          tension: 0.3,
+          spanGaps: true,
+          pointRadius: 2,
+          fill: false,
+        },
+        {
+          label: "T° max",
+          data: data.map((d) => d.tempMax),
+          borderColor: "rgb(239, 68, 68)",
+          tension: 0.3,
+          spanGaps: true,
+          pointRadius: 2,
+          fill: false,
+        },
+      ],
+    },
+    options: {
+      responsive: false,
+      animation: false,
+      plugins: {
+        legend: { display: true, position: "bottom", labels: { boxWidth: 10, font: { size: 9 } } },
+        title: {
+          display: true,
+          text: `Température (°C) et plage cible${subtitle ? ` — ${subtitle}` : ""}`,
+          font: { size: 12 },
+        },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: { maxRotation: 45, autoSkip: true, font: { size: 9 } },
+        },
+        y: {
+          grid: { color: "rgba(0,0,0,0.08)" },
+          ticks: { font: { size: 9 } },
+        },
+      },
+    },
+  });
+
+  const base64 = chart.toBase64Image("image/png", 1);
+  chart.destroy();
+  return base64;
+}
@@ -0,0 +1,61 @@
+/**
+ * Optimistic-concurrency conflicts (HTTP 409 → ApiConflictError): field-by-field comparison of
+ * the user's row ("mine") and the server's current row ("theirs"), used by ConflictMergeDialog.
+ */
+
+/** One comparable field of a versioned entity. `format` renders the value for display (default: raw text). */
+export interface ConflictField<T> {
+  key: keyof T & string;
+  label: string;
+  format?: (value: T[keyof T]) => string;
+}
+
+/** Which side is kept for each field key. */
+export type ConflictChoice = "mine" | "theirs";
+
+function normalize(v: unknown): string {
+  if (v == null) return "";
+  if (typeof v === "string") return v.trim();
+  return String(v);
+}
+
+/** True when the two values differ (null, undefined and "" are considered equal). */
+export function conflictValuesDiffer(a: unknown, b: unknown): boolean {
+  return normalize(a) !== normalize(b);
+}
+
+/** Fields whose value differs between mine and theirs. */
+export function differingConflictFields<T>(fields: ConflictField<T>[], mine: T, theirs: T): ConflictField<T>[] {
+  return fields.filter((f) => conflictValuesDiffer(mine[f.key], theirs[f.key]));
+}
+
+/** Display value of a field (formatter when provided, "—" when empty). */
+export function formatConflictValue<T>(field: ConflictField<T>, row: T): string {
+  const v = row[field.key];
+  if (v == null || normalize(v) === "") return "—";
+  return field.format ? field.format(v) : String(v);
+}
+
+/** Build the merged row: theirs as base (keeps server-only fields), mine on the fields chosen as "mine". */
+export function mergeConflictRows<T>(
+  fields: ConflictField<T>[],
+  mine: T,
+  theirs: T,
+  choices: Record<string, ConflictChoice>
+): T {
+  const merged = { ...theirs };
+  for (const f of fields) {
+    if ((choices[f.key] ?? "mine") === "mine") merged[f.key] = mine[f.key];
+  }
+  return merged;
+}
+
+/**
+ * Project a server row onto the request shape: `base` (the user's request) with every compared field
+ * taken from `server`. Lets pages compare a request with a response without sending response-only fields.
+ */
+export function withConflictFieldsFrom<T>(fields: ConflictField<T>[], base: T, server: Partial<Record<keyof T, unknown>>): T {
+  const out = { ...base };
+  for (const f of fields) out[f.key] = (server[f.key] ?? null) as T[typeof f.key];
+  return out;
+}
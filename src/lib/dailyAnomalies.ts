@@ -0,0 +1,352 @@
+/**
+ * Daily anomaly detection (dashboard AlertsSection, sidebar badge). Each bâtiment / sex day of the lot is compared
+ * with its own recent days and with the norme:
+ * - mortalité: deaths above FACTOR × the reference, the reference being the larger of the rolling mean of the
+ *   previous days and the daily mortality implied by the viabilité norme of the semaine;
+ * - eau: consumption dropping below the mean of the previous days (early sign of disease);
+ * - température: tempMin / tempMax outside the comfort band of the age. The band is fixed here, wider than the
+ *   target curve of the control charts (batimentControlCharts.ts): that curve is a per-browser setting, the alerts
+ *   must read the same for every user.
+ * Days come from the reporting journalier (nbr, waterL, tempMin/tempMax), completed by the suivi technique hebdo rows
+ * (mortaliteNbre, consoEauL) for days without a report. Built from the existing clients only; acknowledgements and
+ * snoozes are stored by /api/anomaly-acknowledgements.
+ */
+
+import {
+  api,
+  type AnomalyAcknowledgementResponse,
+  type DailyReportResponse,
+  type SetupInfoResponse,
+  type SuiviTechniqueHebdoResponse,
+} from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import { mapWithConcurrency } from "@/lib/mapWithConcurrency";
+import { normalizeBatimentName } from "@/lib/mergeDailyReportsIntoWeeklyHebdo";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { loadProfileNormeFallback } from "@/lib/performanceNormeProfilesShared";
+
+export type DailyAnomalyKind = "mortalite" | "eau" | "temperature";
+
+export const DAILY_ANOMALY_KIND_LABELS: Record<DailyAnomalyKind, string> = {
+  mortalite: "Mortalité",
+  eau: "Consommation d'eau",
+  temperature: "Température",
+};
+
+export type DailyAnomalySeverity = "critical" | "warning";
+
+export interface DailyAnomaly {
+  /** Stable across reloads: kind|farmId|lot|date|bâtiment|sex (acknowledgements are keyed on it). */
+  id: string;
+  kind: DailyAnomalyKind;
+  severity: DailyAnomalySeverity;
+  farmId: number;
+  lot: string;
+  /** yyyy-mm-dd */
+  date: string;
+  ageJour: number | null;
+  batiment: string;
+  sex: string;
+  message: string;
+  /** Reporting journalier of the day. */
+  link: string;
+}
+
+/** Thresholds of the detection (not configurable per farm yet). */
+export const DAILY_ANOMALY_THRESHOLDS = {
+  /** Only the last days of each lot are reported; older days only feed the baselines. */
+  windowDays: 14,
+  /** Days in the rolling mortality baseline, and the minimum needed to use it. */
+  mortaliteBaselineDays: 7,
+  mortaliteMinBaselineDays: 3,
+  /** Fewer deaths than this never raise an alert, whatever the baseline. */
+  mortaliteMinCount: 3,
+  mortaliteWarningFactor: 2,
+  mortaliteCriticalFactor: 3,
+  eauBaselineDays: 3,
+  eauMinBaselineDays: 2,
+  /** Drop vs the baseline, as a fraction. */
+  eauWarningDrop: 0.15,
+  eauCriticalDrop: 0.3,
+  /** °C beyond the band for a critical alert. */
+  temperatureCriticalDelta: 3,
+} as const;
+
+/** Ambient comfort band (°C) per age: brooding first, then decreasing. */
+const TEMPERATURE_BANDS: { maxAgeJour: number; min: number; max: number }[] = [
+  { maxAgeJour: 7, min: 26, max: 38 },
+  { maxAgeJour: 14, min: 22, max: 35 },
+  { maxAgeJour: 28, min: 18, max: 32 },
+  { maxAgeJour: Infinity, min: 12, max: 30 },
+];
+
+export interface DailyAnomalySources {
+  dailyReports: DailyReportResponse[];
+  suiviHebdo: SuiviTechniqueHebdoResponse[];
+  setupInfo: SetupInfoResponse[];
+  /** Viabilité norme (%) per `${sex}|S${n}`: farm norme, else the souche profile. */
+  viabiliteNormes: Map<string, number>;
+}
+
+interface DayPoint {
+  date: string;
+  ageJour: number | null;
+  mortalite: number | null;
+  eau: number | null;
+  tempMin: number | null;
+  tempMax: number | null;
+}
+
+function isoDate(value: string | null | undefined): string | null {
+  const m = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  return m ? m[1] : null;
+}
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function fmt(n: number, decimals = 0): string {
+  return formatGroupedNumber(n, decimals);
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function sum(a: number | null, b: number | null | undefined): number | null {
+  return b == null ? a : (a ?? 0) + b;
+}
+
+function semaineOfAge(ageJour: number | null): number | null {
+  return ageJour != null && ageJour > 0 ? Math.ceil(ageJour / 7) : null;
+}
+
+function seriesKey(batiment: string, sex: string): string {
+  return `${batiment}|${sex}`;
+}
+
+/** Day points per bâtiment / sex, sorted by date: reporting journalier first, suivi hebdo for the missing days. */
+function daySeries(sources: DailyAnomalySources): Map<string, DayPoint[]> {
+  const byDay = new Map<string, DayPoint & { batiment: string; sex: string }>();
+  for (const r of sources.dailyReports) {
+    const date = isoDate(r.reportDate);
+    const batiment = normalizeBatimentName(r.building ?? "");
+    if (!date || !batiment || !r.designation) continue;
+    const key = `${date}|${seriesKey(batiment, r.designation)}`;
+    const p = byDay.get(key) ?? {
+      date,
+      batiment,
+      sex: r.designation,
+      ageJour: r.ageJour ?? null,
+      mortalite: null,
+      eau: null,
+      tempMin: null,
+      tempMax: null,
+    };
+    p.mortalite = sum(p.mortalite, r.nbr);
+    p.eau = sum(p.eau, r.waterL);
+    if (r.tempMin != null) p.tempMin = p.tempMin == null ? r.tempMin : Math.min(p.tempMin, r.tempMin);
+    if (r.tempMax != null) p.tempMax = p.tempMax == null ? r.tempMax : Math.max(p.tempMax, r.tempMax);
+    byDay.set(key, p);
+  }
+  for (const r of sources.suiviHebdo) {
+    const date = isoDate(r.recordDate);
+    const batiment = normalizeBatimentName(r.batiment ?? "");
+    if (!date || !batiment || r.isPlaceholder) continue;
+    const key = `${date}|${seriesKey(batiment, r.sex)}`;
+    if (byDay.has(key)) continue;
+    byDay.set(key, {
+      date,
+      batiment,
+      sex: r.sex,
+      ageJour: r.ageJour ?? null,
+      mortalite: r.mortaliteNbre ?? null,
+      eau: r.consoEauL ?? null,
+      tempMin: r.tempMin ?? null,
+      tempMax: r.tempMax ?? null,
+    });
+  }
+  const series = new Map<string, DayPoint[]>();
+  for (const { batiment, sex, ...point } of byDay.values()) {
+    const key = seriesKey(batiment, sex);
+    series.set(key, [...(series.get(key) ?? []), point]);
+  }
+  for (const points of series.values()) points.sort((a, b) => a.date.localeCompare(b.date));
+  return series;
+}
+
+/** Daily mortality (% of the effectif) implied by the drop of the viabilité norme over the semaine. */
+function normDailyMortalityPct(normes: Map<string, number>, sex: string, semaine: number | null): number | null {
+  if (semaine == null) return null;
+  const current = normes.get(`${sex}|S${semaine}`);
+  const previous = semaine === 1 ? 100 : normes.get(`${sex}|S${semaine - 1}`);
+  if (current == null || previous == null || previous < current) return null;
+  return (previous - current) / 7;
+}
+
+function temperatureBand(ageJour: number | null) {
+  return TEMPERATURE_BANDS.find((b) => (ageJour ?? 0) <= b.maxAgeJour) ?? TEMPERATURE_BANDS[TEMPERATURE_BANDS.length - 1];
+}
+
+/** (sex, semaine) pairs whose viabilité norme the detection needs: the semaines of the window and the one before. */
+export function neededViabiliteNormes(sources: Omit<DailyAnomalySources, "viabiliteNormes">): { sex: string; semaine: string }[] {
+  const series = daySeries({ ...sources, viabiliteNormes: new Map() });
+  const needed = new Map<string, { sex: string; semaine: string }>();
+  for (const [key, points] of series) {
+    const sex = key.split("|")[1];
+    const last = points[points.length - 1];
+    const windowStart = addDays(last.date, -DAILY_ANOMALY_THRESHOLDS.windowDays + 1);
+    for (const p of points) {
+      const n = semaineOfAge(p.ageJour);
+      if (p.date < windowStart || n == null) continue;
+      for (const s of n > 1 ? [n - 1, n] : [n]) needed.set(`${sex}|S${s}`, { sex, semaine: `S${s}` });
+    }
+  }
+  return [...needed.values()];
+}
+
+export function detectDailyAnomalies(sources: DailyAnomalySources, farmId: number, lot: string): DailyAnomaly[] {
+  const t = DAILY_ANOMALY_THRESHOLDS;
+  const effectifs = new Map<string, number>();
+  for (const s of sources.setupInfo) {
+    const key = seriesKey(normalizeBatimentName(s.building ?? ""), s.sex);
+    effectifs.set(key, (effectifs.get(key) ?? 0) + (s.effectifMisEnPlace ?? 0));
+  }
+
+  const anomalies: DailyAnomaly[] = [];
+  for (const [key, points] of daySeries(sources)) {
+    const [batiment, sex] = key.split("|");
+    const windowStart = addDays(points[points.length - 1].date, -t.windowDays + 1);
+    const effectifInitial = effectifs.get(key) ?? null;
+    let mortsCumul = 0;
+
+    points.forEach((p, i) => {
+      const effectif = effectifInitial != null && effectifInitial > 0 ? effectifInitial - mortsCumul : null;
+      mortsCumul += p.mortalite ?? 0;
+      if (p.date < windowStart) return;
+
+      const where = `Lot ${lot} · ${batiment} ${sex}${p.ageJour != null ? ` · J${p.ageJour}` : ""}`;
+      const push = (kind: DailyAnomalyKind, severity: DailyAnomalySeverity, detail: string) =>
+        anomalies.push({
+          id: [kind, farmId, lot, p.date, batiment, sex].join("|"),
+          kind,
+          severity,
+          farmId,
+          lot,
+          date: p.date,
+          ageJour: p.ageJour,
+          batiment,
+          sex,
+          message: `${where} — ${detail}`,
+          link: `/reporting-journalier?farmId=${farmId}&lot=${encodeURIComponent(lot)}&date=${p.date}`,
+        });
+
+      // Mortalité vs rolling baseline and viabilité norme
+      if (p.mortalite != null && p.mortalite >= t.mortaliteMinCount) {
+        const previous = points
+          .slice(Math.max(0, i - t.mortaliteBaselineDays), i)
+          .map((q) => q.mortalite)
+          .filter((v): v is number => v != null);
+        const baseline = previous.length >= t.mortaliteMinBaselineDays ? mean(previous) : null;
+        const normPct = normDailyMortalityPct(sources.viabiliteNormes, sex, semaineOfAge(p.ageJour));
+        const normCount = normPct != null && effectif != null ? (normPct * effectif) / 100 : null;
+        if (baseline != null || normCount != null) {
+          const reference = Math.max(baseline ?? 0, normCount ?? 0, 1);
+          const factor = p.mortalite / reference;
+          if (factor >= t.mortaliteWarningFactor) {
+            const pct = effectif != null && effectif > 0 ? ` (${fmt((p.mortalite / effectif) * 100, 2)} %)` : "";
+            const refs = [
+              baseline != null ? `moyenne ${previous.length} j : ${fmt(baseline, 1)}` : null,
+              normCount != null ? `norme viabilité : ${fmt(normCount, 1)}` : null,
+            ].filter(Boolean);
+            push(
+              "mortalite",
+              factor >= t.mortaliteCriticalFactor ? "critical" : "warning",
+              `${fmt(p.mortalite)} morts${pct}, ×${fmt(factor, 1)} la référence (${refs.join(", ")})`
+            );
+          }
+        }
+      }
+
+      // Eau: drop vs the previous days
+      if (p.eau != null) {
+        const previous = points
+          .slice(Math.max(0, i - t.eauBaselineDays), i)
+          .map((q) => q.eau)
+          .filter((v): v is number => v != null && v > 0);
+        const baseline = previous.length >= t.eauMinBaselineDays ? mean(previous) : null;
+        if (baseline != null) {
+          const drop = 1 - p.eau / baseline;
+          if (drop >= t.eauWarningDrop) {
+            push(
+              "eau",
+              drop >= t.eauCriticalDrop ? "critical" : "warning",
+              `eau ${fmt(p.eau)} L, −${fmt(drop * 100)} % vs la moyenne des ${previous.length} jours précédents (${fmt(baseline)} L)`
+            );
+          }
+        }
+      }
+
+      // Température hors plage de l'âge
+      const band = temperatureBand(p.ageJour);
+      const low = p.tempMin != null && p.tempMin < band.min ? band.min - p.tempMin : 0;
+      const high = p.tempMax != null && p.tempMax > band.max ? p.tempMax - band.max : 0;
+      if (low > 0 || high > 0) {
+        const parts = [
+          low > 0 ? `min ${fmt(p.tempMin as number, 1)} °C` : null,
+          high > 0 ? `max ${fmt(p.tempMax as number, 1)} °C` : null,
+        ].filter(Boolean);
+        push(
+          "temperature",
+          Math.max(low, high) >= t.temperatureCriticalDelta ? "critical" : "warning",
+          `température ${parts.join(", ")} hors plage ${fmt(band.min, 1)}–${fmt(band.max, 1)} °C`
+        );
+      }
+    });
+  }
+  return anomalies.sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) ||
+      Number(b.severity === "critical") - Number(a.severity === "critical") ||
+      a.message.localeCompare(b.message, undefined, { numeric: true })
+  );
+}
+
+/** Not acknowledged, or snoozed until a date already passed. */
+export function isAnomalyOpen(
+  anomaly: Pick<DailyAnomaly, "id">,
+  acknowledgements: Map<string, AnomalyAcknowledgementResponse>,
+  now: Date = new Date()
+): boolean {
+  const ack = acknowledgements.get(anomaly.id);
+  if (!ack) return true;
+  return ack.snoozedUntil != null && new Date(ack.snoozedUntil) <= now;
+}
+
+/** Parallel performanceNorme requests (one per sex × semaine of the window). */
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Fetch the lot data, then the viabilité normes of the semaines in the window. Rejects when a source fails: a lot
+ * that could not be loaded must not read as a lot without anomalies.
+ */
+export async function loadDailyAnomalySources(farmId: number, lot: string): Promise<DailyAnomalySources> {
+  const [dailyReports, suiviHebdo, setupInfo, profileNorme] = await Promise.all([
+    api.dailyReports.list(farmId, lot),
+    api.suiviTechniqueHebdo.list({ farmId, lot }),
+    api.setupInfo.list(farmId, lot),
+    loadProfileNormeFallback(farmId, lot),
+  ]);
+  const base = { dailyReports: dailyReports ?? [], suiviHebdo: suiviHebdo ?? [], setupInfo: setupInfo ?? [] };
+  const viabiliteNormes = new Map<string, number>();
+  await mapWithConcurrency(neededViabiliteNormes(base), MAX_CONCURRENT_REQUESTS, async ({ sex, semaine }) => {
+    const farm = await noneIfNotFound(api.performanceNorme.get({ farmId, semaine, sex }));
+    const value = farm?.viabiliteNorme ?? profileNorme(sex, semaine)?.viabiliteNorme ?? null;
+    if (value != null) viabiliteNormes.set(`${sex}|${semaine}`, value);
+  });
+  return { ...base, viabiliteNormes };
+}
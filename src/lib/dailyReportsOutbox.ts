@@ -0,0 +1,116 @@
+/**
+ * Reporting journalier writes through the offline outbox (see offlineOutbox.ts).
+ * Conflict detection uses DailyReportResponse.version: a queued write is only replayed when the
+ * rows it was based on are unchanged on the server (or when the user forces it).
+ */
+
+import { api, type DailyReportRequest, type DailyReportResponse } from "@/lib/api";
+import {
+  enqueueOutbox,
+  listOutbox,
+  registerOutboxHandler,
+  type OutboxEntry,
+  type OutboxReplayResult,
+} from "@/lib/offlineOutbox";
+
+export const DAILY_REPORTS_OUTBOX_KIND = "dailyReports";
+
+export type DailyReportOutboxPayload =
+  | { op: "createBatch"; rows: DailyReportRequest[] }
+  | { op: "replaceBatch"; reportDate: string; rows: DailyReportRequest[] }
+  | { op: "update"; id: number; row: DailyReportRequest };
+
+function comboKey(r: { reportDate: string; building: string; designation: string }): string {
+  return `${r.reportDate}|${r.building}|${r.designation}`;
+}
+
+/** Server versions of the given rows (id → version), stored with the queued write. */
+export function dailyReportBaseVersions(rows: Pick<DailyReportResponse, "id" | "version">[]): Record<number, number> {
+  const out: Record<number, number> = {};
+  for (const r of rows) out[r.id] = r.version;
+  return out;
+}
+
+function detectConflict(
+  payload: DailyReportOutboxPayload,
+  server: DailyReportResponse[],
+  baseVersions: Record<number, number>
+): string | null {
+  if (payload.op === "update") {
+    const current = server.find((r) => r.id === payload.id);
+    if (!current) return "La ligne a été supprimée sur le serveur.";
+    const base = baseVersions[payload.id];
+    if (base != null && current.version !== base) {
+      return `La ligne du ${current.reportDate} (${current.building} — ${current.designation}) a été modifiée par un autre utilisateur.`;
+    }
+    return null;
+  }
+  if (payload.op === "createBatch") {
+    const existing = new Set(server.map(comboKey));
+    const dup = payload.rows.find((r) => existing.has(comboKey(r)));
+    return dup
+      ? `Un rapport existe déjà pour le ${dup.reportDate} (${dup.building} — ${dup.designation}).`
+      : null;
+  }
+  const forDate = server.filter((r) => r.reportDate === payload.reportDate);
+  const changed = forDate.some((r) => baseVersions[r.id] == null || baseVersions[r.id] !== r.version);
+  return changed ? `Les rapports du ${payload.reportDate} ont été modifiés depuis la saisie hors ligne.` : null;
+}
+
+async function replayDailyReport(entry: OutboxEntry): Promise<OutboxReplayResult> {
+  const payload = entry.payload as DailyReportOutboxPayload;
+  const farmId = entry.farmId ?? undefined;
+  if (!entry.force) {
+    const server = await api.dailyReports.list(farmId, entry.lot ?? undefined);
+    const conflict = detectConflict(payload, server, entry.baseVersions ?? {});
+    if (conflict) return { status: "conflict", message: conflict };
+  }
+  if (payload.op === "update") {
+    await api.dailyReports.update(payload.id, payload.row);
+  } else if (payload.op === "createBatch") {
+    await api.dailyReports.createBatch(payload.rows, farmId);
+  } else {
+    await api.dailyReports.replaceBatch(payload.reportDate, payload.rows, farmId);
+  }
+  return { status: "ok" };
+}
+
+// replaceBatch and update set the rows to the queued values: replaying them after a timeout cannot duplicate
+registerOutboxHandler(DAILY_REPORTS_OUTBOX_KIND, replayDailyReport, { idempotentOps: ["replaceBatch", "update"] });
+
+/** Queue a daily report write that could not reach the server. */
+export function enqueueDailyReportWrite(
+  payload: DailyReportOutboxPayload,
+  ctx: { farmId?: number | null; lot?: string | null; baseVersions?: Record<number, number> }
+): Promise<OutboxEntry<DailyReportOutboxPayload>> {
+  const date =
+    payload.op === "replaceBatch"
+      ? payload.reportDate
+      : payload.op === "update"
+        ? payload.row.reportDate
+        : payload.rows[0]?.reportDate ?? null;
+  return enqueueOutbox<DailyReportOutboxPayload>({
+    kind: DAILY_REPORTS_OUTBOX_KIND,
+    op: payload.op,
+    payload,
+    farmId: ctx.farmId ?? null,
+    lot: ctx.lot?.trim() || null,
+    date,
+    baseVersions: ctx.baseVersions,
+  });
+}
+
+/** Pending daily report entries for a farm/lot (all statuses), oldest first. */
+export function listPendingDailyReports(
+  farmId?: number | null,
+  lot?: string | null
+): Promise<OutboxEntry<DailyReportOutboxPayload>[]> {
+  return listOutbox({ kind: DAILY_REPORTS_OUTBOX_KIND, farmId, lot }) as Promise<
+    OutboxEntry<DailyReportOutboxPayload>[]
+  >;
+}
+
+/** Rows carried by a queued entry (one for update, several for batch ops). */
+export function dailyReportOutboxRows(payload: DailyReportOutboxPayload): DailyReportRequest[] {
+  return payload.op === "update" ? [payload.row] : payload.rows;
+}
@@ -0,0 +1,232 @@
+/**
+ * Duplicate delivery notes (N° BL / N° BR) across the livraison pages, Dépenses divers and vide sanitaire.
+ *
+ * A note is identified by (fournisseur, kind, number): the same BL of the same supplier entered twice for a farm,
+ * on the same page or on two pages (e.g. aliment and dépenses divers), is a duplicate. Numbers are compared
+ * without spaces / separators / leading zeros and case-insensitively. The farm index (all lots) is loaded from the
+ * list endpoints; the rows of the grid being edited are checked client-side as well (drafts are not on the server).
+ */
+
+import { api } from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import type { QueryNamespace } from "@/lib/queryInvalidation";
+
+export type DeliveryNoteSource = Extract<
+  QueryNamespace,
+  | "livraisonsAliment"
+  | "livraisonsGaz"
+  | "livraisonsPaille"
+  | "livraisonsProduitsVeterinaires"
+  | "livraisonsProduitsHygiene"
+  | "depensesDivers"
+  | "videSanitaire"
+  | "videSanitairePaille"
+  | "videSanitaireGaz"
+>;
+
+export const DELIVERY_NOTE_SOURCES: Record<DeliveryNoteSource, { label: string; path: string }> = {
+  livraisonsAliment: { label: "Livraisons aliment", path: "/livraisons-aliment" },
+  livraisonsGaz: { label: "Livraisons gaz", path: "/livraisons-gaz" },
+  livraisonsPaille: { label: "Livraisons paille", path: "/livraisons-paille" },
+  livraisonsProduitsVeterinaires: { label: "Produits vétérinaires", path: "/produits-veterinaires" },
+  livraisonsProduitsHygiene: { label: "Produits hygiène", path: "/produits-hygiene" },
+  depensesDivers: { label: "Dépenses divers", path: "/depenses-divers" },
+  videSanitaire: { label: "Vide sanitaire hygiène", path: "/produits-hygiene" },
+  videSanitairePaille: { label: "Vide sanitaire paille", path: "/livraisons-paille" },
+  videSanitaireGaz: { label: "Vide sanitaire gaz", path: "/livraisons-gaz" },
+};
+
+export type DeliveryNoteKind = "BL" | "BR";
+
+export interface DeliveryNoteEntry {
+  source: DeliveryNoteSource;
+  /** Server id (null: unsaved row of the current grid). */
+  id: number | null;
+  /** Row key in the current grid (client-side check only). */
+  rowKey?: string;
+  farmId: number | null;
+  lot: string | null;
+  semaine: string | null;
+  date: string | null;
+  supplier: string | null;
+  designation?: string | null;
+  kind: DeliveryNoteKind;
+  number: string;
+}
+
+export function normalizeNoteNumber(number: string | null | undefined): string {
+  return (number ?? "")
+    .trim()
+    .toUpperCase()
+    .replace(/[\s./_-]/g, "")
+    .replace(/^0+(?=\d)/, "");
+}
+
+function normalizeSupplier(supplier: string | null | undefined): string {
+  return (supplier ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Candidate notes of a row (BL and / or BR); empty numbers are skipped. */
+export function deliveryNoteEntriesOf(
+  base: Omit<DeliveryNoteEntry, "kind" | "number">,
+  notes: { bl?: string | null; br?: string | null }
+): DeliveryNoteEntry[] {
+  const out: DeliveryNoteEntry[] = [];
+  if (normalizeNoteNumber(notes.bl)) out.push({ ...base, kind: "BL", number: (notes.bl as string).trim() });
+  if (normalizeNoteNumber(notes.br)) out.push({ ...base, kind: "BR", number: (notes.br as string).trim() });
+  return out;
+}
+
+function sameEntry(a: DeliveryNoteEntry, b: DeliveryNoteEntry): boolean {
+  if (a.source !== b.source) return false;
+  // One vide sanitaire record per lot and page
+  if (a.source.startsWith("videSanitaire")) return a.lot === b.lot;
+  if (a.id != null && b.id != null) return a.id === b.id;
+  return a.rowKey != null && a.rowKey === b.rowKey;
+}
+
+/** Entries of `index` with the same (supplier, kind, number) as one of the candidates, excluding the row itself. */
+export function findDeliveryNoteDuplicates(
+  candidates: DeliveryNoteEntry[],
+  index: DeliveryNoteEntry[]
+): DeliveryNoteEntry[] {
+  const out: DeliveryNoteEntry[] = [];
+  for (const c of candidates) {
+    const number = normalizeNoteNumber(c.number);
+    const supplier = normalizeSupplier(c.supplier);
+    for (const e of index) {
+      if (e.kind !== c.kind || normalizeNoteNumber(e.number) !== number) continue;
+      if (normalizeSupplier(e.supplier) !== supplier) continue;
+      // A saved row of the grid is also in the server index: list it once
+      if (sameEntry(c, e) || out.some((o) => o === e || (o.kind === e.kind && sameEntry(o, e)))) continue;
+      out.push(e);
+    }
+  }
+  return out;
+}
+
+/** Page of the existing row, on its lot / semaine; `row` lets the page scroll to and highlight it. */
+export function deliveryNoteEntryUrl(entry: DeliveryNoteEntry): string {
+  const q = new URLSearchParams();
+  if (entry.farmId != null) q.set("farmId", String(entry.farmId));
+  if (entry.lot) q.set("lot", entry.lot);
+  if (entry.semaine) q.set("semaine", entry.semaine);
+  if (entry.id != null && !entry.source.startsWith("videSanitaire")) q.set("row", String(entry.id));
+  return `${DELIVERY_NOTE_SOURCES[entry.source].path}?${q.toString()}`;
+}
+
+/** Editable grid row (livraison pages, Dépenses divers); `id` is the client row key. */
+export interface GridNoteRow {
+  id: string;
+  serverId?: number | null;
+  date?: string;
+  sem?: string;
+  supplier?: string;
+  designation?: string;
+}
+
+export function gridDeliveryNoteEntries<R extends GridNoteRow>(
+  source: DeliveryNoteSource,
+  rows: R[],
+  ctx: { farmId: number | null; lot: string },
+  notesOf: (r: R) => { bl?: string | null; br?: string | null }
+): DeliveryNoteEntry[] {
+  return rows.flatMap((r) =>
+    deliveryNoteEntriesOf(
+      {
+        source,
+        id: r.serverId ?? null,
+        rowKey: r.id,
+        farmId: ctx.farmId,
+        lot: ctx.lot || null,
+        semaine: r.sem?.trim() || null,
+        date: r.date?.trim() || null,
+        supplier: r.supplier ?? null,
+        designation: r.designation ?? null,
+      },
+      notesOf(r)
+    )
+  );
+}
+
+type ListedRow = {
+  id: number;
+  farmId: number;
+  lot?: string | null;
+  date?: string | null;
+  sem?: string | null;
+  supplier?: string | null;
+  designation?: string | null;
+};
+
+function entriesFromList<T extends ListedRow>(
+  source: DeliveryNoteSource,
+  rows: T[] | null | undefined,
+  notesOf: (r: T) => { bl?: string | null; br?: string | null },
+  semaineOf: (r: T) => string | null = (r) => r.sem ?? null
+): DeliveryNoteEntry[] {
+  return (rows ?? []).flatMap((r) =>
+    deliveryNoteEntriesOf(
+      {
+        source,
+        id: r.id,
+        farmId: r.farmId,
+        lot: r.lot ?? null,
+        semaine: semaineOf(r),
+        date: r.date ?? null,
+        supplier: r.supplier ?? null,
+        designation: r.designation ?? null,
+      },
+      notesOf(r)
+    )
+  );
+}
+
+/**
+ * Every BL / BR of the farm (all lots). A lot without vide sanitaire record (404) contributes nothing; any other
+ * failure rejects, so the caller never treats an incomplete index as "no duplicate".
+ */
+export async function loadDeliveryNoteIndex(farmId: number): Promise<DeliveryNoteEntry[]> {
+  const params = { farmId };
+  const [aliment, gaz, paille, veterinaires, hygiene, depenses, lots] = await Promise.all([
+    api.livraisonsAliment.list(params),
+    api.livraisonsGaz.list(params),
+    api.livraisonsPaille.list(params),
+    api.livraisonsProduitsVeterinaires.list(params),
+    api.livraisonsProduitsHygiene.list(params),
+    api.depensesDivers.list(params),
+    api.farms.lotsWithStatus(farmId),
+  ]);
+
+  // Vide sanitaire: one record per lot and page
+  const vs = await Promise.all(
+    (lots ?? []).map(async ({ lot }) => {
+      const [hyg, pai, gz] = await Promise.all([
+        noneIfNotFound(api.videSanitaire.get({ farmId, lot })),
+        noneIfNotFound(api.videSanitairePaille.get({ farmId, lot })),
+        noneIfNotFound(api.videSanitaireGaz.get({ farmId, lot })),
+      ]);
+      const vsNotes = (r: ListedRow & { deliveryNoteNumber?: string | null; numeroBR?: string | null }) => ({
+        bl: r.deliveryNoteNumber,
+        br: r.numeroBR,
+      });
+      return [
+        ...entriesFromList("videSanitaire", hyg ? [{ ...hyg, lot: hyg.lot ?? lot }] : [], vsNotes, () => "VS"),
+        ...entriesFromList("videSanitairePaille", pai ? [{ ...pai, lot: pai.lot ?? lot }] : [], vsNotes, () => "VS"),
+        ...entriesFromList("videSanitaireGaz", gz ? [{ ...gz, lot: gz.lot ?? lot }] : [], vsNotes, () => "VS"),
+      ];
+    })
+  );
+
+  return [
+    ...entriesFromList("livraisonsAliment", aliment, (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBonReception })),
+    ...entriesFromList("livraisonsGaz", gaz, (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBR })),
+    ...entriesFromList("livraisonsPaille", paille, (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBR })),
+    // The N° BR column of Produits vétérinaires is stored as deliveryNoteNumber
+    ...entriesFromList("livraisonsProduitsVeterinaires", veterinaires, (r) => ({ br: r.deliveryNoteNumber })),
+    ...entriesFromList("livraisonsProduitsHygiene", hygiene, (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBR })),
+    // Dépenses divers keep the semaine label in `age`
+    ...entriesFromList("depensesDivers", depenses, (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBR }), (r) => r.age ?? null),
+    ...vs.flat(),
+  ];
+}
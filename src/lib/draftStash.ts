@@ -0,0 +1,63 @@
+/**
+ * Unsaved page state kept across a forced re-login (session expired → Déconnexion, tab reloaded…).
+ * A page stashes its draft when the session expires; after the same user logs in again and comes back to the
+ * same URL, useDraftStash hands the draft back once the page has loaded its data.
+ * One entry per page URL in localStorage, dropped after DRAFT_MAX_AGE_MS or once restored.
+ */
+
+const DRAFT_STASH_PREFIX = "elevagepro_draft:";
+const DRAFT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+interface StashedDraft {
+  username: string;
+  savedAt: number;
+  data: unknown;
+}
+
+export function stashDraft(username: string, page: string, data: unknown): void {
+  try {
+    const entry: StashedDraft = { username, savedAt: Date.now(), data };
+    localStorage.setItem(DRAFT_STASH_PREFIX + page, JSON.stringify(entry));
+  } catch {
+    /* quota or private mode: the draft is simply not kept */
+  }
+}
+
+export function dropStashedDraft(page: string): void {
+  try {
+    localStorage.removeItem(DRAFT_STASH_PREFIX + page);
+  } catch {
+    /* ignore */
+  }
+}
+
+/** The draft stashed by `username` for this page (removed from storage), or null. */
+export function takeStashedDraft<T>(username: string, page: string): T | null {
+  try {
+    const raw = localStorage.getItem(DRAFT_STASH_PREFIX + page);
+    if (!raw) return null;
+    const entry = JSON.parse(raw) as StashedDraft;
+    // Another user's draft stays for them; an old one is dropped
+    if (entry.username !== username) return null;
+    dropStashedDraft(page);
+    return Date.now() - entry.savedAt <= DRAFT_MAX_AGE_MS ? (entry.data as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+const GRID_ROW_BOOKKEEPING_KEYS = new Set(["id", "serverId", "version", "age", "date", "sem"]);
+
+/**
+ * True when some unsaved grid row holds input, i.e. differs from `blank(row)`, the blank row the page would add
+ * at the same place (same semaine, date…): padding rows added by the page do not count.
+ */
+export function hasUnsavedGridRows<R extends { serverId?: number | null }>(rows: R[], blank: (row: R) => R): boolean {
+  return rows.some((row) => {
+    if (row.serverId != null) return false;
+    const empty = blank(row) as Record<string, unknown>;
+    return Object.entries(row).some(
+      ([key, value]) => !GRID_ROW_BOOKKEEPING_KEYS.has(key) && String(value ?? "") !== String(empty[key] ?? "")
+    );
+  });
+}
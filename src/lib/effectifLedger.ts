@@ -0,0 +1,247 @@
+/**
+ * Registre des effectifs (/registre-effectifs): bird count of each bâtiment / sex of a lot, week by week.
+ * Start (mise en place for S1, end of the previous week after) − mortalité − mortalité du transport (first day of S1,
+ * as in the suivi hebdo "MORTALITE DU TRANSPORT" line) − vente − consommation − autre (suiviProductionHebdo) = end.
+ * The computed values are checked against what is recorded elsewhere: placements, effectif départ of the hebdo
+ * lines, effectif restant of suiviStock and the sorties of the sex (all bâtiments of the week together).
+ */
+
+import {
+  api,
+  type PlacementResponse,
+  type SetupInfoResponse,
+  type SortieResponse,
+  type SuiviProductionHebdoResponse,
+  type SuiviStockResponse,
+  type SuiviTechniqueHebdoResponse,
+} from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import { mapWithConcurrency } from "@/lib/mapWithConcurrency";
+import { normalizeBatimentName, parseSemaineIndex } from "@/lib/mergeDailyReportsIntoWeeklyHebdo";
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+
+export type EffectifEcartKind = "placement" | "effectifDepart" | "effectifRestant" | "sorties";
+
+export const EFFECTIF_ECART_LABELS: Record<EffectifEcartKind, string> = {
+  placement: "Mise en place ≠ placements",
+  effectifDepart: "Effectif départ saisi ≠ calculé",
+  effectifRestant: "Effectif restant ≠ calculé",
+  sorties: "Production ≠ sorties ferme",
+};
+
+export interface EffectifEcart {
+  kind: EffectifEcartKind;
+  /** Recorded − computed (or production − sorties). */
+  ecart: number;
+  recorded: number;
+  expected: number;
+  /** Page where the discrepancy originates. */
+  link: string;
+}
+
+export interface EffectifLedgerWeek {
+  semaine: string;
+  start: number | null;
+  mortalite: number;
+  mortaliteTransport: number;
+  vente: number;
+  consommation: number;
+  autre: number;
+  end: number | null;
+  ecarts: EffectifEcart[];
+}
+
+export interface EffectifLedgerGroup {
+  batiment: string;
+  sex: string;
+  effectifMisEnPlace: number;
+  weeks: EffectifLedgerWeek[];
+}
+
+export interface EffectifLedgerSources {
+  setupInfo: SetupInfoResponse[];
+  placements: PlacementResponse[];
+  hebdoRows: SuiviTechniqueHebdoResponse[];
+  sorties: SortieResponse[];
+  /** Keyed by `${semaine}|${batiment}|${sex}` (batiment as in setupInfo). */
+  production: Map<string, SuiviProductionHebdoResponse>;
+  stock: Map<string, SuiviStockResponse>;
+}
+
+/** Sortie types that carry birds, by production column (same split as the sync of sorties into production). */
+const SORTIE_TYPES_WITH_BIRDS = ["Vente Dinde Vive", "Consommation Employés (kg)", "Gratuite (kg)"];
+
+function weekKey(semaine: string, batiment: string, sex: string): string {
+  return `${semaine}|${batiment}|${sex}`;
+}
+
+function isFemale(value: string | null | undefined): boolean {
+  return (value ?? "").toLowerCase().includes("fem");
+}
+
+function lotQuery(farmId: number, lot: string): string {
+  return `farmId=${farmId}&lot=${encodeURIComponent(lot)}`;
+}
+
+/** Bâtiment / sex pairs of the mise en place, effectif summed over setup lines. */
+function setupGroups(setupInfo: SetupInfoResponse[]): { batiment: string; sex: string; effectifMisEnPlace: number }[] {
+  const groups = new Map<string, { batiment: string; sex: string; effectifMisEnPlace: number }>();
+  for (const s of setupInfo) {
+    if (!s.building || !s.sex) continue;
+    const key = `${normalizeBatimentName(s.building)}|${s.sex}`;
+    const g = groups.get(key) ?? { batiment: s.building, sex: s.sex, effectifMisEnPlace: 0 };
+    g.effectifMisEnPlace += s.effectifMisEnPlace ?? 0;
+    groups.set(key, g);
+  }
+  return [...groups.values()].sort((a, b) => a.batiment.localeCompare(b.batiment) || a.sex.localeCompare(b.sex));
+}
+
+function hebdoRowsOf(rows: SuiviTechniqueHebdoResponse[], batiment: string, sex: string): SuiviTechniqueHebdoResponse[] {
+  return rows.filter(
+    (h) => h.sex === sex && normalizeBatimentName(h.batiment ?? "") === normalizeBatimentName(batiment) && h.semaine
+  );
+}
+
+/** Last semaine (Sn) with hebdo lines for the group. */
+function lastSemaineIndex(rows: SuiviTechniqueHebdoResponse[]): number {
+  return Math.max(0, ...rows.map((h) => parseSemaineIndex(canonicalSemaine(h.semaine as string)) ?? 0));
+}
+
+/** Parallel production / stock requests (one each per semaine × bâtiment / sex). */
+const MAX_CONCURRENT_REQUESTS = 6;
+
+/**
+ * Lists of the lot, then the production and stock of every semaine with hebdo lines. A semaine without production
+ * or stock (404) has none; any other failure rejects, so the registre never reads a missing source as zero.
+ */
+export async function loadEffectifLedgerSources(farmId: number, lot: string): Promise<EffectifLedgerSources> {
+  const [setupInfo, placements, hebdoRows, sorties] = await Promise.all([
+    api.setupInfo.list(farmId, lot),
+    api.placements.list(farmId),
+    api.suiviTechniqueHebdo.list({ farmId, lot }),
+    api.sorties.list({ farmId, lot }),
+  ]);
+  const weeks: { semaine: string; batiment: string; sex: string }[] = [];
+  for (const { batiment, sex } of setupGroups(setupInfo ?? [])) {
+    const last = lastSemaineIndex(hebdoRowsOf(hebdoRows ?? [], batiment, sex));
+    for (let n = 1; n <= last; n++) weeks.push({ semaine: `S${n}`, batiment, sex });
+  }
+  const production = new Map<string, SuiviProductionHebdoResponse>();
+  const stock = new Map<string, SuiviStockResponse>();
+  await mapWithConcurrency(weeks, MAX_CONCURRENT_REQUESTS, async ({ semaine, batiment, sex }) => {
+    const params = { farmId, lot, semaine, sex, batiment };
+    const [p, s] = await Promise.all([
+      noneIfNotFound(api.suiviProductionHebdo.get(params)),
+      noneIfNotFound(api.suiviStock.get(params)),
+    ]);
+    const key = weekKey(semaine, batiment, sex);
+    if (p) production.set(key, p);
+    if (s) stock.set(key, s);
+  });
+  return {
+    setupInfo: setupInfo ?? [],
+    placements: (placements ?? []).filter((p) => p.lot === lot),
+    hebdoRows: hebdoRows ?? [],
+    sorties: sorties ?? [],
+    production,
+    stock,
+  };
+}
+
+export function buildEffectifLedger(sources: EffectifLedgerSources, farmId: number, lot: string): EffectifLedgerGroup[] {
+  const q = lotQuery(farmId, lot);
+  const groups = setupGroups(sources.setupInfo).map((g): EffectifLedgerGroup => {
+    const rows = hebdoRowsOf(sources.hebdoRows, g.batiment, g.sex);
+    const last = lastSemaineIndex(rows);
+    const weeks: EffectifLedgerWeek[] = [];
+    let previousEnd: number | null = g.effectifMisEnPlace > 0 ? g.effectifMisEnPlace : null;
+
+    for (let n = 1; n <= last; n++) {
+      const semaine = `S${n}`;
+      const hebdoLink = `/suivi-technique-hebdomadaire?${q}&semaine=${semaine}&batiment=${encodeURIComponent(g.batiment)}`;
+      const weekRows = rows
+        .filter((h) => canonicalSemaine(h.semaine as string) === semaine && h.recordDate)
+        .sort((a, b) => a.recordDate.localeCompare(b.recordDate));
+      const morts = weekRows.reduce((sum, h) => sum + (h.mortaliteNbre ?? 0), 0);
+      const mortaliteTransport = n === 1 ? weekRows.find((h) => h.mortaliteNbre != null)?.mortaliteNbre ?? 0 : 0;
+      const p = sources.production.get(weekKey(semaine, g.batiment, g.sex));
+      const vente = p?.venteNbre ?? 0;
+      const consommation = p?.consoNbre ?? 0;
+      const autre = p?.autreNbre ?? 0;
+      const start = previousEnd;
+      const end = start != null ? start - morts - vente - consommation - autre : null;
+      const ecarts: EffectifEcart[] = [];
+
+      if (n === 1) {
+        const placed = sources.placements.filter(
+          (pl) => pl.sex === g.sex && normalizeBatimentName(pl.building) === normalizeBatimentName(g.batiment)
+        );
+        const placedCount = placed.reduce((sum, pl) => sum + (pl.initialCount ?? 0), 0);
+        if (placed.length > 0 && placedCount !== g.effectifMisEnPlace) {
+          ecarts.push({
+            kind: "placement",
+            ecart: placedCount - g.effectifMisEnPlace,
+            recorded: placedCount,
+            expected: g.effectifMisEnPlace,
+            link: `/infos-setup?${q}`,
+          });
+        }
+      }
+      const effectifDepart = weekRows.find((h) => h.effectifDepart != null)?.effectifDepart;
+      if (effectifDepart != null && start != null && effectifDepart !== start) {
+        ecarts.push({ kind: "effectifDepart", ecart: effectifDepart - start, recorded: effectifDepart, expected: start, link: hebdoLink });
+      }
+      const restant = sources.stock.get(weekKey(semaine, g.batiment, g.sex))?.effectifRestantFinSemaine;
+      if (restant != null && end != null && restant !== end) {
+        ecarts.push({ kind: "effectifRestant", ecart: restant - end, recorded: restant, expected: end, link: hebdoLink });
+      }
+
+      weeks.push({
+        semaine,
+        start,
+        mortalite: morts - mortaliteTransport,
+        mortaliteTransport,
+        vente,
+        consommation,
+        autre,
+        end,
+        ecarts,
+      });
+      previousEnd = end;
+    }
+    return { ...g, weeks };
+  });
+
+  // Sorties are recorded per sex, not per bâtiment: compare with the production of every bâtiment of the sex
+  const sexes = [...new Set(groups.map((g) => g.sex))];
+  const lastWeek = Math.max(0, ...groups.map((g) => g.weeks.length));
+  for (let n = 1; n <= lastWeek; n++) {
+    const semaine = `S${n}`;
+    for (const sex of sexes) {
+      const sexGroups = groups.filter((g) => g.sex === sex);
+      const produced = sexGroups.reduce((sum, g) => {
+        const w = g.weeks[n - 1];
+        return sum + (w ? w.vente + w.consommation + w.autre : 0);
+      }, 0);
+      const sortis = sources.sorties
+        .filter(
+          (s) =>
+            s.semaine === n &&
+            SORTIE_TYPES_WITH_BIRDS.includes(s.type ?? "") &&
+            isFemale(s.designation) === isFemale(sex)
+        )
+        .reduce((sum, s) => sum + (s.nbre_dinde ?? 0), 0);
+      if (produced === sortis) continue;
+      // Flag once per sex and week, on the first bâtiment that has the week
+      const week = sexGroups.map((g) => g.weeks[n - 1]).find(Boolean);
+      week?.ecarts.push({
+        kind: "sorties",
+        ecart: produced - sortis,
+        recorded: produced,
+        expected: sortis,
+        link: `/sorties-ferme?${q}&semaine=${semaine}`,
+      });
+    }
+  }
+  return groups;
+}
@@ -0,0 +1,380 @@
+/**
+ * Registre du stock aliment — one ledger per sex, following the feed through the week:
+ * report (closing stock of the previous week) → livraisons / ajustements → for each bâtiment B1, B2…:
+ * consommation, comptage (stock aliment saisi), then transfert of the counted stock to the next bâtiment.
+ *
+ * This mirrors the backend rule (SaveStockAlimentRequest): B1 = Stock_prev + Livraisons_sexe − Stock,
+ * B2+ = Stock_transfer − Stock. The running balance is the theoretical stock; at each comptage the gap
+ * counted − theoretical is shown, then the balance restarts from the counted stock. A gap means the stored
+ * consommation no longer matches the livraisons / counts (edited after computation, sex split changed…);
+ * a negative consommation means more feed was counted than available (missing livraison or entry error).
+ */
+
+import {
+  api,
+  type LivraisonAlimentResponse,
+  type SuiviConsommationHebdoResponse,
+  type SuiviStockResponse,
+} from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import { mapWithConcurrency } from "@/lib/mapWithConcurrency";
+import { semainesUpTo } from "@/lib/performanceNormStatus";
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+import { sortSemaines } from "@/utils/semaineAgeUtils";
+
+export type FeedLedgerEntryKind = "opening" | "delivery" | "adjustment" | "transfer" | "consumption" | "count";
+
+export const FEED_LEDGER_KIND_LABELS: Record<FeedLedgerEntryKind, string> = {
+  opening: "Report",
+  delivery: "Livraison",
+  adjustment: "Ajustement",
+  transfer: "Transfert",
+  consumption: "Consommation",
+  count: "Comptage",
+};
+
+export type FeedLedgerFlag =
+  /** |counted − theoretical| above tolerance */
+  | "gap"
+  /** No stock aliment saved for the bâtiment this week */
+  | "missingCount"
+  /** Consommation < 0: more feed counted than available */
+  | "negativeConsumption"
+  /** No stored consommation: derived here from the count */
+  | "derivedConsumption";
+
+export const FEED_LEDGER_FLAG_LABELS: Record<FeedLedgerFlag, string> = {
+  gap: "Écart stock théorique / compté",
+  missingCount: "Stock non saisi",
+  negativeConsumption: "Consommation négative",
+  derivedConsumption: "Consommation non calculée (déduite du comptage)",
+};
+
+/** Gap tolerance: 1 kg or 0.5 % of the stock available before consumption, whichever is larger. */
+export const FEED_LEDGER_GAP_TOLERANCE_KG = 1;
+export const FEED_LEDGER_GAP_TOLERANCE_PCT = 0.005;
+
+export interface FeedLedgerEntry {
+  key: string;
+  semaine: string;
+  sex: string;
+  /** Bâtiment of consumption / count / transfer (destination); null for lot-level movements. */
+  batiment: string | null;
+  kind: FeedLedgerEntryKind;
+  date: string | null;
+  label: string;
+  /** Signed kg (+ entering the stock, − leaving it); null for report, transfer and count lines. */
+  quantityKg: number | null;
+  /** Theoretical stock after the line (after a count: the counted stock). */
+  balanceKg: number;
+  /** Count lines: stock saisi and gap counted − theoretical. */
+  countedKg?: number | null;
+  gapKg?: number | null;
+  /** Livraison lines: stock before / after recorded on the movement, when the backend filled them. */
+  recordedStockBeforeKg?: number | null;
+  recordedStockAfterKg?: number | null;
+  flags: FeedLedgerFlag[];
+  link?: string;
+}
+
+export interface FeedLedgerWeekSummary {
+  semaine: string;
+  sex: string;
+  openingKg: number;
+  deliveredKg: number;
+  adjustedKg: number;
+  consumedKg: number;
+  /** Counted stock of the last bâtiment (null when not saisi). */
+  closingCountedKg: number | null;
+  gapKg: number;
+  flags: FeedLedgerFlag[];
+}
+
+export interface FeedStockLedgerSources {
+  groups: { sex: string; batiment: string }[];
+  weeks: string[];
+  movements: LivraisonAlimentResponse[];
+  /** `${semaine}|${sex}|${batiment}` → stock aliment saisi */
+  stockByKey: Map<string, number | null>;
+  /** `${semaine}|${sex}|${batiment}` → consommation aliment semaine (backend) */
+  consumptionByKey: Map<string, number | null>;
+}
+
+export interface FeedStockLedger {
+  sexes: { sex: string; batiments: string[] }[];
+  weeks: string[];
+  entries: FeedLedgerEntry[];
+  summaries: FeedLedgerWeekSummary[];
+  /** Livraisons without semaine or sex split: not part of any sex ledger. */
+  unassignedMovements: LivraisonAlimentResponse[];
+}
+
+export function feedLedgerKey(semaine: string, sex: string, batiment: string): string {
+  return `${semaine}|${sex}|${batiment}`;
+}
+
+function isMaleSex(sex: string): boolean {
+  return /^m/i.test(sex.trim());
+}
+
+/** Quantity of the movement for one sex (maleQty / femaleQty split, else the whole qte when the sex matches). */
+function movementKgForSex(m: LivraisonAlimentResponse, male: boolean): number {
+  const split = male ? m.maleQty : m.femaleQty;
+  if (split != null) return split;
+  const sex = (m.sex ?? "").trim().toUpperCase();
+  if ((male && sex === "MALE") || (!male && sex === "FEMELLE")) return m.qte ?? 0;
+  return 0;
+}
+
+function isUnassigned(m: LivraisonAlimentResponse): boolean {
+  if (!/^S\d+$/.test(canonicalSemaine(m.sem))) return true;
+  return movementKgForSex(m, true) === 0 && movementKgForSex(m, false) === 0 && (m.qte ?? 0) !== 0;
+}
+
+function movementKind(m: LivraisonAlimentResponse): FeedLedgerEntryKind {
+  const type = (m.movementType ?? "DELIVERY").trim().toUpperCase();
+  if (type === "" || type === "DELIVERY") return "delivery";
+  if (type === "TRANSFER") return "transfer";
+  return "adjustment";
+}
+
+function movementLabel(m: LivraisonAlimentResponse, kind: FeedLedgerEntryKind): string {
+  const parts = [m.designation, m.supplier, m.deliveryNoteNumber ? `BL ${m.deliveryNoteNumber}` : null].filter(Boolean);
+  const base = kind === "delivery" ? "Livraison" : kind === "transfer" ? "Transfert (mouvement)" : "Ajustement";
+  return parts.length > 0 ? `${base} — ${parts.join(" · ")}` : base;
+}
+
+function gapTolerance(availableKg: number): number {
+  return Math.max(FEED_LEDGER_GAP_TOLERANCE_KG, Math.abs(availableKg) * FEED_LEDGER_GAP_TOLERANCE_PCT);
+}
+
+function lotQuery(farmId: number, lot: string): string {
+  return `farmId=${farmId}&lot=${encodeURIComponent(lot)}`;
+}
+
+export function buildFeedStockLedger(sources: FeedStockLedgerSources, farmId: number, lot: string): FeedStockLedger {
+  const { groups, weeks, movements, stockByKey, consumptionByKey } = sources;
+  const sexes: { sex: string; batiments: string[] }[] = [];
+  for (const g of groups) {
+    let s = sexes.find((x) => x.sex === g.sex);
+    if (!s) {
+      s = { sex: g.sex, batiments: [] };
+      sexes.push(s);
+    }
+    if (!s.batiments.includes(g.batiment)) s.batiments.push(g.batiment);
+  }
+  for (const s of sexes) s.batiments.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const unassignedMovements = movements.filter(isUnassigned);
+  const movementsByWeek = new Map<string, LivraisonAlimentResponse[]>();
+  for (const m of movements) {
+    if (isUnassigned(m)) continue;
+    const semaine = canonicalSemaine(m.sem);
+    const list = movementsByWeek.get(semaine) ?? [];
+    list.push(m);
+    movementsByWeek.set(semaine, list);
+  }
+  for (const list of movementsByWeek.values()) {
+    list.sort((a, b) => (a.date ?? "").localeCompare(b.date ?? "") || a.id - b.id);
+  }
+
+  const entries: FeedLedgerEntry[] = [];
+  const summaries: FeedLedgerWeekSummary[] = [];
+
+  for (const { sex, batiments } of sexes) {
+    const male = isMaleSex(sex);
+    let balance = 0;
+    for (const semaine of weeks) {
+      const weekLink = `/suivi-technique-hebdomadaire?${lotQuery(farmId, lot)}&semaine=${encodeURIComponent(semaine)}`;
+      const summary: FeedLedgerWeekSummary = {
+        semaine,
+        sex,
+        openingKg: balance,
+        deliveredKg: 0,
+        adjustedKg: 0,
+        consumedKg: 0,
+        closingCountedKg: null,
+        gapKg: 0,
+        flags: [],
+      };
+      const addFlag = (flag: FeedLedgerFlag) => {
+        if (!summary.flags.includes(flag)) summary.flags.push(flag);
+      };
+      entries.push({
+        key: `${sex}|${semaine}|opening`,
+        semaine,
+        sex,
+        batiment: null,
+        kind: "opening",
+        date: null,
+        label: semaine === weeks[0] ? "Stock initial" : "Report de la semaine précédente",
+        quantityKg: null,
+        balanceKg: balance,
+        flags: [],
+      });
+
+      for (const m of movementsByWeek.get(semaine) ?? []) {
+        const kg = movementKgForSex(m, male);
+        if (kg === 0) continue;
+        const kind = movementKind(m);
+        balance += kg;
+        if (kind === "delivery") summary.deliveredKg += kg;
+        else summary.adjustedKg += kg;
+        entries.push({
+          key: `${sex}|${semaine}|m${m.id}`,
+          semaine,
+          sex,
+          batiment: null,
+          kind,
+          date: m.date ?? null,
+          label: movementLabel(m, kind),
+          quantityKg: kg,
+          balanceKg: balance,
+          recordedStockBeforeKg: m.stockBeforeKg ?? null,
+          recordedStockAfterKg: m.stockAfterKg ?? null,
+          flags: [],
+          link: `/livraisons-aliment?${lotQuery(farmId, lot)}&semaine=${encodeURIComponent(semaine)}&row=${m.id}`,
+        });
+      }
+
+      batiments.forEach((batiment, i) => {
+        const key = feedLedgerKey(semaine, sex, batiment);
+        const batLink = `${weekLink}&batiment=${encodeURIComponent(batiment)}`;
+        if (i > 0) {
+          entries.push({
+            key: `${sex}|${semaine}|${batiment}|transfer`,
+            semaine,
+            sex,
+            batiment,
+            kind: "transfer",
+            date: null,
+            label: `Transfert ${batiments[i - 1]} → ${batiment} (stock compté)`,
+            quantityKg: null,
+            balanceKg: balance,
+            flags: [],
+          });
+        }
+        const available = balance;
+        const counted = stockByKey.get(key) ?? null;
+        let consumption = consumptionByKey.get(key) ?? null;
+        const consumptionFlags: FeedLedgerFlag[] = [];
+        if (consumption == null && counted != null) {
+          consumption = available - counted;
+          consumptionFlags.push("derivedConsumption");
+        }
+        if (consumption != null) {
+          if (consumption < 0) consumptionFlags.push("negativeConsumption");
+          balance -= consumption;
+          summary.consumedKg += consumption;
+          consumptionFlags.forEach(addFlag);
+          entries.push({
+            key: `${key}|consumption`,
+            semaine,
+            sex,
+            batiment,
+            kind: "consumption",
+            date: null,
+            label: `Consommation ${batiment}`,
+            quantityKg: -consumption,
+            balanceKg: balance,
+            flags: consumptionFlags,
+            link: batLink,
+          });
+        }
+        if (counted == null) {
+          addFlag("missingCount");
+          entries.push({
+            key: `${key}|count`,
+            semaine,
+            sex,
+            batiment,
+            kind: "count",
+            date: null,
+            label: `Comptage ${batiment}`,
+            quantityKg: null,
+            balanceKg: balance,
+            countedKg: null,
+            gapKg: null,
+            flags: ["missingCount"],
+            link: batLink,
+          });
+          return;
+        }
+        const gap = counted - balance;
+        const countFlags: FeedLedgerFlag[] = Math.abs(gap) > gapTolerance(available) ? ["gap"] : [];
+        countFlags.forEach(addFlag);
+        summary.gapKg += gap;
+        balance = counted;
+        entries.push({
+          key: `${key}|count`,
+          semaine,
+          sex,
+          batiment,
+          kind: "count",
+          date: null,
+          label: `Comptage ${batiment}`,
+          quantityKg: null,
+          balanceKg: balance,
+          countedKg: counted,
+          gapKg: gap,
+          flags: countFlags,
+          link: batLink,
+        });
+        if (i === batiments.length - 1) summary.closingCountedKg = counted;
+      });
+      summaries.push(summary);
+    }
+  }
+
+  return { sexes, weeks, entries, summaries, unassignedMovements };
+}
+
+/** Parallel stock / consommation requests (one each per semaine × sex/bâtiment). */
+const MAX_CONCURRENT_REQUESTS = 6;
+
+/**
+ * Livraisons of the lot, bâtiments per sex (InfosSetup, effectif mis en place > 0), and the stock aliment /
+ * consommation of every semaine up to the last one with livraisons or suivi hebdo. A semaine without stock /
+ * consommation (404) counts as "not saisi"; any other failure rejects, so the page never shows a ledger built
+ * from missing data.
+ */
+export async function loadFeedStockLedgerSources(farmId: number, lot: string): Promise<FeedStockLedgerSources> {
+  const [setupRows, movements, hebdoRows] = await Promise.all([
+    api.setupInfo.list(farmId, lot),
+    api.livraisonsAliment.list({ farmId, lot }),
+    api.suiviTechniqueHebdo.list({ farmId, lot }),
+  ]);
+
+  const groups: { sex: string; batiment: string }[] = [];
+  for (const s of setupRows ?? []) {
+    const batiment = (s.building ?? "").trim();
+    if (!batiment || !((s.effectifMisEnPlace ?? 0) > 0)) continue;
+    if (!groups.some((g) => g.sex === s.sex && g.batiment === batiment)) groups.push({ sex: s.sex, batiment });
+  }
+
+  const seen = sortSemaines(
+    [...new Set([...(movements ?? []).map((m) => m.sem), ...(hebdoRows ?? []).map((r) => r.semaine)].map(canonicalSemaine))].filter(
+      (s) => /^S\d+$/.test(s)
+    )
+  );
+  const weeks = seen.length > 0 ? semainesUpTo(seen[seen.length - 1]) : [];
+
+  const calls = weeks.flatMap((semaine) => groups.map((g) => ({ semaine, ...g })));
+  const results = await mapWithConcurrency(calls, MAX_CONCURRENT_REQUESTS, async (c) => {
+    const params = { farmId, lot, semaine: c.semaine, sex: c.sex, batiment: c.batiment };
+    const [stock, conso] = await Promise.all([
+      noneIfNotFound<SuiviStockResponse>(api.suiviStock.get(params)),
+      noneIfNotFound<SuiviConsommationHebdoResponse>(api.suiviConsommationHebdo.get(params)),
+    ]);
+    return { key: feedLedgerKey(c.semaine, c.sex, c.batiment), stock, conso };
+  });
+
+  const stockByKey = new Map<string, number | null>();
+  const consumptionByKey = new Map<string, number | null>();
+  for (const r of results) {
+    // stockAlimentRecordExists=false: the value is not a saisie (aggregate / default)
+    stockByKey.set(r.key, r.stock?.stockAlimentRecordExists === false ? null : r.stock?.stockAliment ?? null);
+    consumptionByKey.set(r.key, r.conso?.consommationAlimentSemaine ?? null);
+  }
+  return { groups, weeks, movements: movements ?? [], stockByKey, consumptionByKey };
+}
@@ -2,16 +2,20 @@
  * Export utilities for Fournisseurs (price grid).
  * Uses generic tableExport (ITableExportConfig) per DIP.
  * Matrix layout: rows = designations, columns = [Désignation, Fournisseur1, Fournisseur2, ...].
+ * With `asOf`, `prices` hold the tariffs in force on that date (price history) and the title / file name say so.
  */
 
 import type { ITableExportConfig } from "./tableExport";
 import { exportTableToExcel, exportTableToPdf } from "./tableExport";
+import { formatPriceDate } from "./fournisseursPriceHistoryShared";
 
 export interface FournisseursExportParams {
   farmName: string;
   designations: string[];
   fournisseurs: { id: string; name: string }[];
   prices: Record<number, Record<string, string>>;
+  /** YYYY-MM-DD of the exported tariffs; omitted = current grid. */
+  asOf?: string | null;
 }
 
 interface MatrixRow {
@@ -21,7 +25,7 @@ interface MatrixRow {
 }
 
 function toConfig(params: FournisseursExportParams): ITableExportConfig {
-  const { farmName, designations, fournisseurs, prices } = params;
+  const { farmName, designations, fournisseurs, prices, asOf } = params;
   const columns = ["DÉSIGNATION", ...fournisseurs.map((f) => f.name)];
   const rows: MatrixRow[] = designations.map((des, idx) => ({
     id: String(idx),
@@ -43,7 +47,7 @@ function toConfig(params: FournisseursExportParams): ITableExportConfig {
   const columnWidths = [32, ...fournisseurs.map(() => 18)];
 
   return {
-    title: "FOURNISSEURS — PRIX D'ALIMENT",
+    title: asOf ? `FOURNISSEURS — PRIX D'ALIMENT AU ${formatPriceDate(asOf)}` : "FOURNISSEURS — PRIX D'ALIMENT",
     columns,
     farmName,
     lot: "—",
@@ -51,7 +55,7 @@ function toConfig(params: FournisseursExportParams): ITableExportConfig {
     rows,
     rowToArray,
     ageByRowId: new Map(),
-    fileNamePrefix: "Fournisseurs_Prix_Aliment",
+    fileNamePrefix: asOf ? `Fournisseurs_Prix_Aliment_${asOf}` : "Fournisseurs_Prix_Aliment",
     numberFormatColumns: fournisseurs.map((_, i) => i + 1), // All fournisseur columns (price)
     includeTotals: false,
     columnWidths,
@@ -0,0 +1,102 @@
+/**
+ * Dated prices of the Fournisseurs grid (Prix d'Aliment).
+ * Each (fournisseur, designation) cell keeps its versions with a valid-from date; the price at a date is the last
+ * version whose validFrom ≤ date. Used by the history dialog, the evolution chart, the "prix au" export and the
+ * PRIX resolution of Livraisons aliment (a past livraison keeps the tariff of its date).
+ */
+
+import type { AlimentPriceVersionResponse, FournisseurItemResponse } from "@/lib/api";
+
+export function priceCellKey(fournisseurId: number, designation: string): string {
+  return `${fournisseurId}|${designation}`;
+}
+
+/** Versions per cell, sorted by validFrom (then id, so a correction entered later wins on the same date). */
+export function priceVersionsByCell(
+  history: AlimentPriceVersionResponse[] | null | undefined
+): Map<string, AlimentPriceVersionResponse[]> {
+  const byCell = new Map<string, AlimentPriceVersionResponse[]>();
+  for (const v of history ?? []) {
+    if (!v.validFrom) continue;
+    const key = priceCellKey(v.fournisseurId, v.designation);
+    const list = byCell.get(key) ?? [];
+    list.push(v);
+    byCell.set(key, list);
+  }
+  for (const list of byCell.values()) {
+    list.sort((a, b) => a.validFrom.localeCompare(b.validFrom) || a.id - b.id);
+  }
+  return byCell;
+}
+
+/**
+ * Price in force on `date` (YYYY-MM-DD), or undefined when the cell has no version yet on that date
+ * (callers fall back to the current grid price). A version with a null price ends the previous tariff.
+ */
+export function priceAsOf(
+  versions: AlimentPriceVersionResponse[] | undefined,
+  date: string
+): number | null | undefined {
+  if (!versions || versions.length === 0) return undefined;
+  let found: AlimentPriceVersionResponse | undefined;
+  for (const v of versions) {
+    if (v.validFrom > date) break;
+    found = v;
+  }
+  return found ? found.price_kg : undefined;
+}
+
+/** (fournisseurId, designation) → price on `date`; cells without any version dated ≤ date return undefined. */
+export function priceMatrixAsOf(
+  history: AlimentPriceVersionResponse[] | null | undefined,
+  date: string
+): (fournisseurId: number, designation: string) => number | null | undefined {
+  const byCell = priceVersionsByCell(history);
+  return (fournisseurId, designation) => priceAsOf(byCell.get(priceCellKey(fournisseurId, designation)), date);
+}
+
+export interface PriceEvolutionPoint {
+  date: string;
+  /** Price per fournisseur id (string keys for recharts dataKey); absent before the first version. */
+  [fournisseurKey: string]: number | string | null;
+}
+
+export function priceEvolutionDataKey(fournisseurId: number): string {
+  return `f${fournisseurId}`;
+}
+
+/**
+ * One point per validFrom date of the designation, each fournisseur carrying its price in force on that date
+ * (rendered as a step chart).
+ */
+export function priceEvolutionSeries(
+  history: AlimentPriceVersionResponse[] | null | undefined,
+  designation: string,
+  fournisseurs: FournisseurItemResponse[]
+): PriceEvolutionPoint[] {
+  const byCell = priceVersionsByCell((history ?? []).filter((v) => v.designation === designation));
+  const dates = [...new Set([...byCell.values()].flat().map((v) => v.validFrom))].sort();
+  return dates.map((date) => {
+    const point: PriceEvolutionPoint = { date };
+    for (const f of fournisseurs) {
+      const price = priceAsOf(byCell.get(priceCellKey(f.id, designation)), date);
+      if (price !== undefined) point[priceEvolutionDataKey(f.id)] = price;
+    }
+    return point;
+  });
+}
+
+/** Designations that have at least two versions for some fournisseur (worth charting first). */
+export function designationsWithPriceChanges(history: AlimentPriceVersionResponse[] | null | undefined): string[] {
+  const out = new Set<string>();
+  for (const [key, versions] of priceVersionsByCell(history)) {
+    if (versions.length > 1) out.add(key.slice(key.indexOf("|") + 1));
+  }
+  return [...out];
+}
+
+/** YYYY-MM-DD → DD/MM/YYYY (labels, export title). */
+export function formatPriceDate(date: string): string {
+  const [y, m, d] = date.slice(0, 10).split("-");
+  return y && m && d ? `${d}/${m}/${y}` : date;
+}
@@ -0,0 +1,211 @@
+/**
+ * Lot-wide "remplir les semaines": pushes the reporting journalier lines of a semaine range into suivi technique
+ * hebdo for every bâtiment / sex of the lot, with the same matching and merge as the weekly table
+ * (mergeDailyReportsIntoWeeklyHebdo.ts). `planHebdoDailySync` is the dry run (rows to create, update or leave
+ * alone); `applyHebdoDailySync` saves each week with saveBatch, then recalculates the cumulative mortality.
+ */
+
+import {
+  api,
+  type DailyReportResponse,
+  type SetupInfoResponse,
+  type SuiviTechniqueHebdoRequest,
+  type SuiviTechniqueHebdoResponse,
+} from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import {
+  buildHebdoRequestFromMergedRow,
+  dailyReportMatchesSuiviContext,
+  mergeHebdoRowsWithDailyReports,
+  normalizeBatimentName,
+  parseSemaineIndex,
+} from "@/lib/mergeDailyReportsIntoWeeklyHebdo";
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+
+export type HebdoSyncAction = "create" | "update" | "unchanged";
+
+export const HEBDO_SYNC_ACTION_LABELS: Record<HebdoSyncAction, string> = {
+  create: "À créer",
+  update: "À mettre à jour",
+  unchanged: "Inchangée",
+};
+
+export interface HebdoSyncRow {
+  /** yyyy-mm-dd */
+  date: string;
+  action: HebdoSyncAction;
+  /** Journalier fields that differ from the saved hebdo line (update only). */
+  changedFields: string[];
+}
+
+/** One semaine of one bâtiment / sex. */
+export interface HebdoSyncGroup {
+  semaine: string;
+  batiment: string;
+  sex: string;
+  rows: HebdoSyncRow[];
+  /** Every dated line of the merged week, sent to saveBatch when the week has a create or an update. */
+  requests: SuiviTechniqueHebdoRequest[];
+  /** Effectif départ already known for the week (saved line, or mise en place for S1); else read from the stock of the previous week on apply. */
+  effectifDepart: number | null;
+}
+
+export interface HebdoSyncPlan {
+  groups: HebdoSyncGroup[];
+  /** Journalier lines in the range whose bâtiment / sex is not in the mise en place of the lot. */
+  unmatchedReports: DailyReportResponse[];
+}
+
+export interface HebdoSyncSources {
+  setupInfo: SetupInfoResponse[];
+  dailyReports: DailyReportResponse[];
+  hebdoRows: SuiviTechniqueHebdoResponse[];
+}
+
+export async function loadHebdoSyncSources(farmId: number, lot: string): Promise<HebdoSyncSources> {
+  const [setupInfo, dailyReports, hebdoRows] = await Promise.all([
+    api.setupInfo.list(farmId, lot),
+    api.dailyReports.list(farmId, lot),
+    api.suiviTechniqueHebdo.list({ farmId, lot }),
+  ]);
+  return { setupInfo: setupInfo ?? [], dailyReports: dailyReports ?? [], hebdoRows: hebdoRows ?? [] };
+}
+
+/** Semaines (S1, S2…) that have journalier lines, in order. */
+export function dailyReportSemaines(dailyReports: DailyReportResponse[]): string[] {
+  const numbers = [...new Set(dailyReports.map((d) => d.semaine).filter((n): n is number => n != null && n > 0))];
+  return numbers.sort((a, b) => a - b).map((n) => `S${n}`);
+}
+
+const COMPARED_FIELDS: { field: keyof SuiviTechniqueHebdoRequest; label: string }[] = [
+  { field: "ageJour", label: "Âge" },
+  { field: "mortaliteNbre", label: "Mortalité" },
+  { field: "consoEauL", label: "Eau" },
+  { field: "tempMin", label: "T° min" },
+  { field: "tempMax", label: "T° max" },
+  { field: "traitement", label: "Traitement" },
+];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a == null || a === "") return b == null || b === "";
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) < 1e-5;
+  return a === b;
+}
+
+export function planHebdoDailySync(
+  sources: HebdoSyncSources,
+  params: { lot: string; fromSemaine: string; toSemaine: string }
+): HebdoSyncPlan {
+  const { lot } = params;
+  const from = parseSemaineIndex(params.fromSemaine) ?? 1;
+  const to = parseSemaineIndex(params.toSemaine) ?? from;
+  const inRange = sources.dailyReports.filter((d) => d.semaine != null && d.semaine >= from && d.semaine <= to);
+
+  const pairs = new Map<string, { batiment: string; sex: string; effectifMisEnPlace: number }>();
+  for (const s of sources.setupInfo) {
+    if (!s.building || !s.sex) continue;
+    const key = `${normalizeBatimentName(s.building)}|${s.sex}`;
+    const pair = pairs.get(key) ?? { batiment: s.building, sex: s.sex, effectifMisEnPlace: 0 };
+    pair.effectifMisEnPlace += s.effectifMisEnPlace ?? 0;
+    pairs.set(key, pair);
+  }
+
+  const groups: HebdoSyncGroup[] = [];
+  const matched = new Set<DailyReportResponse>();
+  for (let n = from; n <= to; n++) {
+    const semaine = `S${n}`;
+    for (const { batiment, sex, effectifMisEnPlace } of pairs.values()) {
+      const opts = { lot, batiment, sex, semaine };
+      const dailyWeek = inRange.filter((d) => dailyReportMatchesSuiviContext(d, opts));
+      if (dailyWeek.length === 0) continue;
+      dailyWeek.forEach((d) => matched.add(d));
+
+      const hebdoWeek = sources.hebdoRows.filter(
+        (h) =>
+          h.sex === sex &&
+          normalizeBatimentName(h.batiment ?? "") === normalizeBatimentName(batiment) &&
+          h.semaine != null &&
+          canonicalSemaine(h.semaine) === semaine
+      );
+      const effectifDepart =
+        hebdoWeek.find((h) => h.effectifDepart != null)?.effectifDepart ??
+        (n === 1 && effectifMisEnPlace > 0 ? effectifMisEnPlace : null);
+      const hebdoByDate = new Map(hebdoWeek.map((h) => [h.recordDate, h]));
+      const dailyDates = new Set(dailyWeek.map((d) => d.reportDate));
+
+      const requests = mergeHebdoRowsWithDailyReports(hebdoWeek, sources.dailyReports, opts)
+        .filter((row) => row.recordDate?.trim())
+        .map((row) => buildHebdoRequestFromMergedRow(row, { lot, sex, batiment, semaine, effectifDepart }));
+      const rows = requests
+        .filter((req) => dailyDates.has(req.recordDate))
+        .map((req): HebdoSyncRow => {
+          const saved = hebdoByDate.get(req.recordDate);
+          if (!saved) return { date: req.recordDate, action: "create", changedFields: [] };
+          const changedFields = COMPARED_FIELDS.filter(
+            ({ field }) => !sameValue(req[field], saved[field as keyof SuiviTechniqueHebdoResponse])
+          ).map(({ label }) => label);
+          return { date: req.recordDate, action: changedFields.length > 0 ? "update" : "unchanged", changedFields };
+        });
+      groups.push({ semaine, batiment, sex, rows, requests, effectifDepart });
+    }
+  }
+
+  return { groups, unmatchedReports: inRange.filter((d) => !matched.has(d)) };
+}
+
+export function hebdoSyncCounts(plan: HebdoSyncPlan): Record<HebdoSyncAction, number> {
+  const counts: Record<HebdoSyncAction, number> = { create: 0, update: 0, unchanged: 0 };
+  for (const g of plan.groups) for (const r of g.rows) counts[r.action]++;
+  return counts;
+}
+
+function previousSemaine(semaine: string): string | null {
+  const n = parseSemaineIndex(semaine);
+  return n != null && n > 1 ? `S${n - 1}` : null;
+}
+
+export interface HebdoSyncResult {
+  /** Weeks saved and recalculated. */
+  written: HebdoSyncGroup[];
+  /** Weeks left untouched: no effectif départ, and no stock (effectif restant) saved for the previous week. */
+  skipped: HebdoSyncGroup[];
+}
+
+/**
+ * Saves the weeks of the plan that have something to create or update, in semaine order so that the effectif
+ * départ of a week can be read from the stock of the week saved before it. A week whose effectif départ stays
+ * unknown is skipped rather than saved without one (it would reset the effectif of the saved lines).
+ */
+export async function applyHebdoDailySync(
+  farmId: number,
+  lot: string,
+  plan: HebdoSyncPlan,
+  onProgress?: (done: number, total: number) => void
+): Promise<HebdoSyncResult> {
+  const pending = plan.groups
+    .filter((g) => g.rows.some((r) => r.action !== "unchanged"))
+    .sort((a, b) => (parseSemaineIndex(a.semaine) ?? 0) - (parseSemaineIndex(b.semaine) ?? 0));
+  const result: HebdoSyncResult = { written: [], skipped: [] };
+  for (const [i, g] of pending.entries()) {
+    let effectifDepart = g.effectifDepart;
+    const prev = previousSemaine(g.semaine);
+    if (effectifDepart == null && prev != null) {
+      const stock = await noneIfNotFound(
+        api.suiviStock.get({ farmId, lot, semaine: prev, sex: g.sex, batiment: g.batiment })
+      );
+      effectifDepart = stock?.effectifRestantFinSemaine ?? null;
+    }
+    if (effectifDepart == null) {
+      result.skipped.push(g);
+    } else {
+      await api.suiviTechniqueHebdo.saveBatch(
+        g.requests.map((req) => ({ ...req, effectifDepart })),
+        farmId
+      );
+      await api.suiviTechniqueHebdo.recalculateCumulative({ farmId, lot, sex: g.sex, batiment: g.batiment, semaine: g.semaine });
+      result.written.push(g);
+    }
+    onProgress?.(i + 1, pending.length);
+  }
+  return result;
+}
@@ -0,0 +1,216 @@
+/**
+ * Contrôle de cohérence (/controle-coherence): reporting journalier lines (nbr, waterL, tempMin, tempMax) against the
+ * suivi technique hebdo lines (mortaliteNbre, consoEauL, tempMin, tempMax) of the same date, bâtiment and sex.
+ * Bâtiments are matched with normalizeBatimentName, semaines with canonicalSemaine, as in the weekly merge
+ * (mergeDailyReportsIntoWeeklyHebdo.ts). Each difference can be fixed by copying one side onto the other.
+ */
+
+import {
+  api,
+  type DailyReportRequest,
+  type DailyReportResponse,
+  type SuiviTechniqueHebdoRequest,
+  type SuiviTechniqueHebdoResponse,
+} from "@/lib/api";
+import { normalizeBatimentName, parseSemaineIndex } from "@/lib/mergeDailyReportsIntoWeeklyHebdo";
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+
+export type ConsistencyField = "mortalite" | "eau" | "tempMin" | "tempMax";
+
+export const CONSISTENCY_FIELD_LABELS: Record<ConsistencyField, string> = {
+  mortalite: "Mortalité",
+  eau: "Eau (L)",
+  tempMin: "T° min",
+  tempMax: "T° max",
+};
+
+export type ConsistencyIssueKind = "mismatch" | "missingHebdo" | "missingJournalier";
+
+export const CONSISTENCY_ISSUE_KIND_LABELS: Record<ConsistencyIssueKind, string> = {
+  mismatch: "Valeurs différentes",
+  missingHebdo: "Absent du suivi hebdo",
+  missingJournalier: "Absent du journalier",
+};
+
+export interface ConsistencyFieldValues {
+  field: ConsistencyField;
+  journalier: number | null;
+  hebdo: number | null;
+}
+
+export interface ConsistencyIssue {
+  /** `${date}|${batiment}|${sex}` */
+  id: string;
+  kind: ConsistencyIssueKind;
+  /** yyyy-mm-dd */
+  date: string;
+  semaine: string;
+  /** Normalized (B1, B2…). */
+  batiment: string;
+  sex: string;
+  /** Every compared field; `differs` marks the ones to fix. */
+  values: (ConsistencyFieldValues & { differs: boolean })[];
+  daily: DailyReportResponse | null;
+  hebdo: SuiviTechniqueHebdoResponse | null;
+}
+
+export interface ConsistencySources {
+  dailyReports: DailyReportResponse[];
+  hebdoRows: SuiviTechniqueHebdoResponse[];
+}
+
+export async function loadConsistencySources(farmId: number, lot: string): Promise<ConsistencySources> {
+  const [dailyReports, hebdoRows] = await Promise.all([
+    api.dailyReports.list(farmId, lot),
+    api.suiviTechniqueHebdo.list({ farmId, lot }),
+  ]);
+  return {
+    dailyReports: (dailyReports ?? []).filter((d) => (d.lot?.trim() ?? "") === lot.trim()),
+    hebdoRows: hebdoRows ?? [],
+  };
+}
+
+function issueKey(date: string, batiment: string, sex: string): string {
+  return `${date}|${normalizeBatimentName(batiment)}|${sex}`;
+}
+
+function isoDate(value: string | null | undefined): string {
+  return value?.trim().slice(0, 10) ?? "";
+}
+
+function sameNumber(a: number | null, b: number | null): boolean {
+  if (a == null || b == null) return a == null && b == null;
+  return Math.abs(Number(a) - Number(b)) < 1e-5;
+}
+
+/** The journalier always stores a count (nbr 0 when nothing died): a blank hebdo mortalité is the same as 0. */
+function sameFieldValue(field: ConsistencyField, a: number | null, b: number | null): boolean {
+  return field === "mortalite" ? sameNumber(a ?? 0, b ?? 0) : sameNumber(a, b);
+}
+
+function dailyValue(d: DailyReportResponse | null, field: ConsistencyField): number | null {
+  if (!d) return null;
+  if (field === "mortalite") return d.nbr ?? null;
+  if (field === "eau") return d.waterL ?? null;
+  return d[field] ?? null;
+}
+
+function hebdoValue(h: SuiviTechniqueHebdoResponse | null, field: ConsistencyField): number | null {
+  if (!h) return null;
+  if (field === "mortalite") return h.mortaliteNbre ?? null;
+  if (field === "eau") return h.consoEauL ?? null;
+  return h[field] ?? null;
+}
+
+/** Hebdo line with daily data (placeholder lines only carry the effectif départ). */
+function hebdoHasDailyData(h: SuiviTechniqueHebdoResponse): boolean {
+  return !h.isPlaceholder && (h.mortaliteNbre != null || h.consoEauL != null || h.tempMin != null || h.tempMax != null);
+}
+
+const FIELDS: ConsistencyField[] = ["mortalite", "eau", "tempMin", "tempMax"];
+
+/** Every date / bâtiment / sex where the two sides differ, by date then bâtiment. */
+export function detectConsistencyIssues(sources: ConsistencySources): ConsistencyIssue[] {
+  const dailyByKey = new Map<string, DailyReportResponse>();
+  for (const d of sources.dailyReports) {
+    if (!isoDate(d.reportDate) || !d.building || !d.designation) continue;
+    dailyByKey.set(issueKey(isoDate(d.reportDate), d.building, d.designation), d);
+  }
+  const hebdoByKey = new Map<string, SuiviTechniqueHebdoResponse>();
+  for (const h of sources.hebdoRows) {
+    if (!isoDate(h.recordDate) || !h.batiment || !h.sex || !hebdoHasDailyData(h)) continue;
+    hebdoByKey.set(issueKey(isoDate(h.recordDate), h.batiment, h.sex), h);
+  }
+
+  const issues: ConsistencyIssue[] = [];
+  for (const key of new Set([...dailyByKey.keys(), ...hebdoByKey.keys()])) {
+    const daily = dailyByKey.get(key) ?? null;
+    const hebdo = hebdoByKey.get(key) ?? null;
+    const values = FIELDS.map((field) => {
+      const journalier = dailyValue(daily, field);
+      const hebdoV = hebdoValue(hebdo, field);
+      return { field, journalier, hebdo: hebdoV, differs: !sameFieldValue(field, journalier, hebdoV) };
+    });
+    const kind: ConsistencyIssueKind = !hebdo ? "missingHebdo" : !daily ? "missingJournalier" : "mismatch";
+    if (kind === "mismatch" && !values.some((v) => v.differs)) continue;
+    const [date, batiment, sex] = key.split("|");
+    const semaine = hebdo?.semaine
+      ? canonicalSemaine(hebdo.semaine)
+      : daily?.semaine != null
+        ? `S${daily.semaine}`
+        : "";
+    issues.push({ id: key, kind, date, semaine, batiment, sex, values, daily, hebdo });
+  }
+  return issues.sort((a, b) => a.date.localeCompare(b.date) || a.batiment.localeCompare(b.batiment) || a.sex.localeCompare(b.sex));
+}
+
+/**
+ * Journalier wins: writes the daily values onto the hebdo line (created when missing, with the effectif départ of
+ * the week), then recalculates the cumulative mortality of the week.
+ */
+export async function applyJournalierToHebdo(
+  farmId: number,
+  lot: string,
+  issue: ConsistencyIssue,
+  hebdoRows: SuiviTechniqueHebdoResponse[]
+): Promise<{ semaine: string; batiment: string }> {
+  const daily = issue.daily;
+  if (!daily) throw new Error("Aucune ligne journalière pour cette date");
+  const h = issue.hebdo;
+  const batiment = h?.batiment ?? issue.batiment;
+  const semaine = issue.semaine;
+  const effectifDepart =
+    h?.effectifDepart ??
+    hebdoRows.find(
+      (r) =>
+        r.sex === issue.sex &&
+        normalizeBatimentName(r.batiment ?? "") === issue.batiment &&
+        r.semaine != null &&
+        canonicalSemaine(r.semaine) === semaine &&
+        r.effectifDepart != null
+    )?.effectifDepart ??
+    null;
+  const body: SuiviTechniqueHebdoRequest = {
+    lot,
+    sex: issue.sex,
+    batiment,
+    semaine,
+    effectifDepart,
+    recordDate: h?.recordDate ?? isoDate(daily.reportDate),
+    ageJour: daily.ageJour ?? h?.ageJour ?? null,
+    mortaliteNbre: daily.nbr ?? null,
+    consoEauL: daily.waterL ?? null,
+    tempMin: daily.tempMin ?? null,
+    tempMax: daily.tempMax ?? null,
+    vaccination: h?.vaccination ?? null,
+    traitement: daily.traitement || h?.traitement || null,
+    observation: h?.observation ?? null,
+    version: h?.version ?? null,
+  };
+  await api.suiviTechniqueHebdo.save(body, farmId);
+  await api.suiviTechniqueHebdo.recalculateCumulative({ farmId, lot, sex: issue.sex, batiment, semaine });
+  return { semaine, batiment };
+}
+
+/** Suivi hebdo wins: writes the hebdo values onto the journalier line (created when missing). */
+export async function applyHebdoToJournalier(farmId: number, lot: string, issue: ConsistencyIssue): Promise<void> {
+  const h = issue.hebdo;
+  if (!h) throw new Error("Aucune ligne de suivi hebdo pour cette date");
+  const d = issue.daily;
+  const body: DailyReportRequest = {
+    reportDate: d?.reportDate ?? isoDate(h.recordDate),
+    ageJour: h.ageJour ?? d?.ageJour ?? null,
+    semaine: d?.semaine ?? parseSemaineIndex(issue.semaine),
+    lot,
+    building: d?.building ?? h.batiment ?? issue.batiment,
+    designation: d?.designation ?? h.sex,
+    nbr: h.mortaliteNbre ?? 0,
+    waterL: h.consoEauL ?? null,
+    tempMin: h.tempMin ?? null,
+    tempMax: h.tempMax ?? null,
+    traitement: d?.traitement ?? h.traitement ?? null,
+    verified: d?.verified ?? false,
+  };
+  if (d) await api.dailyReports.update(d.id, body);
+  else await api.dailyReports.createBatch([body], farmId);
+}
@@ -0,0 +1,489 @@
+/**
+ * Excel import of delivery notes (bons de livraison) into the livraison grids:
+ * Livraisons aliment, gaz, paille, produits vétérinaires and produits hygiène (LivraisonImportDialog).
+ *
+ * Target columns are each page's *_TABLE_HEADERS (without AGE, computed by the page / backend).
+ * Cells are validated like the grid: DATE (Excel date, jj/mm/aaaa or aaaa-mm-jj), QTE through
+ * resolvedQteFromString (formules + / −), PRIX / MONTANT ≥ 0. Valid rows go through the page's createBatch endpoint.
+ * The column mapping is remembered per page and supplier (localStorage), since each supplier keeps its own layout.
+ */
+
+import type ExcelJS from "exceljs";
+import {
+  api,
+  type LivraisonAlimentRequest,
+  type LivraisonGazRequest,
+  type LivraisonPailleRequest,
+  type LivraisonProduitHygieneRequest,
+  type LivraisonProduitVeterinaireRequest,
+} from "@/lib/api";
+import { resolvedQteFromString } from "@/lib/depensesDiversShared";
+import { deliveryNoteEntriesOf, type DeliveryNoteEntry, type DeliveryNoteSource } from "@/lib/deliveryNoteDuplicates";
+import { toOptionalNumber } from "@/lib/formatResumeAmount";
+import { LIVRAISONS_ALIMENT_TABLE_HEADERS } from "@/lib/livraisonsAlimentShared";
+import { LIVRAISON_GAZ_TABLE_HEADERS } from "@/lib/livraisonGazShared";
+import { LIVRAISON_PAILLE_TABLE_HEADERS } from "@/lib/livraisonsPailleShared";
+import { PRODUITS_VETERINAIRES_TABLE_HEADERS } from "@/lib/produitsVeterinairesShared";
+import { PRODUITS_HYGIENE_TABLE_HEADERS } from "@/lib/produitsHygieneShared";
+
+export type LivraisonImportKind = "aliment" | "gaz" | "paille" | "veterinaire" | "hygiene";
+
+export interface LivraisonImportRequestMap {
+  aliment: LivraisonAlimentRequest;
+  gaz: LivraisonGazRequest;
+  paille: LivraisonPailleRequest;
+  veterinaire: LivraisonProduitVeterinaireRequest;
+  hygiene: LivraisonProduitHygieneRequest;
+}
+
+type AnyTableHeader =
+  | (typeof LIVRAISONS_ALIMENT_TABLE_HEADERS)[number]
+  | (typeof LIVRAISON_GAZ_TABLE_HEADERS)[number]
+  | (typeof LIVRAISON_PAILLE_TABLE_HEADERS)[number]
+  | (typeof PRODUITS_VETERINAIRES_TABLE_HEADERS)[number]
+  | (typeof PRODUITS_HYGIENE_TABLE_HEADERS)[number];
+
+/** Importable column of a livraison grid (AGE is never imported). */
+export type LivraisonImportHeader = Exclude<AnyTableHeader, "AGE">;
+
+interface LivraisonImportKindDef {
+  label: string;
+  headers: readonly AnyTableHeader[];
+  /** Namespace written (useInvalidateAfterWrite), also the source of its delivery notes. */
+  namespace: DeliveryNoteSource;
+}
+
+export const LIVRAISON_IMPORT_KINDS: Record<LivraisonImportKind, LivraisonImportKindDef> = {
+  aliment: { label: "Livraisons aliment", headers: LIVRAISONS_ALIMENT_TABLE_HEADERS, namespace: "livraisonsAliment" },
+  gaz: { label: "Livraisons gaz", headers: LIVRAISON_GAZ_TABLE_HEADERS, namespace: "livraisonsGaz" },
+  paille: { label: "Livraisons paille", headers: LIVRAISON_PAILLE_TABLE_HEADERS, namespace: "livraisonsPaille" },
+  veterinaire: {
+    label: "Produits vétérinaires",
+    headers: PRODUITS_VETERINAIRES_TABLE_HEADERS,
+    namespace: "livraisonsProduitsVeterinaires",
+  },
+  hygiene: { label: "Produits hygiène", headers: PRODUITS_HYGIENE_TABLE_HEADERS, namespace: "livraisonsProduitsHygiene" },
+};
+
+export function livraisonImportHeaders(kind: LivraisonImportKind): LivraisonImportHeader[] {
+  return LIVRAISON_IMPORT_KINDS[kind].headers.filter((h): h is LivraisonImportHeader => h !== "AGE");
+}
+
+/** DATE is the only mandatory target column. */
+export const REQUIRED_IMPORT_HEADERS: LivraisonImportHeader[] = ["DATE"];
+
+// ---------------------------------------------------------------------------
+// Spreadsheet reading
+// ---------------------------------------------------------------------------
+
+export type ImportCell = string | number | Date | null;
+
+export interface ImportSheet {
+  sheetName: string;
+  /** Source column labels (header row; "Colonne C" when the header cell is empty). */
+  columns: string[];
+  /** Data rows below the header, one cell per column. */
+  rows: { line: number; cells: ImportCell[] }[];
+}
+
+function columnLetter(index: number): string {
+  let n = index + 1;
+  let s = "";
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    s = String.fromCharCode(65 + r) + s;
+    n = Math.floor((n - 1) / 26);
+  }
+  return s;
+}
+
+function toImportCell(value: ExcelJS.CellValue): ImportCell {
+  if (value == null) return null;
+  if (value instanceof Date || typeof value === "number" || typeof value === "string") return value;
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "object") {
+    if ("richText" in value) return value.richText.map((r) => r.text).join("");
+    if ("result" in value) return toImportCell(value.result as ExcelJS.CellValue);
+    if ("text" in value) return String(value.text);
+  }
+  return null;
+}
+
+export function importCellText(cell: ImportCell): string {
+  if (cell == null) return "";
+  if (cell instanceof Date) return formatIsoDate(cell).split("-").reverse().join("/");
+  return String(cell).trim();
+}
+
+/** Header row = first row (within the first 20) with at least two text cells; empty rows are skipped. */
+export async function readImportWorkbook(buffer: ArrayBuffer): Promise<ImportSheet[]> {
+  const { Workbook } = (await import("exceljs")).default;
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheets: ImportSheet[] = [];
+  workbook.eachSheet((ws) => {
+    let headerRow = -1;
+    for (let r = 1; r <= Math.min(ws.rowCount, 20) && headerRow < 0; r++) {
+      let texts = 0;
+      ws.getRow(r).eachCell((cell) => {
+        if (typeof toImportCell(cell.value) === "string" && importCellText(toImportCell(cell.value)) !== "") texts++;
+      });
+      if (texts >= 2) headerRow = r;
+    }
+    if (headerRow < 0) return;
+    const width = ws.columnCount;
+    const header = ws.getRow(headerRow);
+    const columns = Array.from({ length: width }, (_, i) => {
+      const label = importCellText(toImportCell(header.getCell(i + 1).value));
+      return label || `Colonne ${columnLetter(i)}`;
+    });
+    const rows: ImportSheet["rows"] = [];
+    for (let r = headerRow + 1; r <= ws.rowCount; r++) {
+      const row = ws.getRow(r);
+      const cells = columns.map((_, i) => toImportCell(row.getCell(i + 1).value));
+      if (cells.some((c) => importCellText(c) !== "")) rows.push({ line: r, cells });
+    }
+    sheets.push({ sheetName: ws.name, columns, rows });
+  });
+  return sheets;
+}
+
+// ---------------------------------------------------------------------------
+// Column mapping (guess + per-supplier memory)
+// ---------------------------------------------------------------------------
+
+/** Target header → source column label. */
+export type LivraisonImportMapping = Partial<Record<LivraisonImportHeader, string>>;
+
+function normalizeLabel(s: string): string {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\bn(?:°|o\.|o\b)\s*/g, "n ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const HEADER_SYNONYMS: Record<LivraisonImportHeader, string[]> = {
+  DATE: ["date", "date livraison", "date bl", "date de livraison"],
+  SEM: ["sem", "semaine"],
+  DÉSIGNATION: ["designation", "article", "produit", "libelle", "description", "aliment"],
+  FOURNISSEUR: ["fournisseur", "supplier", "vendeur"],
+  "N° BL": ["n bl", "bl", "num bl", "numero bl", "bon de livraison", "n bon de livraison"],
+  "N° BR": ["n br", "br", "num br", "numero br", "bon de reception", "n bon de reception"],
+  UG: ["ug", "unite", "unite de gestion"],
+  QTE: ["qte", "quantite", "qty", "quantity", "qte kg", "poids", "poids kg"],
+  SEX: ["sex", "sexe"],
+  PRIX: ["prix", "pu", "prix unitaire", "prix u", "price", "prix kg"],
+  MONTANT: ["montant", "total", "montant ht", "montant ttc", "amount"],
+};
+
+/** Best guess per target header: exact synonym, else a column starting with a synonym. */
+export function guessImportMapping(kind: LivraisonImportKind, columns: string[]): LivraisonImportMapping {
+  const normalized = columns.map(normalizeLabel);
+  const used = new Set<number>();
+  const mapping: LivraisonImportMapping = {};
+  const pick = (header: LivraisonImportHeader, match: (col: string, syn: string) => boolean) => {
+    if (mapping[header]) return;
+    for (const syn of HEADER_SYNONYMS[header]) {
+      const i = normalized.findIndex((col, idx) => !used.has(idx) && match(col, syn));
+      if (i >= 0) {
+        mapping[header] = columns[i];
+        used.add(i);
+        return;
+      }
+    }
+  };
+  const headers = livraisonImportHeaders(kind);
+  for (const h of headers) pick(h, (col, syn) => col === syn);
+  for (const h of headers) pick(h, (col, syn) => col.startsWith(`${syn} `));
+  return mapping;
+}
+
+const MAPPINGS_STORAGE_KEY = "elevagepro_livraison_import_mappings";
+
+type StoredMappings = Partial<Record<LivraisonImportKind, Record<string, LivraisonImportMapping>>>;
+
+export function supplierMappingKey(supplier: string): string {
+  return supplier.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function readStoredMappings(): StoredMappings {
+  try {
+    const raw = localStorage.getItem(MAPPINGS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredMappings) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Saved mapping of the supplier for this page; only columns present in the file are kept. */
+export function loadSupplierImportMapping(
+  kind: LivraisonImportKind,
+  supplier: string,
+  columns: string[]
+): LivraisonImportMapping | null {
+  const saved = readStoredMappings()[kind]?.[supplierMappingKey(supplier)];
+  if (!saved) return null;
+  const mapping: LivraisonImportMapping = {};
+  for (const h of livraisonImportHeaders(kind)) {
+    const col = saved[h];
+    if (col && columns.includes(col)) mapping[h] = col;
+  }
+  return mapping;
+}
+
+export function saveSupplierImportMapping(kind: LivraisonImportKind, supplier: string, mapping: LivraisonImportMapping): void {
+  const key = supplierMappingKey(supplier);
+  if (!key) return;
+  try {
+    const all = readStoredMappings();
+    all[kind] = { ...(all[kind] ?? {}), [key]: mapping };
+    localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    /* storage unavailable — mapping is only used for this import */
+  }
+}
+
+/** Suppliers that already have a saved mapping for the page (datalist of the wizard). */
+export function savedImportMappingSuppliers(kind: LivraisonImportKind): string[] {
+  return Object.keys(readStoredMappings()[kind] ?? {});
+}
+
+// ---------------------------------------------------------------------------
+// Validation and requests
+// ---------------------------------------------------------------------------
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** ExcelJS returns dates at UTC midnight: read the UTC fields. */
+function formatIsoDate(d: Date): string {
+  return `${d.getUTCFullYear()}-${pad2(d.getUTCMonth() + 1)}-${pad2(d.getUTCDate())}`;
+}
+
+function isValidYmd(y: number, m: number, d: number): boolean {
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+/** yyyy-mm-dd from an Excel date, a serial number, "jj/mm/aaaa" (also - or .) or "aaaa-mm-jj"; null when invalid. */
+export function parseImportDate(cell: ImportCell): string | null {
+  if (cell == null) return null;
+  if (cell instanceof Date) return Number.isNaN(cell.getTime()) ? null : formatIsoDate(cell);
+  if (typeof cell === "number") {
+    // Excel serial date (days since 1899-12-30); ~1955 … 2119
+    if (cell < 20000 || cell > 80000) return null;
+    return formatIsoDate(new Date(Date.UTC(1899, 11, 30) + Math.round(cell) * 86400000));
+  }
+  const t = cell.trim();
+  let m = t.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m && isValidYmd(+m[1], +m[2], +m[3])) return `${m[1]}-${pad2(+m[2])}-${pad2(+m[3])}`;
+  m = t.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (m) {
+    const y = m[3].length === 2 ? 2000 + +m[3] : +m[3];
+    if (isValidYmd(y, +m[2], +m[1])) return `${y}-${pad2(+m[2])}-${pad2(+m[1])}`;
+  }
+  return null;
+}
+
+/** Aliment SEX select values. */
+function parseAlimentSex(text: string): string | null {
+  const t = normalizeLabel(text);
+  if (/^(m|male|males|dindon|dindons)$/.test(t)) return "MALE";
+  if (/^(f|femelle|femelles|female|dinde|dindes)$/.test(t)) return "FEMELLE";
+  if (/^(m f|mf|male femelle|male et femelle|mixte)$/.test(t)) return "MALE & FEMELLE";
+  return null;
+}
+
+/** S1, S2…; "VS" (vide sanitaire) only on Produits hygiène. */
+function parseSem(text: string, allowVs: boolean): string | null {
+  const m = text.trim().match(/^S?\s*(\d+)$/i);
+  if (m) return `S${parseInt(m[1], 10)}`;
+  return allowVs && /^vs$/i.test(text.trim()) ? "VS" : null;
+}
+
+export interface LivraisonImportPreviewRow<K extends LivraisonImportKind = LivraisonImportKind> {
+  /** Line number in the sheet. */
+  line: number;
+  /** Displayed cell text per target header. */
+  values: Partial<Record<LivraisonImportHeader, string>>;
+  errors: Partial<Record<LivraisonImportHeader, string>>;
+  /** null when the row has errors. */
+  request: LivraisonImportRequestMap[K] | null;
+}
+
+export interface LivraisonImportContext {
+  farmId: number | null;
+  lot: string;
+  /** Semaine of the page, used when SEM is not mapped / empty. */
+  semaine: string;
+  /** Supplier of the file, used when FOURNISSEUR is not mapped / empty. */
+  supplier: string;
+}
+
+function numberCell(cell: ImportCell): number | null {
+  if (cell == null || cell instanceof Date) return null;
+  return typeof cell === "number" ? cell : toOptionalNumber(cell.trim());
+}
+
+/** Validate one sheet with the mapping; rows with no mapped value are ignored. */
+export function buildLivraisonImportPreview<K extends LivraisonImportKind>(
+  kind: K,
+  sheet: ImportSheet,
+  mapping: LivraisonImportMapping,
+  ctx: LivraisonImportContext
+): LivraisonImportPreviewRow<K>[] {
+  const headers = livraisonImportHeaders(kind);
+  const colIndex = new Map(headers.map((h) => [h, mapping[h] ? sheet.columns.indexOf(mapping[h] as string) : -1]));
+  const out: LivraisonImportPreviewRow<K>[] = [];
+
+  for (const { line, cells } of sheet.rows) {
+    const cellOf = (h: LivraisonImportHeader): ImportCell => {
+      const i = colIndex.get(h) ?? -1;
+      return i >= 0 ? cells[i] ?? null : null;
+    };
+    const values: Partial<Record<LivraisonImportHeader, string>> = {};
+    for (const h of headers) values[h] = importCellText(cellOf(h));
+    if (headers.every((h) => !values[h])) continue;
+
+    const errors: Partial<Record<LivraisonImportHeader, string>> = {};
+    const date = parseImportDate(cellOf("DATE"));
+    if (!values.DATE) errors.DATE = "Date manquante";
+    else if (!date) errors.DATE = "Date invalide";
+    else values.DATE = date.split("-").reverse().join("/");
+
+    const qteCell = cellOf("QTE");
+    const qte = typeof qteCell === "number" ? qteCell : values.QTE ? resolvedQteFromString(values.QTE) : null;
+    if (values.QTE && qte == null) errors.QTE = "Quantité invalide";
+
+    const prix = values.PRIX ? numberCell(cellOf("PRIX")) : null;
+    if (values.PRIX && (prix == null || prix < 0)) errors.PRIX = "Prix invalide";
+    const montant = values.MONTANT ? numberCell(cellOf("MONTANT")) : null;
+    if (values.MONTANT && (montant == null || montant < 0)) errors.MONTANT = "Montant invalide";
+
+    const sem = values.SEM ? parseSem(values.SEM, kind === "hygiene") : null;
+    if (values.SEM && !sem) errors.SEM = "Semaine invalide (S1, S2…)";
+    const sex = values.SEX ? parseAlimentSex(values.SEX) : null;
+    if (values.SEX && !sex) errors.SEX = "Sexe invalide (Male, Femelle, Male & Femelle)";
+
+    const designation = values.DÉSIGNATION || null;
+    const supplier = values.FOURNISSEUR || ctx.supplier.trim() || null;
+    if (!designation && qte == null && !values["N° BL"] && !values["N° BR"]) {
+      errors.DÉSIGNATION = "Ligne sans désignation, quantité ni N° BL / BR";
+    }
+
+    if (Object.keys(errors).length > 0) {
+      out.push({ line, values, errors, request: null });
+      continue;
+    }
+
+    const resolvedPrix = prix != null && prix > 0 ? prix : null;
+    const resolvedMontant = montant ?? (qte != null && resolvedPrix != null ? qte * resolvedPrix : null);
+    const common = {
+      farmId: ctx.farmId ?? undefined,
+      lot: ctx.lot.trim() || null,
+      date: date as string,
+      age: null,
+      sem: sem ?? (ctx.semaine || null),
+      designation,
+      supplier,
+      prixPerUnit: resolvedPrix,
+      montant: resolvedMontant,
+    };
+    const bl = values["N° BL"] || null;
+    const br = values["N° BR"] || null;
+    let request: LivraisonImportRequestMap[LivraisonImportKind];
+    switch (kind) {
+      case "aliment": {
+        // Same split as the SEX select of LivraisonsAliment
+        const q = qte != null ? Math.round(qte) : null;
+        const half = q != null ? Math.floor(q / 2) : 0;
+        request = {
+          ...common,
+          qte: q,
+          sex,
+          maleQty: q && sex === "MALE" ? q : q && sex === "MALE & FEMELLE" && half ? half : null,
+          femaleQty: q && sex === "FEMELLE" ? q : q && sex === "MALE & FEMELLE" && q - half ? q - half : null,
+          montant: montant ?? (q != null && resolvedPrix != null ? q * resolvedPrix : null),
+          deliveryNoteNumber: bl,
+          numeroBonReception: br,
+          movementType: "DELIVERY",
+        } satisfies LivraisonAlimentRequest;
+        break;
+      }
+      case "veterinaire":
+        // The N° BR column of Produits vétérinaires is stored as deliveryNoteNumber
+        request = { ...common, qte, ug: values.UG || null, deliveryNoteNumber: br } satisfies LivraisonProduitVeterinaireRequest;
+        break;
+      default:
+        request = { ...common, qte, deliveryNoteNumber: bl, numeroBR: br } satisfies LivraisonGazRequest &
+          LivraisonPailleRequest &
+          LivraisonProduitHygieneRequest;
+    }
+    out.push({ line, values, errors, request: request as LivraisonImportRequestMap[K] });
+  }
+  return out;
+}
+
+/** N° BL / N° BR of the rows to import, for the duplicate check against the farm. */
+export function importDeliveryNoteEntries<K extends LivraisonImportKind>(
+  kind: K,
+  requests: LivraisonImportRequestMap[K][],
+  ctx: { farmId: number | null; lot: string }
+): DeliveryNoteEntry[] {
+  const source = LIVRAISON_IMPORT_KINDS[kind].namespace;
+  return requests.flatMap((r, i) => {
+    const request = r as LivraisonImportRequestMap[LivraisonImportKind];
+    const notes =
+      kind === "aliment"
+        ? { bl: request.deliveryNoteNumber, br: (request as LivraisonAlimentRequest).numeroBonReception }
+        : kind === "veterinaire"
+          ? { br: request.deliveryNoteNumber }
+          : { bl: request.deliveryNoteNumber, br: (request as LivraisonGazRequest).numeroBR };
+    return deliveryNoteEntriesOf(
+      {
+        source,
+        id: null,
+        rowKey: `import-${i}`,
+        farmId: ctx.farmId,
+        lot: ctx.lot || null,
+        semaine: request.sem ?? null,
+        date: request.date,
+        supplier: request.supplier ?? null,
+        designation: request.designation ?? null,
+      },
+      notes
+    );
+  });
+}
+
+/** Create the rows through the page's batch endpoint. */
+export async function submitLivraisonImport<K extends LivraisonImportKind>(
+  kind: K,
+  requests: LivraisonImportRequestMap[K][],
+  farmId: number | null
+): Promise<number> {
+  if (requests.length === 0) return 0;
+  const body = requests as LivraisonImportRequestMap[LivraisonImportKind][];
+  switch (kind) {
+    case "aliment":
+      return (await api.livraisonsAliment.createBatch(body as LivraisonAlimentRequest[], farmId))?.length ?? requests.length;
+    case "gaz":
+      return (await api.livraisonsGaz.createBatch(body as LivraisonGazRequest[], farmId))?.length ?? requests.length;
+    case "paille":
+      return (await api.livraisonsPaille.createBatch(body as LivraisonPailleRequest[], farmId))?.length ?? requests.length;
+    case "veterinaire":
+      return (
+        (await api.livraisonsProduitsVeterinaires.createBatch(body as LivraisonProduitVeterinaireRequest[], farmId))?.length ??
+        requests.length
+      );
+    default:
+      return (
+        (await api.livraisonsProduitsHygiene.createBatch(body as LivraisonProduitHygieneRequest[], farmId))?.length ??
+        requests.length
+      );
+  }
+}
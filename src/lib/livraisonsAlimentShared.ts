@@ -3,8 +3,11 @@
  * Table columns match the on-screen thead (no separate MÂLE / FEMELLE columns — réparti via SEX).
  */
 
+import type { AlimentPriceVersionResponse, FournisseurGridResponse, LivraisonAlimentRequest } from "@/lib/api";
+import type { ConflictField } from "@/lib/conflictMerge";
 import { resolvedQteFromString } from "@/lib/depensesDiversShared";
-import { toOptionalNumber } from "@/lib/formatResumeAmount";
+import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
+import { priceAsOf, priceVersionsByCell } from "@/lib/fournisseursPriceHistoryShared";
 
 /** Data columns only — matches LivraisonsAliment.tsx thead (before ✓ / actions). */
 export const LIVRAISONS_ALIMENT_TABLE_HEADERS = [
@@ -40,3 +43,73 @@ export function livraisonsAlimentResolvedMontant(row: LivraisonsAlimentMontantRo
 export function livraisonsAlimentEffectiveMontantForTotal(row: LivraisonsAlimentMontantRow): number {
   return livraisonsAlimentResolvedMontant(row) ?? 0;
 }
+
+const formatConflictAmount = (v: unknown) => formatGroupedNumber(Number(v), 2);
+
+/** Saved fields compared in the conflict merge dialog (409 on update). */
+export const LIVRAISONS_ALIMENT_CONFLICT_FIELDS: ConflictField<LivraisonAlimentRequest>[] = [
+  { key: "date", label: "Date" },
+  { key: "designation", label: "Désignation" },
+  { key: "supplier", label: "Fournisseur" },
+  { key: "deliveryNoteNumber", label: "N° BL" },
+  { key: "numeroBonReception", label: "N° BR" },
+  { key: "qte", label: "Qté", format: formatConflictAmount },
+  { key: "sex", label: "Sex" },
+  { key: "prixPerUnit", label: "Prix", format: formatConflictAmount },
+  { key: "montant", label: "Montant", format: formatConflictAmount },
+  { key: "notes", label: "Notes" },
+];
+
+/** Supplier / designation names as compared with the Fournisseurs grid (case, accents and spacing ignored). */
+function gridPriceKey(supplier: string, designation: string): string {
+  const norm = (s: string) =>
+    s
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .trim()
+      .replace(/\s+/g, " ")
+      .toUpperCase();
+  return `${norm(supplier)}|${norm(designation)}`;
+}
+
+/**
+ * price_kg of the Fournisseurs page (supplier × designation), or null when the cell is empty / unknown.
+ * With a livraison `date` and the price history, the tariff in force on that date is used (current grid price when
+ * the cell has no version dated on or before it).
+ */
+export type AlimentGridPriceLookup = (supplier: string, designation: string, date?: string | null) => number | null;
+
+export function alimentGridPriceLookup(
+  grid: FournisseurGridResponse | null | undefined,
+  history?: AlimentPriceVersionResponse[] | null
+): AlimentGridPriceLookup {
+  const byKey = new Map<string, number>();
+  const names = new Map((grid?.fournisseurs ?? []).map((f) => [f.id, f.name]));
+  for (const p of grid?.prices ?? []) {
+    const name = names.get(p.fournisseurId);
+    if (name == null || p.price_kg == null || !Number.isFinite(p.price_kg)) continue;
+    byKey.set(gridPriceKey(name, p.designation), p.price_kg);
+  }
+  const versionsByKey = new Map<string, AlimentPriceVersionResponse[]>();
+  for (const versions of priceVersionsByCell(history).values()) {
+    const name = names.get(versions[0].fournisseurId);
+    if (name != null) versionsByKey.set(gridPriceKey(name, versions[0].designation), versions);
+  }
+  return (supplier, designation, date) => {
+    if (!supplier.trim() || !designation.trim()) return null;
+    const key = gridPriceKey(supplier, designation);
+    if (date?.trim()) {
+      const dated = priceAsOf(versionsByKey.get(key), date.trim());
+      if (dated !== undefined) return dated;
+    }
+    return byKey.get(key) ?? null;
+  };
+}
+
+/** Typed PRIX differing from the grid price by more than half a percent (rounding of the grid is tolerated). */
+export const ALIMENT_GRID_PRICE_TOLERANCE = 0.005;
+
+export function alimentPriceDivergesFromGrid(prix: number | null, gridPrice: number | null): boolean {
+  if (prix == null || gridPrice == null || prix <= 0) return false;
+  return Math.abs(prix - gridPrice) > Math.max(0.01, gridPrice * ALIMENT_GRID_PRICE_TOLERANCE);
+}
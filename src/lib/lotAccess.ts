@@ -1,15 +1,18 @@
 import type { LotWithStatusResponse } from "@/lib/api";
 
+/** Closed-lot access of the session, from the lotsFermes grants (AuthContext.closedLotAccess). */
 export type ClosedLotSessionContext = {
   currentUserId?: number | null;
-  isAdministrateur: boolean;
-  isResponsableTechnique: boolean;
+  /** lotsFermes:read — any closed lot (default: ADMINISTRATEUR). */
+  canReadAnyClosedLot: boolean;
+  /** lotsFermes:update — may close lots, and read the ones they closed (default: RESPONSABLE_TECHNIQUE). */
+  canReadOwnClosedLot: boolean;
 };
 
 /**
- * Closed lots: RF / back-office / other RT cannot read.
- * ADMIN: always. RT: only if they closed the lot (closedByUserId matches).
- * Legacy rows (closed, closedByUserId null): only ADMIN.
+ * Closed lots: roles without a lotsFermes grant (RF / back-office by default) cannot read.
+ * lotsFermes:read: always. lotsFermes:update: only if they closed the lot (closedByUserId matches).
+ * Legacy rows (closed, closedByUserId null): only lotsFermes:read.
  */
 export function canReadClosedLot(
   closed: boolean,
@@ -17,9 +20,9 @@ export function canReadClosedLot(
   ctx: ClosedLotSessionContext
 ): boolean {
   if (!closed) return true;
-  if (ctx.isAdministrateur) return true;
+  if (ctx.canReadAnyClosedLot) return true;
   if (
-    ctx.isResponsableTechnique &&
+    ctx.canReadOwnClosedLot &&
     ctx.currentUserId != null &&
     closedByUserId != null &&
     closedByUserId === ctx.currentUserId
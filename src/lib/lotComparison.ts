@@ -0,0 +1,150 @@
+/**
+ * Multi-lot comparison (Dashboard → "Comparaison multi-lots", RT / Admin).
+ *
+ * For each selected (farm, lot) pair, one weekly series per metric:
+ * - mortalité % cumul: suiviTechniqueHebdo, last day of the week per sex/bâtiment, weighted by effectif départ
+ * - poids moyen, indice de consommation, GMQ: suiviPerformancesHebdo REEL, mean of the bâtiments that have a value
+ * - prix de revient/kg: suiviCoutHebdo.getResumeSummary (all bâtiments of the lot)
+ * Bâtiments per sex come from InfosSetup (effectif mis en place > 0), like the weekly Dashboard.
+ * A 404 counts as "no data"; any other failure rejects so the lot shows as failed instead of empty.
+ */
+
+import { api, type SuiviTechniqueHebdoResponse } from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import { mapWithConcurrency } from "@/lib/mapWithConcurrency";
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+import { sortSemaines } from "@/utils/semaineAgeUtils";
+
+export type ComparisonMetric = "mortaliteCumulPct" | "poidsMoyen" | "indiceConsommation" | "gmq" | "prixRevientKg";
+
+export interface ComparisonMetricDef {
+  key: ComparisonMetric;
+  label: string;
+  unit?: string;
+  decimals: number;
+  /** Direction of "better" (colors of WeekOverWeekTable and PerformanceHeatMap). */
+  higherIsBetter: boolean;
+}
+
+export const COMPARISON_METRICS: ComparisonMetricDef[] = [
+  { key: "mortaliteCumulPct", label: "Mortalité % cumul", unit: "%", decimals: 2, higherIsBetter: false },
+  { key: "poidsMoyen", label: "Poids moyen", unit: "g", decimals: 0, higherIsBetter: true },
+  { key: "indiceConsommation", label: "Indice de consommation", decimals: 3, higherIsBetter: false },
+  { key: "gmq", label: "GMQ", unit: "g/j", decimals: 1, higherIsBetter: true },
+  { key: "prixRevientKg", label: "Prix de revient / kg", decimals: 2, higherIsBetter: false },
+];
+
+export interface ComparisonLotRef {
+  farmId: number;
+  farmName: string;
+  lot: string;
+}
+
+export type ComparisonWeekValues = Record<ComparisonMetric, number | null>;
+
+export interface ComparisonLotSeries extends ComparisonLotRef {
+  /** Canonical semaines with data (S1, S2…), in order. */
+  weeks: string[];
+  values: Record<string, ComparisonWeekValues>;
+}
+
+/** Parallel requests per lot; the performances endpoint is called once per semaine × bâtiment. */
+const MAX_CONCURRENT_REQUESTS = 6;
+
+function mean(values: (number | null | undefined)[]): number | null {
+  const nums = values.filter((v): v is number => v != null && !Number.isNaN(v));
+  return nums.length === 0 ? null : nums.reduce((a, b) => a + b, 0) / nums.length;
+}
+
+/** Weighted mortalité % cumul of the week: last recorded day per sex/bâtiment, weighted by its effectif départ. */
+function mortaliteCumulPctOfWeek(rows: SuiviTechniqueHebdoResponse[]): number | null {
+  const lastByGroup = new Map<string, SuiviTechniqueHebdoResponse>();
+  for (const r of rows) {
+    if (r.isPlaceholder || r.mortaliteCumulPct == null) continue;
+    const key = `${r.sex}|${r.batiment ?? ""}`;
+    const prev = lastByGroup.get(key);
+    if (!prev || (r.recordDate ?? "") > (prev.recordDate ?? "")) lastByGroup.set(key, r);
+  }
+  let weighted = 0;
+  let weight = 0;
+  for (const r of lastByGroup.values()) {
+    const w = r.effectifDepart ?? 0;
+    if (w > 0) {
+      weighted += (r.mortaliteCumulPct as number) * w;
+      weight += w;
+    }
+  }
+  if (weight > 0) return weighted / weight;
+  return mean([...lastByGroup.values()].map((r) => r.mortaliteCumulPct));
+}
+
+export async function loadLotComparisonSeries(ref: ComparisonLotRef): Promise<ComparisonLotSeries> {
+  const { farmId, lot } = ref;
+  const [setupRows, hebdoRows] = await Promise.all([
+    noneIfNotFound(api.setupInfo.list(farmId, lot)),
+    noneIfNotFound(api.suiviTechniqueHebdo.list({ farmId, lot })),
+  ]);
+
+  const groups: { sex: string; batiment: string }[] = [];
+  for (const s of setupRows ?? []) {
+    const batiment = (s.building ?? "").trim();
+    if (!batiment || !((s.effectifMisEnPlace ?? 0) > 0)) continue;
+    if (!groups.some((g) => g.sex === s.sex && g.batiment === batiment)) groups.push({ sex: s.sex, batiment });
+  }
+  const batiments = [...new Set(groups.map((g) => g.batiment))].sort();
+
+  const rowsByWeek = new Map<string, SuiviTechniqueHebdoResponse[]>();
+  for (const r of hebdoRows ?? []) {
+    const semaine = canonicalSemaine(r.semaine);
+    if (!/^S\d+$/.test(semaine)) continue;
+    const list = rowsByWeek.get(semaine) ?? [];
+    list.push(r);
+    rowsByWeek.set(semaine, list);
+  }
+  const weeks = sortSemaines([...rowsByWeek.keys()]);
+
+  const perfCalls = weeks.flatMap((semaine) => groups.map((g) => ({ semaine, ...g })));
+  const [perfResults, coutResults] = await Promise.all([
+    mapWithConcurrency(perfCalls, MAX_CONCURRENT_REQUESTS, (c) =>
+      noneIfNotFound(
+        api.suiviPerformancesHebdo.get({ farmId, lot, semaine: c.semaine, sex: c.sex, batiment: c.batiment })
+      ).then((res) => ({ semaine: c.semaine, res }))
+    ),
+    batiments.length === 0
+      ? Promise.resolve([])
+      : mapWithConcurrency(weeks, MAX_CONCURRENT_REQUESTS, (semaine) =>
+          noneIfNotFound(api.suiviCoutHebdo.getResumeSummary({ farmId, lot, semaine, batiments: batiments.join(",") })).then(
+            (res) => ({ semaine, prixRevientKg: res?.prixRevientParKg ?? null })
+          )
+        ),
+  ]);
+
+  const values: Record<string, ComparisonWeekValues> = {};
+  for (const semaine of weeks) {
+    const perfs = perfResults.filter((p) => p.semaine === semaine && p.res != null).map((p) => p.res!);
+    values[semaine] = {
+      mortaliteCumulPct: mortaliteCumulPctOfWeek(rowsByWeek.get(semaine) ?? []),
+      poidsMoyen: mean(perfs.map((p) => p.poidsMoyenReel)),
+      indiceConsommation: mean(perfs.map((p) => p.indiceConsommationReel)),
+      gmq: mean(perfs.map((p) => p.gmqReel)),
+      prixRevientKg: coutResults.find((c) => c.semaine === semaine)?.prixRevientKg ?? null,
+    };
+  }
+  return { ...ref, weeks, values };
+}
+
+/** Label shown in legends / table rows: "Ferme A — Lot 12". */
+export function comparisonLotLabel(ref: ComparisonLotRef): string {
+  return `${ref.farmName} — Lot ${ref.lot}`;
+}
+
+/** Union of the semaines of all series, in order (x axis of the overlay chart, heat map columns). */
+export function comparisonWeeks(series: ComparisonLotSeries[]): string[] {
+  return sortSemaines([...new Set(series.flatMap((s) => s.weeks))]);
+}
+
+/** Last two semaines of the series having a value for the metric ([previous, current]), for WeekOverWeekTable. */
+export function lastTwoWeeksWithValue(series: ComparisonLotSeries, metric: ComparisonMetric): [string, string] | null {
+  const withValue = series.weeks.filter((w) => series.values[w]?.[metric] != null);
+  return withValue.length >= 2 ? [withValue[withValue.length - 2], withValue[withValue.length - 1]] : null;
+}
@@ -0,0 +1,297 @@
+/**
+ * Lot lifecycle timeline (/lots/:lot/timeline): mise en place → vaccinations → reporting journalier →
+ * semaines de suivi technique → sorties → vide sanitaire, merged into one chronological feed.
+ * Events are built from the existing clients only (no dedicated backend endpoint).
+ */
+
+import {
+  api,
+  type DailyReportResponse,
+  type SetupInfoResponse,
+  type SortieResponse,
+  type SuiviTechniqueHebdoResponse,
+  type VaccinationPlanningResponse,
+  type VideSanitaireGazResponse,
+  type VideSanitairePailleResponse,
+  type VideSanitaireResponse,
+} from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import { normalizeBatimentName } from "@/lib/mergeDailyReportsIntoWeeklyHebdo";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+
+export type LotTimelineEventType =
+  | "placement"
+  | "vaccination"
+  | "reporting"
+  | "suiviHebdo"
+  | "sortie"
+  | "videSanitaire";
+
+export const LOT_TIMELINE_EVENT_TYPES: LotTimelineEventType[] = [
+  "placement",
+  "vaccination",
+  "reporting",
+  "suiviHebdo",
+  "sortie",
+  "videSanitaire",
+];
+
+export const LOT_TIMELINE_TYPE_LABELS: Record<LotTimelineEventType, string> = {
+  placement: "Mise en place",
+  vaccination: "Vaccination",
+  reporting: "Reporting journalier",
+  suiviHebdo: "Suivi technique",
+  sortie: "Sortie",
+  videSanitaire: "Vide sanitaire",
+};
+
+export interface LotTimelineEvent {
+  id: string;
+  type: LotTimelineEventType;
+  /** yyyy-mm-dd */
+  date: string;
+  title: string;
+  detail?: string;
+  /** Normalized bâtiment (B1, B2…); null for lot-wide events (sorties, vide sanitaire, vaccinations). */
+  batiment: string | null;
+  /** Page where the event can be edited. */
+  link?: string;
+}
+
+export interface LotTimelineSources {
+  setupInfo: SetupInfoResponse[];
+  vaccinations: VaccinationPlanningResponse[];
+  dailyReports: DailyReportResponse[];
+  suiviHebdo: SuiviTechniqueHebdoResponse[];
+  sorties: SortieResponse[];
+  videSanitaireHygiene: VideSanitaireResponse | null;
+  videSanitairePaille: VideSanitairePailleResponse | null;
+  videSanitaireGaz: VideSanitaireGazResponse | null;
+}
+
+function isoDate(value: string | null | undefined): string | null {
+  const m = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  return m ? m[1] : null;
+}
+
+function fmt(n: number | null | undefined, decimals = 0): string {
+  return n == null || Number.isNaN(n) ? "—" : formatGroupedNumber(n, decimals);
+}
+
+function lotQuery(farmId: number, lot: string): string {
+  return `farmId=${farmId}&lot=${encodeURIComponent(lot)}`;
+}
+
+/** One event per (date, bâtiment): mortalité summed over sexes, eau summed. */
+function reportingEvents(reports: DailyReportResponse[], farmId: number, lot: string): LotTimelineEvent[] {
+  const byDayBatiment = new Map<string, DailyReportResponse[]>();
+  for (const r of reports) {
+    const date = isoDate(r.reportDate);
+    if (!date) continue;
+    const key = `${date}|${normalizeBatimentName(r.building ?? "")}`;
+    const list = byDayBatiment.get(key) ?? [];
+    list.push(r);
+    byDayBatiment.set(key, list);
+  }
+  return [...byDayBatiment.entries()].map(([key, rows]) => {
+    const [date, batiment] = key.split("|");
+    const mortalite = rows.reduce((s, r) => s + (r.nbr ?? 0), 0);
+    const eau = rows.reduce((s, r) => s + (r.waterL ?? 0), 0);
+    const traitements = [...new Set(rows.map((r) => r.traitement?.trim()).filter(Boolean))];
+    const age = rows.find((r) => r.ageJour != null)?.ageJour;
+    return {
+      id: `reporting-${key}`,
+      type: "reporting",
+      date,
+      title: `Rapport journalier${age != null ? ` — J${age}` : ""}`,
+      detail:
+        `Mortalité ${fmt(mortalite)} · Eau ${fmt(eau)} L` +
+        (traitements.length > 0 ? ` · Traitement : ${traitements.join(", ")}` : ""),
+      batiment: batiment || null,
+      link: `/reporting-journalier?${lotQuery(farmId, lot)}`,
+    };
+  });
+}
+
+/** One event per (semaine, bâtiment, sexe), dated on the last recorded day of the week. */
+function suiviHebdoEvents(rows: SuiviTechniqueHebdoResponse[], farmId: number, lot: string): LotTimelineEvent[] {
+  const byWeek = new Map<string, SuiviTechniqueHebdoResponse[]>();
+  for (const r of rows) {
+    if (!r.semaine || r.isPlaceholder) continue;
+    const key = `${r.semaine}|${normalizeBatimentName(r.batiment ?? "")}|${r.sex}`;
+    const list = byWeek.get(key) ?? [];
+    list.push(r);
+    byWeek.set(key, list);
+  }
+  const events: LotTimelineEvent[] = [];
+  for (const [key, list] of byWeek) {
+    const [semaine, batiment, sex] = key.split("|");
+    const dates = list.map((r) => isoDate(r.recordDate)).filter((d): d is string => d != null).sort();
+    if (dates.length === 0) continue;
+    const mortalite = list.reduce((s, r) => s + (r.mortaliteNbre ?? 0), 0);
+    const last = [...list].sort((a, b) => (a.recordDate ?? "").localeCompare(b.recordDate ?? "")).at(-1);
+    events.push({
+      id: `suiviHebdo-${key}`,
+      type: "suiviHebdo",
+      date: dates[dates.length - 1],
+      title: `Semaine ${semaine} — ${sex}`,
+      detail:
+        `Mortalité semaine ${fmt(mortalite)}` +
+        (last?.mortaliteCumulPct != null ? ` · Cumul ${fmt(last.mortaliteCumulPct, 2)} %` : "") +
+        (list[0]?.effectifDepart != null ? ` · Effectif départ ${fmt(list[0].effectifDepart)}` : ""),
+      batiment: batiment || null,
+      link: `/suivi-technique-hebdomadaire?${lotQuery(farmId, lot)}&semaine=${encodeURIComponent(semaine)}`,
+    });
+  }
+  return events;
+}
+
+function videSanitaireEvent(
+  kind: "Hygiène" | "Paille" | "Gaz",
+  record: VideSanitaireResponse | VideSanitairePailleResponse | VideSanitaireGazResponse | null,
+  link: string
+): LotTimelineEvent | null {
+  const date = isoDate(record?.date);
+  if (!record || !date) return null;
+  return {
+    id: `videSanitaire-${kind}-${record.id}`,
+    type: "videSanitaire",
+    date,
+    title: `Vide sanitaire — ${kind}`,
+    detail:
+      [record.supplier?.trim(), record.qte != null ? `Qté ${fmt(record.qte, 2)}` : null, record.montant != null ? `Montant ${fmt(record.montant, 2)}` : null]
+        .filter(Boolean)
+        .join(" · ") || undefined,
+    batiment: null,
+    link,
+  };
+}
+
+/** Merge all sources into one feed, oldest first (same day: lifecycle order of LOT_TIMELINE_EVENT_TYPES). */
+export function buildLotTimeline(sources: LotTimelineSources, farmId: number, lot: string): LotTimelineEvent[] {
+  const q = lotQuery(farmId, lot);
+  const events: LotTimelineEvent[] = [];
+
+  for (const s of sources.setupInfo) {
+    const date = isoDate(s.dateMiseEnPlace);
+    if (!date) continue;
+    events.push({
+      id: `placement-${s.id}`,
+      type: "placement",
+      date,
+      title: `Mise en place — ${s.sex}`,
+      detail:
+        `Effectif ${fmt(s.effectifMisEnPlace)}` +
+        (s.souche?.trim() ? ` · Souche ${s.souche.trim()}` : "") +
+        (s.origineFournisseur?.trim() ? ` · ${s.origineFournisseur.trim()}` : ""),
+      batiment: normalizeBatimentName(s.building ?? "") || null,
+      link: `/infos-setup?${q}`,
+    });
+  }
+
+  for (const v of sources.vaccinations) {
+    const date = isoDate(v.planDate);
+    if (!date) continue;
+    events.push({
+      id: `vaccination-${v.id}`,
+      type: "vaccination",
+      date,
+      title: `${v.vaccinTraitement?.trim() || "Vaccination"}${v.age ? ` — ${v.age}` : ""}`,
+      detail: [v.motif?.trim(), v.administration?.trim(), v.quantite?.trim(), v.remarques?.trim()].filter(Boolean).join(" · ") || undefined,
+      batiment: null,
+      link: `/planning-vaccination?${q}`,
+    });
+  }
+
+  events.push(...reportingEvents(sources.dailyReports, farmId, lot));
+  events.push(...suiviHebdoEvents(sources.suiviHebdo, farmId, lot));
+
+  for (const s of sources.sorties) {
+    const date = isoDate(s.date);
+    if (!date) continue;
+    events.push({
+      id: `sortie-${s.id}`,
+      type: "sortie",
+      date,
+      title: `Sortie${s.type?.trim() ? ` — ${s.type.trim()}` : ""}${s.semaine === 0 ? " (VS)" : ""}`,
+      detail:
+        [
+          s.client?.trim(),
+          s.nbre_dinde != null ? `${fmt(s.nbre_dinde)} dindes` : null,
+          s.qte_brute_kg != null ? `${fmt(s.qte_brute_kg, 2)} kg` : null,
+          s.num_bl?.trim() ? `BL ${s.num_bl.trim()}` : null,
+        ]
+          .filter(Boolean)
+          .join(" · ") || undefined,
+      batiment: null,
+      link: `/sorties-ferme?${q}`,
+    });
+  }
+
+  for (const e of [
+    videSanitaireEvent("Hygiène", sources.videSanitaireHygiene, `/produits-hygiene?${q}`),
+    videSanitaireEvent("Paille", sources.videSanitairePaille, `/livraisons-paille?${q}`),
+    videSanitaireEvent("Gaz", sources.videSanitaireGaz, `/livraisons-gaz?${q}`),
+  ]) {
+    if (e) events.push(e);
+  }
+
+  const typeOrder = (t: LotTimelineEventType) => LOT_TIMELINE_EVENT_TYPES.indexOf(t);
+  return events.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      typeOrder(a.type) - typeOrder(b.type) ||
+      (a.batiment ?? "").localeCompare(b.batiment ?? "", undefined, { numeric: true })
+  );
+}
+
+export interface LotTimelineSourceError {
+  type: LotTimelineEventType;
+  /** Section shown to the user, e.g. "Vide sanitaire — Paille". */
+  label: string;
+  error: unknown;
+}
+
+export interface LotTimelineLoad {
+  sources: LotTimelineSources;
+  /** Sources that failed to load: their events are missing from the timeline. */
+  errors: LotTimelineSourceError[];
+}
+
+/**
+ * Fetch every source of the lot in parallel. A failing source does not fail the others: it is loaded as empty
+ * and reported in `errors`, so the page shows which sections are incomplete instead of a partial lot as if whole.
+ */
+export async function loadLotTimelineSources(farmId: number, lot: string): Promise<LotTimelineLoad> {
+  const errors: LotTimelineSourceError[] = [];
+  const settle = <T>(type: LotTimelineEventType, label: string, request: Promise<T>, empty: T): Promise<T> =>
+    request.catch((error: unknown) => {
+      errors.push({ type, label, error });
+      return empty;
+    });
+  const vs = LOT_TIMELINE_TYPE_LABELS.videSanitaire;
+  const [setupInfo, vaccinations, dailyReports, suiviHebdo, sorties, hygiene, paille, gaz] = await Promise.all([
+    settle("placement", LOT_TIMELINE_TYPE_LABELS.placement, api.setupInfo.list(farmId, lot), []),
+    settle("vaccination", LOT_TIMELINE_TYPE_LABELS.vaccination, api.vaccinationPlanning.list({ farmId, lot }), []),
+    settle("reporting", LOT_TIMELINE_TYPE_LABELS.reporting, api.dailyReports.list(farmId, lot), []),
+    settle("suiviHebdo", LOT_TIMELINE_TYPE_LABELS.suiviHebdo, api.suiviTechniqueHebdo.list({ farmId, lot }), []),
+    settle("sortie", LOT_TIMELINE_TYPE_LABELS.sortie, api.sorties.list({ farmId, lot }), []),
+    settle("videSanitaire", `${vs} — Hygiène`, noneIfNotFound(api.videSanitaire.get({ farmId, lot })), null),
+    settle("videSanitaire", `${vs} — Paille`, noneIfNotFound(api.videSanitairePaille.get({ farmId, lot })), null),
+    settle("videSanitaire", `${vs} — Gaz`, noneIfNotFound(api.videSanitaireGaz.get({ farmId, lot })), null),
+  ]);
+  const typeOrder = (t: LotTimelineEventType) => LOT_TIMELINE_EVENT_TYPES.indexOf(t);
+  return {
+    sources: {
+      setupInfo: setupInfo ?? [],
+      vaccinations: vaccinations ?? [],
+      dailyReports: dailyReports ?? [],
+      suiviHebdo: suiviHebdo ?? [],
+      sorties: sorties ?? [],
+      videSanitaireHygiene: hygiene,
+      videSanitairePaille: paille,
+      videSanitaireGaz: gaz,
+    },
+    errors: errors.sort((a, b) => typeOrder(a.type) - typeOrder(b.type) || a.label.localeCompare(b.label)),
+  };
+}
@@ -2,6 +2,10 @@
  * Shared labels and helpers for Main d'œuvre page and exports (PDF / Excel).
  */
 
+import type { MainOeuvreRequest } from "@/lib/api";
+import type { ConflictField } from "@/lib/conflictMerge";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+
 /** Data columns when Montant is hidden (RF, etc.). */
 export const MAIN_OEUVRE_TABLE_HEADERS_WITHOUT_MONTANT = [
   "AGE",
@@ -85,3 +89,23 @@ export function mainOeuvreEmployeListFromEntries(
     .join(", ");
   return joined || "—";
 }
+
+/**
+ * Fields compared in the conflict merge dialog (409 on update). Employé is shown by name;
+ * Montant only when the column is visible for the role.
+ */
+export function mainOeuvreConflictFields(
+  employerLabel: (employerId: number) => string,
+  showMontant: boolean
+): ConflictField<MainOeuvreRequest>[] {
+  const fields: ConflictField<MainOeuvreRequest>[] = [
+    { key: "date", label: "Date" },
+    { key: "employerId", label: "Employé", format: (v) => employerLabel(Number(v)) },
+    { key: "fullDay", label: "Temps de travail", format: (v) => (v ? "1 (jour)" : "1/2 (demijour)") },
+    { key: "observation", label: "Observation" },
+  ];
+  if (showMontant) {
+    fields.push({ key: "montant", label: "Montant", format: (v) => formatGroupedNumber(Number(v), 2) });
+  }
+  return fields;
+}
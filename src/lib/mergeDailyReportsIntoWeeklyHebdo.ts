@@ -1,4 +1,4 @@
-import type { DailyReportResponse, SuiviTechniqueHebdoResponse } from "@/lib/api";
+import type { DailyReportResponse, SuiviTechniqueHebdoRequest, SuiviTechniqueHebdoResponse } from "@/lib/api";
 
 /** Align with SuiviTechniqueHebdomadaire — daily UI may use "Bâtiment 01". */
 export function normalizeBatimentName(name: string): string {
@@ -48,6 +48,8 @@ export interface MergedWeeklyHebdoRow {
   traitement: string;
   observation: string;
   isPlaceholder?: boolean;
+  /** Server version of the saved hebdo line (optimistic locking); absent for rows not yet saved. */
+  version?: number | null;
 }
 
 function normalizeDecFromApi(v: unknown): string {
@@ -76,6 +78,7 @@ function hebdoToMerged(r: SuiviTechniqueHebdoResponse): MergedWeeklyHebdoRow {
     observation: r.observation ?? "",
     isPlaceholder:
       r.isPlaceholder ?? (r.ageJour == null && r.mortaliteNbre == null && r.consoEauL == null),
+    version: r.version ?? null,
   };
 }
 
@@ -205,3 +208,33 @@ export function mergeHebdoRowsWithDailyReports(
 
   return out;
 }
+
+/** Save payload of a merged line (WeeklyTrackingTable rows, lot-wide sync of hebdoDailySync.ts). */
+export function buildHebdoRequestFromMergedRow(
+  r: MergedWeeklyHebdoRow,
+  p: {
+    lot: string;
+    sex: string;
+    batiment: string;
+    semaine: string;
+    effectifDepart: number | null;
+  }
+): SuiviTechniqueHebdoRequest {
+  return {
+    lot: p.lot,
+    sex: p.sex,
+    batiment: p.batiment,
+    semaine: p.semaine,
+    effectifDepart: p.effectifDepart,
+    recordDate: r.recordDate,
+    ageJour: r.ageJour.trim() !== "" ? parseInt(r.ageJour, 10) : null,
+    mortaliteNbre: r.mortaliteNbre.trim() !== "" ? parseInt(r.mortaliteNbre, 10) : null,
+    consoEauL: r.consoEauL.trim() !== "" ? parseFloat(r.consoEauL.replace(",", ".")) : null,
+    tempMin: r.tempMin.trim() !== "" ? parseFloat(r.tempMin.replace(",", ".")) : null,
+    tempMax: r.tempMax.trim() !== "" ? parseFloat(r.tempMax.replace(",", ".")) : null,
+    vaccination: r.vaccination.trim() || null,
+    traitement: r.traitement.trim() || null,
+    observation: r.observation.trim() || null,
+    version: r.version ?? null,
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Offline outbox — persistent (IndexedDB) queue of pending API writes.
+ *
+ * Pages enqueue a write when the network call fails (barns with patchy connectivity); the queue is
+ * replayed later through a handler registered per entity kind (e.g. "dailyReports"). Handlers can
+ * report a version conflict (row changed on the server since it was read) instead of overwriting.
+ * Entries stay in the store until they are synced or discarded — nothing typed offline is lost on reload.
+ */
+
+import { ApiNetworkError, ApiTimeoutError } from "@/lib/apiErrors";
+
+const DB_NAME = "elevagepro_outbox";
+const DB_VERSION = 1;
+const STORE = "entries";
+
+/** Event dispatched on window whenever the outbox content changes (enqueue, sync, discard). */
+export const OUTBOX_CHANGED_EVENT = "offlineOutboxChanged";
+
+/** Max automatic attempts before an entry stays in "failed" until the user retries it. */
+export const OUTBOX_MAX_ATTEMPTS = 8;
+
+export type OutboxStatus = "pending" | "syncing" | "failed" | "conflict";
+
+export interface OutboxEntry<P = unknown> {
+  /** Local id (UUID). */
+  id: string;
+  /** Entity kind — selects the replay handler (e.g. "dailyReports", "livraisonsAliment"). */
+  kind: string;
+  /** Operation name understood by the handler (e.g. "createBatch", "replaceBatch", "update"). */
+  op: string;
+  farmId?: number | null;
+  lot?: string | null;
+  /** Business date of the write (YYYY-MM-DD) — used to show pending days in overviews. */
+  date?: string | null;
+  payload: P;
+  /** Server versions of the rows this write is based on (id → version), for conflict detection. */
+  baseVersions?: Record<number, number>;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string | null;
+  /** Epoch ms before which the entry is not retried automatically (exponential backoff). */
+  nextAttemptAt: number;
+  createdAt: string;
+  /** Set when the user chose « Écraser » on a conflict: replay without the version check. */
+  force?: boolean;
+}
+
+/** Outcome of one replay. "conflict" keeps the entry for user resolution. */
+export type OutboxReplayResult = { status: "ok" } | { status: "conflict"; message: string };
+
+export type OutboxHandler = (entry: OutboxEntry) => Promise<OutboxReplayResult>;
+
+export interface OutboxHandlerOptions {
+  /**
+   * Ops that can be replayed safely after a timeout (the request may have reached the server).
+   * Any other op that times out becomes a "conflict" for the user to check instead of being written twice.
+   */
+  idempotentOps?: string[];
+}
+
+const handlers = new Map<string, { replay: OutboxHandler; idempotentOps: Set<string> }>();
+
+/** Register the replay handler for an entity kind. Called once at module load by each *Outbox.ts. */
+export function registerOutboxHandler(kind: string, handler: OutboxHandler, opts?: OutboxHandlerOptions): void {
+  handlers.set(kind, { replay: handler, idempotentOps: new Set(opts?.idempotentOps ?? []) });
+}
+
+// ==================== Storage ====================
+
+/** In-memory fallback when IndexedDB is unavailable (private mode, tests). */
+const memoryStore = new Map<string, OutboxEntry>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    try {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.set(entry.id, entry);
+    return;
+  }
+  await requestToPromise(db.transaction(STORE, "readwrite").objectStore(STORE).put(entry));
+}
+
+async function deleteEntry(id: string): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.delete(id);
+    return;
+  }
+  await requestToPromise(db.transaction(STORE, "readwrite").objectStore(STORE).delete(id));
+}
+
+async function getAllEntries(): Promise<OutboxEntry[]> {
+  const db = await openDb();
+  if (!db) return [...memoryStore.values()];
+  return requestToPromise(db.transaction(STORE, "readonly").objectStore(STORE).getAll() as IDBRequest<OutboxEntry[]>);
+}
+
+function notifyChanged(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(OUTBOX_CHANGED_EVENT));
+  }
+}
+
+// ==================== Public API ====================
+
+/**
+ * True when an error thrown by apiFetch means "no response from the server" (offline, DNS, connection reset,
+ * timeout). HTTP errors (4xx/5xx) are not queued — they would fail again. A timeout may still have reached the
+ * server: the flush only replays it for idempotent ops (see OutboxHandlerOptions).
+ */
+export function isNetworkError(e: unknown): boolean {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  return e instanceof ApiNetworkError || e instanceof TypeError;
+}
+
+export async function enqueueOutbox<P>(
+  entry: Pick<OutboxEntry<P>, "kind" | "op" | "payload"> &
+    Partial<Pick<OutboxEntry<P>, "farmId" | "lot" | "date" | "baseVersions">>
+): Promise<OutboxEntry<P>> {
+  const full: OutboxEntry<P> = {
+    id: crypto.randomUUID(),
+    farmId: entry.farmId ?? null,
+    lot: entry.lot ?? null,
+    date: entry.date ?? null,
+    baseVersions: entry.baseVersions,
+    kind: entry.kind,
+    op: entry.op,
+    payload: entry.payload,
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: 0,
+    createdAt: new Date().toISOString(),
+  };
+  await putEntry(full as OutboxEntry);
+  notifyChanged();
+  return full;
+}
+
+/** List entries, oldest first, optionally filtered by kind / farm / lot. */
+export async function listOutbox(filter?: {
+  kind?: string;
+  farmId?: number | null;
+  lot?: string | null;
+}): Promise<OutboxEntry[]> {
+  let all: OutboxEntry[];
+  try {
+    all = await getAllEntries();
+  } catch {
+    return [];
+  }
+  return all
+    .filter((e) => filter?.kind == null || e.kind === filter.kind)
+    .filter((e) => filter?.farmId == null || e.farmId == null || e.farmId === filter.farmId)
+    .filter((e) => filter?.lot == null || (e.lot ?? "") === filter.lot.trim())
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Drop an entry without syncing (user chose to keep the server version). */
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await deleteEntry(id);
+  notifyChanged();
+}
+
+/** Conflict resolution « Écraser » / manual retry: replay now, skipping the version check when forced. */
+export async function retryOutboxEntry(id: string, opts?: { force?: boolean }): Promise<void> {
+  const entry = (await getAllEntries()).find((e) => e.id === id);
+  if (!entry) return;
+  await putEntry({ ...entry, status: "pending", nextAttemptAt: 0, attempts: 0, force: opts?.force ?? entry.force });
+  notifyChanged();
+  await flushOutbox({ onlyId: id });
+}
+
+let flushing: Promise<OutboxFlushSummary> | null = null;
+
+export interface OutboxFlushSummary {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(5 * 60_000, 2_000 * 2 ** Math.max(0, attempts - 1));
+}
+
+const TIMEOUT_CONFLICT_MESSAGE =
+  "Le serveur n'a pas répondu à temps : la saisie a peut-être déjà été enregistrée. Vérifiez-la avant de l'écraser.";
+
+/**
+ * Replay due entries in creation order. Stops early on a network error (still offline):
+ * the remaining entries keep their order and are retried on the next flush.
+ * A flush of one entry (`onlyId`, manual retry) requested while another flush runs is queued after it.
+ */
+export function flushOutbox(opts?: { onlyId?: string }): Promise<OutboxFlushSummary> {
+  if (flushing) {
+    return opts?.onlyId ? flushing.catch(() => undefined).then(() => flushOutbox(opts)) : flushing;
+  }
+  flushing = (async () => {
+    const summary: OutboxFlushSummary = { synced: 0, conflicts: 0, failed: 0, remaining: 0 };
+    const now = Date.now();
+    const entries = (await listOutbox()).filter((e) => (opts?.onlyId ? e.id === opts.onlyId : true));
+    for (const entry of entries) {
+      if (entry.status === "conflict" || (entry.status === "failed" && !opts?.onlyId)) continue;
+      if (entry.nextAttemptAt > now && !opts?.onlyId) continue;
+      const handler = handlers.get(entry.kind);
+      if (!handler) continue;
+      await putEntry({ ...entry, status: "syncing" });
+      notifyChanged();
+      try {
+        const result = await handler.replay(entry);
+        if (result.status === "ok") {
+          await deleteEntry(entry.id);
+          summary.synced++;
+        } else {
+          await putEntry({ ...entry, status: "conflict", lastError: result.message });
+          summary.conflicts++;
+        }
+      } catch (e) {
+        const attempts = entry.attempts + 1;
+        const message = e instanceof Error ? e.message : String(e);
+        const network = isNetworkError(e);
+        if (e instanceof ApiTimeoutError && !handler.idempotentOps.has(entry.op)) {
+          await putEntry({ ...entry, status: "conflict", attempts, lastError: TIMEOUT_CONFLICT_MESSAGE });
+          summary.conflicts++;
+          notifyChanged();
+          break;
+        }
+        const status: OutboxStatus = !network || attempts >= OUTBOX_MAX_ATTEMPTS ? "failed" : "pending";
+        await putEntry({ ...entry, status, attempts, lastError: message, nextAttemptAt: Date.now() + backoffMs(attempts) });
+        if (status === "failed") summary.failed++;
+        notifyChanged();
+        if (network) break;
+      }
+      notifyChanged();
+    }
+    summary.remaining = (await listOutbox()).length;
+    return summary;
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
@@ -0,0 +1,5 @@
+/**
+ * Registers every offline outbox replay handler. Imported once by AppLayout so queued writes
+ * are replayed whatever page the user is on (handlers register themselves at module load).
+ */
+import "@/lib/dailyReportsOutbox";
@@ -0,0 +1,255 @@
+/**
+ * Performance vs norme status (PerformanceHeatMap, weekly Dashboard, Suivi Technique bâtiment export).
+ *
+ * For each metric, the écart between réel (suiviPerformancesHebdo) and norme (bâtiment row, else performanceNorme
+ * of the farm / semaine / sex, else the souche profile — performanceNormeProfilesShared.ts) is expressed in % of the norme, in the unfavourable direction (IC above norme,
+ * poids / GMQ / homogénéité / viabilité below). Tolerance bands per metric then give ok / watch / bad.
+ * Bands are configured per farm and saved on the server (api.performanceTolerances), so the Dashboard and the
+ * exports of every user of the farm agree.
+ */
+
+import {
+  api,
+  type PerformanceNormeProfileWeek,
+  type PerformanceNormeResponse,
+  type SuiviPerformancesHebdoResponse,
+} from "@/lib/api";
+import { ApiNotFoundError, noneIfNotFound } from "@/lib/apiErrors";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { mapWithConcurrency } from "@/lib/mapWithConcurrency";
+
+export type PerformanceStatus = "ok" | "watch" | "bad";
+
+export type PerformanceNormMetric = "poidsMoyen" | "homogeneite" | "indiceConsommation" | "gmq" | "viabilite";
+
+export interface PerformanceNormMetricDef {
+  key: PerformanceNormMetric;
+  label: string;
+  unit?: string;
+  /** true: réel below norme is unfavourable; false (IC): réel above norme is unfavourable. */
+  higherIsBetter: boolean;
+}
+
+/** Same labels and order as the Performances table (PerformanceTrackingTable). */
+export const PERFORMANCE_NORM_METRICS: PerformanceNormMetricDef[] = [
+  { key: "poidsMoyen", label: "POIDS MOYEN (g)", unit: "g", higherIsBetter: true },
+  { key: "homogeneite", label: "HOMOGÉNÉITÉ (%)", unit: "%", higherIsBetter: true },
+  { key: "indiceConsommation", label: "INDICE DE CONSOMMATION", higherIsBetter: false },
+  { key: "gmq", label: "GMQ (g/jour)", unit: "g/j", higherIsBetter: true },
+  { key: "viabilite", label: "VIABILITÉ (%)", unit: "%", higherIsBetter: true },
+];
+
+/** Max unfavourable écart (% of the norme) still considered ok, resp. à suivre; beyond `watch` → hors norme. */
+export interface PerformanceToleranceBand {
+  ok: number;
+  watch: number;
+}
+
+export type PerformanceToleranceBands = Record<PerformanceNormMetric, PerformanceToleranceBand>;
+
+export const DEFAULT_PERFORMANCE_TOLERANCES: PerformanceToleranceBands = {
+  poidsMoyen: { ok: 5, watch: 10 },
+  homogeneite: { ok: 5, watch: 10 },
+  indiceConsommation: { ok: 3, watch: 8 },
+  gmq: { ok: 5, watch: 10 },
+  viabilite: { ok: 1, watch: 2 },
+};
+
+function isValidBand(b: unknown): b is PerformanceToleranceBand {
+  const band = b as PerformanceToleranceBand | null;
+  return (
+    band != null &&
+    typeof band.ok === "number" &&
+    typeof band.watch === "number" &&
+    band.ok >= 0 &&
+    band.watch >= band.ok
+  );
+}
+
+/** Saved bands merged over the defaults (unknown / invalid entries are ignored). */
+export function resolvePerformanceTolerances(
+  saved: Partial<Record<string, unknown>> | null | undefined
+): PerformanceToleranceBands {
+  const out = { ...DEFAULT_PERFORMANCE_TOLERANCES };
+  for (const m of PERFORMANCE_NORM_METRICS) {
+    const band = saved?.[m.key];
+    if (isValidBand(band)) out[m.key] = { ok: band.ok, watch: band.watch };
+  }
+  return out;
+}
+
+/** Bands of the farm; the defaults when it never saved any. */
+export async function loadPerformanceTolerances(farmId: number): Promise<PerformanceToleranceBands> {
+  try {
+    return resolvePerformanceTolerances((await api.performanceTolerances.get(farmId))?.bands);
+  } catch (e) {
+    if (e instanceof ApiNotFoundError) return DEFAULT_PERFORMANCE_TOLERANCES;
+    throw e;
+  }
+}
+
+/** Unfavourable écart in % of the norme (negative = better than norme); null when réel or norme is missing. */
+export function unfavourableEcartPct(
+  reel: number | null | undefined,
+  norme: number | null | undefined,
+  def: PerformanceNormMetricDef
+): number | null {
+  if (reel == null || norme == null || Number.isNaN(reel) || Number.isNaN(norme) || norme === 0) return null;
+  const ecartPct = ((reel - norme) / Math.abs(norme)) * 100;
+  return def.higherIsBetter ? -ecartPct : ecartPct;
+}
+
+export function performanceNormStatus(
+  reel: number | null | undefined,
+  norme: number | null | undefined,
+  def: PerformanceNormMetricDef,
+  bands: PerformanceToleranceBands = DEFAULT_PERFORMANCE_TOLERANCES
+): PerformanceStatus | null {
+  const ecart = unfavourableEcartPct(reel, norme, def);
+  if (ecart == null) return null;
+  const band = bands[def.key];
+  if (ecart <= band.ok) return "ok";
+  if (ecart <= band.watch) return "watch";
+  return "bad";
+}
+
+export type PerformanceNormValues = Record<PerformanceNormMetric, number | null>;
+
+/** Réel and norme of one semaine (mean over the bâtiments / sexes of the scope). */
+export interface PerformanceNormWeek {
+  semaine: string;
+  reel: PerformanceNormValues;
+  norme: PerformanceNormValues;
+}
+
+function mean(values: (number | null | undefined)[]): number | null {
+  const nums = values.filter((v): v is number => v != null && !Number.isNaN(v));
+  return nums.length === 0 ? null : nums.reduce((a, b) => a + b, 0) / nums.length;
+}
+
+const REEL_FIELD = {
+  poidsMoyen: "poidsMoyenReel",
+  homogeneite: "homogeneiteReel",
+  indiceConsommation: "indiceConsommationReel",
+  gmq: "gmqReel",
+  viabilite: "viabiliteReel",
+} as const satisfies Record<PerformanceNormMetric, keyof SuiviPerformancesHebdoResponse>;
+
+/** NORME field of each metric (PerformanceNormeRequest / SuiviPerformancesHebdoResponse / profile weeks). */
+export const NORME_FIELD = {
+  poidsMoyen: "poidsMoyenNorme",
+  homogeneite: "homogeneiteNorme",
+  indiceConsommation: "indiceConsommationNorme",
+  gmq: "gmqNorme",
+  viabilite: "viabiliteNorme",
+} as const satisfies Record<PerformanceNormMetric, keyof PerformanceNormeResponse & keyof SuiviPerformancesHebdoResponse>;
+
+/**
+ * Aggregate one semaine: réel = mean of the bâtiment rows; norme = mean of the bâtiment NORME values,
+ * falling back to the shared performanceNorme rows (per sex), then to the souche profile weeks.
+ */
+export function performanceNormWeekFrom(
+  semaine: string,
+  performances: SuiviPerformancesHebdoResponse[],
+  normes: PerformanceNormeResponse[],
+  profileWeeks: PerformanceNormeProfileWeek[] = []
+): PerformanceNormWeek {
+  const reel = {} as PerformanceNormValues;
+  const norme = {} as PerformanceNormValues;
+  for (const m of PERFORMANCE_NORM_METRICS) {
+    const field = NORME_FIELD[m.key];
+    reel[m.key] = mean(performances.map((p) => p[REEL_FIELD[m.key]]));
+    norme[m.key] =
+      mean(performances.map((p) => p[field])) ?? mean(normes.map((n) => n[field])) ?? mean(profileWeeks.map((w) => w[field]));
+  }
+  return { semaine, reel, norme };
+}
+
+/** S1 … Sn (n taken from `semaine`); empty when `semaine` is not an Sn label. */
+export function semainesUpTo(semaine: string): string[] {
+  const m = semaine.trim().match(/^S(\d+)$/i);
+  if (!m) return [];
+  const n = parseInt(m[1], 10);
+  return Array.from({ length: n }, (_, i) => `S${i + 1}`);
+}
+
+/** Parallel requests per matrix; the performances endpoint is called once per semaine × sex/bâtiment. */
+const MAX_CONCURRENT_REQUESTS = 6;
+
+/**
+ * Fetch performances (one call per semaine × sex/bâtiment) and shared normes (per semaine × sex) for the matrix.
+ * A 404 is "no data" for that cell; any other failure rejects. `profileNorme` (loadProfileNormeFallback) supplies
+ * the souche profile norme when the farm has none.
+ */
+export async function loadPerformanceNormWeeks(params: {
+  farmId: number;
+  lot: string;
+  weeks: string[];
+  groups: { sex: string; batiment: string }[];
+  profileNorme?: (sex: string, semaine: string) => PerformanceNormeProfileWeek | null;
+}): Promise<PerformanceNormWeek[]> {
+  const { farmId, lot, weeks, groups, profileNorme } = params;
+  const sexes = [...new Set(groups.map((g) => g.sex))];
+  const perfCalls = weeks.flatMap((semaine) => groups.map((g) => ({ semaine, ...g })));
+  const normeCalls = weeks.flatMap((semaine) => sexes.map((sex) => ({ semaine, sex })));
+  const [performances, normes] = await Promise.all([
+    mapWithConcurrency(perfCalls, MAX_CONCURRENT_REQUESTS, (c) =>
+      noneIfNotFound(
+        api.suiviPerformancesHebdo.get({ farmId, lot, semaine: c.semaine, sex: c.sex, batiment: c.batiment })
+      ).then((res) => ({ semaine: c.semaine, res }))
+    ),
+    mapWithConcurrency(normeCalls, MAX_CONCURRENT_REQUESTS, (c) =>
+      noneIfNotFound(api.performanceNorme.get({ farmId, semaine: c.semaine, sex: c.sex })).then((res) => ({
+        semaine: c.semaine,
+        res,
+      }))
+    ),
+  ]);
+  return weeks.map((semaine) =>
+    performanceNormWeekFrom(
+      semaine,
+      performances.filter((p) => p.semaine === semaine && p.res != null).map((p) => p.res as SuiviPerformancesHebdoResponse),
+      normes.filter((n) => n.semaine === semaine && n.res != null).map((n) => n.res as PerformanceNormeResponse),
+      profileNorme
+        ? sexes.map((sex) => profileNorme(sex, semaine)).filter((w): w is PerformanceNormeProfileWeek => w != null)
+        : []
+    )
+  );
+}
+
+export interface PerformanceNormMatrixRow {
+  metric: PerformanceNormMetricDef;
+  /** Réel per semaine, formatted ("—" when missing). */
+  values: string[];
+  /** Status per semaine (null: réel or norme missing). */
+  cellStatuses: (PerformanceStatus | null)[];
+  /** Status of the latest semaine that has one. */
+  status: PerformanceStatus | null;
+}
+
+function formatReel(v: number | null, def: PerformanceNormMetricDef): string {
+  if (v == null) return "—";
+  return formatGroupedNumber(v, Number.isInteger(v) ? 0 : def.key === "indiceConsommation" ? 3 : 2);
+}
+
+export function buildPerformanceNormMatrix(
+  weeks: PerformanceNormWeek[],
+  bands: PerformanceToleranceBands = DEFAULT_PERFORMANCE_TOLERANCES
+): PerformanceNormMatrixRow[] {
+  return PERFORMANCE_NORM_METRICS.map((def) => {
+    const cellStatuses = weeks.map((w) => performanceNormStatus(w.reel[def.key], w.norme[def.key], def, bands));
+    const status = [...cellStatuses].reverse().find((s) => s != null) ?? null;
+    return {
+      metric: def,
+      values: weeks.map((w) => formatReel(w.reel[def.key], def)),
+      cellStatuses,
+      status,
+    };
+  });
+}
+
+export const PERFORMANCE_STATUS_LABELS: Record<PerformanceStatus, string> = {
+  ok: "OK",
+  watch: "À suivre",
+  bad: "Hors norme",
+};
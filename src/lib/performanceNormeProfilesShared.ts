@@ -0,0 +1,319 @@
+/**
+ * Norm profiles per souche and sex (page Normes de performance, Suivi de PERFORMANCES, performance heat map).
+ *
+ * A profile is a breeder curve (S1…Sn) for one souche — the `souche` declared in Données mises en place — and one sex.
+ * Resolution of the NORME of a farm / lot / semaine / sex:
+ * 1. the farm's own performanceNorme value (per-farm override), field by field;
+ * 2. else the profile of the lot's souche for that sex.
+ * Writing a profile into the farm normes (apply) always goes through a diff preview: empty farm values are filled,
+ * differing farm values are only overwritten when explicitly selected.
+ */
+
+import type ExcelJS from "exceljs";
+import {
+  api,
+  type PerformanceNormeProfileRequest,
+  type PerformanceNormeProfileResponse,
+  type PerformanceNormeProfileWeek,
+  type PerformanceNormeRequest,
+  type PerformanceNormeResponse,
+  type SetupInfoResponse,
+} from "@/lib/api";
+import { ApiNotFoundError, noneIfNotFound } from "@/lib/apiErrors";
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+import { sortSemaines } from "@/utils/semaineAgeUtils";
+import { NORME_FIELD, PERFORMANCE_NORM_METRICS, type PerformanceNormMetricDef } from "@/lib/performanceNormStatus";
+
+/** Comparison key: "Hybrid Converter" and " hybrid  converter" are the same souche. */
+export function soucheKey(souche: string | null | undefined): string {
+  return (souche ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function findNormeProfile(
+  profiles: PerformanceNormeProfileResponse[],
+  souche: string | null | undefined,
+  sex: string
+): PerformanceNormeProfileResponse | null {
+  const key = soucheKey(souche);
+  if (!key) return null;
+  return profiles.find((p) => soucheKey(p.souche) === key && p.sex === sex) ?? null;
+}
+
+export function profileWeek(
+  profile: PerformanceNormeProfileRequest | null | undefined,
+  semaine: string
+): PerformanceNormeProfileWeek | null {
+  if (!profile) return null;
+  const s = canonicalSemaine(semaine);
+  return profile.weeks.find((w) => canonicalSemaine(w.semaine) === s) ?? null;
+}
+
+/** Souche declared in InfosSetup for the sex (and bâtiment when given); first non-empty one wins. */
+export function soucheFromSetup(
+  setupRows: Pick<SetupInfoResponse, "sex" | "building" | "souche">[],
+  sex: string,
+  batiment?: string | null
+): string | null {
+  const b = batiment?.trim();
+  const match = (r: Pick<SetupInfoResponse, "sex" | "building" | "souche">) =>
+    r.sex === sex && (!b || (r.building ?? "").trim() === b) && (r.souche ?? "").trim() !== "";
+  const row = setupRows.find(match) ?? (b ? setupRows.find((r) => r.sex === sex && (r.souche ?? "").trim() !== "") : undefined);
+  return row?.souche.trim() ?? null;
+}
+
+/** Profile norme lookup for one lot: (sex, semaine) → profile week of the souche declared for that sex. */
+export type ProfileNormeFallback = (sex: string, semaine: string) => PerformanceNormeProfileWeek | null;
+
+/** A 404 reads as "no profile"; any other failure rejects rather than silently dropping the fallback. */
+export async function loadProfileNormeFallback(farmId: number, lot: string): Promise<ProfileNormeFallback> {
+  const [setupRows, profiles] = await Promise.all([
+    noneIfNotFound(api.setupInfo.list(farmId, lot)),
+    noneIfNotFound(api.performanceNormeProfiles.list()),
+  ]);
+  return (sex, semaine) => profileWeek(findNormeProfile(profiles ?? [], soucheFromSetup(setupRows ?? [], sex), sex), semaine);
+}
+
+// ---------------------------------------------------------------------------
+// Diff preview (apply a profile to the farm normes)
+// ---------------------------------------------------------------------------
+
+export type NormeProfileDiffKind = "fill" | "override" | "same";
+
+export interface NormeProfileDiffRow {
+  semaine: string;
+  metric: PerformanceNormMetricDef;
+  /** Farm performanceNorme value (null: not set). */
+  current: number | null;
+  profile: number;
+  /** fill: farm value empty; override: farm value differs (kept unless selected); same: nothing to write. */
+  kind: NormeProfileDiffKind;
+}
+
+/** Same value once rounded to the input precision (avoids 1.2 vs 1.2000000001 diffs). */
+function sameNorme(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-6;
+}
+
+/** One row per semaine × metric the profile defines. `farmNormes` is keyed by canonical semaine. */
+export function diffFarmNormesWithProfile(
+  profile: PerformanceNormeProfileRequest,
+  farmNormes: Map<string, PerformanceNormeResponse | null>
+): NormeProfileDiffRow[] {
+  const rows: NormeProfileDiffRow[] = [];
+  for (const semaine of sortSemaines(profile.weeks.map((w) => canonicalSemaine(w.semaine)))) {
+    const week = profileWeek(profile, semaine);
+    const farm = farmNormes.get(semaine) ?? null;
+    for (const metric of PERFORMANCE_NORM_METRICS) {
+      const field = NORME_FIELD[metric.key];
+      const value = week?.[field];
+      if (value == null) continue;
+      const current = farm?.[field] ?? null;
+      rows.push({
+        semaine,
+        metric,
+        current,
+        profile: value,
+        kind: current == null ? "fill" : sameNorme(current, value) ? "same" : "override",
+      });
+    }
+  }
+  return rows;
+}
+
+export function diffRowKey(row: Pick<NormeProfileDiffRow, "semaine" | "metric">): string {
+  return `${row.semaine}|${row.metric.key}`;
+}
+
+/**
+ * Farm normes to save per semaine: current farm values, plus the selected diff rows (keys from diffRowKey).
+ * Semaines without any selected row are left out (nothing to write).
+ */
+export function buildNormeRequestsFromDiff(
+  sex: string,
+  diff: NormeProfileDiffRow[],
+  selectedKeys: Set<string>,
+  farmNormes: Map<string, PerformanceNormeResponse | null>
+): PerformanceNormeRequest[] {
+  const bySemaine = new Map<string, PerformanceNormeRequest>();
+  for (const row of diff) {
+    if (row.kind === "same" || !selectedKeys.has(diffRowKey(row))) continue;
+    let body = bySemaine.get(row.semaine);
+    if (!body) {
+      const farm = farmNormes.get(row.semaine) ?? null;
+      body = { semaine: row.semaine, sex };
+      for (const m of PERFORMANCE_NORM_METRICS) body[NORME_FIELD[m.key]] = farm?.[NORME_FIELD[m.key]] ?? null;
+      bySemaine.set(row.semaine, body);
+    }
+    body[NORME_FIELD[row.metric.key]] = row.profile;
+  }
+  return [...bySemaine.values()];
+}
+
+export interface FarmNormesForProfile {
+  /** Farm norme per semaine of the profile; null when the farm has none (404). */
+  normes: Map<string, PerformanceNormeResponse | null>;
+  /** Semaines whose farm norme could not be read: applying would overwrite their values with null. */
+  failedSemaines: string[];
+}
+
+/** Farm normes of every semaine of the profile. */
+export async function loadFarmNormesForProfile(
+  farmId: number,
+  profile: PerformanceNormeProfileRequest
+): Promise<FarmNormesForProfile> {
+  const semaines = [...new Set(profile.weeks.map((w) => canonicalSemaine(w.semaine)))];
+  const failedSemaines: string[] = [];
+  const entries = await Promise.all(
+    semaines.map(async (semaine) => {
+      try {
+        const norme = await api.performanceNorme.get({ farmId, semaine, sex: profile.sex });
+        return [semaine, norme ?? null] as const;
+      } catch (e) {
+        if (!(e instanceof ApiNotFoundError)) failedSemaines.push(semaine);
+        return [semaine, null] as const;
+      }
+    })
+  );
+  return { normes: new Map(entries), failedSemaines: sortSemaines(failedSemaines) };
+}
+
+// ---------------------------------------------------------------------------
+// Excel import (breeder performance objectives)
+// ---------------------------------------------------------------------------
+
+/**
+ * Header recognition for breeder sheets (French or English). The semaine column is "Semaine", "Sem", "Age (sem.)"
+ * or "Age (weeks)"; body weight in kg is converted to g. A sheet named after a sex (Mâle / Male / Dindon / Tom,
+ * Femelle / Female / Dinde / Hen) applies to that sex; otherwise columns may carry the sex in their header.
+ */
+const SEMAINE_HEADER = /^(semaine|sem\b|s\b|age.*(sem|week)|week)/;
+const METRIC_HEADERS: { field: keyof PerformanceNormeProfileWeek; pattern: RegExp }[] = [
+  { field: "poidsMoyenNorme", pattern: /(poids|body ?weight|\bbw\b|\bweight)/ },
+  { field: "homogeneiteNorme", pattern: /(homog|uniformit)/ },
+  { field: "indiceConsommationNorme", pattern: /(indice|\bic\b|fcr|conversion)/ },
+  { field: "gmqNorme", pattern: /(gmq|daily gain|gain quotidien|\badg\b)/ },
+  { field: "viabiliteNorme", pattern: /(viabilit|livabilit|survie)/ },
+];
+const MALE_TOKEN = /(m[aâ]le|\bmales?\b|dindon|\btoms?\b)/;
+const FEMALE_TOKEN = /(femelle|female|\bdindes?\b|\bhens?\b)/;
+
+function sexOf(text: string): "Mâle" | "Femelle" | null {
+  const t = text.toLowerCase();
+  // "female" contains "male": test the female tokens first
+  if (FEMALE_TOKEN.test(t)) return "Femelle";
+  if (MALE_TOKEN.test(t)) return "Mâle";
+  return null;
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value == null) return "";
+  if (typeof value === "object") {
+    if ("richText" in value) return value.richText.map((r) => r.text).join("");
+    if ("result" in value) return cellText(value.result as ExcelJS.CellValue);
+    if ("text" in value) return String(value.text);
+  }
+  return String(value);
+}
+
+function cellNumber(value: ExcelJS.CellValue): number | null {
+  const text = cellText(value).trim().replace(/\s/g, "").replace("%", "").replace(",", ".");
+  if (text === "") return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+function semaineOf(value: ExcelJS.CellValue): string | null {
+  const text = cellText(value).trim();
+  const m = text.match(/^S?\s*(\d+)$/i);
+  return m ? `S${parseInt(m[1], 10)}` : null;
+}
+
+interface ColumnMapping {
+  column: number;
+  field: keyof PerformanceNormeProfileWeek;
+  sex: "Mâle" | "Femelle" | null;
+  /** Multiply the cell value (kg → g). */
+  factor: number;
+}
+
+export interface ParsedNormeProfile extends PerformanceNormeProfileRequest {
+  /** Sheet the curve was read from (shown in the import preview). */
+  sheetName: string;
+}
+
+/**
+ * Read every sheet of a breeder workbook into profiles for `souche`. Sheets without a recognizable header row
+ * (semaine column + at least one metric within the first 15 rows) are ignored.
+ */
+export async function parseNormeProfileWorkbook(buffer: ArrayBuffer, souche: string): Promise<ParsedNormeProfile[]> {
+  const { Workbook } = (await import("exceljs")).default;
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer);
+  const profiles: ParsedNormeProfile[] = [];
+
+  workbook.eachSheet((ws) => {
+    const sheetSex = sexOf(ws.name);
+    let headerRow = -1;
+    let semaineCol = -1;
+    let columns: ColumnMapping[] = [];
+    for (let r = 1; r <= Math.min(ws.rowCount, 15) && headerRow < 0; r++) {
+      const row = ws.getRow(r);
+      let sCol = -1;
+      const cols: ColumnMapping[] = [];
+      row.eachCell((cell, col) => {
+        const header = cellText(cell.value).trim().toLowerCase();
+        if (!header) return;
+        if (sCol < 0 && SEMAINE_HEADER.test(header)) {
+          sCol = col;
+          return;
+        }
+        const metric = METRIC_HEADERS.find((m) => m.pattern.test(header));
+        if (!metric) return;
+        cols.push({
+          column: col,
+          field: metric.field,
+          sex: sexOf(header),
+          factor: metric.field === "poidsMoyenNorme" && /\bkg\b/.test(header) ? 1000 : 1,
+        });
+      });
+      if (sCol >= 0 && cols.length > 0) {
+        headerRow = r;
+        semaineCol = sCol;
+        columns = cols;
+      }
+    }
+    if (headerRow < 0) return;
+
+    const sexes: ("Mâle" | "Femelle")[] = sheetSex
+      ? [sheetSex]
+      : [...new Set(columns.map((c) => c.sex).filter((s): s is "Mâle" | "Femelle" => s != null))];
+    for (const sex of sexes) {
+      // Columns of this sex, or without sex; a sexed column wins over an unsexed one for the same field
+      const sexColumns = columns.filter((c) => c.sex === sex || (c.sex == null && !columns.some((o) => o.sex === sex && o.field === c.field)));
+      const weeks = new Map<string, PerformanceNormeProfileWeek>();
+      for (let r = headerRow + 1; r <= ws.rowCount; r++) {
+        const row = ws.getRow(r);
+        const semaine = semaineOf(row.getCell(semaineCol).value);
+        if (!semaine) continue;
+        const week: PerformanceNormeProfileWeek = weeks.get(semaine) ?? { semaine };
+        let hasValue = false;
+        for (const c of sexColumns) {
+          const n = cellNumber(row.getCell(c.column).value);
+          if (n == null) continue;
+          (week[c.field] as number | null | undefined) = Math.round(n * c.factor * 1000) / 1000;
+          hasValue = true;
+        }
+        if (hasValue) weeks.set(semaine, week);
+      }
+      if (weeks.size > 0) {
+        profiles.push({
+          souche: souche.trim(),
+          sex,
+          sheetName: ws.name,
+          weeks: sortSemaines([...weeks.keys()]).map((s) => weeks.get(s) as PerformanceNormeProfileWeek),
+        });
+      }
+    }
+  });
+  return profiles;
+}
@@ -0,0 +1,219 @@
+/**
+ * Declarative permission model: each role grants (resource × action) pairs, optionally limited to the farms the user
+ * is assigned to. Grants come from /api/roles (RoleResponse.permissions) and are edited on Utilisateurs → Rôles et
+ * permissions; DEFAULT_ROLE_PERMISSIONS is the historical matrix, used for roles the backend returns without grants.
+ * AuthContext derives canCreate / canUpdate / … from it, pages and routes read it through usePermission().
+ */
+
+import type { RolePermission, RoleResponse, UserResponse } from "@/lib/api";
+
+export const PERMISSION_RESOURCES = [
+  "donnees",
+  "lots",
+  "lotsFermes",
+  "resumeCouts",
+  "planningVaccination",
+  "normesPerformance",
+  "tableauBordHebdo",
+  "employes",
+  "utilisateurs",
+  "roles",
+  "audit",
+  "verification",
+  "alertesSanitaires",
+] as const;
+export type PermissionResource = (typeof PERMISSION_RESOURCES)[number];
+
+export const PERMISSION_ACTIONS = ["read", "create", "update", "delete"] as const;
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
+/** ALL: any farm. ASSIGNED: only the farms assigned to the user (RESPONSABLE_FERME). */
+export type PermissionFarmScope = "ALL" | "ASSIGNED";
+
+export const PERMISSION_RESOURCE_LABELS: Record<PermissionResource, { label: string; hint: string }> = {
+  donnees: { label: "Données d'élevage", hint: "Saisies des pages livraisons, suivi, reporting, sorties…" },
+  lots: { label: "Lots", hint: "Créer : Nouveau lot (Infos setup). Supprimer : données d'un sexe du lot (Suivi hebdomadaire)" },
+  lotsFermes: { label: "Lots fermés", hint: "Lire : tous les lots fermés. Modifier : fermer un lot et lire ceux qu'on a fermés" },
+  resumeCouts: { label: "Résumé des coûts", hint: "Suivi technique hebdomadaire" },
+  planningVaccination: { label: "Planning de vaccination", hint: "Modifier : protocoles de vaccination par souche" },
+  normesPerformance: {
+    label: "Normes de performance",
+    hint: "Modifier : profils de normes par souche, tolérances et courbe de température cible de la ferme",
+  },
+  tableauBordHebdo: {
+    label: "Tableau de bord hebdomadaire",
+    hint: "Lire : vue hebdomadaire filtrée avec les prix, comparaison multi-lots",
+  },
+  employes: { label: "Employés", hint: "Lire : colonne montant de la main d'œuvre" },
+  utilisateurs: { label: "Utilisateurs", hint: "Gestion des comptes" },
+  roles: { label: "Rôles et permissions", hint: "Cette matrice" },
+  audit: { label: "Journal d'audit", hint: "Lire : toutes les modifications, toutes pages (l'historique d'une ligne suit Données)" },
+  verification: {
+    label: "Vérification des saisies",
+    hint: "Lire : boîte « À vérifier », alertes de prix. Modifier : approuver / rejeter, confirmer les alertes de prix",
+  },
+  alertesSanitaires: {
+    label: "Alertes sanitaires",
+    hint: "Modifier : acquitter / reporter les alertes de mortalité, d'eau et de température (tableau de bord)",
+  },
+};
+
+export const PERMISSION_ACTION_LABELS: Record<PermissionAction, string> = {
+  read: "Lire",
+  create: "Créer",
+  update: "Modifier",
+  delete: "Supprimer",
+};
+
+export const PERMISSION_SCOPE_LABELS: Record<PermissionFarmScope, string> = {
+  ALL: "Toutes les fermes",
+  ASSIGNED: "Fermes assignées",
+};
+
+/** Display names of the built-in roles; other roles show their description (or name). */
+export const ROLE_LABELS: Record<string, string> = {
+  ADMINISTRATEUR: "Administrateur",
+  RESPONSABLE_TECHNIQUE: "Responsable technique",
+  RESPONSABLE_FERME: "Responsable de ferme",
+  BACKOFFICE_EMPLOYER: "Employé Back-office",
+};
+
+export function roleLabel(role: Pick<RoleResponse, "name" | "description">): string {
+  return ROLE_LABELS[role.name] ?? (role.description?.trim() || role.name);
+}
+
+function grants(
+  resource: PermissionResource,
+  actions: PermissionAction[],
+  farmScope: PermissionFarmScope = "ALL"
+): RolePermission[] {
+  return actions.map((action) => ({ resource, action, farmScope }));
+}
+
+const CRUD: PermissionAction[] = ["read", "create", "update", "delete"];
+
+/**
+ * Historical matrix (was spread over AuthContext booleans, allowedRoles in App.tsx and canReadClosedLot):
+ * | Role                    | Read | Create rows | New lot | Update | Delete | Farms    |
+ * |-------------------------|------|-------------|---------|--------|--------|----------|
+ * | ADMINISTRATEUR          |  ✓   |     ✓       |    ✓    |   ✓    |   ✓    | all      |
+ * | RESPONSABLE_TECHNIQUE   |  ✓   |     ✓       |    ✓    |   ✓    |   ✓    | all      |
+ * | BACKOFFICE_EMPLOYER     |  ✓   |     ✓       |    ✓    |   ✓    |   ✓    | all      |
+ * | RESPONSABLE_FERME       |  ✓   |     ✓       |    ✗    |   ✗    |   ✓*   | assigned |
+ * (*) unsaved rows only, handled at component level.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, RolePermission[]> = {
+  ADMINISTRATEUR: [
+    ...grants("donnees", CRUD),
+    ...grants("lots", ["create", "delete"]),
+    ...grants("lotsFermes", ["read", "update"]),
+    ...grants("resumeCouts", ["read"]),
+    ...grants("planningVaccination", ["read", "update"]),
+    ...grants("normesPerformance", ["read", "update"]),
+    ...grants("tableauBordHebdo", ["read"]),
+    ...grants("employes", ["read"]),
+    ...grants("utilisateurs", CRUD),
+    ...grants("roles", ["read", "update"]),
+    ...grants("audit", ["read"]),
+    ...grants("verification", ["read", "update"]),
+    ...grants("alertesSanitaires", ["update"]),
+  ],
+  RESPONSABLE_TECHNIQUE: [
+    ...grants("donnees", CRUD),
+    ...grants("lots", ["create", "delete"]),
+    ...grants("lotsFermes", ["update"]),
+    ...grants("resumeCouts", ["read"]),
+    ...grants("planningVaccination", ["read", "update"]),
+    ...grants("normesPerformance", ["read"]),
+    ...grants("tableauBordHebdo", ["read"]),
+    ...grants("employes", ["read"]),
+    ...grants("utilisateurs", CRUD),
+    ...grants("roles", ["read"]),
+    ...grants("verification", ["read", "update"]),
+    ...grants("alertesSanitaires", ["update"]),
+  ],
+  BACKOFFICE_EMPLOYER: [
+    ...grants("donnees", CRUD),
+    ...grants("lots", ["create"]),
+    ...grants("resumeCouts", ["read"]),
+    ...grants("planningVaccination", ["read"]),
+    ...grants("employes", ["read"]),
+    ...grants("verification", ["read", "update"]),
+  ],
+  RESPONSABLE_FERME: [
+    ...grants("donnees", ["read", "create", "delete"], "ASSIGNED"),
+    ...grants("planningVaccination", ["read"], "ASSIGNED"),
+    ...grants("alertesSanitaires", ["update"], "ASSIGNED"),
+  ],
+};
+
+/**
+ * Grants of a role: the /api/roles definition when it carries permissions, else the historical default.
+ * Only an absent list (backend without the matrix) falls back to the default: an empty list is a role saved with
+ * every box unchecked, and grants nothing.
+ */
+export function rolePermissions(role: Pick<RoleResponse, "name" | "permissions">): RolePermission[] {
+  return role.permissions ?? DEFAULT_ROLE_PERMISSIONS[role.name] ?? [];
+}
+
+/** True when the role only reaches its assigned farms (its users must be given at least one farm). */
+export function roleNeedsAssignedFarms(role: Pick<RoleResponse, "name" | "permissions">): boolean {
+  return rolePermissions(role).some((p) => p.resource === "donnees" && p.farmScope === "ASSIGNED");
+}
+
+function permissionKey(resource: string, action: string): string {
+  return `${resource}:${action}`;
+}
+
+/** (resource, action) → widest farm scope granted by any of the user's roles. */
+export type PermissionSet = Map<string, PermissionFarmScope>;
+
+/** Union of the grants of the user's roles, resolved against the /api/roles catalog (by name). */
+export function buildPermissionSet(
+  userRoles: Pick<RoleResponse, "name" | "permissions">[] | null | undefined,
+  catalog: RoleResponse[] | null | undefined
+): PermissionSet {
+  const set: PermissionSet = new Map();
+  for (const userRole of userRoles ?? []) {
+    const role = catalog?.find((r) => r.name === userRole.name) ?? userRole;
+    for (const p of rolePermissions(role)) {
+      const key = permissionKey(p.resource, p.action);
+      const scope: PermissionFarmScope = p.farmScope === "ASSIGNED" ? "ASSIGNED" : "ALL";
+      if (set.get(key) !== "ALL") set.set(key, scope);
+    }
+  }
+  return set;
+}
+
+export function permissionScope(
+  set: PermissionSet,
+  resource: PermissionResource,
+  action: PermissionAction
+): PermissionFarmScope | null {
+  return set.get(permissionKey(resource, action)) ?? null;
+}
+
+/** Farm ids the user is assigned to (assignedFarms, legacy farmId, and the farm selected at login). */
+export function assignedFarmIds(user: UserResponse | null | undefined, selectedFarmId: number | null): Set<number> {
+  const ids = new Set<number>((user?.assignedFarms ?? []).map((f) => f.id));
+  if (user?.farmId != null) ids.add(user.farmId);
+  if (selectedFarmId != null) ids.add(selectedFarmId);
+  return ids;
+}
+
+/**
+ * True when the set grants the action on the resource; with a farmId, an ASSIGNED grant only counts for the
+ * user's farms.
+ */
+export function hasPermission(
+  set: PermissionSet,
+  resource: PermissionResource,
+  action: PermissionAction,
+  farmId?: number | null,
+  farmIds?: Set<number>
+): boolean {
+  const scope = permissionScope(set, resource, action);
+  if (scope == null) return false;
+  if (scope === "ALL" || farmId == null) return true;
+  return farmIds?.has(farmId) ?? false;
+}
@@ -0,0 +1,287 @@
+/**
+ * Which cached queries a write makes stale (TanStack Query, keys from queryKeys.ts).
+ *
+ * The weekly pages feed each other: suivi hebdo (mortalité) → stock (effectif restant) →
+ * production / performances / consommation → prix de revient (suiviCoutHebdo). Cumuls carry over
+ * to the following weeks, so a write in Sn invalidates Sn and later weeks of the same lot
+ * ("onward"), never other lots or farms. Résumé summaries are keyed without sex / bâtiment, so they
+ * are invalidated for the whole week whatever bâtiment was written.
+ */
+
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import { normalizeQueryScope, type QueryScope, type queryKeys } from "@/lib/queryKeys";
+
+export type QueryNamespace = keyof typeof queryKeys;
+
+/** How a dependent namespace is matched against the written scope. */
+interface Dependent {
+  namespace: QueryNamespace;
+  /** "same": only the written semaine; "onward": written semaine and later; "lot": every semaine of the lot. */
+  semaine: "same" | "onward" | "lot";
+  /** Also require the same sex / bâtiment (per-bâtiment tables); résumé summaries ignore them. */
+  matchSexBatiment?: boolean;
+}
+
+/** Namespaces whose only derived data is the prix de revient (cost pages). */
+const COST_SOURCES: QueryNamespace[] = [
+  "livraisonsProduitsVeterinaires",
+  "livraisonsProduitsHygiene",
+  "livraisonsPaille",
+  "videSanitairePaille",
+  "livraisonsElectricite",
+  "livraisonsGaz",
+  "videSanitaireGaz",
+  "videSanitaire",
+  "mainOeuvre",
+  "depensesDivers",
+];
+
+/** Every weekly summary, for writes that change the lot setup (effectif mis en place, bâtiments…). */
+const ALL_WEEKLY: Dependent[] = [
+  { namespace: "suiviTechniqueHebdo", semaine: "lot" },
+  { namespace: "suiviStock", semaine: "lot" },
+  { namespace: "suiviProductionHebdo", semaine: "lot" },
+  { namespace: "suiviPerformancesHebdo", semaine: "lot" },
+  { namespace: "suiviConsommationHebdo", semaine: "lot" },
+  { namespace: "suiviCoutHebdo", semaine: "lot" },
+];
+
+const DEPENDENTS: Partial<Record<QueryNamespace, Dependent[]>> = {
+  dailyReports: [
+    { namespace: "dailyReports", semaine: "lot" },
+    ...ALL_WEEKLY,
+  ],
+  suiviTechniqueHebdo: [
+    { namespace: "suiviTechniqueHebdo", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviStock", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviProductionHebdo", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviPerformancesHebdo", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviConsommationHebdo", semaine: "onward" },
+    { namespace: "suiviCoutHebdo", semaine: "onward" },
+  ],
+  suiviStock: [
+    { namespace: "suiviStock", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviPerformancesHebdo", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviConsommationHebdo", semaine: "onward" },
+    { namespace: "suiviCoutHebdo", semaine: "onward" },
+  ],
+  suiviProductionHebdo: [
+    { namespace: "suiviProductionHebdo", semaine: "same", matchSexBatiment: true },
+    { namespace: "suiviStock", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviPerformancesHebdo", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviCoutHebdo", semaine: "onward" },
+  ],
+  suiviConsommationHebdo: [
+    { namespace: "suiviConsommationHebdo", semaine: "onward" },
+    { namespace: "suiviPerformancesHebdo", semaine: "onward", matchSexBatiment: true },
+    { namespace: "suiviCoutHebdo", semaine: "onward" },
+  ],
+  suiviPerformancesHebdo: [{ namespace: "suiviPerformancesHebdo", semaine: "same", matchSexBatiment: true }],
+  suiviCoutHebdo: [{ namespace: "suiviCoutHebdo", semaine: "onward" }],
+  livraisonsAliment: [
+    { namespace: "livraisonsAliment", semaine: "lot" },
+    { namespace: "suiviStock", semaine: "lot" },
+    { namespace: "suiviConsommationHebdo", semaine: "lot" },
+    { namespace: "suiviPerformancesHebdo", semaine: "lot" },
+    { namespace: "suiviCoutHebdo", semaine: "lot" },
+  ],
+  sorties: [
+    { namespace: "sorties", semaine: "lot" },
+    { namespace: "suiviProductionHebdo", semaine: "lot" },
+    { namespace: "suiviStock", semaine: "lot" },
+    { namespace: "suiviCoutHebdo", semaine: "lot" },
+  ],
+  fournisseurs: [
+    { namespace: "fournisseurs", semaine: "lot" },
+    { namespace: "suiviCoutHebdo", semaine: "lot" },
+  ],
+  performanceNorme: [
+    { namespace: "performanceNorme", semaine: "lot" },
+    { namespace: "suiviPerformancesHebdo", semaine: "lot" },
+  ],
+  // Profiles are the fallback norme of every farm whose lots declare the souche
+  performanceNormeProfiles: [
+    { namespace: "performanceNormeProfiles", semaine: "lot" },
+    { namespace: "suiviPerformancesHebdo", semaine: "lot" },
+  ],
+  setupInfo: [{ namespace: "setupInfo", semaine: "lot" }, ...ALL_WEEKLY],
+  placements: [{ namespace: "placements", semaine: "lot" }, ...ALL_WEEKLY],
+  suiviTechniqueSetup: [{ namespace: "suiviTechniqueSetup", semaine: "lot" }, ...ALL_WEEKLY],
+  vaccinationPlanning: [
+    { namespace: "vaccinationPlanning", semaine: "lot" },
+    { namespace: "vaccinationAlerts", semaine: "lot" },
+    // Applying a protocol, or editing a line by hand, changes which lots follow the protocol
+    { namespace: "vaccinationProtocols", semaine: "lot" },
+  ],
+  // Confirming an alert records the administration and draws the quantity from the vétérinaire livraison
+  vaccinationAdministrations: [
+    { namespace: "vaccinationAdministrations", semaine: "lot" },
+    { namespace: "vaccinationAlerts", semaine: "lot" },
+    { namespace: "livraisonsProduitsVeterinaires", semaine: "lot" },
+  ],
+  ...Object.fromEntries(
+    COST_SOURCES.map((ns) => [
+      ns,
+      [
+        { namespace: ns, semaine: "lot" },
+        { namespace: "suiviCoutHebdo", semaine: "lot" },
+      ] satisfies Dependent[],
+    ])
+  ),
+};
+
+/** Writes shown on the lot timeline (lotTimeline.ts). */
+const TIMELINE_SOURCES = new Set<QueryNamespace>([
+  "setupInfo",
+  "vaccinationPlanning",
+  "dailyReports",
+  "suiviTechniqueHebdo",
+  "sorties",
+  "videSanitaire",
+  "videSanitairePaille",
+  "videSanitaireGaz",
+]);
+
+/** Writes feeding the multi-lot comparison series (lotComparison.ts). */
+const COMPARISON_SOURCES = new Set<QueryNamespace>([
+  "setupInfo",
+  "dailyReports",
+  "suiviTechniqueHebdo",
+  "suiviStock",
+  "suiviProductionHebdo",
+  "suiviConsommationHebdo",
+  "suiviPerformancesHebdo",
+  "suiviCoutHebdo",
+  "livraisonsAliment",
+  "sorties",
+  ...COST_SOURCES,
+]);
+
+/** Writes feeding the feed stock ledger (feedStockLedger.ts). */
+const FEED_LEDGER_SOURCES = new Set<QueryNamespace>([
+  "setupInfo",
+  "suiviTechniqueHebdo",
+  "suiviStock",
+  "suiviConsommationHebdo",
+  "livraisonsAliment",
+]);
+
+/** Writes carrying a N° BL / N° BR (duplicate delivery-note index, deliveryNoteDuplicates.ts). */
+const DELIVERY_NOTE_SOURCES = new Set<QueryNamespace>([
+  "livraisonsAliment",
+  "livraisonsGaz",
+  "livraisonsPaille",
+  "livraisonsProduitsVeterinaires",
+  "livraisonsProduitsHygiene",
+  "depensesDivers",
+  "videSanitaire",
+  "videSanitairePaille",
+  "videSanitaireGaz",
+]);
+
+/** Writes feeding the daily anomaly detection (dailyAnomalies.ts). */
+const ANOMALY_SOURCES = new Set<QueryNamespace>([
+  "setupInfo",
+  "dailyReports",
+  "suiviTechniqueHebdo",
+  "performanceNorme",
+  "performanceNormeProfiles",
+]);
+
+/** Writes feeding the bâtiment water / temperature control charts (batimentControlCharts.ts). */
+const CONTROL_CHART_SOURCES = new Set<QueryNamespace>([
+  "dailyReports",
+  "suiviTechniqueHebdo",
+  "suiviConsommationHebdo",
+  "livraisonsAliment",
+]);
+
+/** Writes compared by the contrôle de cohérence (journalierHebdoConsistency.ts). */
+const CONSISTENCY_SOURCES = new Set<QueryNamespace>(["dailyReports", "suiviTechniqueHebdo"]);
+
+/** Writes feeding the registre des effectifs (effectifLedger.ts). */
+const EFFECTIF_LEDGER_SOURCES = new Set<QueryNamespace>([
+  "setupInfo",
+  "placements",
+  "dailyReports",
+  "suiviTechniqueHebdo",
+  "suiviProductionHebdo",
+  "suiviStock",
+  "sorties",
+]);
+
+/** Writes recorded in the audit trail (auditTrailShared.ts AUDIT_ENTITY_NAMESPACES). */
+const AUDITED_SOURCES = new Set<QueryNamespace>([
+  "dailyReports",
+  "livraisonsAliment",
+  "livraisonsGaz",
+  "livraisonsPaille",
+  "livraisonsProduitsVeterinaires",
+  "livraisonsProduitsHygiene",
+  "sorties",
+  "mainOeuvre",
+  "suiviTechniqueHebdo",
+]);
+
+/** Writes that send a row (back) to the À vérifier inbox (verificationShared.ts). */
+const VERIFIABLE_SOURCES = new Set<QueryNamespace>([
+  "dailyReports",
+  "livraisonsAliment",
+  "livraisonsGaz",
+  "livraisonsPaille",
+  "livraisonsProduitsVeterinaires",
+  "livraisonsProduitsHygiene",
+  "livraisonsElectricite",
+  "sorties",
+  "depensesDivers",
+]);
+
+function semaineNumber(semaine: string | null | undefined): number | null {
+  const m = semaine?.trim().match(/^S(\d+)$/i);
+  return m ? parseInt(m[1], 10) : null;
+}
+
+/** Same value, or the key does not carry the field (e.g. list loaded for the session farm). */
+function sameOrUnset<V>(keyValue: V | undefined, written: V | undefined): boolean {
+  return keyValue == null || written == null || keyValue === written;
+}
+
+function matchesDependent(queryKey: QueryKey, dep: Dependent, written: QueryScope): boolean {
+  if (queryKey[0] !== dep.namespace) return false;
+  const keyScope = (queryKey[1] ?? {}) as QueryScope;
+  if (!sameOrUnset(keyScope.farmId, written.farmId)) return false;
+  if (!sameOrUnset(keyScope.lot, written.lot)) return false;
+  if (dep.matchSexBatiment) {
+    if (!sameOrUnset(keyScope.sex, written.sex)) return false;
+    if (!sameOrUnset(keyScope.batiment, written.batiment)) return false;
+  }
+  if (dep.semaine === "lot" || keyScope.semaine == null || written.semaine == null) return true;
+  if (dep.semaine === "same") return keyScope.semaine === written.semaine;
+  const keyN = semaineNumber(keyScope.semaine);
+  const writtenN = semaineNumber(written.semaine);
+  // VS / non-numeric weeks: fall back to the same week only
+  if (keyN == null || writtenN == null) return keyScope.semaine === written.semaine;
+  return keyN >= writtenN;
+}
+
+/**
+ * Invalidate the queries made stale by a write on `entity` in `scope` (farm / lot / semaine / sex / bâtiment).
+ * Active queries refetch immediately; inactive ones on next use.
+ */
+export function invalidateAfterWrite(queryClient: QueryClient, entity: QueryNamespace, scope: QueryScope): Promise<void> {
+  const written = normalizeQueryScope(scope);
+  const deps: Dependent[] = [...(DEPENDENTS[entity] ?? [{ namespace: entity, semaine: "lot" }])];
+  if (TIMELINE_SOURCES.has(entity)) deps.push({ namespace: "lotTimeline", semaine: "lot" });
+  if (COMPARISON_SOURCES.has(entity)) deps.push({ namespace: "lotComparison", semaine: "lot" });
+  if (FEED_LEDGER_SOURCES.has(entity)) deps.push({ namespace: "feedStockLedger", semaine: "lot" });
+  if (ANOMALY_SOURCES.has(entity)) deps.push({ namespace: "dailyAnomalies", semaine: "lot" });
+  if (CONTROL_CHART_SOURCES.has(entity)) deps.push({ namespace: "batimentControlCharts", semaine: "lot" });
+  if (CONSISTENCY_SOURCES.has(entity)) deps.push({ namespace: "journalierHebdoConsistency", semaine: "lot" });
+  if (EFFECTIF_LEDGER_SOURCES.has(entity)) deps.push({ namespace: "effectifLedger", semaine: "lot" });
+  if (DELIVERY_NOTE_SOURCES.has(entity)) deps.push({ namespace: "deliveryNotes", semaine: "lot" });
+  if (AUDITED_SOURCES.has(entity)) deps.push({ namespace: "audit", semaine: "lot" });
+  if (VERIFIABLE_SOURCES.has(entity)) deps.push({ namespace: "verification", semaine: "lot" });
+  return queryClient.invalidateQueries({
+    predicate: (query) => deps.some((dep) => matchesDependent(query.queryKey, dep, written)),
+  });
+}
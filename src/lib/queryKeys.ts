@@ -0,0 +1,243 @@
+/**
+ * TanStack Query key factory — one entry per `api.*` namespace.
+ *
+ * Key shape: `[namespace, scope, operation, params?]` where `scope` is the normalized
+ * farm / lot / semaine / sex / batiment context. TanStack matches object keys partially, so
+ * `queryKeys.suiviStock.scope({ farmId, lot })` invalidates every stock query of the lot
+ * (all semaines, sexes and bâtiments) while `scope({ farmId, lot, semaine })` targets one week.
+ * See queryInvalidation.ts for which writes invalidate which scopes.
+ */
+
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+
+export interface QueryScope {
+  farmId?: number | null;
+  lot?: string | null;
+  semaine?: string | null;
+  sex?: string | null;
+  batiment?: string | null;
+}
+
+/** Drop empty fields (so partial matching works) and align lot / semaine with backend keys (S02 → S2). */
+export function normalizeQueryScope(scope: QueryScope = {}): QueryScope {
+  const out: QueryScope = {};
+  if (scope.farmId != null) out.farmId = scope.farmId;
+  const lot = scope.lot?.trim();
+  if (lot) out.lot = lot;
+  const semaine = scope.semaine?.trim();
+  if (semaine) out.semaine = canonicalSemaine(semaine);
+  const sex = scope.sex?.trim();
+  if (sex) out.sex = sex;
+  const batiment = scope.batiment?.trim();
+  if (batiment) out.batiment = batiment;
+  return out;
+}
+
+/** Keys for a farm/lot-scoped namespace: `all`, `scope(...)` (invalidation prefix) and `list(...)`. */
+function scopedKeys<N extends string>(namespace: N) {
+  return {
+    all: [namespace] as const,
+    scope: (scope: QueryScope) => [namespace, normalizeQueryScope(scope)] as const,
+    list: (scope: QueryScope) => [namespace, normalizeQueryScope(scope), "list"] as const,
+  };
+}
+
+export const queryKeys = {
+  farms: {
+    all: ["farms"] as const,
+    list: () => ["farms", {}, "list"] as const,
+    lotsWithStatus: (farmId: number | null | undefined) =>
+      ["farms", normalizeQueryScope({ farmId }), "lotsWithStatus"] as const,
+  },
+  users: {
+    all: ["users"] as const,
+    list: () => ["users", {}, "list"] as const,
+  },
+  roles: {
+    all: ["roles"] as const,
+    list: () => ["roles", {}, "list"] as const,
+  },
+  employers: {
+    all: ["employers"] as const,
+    list: () => ["employers", {}, "list"] as const,
+  },
+  placements: scopedKeys("placements"),
+  setupInfo: scopedKeys("setupInfo"),
+  dailyReports: {
+    ...scopedKeys("dailyReports"),
+    dashboardSummary: (scope: QueryScope) =>
+      ["dailyReports", normalizeQueryScope(scope), "dashboardSummary"] as const,
+  },
+  sorties: scopedKeys("sorties"),
+  fournisseurs: {
+    all: ["fournisseurs"] as const,
+    scope: (scope: QueryScope) => ["fournisseurs", normalizeQueryScope(scope)] as const,
+    grid: (farmId: number | null | undefined) => ["fournisseurs", normalizeQueryScope({ farmId }), "grid"] as const,
+    priceHistory: (farmId: number | null | undefined) =>
+      ["fournisseurs", normalizeQueryScope({ farmId }), "priceHistory"] as const,
+  },
+  livraisonsAliment: scopedKeys("livraisonsAliment"),
+  livraisonsProduitsVeterinaires: scopedKeys("livraisonsProduitsVeterinaires"),
+  livraisonsProduitsHygiene: scopedKeys("livraisonsProduitsHygiene"),
+  videSanitaire: scopedKeys("videSanitaire"),
+  livraisonsPaille: scopedKeys("livraisonsPaille"),
+  videSanitairePaille: scopedKeys("videSanitairePaille"),
+  livraisonsElectricite: scopedKeys("livraisonsElectricite"),
+  livraisonsGaz: scopedKeys("livraisonsGaz"),
+  videSanitaireGaz: scopedKeys("videSanitaireGaz"),
+  mainOeuvre: scopedKeys("mainOeuvre"),
+  depensesDivers: scopedKeys("depensesDivers"),
+  vaccinationPlanning: scopedKeys("vaccinationPlanning"),
+  vaccinationPlanningNotes: scopedKeys("vaccinationPlanningNotes"),
+  vaccinationAdministrations: scopedKeys("vaccinationAdministrations"),
+  vaccinationAlerts: {
+    ...scopedKeys("vaccinationAlerts"),
+    pending: (scope: QueryScope) => ["vaccinationAlerts", normalizeQueryScope(scope), "pending"] as const,
+  },
+  suiviTechniqueSetup: {
+    ...scopedKeys("suiviTechniqueSetup"),
+    bySex: (scope: QueryScope) => ["suiviTechniqueSetup", normalizeQueryScope(scope), "bySex"] as const,
+    configuredSexes: (scope: QueryScope) =>
+      ["suiviTechniqueSetup", normalizeQueryScope(scope), "configuredSexes"] as const,
+  },
+  suiviTechniqueHebdo: {
+    ...scopedKeys("suiviTechniqueHebdo"),
+    weeklySummary: (scope: QueryScope) =>
+      ["suiviTechniqueHebdo", normalizeQueryScope(scope), "weeklySummary"] as const,
+    transportCumul: (scope: QueryScope) =>
+      ["suiviTechniqueHebdo", normalizeQueryScope(scope), "transportCumul"] as const,
+  },
+  suiviProductionHebdo: {
+    all: ["suiviProductionHebdo"] as const,
+    scope: (scope: QueryScope) => ["suiviProductionHebdo", normalizeQueryScope(scope)] as const,
+    get: (scope: QueryScope) => ["suiviProductionHebdo", normalizeQueryScope(scope), "get"] as const,
+  },
+  suiviConsommationHebdo: {
+    all: ["suiviConsommationHebdo"] as const,
+    scope: (scope: QueryScope) => ["suiviConsommationHebdo", normalizeQueryScope(scope)] as const,
+    get: (scope: QueryScope) => ["suiviConsommationHebdo", normalizeQueryScope(scope), "get"] as const,
+    resumeSummary: (scope: QueryScope, batiments: string[]) =>
+      ["suiviConsommationHebdo", normalizeQueryScope(scope), "resumeSummary", { batiments: [...batiments].sort() }] as const,
+  },
+  suiviPerformancesHebdo: {
+    all: ["suiviPerformancesHebdo"] as const,
+    scope: (scope: QueryScope) => ["suiviPerformancesHebdo", normalizeQueryScope(scope)] as const,
+    get: (scope: QueryScope) => ["suiviPerformancesHebdo", normalizeQueryScope(scope), "get"] as const,
+    /** Réel vs norme matrix S1…`upTo` (PerformanceNormHeatMap); scope without semaine so any week's write matches. */
+    normMatrix: (scope: QueryScope, upTo: string, groups: { sex: string; batiment: string }[]) =>
+      [
+        "suiviPerformancesHebdo",
+        normalizeQueryScope(scope),
+        "normMatrix",
+        { upTo: canonicalSemaine(upTo), groups: groups.map((g) => `${g.sex}|${g.batiment}`).sort() },
+      ] as const,
+  },
+  /** BL / BR of every livraison page, Dépenses divers and vide sanitaire of the farm (deliveryNoteDuplicates.ts). */
+  deliveryNotes: {
+    all: ["deliveryNotes"] as const,
+    index: (farmId: number | null | undefined) => ["deliveryNotes", normalizeQueryScope({ farmId }), "index"] as const,
+  },
+  vaccinationProtocols: {
+    all: ["vaccinationProtocols"] as const,
+    list: () => ["vaccinationProtocols", {}, "list"] as const,
+    lots: (id: number) => ["vaccinationProtocols", {}, "lots", { id }] as const,
+  },
+  performanceNormeProfiles: {
+    all: ["performanceNormeProfiles"] as const,
+    list: () => ["performanceNormeProfiles", {}, "list"] as const,
+  },
+  performanceTolerances: {
+    all: ["performanceTolerances"] as const,
+    get: (farmId: number | null | undefined) =>
+      ["performanceTolerances", normalizeQueryScope({ farmId }), "get"] as const,
+  },
+  temperatureTargets: {
+    all: ["temperatureTargets"] as const,
+    get: (farmId: number | null | undefined) =>
+      ["temperatureTargets", normalizeQueryScope({ farmId }), "get"] as const,
+  },
+  performanceNorme: {
+    all: ["performanceNorme"] as const,
+    get: (scope: QueryScope) => ["performanceNorme", normalizeQueryScope(scope), "get"] as const,
+  },
+  suiviStock: {
+    all: ["suiviStock"] as const,
+    scope: (scope: QueryScope) => ["suiviStock", normalizeQueryScope(scope)] as const,
+    get: (scope: QueryScope) => ["suiviStock", normalizeQueryScope(scope), "get"] as const,
+  },
+  /** Not an api namespace: lot timeline page, built from several clients (lotTimeline.ts). */
+  lotTimeline: {
+    all: ["lotTimeline"] as const,
+    get: (scope: QueryScope) => ["lotTimeline", normalizeQueryScope(scope), "get"] as const,
+  },
+  /** Not an api namespace: feed stock ledger of a lot (feedStockLedger.ts). */
+  feedStockLedger: {
+    all: ["feedStockLedger"] as const,
+    get: (scope: QueryScope) => ["feedStockLedger", normalizeQueryScope(scope), "get"] as const,
+  },
+  /** Not an api namespace: weekly series of one lot in the multi-lot comparison (lotComparison.ts). */
+  lotComparison: {
+    all: ["lotComparison"] as const,
+    get: (scope: QueryScope) => ["lotComparison", normalizeQueryScope(scope), "get"] as const,
+  },
+  /** Not an api namespace: daily anomalies of one lot (dailyAnomalies.ts). */
+  dailyAnomalies: {
+    all: ["dailyAnomalies"] as const,
+    get: (scope: QueryScope) => ["dailyAnomalies", normalizeQueryScope(scope), "get"] as const,
+  },
+  anomalyAcknowledgements: scopedKeys("anomalyAcknowledgements"),
+  /** Not an api namespace: headcount ledger of a lot by bâtiment and sex (effectifLedger.ts). */
+  effectifLedger: {
+    all: ["effectifLedger"] as const,
+    get: (scope: QueryScope) => ["effectifLedger", normalizeQueryScope(scope), "get"] as const,
+  },
+  /** Not an api namespace: journalier vs suivi hebdo differences of a lot (journalierHebdoConsistency.ts). */
+  journalierHebdoConsistency: {
+    all: ["journalierHebdoConsistency"] as const,
+    get: (scope: QueryScope) => ["journalierHebdoConsistency", normalizeQueryScope(scope), "get"] as const,
+  },
+  /** Not an api namespace: water / temperature control charts of one bâtiment and sex (batimentControlCharts.ts). */
+  batimentControlCharts: {
+    all: ["batimentControlCharts"] as const,
+    get: (scope: QueryScope) => ["batimentControlCharts", normalizeQueryScope(scope), "get"] as const,
+  },
+  /** À vérifier inbox (/api/verification/queue). */
+  verification: {
+    all: ["verification"] as const,
+    queue: (scope: QueryScope, filters: { entityType?: string; status?: string }) =>
+      [
+        "verification",
+        normalizeQueryScope(scope),
+        "queue",
+        { entityType: filters.entityType || undefined, status: filters.status || undefined },
+      ] as const,
+  },
+  /** Versions of the data rows (/api/audit); scope-less row history so any write of the row's namespace matches. */
+  audit: {
+    all: ["audit"] as const,
+    rowHistory: (entityType: string, entityId: number) =>
+      ["audit", {}, "rowHistory", { entityType, entityId }] as const,
+    list: (scope: QueryScope, filters: { username?: string; entityType?: string; from?: string; to?: string }) =>
+      [
+        "audit",
+        normalizeQueryScope(scope),
+        "list",
+        {
+          username: filters.username?.trim() || undefined,
+          entityType: filters.entityType || undefined,
+          from: filters.from || undefined,
+          to: filters.to || undefined,
+        },
+      ] as const,
+  },
+  suiviCoutHebdo: {
+    ...scopedKeys("suiviCoutHebdo"),
+    resumeSummary: (scope: QueryScope, batiments: string) =>
+      [
+        "suiviCoutHebdo",
+        normalizeQueryScope(scope),
+        "resumeSummary",
+        { batiments: batiments.split(",").map((b) => b.trim()).filter(Boolean).sort().join(",") },
+      ] as const,
+  },
+};
@@ -68,11 +68,11 @@ export function reportingDailyTotalMortalityLabelColSpan(): number {
   return REPORTING_DAILY_TABLE_HEADERS.indexOf("NBR (MORTALITÉ)");
 }
 
-/** Colspan after NBR column in tfoot (rest of data cols + optional ✓ + delete). */
+/** Colspan after NBR column in tfoot (rest of data cols + optional ✓ + delete + Historique). */
 export function reportingDailyTrailColSpanAfterNbr(showSaveCol: boolean, showDeleteCol: boolean): number {
   const afterNbr =
     REPORTING_DAILY_TABLE_HEADERS.length - reportingDailyTotalMortalityLabelColSpan() - 1;
-  return afterNbr + (showSaveCol ? 1 : 0) + (showDeleteCol ? 1 : 0);
+  return afterNbr + (showSaveCol ? 1 : 0) + (showDeleteCol ? 1 : 0) + 1;
 }
 
 function safeStr(s: string | undefined | null): string {
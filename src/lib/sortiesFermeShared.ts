@@ -3,8 +3,10 @@
  * Montant = saisi ou QTÉ BRUTE × PRIX/KG (QTE résolue via resolvedQteFromString).
  */
 
+import type { SortieRequest } from "@/lib/api";
+import type { ConflictField } from "@/lib/conflictMerge";
 import { resolvedQteFromString } from "@/lib/depensesDiversShared";
-import { toOptionalNumber } from "@/lib/formatResumeAmount";
+import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
 
 /** Data columns only — before ✓ / delete. */
 export const SORTIES_FERME_TABLE_HEADERS = [
@@ -63,3 +65,18 @@ export function sortiesFermeResolvedMontant(row: SortiesFermeMontantRow): number
 export function sortiesFermeEffectiveMontantForTotal(row: SortiesFermeMontantRow): number {
   return sortiesFermeResolvedMontant(row) ?? 0;
 }
+
+const formatConflictAmount = (v: unknown) => formatGroupedNumber(Number(v), 2);
+
+/** Saved fields compared in the conflict merge dialog (409 on update). */
+export const SORTIES_FERME_CONFLICT_FIELDS: ConflictField<SortieRequest>[] = [
+  { key: "date", label: "Date" },
+  { key: "client", label: "Client" },
+  { key: "num_bl", label: "N° BL" },
+  { key: "type", label: "Type" },
+  { key: "designation", label: "Désignation" },
+  { key: "nbre_dinde", label: "Nbre dinde", format: (v) => formatGroupedNumber(Number(v), 0) },
+  { key: "qte_brute_kg", label: "Qté brute (kg)", format: formatConflictAmount },
+  { key: "prix_kg", label: "Prix/kg", format: formatConflictAmount },
+  { key: "montant_ttc", label: "Montant TTC", format: formatConflictAmount },
+];
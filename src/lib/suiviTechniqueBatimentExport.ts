@@ -1,15 +1,31 @@
 /**
  * Export utilities for Suivi Technique Hebdomadaire — per bâtiment and sex.
  * Fetches data from APIs and generates Excel/PDF.
- * Table organization mirrors the page layout: Setup, Effectif départ, Suivi hebdomadaire, Production, Consommation, Performances, Stock.
+ * Table organization mirrors the page layout: Setup, Effectif départ, Suivi hebdomadaire, Production, Consommation, Performances (+ matrice réel vs norme S1…Sn, performanceNormStatus.ts), Stock
+ * (+ PDF: graphiques eau / sujet, indice eau / aliment et température vs cible, batimentControlCharts.ts).
  */
 
 import ExcelJS from "exceljs";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import { api } from "@/lib/api";
+import { buildBatimentControlSeries, loadBatimentControlSources, loadTemperatureTargets } from "@/lib/batimentControlCharts";
+import {
+  renderTemperatureBandChartToBase64,
+  renderWaterFeedIndexChartToBase64,
+  renderWaterPerBirdChartToBase64,
+} from "@/lib/chartExport";
 import { fetchMortaliteCumulFinSemainePrecedente } from "@/lib/mortalitePrevWeekCumul";
 import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import {
+  PERFORMANCE_STATUS_LABELS,
+  buildPerformanceNormMatrix,
+  loadPerformanceNormWeeks,
+  loadPerformanceTolerances,
+  semainesUpTo,
+  type PerformanceStatus,
+} from "@/lib/performanceNormStatus";
+import { loadProfileNormeFallback } from "@/lib/performanceNormeProfilesShared";
 import {
   SUIVI_HEBDO_DATA_COLUMN_COUNT,
   SUIVI_HEBDO_EXPORT_HEADERS,
@@ -29,6 +45,13 @@ const HEADER_PRIMARY = "FF3D2E1A";
 const HEADER_TEXT = "FFF7F6F3";
 const ROW_ALT = "FFE8E6E1";
 const TOTAL_BG = "FFD8D6D0";
+/** Performance vs norme cells (same meaning as PerformanceHeatMap colors). */
+const STATUS_FILL_ARGB: Record<PerformanceStatus, string> = { ok: "FFC6EFCE", watch: "FFFFEB9C", bad: "FFFFC7CE" };
+const STATUS_FILL_RGB: Record<PerformanceStatus, [number, number, number]> = {
+  ok: [198, 239, 206],
+  watch: [255, 235, 156],
+  bad: [255, 199, 206],
+};
 const BORDER_THIN = { style: "thin" as const };
 const BORDERS_ALL = { top: BORDER_THIN, left: BORDER_THIN, bottom: BORDER_THIN, right: BORDER_THIN };
 
@@ -122,7 +145,7 @@ export async function exportToExcel(params: SuiviTechniqueBatimentExportParams):
     throw new Error("Invalid export parameters: all fields required");
   }
 
-  const [setup, hebdoList, transportCumulExport, production, consumption, performance, stock] = await Promise.all([
+  const [setup, hebdoList, transportCumulExport, production, consumption, performance, stock, performanceWeeks, performanceTolerances] = await Promise.all([
     api.suiviTechniqueSetup.getBySex({ farmId, lot, semaine, sex, batiment }),
     api.suiviTechniqueHebdo.list({ farmId, lot, sex, batiment, semaine }),
     fetchMortaliteCumulFinSemainePrecedente(farmId, lot, sex, batiment, semaine),
@@ -130,6 +153,10 @@ export async function exportToExcel(params: SuiviTechniqueBatimentExportParams):
     api.suiviConsommationHebdo.get({ farmId, lot, semaine, sex, batiment }).catch(() => null),
     api.suiviPerformancesHebdo.get({ farmId, lot, semaine, sex, batiment }).catch(() => null),
     api.suiviStock.get({ farmId, lot, semaine, sex, batiment }).catch(() => null),
+    loadProfileNormeFallback(farmId, lot).then((profileNorme) =>
+      loadPerformanceNormWeeks({ farmId, lot, weeks: semainesUpTo(semaine), groups: [{ sex, batiment }], profileNorme })
+    ),
+    loadPerformanceTolerances(farmId),
   ]);
 
   /** Effectif départ de [semaine] = first hebdo record's effectifDepart */
@@ -157,7 +184,7 @@ export async function exportToExcel(params: SuiviTechniqueBatimentExportParams):
   ];
 
   let row = 1;
-  const addTitle = (text: string, colSpan = SUIVI_HEBDO_DATA_COLUMN_COUNT) => {
+  const addTitle = (text: string, colSpan: number = SUIVI_HEBDO_DATA_COLUMN_COUNT) => {
     ws.mergeCells(row, 1, row, colSpan);
     const cell = ws.getCell(row, 1);
     cell.value = text;
@@ -412,6 +439,24 @@ export async function exportToExcel(params: SuiviTechniqueBatimentExportParams):
   perfRows.forEach((row, i) => addDataRow(row, i % 2 === 1));
   row++;
 
+  if (performanceWeeks.length > 0) {
+    const weeks = performanceWeeks.map((w) => w.semaine);
+    addTitle(`6 bis. Performance vs norme — ${weeks[0]} à ${weeks[weeks.length - 1]} (réel)`, Math.max(weeks.length + 2, 4));
+    addTableHeader(["INDICATEUR", ...weeks, "STATUT"]);
+    for (const matrixRow of buildPerformanceNormMatrix(performanceWeeks, performanceTolerances)) {
+      addDataRow([
+        matrixRow.metric.label,
+        ...matrixRow.values,
+        matrixRow.status ? PERFORMANCE_STATUS_LABELS[matrixRow.status] : "—",
+      ]);
+      const cellStatuses = [...matrixRow.cellStatuses, matrixRow.status];
+      cellStatuses.forEach((status, j) => {
+        if (status) ws.getCell(row - 1, j + 2).fill = { type: "pattern", pattern: "solid", fgColor: { argb: STATUS_FILL_ARGB[status] } };
+      });
+    }
+    row++;
+  }
+
   addTitle("7. Stock");
   addTableHeader(["INDICATEUR", "VALEUR"]);
   const stockRows: [string, string][] = stock
@@ -442,7 +487,7 @@ export async function exportToPdf(params: SuiviTechniqueBatimentExportParams): P
     throw new Error("Invalid export parameters: all fields required");
   }
 
-  const [setup, hebdoList, transportCumulPdf, production, consumption, performance, stock] = await Promise.all([
+  const [setup, hebdoList, transportCumulPdf, production, consumption, performance, stock, performanceWeeks, performanceTolerances] = await Promise.all([
     api.suiviTechniqueSetup.getBySex({ farmId, lot, semaine, sex, batiment }).catch(() => null),
     api.suiviTechniqueHebdo.list({ farmId, lot, sex, batiment, semaine }).catch(() => []),
     fetchMortaliteCumulFinSemainePrecedente(farmId, lot, sex, batiment, semaine),
@@ -450,6 +495,10 @@ export async function exportToPdf(params: SuiviTechniqueBatimentExportParams): P
     api.suiviConsommationHebdo.get({ farmId, lot, semaine, sex, batiment }).catch(() => null),
     api.suiviPerformancesHebdo.get({ farmId, lot, semaine, sex, batiment }).catch(() => null),
     api.suiviStock.get({ farmId, lot, semaine, sex, batiment }).catch(() => null),
+    loadProfileNormeFallback(farmId, lot).then((profileNorme) =>
+      loadPerformanceNormWeeks({ farmId, lot, weeks: semainesUpTo(semaine), groups: [{ sex, batiment }], profileNorme })
+    ),
+    loadPerformanceTolerances(farmId),
   ]);
 
   const effectifDepart =
@@ -745,6 +794,31 @@ export async function exportToPdf(params: SuiviTechniqueBatimentExportParams): P
   });
   y = lastY() + 8;
 
+  if (performanceWeeks.length > 0) {
+    const weeks = performanceWeeks.map((w) => w.semaine);
+    const matrix = buildPerformanceNormMatrix(performanceWeeks, performanceTolerances);
+    doc.setFont("helvetica", "bold");
+    doc.text(`6 bis. Performance vs norme — ${weeks[0]} à ${weeks[weeks.length - 1]} (réel)`, margin, y);
+    y += 6;
+    autoTable(doc, {
+      head: [["INDICATEUR", ...weeks, "STATUT"]],
+      body: matrix.map((r) => [r.metric.label, ...r.values, r.status ? PERFORMANCE_STATUS_LABELS[r.status] : "—"]),
+      startY: y,
+      margin: { left: margin, right: margin },
+      theme: "grid",
+      styles: { fontSize: 8, halign: "center" },
+      columnStyles: { 0: { halign: "left" } },
+      headStyles: { fillColor: [61, 46, 26], textColor: [247, 246, 243], fontStyle: "bold" },
+      didParseCell: (data) => {
+        if (data.section !== "body" || data.column.index === 0) return;
+        const r = matrix[data.row.index];
+        const status = data.column.index <= weeks.length ? r.cellStatuses[data.column.index - 1] : r.status;
+        if (status) data.cell.styles.fillColor = STATUS_FILL_RGB[status];
+      },
+    });
+    y = lastY() + 8;
+  }
+
   doc.setFont("helvetica", "bold");
   doc.text("7. Stock", margin, y);
   y += 6;
@@ -766,6 +840,30 @@ export async function exportToPdf(params: SuiviTechniqueBatimentExportParams): P
     alternateRowStyles: { fillColor: [232, 230, 225] },
   });
 
+  // --- 8. Graphiques S1…semaine (batimentControlCharts.ts, same series as /graphiques-batiment) ---
+  const [controlSources, temperatureTargets] = await Promise.all([
+    loadBatimentControlSources({ farmId, lot, batiment, sex, upTo: semaine }),
+    loadTemperatureTargets(farmId),
+  ]);
+  const control = buildBatimentControlSeries(controlSources, temperatureTargets);
+  const chartSubtitle = `${batiment} · ${sex}`;
+  const waterPerBirdImg = renderWaterPerBirdChartToBase64(control.days, chartSubtitle);
+  const indexImg = renderWaterFeedIndexChartToBase64(control.weeks, chartSubtitle);
+  const temperatureImg = renderTemperatureBandChartToBase64(control.days, chartSubtitle);
+  if (waterPerBirdImg || indexImg || temperatureImg) {
+    doc.addPage();
+    y = 16;
+    doc.setFont("helvetica", "bold");
+    doc.text("8. Graphiques — eau par sujet, indice eau / aliment, température", margin, y);
+    y += 6;
+    const chartWidthMm = (pageWidth - margin * 2 - 8) / 2;
+    const chartHeightMm = chartWidthMm * (220 / 420);
+    if (waterPerBirdImg) doc.addImage(waterPerBirdImg, "PNG", margin, y, chartWidthMm, chartHeightMm);
+    if (indexImg) doc.addImage(indexImg, "PNG", margin + chartWidthMm + 8, y, chartWidthMm, chartHeightMm);
+    if (waterPerBirdImg || indexImg) y += chartHeightMm + 6;
+    if (temperatureImg) doc.addImage(temperatureImg, "PNG", margin, y, chartWidthMm, chartHeightMm);
+  }
+
   doc.save(`Suivi_Technique_${batiment}_${sex}_${safeFileName([lot, semaine])}.pdf`);
 }
 
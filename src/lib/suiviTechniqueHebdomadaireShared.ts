@@ -3,6 +3,9 @@
  * Used by WeeklyTrackingTable and suiviTechniqueBatimentExport.
  */
 
+import type { SuiviTechniqueHebdoRequest } from "@/lib/api";
+import type { ConflictField } from "@/lib/conflictMerge";
+
 /** Flat data columns — same order as export (section 3 suivi hebdomadaire). */
 export const SUIVI_HEBDO_EXPORT_HEADERS = [
   "DATE",
@@ -121,3 +124,15 @@ export function getTransportMortaliteLabel(semaine: string): string {
   const weekNum = parseInt(match[1], 10);
   return weekNum >= 2 ? "report mortalité" : "MORTALITE DU TRANSPORT";
 }
+
+/** Editable fields compared in the conflict merge dialog (409 on save). */
+export const SUIVI_HEBDO_CONFLICT_FIELDS: ConflictField<SuiviTechniqueHebdoRequest>[] = [
+  { key: "ageJour", label: "Âge en j" },
+  { key: "mortaliteNbre", label: "Mortalité (nbre)" },
+  { key: "consoEauL", label: "Conso. eau (L)" },
+  { key: "tempMin", label: "T° min" },
+  { key: "tempMax", label: "T° max" },
+  { key: "vaccination", label: "Vaccination" },
+  { key: "traitement", label: "Traitement" },
+  { key: "observation", label: "Observation" },
+];
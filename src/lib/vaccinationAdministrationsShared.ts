@@ -0,0 +1,97 @@
+/**
+ * Vaccination administrations: what was actually given to a lot, recorded when a vaccination alert is confirmed
+ * (VaccinationAdministrationDialog). Shown in the vaccination column of Suivi technique hebdo for that date and in
+ * the lot history under Planning de vaccination. When the product was delivered through Produits vétérinaires, the
+ * used quantity is drawn from that livraison: remaining = livraison qte − quantities of the administrations linked
+ * to it (the server applies the same rule when confirming).
+ */
+
+import type { LivraisonProduitVeterinaireResponse, VaccinationAdministrationResponse } from "@/lib/api";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+
+/** yyyy-mm-dd of the administration. */
+export function administrationDate(rec: Pick<VaccinationAdministrationResponse, "administeredAt">): string {
+  return (rec.administeredAt ?? "").slice(0, 10);
+}
+
+/** "HH:mm" of the administration, or "" when only the date is known. */
+export function administrationTime(rec: Pick<VaccinationAdministrationResponse, "administeredAt">): string {
+  const m = (rec.administeredAt ?? "").match(/T(\d{2}:\d{2})/);
+  return m ? m[1] : "";
+}
+
+/** One line per administration: "Produit (lot X) · dose · quantité". */
+export function administrationSummary(rec: VaccinationAdministrationResponse): string {
+  return [
+    rec.numeroLotVaccin ? `${rec.produit} (lot ${rec.numeroLotVaccin})` : rec.produit,
+    rec.dose,
+    rec.quantite != null ? formatGroupedNumber(rec.quantite, rec.quantite % 1 === 0 ? 0 : 2) : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function administrationsByDate(
+  records: VaccinationAdministrationResponse[]
+): Map<string, VaccinationAdministrationResponse[]> {
+  const map = new Map<string, VaccinationAdministrationResponse[]>();
+  for (const rec of records) {
+    const date = administrationDate(rec);
+    map.set(date, [...(map.get(date) ?? []), rec]);
+  }
+  return map;
+}
+
+/** Vaccination cell text of a suivi hebdo row (exports): typed text plus the products it does not mention yet. */
+export function vaccinationCellText(typed: string, records: VaccinationAdministrationResponse[]): string {
+  const lower = typed.toLowerCase();
+  const extra = records.filter((r) => !lower.includes(r.produit.trim().toLowerCase())).map((r) => r.produit.trim());
+  return [typed.trim(), ...extra].filter(Boolean).join(" + ");
+}
+
+export interface VeterinaryStockEntry {
+  livraison: LivraisonProduitVeterinaireResponse;
+  remaining: number;
+}
+
+/** Remaining quantity of each livraison produits vétérinaires of the lot. */
+export function veterinaryStock(
+  livraisons: LivraisonProduitVeterinaireResponse[],
+  administrations: VaccinationAdministrationResponse[]
+): VeterinaryStockEntry[] {
+  return livraisons
+    .filter((l) => (l.designation ?? "").trim() !== "")
+    .map((livraison) => {
+      const used = administrations
+        .filter((a) => a.livraisonProduitVeterinaireId === livraison.id)
+        .reduce((sum, a) => sum + (a.quantite ?? 0), 0);
+      return { livraison, remaining: (livraison.qte ?? 0) - used };
+    });
+}
+
+function productKey(s: string | null | undefined): string {
+  return (s ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Livraisons whose designation matches the product ("ND Clone 30" matches "Clone 30"), with stock first and the
+ * oldest delivery first (used up first).
+ */
+export function matchingStock(stock: VeterinaryStockEntry[], produit: string): VeterinaryStockEntry[] {
+  const key = productKey(produit);
+  if (!key) return [];
+  return stock
+    .filter((s) => {
+      const d = productKey(s.livraison.designation);
+      return d !== "" && (d.includes(key) || key.includes(d));
+    })
+    .sort(
+      (a, b) =>
+        Number(b.remaining > 0) - Number(a.remaining > 0) || (a.livraison.date ?? "").localeCompare(b.livraison.date ?? "")
+    );
+}
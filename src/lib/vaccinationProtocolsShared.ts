@@ -0,0 +1,168 @@
+/**
+ * Vaccination protocol templates (page Protocoles de vaccination, Planning de vaccination).
+ *
+ * A protocol is the planning of a lot without dates, for one souche and typeElevage as declared in Données mises en
+ * place. Applying it to a lot replaces the lot's planning (vaccinationPlanning.replace) with one line per step, the
+ * planDate computed from the lot's dateMiseEnPlace plus the step age. Applying always goes through a diff preview
+ * against the current planning (ProtocolApplyDialog); the same preview propagates an edited protocol to the open
+ * lots that still follow it (applied from it and not edited by hand since).
+ */
+
+import {
+  api,
+  type SetupInfoResponse,
+  type VaccinationPlanningRequest,
+  type VaccinationPlanningResponse,
+  type VaccinationProtocolRequest,
+  type VaccinationProtocolResponse,
+} from "@/lib/api";
+import { noneIfNotFound } from "@/lib/apiErrors";
+import { soucheKey } from "@/lib/performanceNormeProfilesShared";
+
+export function addDays(isoDate: string, days: number): string {
+  const d = new Date(isoDate + "T12:00:00");
+  d.setDate(d.getDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+export function isCouvoirAge(age: string): boolean {
+  return (age || "").trim().toLowerCase() === "couvoir";
+}
+
+/** Parse "X J" or "X Jours" to days; Couvoir = 0; else null si non reconnu. */
+export function ageToDays(age: string): number | null {
+  const t = (age || "").trim();
+  if (!t) return null;
+  if (isCouvoirAge(t)) return 0;
+  const m = t.match(/^(\d+)\s*J/i);
+  return m ? parseInt(m[1], 10) : null;
+}
+
+/** Date of a planning line: mise en place + age. Couvoir (before placement) and unparsed ages have none. */
+export function planDateForAge(dateMiseEnPlace: string | null | undefined, age: string): string {
+  if (!dateMiseEnPlace) return "";
+  const days = ageToDays(age);
+  if (days == null) return "";
+  if (days === 0) return isCouvoirAge(age) ? "" : dateMiseEnPlace;
+  return addDays(dateMiseEnPlace, days);
+}
+
+/** Souche and typeElevage of a lot: first Données mises en place row declaring them. */
+export function lotSoucheAndType(setupRows: Pick<SetupInfoResponse, "souche" | "typeElevage">[]): {
+  souche: string | null;
+  typeElevage: string | null;
+} {
+  const souche = setupRows.find((r) => (r.souche ?? "").trim() !== "")?.souche.trim() ?? null;
+  const typeElevage = setupRows.find((r) => (r.typeElevage ?? "").trim() !== "")?.typeElevage.trim() ?? null;
+  return { souche, typeElevage };
+}
+
+/** Earliest dateMiseEnPlace of the lot (the bâtiments may be placed on different days). */
+export function lotDateMiseEnPlace(setupRows: Pick<SetupInfoResponse, "dateMiseEnPlace">[]): string | null {
+  const dates = setupRows.map((r) => r.dateMiseEnPlace).filter(Boolean);
+  return dates.length ? [...dates].sort()[0] : null;
+}
+
+/** Protocol of the lot's souche and typeElevage, else the only protocol of the souche. */
+export function findProtocolForLot(
+  protocols: VaccinationProtocolResponse[],
+  souche: string | null | undefined,
+  typeElevage: string | null | undefined
+): VaccinationProtocolResponse | null {
+  const key = soucheKey(souche);
+  if (!key) return null;
+  const sameSouche = protocols.filter((p) => soucheKey(p.souche) === key);
+  const typeKey = soucheKey(typeElevage);
+  return sameSouche.find((p) => soucheKey(p.typeElevage) === typeKey) ?? (sameSouche.length === 1 ? sameSouche[0] : null);
+}
+
+function stepOrder(age: string): number {
+  const days = ageToDays(age);
+  return days == null ? Number.MAX_SAFE_INTEGER : days;
+}
+
+/** Planning lines of the protocol for one lot, by age; `ordre` follows that order. */
+export function protocolPlanningRequests(
+  protocol: Pick<VaccinationProtocolRequest, "steps">,
+  target: { farmId: number; lot: string; dateMiseEnPlace: string | null }
+): VaccinationPlanningRequest[] {
+  return [...protocol.steps]
+    .sort((a, b) => stepOrder(a.age) - stepOrder(b.age) || (a.ordre ?? 0) - (b.ordre ?? 0))
+    .map((step, ordre) => ({
+      farmId: target.farmId,
+      lot: target.lot,
+      ordre,
+      age: step.age,
+      planDate: planDateForAge(target.dateMiseEnPlace, step.age) || null,
+      motif: step.motif || null,
+      vaccinTraitement: step.vaccinTraitement || null,
+      quantite: step.quantite || null,
+      administration: step.administration || null,
+      remarques: step.remarques || null,
+    }));
+}
+
+/** Compared fields of a planning line, in table order. */
+export const PLANNING_LINE_FIELDS = [
+  { key: "planDate", label: "Date" },
+  { key: "motif", label: "Motif" },
+  { key: "vaccinTraitement", label: "Vaccin / Traitement" },
+  { key: "quantite", label: "Quantité" },
+  { key: "administration", label: "Administration" },
+  { key: "remarques", label: "Remarques" },
+] as const;
+
+export type PlanningLineField = (typeof PLANNING_LINE_FIELDS)[number]["key"];
+
+export type ProtocolDiffKind = "add" | "remove" | "change" | "same";
+
+export interface ProtocolDiffRow {
+  age: string;
+  kind: ProtocolDiffKind;
+  before: VaccinationPlanningResponse | null;
+  after: VaccinationPlanningRequest | null;
+  /** Fields that differ ("change" rows). */
+  fields: PlanningLineField[];
+}
+
+function lineValue(line: VaccinationPlanningRequest | VaccinationPlanningResponse, key: PlanningLineField): string {
+  return (line[key] ?? "").trim();
+}
+
+/**
+ * Current planning vs protocol lines, matched by age (several lines of the same age are paired in order).
+ * Empty current lines (no motif / vaccin) count as absent.
+ */
+export function diffPlanningWithProtocol(
+  current: VaccinationPlanningResponse[],
+  next: VaccinationPlanningRequest[]
+): ProtocolDiffRow[] {
+  const ageKey = (age: string) => (isCouvoirAge(age) ? "couvoir" : String(ageToDays(age) ?? age.trim()));
+  const remaining = [...current]
+    .filter((l) => PLANNING_LINE_FIELDS.some((f) => f.key !== "planDate" && lineValue(l, f.key) !== ""))
+    .sort((a, b) => (a.ordre ?? 0) - (b.ordre ?? 0));
+  const rows: ProtocolDiffRow[] = next.map((after) => {
+    const idx = remaining.findIndex((l) => ageKey(l.age ?? "") === ageKey(after.age));
+    if (idx < 0) return { age: after.age, kind: "add", before: null, after, fields: [] };
+    const [before] = remaining.splice(idx, 1);
+    const fields = PLANNING_LINE_FIELDS.filter((f) => lineValue(before, f.key) !== lineValue(after, f.key)).map((f) => f.key);
+    return { age: after.age, kind: fields.length ? "change" : "same", before, after, fields };
+  });
+  for (const before of remaining) rows.push({ age: before.age ?? "", kind: "remove", before, after: null, fields: [] });
+  return rows.sort((a, b) => stepOrder(a.age) - stepOrder(b.age));
+}
+
+/**
+ * Current planning and dateMiseEnPlace of a lot, for the apply preview. A lot without Données mises en place (404)
+ * has no dateMiseEnPlace; any other failure rejects.
+ */
+export async function loadLotPlanningContext(
+  farmId: number,
+  lot: string
+): Promise<{ dateMiseEnPlace: string | null; planning: VaccinationPlanningResponse[] }> {
+  const [setup, planning] = await Promise.all([
+    noneIfNotFound(api.setupInfo.list(farmId, lot)),
+    api.vaccinationPlanning.list({ farmId, lot }),
+  ]);
+  return { dateMiseEnPlace: lotDateMiseEnPlace(setup ?? []), planning };
+}
@@ -0,0 +1,101 @@
+/**
+ * Maker / checker verification of the daily, livraison, sortie and dépense rows (/api/verification).
+ *
+ * A saved row is PENDING until a checker (verification:update) approves it from the À vérifier inbox; the checker
+ * cannot approve their own entries. A rejected row carries the checker's comment and becomes editable once more
+ * for its author (RESPONSABLE_FERME rows are otherwise immutable after save); saving it sends it back to the queue.
+ */
+
+import type {
+  VerificationEntityType,
+  VerificationFields,
+  VerificationItemResponse,
+} from "@/lib/api";
+import type { QueryNamespace } from "@/lib/queryInvalidation";
+
+export const VERIFICATION_ENTITY_TYPES: {
+  value: VerificationEntityType;
+  label: string;
+  namespace: QueryNamespace;
+  path: string;
+  /** The page scrolls to `?row=` (useHighlightRowFromUrl). */
+  highlightsRow: boolean;
+}[] = [
+  { value: "DAILY_REPORT", label: "Reporting journalier", namespace: "dailyReports", path: "/reporting-journalier", highlightsRow: false },
+  { value: "LIVRAISON_ALIMENT", label: "Livraisons aliment", namespace: "livraisonsAliment", path: "/livraisons-aliment", highlightsRow: true },
+  { value: "LIVRAISON_GAZ", label: "Livraisons gaz", namespace: "livraisonsGaz", path: "/livraisons-gaz", highlightsRow: true },
+  { value: "LIVRAISON_PAILLE", label: "Livraisons paille", namespace: "livraisonsPaille", path: "/livraisons-paille", highlightsRow: true },
+  {
+    value: "LIVRAISON_PRODUIT_VETERINAIRE",
+    label: "Produits vétérinaires",
+    namespace: "livraisonsProduitsVeterinaires",
+    path: "/produits-veterinaires",
+    highlightsRow: true,
+  },
+  {
+    value: "LIVRAISON_PRODUIT_HYGIENE",
+    label: "Produits d'hygiène",
+    namespace: "livraisonsProduitsHygiene",
+    path: "/produits-hygiene",
+    highlightsRow: true,
+  },
+  { value: "LIVRAISON_ELECTRICITE", label: "Électricité", namespace: "livraisonsElectricite", path: "/electricite", highlightsRow: false },
+  { value: "SORTIE", label: "Sorties ferme", namespace: "sorties", path: "/sorties-ferme", highlightsRow: false },
+  { value: "DEPENSE_DIVERS", label: "Dépenses divers", namespace: "depensesDivers", path: "/depenses-divers", highlightsRow: true },
+];
+
+function entityTypeInfo(entityType: VerificationEntityType) {
+  return VERIFICATION_ENTITY_TYPES.find((t) => t.value === entityType);
+}
+
+export function verificationEntityLabel(entityType: VerificationEntityType): string {
+  return entityTypeInfo(entityType)?.label ?? entityType;
+}
+
+/** Page of the row, on its lot / semaine (and the row itself when the page can highlight it). */
+export function verificationItemUrl(item: VerificationItemResponse): string {
+  const info = entityTypeInfo(item.entityType);
+  const q = new URLSearchParams();
+  q.set("farmId", String(item.farmId));
+  if (item.lot) q.set("lot", item.lot);
+  if (item.semaine) q.set("semaine", item.semaine);
+  if (info?.highlightsRow) q.set("row", String(item.entityId));
+  return `${info?.path ?? "/dashboard"}?${q.toString()}`;
+}
+
+/** Maker / checker: nobody verifies their own entries. */
+export function isOwnEntry(item: Pick<VerificationItemResponse, "createdBy">, username: string | null | undefined): boolean {
+  return Boolean(item.createdBy && username && item.createdBy.toLowerCase() === username.toLowerCase());
+}
+
+/** Checker's rejection shown on a grid row. */
+export interface RowRejection {
+  comment: string;
+  rejectedBy?: string | null;
+  rejectedAt?: string | null;
+  /** Author of the rejected row. */
+  createdBy?: string | null;
+}
+
+/** Rejection of a loaded row, or null when it is pending / verified. */
+export function rowRejection(r: VerificationFields): RowRejection | null {
+  if (r.verificationStatus !== "REJECTED") return null;
+  return {
+    comment: r.rejectionComment?.trim() ?? "",
+    rejectedBy: r.rejectedBy,
+    rejectedAt: r.rejectedAt,
+    createdBy: r.createdByUsername,
+  };
+}
+
+/**
+ * A saved row is editable with update rights, or by its author while it is rejected. The pages clear `rejection`
+ * once the correction is saved, so the author gets a single correction per rejection.
+ */
+export function canEditSavedRow(
+  canUpdate: boolean,
+  row: { rejection?: RowRejection | null },
+  username: string | null | undefined
+): boolean {
+  return canUpdate || (row.rejection != null && isOwnEntry(row.rejection, username));
+}
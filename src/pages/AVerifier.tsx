@@ -0,0 +1,383 @@
+/**
+ * Page "À vérifier" — /a-verifier?farmId=8&lot=12&type=LIVRAISON_ALIMENT&status=PENDING
+ * Inbox of the checkers (RESPONSABLE_TECHNIQUE, BACKOFFICE_EMPLOYER): unverified rows of Reporting journalier, the
+ * livraison pages, Sorties ferme and Dépenses divers, approved or rejected in bulk with a comment. Own entries
+ * cannot be verified (maker / checker); a rejected row goes back to its author, editable once (verificationShared.ts).
+ */
+
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { CheckCheck, ClipboardCheck, ExternalLink, Loader2, Undo2 } from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useFarmsQuery, useLotsWithStatusQuery, useVerificationQueueQuery } from "@/hooks/useApiQueries";
+import { usePermission } from "@/hooks/usePermission";
+import { api, type VerificationEntityType, type VerificationItemResponse } from "@/lib/api";
+import { formatAuditTimestamp } from "@/lib/auditTrailShared";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { invalidateAfterWrite } from "@/lib/queryInvalidation";
+import { queryKeys } from "@/lib/queryKeys";
+import {
+  isOwnEntry,
+  VERIFICATION_ENTITY_TYPES,
+  verificationEntityLabel,
+  verificationItemUrl,
+} from "@/lib/verificationShared";
+import { cn } from "@/lib/utils";
+
+type StatusFilter = "PENDING" | "REJECTED" | "";
+
+function itemKey(item: Pick<VerificationItemResponse, "entityType" | "entityId">): string {
+  return `${item.entityType}:${item.entityId}`;
+}
+
+/** Display yyyy-mm-dd as dd/mm/yyyy. */
+function formatDay(iso: string | null | undefined): string {
+  if (!iso) return "—";
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? `${m[3]}/${m[2]}/${m[1]}` : iso;
+}
+
+export default function AVerifier() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { canAccessAllFarms, selectedFarmId: authSelectedFarmId, user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canDecide = usePermission("verification", "update");
+
+  const farmIdParam = searchParams.get("farmId");
+  const parsedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
+  const farmId = parsedFarmId != null && !Number.isNaN(parsedFarmId) ? parsedFarmId : canAccessAllFarms ? null : authSelectedFarmId;
+  const lot = (searchParams.get("lot") ?? "").trim();
+  const typeParam = searchParams.get("type") ?? "";
+  const entityType = VERIFICATION_ENTITY_TYPES.some((t) => t.value === typeParam)
+    ? (typeParam as VerificationEntityType)
+    : null;
+  const statusParam = searchParams.get("status");
+  const status: StatusFilter = statusParam === "REJECTED" || statusParam === "all" ? (statusParam === "all" ? "" : "REJECTED") : "PENDING";
+
+  const farmsQuery = useFarmsQuery(canAccessAllFarms);
+  const lotsQuery = useLotsWithStatusQuery(farmId);
+  const queueQuery = useVerificationQueueQuery({ farmId, lot: lot || null, entityType, status: status || null });
+  const items = useMemo(() => queueQuery.data ?? [], [queueQuery.data]);
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [comment, setComment] = useState("");
+  const [deciding, setDeciding] = useState<"APPROVE" | "REJECT" | null>(null);
+
+  /** Rows the current user may decide on: pending, not entered by themselves. */
+  const selectable = useMemo(
+    () => items.filter((i) => i.status === "PENDING" && !isOwnEntry(i, user?.username)),
+    [items, user?.username]
+  );
+  const selectedItems = selectable.filter((i) => selected.has(itemKey(i)));
+  const allSelected = selectable.length > 0 && selectedItems.length === selectable.length;
+
+  const setParam = (key: "farmId" | "lot" | "type" | "status", value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    if (key === "farmId") next.delete("lot");
+    setSearchParams(next);
+    setSelected(new Set());
+  };
+
+  const toggle = (item: VerificationItemResponse, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(itemKey(item));
+      else next.delete(itemKey(item));
+      return next;
+    });
+  };
+
+  const farmName = (item: VerificationItemResponse) =>
+    item.farmName ?? (farmsQuery.data ?? []).find((f) => f.id === item.farmId)?.name ?? `Ferme ${item.farmId}`;
+
+  const handleDecision = async (decision: "APPROVE" | "REJECT") => {
+    if (selectedItems.length === 0) return;
+    if (decision === "REJECT" && !comment.trim()) {
+      toast({
+        title: "Commentaire requis",
+        description: "Indiquez à l'auteur ce qui doit être corrigé.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setDeciding(decision);
+    try {
+      const res = await api.verification.decide({
+        decision,
+        comment: comment.trim() || null,
+        items: selectedItems.map((i) => ({ entityType: i.entityType, entityId: i.entityId, version: i.version ?? null })),
+      });
+      const failed = res.failed ?? [];
+      // The grids show the new status (verified / rejected) on next load
+      const scopes = new Map<string, { entityType: VerificationEntityType; farmId: number; lot?: string | null }>();
+      for (const i of selectedItems) scopes.set(`${i.entityType}|${i.farmId}|${i.lot ?? ""}`, i);
+      await Promise.all(
+        [...scopes.values()].map((i) => {
+          const ns = VERIFICATION_ENTITY_TYPES.find((t) => t.value === i.entityType)?.namespace;
+          return ns ? invalidateAfterWrite(queryClient, ns, { farmId: i.farmId, lot: i.lot }) : undefined;
+        })
+      );
+      await queryClient.invalidateQueries({ queryKey: queryKeys.verification.all });
+      setSelected(new Set(failed.map(itemKey)));
+      if (failed.length === 0) setComment("");
+      toast({
+        title: decision === "APPROVE" ? "Saisies vérifiées" : "Saisies rejetées",
+        description:
+          failed.length > 0
+            ? `${res.processed} traitée(s), ${failed.length} refusée(s) : ${failed[0].message ?? "ligne modifiée entre-temps"}.`
+            : decision === "APPROVE"
+              ? `${res.processed} ligne(s) approuvée(s).`
+              : `${res.processed} ligne(s) renvoyée(s) à leur auteur, modifiables une fois.`,
+        variant: failed.length > 0 ? "destructive" : undefined,
+      });
+    } catch (e) {
+      toast({
+        title: "Erreur",
+        description: e instanceof Error ? e.message : "La décision n'a pas pu être enregistrée.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <h1>À vérifier</h1>
+        <p>
+          Saisies du reporting journalier, des livraisons, des sorties et des dépenses en attente de vérification.
+          Vous ne pouvez pas vérifier vos propres saisies ; une ligne rejetée redevient modifiable une fois par son
+          auteur.
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg border border-border shadow-sm p-4 mb-6 flex flex-wrap items-end gap-4">
+        {canAccessAllFarms && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+            Ferme
+            <select
+              value={farmId != null ? String(farmId) : ""}
+              onChange={(e) => setParam("farmId", e.target.value)}
+              className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[180px]"
+            >
+              <option value="">Toutes les fermes</option>
+              {(farmsQuery.data ?? []).map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Lot
+          <select
+            value={lot}
+            onChange={(e) => setParam("lot", e.target.value)}
+            disabled={farmId == null}
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[120px]"
+          >
+            <option value="">Tous les lots</option>
+            {(lotsQuery.data ?? []).map((l) => (
+              <option key={l.lot} value={l.lot}>
+                {l.lot}
+                {l.closed ? " (fermé)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Page
+          <select
+            value={entityType ?? ""}
+            onChange={(e) => setParam("type", e.target.value)}
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[200px]"
+          >
+            <option value="">Toutes les pages</option>
+            {VERIFICATION_ENTITY_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Statut
+          <select
+            value={status === "" ? "all" : status === "REJECTED" ? "REJECTED" : ""}
+            onChange={(e) => setParam("status", e.target.value)}
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[160px]"
+          >
+            <option value="">En attente</option>
+            <option value="REJECTED">Rejetées (à corriger)</option>
+            <option value="all">Toutes</option>
+          </select>
+        </label>
+      </div>
+
+      {canDecide && (
+        <div className="bg-card rounded-lg border border-border shadow-sm p-4 mb-6 flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[260px]">
+            <label htmlFor="verification-comment" className="text-xs font-medium text-muted-foreground">
+              Commentaire (obligatoire pour rejeter)
+            </label>
+            <Textarea
+              id="verification-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Ex. quantité différente du bon de livraison"
+              rows={2}
+              className="mt-1"
+            />
+          </div>
+          <Button
+            type="button"
+            onClick={() => handleDecision("APPROVE")}
+            disabled={deciding != null || selectedItems.length === 0}
+          >
+            {deciding === "APPROVE" ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <CheckCheck className="w-4 h-4 mr-2" />
+            )}
+            Approuver ({selectedItems.length})
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleDecision("REJECT")}
+            disabled={deciding != null || selectedItems.length === 0}
+            className="text-destructive hover:text-destructive"
+          >
+            {deciding === "REJECT" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Undo2 className="w-4 h-4 mr-2" />}
+            Rejeter ({selectedItems.length})
+          </Button>
+        </div>
+      )}
+
+      <div className="bg-card rounded-lg border border-border shadow-sm">
+        <div className="px-5 py-4 border-b border-border flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-display font-bold text-foreground">Saisies</h2>
+          {!queueQuery.isLoading && <span className="text-xs text-muted-foreground">{items.length} ligne(s)</span>}
+        </div>
+        {queueQuery.isLoading ? (
+          <div className="p-8 flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" /> Chargement...
+          </div>
+        ) : queueQuery.error ? (
+          <div className="p-4 text-destructive text-sm">
+            {queueQuery.error instanceof Error ? queueQuery.error.message : "Erreur de chargement"}
+          </div>
+        ) : items.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground text-sm">Rien à vérifier pour ces filtres.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table-farm">
+              <thead>
+                <tr>
+                  {canDecide && (
+                    <th className="w-10 !text-center">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(c) => setSelected(c === true ? new Set(selectable.map(itemKey)) : new Set())}
+                        disabled={selectable.length === 0}
+                        aria-label="Tout sélectionner"
+                      />
+                    </th>
+                  )}
+                  <th>DATE</th>
+                  <th>FERME</th>
+                  <th>LOT</th>
+                  <th>PAGE</th>
+                  <th>DÉTAIL</th>
+                  <th className="!text-right">MONTANT</th>
+                  <th>SAISI PAR</th>
+                  <th>STATUT</th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => {
+                  const own = isOwnEntry(item, user?.username);
+                  const canSelect = item.status === "PENDING" && !own;
+                  return (
+                    <tr key={itemKey(item)} className={cn("align-top", selected.has(itemKey(item)) && "bg-primary/5")}>
+                      {canDecide && (
+                        <td className="text-center">
+                          <Checkbox
+                            checked={canSelect && selected.has(itemKey(item))}
+                            onCheckedChange={(c) => toggle(item, c === true)}
+                            disabled={!canSelect}
+                            aria-label="Sélectionner la ligne"
+                            title={own ? "Votre propre saisie : un autre vérificateur doit la valider" : undefined}
+                          />
+                        </td>
+                      )}
+                      <td className="text-sm whitespace-nowrap">{formatDay(item.date)}</td>
+                      <td className="text-sm">{farmName(item)}</td>
+                      <td className="text-sm whitespace-nowrap">
+                        {item.lot ?? "—"}
+                        {item.semaine && <span className="text-muted-foreground"> · {item.semaine}</span>}
+                      </td>
+                      <td className="text-sm">{verificationEntityLabel(item.entityType)}</td>
+                      <td className="text-sm">{item.summary || `#${item.entityId}`}</td>
+                      <td className="text-sm text-right tabular-nums whitespace-nowrap">
+                        {item.montant != null ? formatGroupedNumber(item.montant, 2) : "—"}
+                      </td>
+                      <td className="text-sm">
+                        <div>{item.createdByDisplayName || item.createdBy || "—"}</div>
+                        {item.createdAt && (
+                          <div className="text-xs text-muted-foreground">{formatAuditTimestamp(item.createdAt)}</div>
+                        )}
+                        {own && <div className="text-xs text-amber-600">Votre saisie</div>}
+                      </td>
+                      <td className="text-sm">
+                        {item.status === "REJECTED" ? (
+                          <div>
+                            <span className="font-medium text-destructive">Rejetée</span>
+                            {item.rejectionComment && (
+                              <div className="text-xs text-muted-foreground max-w-[240px]">« {item.rejectionComment} »</div>
+                            )}
+                            {(item.rejectedBy || item.rejectedAt) && (
+                              <div className="text-xs text-muted-foreground">
+                                {[item.rejectedBy, item.rejectedAt ? formatAuditTimestamp(item.rejectedAt) : null]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-amber-700 dark:text-amber-400">En attente</span>
+                        )}
+                      </td>
+                      <td className="text-center">
+                        <Link
+                          to={verificationItemUrl(item)}
+                          className="inline-flex p-1.5 text-muted-foreground hover:text-primary hover:bg-muted rounded transition-colors"
+                          title="Ouvrir la saisie dans sa page"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </Link>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
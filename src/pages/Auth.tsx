@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import farmHero from "@/assets/farm-hero.jpg";
 import { useAuth } from "@/contexts/AuthContext";
 import { api, type FarmResponse, LOGIN_ROLES } from "@/lib/api";
@@ -7,6 +7,10 @@ import { Building2, ChevronDown, UserCog } from "lucide-react";
 
 export default function Auth() {
   const navigate = useNavigate();
+  const location = useLocation();
+  // Back to the page the user was on when the session ended (ProtectedRoute passes it), else the dashboard
+  const from = (location.state as { from?: { pathname: string; search?: string } } | null)?.from;
+  const returnTo = from && from.pathname !== "/auth" ? `${from.pathname}${from.search ?? ""}` : "/dashboard";
   const { user, login, error, loading } = useAuth();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
@@ -49,9 +53,9 @@ export default function Auth() {
 
   useEffect(() => {
     if (!loading && user) {
-      navigate("/dashboard", { replace: true });
+      navigate(returnTo, { replace: true });
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, navigate, returnTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -63,7 +67,7 @@ export default function Auth() {
     }
     try {
       await login(username.trim(), password, selectedRole, requiresFarm ? selectedFarmId : null);
-      navigate("/dashboard", { replace: true });
+      navigate(returnTo, { replace: true });
     } catch {
       // error is set in context
     }
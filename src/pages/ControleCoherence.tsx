@@ -0,0 +1,353 @@
+/**
+ * Page "Contrôle de cohérence" — /controle-coherence?farmId=8&lot=12
+ * Dates, bâtiments and sexes where the reporting journalier and the suivi technique hebdo disagree (mortalité, eau,
+ * températures), both values side by side, with a one-click fix choosing which side wins
+ * (journalierHebdoConsistency.ts). Résumé pages read the suivi hebdo, so they follow the journalier once fixed.
+ */
+
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle2, ExternalLink, Loader2, Scale } from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useFarmsQuery, useLotsWithStatusQuery } from "@/hooks/useApiQueries";
+import { useClosedLotAccess, usePermission } from "@/hooks/usePermission";
+import { ApiConflictError } from "@/lib/api";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import {
+  applyHebdoToJournalier,
+  applyJournalierToHebdo,
+  CONSISTENCY_FIELD_LABELS,
+  CONSISTENCY_ISSUE_KIND_LABELS,
+  detectConsistencyIssues,
+  loadConsistencySources,
+  type ConsistencyIssue,
+  type ConsistencyIssueKind,
+} from "@/lib/journalierHebdoConsistency";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+
+const KIND_COLORS: Record<ConsistencyIssueKind, string> = {
+  mismatch: "bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300",
+  missingHebdo: "bg-sky-100 text-sky-700 dark:bg-sky-950/50 dark:text-sky-300",
+  missingJournalier: "bg-violet-100 text-violet-700 dark:bg-violet-950/50 dark:text-violet-300",
+};
+
+function formatValue(value: number | null): string {
+  if (value == null) return "—";
+  return formatGroupedNumber(value, Number.isInteger(value) ? 0 : 1);
+}
+
+/** Display yyyy-mm-dd as dd/mm/yyyy. */
+function formatDay(iso: string): string {
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? `${m[3]}/${m[2]}/${m[1]}` : iso;
+}
+
+export default function ControleCoherence() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const farmIdParam = searchParams.get("farmId");
+  const parsedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
+  const lot = (searchParams.get("lot") ?? "").trim();
+  const { canAccessAllFarms, selectedFarmId: authSelectedFarmId } = useAuth();
+  const farmId = parsedFarmId != null && !Number.isNaN(parsedFarmId) ? parsedFarmId : authSelectedFarmId;
+  const canCreateData = usePermission("donnees", "create", farmId);
+  const canUpdateData = usePermission("donnees", "update", farmId);
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+
+  const [batimentFilter, setBatimentFilter] = useState("");
+  const [sexFilter, setSexFilter] = useState("");
+  const [kindFilter, setKindFilter] = useState<ConsistencyIssueKind | "">("");
+  const [fixingId, setFixingId] = useState<string | null>(null);
+
+  const farmsQuery = useFarmsQuery(canAccessAllFarms);
+  const lotsQuery = useLotsWithStatusQuery(farmId);
+  const lotAccessCtx = useClosedLotAccess();
+  const lotStatus = lotsQuery.data?.find((l) => l.lot === lot);
+  const isBlocked = isClosedLotBlockedForSession(lotStatus, lotAccessCtx);
+  /** A fix creates the line of the losing side when it is missing, else updates it; closed lots are not fixed. */
+  const canWriteLine = (existing: unknown) => lotStatus?.closed !== true && (existing ? canUpdateData : canCreateData);
+
+  const sourcesQuery = useQuery({
+    queryKey: queryKeys.journalierHebdoConsistency.get({ farmId, lot }),
+    queryFn: () => loadConsistencySources(farmId as number, lot),
+    enabled: farmId != null && Boolean(lot) && !isBlocked,
+  });
+  const issues = useMemo(
+    () => (sourcesQuery.data ? detectConsistencyIssues(sourcesQuery.data) : []),
+    [sourcesQuery.data]
+  );
+  const batiments = useMemo(() => [...new Set(issues.map((i) => i.batiment))].sort(), [issues]);
+  const sexes = useMemo(() => [...new Set(issues.map((i) => i.sex))].sort(), [issues]);
+  const visible = issues.filter(
+    (i) =>
+      (!batimentFilter || i.batiment === batimentFilter) &&
+      (!sexFilter || i.sex === sexFilter) &&
+      (!kindFilter || i.kind === kindFilter)
+  );
+
+  const setParam = (key: "farmId" | "lot", value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    if (key === "farmId") next.delete("lot");
+    setSearchParams(next);
+  };
+
+  const fix = async (issue: ConsistencyIssue, winner: "journalier" | "hebdo") => {
+    if (farmId == null || !sourcesQuery.data) return;
+    setFixingId(issue.id);
+    try {
+      if (winner === "journalier") {
+        const { semaine, batiment } = await applyJournalierToHebdo(farmId, lot, issue, sourcesQuery.data.hebdoRows);
+        void invalidateAfterWrite("suiviTechniqueHebdo", { farmId, lot, semaine, sex: issue.sex, batiment });
+      } else {
+        await applyHebdoToJournalier(farmId, lot, issue);
+        void invalidateAfterWrite("dailyReports", { farmId, lot });
+      }
+      toast({
+        title: "Écart corrigé",
+        description: `${formatDay(issue.date)} · ${issue.batiment} · ${issue.sex} : ${
+          winner === "journalier" ? "le suivi hebdo reprend le journalier" : "le journalier reprend le suivi hebdo"
+        }.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description:
+          error instanceof ApiConflictError
+            ? "La ligne a été modifiée entre-temps. Rechargez la page puis corrigez à nouveau."
+            : "Impossible de corriger l'écart.",
+        variant: "destructive",
+      });
+    } finally {
+      setFixingId(null);
+    }
+  };
+
+  const selectClass = "rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground";
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <h1>Contrôle de cohérence</h1>
+        <p>
+          Écarts entre le reporting journalier et le suivi technique hebdomadaire (mortalité, eau, températures), par
+          date, bâtiment et sexe. Choisissez la source qui fait foi pour aligner l'autre.
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg border border-border shadow-sm p-4 mb-6 flex flex-wrap items-end gap-4">
+        {canAccessAllFarms && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+            Ferme
+            <select
+              value={farmId != null ? String(farmId) : ""}
+              onChange={(e) => setParam("farmId", e.target.value)}
+              className={`${selectClass} min-w-[180px]`}
+            >
+              <option value="">Choisir une ferme…</option>
+              {(farmsQuery.data ?? []).map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Lot
+          <select
+            value={lot}
+            onChange={(e) => setParam("lot", e.target.value)}
+            disabled={farmId == null}
+            className={`${selectClass} min-w-[120px]`}
+          >
+            <option value="">Choisir un lot…</option>
+            {(lotsQuery.data ?? []).map((l) => (
+              <option key={l.lot} value={l.lot}>
+                {l.lot}
+                {l.closed ? " (fermé)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        {issues.length > 0 && (
+          <>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Bâtiment
+              <select value={batimentFilter} onChange={(e) => setBatimentFilter(e.target.value)} className={selectClass}>
+                <option value="">Tous</option>
+                {batiments.map((b) => (
+                  <option key={b} value={b}>
+                    {b}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Sexe
+              <select value={sexFilter} onChange={(e) => setSexFilter(e.target.value)} className={selectClass}>
+                <option value="">Tous</option>
+                {sexes.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Type d'écart
+              <select
+                value={kindFilter}
+                onChange={(e) => setKindFilter(e.target.value as ConsistencyIssueKind | "")}
+                className={selectClass}
+              >
+                <option value="">Tous</option>
+                {(Object.keys(CONSISTENCY_ISSUE_KIND_LABELS) as ConsistencyIssueKind[]).map((k) => (
+                  <option key={k} value={k}>
+                    {CONSISTENCY_ISSUE_KIND_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {farmId == null || !lot ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <Scale className="mx-auto mb-2 h-8 w-8 opacity-50" />
+          <p>Choisissez une ferme et un lot pour lancer le contrôle.</p>
+        </div>
+      ) : isBlocked ? (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 p-4">
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            Ce lot est fermé. Les données ne sont pas accessibles.
+          </p>
+        </div>
+      ) : sourcesQuery.isPending ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          <span>Comparaison du journalier et du suivi hebdo…</span>
+        </div>
+      ) : sourcesQuery.isError ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <p>Impossible de charger le reporting journalier ou le suivi hebdo de ce lot.</p>
+        </div>
+      ) : issues.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <CheckCircle2 className="mx-auto mb-2 h-8 w-8 text-emerald-600" />
+          <p>Le reporting journalier et le suivi hebdo sont identiques pour ce lot.</p>
+        </div>
+      ) : (
+        <div className="bg-card rounded-lg border border-border shadow-sm w-full min-w-0">
+          <div className="px-5 py-4 border-b border-border">
+            <h2 className="text-lg font-display font-bold text-foreground">
+              {visible.length} écart(s){visible.length !== issues.length ? ` sur ${issues.length}` : ""}
+            </h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="table-farm">
+              <thead>
+                <tr>
+                  <th>DATE</th>
+                  <th>SEM</th>
+                  <th>BÂTIMENT</th>
+                  <th>SEXE</th>
+                  <th>ÉCART</th>
+                  <th>INDICATEUR</th>
+                  <th className="!text-right">JOURNALIER</th>
+                  <th className="!text-right">SUIVI HEBDO</th>
+                  <th>CORRIGER</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((issue) => {
+                  const shown = issue.values.filter((v) => v.differs);
+                  const fixing = fixingId === issue.id;
+                  const canKeepJournalier = Boolean(issue.daily && issue.semaine) && canWriteLine(issue.hebdo);
+                  const canKeepHebdo = issue.hebdo != null && canWriteLine(issue.daily);
+                  return (
+                    <tr key={issue.id} className="align-top">
+                      <td className="whitespace-nowrap">
+                        <Link
+                          to={`/reporting-journalier?farmId=${farmId}&lot=${encodeURIComponent(lot)}&date=${issue.date}`}
+                          className="inline-flex items-center gap-1 hover:underline"
+                        >
+                          {formatDay(issue.date)}
+                          <ExternalLink className="h-3 w-3 opacity-60" />
+                        </Link>
+                      </td>
+                      <td>{issue.semaine || "—"}</td>
+                      <td>{issue.batiment}</td>
+                      <td>{issue.sex}</td>
+                      <td>
+                        <span className={cn("rounded px-1.5 py-0.5 text-xs font-medium", KIND_COLORS[issue.kind])}>
+                          {CONSISTENCY_ISSUE_KIND_LABELS[issue.kind]}
+                        </span>
+                      </td>
+                      <td className="text-xs">
+                        {shown.map((v) => (
+                          <div key={v.field}>{CONSISTENCY_FIELD_LABELS[v.field]}</div>
+                        ))}
+                      </td>
+                      <td className="text-right tabular-nums text-xs">
+                        {shown.map((v) => (
+                          <div key={v.field}>{issue.daily ? formatValue(v.journalier) : "—"}</div>
+                        ))}
+                      </td>
+                      <td className="text-right tabular-nums text-xs">
+                        {shown.map((v) => (
+                          <div key={v.field}>{issue.hebdo ? formatValue(v.hebdo) : "—"}</div>
+                        ))}
+                      </td>
+                      <td>
+                        {canKeepJournalier || canKeepHebdo ? (
+                          <div className="flex flex-wrap gap-1">
+                            {canKeepJournalier && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 px-2 text-xs"
+                                disabled={fixingId != null}
+                                onClick={() => void fix(issue, "journalier")}
+                              >
+                                {fixing && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                                Garder le journalier
+                              </Button>
+                            )}
+                            {canKeepHebdo && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 px-2 text-xs"
+                                disabled={fixingId != null}
+                                onClick={() => void fix(issue, "hebdo")}
+                              >
+                                {fixing && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                                Garder le suivi hebdo
+                              </Button>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Lecture seule</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </AppLayout>
+  );
+}
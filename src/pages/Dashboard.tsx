@@ -6,8 +6,10 @@
  * - RESPONSABLE_FERME & BACKOFFICE_EMPLOYER: See daily metrics from the latest saved day
  * 
  * Data sources:
- * - Weekly: suiviCoutHebdo.getResumeSummary, suiviConsommationHebdo.getResumeSummary, suiviTechniqueHebdo.list
+ * - Weekly: suiviCoutHebdo.getResumeSummary, suiviConsommationHebdo.getResumeSummary, suiviTechniqueHebdo.list (TanStack Query, useApiQueries)
+ * - Comparaison multi-lots (RT/Admin): LotComparisonView (lotComparison.ts)
  * - Daily: dailyReports.getDashboardSummary
+ * - Alertes sanitaires: DailyAnomalyAlerts (dailyAnomalies.ts), open lots of the session farm
  * 
  * Farm-specific data isolation: Responsable Ferme sees only their farm.
  */
@@ -16,9 +18,12 @@ import { useState, useEffect, useMemo } from "react";
 import AppLayout from "@/components/layout/AppLayout";
 import {
   KPICard,
+  LotComparisonView,
+  PerformanceNormHeatMap,
   WaterConsumptionLineChart,
   MortalityLineChart,
   DailyMetricsCard,
+  DailyAnomalyAlerts,
 } from "@/components/dashboard";
 import type {
   DashboardFilters,
@@ -43,14 +48,26 @@ import {
   Download,
   FileSpreadsheet,
   FileText,
+  GitCompareArrows,
 } from "lucide-react";
 import { api, type DailyDashboardSummary, type LotWithStatusResponse } from "@/lib/api";
-import { canReadClosedLot, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { canReadClosedLot } from "@/lib/lotAccess";
+import { useClosedLotAccess, usePermission } from "@/hooks/usePermission";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import {
+  useConsommationResumeSummaryQuery,
+  useCoutResumeSummaryQuery,
+  usePerformanceNormMatrixQuery,
+  usePerformanceTolerancesQuery,
+  useSuiviTechniqueHebdoListQuery,
+} from "@/hooks/useApiQueries";
+import { useSavePerformanceTolerances } from "@/hooks/useApiMutations";
+import { DEFAULT_PERFORMANCE_TOLERANCES, type PerformanceToleranceBands } from "@/lib/performanceNormStatus";
 import { MagicCard } from "@/components/ui/magic-card";
 import { Separator } from "@/components/ui/separator";
 import { ShimmerButton } from "@/components/ui/shimmer-button";
+import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -182,21 +199,19 @@ export default function Dashboard() {
   const {
     user,
     canAccessAllFarms,
-    isResponsableFerme,
     selectedFarmId,
     selectedFarm,
-    isResponsableTechnique,
-    isAdministrateur,
-    isBackofficeEmployer,
   } = useAuth();
 
   // Determine which dashboard view to show
-  // RT-like workflow (entry → farm selection → daily/hebdo): RT, Admin, AND Backoffice (same navigation, Backoffice read-only)
-  const useRtaLikeWorkflow = isResponsableTechnique || isAdministrateur || isBackofficeEmployer;
-  // Weekly-specific: RT and Admin (e.g. canSeePricing)
-  const showWeeklyDashboard = isResponsableTechnique || isAdministrateur;
-  // RF-only: Responsable Ferme has fixed farm, uses simplified entry (du jour / hebdo) with rfView
-  const showDailyDashboard = isResponsableFerme;
+  // RT-like workflow (entry → farm selection → daily/hebdo): roles reading every farm (RT, Admin, Backoffice)
+  const useRtaLikeWorkflow = canAccessAllFarms;
+  // Weekly-specific (filters, prices, multi-lot comparison): tableauBordHebdo:read — RT and Admin by default
+  const showWeeklyDashboard = usePermission("tableauBordHebdo", "read");
+  // All farms without the weekly view (Backoffice): card-based hebdo flow, consultation only
+  const isHebdoConsultationOnly = useRtaLikeWorkflow && !showWeeklyDashboard;
+  // Roles limited to their assigned farms (Responsable Ferme): fixed farm, simplified entry (du jour / hebdo) with rfView
+  const showDailyDashboard = !canAccessAllFarms;
 
   // Responsable Ferme / Backoffice: entry → "Dashboard du jour" or "Dashboard hebdomadaire"
   type RfDashboardView = "entry" | "daily" | "hebdo";
@@ -205,7 +220,8 @@ export default function Dashboard() {
   // RT/Admin: entry → choose "Dashboard du jour" or "Dashboard hebdomadaire"
   // - du jour → daily-farms (farm cards) → daily (dashboard for selected farm, last day of lot)
   // - hebdomadaire → weekly (current filter + content)
-  type RtaDashboardView = "entry" | "daily-farms" | "daily" | "weekly";
+  // - comparaison multi-lots (RT/Admin) → compare (LotComparisonView)
+  type RtaDashboardView = "entry" | "daily-farms" | "daily" | "weekly" | "compare";
   const [rtaView, setRtaView] = useState<RtaDashboardView>("entry");
   const [selectedFarmIdForDaily, setSelectedFarmIdForDaily] = useState<number | null>(null);
 
@@ -220,7 +236,7 @@ export default function Dashboard() {
   const [lotsForHebdoWithStatus, setLotsForHebdoWithStatus] = useState<LotWithStatusResponse[]>([]);
 
   const [filters, setFilters] = useState<DashboardFilters>(() => ({
-    farmId: isResponsableFerme ? selectedFarmId : null,
+    farmId: showDailyDashboard ? selectedFarmId : null,
     lot: null,
     week: null,
     sex: null,
@@ -232,19 +248,12 @@ export default function Dashboard() {
   const [dailyLotsWithStatus, setDailyLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
 
   const { toast } = useToast();
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
 
   const showFarmSelector = canAccessAllFarms;
-  const fixedFarmId = isResponsableFerme ? selectedFarmId : null;
+  const fixedFarmId = showDailyDashboard ? selectedFarmId : null;
   const effectiveFarmId =
-    filters.farmId ?? (isResponsableFerme ? selectedFarmId : null);
+    filters.farmId ?? (showDailyDashboard ? selectedFarmId : null);
   const hasFarmContext = !!effectiveFarmId;
 
   // For daily dashboard: RF uses effectiveFarmId; RT/Admin/Backoffice in "daily" sub-view use selectedFarmIdForDaily.
@@ -258,7 +267,7 @@ export default function Dashboard() {
   const isRfInHebdoDashboard =
     showDailyDashboard && rfView === "hebdo" && hebdoStep === "dashboard" && !!effectiveFarmId && !!hebdoLot && !!hebdoWeek;
   const isBackofficeInHebdoDashboard =
-    isBackofficeEmployer && rtaView === "weekly" && hebdoStep === "dashboard" && !!hebdoFarmId && !!hebdoLot && !!hebdoWeek;
+    isHebdoConsultationOnly && rtaView === "weekly" && hebdoStep === "dashboard" && !!hebdoFarmId && !!hebdoLot && !!hebdoWeek;
   const canFetchWeeklyData =
     (showWeeklyDashboard && hasFarmContext && !!filters.lot && !!filters.week) ||
     isRfInHebdoDashboard ||
@@ -277,8 +286,8 @@ export default function Dashboard() {
   const effectiveWeekForWeekly = isRfInHebdoDashboard || isBackofficeInHebdoDashboard ? hebdoWeek : filters.week;
   const effectiveSexForWeekly = isRfInHebdoDashboard || isBackofficeInHebdoDashboard ? hebdoSex : filters.sex ?? hebdoSex;
   
-  // Only Responsable Technique and Administrateur can see pricing information
-  const canSeePricing = isResponsableTechnique || isAdministrateur;
+  // Pricing information comes with the weekly view (tableauBordHebdo:read)
+  const canSeePricing = showWeeklyDashboard;
 
   // Daily dashboard state
   const [dailySummary, setDailySummary] = useState<DailyDashboardSummary | null>(null);
@@ -288,12 +297,12 @@ export default function Dashboard() {
   useEffect(() => {
     if (canAccessAllFarms) {
       api.farms.list().then((data) => setFarms(data)).catch(() => setFarms([]));
-    } else if (isResponsableFerme && selectedFarm) {
+    } else if (selectedFarm) {
       setFarms([selectedFarm]);
     } else {
       setFarms([]);
     }
-  }, [canAccessAllFarms, isResponsableFerme, selectedFarm]);
+  }, [canAccessAllFarms, selectedFarm]);
 
   useEffect(() => {
     if (effectiveFarmId) {
@@ -343,23 +352,12 @@ export default function Dashboard() {
   );
 
   useEffect(() => {
-    if (isResponsableFerme && selectedFarmId && filters.farmId !== selectedFarmId) {
+    if (showDailyDashboard && selectedFarmId && filters.farmId !== selectedFarmId) {
       setFilters((f) => ({ ...f, farmId: selectedFarmId }));
     }
-  }, [isResponsableFerme, selectedFarmId]);
+  }, [showDailyDashboard, selectedFarmId]);
 
   // Fetch real data from APIs
-  const [costsSummary, setCostsSummary] = useState<
-    Awaited<ReturnType<typeof api.suiviCoutHebdo.getResumeSummary>> | null
-  >(null);
-  const [consoSummary, setConsoSummary] = useState<
-    Awaited<ReturnType<typeof api.suiviConsommationHebdo.getResumeSummary>> | null
-  >(null);
-  const [hebdoList, setHebdoList] = useState<
-    Awaited<ReturnType<typeof api.suiviTechniqueHebdo.list>>
-  >([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   /** Moyen d'indice de Consommation aliment par sexe (weekly) = (indice B1 + indice B3 + …) / nb bâtiments. */
   const [indiceMeanBySex, setIndiceMeanBySex] = useState<{ male: number | null; female: number | null } | null>(null);
   /** Indice de conso par (batiment, sex) — affiché au-dessus des moyennes (weekly). */
@@ -373,7 +371,7 @@ export default function Dashboard() {
 
   // Fetch SetupInfo (InfosSetup) to derive batiments per sex for moyenne INDICE DE CONSOMMATION
   const isDailyViewForSetup = (showDailyDashboard && rfView === "daily") || (useRtaLikeWorkflow && rtaView === "daily");
-  const isHebdoViewForSetup = (showDailyDashboard && rfView === "hebdo") || (isBackofficeEmployer && rtaView === "weekly");
+  const isHebdoViewForSetup = (showDailyDashboard && rfView === "hebdo") || (isHebdoConsultationOnly && rtaView === "weekly");
   useEffect(() => {
     const farmId = isDailyViewForSetup ? effectiveFarmIdForDaily : (isHebdoViewForSetup ? effectiveFarmIdForWeekly : effectiveFarmId);
     const lot = isDailyViewForSetup ? dailySummary?.lot : (isHebdoViewForSetup ? effectiveLotForWeekly : filters.lot);
@@ -407,89 +405,46 @@ export default function Dashboard() {
     isDailyLotClosed,
   ]);
 
-  useEffect(() => {
-    const farmId = effectiveFarmIdForWeekly ?? effectiveFarmId;
-    const lot = effectiveLotForWeekly ?? filters.lot;
-    const week = effectiveWeekForWeekly ?? filters.week;
-    if (!canFetchData || !farmId || !lot || !week) {
-      setCostsSummary(null);
-      setConsoSummary(null);
-      setHebdoList([]);
-      setLoading(false);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
+  // Weekly summaries through TanStack Query: same cache entries as Résumé des coûts / Suivi hebdo,
+  // refreshed when a save invalidates them (queryInvalidation.ts) instead of on every filter render.
+  const weeklyFarmId = effectiveFarmIdForWeekly ?? effectiveFarmId;
+  const weeklyLot = effectiveLotForWeekly ?? filters.lot;
+  const weeklyWeek = effectiveWeekForWeekly ?? filters.week;
+  const weeklyEnabled = Boolean(canFetchData && weeklyFarmId && weeklyLot && weeklyWeek);
+  const selectedWeeklySex = effectiveSexForWeekly ?? filters.sex ?? hebdoSex;
+  const weeklyBatiments = useMemo(() => {
     const { male: batimentsMale, female: batimentsFemale } = batimentsBySexFromSetupInfo(setupInfoRows);
-    const batimentsMaleSafe = batimentsMale.length > 0 ? batimentsMale : DEFAULT_BATIMENTS;
-    const batimentsFemaleSafe = batimentsFemale.length > 0 ? batimentsFemale : DEFAULT_BATIMENTS;
-    const batimentsAll = [...new Set([...batimentsMaleSafe, ...batimentsFemaleSafe])];
-
-    const selectedSex = effectiveSexForWeekly ?? filters.sex ?? hebdoSex;
-    const batimentsToUse: string[] =
-      selectedSex === "Mâle" ? batimentsMaleSafe : selectedSex === "Femelle" ? batimentsFemaleSafe : batimentsAll;
-    const batimentsStr = batimentsToUse.join(",");
-
-    const hebdoMalePromise = api.suiviTechniqueHebdo.list({
-      farmId: farmId,
-      lot,
-      sex: "Mâle",
-      semaine: week,
-    });
-    const hebdoFemellePromise = api.suiviTechniqueHebdo.list({
-      farmId: farmId,
-      lot,
-      sex: "Femelle",
-      semaine: week,
-    });
-
-    Promise.all([
-      api.suiviCoutHebdo.getResumeSummary({
-        farmId: farmId,
-        lot,
-        semaine: week,
-        batiments: batimentsStr,
-      }),
-      api.suiviConsommationHebdo.getResumeSummary({
-        farmId: farmId,
-        lot,
-        semaine: week,
-        batiments: batimentsToUse,
-      }),
-      Promise.all([hebdoMalePromise, hebdoFemellePromise]).then(([male, femelle]) => {
-        const merged = [...(male ?? []), ...(femelle ?? [])];
-        if (selectedSex === "Mâle") {
-          return merged.filter((r) => r.sex === "Mâle" && batimentsMaleSafe.includes(r.batiment ?? ""));
-        }
-        if (selectedSex === "Femelle") {
-          return merged.filter((r) => r.sex === "Femelle" && batimentsFemaleSafe.includes(r.batiment ?? ""));
-        }
-        return merged;
-      }),
-    ])
-      .then(([costs, conso, hebdo]) => {
-        setCostsSummary(costs);
-        setConsoSummary(conso);
-        setHebdoList(hebdo ?? []);
-      })
-      .catch((err) => {
-        setError(err?.message ?? "Erreur lors du chargement des données.");
-        setCostsSummary(null);
-        setConsoSummary(null);
-        setHebdoList([]);
-      })
-      .finally(() => setLoading(false));
-  }, [
-    canFetchData,
-    effectiveFarmId,
-    filters.lot,
-    filters.week,
-    filters.sex,
-    hebdoSex,
-    setupInfoRows,
-  ]);
+    const male = batimentsMale.length > 0 ? batimentsMale : DEFAULT_BATIMENTS;
+    const female = batimentsFemale.length > 0 ? batimentsFemale : DEFAULT_BATIMENTS;
+    const all = [...new Set([...male, ...female])];
+    const toUse = selectedWeeklySex === "Mâle" ? male : selectedWeeklySex === "Femelle" ? female : all;
+    return { male, female, toUse };
+  }, [setupInfoRows, selectedWeeklySex]);
+
+  const weeklyScope = { farmId: weeklyFarmId, lot: weeklyLot, semaine: weeklyWeek };
+  const costsQuery = useCoutResumeSummaryQuery({ ...weeklyScope, batiments: weeklyBatiments.toUse.join(",") }, weeklyEnabled);
+  const consoQuery = useConsommationResumeSummaryQuery({ ...weeklyScope, batiments: weeklyBatiments.toUse }, weeklyEnabled);
+  const hebdoMaleQuery = useSuiviTechniqueHebdoListQuery({ ...weeklyScope, sex: "Mâle" }, weeklyEnabled);
+  const hebdoFemelleQuery = useSuiviTechniqueHebdoListQuery({ ...weeklyScope, sex: "Femelle" }, weeklyEnabled);
+  const weeklyQueries = [costsQuery, consoQuery, hebdoMaleQuery, hebdoFemelleQuery];
+  const loading = weeklyEnabled && weeklyQueries.some((q) => q.isPending);
+  const weeklyError = weeklyEnabled ? weeklyQueries.find((q) => q.error)?.error : null;
+  const error = weeklyError ? weeklyError.message || "Erreur lors du chargement des données." : null;
+  const costsSummary = weeklyEnabled && !error ? (costsQuery.data ?? null) : null;
+  const consoSummary = weeklyEnabled && !error ? (consoQuery.data ?? null) : null;
+  const hebdoMaleData = hebdoMaleQuery.data;
+  const hebdoFemelleData = hebdoFemelleQuery.data;
+  const hebdoList = useMemo(() => {
+    if (!weeklyEnabled || error) return [];
+    const merged = [...(hebdoMaleData ?? []), ...(hebdoFemelleData ?? [])];
+    if (selectedWeeklySex === "Mâle") {
+      return merged.filter((r) => r.sex === "Mâle" && weeklyBatiments.male.includes(r.batiment ?? ""));
+    }
+    if (selectedWeeklySex === "Femelle") {
+      return merged.filter((r) => r.sex === "Femelle" && weeklyBatiments.female.includes(r.batiment ?? ""));
+    }
+    return merged;
+  }, [weeklyEnabled, error, hebdoMaleData, hebdoFemelleData, selectedWeeklySex, weeklyBatiments]);
 
   // Moyen indice de conso aliment par sexe = (somme indices batiments du sexe) / nb TOTAL batiments (male + femelle)
   const indiceLot = effectiveLotForWeekly ?? filters.lot;
@@ -538,6 +493,45 @@ export default function Dashboard() {
     });
   }, [canFetchWeeklyData, effectiveFarmIdForWeekly, effectiveFarmId, indiceLot, indiceWeek, setupInfoRows]);
 
+  // Performance vs norme matrix (S1 → selected week), bâtiments of the selected sex (both when none)
+  // Tolerance bands are saved per farm, so every user of the farm sees the same statuses
+  const tolerancesFarmId = effectiveFarmIdForWeekly ?? effectiveFarmId;
+  const { data: performanceTolerances = DEFAULT_PERFORMANCE_TOLERANCES } = usePerformanceTolerancesQuery(
+    tolerancesFarmId,
+    canFetchWeeklyData
+  );
+  const canEditTolerances = usePermission("normesPerformance", "update", tolerancesFarmId);
+  const savePerformanceTolerances = useSavePerformanceTolerances();
+  const performanceGroups = useMemo(() => {
+    const { male, female } = batimentsBySexFromSetupInfo(setupInfoRows);
+    const groups = [
+      ...(male.length > 0 ? male : DEFAULT_BATIMENTS).map((batiment) => ({ sex: "Mâle", batiment })),
+      ...(female.length > 0 ? female : DEFAULT_BATIMENTS).map((batiment) => ({ sex: "Femelle", batiment })),
+    ];
+    return effectiveSexForWeekly ? groups.filter((g) => g.sex === effectiveSexForWeekly) : groups;
+  }, [setupInfoRows, effectiveSexForWeekly]);
+  const performanceNormQuery = usePerformanceNormMatrixQuery(
+    {
+      farmId: effectiveFarmIdForWeekly ?? effectiveFarmId,
+      lot: indiceLot,
+      semaine: indiceWeek,
+      sex: effectiveSexForWeekly,
+      groups: performanceGroups,
+    },
+    canFetchWeeklyData
+  );
+  const performanceNormWeeks = performanceNormQuery.data ?? [];
+  const handlePerformanceTolerancesChange = (bands: PerformanceToleranceBands) => {
+    if (tolerancesFarmId == null) return;
+    savePerformanceTolerances.mutate(
+      { farmId: tolerancesFarmId, body: { bands } },
+      {
+        onError: () =>
+          toast({ title: "Erreur", description: "Impossible d'enregistrer les tolérances.", variant: "destructive" }),
+      }
+    );
+  };
+
   // Fetch daily dashboard data (lot = null → backend returns last day of last lot)
   useEffect(() => {
     if (!canFetchDailyData || !effectiveFarmIdForDaily) {
@@ -726,7 +720,7 @@ export default function Dashboard() {
             <div>
               <h1 className="font-display text-2xl font-bold text-foreground md:text-3xl">
                 Tableau de bord
-                {isBackofficeEmployer && (
+                {isHebdoConsultationOnly && (
                   <span className="ml-2 rounded-md bg-muted px-2 py-0.5 text-xs font-medium text-muted-foreground">
                     Consultation seule
                   </span>
@@ -737,6 +731,8 @@ export default function Dashboard() {
                   ? "Choisissez un type de tableau de bord"
                   : useRtaLikeWorkflow && rtaView === "entry"
                     ? "Choisissez un type de tableau de bord"
+                    : useRtaLikeWorkflow && rtaView === "compare"
+                      ? "Courbes hebdomadaires superposées de plusieurs lots, toutes fermes confondues"
                     : useRtaLikeWorkflow && rtaView === "daily-farms"
                       ? "Sélectionnez une ferme pour le dashboard du jour"
                       : useRtaLikeWorkflow && rtaView === "daily"
@@ -769,7 +765,7 @@ export default function Dashboard() {
                     else if (hebdoStep === "lot") { setHebdoStep("farm"); setHebdoLot(null); setHebdoFarmId(null); }
                     else setRtaView("entry");
                   } else if (rtaView === "daily") setRtaView("daily-farms");
-                  else if (rtaView === "daily-farms") setRtaView("entry");
+                  else if (rtaView === "daily-farms" || rtaView === "compare") setRtaView("entry");
                 }}
                 className="inline-flex items-center gap-2 rounded-lg border border-border bg-background px-3 py-2 text-sm font-medium text-foreground shadow-sm transition-colors hover:bg-muted/80 focus:outline-none focus:ring-2 focus:ring-ring"
               >
@@ -779,9 +775,12 @@ export default function Dashboard() {
             )}
           </div>
 
-          {/* RT/Admin: Entry — two cards: Dashboard du jour / Dashboard hebdomadaire */}
+          {/* Mortality / eau / température anomalies of the open lots (badge on "Tableau de bord" in the sidebar) */}
+          <DailyAnomalyAlerts />
+
+          {/* RT/Admin: Entry — Dashboard du jour / Dashboard hebdomadaire (+ Comparaison multi-lots for RT/Admin) */}
           {useRtaLikeWorkflow && rtaView === "entry" && (
-            <div className="grid gap-6 sm:grid-cols-2 lg:gap-8">
+            <div className={`grid gap-6 sm:grid-cols-2 lg:gap-8 ${showWeeklyDashboard ? "lg:grid-cols-3" : ""}`}>
               <button
                 type="button"
                 onClick={() => setRtaView("daily-farms")}
@@ -835,6 +834,31 @@ export default function Dashboard() {
                   </div>
                 </MagicCard>
               </button>
+              {showWeeklyDashboard && (
+                <button
+                  type="button"
+                  onClick={() => setRtaView("compare")}
+                  className="group w-full text-left focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded-2xl"
+                >
+                  <MagicCard className="rounded-2xl border border-border bg-card p-0 transition-all duration-300 group-hover:border-primary/50 group-hover:shadow-lg group-hover:shadow-primary/5">
+                    <div className="flex flex-col p-6 sm:p-8">
+                      <div className="flex h-14 w-14 items-center justify-center rounded-xl bg-primary/10 text-primary">
+                        <GitCompareArrows className="h-7 w-7" />
+                      </div>
+                      <h2 className="mt-4 font-display text-xl font-semibold text-foreground sm:text-2xl">
+                        Comparaison multi-lots
+                      </h2>
+                      <p className="mt-2 text-sm text-muted-foreground">
+                        Superposez les courbes de plusieurs lots, même de fermes différentes : mortalité cumulée, poids moyen, IC, GMQ et prix de revient/kg.
+                      </p>
+                      <span className="mt-4 inline-flex items-center gap-1 text-sm font-medium text-primary">
+                        Entrer
+                        <ChevronRight className="h-4 w-4" />
+                      </span>
+                    </div>
+                  </MagicCard>
+                </button>
+              )}
             </div>
           )}
 
@@ -878,6 +902,17 @@ export default function Dashboard() {
             </div>
           )}
 
+          {/* RT/Admin: Comparaison multi-lots */}
+          {showWeeklyDashboard && rtaView === "compare" && (
+            farms.length > 0 ? (
+              <LotComparisonView farms={farms} lotAccessCtx={lotAccessCtx} />
+            ) : (
+              <div className="rounded-xl border border-dashed border-border bg-muted/10 py-12 text-center text-sm text-muted-foreground">
+                Aucune ferme disponible.
+              </div>
+            )
+          )}
+
           {/* Weekly Dashboard: Card-based filter flow (farm → lot → week → sex → dashboard) */}
           {useRtaLikeWorkflow && rtaView === "weekly" && hebdoStep !== "dashboard" && (
             <div className="space-y-6">
@@ -1368,6 +1403,25 @@ export default function Dashboard() {
                       />
                     </MagicCard>
                   </div>
+
+                  {performanceNormQuery.isError ? (
+                    <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/40 p-4 flex flex-wrap items-center justify-between gap-3">
+                      <p className="text-sm font-medium text-red-800 dark:text-red-200">
+                        Impossible de charger les performances vs norme.
+                      </p>
+                      <Button variant="outline" size="sm" onClick={() => void performanceNormQuery.refetch()}>
+                        Réessayer
+                      </Button>
+                    </div>
+                  ) : performanceNormWeeks.length > 0 && (
+                    <PerformanceNormHeatMap
+                      data={performanceNormWeeks}
+                      tolerances={performanceTolerances}
+                      onTolerancesChange={canEditTolerances ? handlePerformanceTolerancesChange : undefined}
+                      title={`Performance vs norme — ${performanceNormWeeks[0].semaine} à ${performanceNormWeeks[performanceNormWeeks.length - 1].semaine}${effectiveSexForWeekly ? ` — ${effectiveSexForWeekly}` : ""}`}
+                      className="animate-in fade-in duration-300"
+                    />
+                  )}
                 </>
               )}
             </>
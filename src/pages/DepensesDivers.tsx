@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
 import { ArrowLeft, Building2, Calendar, Loader2, Plus, Check, Trash2, Eraser, Download, FileSpreadsheet, FileText } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
+import RejectedRowMarker from "@/components/verification/RejectedRowMarker";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,6 +18,11 @@ import {
 } from "@/components/ui/tooltip";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
+import { useDeliveryNoteDuplicateGuard } from "@/hooks/useDeliveryNoteGuard";
+import { useHighlightRowFromUrl } from "@/hooks/useHighlightRowFromUrl";
+import { useDraftStash } from "@/hooks/useDraftStash";
+import { hasUnsavedGridRows } from "@/lib/draftStash";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
@@ -25,7 +31,8 @@ import {
   type DepenseDiversRequest,
   type LotWithStatusResponse,
 } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { sortSemaines, computeAgeByRowId } from "@/utils/semaineAgeUtils";
 import {
   DEPENSES_DIVERS_MAIN_HEADERS,
@@ -35,6 +42,7 @@ import {
 } from "@/lib/depensesDiversShared";
 import { exportToExcel, exportToPdf } from "@/lib/depensesDiversExport";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
+import { canEditSavedRow, rowRejection, type RowRejection } from "@/lib/verificationShared";
 import { QuantityInput } from "@/components/ui/QuantityInput";
 import { PriceInput } from "@/components/ui/PriceInput";
 import { NumericInput } from "@/components/ui/NumericInput";
@@ -91,6 +99,8 @@ function normalizeSemaineKey(s: string): string {
 interface DepenseDiversRow {
   id: string;
   serverId?: number;
+  /** Rejected in the À vérifier inbox: editable once more to correct it. */
+  rejection?: RowRejection | null;
   date: string;
   /** Semaine (S1, S2…) ou VS — mappé sur le champ API `age`. */
   sem: string;
@@ -188,8 +198,6 @@ export default function DepensesDivers() {
 
   const {
     user,
-    isAdministrateur,
-    isResponsableTechnique,
     canAccessAllFarms,
     isReadOnly,
     canCreate,
@@ -209,14 +217,7 @@ export default function DepensesDivers() {
   const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
   const [lotsLoading, setLotsLoading] = useState(false);
   const [loading, setLoading] = useState(false);
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     lotParam.trim() &&
     isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotParam.trim()), lotAccessCtx)
@@ -228,6 +229,16 @@ export default function DepensesDivers() {
   const [newSemaineInput, setNewSemaineInput] = useState("");
   const [previousLotLastDate, setPreviousLotLastDate] = useState<string | null>(null);
   const { toast } = useToast();
+  const fieldErrors = useRowFieldErrors();
+  const deliveryNoteGuard = useDeliveryNoteDuplicateGuard();
+  useHighlightRowFromUrl(!loading);
+  useDraftStash({
+    scope: "depensesDivers",
+    draft: rows,
+    isDirty: (draftRows) => hasUnsavedGridRows(draftRows, (r) => emptyRow(r.sem, r.date)),
+    ready: !loading,
+    restore: setRows,
+  });
   const today = new Date().toISOString().split("T")[0];
 
   useEffect(() => {
@@ -336,6 +347,7 @@ export default function DepensesDivers() {
       const mapped: DepenseDiversRow[] = list.map((r: DepenseDiversResponse) => ({
         id: crypto.randomUUID(),
         serverId: r.id,
+        rejection: rowRejection(r),
         date: r.date ?? "",
         sem: (r.age ?? "").trim(),
         designation: r.designation ?? "",
@@ -478,6 +490,7 @@ export default function DepensesDivers() {
   };
 
   const updateRow = (id: string, field: keyof DepenseDiversRow, value: string) => {
+    fieldErrors.clearField(id, field);
     setRows((prev) =>
       prev.map((r) => {
         if (r.id !== id) return r;
@@ -569,10 +582,25 @@ export default function DepensesDivers() {
       return;
     }
 
+    if (
+      !(await deliveryNoteGuard.confirm({
+        source: "depensesDivers",
+        farmId: pageFarmId ?? null,
+        lot: lotFilter.trim(),
+        row,
+        rows,
+        notesOf: (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBR }),
+      }))
+    )
+      return;
+
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
     try {
       if (row.serverId != null) {
         await api.depensesDivers.update(row.serverId, req);
+        // Corrected after a rejection: back in the À vérifier queue
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, rejection: null } : r)));
         toast({
           title: "Ligne mise à jour",
           description: `Le ${row.date} a été mis à jour.`,
@@ -604,12 +632,20 @@ export default function DepensesDivers() {
           )
         );
       }
-    } catch {
-      toast({
-        title: "Erreur",
-        description: "Impossible d'enregistrer la ligne.",
-        variant: "destructive",
-      });
+    } catch (e) {
+      if (fieldErrors.capture(row.id, e)) {
+        toast({
+          title: "Valeurs invalides",
+          description: "Corrigez les cellules signalées en rouge.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Erreur",
+          description: "Impossible d'enregistrer la ligne.",
+          variant: "destructive",
+        });
+      }
     } finally {
       setSavingRowId(null);
     }
@@ -1067,14 +1103,17 @@ export default function DepensesDivers() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
                           return (
-                            <tr key={row.id}>
-                              <td>
+                            <tr key={row.id} data-server-id={row.serverId ?? undefined}>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1083,7 +1122,10 @@ export default function DepensesDivers() {
                                   className="bg-transparent border-0 outline-none text-sm w-full"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "designation")}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   list="designation-options"
@@ -1094,7 +1136,10 @@ export default function DepensesDivers() {
                                   className="min-w-[120px] bg-transparent border-0 outline-none text-sm w-full"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "supplier")}
+                                title={fieldErrors.fieldError(row.id, "supplier") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.supplier}
@@ -1104,7 +1149,10 @@ export default function DepensesDivers() {
                                   className="min-w-[100px] bg-transparent border-0 outline-none text-sm w-full"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "deliveryNoteNumber")}
+                                title={fieldErrors.fieldError(row.id, "deliveryNoteNumber") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.deliveryNoteNumber}
@@ -1114,7 +1162,10 @@ export default function DepensesDivers() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "numeroBR")}
+                                title={fieldErrors.fieldError(row.id, "numeroBR") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.numeroBR}
@@ -1124,7 +1175,10 @@ export default function DepensesDivers() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "ug")}
+                                title={fieldErrors.fieldError(row.id, "ug") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.ug}
@@ -1134,7 +1188,10 @@ export default function DepensesDivers() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td className="min-w-[128px] text-center">
+                              <td
+                                className={`min-w-[128px] text-center ${fieldErrors.cellClass(row.id, "qte")}`}
+                                title={fieldErrors.fieldError(row.id, "qte") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte)}
@@ -1151,7 +1208,10 @@ export default function DepensesDivers() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prixPerUnit")}`}
+                                title={fieldErrors.fieldError(row.id, "prixPerUnit") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prixPerUnit)}
@@ -1169,6 +1229,7 @@ export default function DepensesDivers() {
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
@@ -1312,17 +1373,20 @@ export default function DepensesDivers() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
                           return (
-                            <tr key={row.id}>
+                            <tr key={row.id} data-server-id={row.serverId ?? undefined}>
                               <td className="text-sm font-medium text-muted-foreground">
                                 {displayAgeByRowId.get(row.id) ?? "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1331,7 +1395,10 @@ export default function DepensesDivers() {
                                   className="bg-transparent border-0 outline-none text-sm w-full"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "sem")}
+                                title={fieldErrors.fieldError(row.id, "sem") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.sem}
@@ -1341,7 +1408,10 @@ export default function DepensesDivers() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "designation")}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   list="designation-options"
@@ -1352,7 +1422,10 @@ export default function DepensesDivers() {
                                   className="min-w-[120px] bg-transparent border-0 outline-none text-sm w-full"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "supplier")}
+                                title={fieldErrors.fieldError(row.id, "supplier") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.supplier}
@@ -1362,7 +1435,10 @@ export default function DepensesDivers() {
                                   className="min-w-[100px] bg-transparent border-0 outline-none text-sm w-full"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "deliveryNoteNumber")}
+                                title={fieldErrors.fieldError(row.id, "deliveryNoteNumber") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.deliveryNoteNumber}
@@ -1372,7 +1448,10 @@ export default function DepensesDivers() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "numeroBR")}
+                                title={fieldErrors.fieldError(row.id, "numeroBR") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.numeroBR}
@@ -1382,7 +1461,10 @@ export default function DepensesDivers() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td className="min-w-[128px] text-center">
+                              <td
+                                className={`min-w-[128px] text-center ${fieldErrors.cellClass(row.id, "qte")}`}
+                                title={fieldErrors.fieldError(row.id, "qte") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte)}
@@ -1399,7 +1481,10 @@ export default function DepensesDivers() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prixPerUnit")}`}
+                                title={fieldErrors.fieldError(row.id, "prixPerUnit") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prixPerUnit)}
@@ -1417,6 +1502,7 @@ export default function DepensesDivers() {
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
@@ -1513,6 +1599,7 @@ export default function DepensesDivers() {
           </div>
         </>
       )}
+      {deliveryNoteGuard.dialog}
     </AppLayout>
   );
 }
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
 import { ArrowLeft, Loader2, Building2, Plus, Check, Calendar, Trash2, Eraser, Download, FileSpreadsheet, FileText } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
+import RejectedRowMarker from "@/components/verification/RejectedRowMarker";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,6 +20,7 @@ import { QuantityInput } from "@/components/ui/QuantityInput";
 import { PriceInput } from "@/components/ui/PriceInput";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
@@ -27,12 +29,14 @@ import {
   type LivraisonElectriciteRequest,
   type LotWithStatusResponse,
 } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { sortSemaines, computeAgeByRowId } from "@/utils/semaineAgeUtils";
 import { resolvedQteFromString } from "@/lib/depensesDiversShared";
 import { exportToExcel, exportToPdf } from "@/lib/electriciteExport";
 import { ELECTRICITE_TABLE_HEADERS, electriciteEffectiveMontantForTotal } from "@/lib/electriciteShared";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
+import { canEditSavedRow, rowRejection, type RowRejection } from "@/lib/verificationShared";
 
 /**
  * FICHE DE SUIVI DES LIVRAISONS ÉLECTRICITÉ
@@ -64,6 +68,8 @@ const ELECTRICITE_HEADER_CLASS = {
 interface ElectriciteRow {
   id: string;
   serverId?: number;
+  /** Rejected in the À vérifier inbox: editable once more to correct it. */
+  rejection?: RowRejection | null;
   date: string;
   age: string; // Stored sequential age from API when present; display uses displayAgeByRowId
   sem: string;
@@ -146,8 +152,6 @@ export default function Electricite() {
 
   const {
     user,
-    isAdministrateur,
-    isResponsableTechnique,
     canAccessAllFarms,
     isReadOnly,
     canCreate,
@@ -167,14 +171,7 @@ export default function Electricite() {
   const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
   const [lotsLoading, setLotsLoading] = useState(false);
   const [loading, setLoading] = useState(false);
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     lotFilter.trim() &&
       isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotFilter.trim()), lotAccessCtx)
@@ -185,6 +182,7 @@ export default function Electricite() {
   const [newSemaineInput, setNewSemaineInput] = useState("");
   const [previousLotLastDate, setPreviousLotLastDate] = useState<string | null>(null);
   const { toast } = useToast();
+  const fieldErrors = useRowFieldErrors();
   const today = new Date().toISOString().split("T")[0];
 
   useEffect(() => {
@@ -297,6 +295,7 @@ export default function Electricite() {
         return {
           id: crypto.randomUUID(),
           serverId: r.id,
+          rejection: rowRejection(r),
           date: r.date ?? "",
           age: legacySemInAge ? "" : ageRaw,
           sem: semRaw || (legacySemInAge ? ageRaw : ""),
@@ -439,6 +438,7 @@ export default function Electricite() {
   };
 
   const updateRow = (id: string, field: keyof ElectriciteRow, value: string) => {
+    fieldErrors.clearField(id, field);
     setRows((prev) =>
       prev.map((r) => {
         if (r.id !== id) return r;
@@ -601,11 +601,14 @@ export default function Electricite() {
     }
 
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
     try {
       const computedAge = ageByRowId.get(row.id) ?? undefined;
       const req = rowToRequest(row, computedAge);
       if (row.serverId != null) {
         await api.livraisonsElectricite.update(row.serverId, req);
+        // Corrected after a rejection: back in the À vérifier queue
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, rejection: null } : r)));
         toast({ title: "Ligne mise à jour", description: `Le ${row.date} a été mis à jour.` });
         // Dispatch event to refresh price alert counter immediately
         window.dispatchEvent(new CustomEvent('priceAlertChanged'));
@@ -629,12 +632,20 @@ export default function Electricite() {
         return;
       }
       loadMovements();
-    } catch {
-      toast({
-        title: "Erreur",
-        description: "Impossible d'enregistrer la ligne.",
-        variant: "destructive",
-      });
+    } catch (e) {
+      if (fieldErrors.capture(row.id, e)) {
+        toast({
+          title: "Valeurs invalides",
+          description: "Corrigez les cellules signalées en rouge.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Erreur",
+          description: "Impossible d'enregistrer la ligne.",
+          variant: "destructive",
+        });
+      }
     } finally {
       setSavingRowId(null);
     }
@@ -984,9 +995,9 @@ export default function Electricite() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
                           return (
@@ -994,7 +1005,10 @@ export default function Electricite() {
                               <td className="text-sm font-medium text-muted-foreground">
                                 {displayAgeByRowId.get(row.id) ?? "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1006,7 +1020,10 @@ export default function Electricite() {
                               <td className="text-sm font-medium text-muted-foreground">
                                 {getSemFromRow(row) || selectedSemaine || "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "designation")}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.designation}
@@ -1016,7 +1033,10 @@ export default function Electricite() {
                                   className="min-w-[160px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "supplier")}
+                                title={fieldErrors.fieldError(row.id, "supplier") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.supplier}
@@ -1026,7 +1046,10 @@ export default function Electricite() {
                                   className="min-w-[100px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "numeroBR")}
+                                title={fieldErrors.fieldError(row.id, "numeroBR") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.numeroBR}
@@ -1036,7 +1059,10 @@ export default function Electricite() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td className="min-w-[128px] text-center">
+                              <td
+                                className={`min-w-[128px] text-center ${fieldErrors.cellClass(row.id, "qte")}`}
+                                title={fieldErrors.fieldError(row.id, "qte") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte)}
@@ -1053,7 +1079,10 @@ export default function Electricite() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prixPerUnit")}`}
+                                title={fieldErrors.fieldError(row.id, "prixPerUnit") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prixPerUnit)}
@@ -1071,6 +1100,7 @@ export default function Electricite() {
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
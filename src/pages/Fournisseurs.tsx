@@ -1,6 +1,6 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Loader2, Building2, Plus, Save, Trash2, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { ArrowLeft, Loader2, Building2, Plus, Save, Trash2, Download, FileSpreadsheet, FileText, History } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
 import {
   DropdownMenu,
@@ -9,6 +9,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ShimmerButton } from "@/components/ui/shimmer-button";
+import FournisseurPriceHistoryDialog from "@/components/fournisseurs/FournisseurPriceHistoryDialog";
+import { FournisseurPriceEvolutionChart } from "@/components/fournisseurs/FournisseurPriceEvolutionChart";
 import {
   Tooltip,
   TooltipContent,
@@ -16,6 +18,8 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useFournisseurPriceHistoryQuery } from "@/hooks/useApiQueries";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
@@ -25,6 +29,7 @@ import {
   getStoredSelectedFarm,
 } from "@/lib/api";
 import { exportToExcel, exportToPdf } from "@/lib/fournisseursExport";
+import { formatPriceDate, priceAsOf, priceCellKey, priceVersionsByCell } from "@/lib/fournisseursPriceHistoryShared";
 
 /**
  * Permission matrix:
@@ -35,6 +40,10 @@ import { exportToExcel, exportToPdf } from "@/lib/fournisseursExport";
  * - RESPONSABLE_FERME: can add new fournisseur columns and fill them, add new designation rows, and save.
  *   Once a fournisseur or a designation row has saved data, they cannot modify or delete it; they can only
  *   add further columns or rows and save again.
+ *
+ * Prices are versioned: a save records the changed cells with the "valables à partir du" date, earlier tariffs stay
+ * in the history (per-cell dialog, evolution chart, export "prix au" a past date). Livraisons aliment use the tariff
+ * in force on each livraison date.
  */
 
 interface FournisseurCol {
@@ -78,6 +87,15 @@ export default function Fournisseurs() {
   const [saving, setSaving] = useState(false);
   const [deletingFournisseurId, setDeletingFournisseurId] = useState<string | null>(null);
   const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const today = new Date().toISOString().split("T")[0];
+  /** Effective date of the prices saved next (default today; a later date schedules a tariff change). */
+  const [validFrom, setValidFrom] = useState(today);
+  /** Export "prix au" date; empty = current grid. */
+  const [exportAsOf, setExportAsOf] = useState("");
+  const [historyCell, setHistoryCell] = useState<{ fournisseur: { id: number; name: string }; designation: string } | null>(null);
+  const priceHistoryQuery = useFournisseurPriceHistoryQuery(pageFarmId, !showFarmSelector);
+  const versionsByCell = useMemo(() => priceVersionsByCell(priceHistoryQuery.data), [priceHistoryQuery.data]);
 
   const loadGrid = useCallback(async () => {
     if (showFarmSelector) return;
@@ -169,6 +187,7 @@ export default function Fournisseurs() {
       })),
       designations,
       prices: [],
+      validFrom: validFrom || null,
     };
     
     for (let desIdx = 0; desIdx < designations.length; desIdx++) {
@@ -188,6 +207,8 @@ export default function Fournisseurs() {
     }
     
     const grid = await api.fournisseurs.saveGrid(body, pageFarmId ?? undefined);
+    // Livraisons aliment resolve PRIX from this grid (useFournisseurGridQuery)
+    void invalidateAfterWrite("fournisseurs", { farmId: pageFarmId });
     const cols: FournisseurCol[] = (grid.fournisseurs ?? []).map((f) => ({
       id: `f${f.id}`,
       serverId: f.id,
@@ -312,6 +333,28 @@ export default function Fournisseurs() {
       ? (farms.find((f) => f.id === pageFarmId)?.name ?? "Ferme")
       : (getStoredSelectedFarm()?.name ?? "Ferme");
 
+  /**
+   * Grid prices for the export: current cells, or the tariffs in force on `exportAsOf`.
+   * Cells without any dated version (prices saved before the history) keep their current value.
+   */
+  const exportPrices = (): Record<number, Record<string, string>> => {
+    if (!exportAsOf) return prices;
+    const out: Record<number, Record<string, string>> = {};
+    designations.forEach((des, idx) => {
+      out[idx] = {};
+      for (const f of fournisseurs) {
+        const versions = f.serverId != null ? versionsByCell.get(priceCellKey(f.serverId, des)) : undefined;
+        if (!versions) {
+          out[idx][f.id] = prices[idx]?.[f.id] ?? "";
+          continue;
+        }
+        const price = priceAsOf(versions, exportAsOf);
+        out[idx][f.id] = price != null ? String(price) : "";
+      }
+    });
+    return out;
+  };
+
   const handleExportExcel = async () => {
     if (!canShowExport) return;
     try {
@@ -319,7 +362,8 @@ export default function Fournisseurs() {
         farmName: exportFarmName,
         designations,
         fournisseurs,
-        prices,
+        prices: exportPrices(),
+        asOf: exportAsOf || null,
       });
       toast({ title: "Export Excel", description: "Le fichier Excel a été téléchargé." });
     } catch {
@@ -333,7 +377,8 @@ export default function Fournisseurs() {
       farmName: exportFarmName,
       designations,
       fournisseurs,
-      prices,
+      prices: exportPrices(),
+      asOf: exportAsOf || null,
     });
     toast({ title: "Export PDF", description: "Le fichier PDF a été téléchargé." });
   };
@@ -351,7 +396,13 @@ export default function Fournisseurs() {
     setSaving(true);
     try {
       await saveGridToServer();
-      toast({ title: "Grille enregistrée", description: "Prix d'aliment mis à jour." });
+      toast({
+        title: "Grille enregistrée",
+        description:
+          validFrom && validFrom !== today
+            ? `Prix d'aliment mis à jour, valables à partir du ${formatPriceDate(validFrom)}.`
+            : "Prix d'aliment mis à jour.",
+      });
     } catch {
       /* API error — logged in backend only */
     } finally {
@@ -399,6 +450,17 @@ export default function Fournisseurs() {
               </DropdownMenu>
             </TooltipProvider>
           )}
+          {canShowExport && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground" title="Exporter les prix en vigueur à cette date (vide : grille actuelle)">
+              Prix au
+              <input
+                type="date"
+                value={exportAsOf}
+                onChange={(e) => setExportAsOf(e.target.value)}
+                className="rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground"
+              />
+            </label>
+          )}
         </div>
         {isReadOnly && (
           <p>
@@ -465,7 +527,7 @@ export default function Fournisseurs() {
                   Prix d'Aliment
                 </h2>
                 {canCreate && (
-                  <div className="flex gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
                     <button
                       type="button"
                       onClick={addFournisseur}
@@ -473,6 +535,15 @@ export default function Fournisseurs() {
                     >
                       <Plus className="w-4 h-4" /> Fournisseur
                     </button>
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                      Valables à partir du
+                      <input
+                        type="date"
+                        value={validFrom}
+                        onChange={(e) => setValidFrom(e.target.value)}
+                        className="rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground"
+                      />
+                    </label>
                     <button
                       type="button"
                       onClick={handleSave}
@@ -546,19 +617,41 @@ export default function Fournisseurs() {
                                   )}
                               </div>
                             </td>
-                            {fournisseurs.map((f) => (
-                              <td key={f.id}>
-                                <input
-                                  type="number"
-                                  value={prices[idx]?.[f.id] || ""}
-                                  onChange={(e) => updatePrice(idx, f.id, e.target.value)}
-                                  placeholder="0.00"
-                                  step="0.01"
-                                  disabled={isReadOnly || (!canUpdate && savedCellKeys.has(`${idx}|${f.id}`))}
-                                  title={!canUpdate && savedCellKeys.has(`${idx}|${f.id}`) ? "Cellule enregistrée : modification non autorisée" : undefined}
-                                />
-                              </td>
-                            ))}
+                            {fournisseurs.map((f) => {
+                              const versions =
+                                f.serverId != null ? versionsByCell.get(priceCellKey(f.serverId, des)) : undefined;
+                              return (
+                                <td key={f.id}>
+                                  <div className="flex items-center gap-1">
+                                    <input
+                                      type="number"
+                                      value={prices[idx]?.[f.id] || ""}
+                                      onChange={(e) => updatePrice(idx, f.id, e.target.value)}
+                                      placeholder="0.00"
+                                      step="0.01"
+                                      disabled={isReadOnly || (!canUpdate && savedCellKeys.has(`${idx}|${f.id}`))}
+                                      title={!canUpdate && savedCellKeys.has(`${idx}|${f.id}`) ? "Cellule enregistrée : modification non autorisée" : undefined}
+                                    />
+                                    {f.serverId != null && idx < serverDesignationCount && (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          setHistoryCell({ fournisseur: { id: f.serverId as number, name: f.name }, designation: des })
+                                        }
+                                        className="shrink-0 text-muted-foreground hover:text-primary transition-colors p-0.5 rounded"
+                                        title={
+                                          versions && versions.length > 1
+                                            ? `Historique des prix (${versions.length} versions)`
+                                            : "Historique des prix"
+                                        }
+                                      >
+                                        <History className={`w-3.5 h-3.5 ${versions && versions.length > 1 ? "text-primary" : ""}`} />
+                                      </button>
+                                    )}
+                                  </div>
+                                </td>
+                              );
+                            })}
                           </tr>
                         ))}
                       </tbody>
@@ -587,9 +680,33 @@ export default function Fournisseurs() {
                 </>
               )}
             </div>
+
+            {(priceHistoryQuery.data?.length ?? 0) > 0 && (
+              <div className="bg-card rounded-lg border border-border shadow-sm p-5 w-full min-w-0">
+                <FournisseurPriceEvolutionChart
+                  history={priceHistoryQuery.data ?? []}
+                  fournisseurs={fournisseurs
+                    .filter((f) => f.serverId != null)
+                    .map((f) => ({ id: f.serverId as number, name: f.name }))}
+                  designations={designations.slice(0, serverDesignationCount)}
+                />
+              </div>
+            )}
           </div>
         </>
       )}
+      {historyCell && (
+        <FournisseurPriceHistoryDialog
+          open
+          onOpenChange={(open) => !open && setHistoryCell(null)}
+          farmId={pageFarmId}
+          fournisseur={historyCell.fournisseur}
+          designation={historyCell.designation}
+          versions={versionsByCell.get(priceCellKey(historyCell.fournisseur.id, historyCell.designation)) ?? []}
+          canAdd={!isReadOnly && canUpdate}
+          onAdded={loadGrid}
+        />
+      )}
     </AppLayout>
   );
 }
@@ -0,0 +1,433 @@
+/**
+ * Page "Graphiques eau & température" — /graphiques-batiment?farmId=8&lot=12&batiment=B1&sex=Mâle
+ * Over every semaine of one bâtiment / sex: daily water per bird, weekly water / feed index and the min / max
+ * temperature against the target band by age (batimentControlCharts.ts). The same charts close the Suivi Technique
+ * bâtiment PDF (section 8).
+ */
+
+import { useMemo, useState, type ReactNode } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Area, CartesianGrid, ComposedChart, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Droplets, FileText, Loader2, Settings2, Thermometer } from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import { TemperatureTargetsDialog } from "@/components/suivi-technique/TemperatureTargetsDialog";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useSaveTemperatureTargets } from "@/hooks/useApiMutations";
+import {
+  useFarmsQuery,
+  useLotsWithStatusQuery,
+  useSetupInfoListQuery,
+  useTemperatureTargetsQuery,
+} from "@/hooks/useApiQueries";
+import { useClosedLotAccess, usePermission } from "@/hooks/usePermission";
+import { getStoredSelectedFarm } from "@/lib/api";
+import {
+  buildBatimentControlSeries,
+  DEFAULT_TEMPERATURE_TARGETS,
+  loadBatimentControlSources,
+  type BatimentControlDay,
+  type TemperatureTargetPoint,
+} from "@/lib/batimentControlCharts";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { queryKeys } from "@/lib/queryKeys";
+
+const waterConfig = {
+  eauParSujetMl: { label: "Eau (mL/sujet)", color: "hsl(199, 89%, 48%)" },
+} satisfies ChartConfig;
+
+const indexConfig = {
+  indiceEauAliment: { label: "Indice eau / aliment", color: "hsl(173, 80%, 40%)" },
+} satisfies ChartConfig;
+
+const temperatureConfig = {
+  cible: { label: "Plage cible", color: "hsl(142, 71%, 45%)" },
+  tempMin: { label: "T° min", color: "hsl(217, 91%, 60%)" },
+  tempMax: { label: "T° max", color: "hsl(0, 84%, 60%)" },
+} satisfies ChartConfig;
+
+type SearchKey = "farmId" | "lot" | "batiment" | "sex";
+
+function formatDecimal(value: unknown, decimals: number): string {
+  return value == null || Number.isNaN(Number(value)) ? "—" : formatGroupedNumber(Number(value), decimals);
+}
+
+function dayTooltipLabel(payload: unknown): string {
+  const p = (payload as { payload?: BatimentControlDay }[] | undefined)?.[0]?.payload;
+  if (!p) return "";
+  const m = p.date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return `${p.dayLabel} · ${p.semaine} (${m ? `${m[3]}/${m[2]}/${m[1]}` : p.date})`;
+}
+
+function ChartCard({ icon: Icon, title, children }: { icon: typeof Droplets; title: string; children: ReactNode }) {
+  return (
+    <div className="bg-card rounded-lg border border-border shadow-sm p-5 min-w-0">
+      <h2 className="mb-4 flex items-center gap-2 text-base font-display font-semibold text-foreground">
+        <Icon className="h-5 w-5 text-primary" />
+        {title}
+      </h2>
+      {children}
+    </div>
+  );
+}
+
+function EmptyChart({ message }: { message: string }) {
+  return (
+    <div className="flex h-[260px] items-center justify-center rounded-xl border border-dashed border-border bg-muted/10 text-sm text-muted-foreground">
+      {message}
+    </div>
+  );
+}
+
+export default function GraphiquesBatiment() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const farmIdParam = searchParams.get("farmId");
+  const parsedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
+  const lot = (searchParams.get("lot") ?? "").trim();
+  const { canAccessAllFarms, selectedFarmId: authSelectedFarmId } = useAuth();
+  const farmId = parsedFarmId != null && !Number.isNaN(parsedFarmId) ? parsedFarmId : authSelectedFarmId;
+  const { toast } = useToast();
+
+  const [targetsOpen, setTargetsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const farmsQuery = useFarmsQuery(canAccessAllFarms);
+  const lotsQuery = useLotsWithStatusQuery(farmId);
+  const setupQuery = useSetupInfoListQuery(farmId, lot || null);
+  const lotAccessCtx = useClosedLotAccess();
+  // The target curve is saved per farm, so the page and the bâtiment PDF of every user draw the same band
+  const targetsQuery = useTemperatureTargetsQuery(farmId);
+  const targets = targetsQuery.data ?? DEFAULT_TEMPERATURE_TARGETS;
+  const canEditTargets = usePermission("normesPerformance", "update", farmId);
+  const saveTemperatureTargets = useSaveTemperatureTargets();
+  const lotStatus = lotsQuery.data?.find((l) => l.lot === lot);
+  const isBlocked = isClosedLotBlockedForSession(lotStatus, lotAccessCtx);
+
+  const batiments = useMemo(
+    () => [...new Set((setupQuery.data ?? []).map((s) => s.building).filter(Boolean))].sort(),
+    [setupQuery.data]
+  );
+  const batiment = searchParams.get("batiment") || batiments[0] || "";
+  const sexes = useMemo(
+    () => [...new Set((setupQuery.data ?? []).filter((s) => s.building === batiment).map((s) => s.sex).filter(Boolean))],
+    [setupQuery.data, batiment]
+  );
+  const sexParam = searchParams.get("sex") ?? "";
+  const sex = sexes.includes(sexParam) ? sexParam : sexes[0] ?? "";
+
+  const sourcesQuery = useQuery({
+    queryKey: queryKeys.batimentControlCharts.get({ farmId, lot, batiment, sex }),
+    queryFn: () => loadBatimentControlSources({ farmId: farmId as number, lot, batiment, sex }),
+    enabled: farmId != null && Boolean(lot) && Boolean(batiment) && Boolean(sex) && !isBlocked,
+  });
+  const series = useMemo(
+    () => (sourcesQuery.data ? buildBatimentControlSeries(sourcesQuery.data, targets) : null),
+    [sourcesQuery.data, targets]
+  );
+  const temperatureData = useMemo(
+    () =>
+      (series?.days ?? []).map((d) => ({
+        ...d,
+        cible: d.cibleMin != null && d.cibleMax != null ? [d.cibleMin, d.cibleMax] : null,
+      })),
+    [series]
+  );
+  const lastSemaine = series?.weeks[series.weeks.length - 1]?.semaine ?? "";
+
+  const setParam = (key: SearchKey, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    if (key === "farmId") next.delete("lot");
+    if (key === "farmId" || key === "lot") next.delete("batiment");
+    if (key !== "sex") next.delete("sex");
+    setSearchParams(next);
+  };
+
+  const handleTargetsSave = (points: TemperatureTargetPoint[]) => {
+    if (farmId == null) return;
+    saveTemperatureTargets.mutate(
+      { farmId, body: { points } },
+      {
+        onSuccess: () =>
+          toast({ title: "Courbe enregistrée", description: "La plage cible est appliquée aux graphiques de la ferme." }),
+        onError: () =>
+          toast({ title: "Erreur", description: "Impossible d'enregistrer la courbe.", variant: "destructive" }),
+      }
+    );
+  };
+
+  const handleExportPdf = async () => {
+    if (farmId == null || !lastSemaine) return;
+    setExporting(true);
+    try {
+      const { exportToPdf } = await import("@/lib/suiviTechniqueBatimentExport");
+      await exportToPdf({
+        farmName:
+          (farmsQuery.data ?? []).find((f) => f.id === farmId)?.name ?? getStoredSelectedFarm()?.name ?? "Ferme",
+        farmId,
+        lot,
+        semaine: lastSemaine,
+        batiment,
+        sex,
+      });
+      toast({ title: "Export PDF", description: "Le fichier PDF a été téléchargé." });
+    } catch {
+      toast({ title: "Erreur", description: "Impossible de générer le fichier PDF.", variant: "destructive" });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const selectClass = "rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground";
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <h1>Graphiques eau & température</h1>
+        <p>
+          Eau par sujet et par jour, indice eau / aliment par semaine et températures min / max comparées à la plage
+          cible selon l'âge, sur toute la durée du lot pour un bâtiment.
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg border border-border shadow-sm p-4 mb-6 flex flex-wrap items-end gap-4">
+        {canAccessAllFarms && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+            Ferme
+            <select
+              value={farmId != null ? String(farmId) : ""}
+              onChange={(e) => setParam("farmId", e.target.value)}
+              className={`${selectClass} min-w-[180px]`}
+            >
+              <option value="">Choisir une ferme…</option>
+              {(farmsQuery.data ?? []).map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Lot
+          <select
+            value={lot}
+            onChange={(e) => setParam("lot", e.target.value)}
+            disabled={farmId == null}
+            className={`${selectClass} min-w-[120px]`}
+          >
+            <option value="">Choisir un lot…</option>
+            {(lotsQuery.data ?? []).map((l) => (
+              <option key={l.lot} value={l.lot}>
+                {l.lot}
+                {l.closed ? " (fermé)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        {batiments.length > 0 && (
+          <>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Bâtiment
+              <select value={batiment} onChange={(e) => setParam("batiment", e.target.value)} className={selectClass}>
+                {batiments.map((b) => (
+                  <option key={b} value={b}>
+                    {b}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Sexe
+              <select value={sex} onChange={(e) => setParam("sex", e.target.value)} className={selectClass}>
+                {sexes.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+        <div className="ml-auto flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => setTargetsOpen(true)}
+            disabled={!canEditTargets || targetsQuery.isLoading}
+            title={canEditTargets ? undefined : "Réservé aux rôles qui modifient les normes de performance"}
+          >
+            <Settings2 className="h-4 w-4" />
+            Courbe de température cible
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => void handleExportPdf()}
+            disabled={exporting || !lastSemaine || isBlocked}
+            title={lastSemaine ? `PDF Suivi Technique ${batiment} — ${sex}, jusqu'à ${lastSemaine}` : undefined}
+          >
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4 text-red-600" />}
+            PDF bâtiment
+          </Button>
+        </div>
+      </div>
+
+      {farmId == null || !lot ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <Thermometer className="mx-auto mb-2 h-8 w-8 opacity-50" />
+          <p>Choisissez une ferme et un lot pour afficher les graphiques.</p>
+        </div>
+      ) : isBlocked ? (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 p-4">
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            Ce lot est fermé. Les données ne sont pas accessibles.
+          </p>
+        </div>
+      ) : setupQuery.isPending || (Boolean(batiment && sex) && sourcesQuery.isPending) ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          <span>Chargement des graphiques…</span>
+        </div>
+      ) : sourcesQuery.isError ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/40 p-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">
+            Impossible de charger le suivi de ce bâtiment : les graphiques ne sont pas affichés.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => void sourcesQuery.refetch()}>
+            Réessayer
+          </Button>
+        </div>
+      ) : !series || series.days.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <p>Aucun suivi hebdomadaire pour ce bâtiment (mise en place ou reporting journalier à compléter).</p>
+        </div>
+      ) : (
+        <div className="grid gap-6 xl:grid-cols-2">
+          <ChartCard icon={Droplets} title={`Eau par sujet (mL/jour) — ${batiment} · ${sex}`}>
+            {series.days.some((d) => d.eauParSujetMl != null) ? (
+              <ChartContainer config={waterConfig} className="h-[260px] w-full">
+                <LineChart data={series.days} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted/50" vertical={false} />
+                  <XAxis dataKey="dayLabel" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value) => [`${formatDecimal(value, 0)} mL/sujet`, ""]}
+                        labelFormatter={(_, payload) => dayTooltipLabel(payload)}
+                      />
+                    }
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="eauParSujetMl"
+                    stroke="var(--color-eauParSujetMl)"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <EmptyChart message="Consommation d'eau ou effectif non renseigné." />
+            )}
+          </ChartCard>
+
+          <ChartCard icon={Droplets} title="Indice eau / aliment (L/kg) par semaine">
+            {series.weeks.some((w) => w.indiceEauAliment != null) ? (
+              <ChartContainer config={indexConfig} className="h-[260px] w-full">
+                <LineChart data={series.weeks} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted/50" vertical={false} />
+                  <XAxis dataKey="semaine" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+                  <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent formatter={(value) => [`${formatDecimal(value, 2)} L/kg`, ""]} />}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="indiceEauAliment"
+                    stroke="var(--color-indiceEauAliment)"
+                    strokeWidth={2.5}
+                    dot={{ fill: "var(--color-indiceEauAliment)", r: 4, strokeWidth: 0 }}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <EmptyChart message="Consommation d'aliment ou d'eau de la semaine non renseignée." />
+            )}
+          </ChartCard>
+
+          <div className="xl:col-span-2">
+            <ChartCard icon={Thermometer} title="Température (°C) et plage cible selon l'âge">
+              {series.days.some((d) => d.tempMin != null || d.tempMax != null) ? (
+                <ChartContainer config={temperatureConfig} className="h-[300px] w-full">
+                  <ComposedChart data={temperatureData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted/50" vertical={false} />
+                    <XAxis dataKey="dayLabel" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} domain={["auto", "auto"]} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={(value, name) => [
+                            Array.isArray(value)
+                              ? `${formatDecimal(value[0], 1)} – ${formatDecimal(value[1], 1)} °C`
+                              : `${formatDecimal(value, 1)} °C`,
+                            temperatureConfig[name as keyof typeof temperatureConfig]?.label ?? String(name),
+                          ]}
+                          labelFormatter={(_, payload) => dayTooltipLabel(payload)}
+                        />
+                      }
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="cible"
+                      stroke="var(--color-cible)"
+                      strokeDasharray="4 4"
+                      fill="var(--color-cible)"
+                      fillOpacity={0.15}
+                      connectNulls
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="tempMin"
+                      stroke="var(--color-tempMin)"
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="tempMax"
+                      stroke="var(--color-tempMax)"
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ChartContainer>
+              ) : (
+                <EmptyChart message="Températures non renseignées." />
+              )}
+            </ChartCard>
+          </div>
+        </div>
+      )}
+
+      <TemperatureTargetsDialog
+        open={targetsOpen}
+        onOpenChange={setTargetsOpen}
+        targets={targets}
+        onSave={handleTargetsSave}
+      />
+    </AppLayout>
+  );
+}
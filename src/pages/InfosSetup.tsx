@@ -1,6 +1,6 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Loader2, Building2, Check, Plus, Trash2, ChevronDown, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Loader2, Building2, Check, Plus, Trash2, ChevronDown, Download, FileSpreadsheet, FileText, History } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
 import {
   DropdownMenu,
@@ -18,7 +18,8 @@ import {
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useAuth } from "@/contexts/AuthContext";
 import { api, type FarmResponse, type LotWithStatusResponse, type SetupInfoRequest, type SetupInfoResponse } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { exportToExcel, exportToPdf } from "@/lib/infosSetupExport";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
 import { QuantityInput } from "@/components/ui/QuantityInput";
@@ -393,14 +394,7 @@ export default function InfosSetup() {
     refreshLots();
   }, [reportingFarmId, refreshLots]);
 
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
 
   /** When the selected lot is closed for this session, show message and lot selector only. */
   const isSelectedLotClosed = Boolean(
@@ -954,6 +948,13 @@ export default function InfosSetup() {
                 >
                   Changer de lot
                 </button>
+                <Link
+                  to={`/lots/${encodeURIComponent(lotParam)}/timeline${urlFarmId != null ? `?farmId=${urlFarmId}` : ""}`}
+                  className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
+                >
+                  <History className="w-4 h-4" />
+                  Chronologie du lot
+                </Link>
               </div>
 
               <div className="bg-card rounded-lg border border-border shadow-sm animate-fade-in">
@@ -0,0 +1,298 @@
+/**
+ * Page "Journal d'audit" — /journal-audit?farmId=8&lot=12&user=jdupont&type=LIVRAISON_ALIMENT
+ * Every write on the audited grids (reporting journalier, livraisons, sorties, main d'œuvre, suivi hebdo), newest
+ * first, with the user and the changed fields. Opening a line shows the full history of the row (RowHistorySheet).
+ */
+
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { History, Loader2, ScrollText } from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAuditListQuery, useFarmsQuery, useLotsWithStatusQuery } from "@/hooks/useApiQueries";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { api, type AuditEntityType } from "@/lib/api";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_TYPES,
+  auditChanges,
+  auditEntityLabel,
+  auditFieldLabel,
+  auditUserLabel,
+  formatAuditTimestamp,
+  formatAuditValue,
+} from "@/lib/auditTrailShared";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+
+/** Entries loaded at once; narrow the filters beyond that. */
+const AUDIT_PAGE_LIMIT = 500;
+
+/** Changed fields shown inline; the rest is in the row history. */
+const INLINE_CHANGES = 3;
+
+const ACTION_COLORS = {
+  CREATE: "text-emerald-700 dark:text-emerald-400",
+  UPDATE: "text-sky-700 dark:text-sky-400",
+  DELETE: "text-destructive",
+} as const;
+
+type FilterKey = "farmId" | "lot" | "user" | "type" | "from" | "to";
+
+export default function JournalAudit() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { canAccessAllFarms, selectedFarmId: authSelectedFarmId, can } = useAuth();
+  const farmIdParam = searchParams.get("farmId");
+  const parsedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
+  const farmId = parsedFarmId != null && !Number.isNaN(parsedFarmId) ? parsedFarmId : canAccessAllFarms ? null : authSelectedFarmId;
+  const lot = (searchParams.get("lot") ?? "").trim();
+  const username = (searchParams.get("user") ?? "").trim();
+  const typeParam = searchParams.get("type") ?? "";
+  const entityType = AUDIT_ENTITY_TYPES.some((t) => t.value === typeParam) ? (typeParam as AuditEntityType) : null;
+  const from = searchParams.get("from") ?? "";
+  const to = searchParams.get("to") ?? "";
+  const [userInput, setUserInput] = useState(username);
+
+  const farmsQuery = useFarmsQuery(canAccessAllFarms);
+  const lotsQuery = useLotsWithStatusQuery(farmId);
+  const usersQuery = useQuery({
+    queryKey: queryKeys.users.list(),
+    queryFn: () => api.users.list(),
+    enabled: can("utilisateurs", "read"),
+  });
+  const auditQuery = useAuditListQuery({
+    farmId,
+    lot: lot || null,
+    username: username || null,
+    entityType,
+    from: from || null,
+    to: to || null,
+    limit: AUDIT_PAGE_LIMIT,
+  });
+  const entries = auditQuery.data ?? [];
+  const rowHistory = useRowHistory();
+
+  const setParam = (key: FilterKey, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    if (key === "farmId") next.delete("lot");
+    setSearchParams(next);
+  };
+
+  const farmName = (id: number | null | undefined, fallback?: string | null) =>
+    fallback ?? (farmsQuery.data ?? []).find((f) => f.id === id)?.name ?? (id != null ? `Ferme ${id}` : "—");
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <h1>Journal d'audit</h1>
+        <p>
+          Toutes les créations, modifications et suppressions des saisies, avec l'utilisateur et les champs modifiés.
+          Ouvrez une ligne pour voir l'historique complet de la saisie.
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg border border-border shadow-sm p-4 mb-6 flex flex-wrap items-end gap-4">
+        {canAccessAllFarms && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+            Ferme
+            <select
+              value={farmId != null ? String(farmId) : ""}
+              onChange={(e) => setParam("farmId", e.target.value)}
+              className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[180px]"
+            >
+              <option value="">Toutes les fermes</option>
+              {(farmsQuery.data ?? []).map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Lot
+          <select
+            value={lot}
+            onChange={(e) => setParam("lot", e.target.value)}
+            disabled={farmId == null}
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[120px]"
+          >
+            <option value="">Tous les lots</option>
+            {(lotsQuery.data ?? []).map((l) => (
+              <option key={l.lot} value={l.lot}>
+                {l.lot}
+                {l.closed ? " (fermé)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Utilisateur
+          <input
+            type="text"
+            list="audit-users"
+            value={userInput}
+            onChange={(e) => setUserInput(e.target.value)}
+            onBlur={() => userInput.trim() !== username && setParam("user", userInput.trim())}
+            onKeyDown={(e) => e.key === "Enter" && setParam("user", userInput.trim())}
+            placeholder="Identifiant"
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground w-[160px]"
+          />
+          <datalist id="audit-users">
+            {(usersQuery.data ?? []).map((u) => (
+              <option key={u.id} value={u.username}>
+                {u.displayName ?? u.username}
+              </option>
+            ))}
+          </datalist>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Type de saisie
+          <select
+            value={entityType ?? ""}
+            onChange={(e) => setParam("type", e.target.value)}
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[200px]"
+          >
+            <option value="">Tous les types</option>
+            {AUDIT_ENTITY_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Du
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setParam("from", e.target.value)}
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Au
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setParam("to", e.target.value)}
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground"
+          />
+        </label>
+      </div>
+
+      <div className="bg-card rounded-lg border border-border shadow-sm">
+        <div className="px-5 py-4 border-b border-border flex items-center gap-2">
+          <ScrollText className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-display font-bold text-foreground">Modifications</h2>
+          {!auditQuery.isLoading && (
+            <span className="text-xs text-muted-foreground">
+              {entries.length >= AUDIT_PAGE_LIMIT
+                ? `${AUDIT_PAGE_LIMIT} plus récentes — affinez les filtres pour voir les plus anciennes`
+                : `${entries.length} entrée(s)`}
+            </span>
+          )}
+        </div>
+        {auditQuery.isLoading ? (
+          <div className="p-8 flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" /> Chargement...
+          </div>
+        ) : auditQuery.error ? (
+          <div className="p-4 text-destructive text-sm">
+            {auditQuery.error instanceof Error ? auditQuery.error.message : "Erreur de chargement"}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground text-sm">Aucune modification pour ces filtres.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table-farm">
+              <thead>
+                <tr>
+                  <th>DATE</th>
+                  <th>UTILISATEUR</th>
+                  <th>FERME</th>
+                  <th>LOT</th>
+                  <th>SAISIE</th>
+                  <th>ACTION</th>
+                  <th>CHAMPS MODIFIÉS</th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const changes = auditChanges(entry);
+                  return (
+                    <tr key={entry.id} className="align-top">
+                      <td className="text-sm whitespace-nowrap tabular-nums">{formatAuditTimestamp(entry.timestamp)}</td>
+                      <td className="text-sm">
+                        <div>{auditUserLabel(entry)}</div>
+                        {entry.userDisplayName && entry.username && (
+                          <div className="text-xs text-muted-foreground">{entry.username}</div>
+                        )}
+                      </td>
+                      <td className="text-sm">{farmName(entry.farmId, entry.farmName)}</td>
+                      <td className="text-sm">{entry.lot ?? "—"}</td>
+                      <td className="text-sm">
+                        <div>{auditEntityLabel(entry.entityType)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          #{entry.entityId} · v{entry.version}
+                        </div>
+                      </td>
+                      <td className={cn("text-sm font-medium", ACTION_COLORS[entry.action])}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </td>
+                      <td className="text-xs">
+                        {changes.length === 0 ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {changes.slice(0, INLINE_CHANGES).map((c) => (
+                              <li key={c.field}>
+                                <span className="font-medium">{auditFieldLabel(c.field)}</span>{" "}
+                                {entry.action === "CREATE" ? (
+                                  formatAuditValue(c.newValue)
+                                ) : (
+                                  <>
+                                    <span className="text-muted-foreground">{formatAuditValue(c.oldValue)}</span> →{" "}
+                                    {formatAuditValue(c.newValue)}
+                                  </>
+                                )}
+                              </li>
+                            ))}
+                            {changes.length > INLINE_CHANGES && (
+                              <li className="text-muted-foreground">+ {changes.length - INLINE_CHANGES} autre(s)</li>
+                            )}
+                          </ul>
+                        )}
+                      </td>
+                      <td className="text-center">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            rowHistory.open({
+                              entityType: entry.entityType,
+                              entityId: entry.entityId,
+                              title: [entry.lot ? `Lot ${entry.lot}` : null, `#${entry.entityId}`].filter(Boolean).join(" — "),
+                            })
+                          }
+                          className="inline-flex p-1.5 text-muted-foreground hover:text-primary hover:bg-muted rounded transition-colors"
+                          title="Historique de la saisie"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+      {rowHistory.sheet}
+    </AppLayout>
+  );
+}
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Building2, Calendar, Check, Loader2, Plus, Trash2, Eraser, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { ArrowLeft, Building2, Calendar, Check, Loader2, Plus, Trash2, Eraser, History, Download, FileSpreadsheet, FileText, Upload } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
+import RejectedRowMarker from "@/components/verification/RejectedRowMarker";
+import LivraisonImportDialog from "@/components/livraisons/LivraisonImportDialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,6 +19,12 @@ import {
 } from "@/components/ui/tooltip";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
+import { useDeliveryNoteDuplicateGuard } from "@/hooks/useDeliveryNoteGuard";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { useHighlightRowFromUrl } from "@/hooks/useHighlightRowFromUrl";
+import { useDraftStash } from "@/hooks/useDraftStash";
+import { hasUnsavedGridRows } from "@/lib/draftStash";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
@@ -25,12 +33,14 @@ import {
   type LivraisonGazRequest,
   type LotWithStatusResponse,
 } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { sortSemaines, computeAgeByRowId } from "@/utils/semaineAgeUtils";
 import { resolvedQteFromString } from "@/lib/depensesDiversShared";
 import { exportToExcel, exportToPdf } from "@/lib/livraisonGazExport";
 import { LIVRAISON_GAZ_TABLE_HEADERS, livraisonGazEffectiveMontantForTotal } from "@/lib/livraisonGazShared";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
+import { canEditSavedRow, rowRejection, type RowRejection } from "@/lib/verificationShared";
 import { QuantityInput } from "@/components/ui/QuantityInput";
 
 /**
@@ -50,6 +60,8 @@ const MIN_TABLE_ROWS = 7;
 interface GazRow {
   id: string;
   serverId?: number;
+  /** Rejected in the À vérifier inbox: editable once more to correct it. */
+  rejection?: RowRejection | null;
   date: string;
   age: string; // Stored sequential age from API when present; display uses displayAgeByRowId
   sem: string;
@@ -158,8 +170,6 @@ export default function LivraisonGaz() {
 
   const {
     user,
-    isAdministrateur,
-    isResponsableTechnique,
     canAccessAllFarms,
     isReadOnly,
     canCreate,
@@ -189,14 +199,7 @@ export default function LivraisonGaz() {
   const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
   const [lotsLoading, setLotsLoading] = useState(false);
   const [loading, setLoading] = useState(false);
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     lotFilter.trim() &&
       isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotFilter.trim()), lotAccessCtx)
@@ -208,6 +211,17 @@ export default function LivraisonGaz() {
   const [newSemaineInput, setNewSemaineInput] = useState("");
   const [previousLotLastDate, setPreviousLotLastDate] = useState<string | null>(null);
   const { toast } = useToast();
+  const fieldErrors = useRowFieldErrors();
+  const deliveryNoteGuard = useDeliveryNoteDuplicateGuard();
+  const rowHistory = useRowHistory();
+  useHighlightRowFromUrl(!loading);
+  useDraftStash({
+    scope: "livraisonsGaz",
+    draft: rows,
+    isDirty: (draftRows) => hasUnsavedGridRows(draftRows, (r) => emptyRow(r.sem, r.date)),
+    ready: !loading,
+    restore: setRows,
+  });
   const today = new Date().toISOString().split("T")[0];
 
   useEffect(() => {
@@ -306,6 +320,8 @@ export default function LivraisonGaz() {
     [rows, previousLotLastDate]
   );
 
+  const [importOpen, setImportOpen] = useState(false);
+
   const loadMovements = useCallback(async () => {
     if (showFarmSelector || !lotFilter.trim() || isSelectedLotClosed) return;
     setLoading(true);
@@ -321,6 +337,7 @@ export default function LivraisonGaz() {
         return {
           id: crypto.randomUUID(),
           serverId: r.id,
+          rejection: rowRejection(r),
           date: r.date ?? "",
           age: legacySemInAge ? "" : ageRaw,
           sem: semRaw || (legacySemInAge ? ageRaw : ""),
@@ -505,6 +522,7 @@ export default function LivraisonGaz() {
   };
 
   const updateRow = (id: string, field: keyof GazRow, value: string) => {
+    fieldErrors.clearField(id, field);
     setRows((prev) =>
       prev.map((r) => {
         if (r.id !== id) return r;
@@ -598,6 +616,17 @@ export default function LivraisonGaz() {
 
   const handleSaveVideSanitaireOnly = async () => {
     if (!hasVideSanitaireToSave || videSanitaireReadOnly) return;
+    if (
+      !(await deliveryNoteGuard.confirm({
+        source: "videSanitaireGaz",
+        farmId: pageFarmId ?? null,
+        lot: lotFilter.trim(),
+        row: { id: "vs", date: videSanitaire.date, sem: "VS", supplier: videSanitaire.supplier },
+        rows: [],
+        notesOf: () => ({ bl: videSanitaire.deliveryNoteNumber, br: videSanitaire.numeroBR }),
+      }))
+    )
+      return;
     setSavingVideSanitaire(true);
     try {
       await api.videSanitaireGaz.put(
@@ -669,12 +698,27 @@ export default function LivraisonGaz() {
       return;
     }
 
+    if (
+      !(await deliveryNoteGuard.confirm({
+        source: "livraisonsGaz",
+        farmId: pageFarmId ?? null,
+        lot: lotFilter.trim(),
+        row,
+        rows,
+        notesOf: (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBR }),
+      }))
+    )
+      return;
+
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
     try {
       const computedAge = ageByRowId.get(row.id) ?? undefined;
       const req = rowToRequest(row, computedAge);
       if (row.serverId != null) {
         await api.livraisonsGaz.update(row.serverId, req);
+        // Corrected after a rejection: back in the À vérifier queue
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, rejection: null } : r)));
         toast({ title: "Ligne mise à jour", description: `Le ${row.date} a été mis à jour.` });
         // Dispatch event to refresh price alert counter immediately
         window.dispatchEvent(new CustomEvent('priceAlertChanged'));
@@ -698,12 +742,20 @@ export default function LivraisonGaz() {
         );
         return;
       }
-    } catch {
-      toast({
-        title: "Erreur",
-        description: "Impossible d'enregistrer la ligne.",
-        variant: "destructive",
-      });
+    } catch (e) {
+      if (fieldErrors.capture(row.id, e)) {
+        toast({
+          title: "Valeurs invalides",
+          description: "Corrigez les cellules signalées en rouge.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Erreur",
+          description: "Impossible d'enregistrer la ligne.",
+          variant: "destructive",
+        });
+      }
     } finally {
       setSavingRowId(null);
     }
@@ -1022,6 +1074,19 @@ export default function LivraisonGaz() {
             >
               Changer de semaine
             </button>
+            {!isReadOnly && canCreate && !isSelectedLotClosed && (
+              <>
+                <span className="text-muted-foreground">|</span>
+                <button
+                  type="button"
+                  onClick={() => setImportOpen(true)}
+                  className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground underline"
+                >
+                  <Upload className="h-4 w-4" />
+                  Importer Excel
+                </button>
+              </>
+            )}
           </div>
 
           <div className="space-y-6 w-full min-w-0">
@@ -1186,17 +1251,20 @@ export default function LivraisonGaz() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
                           return (
-                            <tr key={row.id}>
+                            <tr key={row.id} data-server-id={row.serverId ?? undefined}>
                               <td className="text-sm font-medium text-muted-foreground">
                                 {displayAgeByRowId.get(row.id) ?? "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1208,7 +1276,10 @@ export default function LivraisonGaz() {
                               <td className="text-sm font-medium text-muted-foreground">
                                 {getSemFromRow(row) || selectedSemaine || "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "designation")}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.designation}
@@ -1218,7 +1289,10 @@ export default function LivraisonGaz() {
                                   className="min-w-[160px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "supplier")}
+                                title={fieldErrors.fieldError(row.id, "supplier") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.supplier}
@@ -1228,7 +1302,10 @@ export default function LivraisonGaz() {
                                   className="min-w-[100px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "deliveryNoteNumber")}
+                                title={fieldErrors.fieldError(row.id, "deliveryNoteNumber") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.deliveryNoteNumber}
@@ -1238,7 +1315,10 @@ export default function LivraisonGaz() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "numeroBR")}
+                                title={fieldErrors.fieldError(row.id, "numeroBR") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.numeroBR}
@@ -1248,7 +1328,10 @@ export default function LivraisonGaz() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td className="min-w-[128px] text-center">
+                              <td
+                                className={`min-w-[128px] text-center ${fieldErrors.cellClass(row.id, "qte")}`}
+                                title={fieldErrors.fieldError(row.id, "qte") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte)}
@@ -1265,7 +1348,10 @@ export default function LivraisonGaz() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prixPerUnit")}`}
+                                title={fieldErrors.fieldError(row.id, "prixPerUnit") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prixPerUnit)}
@@ -1287,6 +1373,7 @@ export default function LivraisonGaz() {
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
@@ -1303,8 +1390,24 @@ export default function LivraisonGaz() {
                                   </button>
                                 )}
                               </td>
-                              <td className="w-14 max-w-14 shrink-0 !px-1 text-center align-middle">
+                              <td className="w-20 max-w-20 shrink-0 !px-1 text-center align-middle">
                                 <div className="flex gap-0.5 justify-center">
+                                  {row.serverId != null && (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        rowHistory.open({
+                                          entityType: "LIVRAISON_GAZ",
+                                          entityId: row.serverId as number,
+                                          title: [row.date, row.designation].filter(Boolean).join(" — "),
+                                        })
+                                      }
+                                      className="text-muted-foreground hover:text-primary transition-colors p-1 inline-flex justify-center items-center rounded hover:bg-muted"
+                                      title="Historique"
+                                    >
+                                      <History className="w-4 h-4" />
+                                    </button>
+                                  )}
                                   {row.serverId != null && hasFullAccess && (
                                     <button
                                       type="button"
@@ -1379,6 +1482,19 @@ export default function LivraisonGaz() {
           </div>
         </>
       )}
+      {lotFilter.trim() && selectedSemaine && (
+        <LivraisonImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          kind="gaz"
+          farmId={pageFarmId ?? null}
+          lot={lotFilter.trim()}
+          semaine={selectedSemaine}
+          onImported={loadMovements}
+        />
+      )}
+      {deliveryNoteGuard.dialog}
+      {rowHistory.sheet}
     </AppLayout>
   );
 }
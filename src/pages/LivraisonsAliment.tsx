@@ -1,7 +1,10 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Loader2, Building2, Plus, Check, Trash2, Eraser, Calendar, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, Building2, Plus, Check, Trash2, Eraser, History, Calendar, Download, FileSpreadsheet, FileText, Upload } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
+import RejectedRowMarker from "@/components/verification/RejectedRowMarker";
+import LivraisonImportDialog from "@/components/livraisons/LivraisonImportDialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,27 +18,58 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { QuantityInput } from "@/components/ui/QuantityInput";
 import { PriceInput } from "@/components/ui/PriceInput";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useDeliveryNoteDuplicateGuard } from "@/hooks/useDeliveryNoteGuard";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { useHighlightRowFromUrl } from "@/hooks/useHighlightRowFromUrl";
+import { useDraftStash } from "@/hooks/useDraftStash";
+import { useQuerySeededForm } from "@/hooks/useQuerySeededForm";
+import { hasUnsavedGridRows } from "@/lib/draftStash";
+import { useConflictResolver } from "@/hooks/useConflictResolver";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import {
+  useFarmsQuery,
+  useFournisseurGridQuery,
+  useFournisseurPriceHistoryQuery,
+  useLotsWithStatusQuery,
+} from "@/hooks/useApiQueries";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
-  type FarmResponse,
+  ApiConflictError,
   type LivraisonAlimentResponse,
   type LivraisonAlimentRequest,
-  type LotWithStatusResponse,
 } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { queryKeys } from "@/lib/queryKeys";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { sortSemaines, computeAgeByRowId } from "@/utils/semaineAgeUtils";
 import { resolvedQteFromString } from "@/lib/depensesDiversShared";
 import { exportLivraisonsAlimentExcel, exportToPdf } from "@/lib/livraisonsAlimentExport";
 import {
   LIVRAISONS_ALIMENT_TABLE_HEADERS,
   livraisonsAlimentEffectiveMontantForTotal,
+  LIVRAISONS_ALIMENT_CONFLICT_FIELDS,
+  alimentGridPriceLookup,
+  alimentPriceDivergesFromGrid,
 } from "@/lib/livraisonsAlimentShared";
+import { withConflictFieldsFrom } from "@/lib/conflictMerge";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
+import { canEditSavedRow, rowRejection, type RowRejection } from "@/lib/verificationShared";
 
 /**
  * FICHE DE SUIVI DES LIVRAISONS D'ALIMENT
@@ -49,6 +83,8 @@ import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount"
  * Persisted-row delete (trash): Admin/RT only (hasFullAccess). RF may remove unsaved padded rows only.
  * PER-ROW FLOW: All rows are editable. Fill any row and click the check icon to save that row to the database.
  * Saved rows can be updated (if canUpdate) or remain read-only. Other rows stay editable until saved.
+ * PRIX: unsaved rows take the Fournisseurs grid price (supplier × designation, tariff in force on the row date); a typed price
+ * that differs from the grid is flagged, and saved rows without a price can be completed from the grid in bulk.
  */
 
 /** Quick-pick S1-S36; same AGE rule as earlier weeks (Sn -> ages after (n-1)*7). S37+ via champ libre ci-dessous. */
@@ -75,6 +111,10 @@ const LIVRAISONS_ALIMENT_TABLE_COL_COUNT = LIVRAISONS_ALIMENT_TABLE_HEADERS.leng
 interface LivraisonRow {
   id: string;
   serverId?: number;
+  /** Rejected in the À vérifier inbox: editable once more to correct it. */
+  rejection?: RowRejection | null;
+  /** Server version of the saved row (optimistic locking). */
+  version?: number | null;
   age: string; // Stored sequential age from API when present; display uses computeAgeByRowId
   date: string;
   sem: string;
@@ -147,6 +187,63 @@ function sortLots(lotList: string[]): string[] {
   });
 }
 
+/** Grid row of a saved movement. Server dates are kept as-is so AGE order matches persisted data after refresh. */
+function movementToRow(r: LivraisonAlimentResponse): LivraisonRow {
+  return {
+    id: crypto.randomUUID(),
+    serverId: r.id,
+    rejection: rowRejection(r),
+    version: r.version,
+    age: r.age != null ? String(r.age) : "",
+    date: r.date ?? "",
+    sem: r.sem ?? "",
+    designation: r.designation ?? "",
+    supplier: r.supplier ?? "",
+    deliveryNoteNumber: r.deliveryNoteNumber ?? "",
+    numeroBonReception: r.numeroBonReception ?? "",
+    qte: (() => {
+      const s = fromNum(r.qte);
+      if (!String(s).trim()) return "";
+      const n = toOptionalNumber(s);
+      return n != null ? n.toFixed(2) : "";
+    })(),
+    sex: r.sex ?? "",
+    prixPerUnit: fromNum(r.prixPerUnit),
+    montant: fromNum(r.montant),
+    maleQty: fromNum(r.maleQty),
+    femaleQty: fromNum(r.femaleQty),
+    movementType: r.movementType ?? "DELIVERY",
+    notes: r.notes ?? "",
+  };
+}
+
+/** Update request carrying the saved row unchanged (the grid copy may hold unsaved edits). */
+function movementToRequest(r: LivraisonAlimentResponse): LivraisonAlimentRequest {
+  return {
+    farmId: r.farmId,
+    lot: r.lot ?? null,
+    date: r.date,
+    age: r.age ?? null,
+    sem: r.sem ?? null,
+    designation: r.designation ?? null,
+    supplier: r.supplier ?? null,
+    deliveryNoteNumber: r.deliveryNoteNumber ?? null,
+    numeroBonReception: r.numeroBonReception ?? null,
+    qte: r.qte ?? null,
+    sex: r.sex ?? null,
+    maleQty: r.maleQty ?? null,
+    femaleQty: r.femaleQty ?? null,
+    prixPerUnit: r.prixPerUnit ?? null,
+    montant: r.montant ?? null,
+    kgPerBag: r.kgPerBag ?? null,
+    kgConsumed: r.kgConsumed ?? null,
+    stockBeforeKg: r.stockBeforeKg ?? null,
+    movementType: r.movementType ?? "DELIVERY",
+    notes: r.notes ?? null,
+    version: r.version ?? null,
+  };
+}
+
 export default function LivraisonsAliment() {
   const [searchParams, setSearchParams] = useSearchParams();
   const farmIdParam = searchParams.get("farmId");
@@ -161,8 +258,6 @@ export default function LivraisonsAliment() {
 
   const {
     user,
-    isAdministrateur,
-    isResponsableTechnique,
     canAccessAllFarms,
     isReadOnly,
     canCreate,
@@ -175,61 +270,31 @@ export default function LivraisonsAliment() {
   const pageFarmId = isValidFarmId ? selectedFarmId : (canAccessAllFarms ? undefined : authSelectedFarmId ?? undefined);
   const [newSemaineInput, setNewSemaineInput] = useState("");
 
-  const [farms, setFarms] = useState<FarmResponse[]>([]);
-  const [farmsLoading, setFarmsLoading] = useState(showFarmSelector);
+  /** Farms for the selector, and for the export farm name once a farm is chosen. */
+  const farmsQuery = useFarmsQuery(showFarmSelector || (canAccessAllFarms && pageFarmId != null));
+  const farms = useMemo(() => farmsQuery.data ?? [], [farmsQuery.data]);
+  const farmsLoading = farmsQuery.isLoading;
   const [rows, setRows] = useState<LivraisonRow[]>([]);
   const [lotFilter, setLotFilter] = useState(lotParam);
-  const [lots, setLots] = useState<string[]>([]);
-  const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
-  const [lotsLoading, setLotsLoading] = useState(false);
-  const [loading, setLoading] = useState(false);
+  const lotsQuery = useLotsWithStatusQuery(showFarmSelector ? null : pageFarmId);
+  const lotsWithStatus = useMemo(() => lotsQuery.data ?? [], [lotsQuery.data]);
+  const lots = useMemo(() => lotsWithStatus.map((x) => x.lot), [lotsWithStatus]);
+  const lotsLoading = lotsQuery.isLoading;
   const [savingRowId, setSavingRowId] = useState<string | null>(null);
   /** While focused, QTE shows raw editable string; blurred shows grouped + .00 */
   const [qteFocusRowId, setQteFocusRowId] = useState<string | null>(null);
   const [previousLotLastDate, setPreviousLotLastDate] = useState<string | null>(null);
   const { toast } = useToast();
+  const deliveryNoteGuard = useDeliveryNoteDuplicateGuard();
+  const rowHistory = useRowHistory();
+  const conflicts = useConflictResolver<LivraisonAlimentRequest>();
+  const fieldErrors = useRowFieldErrors();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
   const today = new Date().toISOString().split("T")[0];
 
   const hasSavedData = rows.some((r) => r.serverId != null);
   const lotReadOnly = hasSavedData;
 
-  useEffect(() => {
-    if (!showFarmSelector) return;
-    setFarmsLoading(true);
-    api.farms
-      .list()
-      .then((list) => setFarms(list))
-      .catch(() => setFarms([]))
-      .finally(() => setFarmsLoading(false));
-  }, [showFarmSelector]);
-
-  const lastExportFarmIdRef = React.useRef<number | null>(null);
-  /** Load farms when canAccessAllFarms + pageFarmId (for export farm name when not on farm selector). */
-  useEffect(() => {
-    if (!canAccessAllFarms || !pageFarmId || showFarmSelector) return;
-    const hasSelectedFarm = farms.some((f) => f.id === pageFarmId);
-    if (hasSelectedFarm) return;
-    if (lastExportFarmIdRef.current === pageFarmId) return;
-    lastExportFarmIdRef.current = pageFarmId;
-    api.farms
-      .list()
-      .then((list) => setFarms(list))
-      .catch(() => { });
-  }, [canAccessAllFarms, pageFarmId, showFarmSelector, farms]);
-
-  useEffect(() => {
-    if (showFarmSelector || !pageFarmId) return;
-    setLotsLoading(true);
-    api.farms
-      .lotsWithStatus(pageFarmId)
-      .then((data) => {
-        setLotsWithStatus(data ?? []);
-        setLots((data ?? []).map((x) => x.lot));
-      })
-      .catch(() => { setLotsWithStatus([]); setLots([]); })
-      .finally(() => setLotsLoading(false));
-  }, [showFarmSelector, pageFarmId]);
-
   const selectFarm = useCallback(
     (id: number) => setSearchParams({ farmId: String(id) }),
     [setSearchParams]
@@ -293,63 +358,66 @@ export default function LivraisonsAliment() {
     [rows, previousLotLastDate]
   );
 
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     lotFilter.trim() &&
       isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotFilter.trim()), lotAccessCtx)
   );
 
-  const loadMovements = useCallback(async () => {
-    if (showFarmSelector || !lotFilter.trim() || isSelectedLotClosed) return;
-    setLoading(true);
-    try {
-      const list = await api.livraisonsAliment.list({
+  /** Stock, consommation and prix de revient of the lot are derived from the livraisons (queryInvalidation.ts). */
+  const invalidateLotSummaries = () => {
+    void invalidateAfterWrite("livraisonsAliment", { farmId: pageFarmId, lot: lotFilter });
+  };
+
+  const [importOpen, setImportOpen] = useState(false);
+
+  const fournisseurGridQuery = useFournisseurGridQuery(pageFarmId, !showFarmSelector);
+  const priceHistoryQuery = useFournisseurPriceHistoryQuery(pageFarmId, !showFarmSelector);
+  const gridPriceOf = useMemo(
+    () => alimentGridPriceLookup(fournisseurGridQuery.data, priceHistoryQuery.data),
+    [fournisseurGridQuery.data, priceHistoryQuery.data]
+  );
+  const [applyGridPricesOpen, setApplyGridPricesOpen] = useState(false);
+  const [applyingGridPrices, setApplyingGridPrices] = useState(false);
+
+  const movementsEnabled = !showFarmSelector && Boolean(lotFilter.trim()) && !isSelectedLotClosed;
+  const movementsQuery = useQuery({
+    queryKey: queryKeys.livraisonsAliment.list({ farmId: pageFarmId, lot: lotFilter }),
+    queryFn: () =>
+      api.livraisonsAliment.list({
         farmId: pageFarmId ?? undefined,
         lot: lotFilter.trim() || undefined,
-      });
-      const mapped: LivraisonRow[] = list.map((r: LivraisonAlimentResponse) => ({
-        id: crypto.randomUUID(),
-        serverId: r.id,
-        age: r.age != null ? String(r.age) : "",
-        date: r.date ?? "",
-        sem: r.sem ?? "",
-        designation: r.designation ?? "",
-        supplier: r.supplier ?? "",
-        deliveryNoteNumber: r.deliveryNoteNumber ?? "",
-        numeroBonReception: r.numeroBonReception ?? "",
-        qte: (() => {
-          const s = fromNum(r.qte);
-          if (!String(s).trim()) return "";
-          const n = toOptionalNumber(s);
-          return n != null ? n.toFixed(2) : "";
-        })(),
-        sex: r.sex ?? "",
-        prixPerUnit: fromNum(r.prixPerUnit),
-        montant: fromNum(r.montant),
-        maleQty: fromNum(r.maleQty),
-        femaleQty: fromNum(r.femaleQty),
-        movementType: r.movementType ?? "DELIVERY",
-        notes: r.notes ?? "",
-      }));
-      // Keep server dates as-is so AGE order matches persisted data after refresh (no client-side date rewrite).
-      setRows(mapped);
-    } catch {
-      setRows([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [showFarmSelector, pageFarmId, lotFilter, isSelectedLotClosed]);
+      }),
+    enabled: movementsEnabled,
+  });
+  const loading = movementsQuery.isPending && movementsQuery.fetchStatus !== "idle";
+  const refetchMovements = movementsQuery.refetch;
+  /** The grid is a local copy of the movements: a refetch only replaces it while nothing was typed. */
+  const movementsForm = useQuerySeededForm(
+    movementsQuery.data,
+    (list) => setRows((list ?? []).map(movementToRow)),
+    [pageFarmId, lotFilter.trim()]
+  );
+  const markMovementsClean = movementsForm.markClean;
 
-  useEffect(() => {
-    loadMovements();
-  }, [loadMovements]);
+  /** Reload the grid from the server, dropping local edits (after a save, delete or conflict). */
+  const loadMovements = useCallback(async () => {
+    if (!movementsEnabled) return;
+    await refetchMovements();
+    markMovementsClean();
+  }, [movementsEnabled, refetchMovements, markMovementsClean]);
+
+  useHighlightRowFromUrl(!loading);
+  useDraftStash({
+    scope: "livraisonsAliment",
+    draft: rows,
+    isDirty: (draftRows) => hasUnsavedGridRows(draftRows, (r) => emptyRow(r.sem, r.date)),
+    ready: !loading,
+    restore: (draftRows) => {
+      movementsForm.markDirty();
+      setRows(draftRows);
+    },
+  });
 
   /** Pad to MIN_TABLE_ROWS for the selected semaine (same timing as Livraisons Électricité). */
   useEffect(() => {
@@ -425,6 +493,7 @@ export default function LivraisonsAliment() {
     const nextDate =
       lastRow?.date?.trim() ? addOneDay(lastRow.date) : getStartDateForSemaine(selectedSemaine);
     const newRow = { ...emptyRow(selectedSemaine), date: nextDate };
+    movementsForm.markDirty();
     setRows((prev) => [...prev, newRow]);
   };
 
@@ -436,10 +505,14 @@ export default function LivraisonsAliment() {
     if (row?.serverId != null) {
       api.livraisonsAliment
         .delete(row.serverId)
-        .then(() => loadMovements())
+        .then(() => {
+          invalidateLotSummaries();
+          loadMovements();
+        })
         .catch(() => { /* API error — logged in backend only */ });
       return;
     }
+    movementsForm.markDirty();
     setRows((prev) => prev.filter((r) => r.id !== id));
   };
 
@@ -454,6 +527,7 @@ export default function LivraisonsAliment() {
       .delete(row.serverId)
       .then(() => {
         toast({ title: "Ligne supprimée", description: `L'enregistrement a été supprimé de la base de données.` });
+        invalidateLotSummaries();
         loadMovements();
       })
       .catch(() => {
@@ -462,12 +536,24 @@ export default function LivraisonsAliment() {
   };
 
   const updateRow = (id: string, field: keyof LivraisonRow, value: string) => {
+    fieldErrors.clearField(id, field);
+    movementsForm.markDirty();
     setRows((prev) =>
       prev.map((r) => {
         if (r.id !== id) return r;
         const updated = { ...r, [field]: value };
+        // Unsaved row: PRIX follows the grid until the user types another price
+        let priceFromGrid = false;
+        if ((field === "supplier" || field === "designation" || field === "date") && r.serverId == null) {
+          const gridPrice = gridPriceOf(updated.supplier, updated.designation, updated.date);
+          const typed = toOptionalNumber(r.prixPerUnit);
+          if (gridPrice != null && (typed == null || typed === gridPriceOf(r.supplier, r.designation, r.date))) {
+            updated.prixPerUnit = String(gridPrice);
+            priceFromGrid = true;
+          }
+        }
         // QTE is user-entered aliment quantity only; montant = qte * prix
-        if (field === "qte" || field === "prixPerUnit") {
+        if (field === "qte" || field === "prixPerUnit" || priceFromGrid) {
           const qte = resolvedQteFromString(updated.qte);
           const prix = toNum(updated.prixPerUnit);
           if (qte != null && prix >= 0) {
@@ -570,9 +656,42 @@ export default function LivraisonsAliment() {
       montant: montant != null && Number.isFinite(montant) ? montant : null,
       movementType: r.movementType || "DELIVERY",
       notes: r.notes.trim() || null,
+      version: r.version ?? null,
     };
   };
 
+  /** 409 on update: merge with the server's current row, then update again on the server version. */
+  const resolveSaveConflict = async (row: LivraisonRow, serverId: number, req: LivraisonAlimentRequest, e: ApiConflictError) => {
+    const theirs =
+      (e.current as LivraisonAlimentResponse | null) ??
+      (await api.livraisonsAliment.get(serverId).catch(() => null));
+    if (!theirs) {
+      toast({ title: "Conflit", description: e.message, variant: "destructive" });
+      loadMovements();
+      return;
+    }
+    const merged = await conflicts.resolve({
+      title: `Conflit — livraison du ${row.date}`,
+      fields: LIVRAISONS_ALIMENT_CONFLICT_FIELDS,
+      mine: req,
+      theirs: withConflictFieldsFrom(LIVRAISONS_ALIMENT_CONFLICT_FIELDS, req, theirs),
+    });
+    if (!merged) {
+      toast({ title: "Version serveur conservée", description: "Vos modifications sur cette ligne ont été abandonnées." });
+      loadMovements();
+      return;
+    }
+    try {
+      await api.livraisonsAliment.update(serverId, { ...merged, version: theirs.version });
+      toast({ title: "Ligne mise à jour", description: `Le ${row.date} a été mis à jour (fusion).` });
+      window.dispatchEvent(new CustomEvent('priceAlertChanged'));
+      invalidateLotSummaries();
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer la ligne.", variant: "destructive" });
+    }
+    loadMovements();
+  };
+
   /** Save a single row: create if unsaved, update if already saved. */
   const saveRow = async (row: LivraisonRow) => {
     const canSaveNew = row.serverId == null && canCreate;
@@ -615,26 +734,44 @@ export default function LivraisonsAliment() {
       return;
     }
 
+    if (
+      !(await deliveryNoteGuard.confirm({
+        source: "livraisonsAliment",
+        farmId: pageFarmId ?? null,
+        lot: lotFilter.trim(),
+        row,
+        rows,
+        notesOf: (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBonReception }),
+      }))
+    )
+      return;
+
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
+    const computedAge = ageByRowId.get(row.id) ?? undefined;
+    const req = rowToRequest(row, computedAge);
     try {
-      const computedAge = ageByRowId.get(row.id) ?? undefined;
-      const req = rowToRequest(row, computedAge);
       if (row.serverId != null) {
         await api.livraisonsAliment.update(row.serverId, req);
+        // Corrected after a rejection: back in the À vérifier queue
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, rejection: null } : r)));
         toast({ title: "Ligne mise à jour", description: `Le ${row.date} a été mis à jour.` });
         // Dispatch event to refresh price alert counter immediately
         window.dispatchEvent(new CustomEvent('priceAlertChanged'));
+        invalidateLotSummaries();
       } else {
         const created = await api.livraisonsAliment.create(req);
         toast({ title: "Ligne enregistrée", description: `Le ${row.date} a été enregistré.` });
         // Dispatch event to refresh price alert counter immediately
         window.dispatchEvent(new CustomEvent('priceAlertChanged'));
+        invalidateLotSummaries();
         setRows((prev) =>
           prev.map((r) =>
             r.id === row.id
               ? {
                 ...r,
                 serverId: created.id,
+                version: created.version,
                 age: created.age != null ? String(created.age) : r.age,
                 sem: created.sem ?? r.sem,
               }
@@ -644,17 +781,85 @@ export default function LivraisonsAliment() {
         return; // Don't reload; we've updated local state with serverId
       }
       loadMovements();
-    } catch {
-      toast({
-        title: "Erreur",
-        description: "Impossible d'enregistrer la ligne.",
-        variant: "destructive",
-      });
+    } catch (e) {
+      if (e instanceof ApiConflictError && row.serverId != null) {
+        await resolveSaveConflict(row, row.serverId, req, e);
+      } else if (fieldErrors.capture(row.id, e)) {
+        toast({
+          title: "Valeurs invalides",
+          description: "Corrigez les cellules signalées en rouge.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Erreur",
+          description: "Impossible d'enregistrer la ligne.",
+          variant: "destructive",
+        });
+      }
     } finally {
       setSavingRowId(null);
     }
   };
 
+  /**
+   * Saved rows of the lot without PRIX whose supplier × designation has a grid price, as last loaded from the
+   * server: a row being edited in the grid is priced from its saved values, its unsaved edits are left alone.
+   */
+  const rowsMissingGridPrice = (movementsQuery.data ?? []).filter(
+    (r) =>
+      (r.prixPerUnit ?? 0) <= 0 &&
+      gridPriceOf(r.supplier ?? "", r.designation ?? "", r.date ?? "") != null
+  );
+  const canApplyGridPrices = !isReadOnly && canUpdate && !isSelectedLotClosed && rowsMissingGridPrice.length > 0;
+
+  /** Update each saved row without a price with the grid price; only PRIX and MONTANT (qte × prix) change. */
+  const applyGridPrices = async () => {
+    if (!canApplyGridPrices) return;
+    setApplyingGridPrices(true);
+    let updated = 0;
+    let failed = 0;
+    for (const saved of rowsMissingGridPrice) {
+      const gridPrice = gridPriceOf(saved.supplier ?? "", saved.designation ?? "", saved.date ?? "");
+      if (gridPrice == null) continue;
+      const req: LivraisonAlimentRequest = {
+        ...movementToRequest(saved),
+        prixPerUnit: gridPrice,
+        montant: saved.qte != null ? saved.qte * gridPrice : null,
+      };
+      try {
+        const res = await api.livraisonsAliment.update(saved.id, req);
+        updated++;
+        // Unsaved edits of the grid row stay: only the written fields and the new version are copied
+        setRows((prev) =>
+          prev.map((r) =>
+            r.serverId === saved.id
+              ? { ...r, prixPerUnit: fromNum(res.prixPerUnit), montant: fromNum(res.montant), version: res.version }
+              : r
+          )
+        );
+      } catch {
+        failed++;
+      }
+    }
+    setApplyingGridPrices(false);
+    setApplyGridPricesOpen(false);
+    if (updated > 0) {
+      window.dispatchEvent(new CustomEvent('priceAlertChanged'));
+      invalidateLotSummaries();
+    }
+    toast({
+      title: "Prix grille appliqués",
+      description:
+        failed > 0
+          ? `${updated} ligne(s) mise(s) à jour, ${failed} en échec (modifiée(s) entre-temps ou refusée(s)).`
+          : `${updated} ligne(s) mise(s) à jour.`,
+      variant: failed > 0 ? "destructive" : undefined,
+    });
+    // Not loadMovements: the grid may hold unsaved rows, the refetch only reseeds it while nothing was typed
+    void refetchMovements();
+  };
+
   /** Rows for the selected semaine only; sorted by date (day 1, day 2, ...). */
   const currentRows = selectedSemaine
     ? [...rows.filter((r) => getSemFromRow(r) === selectedSemaine)].sort((a, b) => {
@@ -966,6 +1171,19 @@ export default function LivraisonsAliment() {
             >
               Changer de semaine
             </button>
+            {!isReadOnly && canCreate && !isSelectedLotClosed && (
+              <>
+                <span className="text-muted-foreground">|</span>
+                <button
+                  type="button"
+                  onClick={() => setImportOpen(true)}
+                  className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground underline"
+                >
+                  <Upload className="h-4 w-4" />
+                  Importer Excel
+                </button>
+              </>
+            )}
           </div>
 
           <div className="space-y-6 w-full min-w-0">
@@ -981,15 +1199,27 @@ export default function LivraisonsAliment() {
                     </p>
                   )}
                 </div>
-                {canCreate && (
+                {(canCreate || canApplyGridPrices) && (
                   <div className="flex items-center gap-2">
-                    <button
-                      type="button"
-                      onClick={addRow}
-                      className="flex items-center gap-1.5 px-3 py-1.5 bg-farm-green text-farm-green-foreground rounded-md text-sm font-medium hover:opacity-90 transition-opacity"
-                    >
-                      <Plus className="w-4 h-4" /> Ligne
-                    </button>
+                    {canApplyGridPrices && (
+                      <button
+                        type="button"
+                        onClick={() => setApplyGridPricesOpen(true)}
+                        className="px-3 py-1.5 border border-border rounded-md text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                        title="Lignes enregistrées sans prix dont le fournisseur et la désignation figurent dans la grille Fournisseurs"
+                      >
+                        Appliquer les prix grille ({rowsMissingGridPrice.length})
+                      </button>
+                    )}
+                    {canCreate && (
+                      <button
+                        type="button"
+                        onClick={addRow}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-farm-green text-farm-green-foreground rounded-md text-sm font-medium hover:opacity-90 transition-opacity"
+                      >
+                        <Plus className="w-4 h-4" /> Ligne
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -1030,17 +1260,25 @@ export default function LivraisonsAliment() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
+                          const gridPrice = gridPriceOf(row.supplier, row.designation, row.date);
+                          const priceDiverges = alimentPriceDivergesFromGrid(toOptionalNumber(row.prixPerUnit), gridPrice);
                           return (
-                            <tr key={row.id}>
-                              <td className="text-sm font-medium text-muted-foreground">
+                            <tr key={row.id} data-server-id={row.serverId ?? undefined}>
+                              <td
+                                className={`text-sm font-medium text-muted-foreground ${fieldErrors.cellClass(row.id, "age")}`}
+                                title={fieldErrors.fieldError(row.id, "age") ?? undefined}
+                              >
                                 {displayAgeByRowId.get(row.id) ?? "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1048,30 +1286,44 @@ export default function LivraisonsAliment() {
                                   disabled={rowReadOnly}
                                 />
                               </td>
-                              <td className="text-sm font-medium text-muted-foreground">
+                              <td
+                                className={`text-sm font-medium text-muted-foreground ${fieldErrors.cellClass(row.id, "sem")}`}
+                                title={fieldErrors.fieldError(row.id, "sem") ?? undefined}
+                              >
                                 {getSemFromRow(row) || selectedSemaine || "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "designation")}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.designation}
                                   onChange={(e) => updateRow(row.id, "designation", e.target.value)}
+                                  list="aliment-grid-designations"
                                   placeholder="—"
                                   disabled={rowReadOnly}
                                   className="min-w-[160px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "supplier")}
+                                title={fieldErrors.fieldError(row.id, "supplier") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.supplier}
                                   onChange={(e) => updateRow(row.id, "supplier", e.target.value)}
+                                  list="aliment-grid-suppliers"
                                   placeholder="—"
                                   disabled={rowReadOnly}
                                   className="min-w-[100px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "deliveryNoteNumber")}
+                                title={fieldErrors.fieldError(row.id, "deliveryNoteNumber") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.deliveryNoteNumber}
@@ -1081,7 +1333,10 @@ export default function LivraisonsAliment() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "numeroBonReception")}
+                                title={fieldErrors.fieldError(row.id, "numeroBonReception") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.numeroBonReception}
@@ -1091,7 +1346,10 @@ export default function LivraisonsAliment() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td className="min-w-[128px] text-center">
+                              <td
+                                className={`min-w-[128px] text-center ${fieldErrors.cellClass(row.id, "qte")}`}
+                                title={fieldErrors.fieldError(row.id, "qte") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte)}
@@ -1108,7 +1366,10 @@ export default function LivraisonsAliment() {
                                   />
                                 )}
                               </td>
-                              <td className="min-w-[150px] w-[9.5rem]">
+                              <td
+                                className={`min-w-[150px] w-[9.5rem] ${fieldErrors.cellClass(row.id, "sex", "maleQty", "femaleQty")}`}
+                                title={fieldErrors.fieldError(row.id, "sex", "maleQty", "femaleQty") ?? undefined}
+                              >
                                 <select
                                   value={row.sex}
                                   onChange={(e) => updateRow(row.id, "sex", e.target.value)}
@@ -1121,7 +1382,15 @@ export default function LivraisonsAliment() {
                                   <option value="MALE & FEMELLE">Male & Femelle</option>
                                 </select>
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prixPerUnit")} ${priceDiverges ? "bg-amber-100/70 dark:bg-amber-900/30" : ""}`}
+                                title={
+                                  fieldErrors.fieldError(row.id, "prixPerUnit") ??
+                                  (priceDiverges && gridPrice != null
+                                    ? `Prix grille Fournisseurs : ${formatGroupedNumber(gridPrice, 2)} — le prix saisi est différent`
+                                    : undefined)
+                                }
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prixPerUnit)}
@@ -1135,10 +1404,14 @@ export default function LivraisonsAliment() {
                                   />
                                 )}
                               </td>
-                              <td className="font-semibold text-sm text-center tabular-nums whitespace-nowrap">
+                              <td
+                                className={`font-semibold text-sm text-center tabular-nums whitespace-nowrap ${fieldErrors.cellClass(row.id, "montant")}`}
+                                title={fieldErrors.fieldError(row.id, "montant") ?? undefined}
+                              >
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
@@ -1155,8 +1428,25 @@ export default function LivraisonsAliment() {
                                   </button>
                                 )}
                               </td>
-                              <td className="w-14 max-w-14 shrink-0 !px-1 text-center align-middle">
+                              <td className="w-20 max-w-20 shrink-0 !px-1 text-center align-middle">
                                 <div className="flex gap-0.5 justify-center">
+                                  {row.serverId != null && (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        rowHistory.open({
+                                          entityType: "LIVRAISON_ALIMENT",
+                                          entityId: row.serverId as number,
+                                          title: [row.date, row.designation].filter(Boolean).join(" — "),
+                                          meta: { version: row.version },
+                                        })
+                                      }
+                                      className="text-muted-foreground hover:text-primary transition-colors p-1 inline-flex justify-center items-center rounded hover:bg-muted"
+                                      title="Historique"
+                                    >
+                                      <History className="w-4 h-4" />
+                                    </button>
+                                  )}
                                   {row.serverId != null && hasFullAccess && (
                                     <button
                                       type="button"
@@ -1229,6 +1519,54 @@ export default function LivraisonsAliment() {
           </div>
         </>
       )}
+      {conflicts.dialog}
+      {lotFilter.trim() && selectedSemaine && (
+        <LivraisonImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          kind="aliment"
+          farmId={pageFarmId ?? null}
+          lot={lotFilter.trim()}
+          semaine={selectedSemaine}
+          onImported={loadMovements}
+        />
+      )}
+      <datalist id="aliment-grid-designations">
+        {(fournisseurGridQuery.data?.designations ?? []).map((d) => (
+          <option key={d} value={d} />
+        ))}
+      </datalist>
+      <datalist id="aliment-grid-suppliers">
+        {(fournisseurGridQuery.data?.fournisseurs ?? []).map((f) => (
+          <option key={f.id} value={f.name} />
+        ))}
+      </datalist>
+      <AlertDialog open={applyGridPricesOpen} onOpenChange={(open) => !applyingGridPrices && setApplyGridPricesOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Appliquer les prix de la grille ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {rowsMissingGridPrice.length} ligne(s) enregistrée(s) sans prix sur le lot {lotFilter.trim()} recevront le prix
+              de la grille Fournisseurs (fournisseur × désignation) ; le montant sera recalculé (qté × prix).
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={applyingGridPrices}>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={applyingGridPrices}
+              onClick={(e) => {
+                e.preventDefault();
+                void applyGridPrices();
+              }}
+            >
+              {applyingGridPrices && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Appliquer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      {deliveryNoteGuard.dialog}
+      {rowHistory.sheet}
     </AppLayout>
   );
 }
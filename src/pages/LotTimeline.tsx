@@ -0,0 +1,362 @@
+/**
+ * Page "Chronologie du lot" — /lots/:lot/timeline?farmId=8
+ * Mise en place → vaccinations → reporting journalier → semaines de suivi → sorties → vide sanitaire,
+ * in one chronological feed (lotTimeline.ts), filterable by type and bâtiment.
+ * Used for the end-of-lot review; RT / Admin can close the lot from here.
+ */
+
+import { useMemo, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CalendarDays,
+  ClipboardList,
+  Loader2,
+  Lock,
+  SprayCan,
+  Syringe,
+  Truck,
+  Warehouse,
+  type LucideIcon,
+} from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useLotsWithStatusQuery } from "@/hooks/useApiQueries";
+import { api } from "@/lib/api";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess, usePermission } from "@/hooks/usePermission";
+import {
+  buildLotTimeline,
+  loadLotTimelineSources,
+  LOT_TIMELINE_EVENT_TYPES,
+  LOT_TIMELINE_TYPE_LABELS,
+  type LotTimelineEventType,
+} from "@/lib/lotTimeline";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+
+const TYPE_ICONS: Record<LotTimelineEventType, LucideIcon> = {
+  placement: Warehouse,
+  vaccination: Syringe,
+  reporting: ClipboardList,
+  suiviHebdo: CalendarDays,
+  sortie: Truck,
+  videSanitaire: SprayCan,
+};
+
+const TYPE_COLORS: Record<LotTimelineEventType, string> = {
+  placement: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/50 dark:text-emerald-300",
+  vaccination: "bg-violet-100 text-violet-700 dark:bg-violet-950/50 dark:text-violet-300",
+  reporting: "bg-sky-100 text-sky-700 dark:bg-sky-950/50 dark:text-sky-300",
+  suiviHebdo: "bg-blue-100 text-blue-700 dark:bg-blue-950/50 dark:text-blue-300",
+  sortie: "bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300",
+  videSanitaire: "bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
+};
+
+/** Display yyyy-mm-dd as dd/mm/yyyy. */
+function formatDay(iso: string): string {
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? `${m[3]}/${m[2]}/${m[1]}` : iso;
+}
+
+export default function LotTimeline() {
+  const { lot: lotParam = "" } = useParams<{ lot: string }>();
+  const lot = lotParam.trim();
+  const [searchParams] = useSearchParams();
+  const farmIdParam = searchParams.get("farmId");
+  const parsedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
+  const { selectedFarmId: authSelectedFarmId } = useAuth();
+  const farmId = parsedFarmId != null && !Number.isNaN(parsedFarmId) ? parsedFarmId : authSelectedFarmId;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [hiddenTypes, setHiddenTypes] = useState<Set<LotTimelineEventType>>(new Set());
+  const [batimentFilter, setBatimentFilter] = useState<string>("");
+  const [confirmCloseOpen, setConfirmCloseOpen] = useState(false);
+  const [closing, setClosing] = useState(false);
+
+  const lotAccessCtx = useClosedLotAccess();
+  const lotsQuery = useLotsWithStatusQuery(farmId);
+  const lotStatus = lotsQuery.data?.find((l) => l.lot === lot);
+  const isBlocked = isClosedLotBlockedForSession(lotStatus, lotAccessCtx);
+  const canCloseLots = usePermission("lotsFermes", "update", farmId);
+  const canCloseLot = canCloseLots && lotStatus != null && !lotStatus.closed;
+
+  const timelineQuery = useQuery({
+    queryKey: queryKeys.lotTimeline.get({ farmId, lot }),
+    queryFn: async () => {
+      const { sources, errors } = await loadLotTimelineSources(farmId as number, lot);
+      return { events: buildLotTimeline(sources, farmId as number, lot), errors };
+    },
+    enabled: farmId != null && Boolean(lot) && !isBlocked,
+  });
+  const events = useMemo(() => timelineQuery.data?.events ?? [], [timelineQuery.data]);
+  const sourceErrors = timelineQuery.data?.errors ?? [];
+  /** The end-of-lot review needs every source: closing is only offered once the whole timeline has loaded. */
+  const timelineComplete = timelineQuery.isSuccess && sourceErrors.length === 0;
+
+  const batiments = useMemo(
+    () =>
+      [...new Set(events.map((e) => e.batiment).filter((b): b is string => Boolean(b)))].sort((a, b) =>
+        a.localeCompare(b, undefined, { numeric: true })
+      ),
+    [events]
+  );
+  const countsByType = useMemo(() => {
+    const counts = Object.fromEntries(LOT_TIMELINE_EVENT_TYPES.map((t) => [t, 0])) as Record<LotTimelineEventType, number>;
+    for (const e of events) counts[e.type]++;
+    return counts;
+  }, [events]);
+
+  // Lot-wide events (sorties, vaccinations, vide sanitaire) stay visible when filtering on a bâtiment
+  const visibleEvents = useMemo(
+    () =>
+      events.filter(
+        (e) => !hiddenTypes.has(e.type) && (!batimentFilter || e.batiment == null || e.batiment === batimentFilter)
+      ),
+    [events, hiddenTypes, batimentFilter]
+  );
+  const eventsByDay = useMemo(() => {
+    const groups: { date: string; events: typeof visibleEvents }[] = [];
+    for (const e of visibleEvents) {
+      const last = groups[groups.length - 1];
+      if (last?.date === e.date) last.events.push(e);
+      else groups.push({ date: e.date, events: [e] });
+    }
+    return groups;
+  }, [visibleEvents]);
+
+  const toggleType = (type: LotTimelineEventType) => {
+    setHiddenTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  const handleCloseLot = async () => {
+    if (farmId == null || !timelineComplete) return;
+    setClosing(true);
+    try {
+      await api.farms.closeLot(farmId, lot);
+      toast({ title: "Lot fermé", description: `Le lot ${lot} est maintenant fermé.` });
+      await queryClient.invalidateQueries({ queryKey: queryKeys.farms.lotsWithStatus(farmId) });
+    } catch {
+      toast({ title: "Erreur", description: "Impossible de fermer le lot.", variant: "destructive" });
+    } finally {
+      setClosing(false);
+      setConfirmCloseOpen(false);
+    }
+  };
+
+  const backUrl = farmId != null ? `/infos-setup?farmId=${farmId}&lot=${encodeURIComponent(lot)}` : "/infos-setup";
+  const firstDate = events[0]?.date;
+  const lastDate = events[events.length - 1]?.date;
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div className="flex flex-col gap-3">
+            <Link
+              to={backUrl}
+              className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors w-fit"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Retour aux données mises en place
+            </Link>
+            <h1 className="text-2xl font-display font-bold text-foreground">Chronologie du lot {lot}</h1>
+            <p className="text-sm text-muted-foreground">
+              {firstDate && lastDate
+                ? `Du ${formatDay(firstDate)} au ${formatDay(lastDate)} — ${events.length} événement(s)`
+                : "Mise en place, vaccinations, reporting, suivi hebdomadaire, sorties et vide sanitaire"}
+              {lotStatus?.closed && " — lot fermé"}
+            </p>
+          </div>
+          {canCloseLot && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => setConfirmCloseOpen(true)}
+              disabled={closing || !timelineComplete}
+              title={timelineComplete ? undefined : "La chronologie doit être chargée en entier avant de fermer le lot."}
+            >
+              {closing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+              Fermer le lot
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {farmId == null || !lot ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <p>Paramètres manquants ou invalides (farmId, lot).</p>
+        </div>
+      ) : isBlocked ? (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 p-4">
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            Ce lot est fermé. Les données ne sont pas accessibles.
+          </p>
+        </div>
+      ) : timelineQuery.isPending ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          <span>Chargement de la chronologie…</span>
+        </div>
+      ) : timelineQuery.isError ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/40 p-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">Impossible de charger la chronologie du lot.</p>
+          <Button variant="outline" size="sm" onClick={() => void timelineQuery.refetch()}>
+            Réessayer
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {sourceErrors.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 p-4 flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-start gap-2 text-sm text-amber-800 dark:text-amber-200">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <p>
+                  Chronologie incomplète — non chargé : {sourceErrors.map((e) => e.label).join(", ")}. La fermeture du
+                  lot est désactivée.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => void timelineQuery.refetch()}
+                disabled={timelineQuery.isFetching}
+              >
+                Réessayer
+              </Button>
+            </div>
+          )}
+          <div className="bg-card rounded-lg border border-border shadow-sm p-4 flex flex-wrap items-center gap-2">
+            {LOT_TIMELINE_EVENT_TYPES.map((type) => {
+              const Icon = TYPE_ICONS[type];
+              const active = !hiddenTypes.has(type);
+              return (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => toggleType(type)}
+                  aria-pressed={active}
+                  className={cn(
+                    "inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+                    active ? TYPE_COLORS[type] + " border-transparent" : "border-border text-muted-foreground opacity-60"
+                  )}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  {LOT_TIMELINE_TYPE_LABELS[type]} ({countsByType[type]})
+                </button>
+              );
+            })}
+            <div className="ml-auto flex items-center gap-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="timeline-batiment">
+                Bâtiment
+              </label>
+              <select
+                id="timeline-batiment"
+                value={batimentFilter}
+                onChange={(e) => setBatimentFilter(e.target.value)}
+                className="rounded-md border border-input bg-background px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <option value="">Tous</option>
+                {batiments.map((b) => (
+                  <option key={b} value={b}>
+                    {b}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {eventsByDay.length === 0 ? (
+            <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+              <p>Aucun événement pour ce lot avec les filtres sélectionnés.</p>
+            </div>
+          ) : (
+            <ol className="relative border-l border-border ml-3 space-y-6">
+              {eventsByDay.map((day) => (
+                <li key={day.date} className="ml-6">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                  <h3 className="text-sm font-semibold text-foreground">{formatDay(day.date)}</h3>
+                  <ul className="mt-2 space-y-2">
+                    {day.events.map((e) => {
+                      const Icon = TYPE_ICONS[e.type];
+                      return (
+                        <li
+                          key={e.id}
+                          className="bg-card rounded-lg border border-border shadow-sm px-4 py-3 flex items-start gap-3"
+                        >
+                          <span className={cn("rounded-md p-1.5 shrink-0", TYPE_COLORS[e.type])}>
+                            <Icon className="w-4 h-4" />
+                          </span>
+                          <div className="min-w-0 flex-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="text-sm font-medium text-foreground">{e.title}</span>
+                              {e.batiment && (
+                                <span className="rounded bg-muted px-1.5 py-0.5 text-[11px] font-medium text-muted-foreground">
+                                  {e.batiment}
+                                </span>
+                              )}
+                            </div>
+                            {e.detail && <p className="text-xs text-muted-foreground mt-0.5">{e.detail}</p>}
+                          </div>
+                          {e.link && (
+                            <Link to={e.link} className="text-xs text-primary hover:underline shrink-0">
+                              Ouvrir
+                            </Link>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={confirmCloseOpen} onOpenChange={setConfirmCloseOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Fermer le lot {lot} ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Les responsables de ferme et le back-office n&apos;auront plus accès aux données de ce lot. Vous pourrez le
+              rouvrir depuis les données mises en place.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={closing}>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(ev) => {
+                ev.preventDefault();
+                void handleCloseLot();
+              }}
+              disabled={closing}
+            >
+              Fermer le lot
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Building2, Calendar, Check, Download, Eraser, FileSpreadsheet, FileText, Loader2, Plus, Trash2, UserPlus } from "lucide-react";
+import { ArrowLeft, Building2, Calendar, Check, Download, Eraser, History, FileSpreadsheet, FileText, Loader2, Plus, Trash2, UserPlus } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,16 +17,23 @@ import {
 import AppLayout from "@/components/layout/AppLayout";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
+import { useConflictResolver } from "@/hooks/useConflictResolver";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useDraftStash } from "@/hooks/useDraftStash";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
+  ApiConflictError,
   type FarmResponse,
   type EmployerResponse,
   type MainOeuvreResponse,
   type MainOeuvreRequest,
   type LotWithStatusResponse,
 } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { exportToExcel, exportToPdf } from "@/lib/mainOeuvreExport";
 import {
   formatEmployerNomComplet,
@@ -36,7 +43,9 @@ import {
   mainOeuvreEntryJours,
   mainOeuvreRowMontant,
   mainOeuvreRowTotalJours,
+  mainOeuvreConflictFields,
 } from "@/lib/mainOeuvreShared";
+import { withConflictFieldsFrom } from "@/lib/conflictMerge";
 import { sortSemaines, computeAgeByRowId } from "@/utils/semaineAgeUtils";
 
 /**
@@ -56,6 +65,8 @@ const MIN_TABLE_ROWS = 7;
 interface EmployerEntry {
   id: string;
   serverId?: number;
+  /** Server version of the saved entry (optimistic locking). */
+  version?: number | null;
   employerId: number;
   employerNom: string;
   employerPrenom: string;
@@ -124,7 +135,6 @@ export default function MainOeuvre() {
   const selectedSemaine = trimmedSemaine;
 
   const {
-    user,
     canAccessAllFarms,
     isReadOnly,
     canCreate,
@@ -132,11 +142,9 @@ export default function MainOeuvre() {
     hasFullAccess,
     selectedFarmId: authSelectedFarmId,
     selectedFarmName,
-    isAdministrateur,
-    isResponsableTechnique,
-    isBackofficeEmployer,
+    can,
   } = useAuth();
-  const showMontantColumn = isAdministrateur || isResponsableTechnique || isBackofficeEmployer;
+  const showMontantColumn = can("employes", "read");
   const showFarmSelector = canAccessAllFarms && !isValidFarmId;
   const pageFarmId = isValidFarmId ? selectedFarmId : (canAccessAllFarms ? undefined : authSelectedFarmId ?? undefined);
 
@@ -150,14 +158,7 @@ export default function MainOeuvre() {
   const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
   const [lotsLoading, setLotsLoading] = useState(false);
   const [loading, setLoading] = useState(false);
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     lotParam.trim() &&
       isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotParam.trim()), lotAccessCtx)
@@ -169,6 +170,27 @@ export default function MainOeuvre() {
   const [addingFullDay, setAddingFullDay] = useState(true);
   const [previousLotLastDate, setPreviousLotLastDate] = useState<string | null>(null);
   const { toast } = useToast();
+  const fieldErrors = useRowFieldErrors();
+  const conflicts = useConflictResolver<MainOeuvreRequest>();
+  const rowHistory = useRowHistory();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  useDraftStash({
+    scope: "mainOeuvre",
+    draft: rows,
+    // Employés added but not saved yet, or an observation typed on a day without saved entry
+    isDirty: (draftRows) =>
+      draftRows.some(
+        (r) =>
+          r.entries.some((e) => e.serverId == null) ||
+          (r.observation.trim() !== "" && !r.entries.some((e) => e.serverId != null))
+      ),
+    ready: !loading,
+    restore: setRows,
+  });
+  /** Main d'œuvre feeds the prix de revient of the lot (queryInvalidation.ts). */
+  const invalidateLotCosts = () => {
+    void invalidateAfterWrite("mainOeuvre", { farmId: pageFarmId, lot: lotFilter });
+  };
   const today = new Date().toISOString().split("T")[0];
 
   useEffect(() => {
@@ -296,6 +318,7 @@ export default function MainOeuvre() {
         const entries: EmployerEntry[] = recs.map((r) => ({
           id: crypto.randomUUID(),
           serverId: r.id,
+          version: r.version ?? null,
           employerId: r.employerId ?? 0,
           employerNom: r.employerNom ?? "",
           employerPrenom: r.employerPrenom ?? "",
@@ -417,11 +440,15 @@ export default function MainOeuvre() {
     const savedEntryIds = row.entries.filter((e) => e.serverId != null).map((e) => e.serverId!);
     if (savedEntryIds.length === 0) return; // No saved entries to clear
     Promise.all(savedEntryIds.map((sid) => api.mainOeuvre.delete(sid)))
-      .then(() => loadMovements())
+      .then(() => {
+        invalidateLotCosts();
+        loadMovements();
+      })
       .catch(() => { /* API error — logged in backend only */ });
   };
 
   const updateRow = (id: string, field: "date" | "observation", value: string) => {
+    fieldErrors.clearField(id, field);
     setRows((prev) =>
       prev.map((r) => (r.id !== id ? r : { ...r, [field]: value }))
     );
@@ -522,9 +549,40 @@ export default function MainOeuvre() {
       fullDay: e.fullDay,
       montant,
       observation: r.observation?.trim() || undefined,
+      version: e.version ?? null,
     };
   };
 
+  /** 409 on update of one entry: merge with the server's current record, then update again on the server version. */
+  const resolveEntryConflict = async (row: MainOeuvreRow, req: MainOeuvreRequest, serverId: number, e: ApiConflictError) => {
+    const theirs =
+      (e.current as MainOeuvreResponse | null) ?? (await api.mainOeuvre.get(serverId).catch(() => null));
+    if (!theirs) {
+      toast({ title: "Conflit", description: e.message, variant: "destructive" });
+      return;
+    }
+    const fields = mainOeuvreConflictFields((id) => {
+      const emp = employers.find((x) => x.id === id);
+      return emp ? formatEmployerNomComplet(emp.prenom, emp.nom) : String(id);
+    }, showMontantColumn);
+    const merged = await conflicts.resolve({
+      title: `Conflit — main d'œuvre du ${row.date}`,
+      fields,
+      mine: req,
+      theirs: withConflictFieldsFrom(fields, req, theirs),
+    });
+    if (!merged) {
+      toast({ title: "Version serveur conservée", description: "Vos modifications sur cet employé ont été abandonnées." });
+      return;
+    }
+    try {
+      await api.mainOeuvre.update(serverId, { ...merged, version: theirs.version ?? null });
+      toast({ title: "Ligne mise à jour", description: `Les données du ${row.date} ont été enregistrées (fusion).` });
+    } catch {
+      /* API error — logged in backend only */
+    }
+  };
+
   const saveRow = async (row: MainOeuvreRow) => {
     if (!lotFilter.trim() || !selectedSemaine) {
       toast({
@@ -559,15 +617,24 @@ export default function MainOeuvre() {
       const computedAge = ageByRowId.get(row.id);
       const requests = unsavedEntries.map((e) => entryToRequest(row, e, computedAge));
       setSavingRowId(row.id);
+      fieldErrors.clearRow(row.id);
       try {
         await api.mainOeuvre.createBatch(requests, pageFarmId ?? undefined);
         toast({
           title: "Jour enregistré",
           description: `Le ${row.date} a été enregistré avec ${unsavedEntries.length} employé(s).`,
         });
+        invalidateLotCosts();
         loadMovements();
-      } catch {
-        /* API error — logged in backend only */
+      } catch (e) {
+        if (fieldErrors.capture(row.id, e)) {
+          toast({
+            title: "Valeurs invalides",
+            description: "Corrigez les cellules signalées en rouge.",
+            variant: "destructive",
+          });
+        }
+        /* other API errors — logged in backend only */
       } finally {
         setSavingRowId(null);
       }
@@ -577,16 +644,33 @@ export default function MainOeuvre() {
     if (allPersisted && canUpdate) {
       const computedAge = ageByRowId.get(row.id);
       setSavingRowId(row.id);
+      fieldErrors.clearRow(row.id);
       try {
-        await Promise.all(
-          row.entries.map((e) =>
-            api.mainOeuvre.update(e.serverId!, entryToRequest(row, e, computedAge)),
-          ),
+        const requests = row.entries.map((e) => entryToRequest(row, e, computedAge));
+        const results = await Promise.allSettled(
+          row.entries.map((e, i) => api.mainOeuvre.update(e.serverId!, requests[i])),
         );
-        toast({
-          title: "Ligne mise à jour",
-          description: `Les données du ${row.date} ont été enregistrées.`,
-        });
+        const rejected = results.flatMap((r, i) => (r.status === "rejected" ? [{ i, reason: r.reason as unknown }] : []));
+        if (rejected.length === 0) {
+          toast({
+            title: "Ligne mise à jour",
+            description: `Les données du ${row.date} ont été enregistrées.`,
+          });
+        }
+        // Entries modified meanwhile by someone else: resolve one by one (other errors — logged in backend only)
+        for (const { i, reason } of rejected) {
+          if (reason instanceof ApiConflictError) {
+            await resolveEntryConflict(row, requests[i], row.entries[i].serverId!, reason);
+          }
+        }
+        if (rejected.some(({ reason }) => fieldErrors.capture(row.id, reason))) {
+          toast({
+            title: "Valeurs invalides",
+            description: "Corrigez les cellules signalées en rouge.",
+            variant: "destructive",
+          });
+        }
+        invalidateLotCosts();
         loadMovements();
       } catch {
         /* API error — logged in backend only */
@@ -1020,7 +1104,10 @@ export default function MainOeuvre() {
                               <td className="w-12 min-w-12 max-w-12 shrink-0 px-1 text-center text-sm tabular-nums">
                                 {displayAgeByRowId.get(row.id) ?? "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1032,7 +1119,10 @@ export default function MainOeuvre() {
                               <td className="text-sm">
                                 {getSemFromRow(row) || selectedSemaine || "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "employerId", "fullDay")}
+                                title={fieldErrors.fieldError(row.id, "employerId", "fullDay") ?? undefined}
+                              >
                                 <div className="flex flex-nowrap items-center gap-2 overflow-x-auto min-w-0">
                                   {row.entries.map((entry) => {
                                     const initials = getEmployerInitials(entry.employerPrenom, entry.employerNom);
@@ -1047,6 +1137,23 @@ export default function MainOeuvre() {
                                         <span className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary/20 text-primary text-xs font-semibold">
                                           {initials}
                                         </span>
+                                        {entry.serverId != null && (
+                                          <button
+                                            type="button"
+                                            onClick={() =>
+                                              rowHistory.open({
+                                                entityType: "MAIN_OEUVRE",
+                                                entityId: entry.serverId as number,
+                                                title: [row.date, fullName].filter(Boolean).join(" — "),
+                                                meta: { version: entry.version },
+                                              })
+                                            }
+                                            className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-primary p-0.5"
+                                            title={`Historique — ${fullName}`}
+                                          >
+                                            <History className="w-3.5 h-3.5" />
+                                          </button>
+                                        )}
                                         {canEditThisRow && entry.serverId == null && (
                                           <button
                                             type="button"
@@ -1128,11 +1235,17 @@ export default function MainOeuvre() {
                                 )}
                               </td>
                               {showMontantColumn && (
-                                <td className="text-sm tabular-nums">
+                                <td
+                                  className={`text-sm tabular-nums ${fieldErrors.cellClass(row.id, "montant", "prixPerUnit")}`}
+                                  title={fieldErrors.fieldError(row.id, "montant", "prixPerUnit") ?? undefined}
+                                >
                                   {row.entries.length > 0 ? montantRow.toFixed(2) : "—"}
                                 </td>
                               )}
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "observation")}
+                                title={fieldErrors.fieldError(row.id, "observation") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="text-sm">{row.observation || "—"}</span>
                                 ) : (
@@ -1234,6 +1347,8 @@ export default function MainOeuvre() {
           </div>
         </>
       )}
+      {conflicts.dialog}
+      {rowHistory.sheet}
     </AppLayout>
   );
 }
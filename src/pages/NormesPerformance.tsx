@@ -0,0 +1,546 @@
+/**
+ * Page "Normes de performance" — /normes-performance (Admin / RT).
+ * Norm profiles per souche and sex (breeder curves), used as NORME fallback for every lot whose
+ * Données mises en place declare that souche (performanceNormeProfilesShared.ts).
+ * ADMINISTRATEUR edits, imports (Excel) and deletes profiles; Admin / RT can copy a profile into a farm's normes
+ * through the diff preview (NormeProfileApplyDialog).
+ */
+
+import { useRef, useState } from "react";
+import { BookOpen, FileSpreadsheet, Loader2, Plus, Save, Trash2, Upload, X } from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import NormeProfileApplyDialog from "@/components/suivi-technique/NormeProfileApplyDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { usePermission } from "@/hooks/usePermission";
+import { useFarmsQuery, usePerformanceNormeProfilesQuery } from "@/hooks/useApiQueries";
+import {
+  api,
+  type PerformanceNormeProfileRequest,
+  type PerformanceNormeProfileResponse,
+  type PerformanceNormeProfileWeek,
+} from "@/lib/api";
+import { canonicalSemaine } from "@/lib/semaineCanonical";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { NORME_FIELD, PERFORMANCE_NORM_METRICS, type PerformanceNormMetric } from "@/lib/performanceNormStatus";
+import { findNormeProfile, parseNormeProfileWorkbook, type ParsedNormeProfile } from "@/lib/performanceNormeProfilesShared";
+import { sortSemaines } from "@/utils/semaineAgeUtils";
+
+const SEXES = ["Mâle", "Femelle"] as const;
+
+type DraftWeek = { semaine: string } & Record<PerformanceNormMetric, string>;
+
+interface ProfileDraft {
+  id: number | null;
+  souche: string;
+  sex: string;
+  weeks: DraftWeek[];
+}
+
+function toDraft(profile: PerformanceNormeProfileRequest & { id?: number }): ProfileDraft {
+  return {
+    id: profile.id ?? null,
+    souche: profile.souche,
+    sex: profile.sex,
+    weeks: sortSemaines(profile.weeks.map((w) => canonicalSemaine(w.semaine))).map((semaine) => {
+      const week = profile.weeks.find((w) => canonicalSemaine(w.semaine) === semaine);
+      const row = { semaine } as DraftWeek;
+      for (const m of PERFORMANCE_NORM_METRICS) {
+        const v = week?.[NORME_FIELD[m.key]];
+        row[m.key] = v != null ? String(v) : "";
+      }
+      return row;
+    }),
+  };
+}
+
+function parseOptional(s: string): number | null {
+  const t = s.trim().replace(",", ".");
+  if (t === "") return null;
+  const n = parseFloat(t);
+  return Number.isNaN(n) ? null : n;
+}
+
+function fromDraft(draft: ProfileDraft): PerformanceNormeProfileRequest {
+  return {
+    souche: draft.souche.trim(),
+    sex: draft.sex,
+    weeks: draft.weeks.map((w) => {
+      const week: PerformanceNormeProfileWeek = { semaine: w.semaine };
+      for (const m of PERFORMANCE_NORM_METRICS) week[NORME_FIELD[m.key]] = parseOptional(w[m.key]);
+      return week;
+    }),
+  };
+}
+
+function formatNorme(value: number | null | undefined): string {
+  if (value == null) return "—";
+  return Number.isInteger(value) ? formatGroupedNumber(value, 0) : formatGroupedNumber(value, 3);
+}
+
+const inputClass =
+  "w-full rounded border border-input bg-background px-2 py-1 text-sm text-center tabular-nums focus:outline-none focus:ring-2 focus:ring-ring";
+
+export default function NormesPerformance() {
+  const { isReadOnly, canUpdate } = useAuth();
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const profilesQuery = usePerformanceNormeProfilesQuery();
+  const farmsQuery = useFarmsQuery();
+  const profiles = [...(profilesQuery.data ?? [])].sort(
+    (a, b) => a.souche.localeCompare(b.souche, "fr") || a.sex.localeCompare(b.sex, "fr")
+  );
+  const farms = farmsQuery.data ?? [];
+
+  const canEditProfiles = usePermission("normesPerformance", "update") && !isReadOnly;
+  const canApply = !isReadOnly && canUpdate;
+
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<PerformanceNormeProfileResponse | null>(null);
+  const [applyFarmId, setApplyFarmId] = useState<number | null>(null);
+  const [applyOpen, setApplyOpen] = useState(false);
+
+  const [importSouche, setImportSouche] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState<ParsedNormeProfile[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedProfile = draft?.id != null ? profiles.find((p) => p.id === draft.id) ?? null : null;
+  const effectiveApplyFarmId = applyFarmId ?? farms[0]?.id ?? null;
+
+  const setDraftCell = (index: number, key: PerformanceNormMetric, value: string) => {
+    setDraft((prev) =>
+      prev ? { ...prev, weeks: prev.weeks.map((w, i) => (i === index ? { ...w, [key]: value } : w)) } : prev
+    );
+  };
+
+  const addDraftWeek = () => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const last = prev.weeks[prev.weeks.length - 1]?.semaine.match(/^S(\d+)$/);
+      const semaine = `S${last ? parseInt(last[1], 10) + 1 : 1}`;
+      const row = { semaine } as DraftWeek;
+      for (const m of PERFORMANCE_NORM_METRICS) row[m.key] = "";
+      return { ...prev, weeks: [...prev.weeks, row] };
+    });
+  };
+
+  const removeDraftWeek = (index: number) => {
+    setDraft((prev) => (prev ? { ...prev, weeks: prev.weeks.filter((_, i) => i !== index) } : prev));
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (!draft.souche.trim()) {
+      toast({ title: "Souche manquante", description: "Indiquez la souche du profil.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await api.performanceNormeProfiles.save(fromDraft(draft));
+      void invalidateAfterWrite("performanceNormeProfiles", {});
+      toast({ title: "Enregistré", description: `Profil ${draft.souche.trim()} — ${draft.sex} enregistré.` });
+      if (saved) setDraft(toDraft(saved));
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer le profil.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await api.performanceNormeProfiles.delete(deleteTarget.id);
+      void invalidateAfterWrite("performanceNormeProfiles", {});
+      toast({ title: "Supprimé", description: `Profil ${deleteTarget.souche} — ${deleteTarget.sex} supprimé.` });
+      if (draft?.id === deleteTarget.id) setDraft(null);
+    } catch {
+      toast({ title: "Erreur", description: "Impossible de supprimer le profil.", variant: "destructive" });
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    if (!importSouche.trim()) {
+      toast({ title: "Souche manquante", description: "Indiquez la souche avant d'importer le fichier.", variant: "destructive" });
+      return;
+    }
+    setImporting(true);
+    try {
+      const parsed = await parseNormeProfileWorkbook(await file.arrayBuffer(), importSouche);
+      setImported(parsed);
+      if (parsed.length === 0) {
+        toast({
+          title: "Aucune courbe reconnue",
+          description: "Aucune feuille ne contient une colonne Semaine et au moins une colonne de norme.",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({ title: "Erreur", description: "Fichier Excel illisible.", variant: "destructive" });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleSaveImported = async () => {
+    setSaving(true);
+    try {
+      for (const { souche, sex, weeks } of imported) {
+        await api.performanceNormeProfiles.save({ souche, sex, weeks });
+      }
+      void invalidateAfterWrite("performanceNormeProfiles", {});
+      toast({ title: "Import terminé", description: `${imported.length} profil(s) enregistré(s).` });
+      setImported([]);
+      setImportSouche("");
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer les profils importés.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <h1 className="text-2xl font-display font-bold text-foreground">Normes de performance</h1>
+        <p className="text-sm text-muted-foreground">
+          Courbes de référence par souche et par sexe. Elles servent de NORME pour les lots dont la souche est déclarée
+          dans les données mises en place, lorsque la ferme n'a pas sa propre norme.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {/* Profile list */}
+        <div className="bg-card rounded-lg border border-border shadow-sm">
+          <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+            <h2 className="text-base font-display font-bold text-foreground">Profils</h2>
+            {canEditProfiles && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setDraft({ id: null, souche: "", sex: SEXES[0], weeks: [] })}
+              >
+                <Plus className="w-4 h-4" />
+                Nouveau profil
+              </Button>
+            )}
+          </div>
+          {profilesQuery.isPending ? (
+            <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              <span>Chargement des profils…</span>
+            </div>
+          ) : profiles.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Aucun profil de norme.</p>
+          ) : (
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b border-border bg-muted/30">
+                  <th className="px-4 py-2 text-left font-semibold">Souche</th>
+                  <th className="px-4 py-2 text-left font-semibold">Sexe</th>
+                  <th className="px-4 py-2 text-right font-semibold">Semaines</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {profiles.map((p) => (
+                  <tr
+                    key={p.id}
+                    className={`border-b border-border hover:bg-muted/20 cursor-pointer ${draft?.id === p.id ? "bg-primary/5" : ""}`}
+                    onClick={() => setDraft(toDraft(p))}
+                  >
+                    <td className="px-4 py-2 font-medium">{p.souche}</td>
+                    <td className="px-4 py-2">{p.sex}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">{p.weeks.length}</td>
+                    <td className="px-4 py-2 text-right">
+                      {canEditProfiles && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeleteTarget(p);
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Selected profile: weekly curve */}
+        {draft && (
+          <div className="bg-card rounded-lg border border-border shadow-sm">
+            <div className="flex flex-col gap-3 px-5 py-4 border-b border-border lg:flex-row lg:items-center lg:justify-between">
+              {canEditProfiles && draft.id == null ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={draft.souche}
+                    onChange={(e) => setDraft({ ...draft, souche: e.target.value })}
+                    placeholder="Souche (ex. Hybrid Converter)"
+                    className="rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <select
+                    value={draft.sex}
+                    onChange={(e) => setDraft({ ...draft, sex: e.target.value })}
+                    className="rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    {SEXES.map((s) => (
+                      <option key={s} value={s}>
+                        {s}
+                      </option>
+                    ))}
+                  </select>
+                  {findNormeProfile(profiles, draft.souche, draft.sex) && (
+                    <span className="text-xs text-amber-700 dark:text-amber-400">Remplace le profil existant</span>
+                  )}
+                </div>
+              ) : (
+                <h2 className="text-base font-display font-bold text-foreground">
+                  {draft.souche} — {draft.sex}
+                </h2>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                {canApply && selectedProfile && (
+                  <>
+                    <select
+                      value={effectiveApplyFarmId ?? ""}
+                      onChange={(e) => setApplyFarmId(e.target.value ? Number(e.target.value) : null)}
+                      className="rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                      aria-label="Ferme"
+                    >
+                      {farms.map((f) => (
+                        <option key={f.id} value={f.id}>
+                          {f.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      disabled={effectiveApplyFarmId == null}
+                      onClick={() => setApplyOpen(true)}
+                    >
+                      <BookOpen className="w-4 h-4" />
+                      Appliquer à la ferme
+                    </Button>
+                  </>
+                )}
+                {canEditProfiles && (
+                  <>
+                    <Button variant="outline" size="sm" className="gap-2" onClick={addDraftWeek}>
+                      <Plus className="w-4 h-4" />
+                      Semaine
+                    </Button>
+                    <Button size="sm" className="gap-2" onClick={handleSaveDraft} disabled={saving}>
+                      {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                      Enregistrer
+                    </Button>
+                  </>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[720px] text-sm border-collapse">
+                <thead>
+                  <tr className="border-b border-border bg-amber-50 dark:bg-amber-950/20">
+                    <th className="px-3 py-2 text-left font-semibold w-20">Semaine</th>
+                    {PERFORMANCE_NORM_METRICS.map((m) => (
+                      <th key={m.key} className="px-3 py-2 text-center font-semibold border-l border-border">
+                        {m.label}
+                      </th>
+                    ))}
+                    {canEditProfiles && <th className="w-10" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.weeks.length === 0 ? (
+                    <tr>
+                      <td colSpan={PERFORMANCE_NORM_METRICS.length + 2} className="py-6 text-center text-muted-foreground">
+                        Aucune semaine.
+                      </td>
+                    </tr>
+                  ) : (
+                    draft.weeks.map((w, index) => (
+                      <tr key={w.semaine} className="border-b border-border">
+                        <td className="px-3 py-1.5 font-medium">{w.semaine}</td>
+                        {PERFORMANCE_NORM_METRICS.map((m) => (
+                          <td key={m.key} className="px-2 py-1 border-l border-border text-center tabular-nums">
+                            {canEditProfiles ? (
+                              <input
+                                value={w[m.key]}
+                                onChange={(e) => setDraftCell(index, m.key, e.target.value)}
+                                inputMode="decimal"
+                                className={inputClass}
+                              />
+                            ) : (
+                              formatNorme(parseOptional(w[m.key]))
+                            )}
+                          </td>
+                        ))}
+                        {canEditProfiles && (
+                          <td className="px-1 text-center">
+                            <Button variant="ghost" size="sm" onClick={() => removeDraftWeek(index)}>
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Excel import (breeder format) */}
+        {canEditProfiles && (
+          <div className="bg-card rounded-lg border border-border shadow-sm p-5 space-y-4">
+            <div>
+              <h2 className="text-base font-display font-bold text-foreground flex items-center gap-2">
+                <FileSpreadsheet className="w-4 h-4" />
+                Importer depuis Excel
+              </h2>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Objectifs de performance du sélectionneur : une colonne Semaine (ou Âge en semaines) et les colonnes Poids,
+                Homogénéité, IC, GMQ, Viabilité. Une feuille par sexe (Mâle / Femelle), ou le sexe dans l'en-tête des colonnes.
+                Les poids en kg sont convertis en g.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={importSouche}
+                onChange={(e) => setImportSouche(e.target.value)}
+                placeholder="Souche"
+                className="rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) void handleImportFile(file);
+                }}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled={importing}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Choisir un fichier
+              </Button>
+            </div>
+            {imported.length > 0 && (
+              <div className="space-y-3">
+                <table className="w-full text-sm border-collapse rounded-md border border-border">
+                  <thead>
+                    <tr className="border-b border-border bg-muted/30">
+                      <th className="px-3 py-2 text-left font-semibold">Feuille</th>
+                      <th className="px-3 py-2 text-left font-semibold">Souche</th>
+                      <th className="px-3 py-2 text-left font-semibold">Sexe</th>
+                      <th className="px-3 py-2 text-left font-semibold">Semaines</th>
+                      <th className="px-3 py-2 text-left font-semibold">Indicateurs</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {imported.map((p) => {
+                      const metrics = PERFORMANCE_NORM_METRICS.filter((m) =>
+                        p.weeks.some((w) => w[NORME_FIELD[m.key]] != null)
+                      );
+                      return (
+                        <tr key={`${p.sheetName}|${p.sex}`} className="border-b border-border">
+                          <td className="px-3 py-1.5">{p.sheetName}</td>
+                          <td className="px-3 py-1.5">{p.souche}</td>
+                          <td className="px-3 py-1.5">{p.sex}</td>
+                          <td className="px-3 py-1.5 tabular-nums">
+                            {p.weeks[0]?.semaine} → {p.weeks[p.weeks.length - 1]?.semaine} ({p.weeks.length})
+                          </td>
+                          <td className="px-3 py-1.5 text-xs text-muted-foreground">
+                            {metrics.map((m) => m.label).join(", ")}
+                          </td>
+                          <td className="px-3 py-1.5 text-xs text-amber-700 dark:text-amber-400">
+                            {findNormeProfile(profiles, p.souche, p.sex) ? "Remplace le profil existant" : "Nouveau"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setImported([])} disabled={saving}>
+                    Annuler
+                  </Button>
+                  <Button size="sm" className="gap-2" onClick={handleSaveImported} disabled={saving}>
+                    {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Enregistrer {imported.length} profil(s)
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {selectedProfile && effectiveApplyFarmId != null && (
+        <NormeProfileApplyDialog
+          open={applyOpen}
+          onOpenChange={setApplyOpen}
+          farmId={effectiveApplyFarmId}
+          farmName={farms.find((f) => f.id === effectiveApplyFarmId)?.name}
+          profile={selectedProfile}
+        />
+      )}
+
+      <AlertDialog open={deleteTarget != null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer le profil ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget && `Le profil ${deleteTarget.souche} — ${deleteTarget.sex} ne sera plus utilisé comme norme par défaut. `}
+              Les normes déjà copiées dans les fermes sont conservées.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Supprimer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
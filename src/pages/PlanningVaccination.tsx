@@ -2,11 +2,12 @@
  * Planning de Vaccination — visible and editable only by Responsable Technique and Administrateur.
  * Table: Age, Date, Motif, Vaccin / Traitement, Quantité, Administration, Remarques.
  * Date defaults from Date Mise en Place (InfosSetup) for the selected lot.
+ * A protocol (Protocoles de vaccination, preselected from the lot's souche) can replace the planning after a preview.
  */
 import React, { useState, useEffect, useLayoutEffect, useCallback, useRef, useMemo } from "react";
 import { createPortal } from "react-dom";
 import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Building2, Check, Download, FileSpreadsheet, FileText, Loader2, Plus, Trash2 } from "lucide-react";
+import { ArrowLeft, Building2, Check, ClipboardList, Download, FileSpreadsheet, FileText, Loader2, Plus, Trash2 } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -34,6 +35,7 @@ import {
 import { Input } from "@/components/ui/input";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
@@ -46,9 +48,22 @@ import {
   type VaccinationPlanningNoteRequest,
   type VaccinationPlanningNoteResponse,
 } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { dispatchVaccinationAlertsRefresh } from "@/lib/vaccinationAlertsEvents";
 import { exportToExcel, exportToPdf } from "@/lib/planningVaccinationExport";
+import {
+  addDays,
+  ageToDays,
+  findProtocolForLot,
+  isCouvoirAge,
+  lotDateMiseEnPlace,
+  lotSoucheAndType,
+  planDateForAge,
+} from "@/lib/vaccinationProtocolsShared";
+import ProtocolApplyDialog from "@/components/vaccination/ProtocolApplyDialog";
+import VaccinationAdministrationHistory from "@/components/vaccination/VaccinationAdministrationHistory";
+import { useVaccinationProtocolsQuery } from "@/hooks/useApiQueries";
 
 const DEFAULT_AGES = [
   "Couvoir",
@@ -170,25 +185,6 @@ function mergeNoteContentOptionsFromSaved(
   });
 }
 
-function addDays(isoDate: string, days: number): string {
-  const d = new Date(isoDate + "T12:00:00");
-  d.setDate(d.getDate() + days);
-  return d.toISOString().split("T")[0];
-}
-
-/** Parse "X J" or "X Jours" to days; Couvoir = 0; else null si non reconnu. */
-function ageToDays(age: string): number | null {
-  const t = (age || "").trim();
-  if (!t) return null;
-  if (t.toLowerCase() === "couvoir") return 0;
-  const m = t.match(/^(\d+)\s*J/i);
-  return m ? parseInt(m[1], 10) : null;
-}
-
-function isCouvoirAge(age: string): boolean {
-  return (age || "").trim().toLowerCase() === "couvoir";
-}
-
 /** Partie numérique pour la saisie (âge stocké en « N J »). */
 function ageDaysNumberString(age: string): string {
   const t = (age || "").trim();
@@ -608,9 +604,6 @@ export default function PlanningVaccination() {
   const selectedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
   const isValidFarmId = selectedFarmId != null && !Number.isNaN(selectedFarmId);
   const {
-    user,
-    isAdministrateur,
-    isResponsableTechnique,
     canAccessAllFarms,
     selectedFarmId: authFarmId,
     hasFullAccess,
@@ -631,6 +624,15 @@ export default function PlanningVaccination() {
   /** While a note row ✓ or delete persist is in flight */
   const [savingNoteId, setSavingNoteId] = useState<string | null>(null);
   const [dateMiseEnPlace, setDateMiseEnPlace] = useState<string | null>(null);
+  /** Souche / type d'élevage of the lot (Données mises en place), to preselect the protocol. */
+  const [lotSetup, setLotSetup] = useState<{ souche: string | null; typeElevage: string | null }>({
+    souche: null,
+    typeElevage: null,
+  });
+  const [protocolDialogOpen, setProtocolDialogOpen] = useState(false);
+  const [protocolId, setProtocolId] = useState<number | null>(null);
+  const protocolsQuery = useVaccinationProtocolsQuery(canEditPlanning);
+  const protocols = protocolsQuery.data ?? [];
 
   const [motifs, setMotifs] = useState<string[]>(DEFAULT_MOTIFS);
   const [vaccins, setVaccins] = useState<string[]>(DEFAULT_VACCINS);
@@ -652,14 +654,8 @@ export default function PlanningVaccination() {
 
   const selectedLot = lotParam.trim() || null;
   const { toast } = useToast();
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const fieldErrors = useRowFieldErrors();
+  const lotAccessCtx = useClosedLotAccess();
   const planningLotBlocked = Boolean(
     selectedLot &&
       isClosedLotBlockedForSession(
@@ -699,6 +695,11 @@ export default function PlanningVaccination() {
     [farmName, selectedLot, dateMiseEnPlace, rows, notes]
   );
 
+  const protocolTargets = useMemo(
+    () => (selectedLot && pageFarmId != null ? [{ farmId: pageFarmId, farmName, lot: selectedLot }] : []),
+    [selectedLot, pageFarmId, farmName]
+  );
+
   useEffect(() => {
     if (showFarmSelector) {
       setFarmsLoading(true);
@@ -852,13 +853,16 @@ export default function PlanningVaccination() {
       let setupDate: string | null = null;
       try {
         const list: SetupInfoResponse[] = await api.setupInfo.list(pageFarmId, selectedLot);
+        if (!cancelled) setLotSetup(lotSoucheAndType(list));
         if (list.length && !cancelled) {
-          const dates = list.map((r) => r.dateMiseEnPlace).filter(Boolean);
-          setupDate = dates.length ? dates.sort()[0] : null;
+          setupDate = lotDateMiseEnPlace(list);
           setDateMiseEnPlace(setupDate);
         }
       } catch {
-        if (!cancelled) setDateMiseEnPlace(null);
+        if (!cancelled) {
+          setDateMiseEnPlace(null);
+          setLotSetup({ souche: null, typeElevage: null });
+        }
       }
       if (!cancelled) await loadPlanning(setupDate);
       if (!cancelled) await loadNotes();
@@ -869,18 +873,13 @@ export default function PlanningVaccination() {
   }, [selectedLot, pageFarmId, loadPlanning, loadNotes, lotsWithStatus, lotAccessCtx]);
 
   const updateRow = (id: string, field: keyof VaccinationRow, value: string) => {
+    fieldErrors.clearField(id, field === "date" ? "planDate" : field);
     setRows((prev) =>
       prev.map((r) => (r.id === id ? { ...r, [field]: value } : r))
     );
   };
 
-  const defaultDateForAge = (age: string): string => {
-    if (!dateMiseEnPlace) return "";
-    const days = ageToDays(age);
-    if (days == null) return "";
-    if (days === 0) return isCouvoirAge(age) ? "" : dateMiseEnPlace;
-    return addDays(dateMiseEnPlace, days);
-  };
+  const defaultDateForAge = (age: string): string => planDateForAge(dateMiseEnPlace, age);
 
   /** Si la date est vide à l’enregistrement : même calcul que l’aperçu (date mise en place du lot = InfosSetup). */
   const rowWithAutoDateFromMiseEnPlace = (r: VaccinationRow): VaccinationRow => {
@@ -962,6 +961,7 @@ export default function PlanningVaccination() {
     }
 
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
     try {
       const is1J = (rowToSave.age ?? "").trim() === "1 J";
       const couvoirRow = rows.find((r) => isCouvoirAge(r.age));
@@ -1013,12 +1013,20 @@ export default function PlanningVaccination() {
         dispatchVaccinationAlertsRefresh();
         return;
       }
-    } catch {
-      toast({
-        title: "Erreur",
-        description: "Impossible d'enregistrer la ligne.",
-        variant: "destructive",
-      });
+    } catch (e) {
+      if (fieldErrors.capture(row.id, e)) {
+        toast({
+          title: "Valeurs invalides",
+          description: "Corrigez les cellules signalées en rouge.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Erreur",
+          description: "Impossible d'enregistrer la ligne.",
+          variant: "destructive",
+        });
+      }
     } finally {
       setSavingRowId(null);
     }
@@ -1254,6 +1262,10 @@ export default function PlanningVaccination() {
     );
   }
 
+  const selectedProtocol =
+    (protocolId != null ? protocols.find((p) => p.id === protocolId) : null) ??
+    findProtocolForLot(protocols, lotSetup.souche, lotSetup.typeElevage);
+
   const goBackToLotSelector = () =>
     setSearchParams(pageFarmId != null ? { farmId: String(pageFarmId) } : {});
 
@@ -1315,7 +1327,34 @@ export default function PlanningVaccination() {
             </TooltipProvider>
           )}
           {canEditPlanning && (
-            <div className="ml-auto">
+            <div className="ml-auto flex items-center gap-2">
+              {protocols.length > 0 && (
+                <>
+                  <select
+                    value={selectedProtocol?.id ?? ""}
+                    onChange={(e) => setProtocolId(e.target.value ? Number(e.target.value) : null)}
+                    className="rounded-md border px-2 py-1.5 text-sm bg-background max-w-[220px]"
+                    aria-label="Protocole de vaccination"
+                  >
+                    <option value="">Protocole…</option>
+                    {protocols.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name} ({p.souche})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setProtocolDialogOpen(true)}
+                    disabled={!selectedProtocol}
+                    className="inline-flex items-center gap-1 rounded-md border px-3 py-1.5 text-sm hover:bg-accent disabled:opacity-50"
+                    title="Remplacer le planning du lot par le protocole, après aperçu"
+                  >
+                    <ClipboardList className="w-4 h-4" />
+                    Appliquer
+                  </button>
+                </>
+              )}
               <button
                 type="button"
                 onClick={addRow}
@@ -1361,7 +1400,10 @@ export default function PlanningVaccination() {
                   <tr key={row.id} className="border-b hover:bg-muted/30">
                     {canEditPlanning ? (
                       <>
-                        <td className="p-1">
+                        <td
+                          className={`p-1 ${fieldErrors.cellClass(row.id, "age")}`}
+                          title={fieldErrors.fieldError(row.id, "age") ?? undefined}
+                        >
                           <PlanningAgeCell
                             rowId={row.id}
                             age={row.age}
@@ -1370,7 +1412,10 @@ export default function PlanningVaccination() {
                             onAgeChange={(v) => updateRow(row.id, "age", v)}
                           />
                         </td>
-                        <td className="p-1">
+                        <td
+                          className={`p-1 ${fieldErrors.cellClass(row.id, "planDate")}`}
+                          title={fieldErrors.fieldError(row.id, "planDate") ?? undefined}
+                        >
                           <input
                             type="date"
                             value={row.date}
@@ -1384,7 +1429,10 @@ export default function PlanningVaccination() {
                             }
                           />
                         </td>
-                        <td className="p-1">
+                        <td
+                          className={`p-1 ${fieldErrors.cellClass(row.id, "motif")}`}
+                          title={fieldErrors.fieldError(row.id, "motif") ?? undefined}
+                        >
                           <SelectOrAdd
                             value={row.motif}
                             onChange={(v) => updateRow(row.id, "motif", v)}
@@ -1393,7 +1441,10 @@ export default function PlanningVaccination() {
                             placeholder="Motif"
                           />
                         </td>
-                        <td className="p-1">
+                        <td
+                          className={`p-1 ${fieldErrors.cellClass(row.id, "vaccinTraitement")}`}
+                          title={fieldErrors.fieldError(row.id, "vaccinTraitement") ?? undefined}
+                        >
                           <SelectOrAdd
                             value={row.vaccinTraitement}
                             onChange={(v) => updateRow(row.id, "vaccinTraitement", v)}
@@ -1402,7 +1453,10 @@ export default function PlanningVaccination() {
                             placeholder="Vaccin / Traitement"
                           />
                         </td>
-                        <td className="p-1">
+                        <td
+                          className={`p-1 ${fieldErrors.cellClass(row.id, "quantite")}`}
+                          title={fieldErrors.fieldError(row.id, "quantite") ?? undefined}
+                        >
                           <input
                             type="text"
                             value={row.quantite}
@@ -1411,7 +1465,10 @@ export default function PlanningVaccination() {
                             placeholder="Quantité"
                           />
                         </td>
-                        <td className="p-1">
+                        <td
+                          className={`p-1 ${fieldErrors.cellClass(row.id, "administration")}`}
+                          title={fieldErrors.fieldError(row.id, "administration") ?? undefined}
+                        >
                           <SelectOrAdd
                             value={row.administration}
                             onChange={(v) => updateRow(row.id, "administration", v)}
@@ -1420,7 +1477,10 @@ export default function PlanningVaccination() {
                             placeholder="Administration"
                           />
                         </td>
-                        <td className="p-1">
+                        <td
+                          className={`p-1 ${fieldErrors.cellClass(row.id, "remarques")}`}
+                          title={fieldErrors.fieldError(row.id, "remarques") ?? undefined}
+                        >
                           <SelectOrAdd
                             value={row.remarques}
                             onChange={(v) => updateRow(row.id, "remarques", v)}
@@ -1584,9 +1644,20 @@ export default function PlanningVaccination() {
               </table>
             </div>
           </div>
+
+          <VaccinationAdministrationHistory farmId={pageFarmId} lot={selectedLot ?? ""} />
           </>
         )}
       </div>
+      {selectedProtocol && (
+        <ProtocolApplyDialog
+          open={protocolDialogOpen}
+          onOpenChange={setProtocolDialogOpen}
+          protocol={selectedProtocol}
+          targets={protocolTargets}
+          onApplied={() => void loadPlanning(dateMiseEnPlace)}
+        />
+      )}
     </AppLayout>
   );
 }
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Loader2, Building2, Plus, Check, Calendar, Trash2, Eraser, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { ArrowLeft, Loader2, Building2, Plus, Check, Calendar, Trash2, Eraser, History, Download, FileSpreadsheet, FileText, Upload } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
+import RejectedRowMarker from "@/components/verification/RejectedRowMarker";
+import LivraisonImportDialog from "@/components/livraisons/LivraisonImportDialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,6 +19,12 @@ import {
 } from "@/components/ui/tooltip";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
+import { useDeliveryNoteDuplicateGuard } from "@/hooks/useDeliveryNoteGuard";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { useHighlightRowFromUrl } from "@/hooks/useHighlightRowFromUrl";
+import { useDraftStash } from "@/hooks/useDraftStash";
+import { hasUnsavedGridRows } from "@/lib/draftStash";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
@@ -26,7 +34,8 @@ import {
   type LotWithStatusResponse,
   type VideSanitaireResponse,
 } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { sortSemaines, computeAgeByRowId } from "@/utils/semaineAgeUtils";
 import { exportToExcel, exportToPdf } from "@/lib/produitsHygieneExport";
 import { resolvedQteFromString } from "@/lib/depensesDiversShared";
@@ -38,6 +47,7 @@ import {
   produitsHygieneEffectiveMontantForTotal,
 } from "@/lib/produitsHygieneShared";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
+import { canEditSavedRow, rowRejection, type RowRejection } from "@/lib/verificationShared";
 import { QuantityInput } from "@/components/ui/QuantityInput";
 
 /**
@@ -56,6 +66,8 @@ const VS_AGE = "VS";
 interface HygieneRow {
   id: string;
   serverId?: number;
+  /** Rejected in the À vérifier inbox: editable once more to correct it. */
+  rejection?: RowRejection | null;
   date: string;
   age: string; // Stored sequential age from API when present; display uses displayAgeByRowId
   sem: string;
@@ -162,8 +174,6 @@ export default function ProduitsHygiene() {
 
   const {
     user,
-    isAdministrateur,
-    isResponsableTechnique,
     canAccessAllFarms,
     isReadOnly,
     canCreate,
@@ -183,14 +193,7 @@ export default function ProduitsHygiene() {
   const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
   const [lotsLoading, setLotsLoading] = useState(false);
   const [loading, setLoading] = useState(false);
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     lotFilter.trim() &&
       isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotFilter.trim()), lotAccessCtx)
@@ -201,6 +204,17 @@ export default function ProduitsHygiene() {
   const [newSemaineInput, setNewSemaineInput] = useState("");
   const [previousLotLastDate, setPreviousLotLastDate] = useState<string | null>(null);
   const { toast } = useToast();
+  const fieldErrors = useRowFieldErrors();
+  const deliveryNoteGuard = useDeliveryNoteDuplicateGuard();
+  const rowHistory = useRowHistory();
+  useHighlightRowFromUrl(!loading);
+  useDraftStash({
+    scope: "produitsHygiene",
+    draft: rows,
+    isDirty: (draftRows) => hasUnsavedGridRows(draftRows, (r) => emptyRow(r.sem, r.date)),
+    ready: !loading,
+    restore: setRows,
+  });
   const today = new Date().toISOString().split("T")[0];
 
   useEffect(() => {
@@ -297,6 +311,8 @@ export default function ProduitsHygiene() {
     [rows, previousLotLastDate]
   );
 
+  const [importOpen, setImportOpen] = useState(false);
+
   const loadMovements = useCallback(async () => {
     if (showFarmSelector || !lotFilter.trim() || isSelectedLotClosed) return;
     setLoading(true);
@@ -313,6 +329,7 @@ export default function ProduitsHygiene() {
         return {
           id: crypto.randomUUID(),
           serverId: r.id,
+          rejection: rowRejection(r),
           date: r.date ?? "",
           age: legacySemInAge || legacyVsInAge ? "" : ageRaw,
           sem: semRaw || (legacySemInAge ? ageRaw : legacyVsInAge ? VS_AGE : ""),
@@ -519,6 +536,7 @@ export default function ProduitsHygiene() {
   };
 
   const updateRow = (id: string, field: keyof HygieneRow, value: string) => {
+    fieldErrors.clearField(id, field);
     setRows((prev) =>
       prev.map((r) => {
         if (r.id !== id) return r;
@@ -702,10 +720,25 @@ export default function ProduitsHygiene() {
       return;
     }
 
+    if (
+      !(await deliveryNoteGuard.confirm({
+        source: "livraisonsProduitsHygiene",
+        farmId: pageFarmId ?? null,
+        lot: lotFilter.trim(),
+        row,
+        rows,
+        notesOf: (r) => ({ bl: r.deliveryNoteNumber, br: r.numeroBR }),
+      }))
+    )
+      return;
+
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
     try {
       if (row.serverId != null) {
         await api.livraisonsProduitsHygiene.update(row.serverId, req);
+        // Corrected after a rejection: back in the À vérifier queue
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, rejection: null } : r)));
         toast({
           title: isVs ? "Vide sanitaire mis à jour" : "Ligne mise à jour",
           description: `Le ${row.date} a été mis à jour.`,
@@ -740,12 +773,20 @@ export default function ProduitsHygiene() {
         return;
       }
       loadMovements();
-    } catch {
-      toast({
-        title: "Erreur",
-        description: "Impossible d'enregistrer la ligne.",
-        variant: "destructive",
-      });
+    } catch (e) {
+      if (fieldErrors.capture(row.id, e)) {
+        toast({
+          title: "Valeurs invalides",
+          description: "Corrigez les cellules signalées en rouge.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Erreur",
+          description: "Impossible d'enregistrer la ligne.",
+          variant: "destructive",
+        });
+      }
     } finally {
       setSavingRowId(null);
     }
@@ -1044,6 +1085,19 @@ export default function ProduitsHygiene() {
             >
               Changer de semaine
             </button>
+            {!isReadOnly && canCreate && !isSelectedLotClosed && (
+              <>
+                <span className="text-muted-foreground">|</span>
+                <button
+                  type="button"
+                  onClick={() => setImportOpen(true)}
+                  className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground underline"
+                >
+                  <Upload className="h-4 w-4" />
+                  Importer Excel
+                </button>
+              </>
+            )}
           </div>
 
           <div className="space-y-6 w-full min-w-0">
@@ -1091,15 +1145,18 @@ export default function ProduitsHygiene() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
                           return (
-                            <tr key={row.id} className="bg-red-500/10">
+                            <tr key={row.id} data-server-id={row.serverId ?? undefined} className="bg-red-500/10">
                               <td className="text-sm text-muted-foreground">—</td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1109,7 +1166,10 @@ export default function ProduitsHygiene() {
                                 />
                               </td>
                               <td className="text-sm font-medium text-muted-foreground">VS</td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "designation")}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.designation}
@@ -1119,7 +1179,10 @@ export default function ProduitsHygiene() {
                                   className="min-w-[160px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "supplier")}
+                                title={fieldErrors.fieldError(row.id, "supplier") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.supplier}
@@ -1129,7 +1192,10 @@ export default function ProduitsHygiene() {
                                   className="min-w-[100px] bg-transparent border-0 outline-none text-sm w-full"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "deliveryNoteNumber")}
+                                title={fieldErrors.fieldError(row.id, "deliveryNoteNumber") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.deliveryNoteNumber}
@@ -1139,7 +1205,10 @@ export default function ProduitsHygiene() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "numeroBR")}
+                                title={fieldErrors.fieldError(row.id, "numeroBR") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.numeroBR}
@@ -1149,7 +1218,10 @@ export default function ProduitsHygiene() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td className="min-w-[160px] text-center">
+                              <td
+                                className={`min-w-[160px] text-center ${fieldErrors.cellClass(row.id, "qte")}`}
+                                title={fieldErrors.fieldError(row.id, "qte") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte)}
@@ -1166,7 +1238,10 @@ export default function ProduitsHygiene() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prixPerUnit")}`}
+                                title={fieldErrors.fieldError(row.id, "prixPerUnit") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prixPerUnit)}
@@ -1188,6 +1263,7 @@ export default function ProduitsHygiene() {
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
@@ -1312,17 +1388,20 @@ export default function ProduitsHygiene() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
                           return (
-                            <tr key={row.id}>
+                            <tr key={row.id} data-server-id={row.serverId ?? undefined}>
                               <td className="text-sm font-medium text-muted-foreground">
                                 {displayAgeByRowId.get(row.id) ?? "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1334,7 +1413,10 @@ export default function ProduitsHygiene() {
                               <td className="text-sm font-medium text-muted-foreground">
                                 {getSemFromRow(row) || selectedSemaine || "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "designation")}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.designation}
@@ -1344,7 +1426,10 @@ export default function ProduitsHygiene() {
                                   className="min-w-[160px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "supplier")}
+                                title={fieldErrors.fieldError(row.id, "supplier") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.supplier}
@@ -1354,7 +1439,10 @@ export default function ProduitsHygiene() {
                                   className="min-w-[100px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "deliveryNoteNumber")}
+                                title={fieldErrors.fieldError(row.id, "deliveryNoteNumber") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.deliveryNoteNumber}
@@ -1364,7 +1452,10 @@ export default function ProduitsHygiene() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "numeroBR")}
+                                title={fieldErrors.fieldError(row.id, "numeroBR") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.numeroBR}
@@ -1374,7 +1465,10 @@ export default function ProduitsHygiene() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td className="min-w-[160px] text-center">
+                              <td
+                                className={`min-w-[160px] text-center ${fieldErrors.cellClass(row.id, "qte")}`}
+                                title={fieldErrors.fieldError(row.id, "qte") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte)}
@@ -1391,7 +1485,10 @@ export default function ProduitsHygiene() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prixPerUnit")}`}
+                                title={fieldErrors.fieldError(row.id, "prixPerUnit") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prixPerUnit)}
@@ -1413,6 +1510,7 @@ export default function ProduitsHygiene() {
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
@@ -1429,8 +1527,24 @@ export default function ProduitsHygiene() {
                                   </button>
                                 )}
                               </td>
-                              <td className="w-14 max-w-14 shrink-0 !px-1 text-center align-middle">
+                              <td className="w-20 max-w-20 shrink-0 !px-1 text-center align-middle">
                                 <div className="flex gap-0.5 justify-center">
+                                  {row.serverId != null && (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        rowHistory.open({
+                                          entityType: "LIVRAISON_PRODUIT_HYGIENE",
+                                          entityId: row.serverId as number,
+                                          title: [row.date, row.designation].filter(Boolean).join(" — "),
+                                        })
+                                      }
+                                      className="text-muted-foreground hover:text-primary transition-colors p-1 inline-flex justify-center items-center rounded hover:bg-muted"
+                                      title="Historique"
+                                    >
+                                      <History className="w-4 h-4" />
+                                    </button>
+                                  )}
                                   {row.serverId != null && hasFullAccess && (
                                     <button
                                       type="button"
@@ -1497,6 +1611,19 @@ export default function ProduitsHygiene() {
           </div>
         </>
       )}
+      {lotFilter.trim() && selectedSemaine && (
+        <LivraisonImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          kind="hygiene"
+          farmId={pageFarmId ?? null}
+          lot={lotFilter.trim()}
+          semaine={selectedSemaine}
+          onImported={loadMovements}
+        />
+      )}
+      {deliveryNoteGuard.dialog}
+      {rowHistory.sheet}
     </AppLayout>
   );
 }
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Loader2, Building2, Plus, Check, Calendar, Trash2, Eraser, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { ArrowLeft, Loader2, Building2, Plus, Check, Calendar, Trash2, Eraser, History, Download, FileSpreadsheet, FileText, Upload } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
+import RejectedRowMarker from "@/components/verification/RejectedRowMarker";
+import LivraisonImportDialog from "@/components/livraisons/LivraisonImportDialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,6 +21,12 @@ import { QuantityInput } from "@/components/ui/QuantityInput";
 import { PriceInput } from "@/components/ui/PriceInput";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
+import { useDeliveryNoteDuplicateGuard } from "@/hooks/useDeliveryNoteGuard";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { useHighlightRowFromUrl } from "@/hooks/useHighlightRowFromUrl";
+import { useDraftStash } from "@/hooks/useDraftStash";
+import { hasUnsavedGridRows } from "@/lib/draftStash";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   api,
@@ -27,7 +35,8 @@ import {
   type LivraisonProduitVeterinaireRequest,
   type LotWithStatusResponse,
 } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { sortSemaines, computeAgeByRowId } from "@/utils/semaineAgeUtils";
 import { exportToExcel, exportToPdf } from "@/lib/produitsVeterinairesExport";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
@@ -39,6 +48,7 @@ import {
   produitsVeterinairesResolvedMontant,
   produitsVeterinairesEffectiveMontantForTotal,
 } from "@/lib/produitsVeterinairesShared";
+import { canEditSavedRow, rowRejection, type RowRejection } from "@/lib/verificationShared";
 
 /**
  * FICHE DE SUIVI DES LIVRAISONS PRODUITS VETERINAIRES
@@ -54,6 +64,8 @@ import {
 interface VetRow {
   id: string;
   serverId?: number;
+  /** Rejected in the À vérifier inbox: editable once more to correct it. */
+  rejection?: RowRejection | null;
   date: string;
   age: string; // Stored sequential age from API when present; display uses displayAgeByRowId
   sem: string;
@@ -151,8 +163,6 @@ export default function ProduitsVeterinaires() {
 
   const {
     user,
-    isAdministrateur,
-    isResponsableTechnique,
     canAccessAllFarms,
     isReadOnly,
     canCreate,
@@ -172,14 +182,7 @@ export default function ProduitsVeterinaires() {
   const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
   const [lotsLoading, setLotsLoading] = useState(false);
   const [loading, setLoading] = useState(false);
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     lotFilter.trim() &&
       isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotFilter.trim()), lotAccessCtx)
@@ -190,6 +193,17 @@ export default function ProduitsVeterinaires() {
   const [newSemaineInput, setNewSemaineInput] = useState("");
   const [previousLotLastDate, setPreviousLotLastDate] = useState<string | null>(null);
   const { toast } = useToast();
+  const fieldErrors = useRowFieldErrors();
+  const deliveryNoteGuard = useDeliveryNoteDuplicateGuard();
+  const rowHistory = useRowHistory();
+  useHighlightRowFromUrl(!loading);
+  useDraftStash({
+    scope: "produitsVeterinaires",
+    draft: rows,
+    isDirty: (draftRows) => hasUnsavedGridRows(draftRows, (r) => emptyRow(r.sem, r.date)),
+    ready: !loading,
+    restore: setRows,
+  });
   const today = new Date().toISOString().split("T")[0];
 
   useEffect(() => {
@@ -286,6 +300,8 @@ export default function ProduitsVeterinaires() {
     [rows, previousLotLastDate]
   );
 
+  const [importOpen, setImportOpen] = useState(false);
+
   const loadMovements = useCallback(async () => {
     if (showFarmSelector || !lotFilter.trim() || isSelectedLotClosed) return;
     setLoading(true);
@@ -301,6 +317,7 @@ export default function ProduitsVeterinaires() {
         return {
           id: crypto.randomUUID(),
           serverId: r.id,
+          rejection: rowRejection(r),
           date: r.date ?? "",
           age: legacySemInAge ? "" : ageRaw,
           sem: semRaw || (legacySemInAge ? ageRaw : ""),
@@ -427,6 +444,7 @@ export default function ProduitsVeterinaires() {
   };
 
   const updateRow = (id: string, field: keyof VetRow, value: string) => {
+    fieldErrors.clearField(id, field);
     setRows((prev) =>
       prev.map((r) => {
         if (r.id !== id) return r;
@@ -583,10 +601,25 @@ export default function ProduitsVeterinaires() {
       return;
     }
 
+    if (
+      !(await deliveryNoteGuard.confirm({
+        source: "livraisonsProduitsVeterinaires",
+        farmId: pageFarmId ?? null,
+        lot: lotFilter.trim(),
+        row,
+        rows,
+        notesOf: (r) => ({ br: r.deliveryNoteNumber }),
+      }))
+    )
+      return;
+
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
     try {
       if (row.serverId != null) {
         await api.livraisonsProduitsVeterinaires.update(row.serverId, req);
+        // Corrected after a rejection: back in the À vérifier queue
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, rejection: null } : r)));
         toast({ title: "Ligne mise à jour", description: `Le ${row.date} a été mis à jour.` });
         // Dispatch event to refresh price alert counter immediately
         window.dispatchEvent(new CustomEvent('priceAlertChanged'));
@@ -610,12 +643,20 @@ export default function ProduitsVeterinaires() {
         return;
       }
       loadMovements();
-    } catch {
-      toast({
-        title: "Erreur",
-        description: "Impossible d'enregistrer la ligne.",
-        variant: "destructive",
-      });
+    } catch (e) {
+      if (fieldErrors.capture(row.id, e)) {
+        toast({
+          title: "Valeurs invalides",
+          description: "Corrigez les cellules signalées en rouge.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Erreur",
+          description: "Impossible d'enregistrer la ligne.",
+          variant: "destructive",
+        });
+      }
     } finally {
       setSavingRowId(null);
     }
@@ -889,6 +930,19 @@ export default function ProduitsVeterinaires() {
             >
               Changer de semaine
             </button>
+            {!isReadOnly && canCreate && !isSelectedLotClosed && (
+              <>
+                <span className="text-muted-foreground">|</span>
+                <button
+                  type="button"
+                  onClick={() => setImportOpen(true)}
+                  className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground underline"
+                >
+                  <Upload className="h-4 w-4" />
+                  Importer Excel
+                </button>
+              </>
+            )}
           </div>
 
           <div className="space-y-6 w-full min-w-0">
@@ -947,17 +1001,20 @@ export default function ProduitsVeterinaires() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
                           return (
-                            <tr key={row.id}>
+                            <tr key={row.id} data-server-id={row.serverId ?? undefined}>
                               <td className="text-sm font-medium text-muted-foreground">
                                 {displayAgeByRowId.get(row.id) ?? "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -969,7 +1026,10 @@ export default function ProduitsVeterinaires() {
                               <td className="text-sm font-medium text-muted-foreground">
                                 {getSemFromRow(row) || selectedSemaine || "—"}
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "designation")}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.designation}
@@ -979,7 +1039,10 @@ export default function ProduitsVeterinaires() {
                                   className="min-w-[160px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "supplier")}
+                                title={fieldErrors.fieldError(row.id, "supplier") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.supplier}
@@ -989,7 +1052,10 @@ export default function ProduitsVeterinaires() {
                                   className="min-w-[54px] bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "ug")}
+                                title={fieldErrors.fieldError(row.id, "ug") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.ug}
@@ -999,7 +1065,10 @@ export default function ProduitsVeterinaires() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "deliveryNoteNumber")}
+                                title={fieldErrors.fieldError(row.id, "deliveryNoteNumber") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.deliveryNoteNumber}
@@ -1009,7 +1078,10 @@ export default function ProduitsVeterinaires() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td className="min-w-[140px] text-center">
+                              <td
+                                className={`min-w-[140px] text-center ${fieldErrors.cellClass(row.id, "qte")}`}
+                                title={fieldErrors.fieldError(row.id, "qte") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte)}
@@ -1026,7 +1098,10 @@ export default function ProduitsVeterinaires() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prixPerUnit")}`}
+                                title={fieldErrors.fieldError(row.id, "prixPerUnit") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prixPerUnit)}
@@ -1044,6 +1119,7 @@ export default function ProduitsVeterinaires() {
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
@@ -1062,6 +1138,22 @@ export default function ProduitsVeterinaires() {
                               </td>
                               <td>
                                 <div className="flex items-center gap-1">
+                                  {row.serverId != null && (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        rowHistory.open({
+                                          entityType: "LIVRAISON_PRODUIT_VETERINAIRE",
+                                          entityId: row.serverId as number,
+                                          title: [row.date, row.designation].filter(Boolean).join(" — "),
+                                        })
+                                      }
+                                      className="text-muted-foreground hover:text-primary transition-colors p-1"
+                                      title="Historique"
+                                    >
+                                      <History className="w-4 h-4" />
+                                    </button>
+                                  )}
                                   {row.serverId != null && hasFullAccess && (
                                     <button
                                       type="button"
@@ -1131,6 +1223,19 @@ export default function ProduitsVeterinaires() {
           </div>
         </>
       )}
+      {lotFilter.trim() && selectedSemaine && (
+        <LivraisonImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          kind="veterinaire"
+          farmId={pageFarmId ?? null}
+          lot={lotFilter.trim()}
+          semaine={selectedSemaine}
+          onImported={loadMovements}
+        />
+      )}
+      {deliveryNoteGuard.dialog}
+      {rowHistory.sheet}
     </AppLayout>
   );
 }
@@ -0,0 +1,557 @@
+/**
+ * Page "Protocoles de vaccination" — /protocoles-vaccination.
+ * Reusable vaccination plannings per souche and type d'élevage (Données mises en place), without dates: each step is
+ * an age from the mise en place. planningVaccination:update (RT / Admin) edits them; a protocol is applied to a lot
+ * from Planning de vaccination, and an edited protocol can be propagated to the open lots still following it
+ * (ProtocolApplyDialog, vaccinationProtocolsShared.ts).
+ */
+
+import { useMemo, useState } from "react";
+import { Loader2, Plus, Save, Send, Syringe, Trash2, X } from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import ProtocolApplyDialog, { type ProtocolApplyTarget } from "@/components/vaccination/ProtocolApplyDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { usePermission } from "@/hooks/usePermission";
+import {
+  usePerformanceNormeProfilesQuery,
+  useVaccinationProtocolLotsQuery,
+  useVaccinationProtocolsQuery,
+} from "@/hooks/useApiQueries";
+import {
+  api,
+  ApiConflictError,
+  type VaccinationProtocolLotResponse,
+  type VaccinationProtocolRequest,
+  type VaccinationProtocolResponse,
+} from "@/lib/api";
+import { soucheKey } from "@/lib/performanceNormeProfilesShared";
+import { ageToDays, isCouvoirAge } from "@/lib/vaccinationProtocolsShared";
+
+const DEFAULT_TYPE_ELEVAGE = "DINDE CHAIR";
+
+const STEP_TEXT_FIELDS = [
+  { key: "motif", label: "Motif" },
+  { key: "vaccinTraitement", label: "Vaccin / Traitement" },
+  { key: "quantite", label: "Quantité" },
+  { key: "administration", label: "Administration" },
+  { key: "remarques", label: "Remarques" },
+] as const;
+
+type StepTextField = (typeof STEP_TEXT_FIELDS)[number]["key"];
+
+type DraftStep = { key: string; age: string } & Record<StepTextField, string>;
+
+interface ProtocolDraft {
+  id: number | null;
+  version: number | null;
+  name: string;
+  souche: string;
+  typeElevage: string;
+  steps: DraftStep[];
+}
+
+function toDraft(protocol: VaccinationProtocolResponse): ProtocolDraft {
+  return {
+    id: protocol.id,
+    version: protocol.version,
+    name: protocol.name,
+    souche: protocol.souche,
+    typeElevage: protocol.typeElevage,
+    steps: [...protocol.steps]
+      .sort((a, b) => (a.ordre ?? 0) - (b.ordre ?? 0))
+      .map((s) => ({
+        key: crypto.randomUUID(),
+        age: s.age,
+        motif: s.motif ?? "",
+        vaccinTraitement: s.vaccinTraitement ?? "",
+        quantite: s.quantite ?? "",
+        administration: s.administration ?? "",
+        remarques: s.remarques ?? "",
+      })),
+  };
+}
+
+function emptyStep(age = ""): DraftStep {
+  return {
+    key: crypto.randomUUID(),
+    age,
+    motif: "",
+    vaccinTraitement: "",
+    quantite: "",
+    administration: "",
+    remarques: "",
+  };
+}
+
+/** "couv…" → "Couvoir", "21" / "21j" → "21 J"; anything else is kept (and rejected on save). */
+function normalizeStepAge(input: string): string {
+  const t = input.trim();
+  if (/^couv/i.test(t)) return "Couvoir";
+  const m = t.match(/^(\d+)\s*(j|jours?)?$/i);
+  return m ? `${parseInt(m[1], 10)} J` : t;
+}
+
+function fromDraft(draft: ProtocolDraft): VaccinationProtocolRequest {
+  return {
+    name: draft.name.trim(),
+    souche: draft.souche.trim(),
+    typeElevage: draft.typeElevage.trim(),
+    version: draft.version,
+    steps: draft.steps.map((s, ordre) => ({
+      ordre,
+      age: normalizeStepAge(s.age),
+      motif: s.motif.trim() || null,
+      vaccinTraitement: s.vaccinTraitement.trim() || null,
+      quantite: s.quantite.trim() || null,
+      administration: s.administration.trim() || null,
+      remarques: s.remarques.trim() || null,
+    })),
+  };
+}
+
+/** Open lots applied from an older version; those edited by hand since are offered unchecked. */
+function lotsToPropagate(lots: VaccinationProtocolLotResponse[], version: number): VaccinationProtocolLotResponse[] {
+  return lots.filter((l) => !l.closed && l.appliedVersion < version);
+}
+
+function toTargets(lots: VaccinationProtocolLotResponse[]): ProtocolApplyTarget[] {
+  return lots.map((l) => ({ farmId: l.farmId, farmName: l.farmName, lot: l.lot, customized: l.customized }));
+}
+
+const inputClass =
+  "w-full rounded border border-input bg-background px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+export default function ProtocolesVaccination() {
+  const { isReadOnly } = useAuth();
+  const { toast } = useToast();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  const canEditProtocols = usePermission("planningVaccination", "update") && !isReadOnly;
+  const protocolsQuery = useVaccinationProtocolsQuery();
+  const normeProfilesQuery = usePerformanceNormeProfilesQuery();
+  const protocols = [...(protocolsQuery.data ?? [])].sort(
+    (a, b) => a.souche.localeCompare(b.souche, "fr") || a.name.localeCompare(b.name, "fr")
+  );
+
+  const [draft, setDraft] = useState<ProtocolDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<VaccinationProtocolResponse | null>(null);
+  /** Protocol version (as saved, before the list refetches) and lots offered for propagation. */
+  const [propagation, setPropagation] = useState<{
+    protocol: VaccinationProtocolResponse;
+    targets: ProtocolApplyTarget[];
+  } | null>(null);
+
+  const selectedProtocol = draft?.id != null ? protocols.find((p) => p.id === draft.id) ?? null : null;
+  const lotsQuery = useVaccinationProtocolLotsQuery(selectedProtocol?.id);
+  const followingLots = lotsQuery.data ?? [];
+  const outdatedLots = selectedProtocol ? lotsToPropagate(followingLots, selectedProtocol.version) : [];
+
+  const soucheOptions = useMemo(() => {
+    const all = [...(protocolsQuery.data ?? []).map((p) => p.souche), ...(normeProfilesQuery.data ?? []).map((p) => p.souche)];
+    const byKey = new Map(all.filter((s) => s.trim()).map((s) => [soucheKey(s), s.trim()]));
+    return [...byKey.values()].sort((a, b) => a.localeCompare(b, "fr"));
+  }, [protocolsQuery.data, normeProfilesQuery.data]);
+
+  const duplicate =
+    draft &&
+    protocols.find(
+      (p) =>
+        p.id !== draft.id &&
+        soucheKey(p.souche) === soucheKey(draft.souche) &&
+        soucheKey(p.typeElevage) === soucheKey(draft.typeElevage)
+    );
+
+  const setStepField = (index: number, key: keyof DraftStep, value: string) => {
+    setDraft((prev) =>
+      prev ? { ...prev, steps: prev.steps.map((s, i) => (i === index ? { ...s, [key]: value } : s)) } : prev
+    );
+  };
+
+  const addStep = () => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const last = prev.steps[prev.steps.length - 1];
+      const lastDays = last ? ageToDays(normalizeStepAge(last.age)) : null;
+      return { ...prev, steps: [...prev.steps, emptyStep(lastDays != null ? `${lastDays + 1} J` : "")] };
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setDraft((prev) => (prev ? { ...prev, steps: prev.steps.filter((_, i) => i !== index) } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const body = fromDraft(draft);
+    if (!body.name || !body.souche || !body.typeElevage) {
+      toast({
+        title: "Protocole incomplet",
+        description: "Indiquez le nom, la souche et le type d'élevage.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const badAge = body.steps.find((s) => ageToDays(s.age) == null);
+    if (badAge || body.steps.length === 0) {
+      toast({
+        title: "Âges invalides",
+        description: badAge
+          ? `« ${badAge.age || "vide"} » : saisissez Couvoir ou un âge en jours.`
+          : "Ajoutez au moins une étape.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (body.steps.filter((s) => isCouvoirAge(s.age)).length > 1) {
+      toast({ title: "Âges invalides", description: "Une seule étape Couvoir par protocole.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved =
+        draft.id != null ? await api.vaccinationProtocols.update(draft.id, body) : await api.vaccinationProtocols.create(body);
+      void invalidateAfterWrite("vaccinationProtocols", {});
+      toast({ title: "Enregistré", description: `Protocole ${saved.name} enregistré (version ${saved.version}).` });
+      setDraft(toDraft(saved));
+      if (draft.id != null) {
+        // Offer to carry the change over to the open lots still following the protocol
+        try {
+          const outdated = lotsToPropagate(await api.vaccinationProtocols.lots(saved.id), saved.version);
+          if (outdated.length > 0) setPropagation({ protocol: saved, targets: toTargets(outdated) });
+        } catch {
+          toast({
+            title: "Lots non vérifiés",
+            description: "Impossible de charger les lots qui suivent ce protocole : la modification ne leur a pas été proposée.",
+            variant: "destructive",
+          });
+        }
+      }
+    } catch (e) {
+      toast({
+        title: "Erreur",
+        description:
+          e instanceof ApiConflictError
+            ? "Le protocole a été modifié par un autre utilisateur. Rechargez-le avant d'enregistrer."
+            : "Impossible d'enregistrer le protocole.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await api.vaccinationProtocols.delete(deleteTarget.id);
+      void invalidateAfterWrite("vaccinationProtocols", {});
+      toast({ title: "Supprimé", description: `Protocole ${deleteTarget.name} supprimé.` });
+      if (draft?.id === deleteTarget.id) setDraft(null);
+    } catch {
+      toast({ title: "Erreur", description: "Impossible de supprimer le protocole.", variant: "destructive" });
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <h1 className="text-2xl font-display font-bold text-foreground">Protocoles de vaccination</h1>
+        <p className="text-sm text-muted-foreground">
+          Plannings types par souche et type d'élevage. Appliqué à un lot depuis le planning de vaccination, chaque étape
+          est datée à partir de la date de mise en place du lot.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <div className="bg-card rounded-lg border border-border shadow-sm">
+          <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+            <h2 className="text-base font-display font-bold text-foreground">Protocoles</h2>
+            {canEditProtocols && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() =>
+                  setDraft({
+                    id: null,
+                    version: null,
+                    name: "",
+                    souche: "",
+                    typeElevage: DEFAULT_TYPE_ELEVAGE,
+                    steps: [emptyStep("Couvoir"), emptyStep("1 J")],
+                  })
+                }
+              >
+                <Plus className="w-4 h-4" />
+                Nouveau protocole
+              </Button>
+            )}
+          </div>
+          {protocolsQuery.isPending ? (
+            <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              <span>Chargement des protocoles…</span>
+            </div>
+          ) : protocols.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Aucun protocole de vaccination.</p>
+          ) : (
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b border-border bg-muted/30">
+                  <th className="px-4 py-2 text-left font-semibold">Nom</th>
+                  <th className="px-4 py-2 text-left font-semibold">Souche</th>
+                  <th className="px-4 py-2 text-left font-semibold">Type d'élevage</th>
+                  <th className="px-4 py-2 text-right font-semibold">Étapes</th>
+                  <th className="px-4 py-2 text-right font-semibold">Version</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {protocols.map((p) => (
+                  <tr
+                    key={p.id}
+                    className={`border-b border-border hover:bg-muted/20 cursor-pointer ${draft?.id === p.id ? "bg-primary/5" : ""}`}
+                    onClick={() => setDraft(toDraft(p))}
+                  >
+                    <td className="px-4 py-2 font-medium">{p.name}</td>
+                    <td className="px-4 py-2">{p.souche}</td>
+                    <td className="px-4 py-2">{p.typeElevage}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">{p.steps.length}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">v{p.version}</td>
+                    <td className="px-4 py-2 text-right">
+                      {canEditProtocols && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeleteTarget(p);
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {draft && (
+          <div className="bg-card rounded-lg border border-border shadow-sm">
+            <div className="flex flex-col gap-3 px-5 py-4 border-b border-border lg:flex-row lg:items-center lg:justify-between">
+              {canEditProtocols ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Nom (ex. Converter chair standard)"
+                    className="rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <input
+                    value={draft.souche}
+                    onChange={(e) => setDraft({ ...draft, souche: e.target.value })}
+                    list="protocol-souches"
+                    placeholder="Souche"
+                    className="rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <datalist id="protocol-souches">
+                    {soucheOptions.map((s) => (
+                      <option key={s} value={s} />
+                    ))}
+                  </datalist>
+                  <input
+                    value={draft.typeElevage}
+                    onChange={(e) => setDraft({ ...draft, typeElevage: e.target.value })}
+                    placeholder="Type d'élevage"
+                    className="rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  {duplicate && (
+                    <span className="text-xs text-amber-700 dark:text-amber-400">
+                      Le protocole {duplicate.name} couvre déjà cette souche et ce type d'élevage
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <h2 className="text-base font-display font-bold text-foreground">
+                  {draft.name} — {draft.souche} ({draft.typeElevage})
+                </h2>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                {canEditProtocols && (
+                  <>
+                    <Button variant="outline" size="sm" className="gap-2" onClick={addStep}>
+                      <Plus className="w-4 h-4" />
+                      Étape
+                    </Button>
+                    <Button size="sm" className="gap-2" onClick={handleSave} disabled={saving}>
+                      {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                      Enregistrer
+                    </Button>
+                  </>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[900px] text-sm border-collapse">
+                <thead>
+                  <tr className="border-b border-border bg-muted/30">
+                    <th className="px-3 py-2 text-left font-semibold w-28">Âge</th>
+                    {STEP_TEXT_FIELDS.map((f) => (
+                      <th key={f.key} className="px-3 py-2 text-left font-semibold border-l border-border">
+                        {f.label}
+                      </th>
+                    ))}
+                    {canEditProtocols && <th className="w-10" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.steps.length === 0 ? (
+                    <tr>
+                      <td colSpan={STEP_TEXT_FIELDS.length + 2} className="py-6 text-center text-muted-foreground">
+                        Aucune étape.
+                      </td>
+                    </tr>
+                  ) : (
+                    draft.steps.map((step, index) => (
+                      <tr key={step.key} className="border-b border-border">
+                        <td className="px-2 py-1">
+                          {canEditProtocols ? (
+                            <input
+                              value={step.age}
+                              onChange={(e) => setStepField(index, "age", e.target.value)}
+                              onBlur={(e) => setStepField(index, "age", normalizeStepAge(e.target.value))}
+                              placeholder="Couvoir / 21"
+                              className={inputClass}
+                              aria-label="Âge (jours)"
+                            />
+                          ) : (
+                            <span className="font-medium">{step.age}</span>
+                          )}
+                        </td>
+                        {STEP_TEXT_FIELDS.map((f) => (
+                          <td key={f.key} className="px-2 py-1 border-l border-border">
+                            {canEditProtocols ? (
+                              <input
+                                value={step[f.key]}
+                                onChange={(e) => setStepField(index, f.key, e.target.value)}
+                                className={inputClass}
+                              />
+                            ) : (
+                              step[f.key] || "—"
+                            )}
+                          </td>
+                        ))}
+                        {canEditProtocols && (
+                          <td className="px-1 text-center">
+                            <Button variant="ghost" size="sm" onClick={() => removeStep(index)}>
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {selectedProtocol && (
+              <div className="px-5 py-4 border-t border-border space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                    <Syringe className="w-4 h-4" />
+                    Lots qui suivent ce protocole
+                  </h3>
+                  {canEditProtocols && outdatedLots.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => setPropagation({ protocol: selectedProtocol, targets: toTargets(outdatedLots) })}
+                    >
+                      <Send className="w-4 h-4" />
+                      Propager la version {selectedProtocol.version} ({outdatedLots.length} lot(s))
+                    </Button>
+                  )}
+                </div>
+                {lotsQuery.isPending ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" /> Chargement…
+                  </div>
+                ) : followingLots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Le protocole n'a encore été appliqué à aucun lot.</p>
+                ) : (
+                  <ul className="flex flex-wrap gap-2">
+                    {followingLots.map((l) => (
+                      <li
+                        key={`${l.farmId}|${l.lot}`}
+                        className="rounded-md border border-border px-2 py-1 text-xs"
+                        title={l.customized ? "Planning modifié à la main depuis l'application du protocole" : undefined}
+                      >
+                        <span className="font-medium">
+                          {l.farmName ? `${l.farmName} — ` : ""}Lot {l.lot}
+                        </span>{" "}
+                        <span className="text-muted-foreground">
+                          v{l.appliedVersion}
+                          {l.closed ? " · fermé" : l.appliedVersion < selectedProtocol.version ? " · à propager" : " · à jour"}
+                          {l.customized ? " · modifié" : ""}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {propagation && (
+        <ProtocolApplyDialog
+          open
+          onOpenChange={(open) => !open && setPropagation(null)}
+          protocol={propagation.protocol}
+          targets={propagation.targets}
+        />
+      )}
+
+      <AlertDialog open={deleteTarget != null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer le protocole ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget && `Le protocole ${deleteTarget.name} ne sera plus proposé pour les nouveaux lots. `}
+              Les plannings déjà appliqués aux lots sont conservés.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Supprimer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
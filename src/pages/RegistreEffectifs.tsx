@@ -0,0 +1,265 @@
+/**
+ * Page "Registre des effectifs" — /registre-effectifs?farmId=8&lot=12
+ * Bird count of the lot by bâtiment and sex, week by week: start, mortalité, mortalité du transport, vente,
+ * consommation, autre and computed end (effectifLedger.ts). Every non-zero écart with the placements, the effectif
+ * départ / restant of the suivi hebdo or the sorties ferme is flagged with a link to the page it comes from.
+ */
+
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Loader2, Users } from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useFarmsQuery, useLotsWithStatusQuery } from "@/hooks/useApiQueries";
+import { useClosedLotAccess } from "@/hooks/usePermission";
+import { buildEffectifLedger, EFFECTIF_ECART_LABELS, loadEffectifLedgerSources } from "@/lib/effectifLedger";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+
+function formatCount(value: number | null | undefined, signed = false): string {
+  if (value == null) return "—";
+  const text = formatGroupedNumber(value, 0);
+  return signed && value > 0 ? `+${text}` : text;
+}
+
+/** Movements leave the flock: shown negative, blank when nothing moved. */
+function formatOut(value: number): string {
+  return value === 0 ? "—" : `−${formatGroupedNumber(value, 0)}`;
+}
+
+export default function RegistreEffectifs() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const farmIdParam = searchParams.get("farmId");
+  const parsedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
+  const lot = (searchParams.get("lot") ?? "").trim();
+  const { canAccessAllFarms, selectedFarmId: authSelectedFarmId } = useAuth();
+  const farmId = parsedFarmId != null && !Number.isNaN(parsedFarmId) ? parsedFarmId : authSelectedFarmId;
+
+  const [batimentFilter, setBatimentFilter] = useState("");
+  const [sexFilter, setSexFilter] = useState("");
+  const [ecartsOnly, setEcartsOnly] = useState(false);
+
+  const farmsQuery = useFarmsQuery(canAccessAllFarms);
+  const lotsQuery = useLotsWithStatusQuery(farmId);
+  const lotAccessCtx = useClosedLotAccess();
+  const lotStatus = lotsQuery.data?.find((l) => l.lot === lot);
+  const isBlocked = isClosedLotBlockedForSession(lotStatus, lotAccessCtx);
+
+  const ledgerQuery = useQuery({
+    queryKey: queryKeys.effectifLedger.get({ farmId, lot }),
+    queryFn: async () =>
+      buildEffectifLedger(await loadEffectifLedgerSources(farmId as number, lot), farmId as number, lot),
+    enabled: farmId != null && Boolean(lot) && !isBlocked,
+  });
+  const groups = useMemo(() => ledgerQuery.data ?? [], [ledgerQuery.data]);
+  const batiments = useMemo(() => [...new Set(groups.map((g) => g.batiment))], [groups]);
+  const sexes = useMemo(() => [...new Set(groups.map((g) => g.sex))], [groups]);
+  const ecartCount = groups.reduce((sum, g) => sum + g.weeks.reduce((s, w) => s + w.ecarts.length, 0), 0);
+  const visible = groups
+    .filter((g) => (!batimentFilter || g.batiment === batimentFilter) && (!sexFilter || g.sex === sexFilter))
+    .map((g) => ({ ...g, weeks: ecartsOnly ? g.weeks.filter((w) => w.ecarts.length > 0) : g.weeks }))
+    .filter((g) => g.weeks.length > 0);
+
+  const setParam = (key: "farmId" | "lot", value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    if (key === "farmId") next.delete("lot");
+    setSearchParams(next);
+  };
+
+  const selectClass = "rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground";
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <h1>Registre des effectifs</h1>
+        <p>
+          Effectif de chaque bâtiment et sexe semaine par semaine : mise en place, mortalité, ventes, consommation et
+          autres sorties. Les écarts avec les effectifs saisis ou les sorties ferme sont signalés.
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg border border-border shadow-sm p-4 mb-6 flex flex-wrap items-end gap-4">
+        {canAccessAllFarms && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+            Ferme
+            <select
+              value={farmId != null ? String(farmId) : ""}
+              onChange={(e) => setParam("farmId", e.target.value)}
+              className={`${selectClass} min-w-[180px]`}
+            >
+              <option value="">Choisir une ferme…</option>
+              {(farmsQuery.data ?? []).map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Lot
+          <select
+            value={lot}
+            onChange={(e) => setParam("lot", e.target.value)}
+            disabled={farmId == null}
+            className={`${selectClass} min-w-[120px]`}
+          >
+            <option value="">Choisir un lot…</option>
+            {(lotsQuery.data ?? []).map((l) => (
+              <option key={l.lot} value={l.lot}>
+                {l.lot}
+                {l.closed ? " (fermé)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        {groups.length > 0 && (
+          <>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Bâtiment
+              <select value={batimentFilter} onChange={(e) => setBatimentFilter(e.target.value)} className={selectClass}>
+                <option value="">Tous</option>
+                {batiments.map((b) => (
+                  <option key={b} value={b}>
+                    {b}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Sexe
+              <select value={sexFilter} onChange={(e) => setSexFilter(e.target.value)} className={selectClass}>
+                <option value="">Tous</option>
+                {sexes.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground pb-1.5">
+              <input type="checkbox" checked={ecartsOnly} onChange={(e) => setEcartsOnly(e.target.checked)} />
+              Écarts seulement ({ecartCount})
+            </label>
+          </>
+        )}
+      </div>
+
+      {farmId == null || !lot ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <Users className="mx-auto mb-2 h-8 w-8 opacity-50" />
+          <p>Choisissez une ferme et un lot pour afficher le registre.</p>
+        </div>
+      ) : isBlocked ? (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 p-4">
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            Ce lot est fermé. Les données ne sont pas accessibles.
+          </p>
+        </div>
+      ) : ledgerQuery.isPending ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          <span>Chargement du registre…</span>
+        </div>
+      ) : ledgerQuery.isError ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/40 p-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">
+            Impossible de charger le registre : les effectifs ne sont pas affichés.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => void ledgerQuery.refetch()}>
+            Réessayer
+          </Button>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <p>
+            Aucune mise en place pour ce lot.{" "}
+            <Link to={`/infos-setup?farmId=${farmId}&lot=${encodeURIComponent(lot)}`} className="font-medium underline">
+              Renseigner les données mises en place
+            </Link>
+          </p>
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <CheckCircle2 className="mx-auto mb-2 h-8 w-8 text-emerald-600" />
+          <p>Aucun écart d'effectif pour cette sélection.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {visible.map((g) => (
+            <div key={`${g.batiment}|${g.sex}`} className="bg-card rounded-lg border border-border shadow-sm w-full min-w-0">
+              <div className="px-5 py-4 border-b border-border flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-lg font-display font-bold text-foreground">
+                  {g.batiment} — {g.sex}
+                </h2>
+                <span className="text-sm text-muted-foreground">
+                  Mise en place : {formatCount(g.effectifMisEnPlace)}
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="table-farm">
+                  <thead>
+                    <tr>
+                      <th>SEM</th>
+                      <th className="!text-right">DÉPART</th>
+                      <th className="!text-right">MORTALITÉ</th>
+                      <th className="!text-right">MORT. TRANSPORT</th>
+                      <th className="!text-right">VENTE</th>
+                      <th className="!text-right">CONSO. EMPLOYÉS</th>
+                      <th className="!text-right">AUTRE</th>
+                      <th className="!text-right">FIN CALCULÉE</th>
+                      <th>CONTRÔLE</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {g.weeks.map((w) => (
+                      <tr key={w.semaine} className={cn(w.ecarts.length > 0 && "bg-red-50/60 dark:bg-red-950/20")}>
+                        <td className="font-medium">{w.semaine}</td>
+                        <td className="text-right tabular-nums">{formatCount(w.start)}</td>
+                        <td className="text-right tabular-nums">{formatOut(w.mortalite)}</td>
+                        <td className="text-right tabular-nums">{formatOut(w.mortaliteTransport)}</td>
+                        <td className="text-right tabular-nums">{formatOut(w.vente)}</td>
+                        <td className="text-right tabular-nums">{formatOut(w.consommation)}</td>
+                        <td className="text-right tabular-nums">{formatOut(w.autre)}</td>
+                        <td className="text-right tabular-nums font-semibold">{formatCount(w.end)}</td>
+                        <td className="text-xs">
+                          {w.ecarts.length === 0 ? (
+                            <span className="inline-flex items-center gap-1 text-emerald-700 dark:text-emerald-400">
+                              <CheckCircle2 className="h-3.5 w-3.5" />
+                              OK
+                            </span>
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {w.ecarts.map((e) => (
+                                <li key={e.kind}>
+                                  <Link
+                                    to={e.link}
+                                    className="inline-flex items-center gap-1 font-medium text-red-600 hover:underline dark:text-red-400"
+                                    title={`Saisi ${formatCount(e.recorded)} · attendu ${formatCount(e.expected)}`}
+                                  >
+                                    <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                                    {EFFECTIF_ECART_LABELS[e.kind]} ({formatCount(e.ecart, true)})
+                                  </Link>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </AppLayout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useSearchParams } from "react-router-dom";
 import { ArrowLeft, Building2, Download, FileSpreadsheet, FileText, Loader2 } from "lucide-react";
 import {
@@ -21,7 +21,8 @@ import DailyReportTable from "@/components/reporting/DailyReportTable";
 import SavedDaysOverview from "@/components/reporting/SavedDaysOverview";
 import { useAuth } from "@/contexts/AuthContext";
 import { api, type FarmResponse, type LotWithStatusResponse } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { exportToExcel, exportToPdf } from "@/lib/reportingJournalierExport";
 import { useToast } from "@/hooks/use-toast";
 
@@ -34,14 +35,13 @@ export default function ReportingJournalier() {
   const [searchParams, setSearchParams] = useSearchParams();
   const farmIdParam = searchParams.get("farmId");
   const lotParam = searchParams.get("lot") ?? "";
+  /** Drill-down links (dashboard alertes sanitaires) open the day directly: ?farmId=…&lot=…&date=yyyy-mm-dd */
+  const dateParam = searchParams.get("date");
   const selectedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
   const isValidFarmId = selectedFarmId != null && !Number.isNaN(selectedFarmId);
   const hasLotInUrl = lotParam.trim() !== "";
 
   const {
-    user,
-    isAdministrateur,
-    isResponsableTechnique,
     isBackofficeEmployer,
     canAccessAllFarms,
     isReadOnly,
@@ -57,14 +57,7 @@ export default function ReportingJournalier() {
   const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
   const [lotsLoading, setLotsLoading] = useState(false);
   const { toast } = useToast();
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     hasLotInUrl &&
       lotParam.trim() &&
@@ -77,6 +70,13 @@ export default function ReportingJournalier() {
 
   const today = new Date().toISOString().split("T")[0];
 
+  useEffect(() => {
+    if (!dateParam || !hasLotInUrl) return;
+    setSelectedDate(dateParam);
+    setIsNewReport(false);
+    setViewMode("form");
+  }, [dateParam, hasLotInUrl]);
+
   useEffect(() => {
     if (!showFarmSelector) return;
     setFarmsLoading(true);
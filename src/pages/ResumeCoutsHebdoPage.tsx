@@ -5,7 +5,6 @@
  * URL: /suivi-technique-hebdomadaire/resume-couts?farmId=8&lot=1&semaine=S1&batiments=B1,B2,B3,B4
  */
 
-import { useState, useEffect } from "react";
 import { useSearchParams, Link } from "react-router-dom";
 import { ArrowLeft, Loader2, Download, FileSpreadsheet, FileText } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
@@ -23,7 +22,8 @@ import {
 } from "@/components/ui/tooltip";
 import { ShimmerButton } from "@/components/ui/shimmer-button";
 import ResumeCoutsHebdoTable from "@/components/suivi-technique/ResumeCoutsHebdoTable";
-import { api, type FarmResponse, getStoredSelectedFarm } from "@/lib/api";
+import { getStoredSelectedFarm } from "@/lib/api";
+import { useCoutResumeSummaryQuery, useFarmsQuery } from "@/hooks/useApiQueries";
 import { useAuth } from "@/contexts/AuthContext";
 import { exportToExcel, exportToPdf } from "@/lib/resumeCoutsHebdoExport";
 import { toOptionalNumber } from "@/lib/formatResumeAmount";
@@ -45,34 +45,11 @@ export default function ResumeCoutsHebdoPage() {
       .map((b) => b.trim())
       .filter(Boolean) ?? DEFAULT_BATIMENTS;
 
-  const [loading, setLoading] = useState(true);
-  const [summary, setSummary] = useState<Awaited<ReturnType<typeof api.suiviCoutHebdo.getResumeSummary>> | null>(null);
-  const [farms, setFarms] = useState<FarmResponse[]>([]);
-
-  const batimentsKey = batimentsParam?.trim() ?? "";
-
-  useEffect(() => {
-    api.farms.list().then((data) => setFarms(data ?? [])).catch(() => setFarms([]));
-  }, []);
-
-  useEffect(() => {
-    if (!farmId || !lot || !semaine || allBatiments.length === 0) {
-      setLoading(false);
-      setSummary(null);
-      return;
-    }
-    setLoading(true);
-    api.suiviCoutHebdo
-      .getResumeSummary({
-        farmId,
-        lot,
-        semaine,
-        batiments: allBatiments.join(","),
-      })
-      .then((data) => setSummary(data ?? null))
-      .catch(() => setSummary(null))
-      .finally(() => setLoading(false));
-  }, [farmId, lot, semaine, batimentsKey]);
+  const farms = useFarmsQuery().data ?? [];
+  // Shared cache with Dashboard / Résumé production; refreshed by writes through useApiMutations (e.g. stock, coûts)
+  const summaryQuery = useCoutResumeSummaryQuery({ farmId, lot, semaine, batiments: allBatiments.join(",") });
+  const loading = summaryQuery.isPending && summaryQuery.fetchStatus !== "idle";
+  const summary = summaryQuery.isError ? null : (summaryQuery.data ?? null);
 
   const backUrl =
     farmId != null && lot && semaine
@@ -208,11 +185,6 @@ export default function ResumeCoutsHebdoPage() {
           canUpdate={canUpdate}
           farmId={farmId}
           lot={lot}
-          onSaveSuccess={() =>
-            api.suiviCoutHebdo
-              .getResumeSummary({ farmId, lot, semaine, batiments: allBatiments.join(",") })
-              .then((data) => setSummary(data ?? null))
-          }
         />
       )}
     </AppLayout>
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useCallback, useMemo, useRef } from "react";
 import { useSearchParams, Link } from "react-router-dom";
 import { ArrowLeft, Download, FileSpreadsheet, FileText } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
@@ -16,7 +16,7 @@ import {
 } from "@/components/ui/tooltip";
 import { ShimmerButton } from "@/components/ui/shimmer-button";
 import WeeklyProductionSummaryContent from "@/components/suivi-technique/WeeklyProductionSummaryContent";
-import { api, type FarmResponse, getStoredSelectedFarm } from "@/lib/api";
+import { getStoredSelectedFarm } from "@/lib/api";
 import {
   exportToExcel,
   exportToPdf,
@@ -25,6 +25,7 @@ import {
 import { toOptionalNumber } from "@/lib/formatResumeAmount";
 import { canonicalSemaine } from "@/lib/semaineCanonical";
 import { useToast } from "@/hooks/use-toast";
+import { useCoutResumeSummaryQuery, useFarmsQuery } from "@/hooks/useApiQueries";
 
 const DEFAULT_BATIMENTS = ["B1", "B2", "B3", "B4"];
 
@@ -61,9 +62,16 @@ export default function ResumeProductionHebdoPage() {
     [batimentsParam]
   );
 
-  const [coutSummary, setCoutSummary] = useState<Awaited<ReturnType<typeof api.suiviCoutHebdo.getResumeSummary>> | null>(null);
-  const [farms, setFarms] = useState<FarmResponse[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Same cache entries as Résumé des coûts (shared keys, see queryKeys.ts)
+  const farms = useFarmsQuery().data ?? [];
+  const coutSummaryQuery = useCoutResumeSummaryQuery({
+    farmId,
+    lot,
+    semaine: semaineCanon,
+    batiments: allBatiments.join(","),
+  });
+  const coutSummary = coutSummaryQuery.isError ? null : (coutSummaryQuery.data ?? null);
+  const loading = coutSummaryQuery.isPending && coutSummaryQuery.fetchStatus !== "idle";
   
   // Use ref instead of state to avoid extra renders
   const exportParamsRef = useRef<ResumeProductionHebdoExportParams | null>(null);
@@ -72,31 +80,6 @@ export default function ResumeProductionHebdoPage() {
     exportParamsRef.current = params;
   }, []);
 
-  // Fetch farms and coutSummary in parallel
-  useEffect(() => {
-    if (!farmId || !lot || !semaineCanon || allBatiments.length === 0) {
-      setCoutSummary(null);
-      setLoading(false);
-      return;
-    }
-
-    setLoading(true);
-    
-    Promise.all([
-      api.farms.list().catch(() => []),
-      api.suiviCoutHebdo.getResumeSummary({
-        farmId,
-        lot,
-        semaine: semaineCanon,
-        batiments: allBatiments.join(","),
-      }).catch(() => null),
-    ]).then(([farmsData, summaryData]) => {
-      setFarms(farmsData ?? []);
-      setCoutSummary(summaryData ?? null);
-      setLoading(false);
-    });
-  }, [farmId, lot, semaineCanon, allBatiments]);
-
   const effectifRestantFinSemaine = toOptionalNumber(coutSummary?.effectifRestantFinSemaine);
   const totalNbreProduction = toOptionalNumber(coutSummary?.totalNbreProduction);
   const poidsVifProduitKg = toOptionalNumber(coutSummary?.poidsVifProduitKg);
@@ -1,7 +1,8 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useSearchParams } from "react-router-dom";
-import { ArrowLeft, Building2, Calendar, Check, Loader2, Plus, Tag, Trash2, Eraser, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { ArrowLeft, Building2, Calendar, Check, Loader2, Plus, Tag, Trash2, Eraser, History, Download, FileSpreadsheet, FileText } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
+import RejectedRowMarker from "@/components/verification/RejectedRowMarker";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,9 +18,22 @@ import {
 } from "@/components/ui/tooltip";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import { useToast } from "@/hooks/use-toast";
+import { useConflictResolver } from "@/hooks/useConflictResolver";
+import { useRowHistory } from "@/hooks/useRowHistory";
+import { useRowFieldErrors } from "@/hooks/useRowFieldErrors";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { useDraftStash } from "@/hooks/useDraftStash";
 import { useAuth } from "@/contexts/AuthContext";
-import { api, type FarmResponse, type SortieRequest, type SortieResponse, type LotWithStatusResponse } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import {
+  api,
+  ApiConflictError,
+  type FarmResponse,
+  type SortieRequest,
+  type SortieResponse,
+  type LotWithStatusResponse,
+} from "@/lib/api";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
 import { sortSemaines } from "@/utils/semaineAgeUtils";
 import { exportToExcel, exportToPdf } from "@/lib/sortiesFermeExport";
 import { formatGroupedNumber, toOptionalNumber } from "@/lib/formatResumeAmount";
@@ -32,7 +46,11 @@ import {
   sortiesFermeTotalRowLabelColSpan,
   sortiesFermeResolvedMontant,
   sortiesFermeEffectiveMontantForTotal,
+  SORTIES_FERME_CONFLICT_FIELDS,
 } from "@/lib/sortiesFermeShared";
+import { withConflictFieldsFrom } from "@/lib/conflictMerge";
+import { canEditSavedRow, rowRejection, type RowRejection } from "@/lib/verificationShared";
+import { hasUnsavedGridRows } from "@/lib/draftStash";
 
 /**
  * Permissions alignées sur Livraisons Aliment : canCreate / canUpdate / hasFullAccess.
@@ -200,6 +218,10 @@ interface SortieRow {
   id: string;
   /** Set when row is loaded from API (saved); used for readOnly and delete permission */
   serverId?: number;
+  /** Rejected in the À vérifier inbox: editable once more to correct it. */
+  rejection?: RowRejection | null;
+  /** Server version of the saved row (optimistic locking). */
+  version?: number | null;
   semaine: string;
   date: string;
   lot: string;
@@ -227,8 +249,6 @@ export default function SortiesFerme() {
 
   const {
     user,
-    isAdministrateur,
-    isResponsableTechnique,
     canAccessAllFarms,
     isReadOnly,
     canCreate,
@@ -246,14 +266,7 @@ export default function SortiesFerme() {
   const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
   const [lotsLoading, setLotsLoading] = useState(false);
   const [rows, setRows] = useState<SortieRow[]>([]);
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     lotParam.trim() &&
       isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotParam.trim()), lotAccessCtx)
@@ -265,6 +278,17 @@ export default function SortiesFerme() {
   const [newSemaineInput, setNewSemaineInput] = useState("");
   const originalSavedRowsRef = useRef<Map<number, SortieRow>>(new Map());
   const { toast } = useToast();
+  const conflicts = useConflictResolver<SortieRequest>();
+  const rowHistory = useRowHistory();
+  const fieldErrors = useRowFieldErrors();
+  const invalidateAfterWrite = useInvalidateAfterWrite();
+  useDraftStash({
+    scope: "sortiesFerme",
+    draft: rows,
+    isDirty: (draftRows) => hasUnsavedGridRows(draftRows, (r) => emptyRow(r.lot, r.semaine, r.date)),
+    ready: !loading,
+    restore: setRows,
+  });
   const today = new Date().toISOString().split("T")[0];
 
   useEffect(() => {
@@ -368,6 +392,8 @@ export default function SortiesFerme() {
       const mapped: SortieRow[] = list.map((r: SortieResponse) => ({
         id: crypto.randomUUID(),
         serverId: r.id,
+        rejection: rowRejection(r),
+        version: r.version,
         semaine: normalizedSemaine(r.semaine),
         date: r.date ?? "",
         lot: r.lot ?? "",
@@ -472,7 +498,10 @@ export default function SortiesFerme() {
     if (row?.serverId != null) {
       api.sorties
         .delete(row.serverId)
-        .then(() => loadSorties())
+        .then(() => {
+          void invalidateAfterWrite("sorties", { farmId: pageFarmId, lot: lotParam });
+          loadSorties();
+        })
         .catch(() => { /* API error — logged in backend only */ });
       return;
     }
@@ -490,6 +519,7 @@ export default function SortiesFerme() {
       .delete(row.serverId)
       .then(() => {
         toast({ title: "Ligne supprimée", description: `L'enregistrement a été supprimé de la base de données.` });
+        void invalidateAfterWrite("sorties", { farmId: pageFarmId, lot: lotParam });
         loadSorties();
       })
       .catch(() => {
@@ -498,6 +528,7 @@ export default function SortiesFerme() {
   };
 
   const updateRow = (id: string, field: keyof SortieRow, value: string) => {
+    fieldErrors.clearField(id, field);
     setRows((prev) =>
       prev.map((r) => {
         if (r.id !== id) return r;
@@ -544,9 +575,66 @@ export default function SortiesFerme() {
       qte_brute_kg: qParsed ?? null,
       prix_kg: Number.isFinite(prix) && prix > 0 ? prix : null,
       montant_ttc: montant != null && Number.isFinite(montant) ? montant : null,
+      version: r.version ?? null,
     };
   };
 
+  /** Auto-sync to production after successful save (silent, no user notification). */
+  const syncToProduction = async () => {
+    if (!pageFarmId) return;
+    try {
+      const token = sessionStorage.getItem('elevagepro_token');
+      const apiBase = import.meta.env.VITE_API_URL || 'http://localhost:7070';
+      await fetch(`${apiBase}/api/sorties/sync-to-production?lot=${encodeURIComponent(lotParam.trim())}&semaine=${encodeURIComponent(selectedSemaine)}&farmId=${pageFarmId}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+    } catch {
+      // Silent failure - sync happens in background
+    }
+    // Production, stock and prix de revient of the lot are derived from the sorties
+    void invalidateAfterWrite("sorties", { farmId: pageFarmId, lot: lotParam });
+  };
+
+  /** 409 on update: merge with the server's current row, then update again on the server version. */
+  const resolveSaveConflict = async (row: SortieRow & { serverId: number }, req: SortieRequest, e: ApiConflictError) => {
+    let theirs = e.current as SortieResponse | null;
+    if (!theirs) {
+      const list = await api.sorties
+        .list({ farmId: pageFarmId ?? undefined, lot: lotParam.trim() || undefined })
+        .catch((): SortieResponse[] => []);
+      theirs = list.find((r) => r.id === row.serverId) ?? null;
+    }
+    if (!theirs) {
+      toast({ title: "Conflit", description: e.message, variant: "destructive" });
+      loadSorties();
+      return;
+    }
+    const merged = await conflicts.resolve({
+      title: `Conflit — sortie du ${row.date}`,
+      fields: SORTIES_FERME_CONFLICT_FIELDS,
+      mine: req,
+      theirs: withConflictFieldsFrom(SORTIES_FERME_CONFLICT_FIELDS, req, theirs),
+    });
+    if (!merged) {
+      toast({ title: "Version serveur conservée", description: "Vos modifications sur cette ligne ont été abandonnées." });
+      loadSorties();
+      return;
+    }
+    try {
+      await api.sorties.update(row.serverId, { ...merged, version: theirs.version }, undefined);
+      toast({ title: "Ligne mise à jour", description: `Le ${row.date} a été mis à jour (fusion).` });
+      window.dispatchEvent(new CustomEvent('priceAlertChanged'));
+      await syncToProduction();
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer la ligne.", variant: "destructive" });
+    }
+    loadSorties();
+  };
+
   /** Save one row: create (batch d’un élément) ou update — même logique que LivraisonsAliment. */
   const saveRow = async (row: SortieRow) => {
     const canSaveNew = row.serverId == null && canCreate;
@@ -596,6 +684,7 @@ export default function SortiesFerme() {
     }
 
     setSavingRowId(row.id);
+    fieldErrors.clearRow(row.id);
     try {
       if (row.serverId == null) {
         const createdList = await api.sorties.createBatch([req], pageFarmId ?? undefined);
@@ -609,58 +698,38 @@ export default function SortiesFerme() {
         window.dispatchEvent(new CustomEvent('priceAlertChanged'));
         setRows((prev) =>
           prev.map((r) =>
-            r.id === row.id ? { ...r, serverId: created.id } : r
+            r.id === row.id ? { ...r, serverId: created.id, version: created.version } : r
           )
         );
-        const merged: SortieRow = { ...row, serverId: created.id };
+        const merged: SortieRow = { ...row, serverId: created.id, version: created.version };
         originalSavedRowsRef.current.set(created.id, { ...merged });
         
         // Auto-sync to production after successful save (silent, no user notification)
-        if (pageFarmId) {
-          try {
-            const token = sessionStorage.getItem('elevagepro_token');
-            const apiBase = import.meta.env.VITE_API_URL || 'http://localhost:7070';
-            await fetch(`${apiBase}/api/sorties/sync-to-production?lot=${encodeURIComponent(lotParam.trim())}&semaine=${encodeURIComponent(selectedSemaine)}&farmId=${pageFarmId}`, {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json',
-              },
-            });
-          } catch {
-            // Silent failure - sync happens in background
-          }
-        }
+        await syncToProduction();
         
         return;
       }
 
       await api.sorties.update(row.serverId, req, undefined);
+      // Corrected after a rejection: back in the À vérifier queue
+      setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, rejection: null } : r)));
       originalSavedRowsRef.current.set(row.serverId, { ...row });
       toast({ title: "Ligne mise à jour", description: `Le ${row.date} a été mis à jour.` });
       // Dispatch event to refresh price alert counter immediately
       window.dispatchEvent(new CustomEvent('priceAlertChanged'));
       
       // Auto-sync to production after successful save (silent, no user notification)
-      if (pageFarmId) {
-        try {
-          const token = sessionStorage.getItem('elevagepro_token');
-          const apiBase = import.meta.env.VITE_API_URL || 'http://localhost:7070';
-          await fetch(`${apiBase}/api/sorties/sync-to-production?lot=${encodeURIComponent(lotParam.trim())}&semaine=${encodeURIComponent(selectedSemaine)}&farmId=${pageFarmId}`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          });
-        } catch {
-          // Silent failure - sync happens in background
-        }
-      }
+      await syncToProduction();
       
       loadSorties();
-    } catch {
-      toast({ title: "Erreur", description: "Impossible d'enregistrer la ligne.", variant: "destructive" });
+    } catch (e) {
+      if (e instanceof ApiConflictError && row.serverId != null) {
+        await resolveSaveConflict({ ...row, serverId: row.serverId }, req, e);
+      } else if (fieldErrors.capture(row.id, e)) {
+        toast({ title: "Valeurs invalides", description: "Corrigez les cellules signalées en rouge.", variant: "destructive" });
+      } else {
+        toast({ title: "Erreur", description: "Impossible d'enregistrer la ligne.", variant: "destructive" });
+      }
     } finally {
       setSavingRowId(null);
     }
@@ -1073,15 +1142,18 @@ export default function SortiesFerme() {
                           const rowReadOnly =
                             isReadOnly ||
                             (row.serverId == null && !canCreate) ||
-                            (row.serverId != null && !canUpdate);
+                            (row.serverId != null && !canEditSavedRow(canUpdate, row, user?.username));
                           const canSaveRow =
-                            (row.serverId == null && canCreate) || (row.serverId != null && canUpdate);
+                            (row.serverId == null && canCreate) || (row.serverId != null && canEditSavedRow(canUpdate, row, user?.username));
                           const showDelete = row.serverId != null ? hasFullAccess : canCreate;
                           const isSaving = savingRowId === row.id;
                           return (
                             <tr key={row.id}>
 
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "date")}
+                                title={fieldErrors.fieldError(row.id, "date") ?? undefined}
+                              >
                                 <input
                                   type="date"
                                   value={row.date}
@@ -1090,7 +1162,10 @@ export default function SortiesFerme() {
                                   className="bg-transparent border-0 outline-none text-sm w-full"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "semaine")}
+                                title={fieldErrors.fieldError(row.id, "semaine") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.semaine}
@@ -1100,7 +1175,10 @@ export default function SortiesFerme() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "client")}
+                                title={fieldErrors.fieldError(row.id, "client") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.client}
@@ -1110,7 +1188,10 @@ export default function SortiesFerme() {
                                   disabled={rowReadOnly}
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "num_bl")}
+                                title={fieldErrors.fieldError(row.id, "num_bl") ?? undefined}
+                              >
                                 <input
                                   type="text"
                                   value={row.num_bl}
@@ -1120,7 +1201,10 @@ export default function SortiesFerme() {
                                   className="w-full min-w-0 bg-transparent border-0 outline-none text-sm"
                                 />
                               </td>
-                              <td>
+                              <td
+                                className={fieldErrors.cellClass(row.id, "type")}
+                                title={fieldErrors.fieldError(row.id, "type") ?? undefined}
+                              >
                                 <select
                                   value={row.type}
                                   onChange={(e) => updateRow(row.id, "type", e.target.value)}
@@ -1132,7 +1216,10 @@ export default function SortiesFerme() {
                                   ))}
                                 </select>
                               </td>
-                              <td className="min-w-[120px]">
+                              <td
+                                className={`min-w-[120px] ${fieldErrors.cellClass(row.id, "designation")}`}
+                                title={fieldErrors.fieldError(row.id, "designation") ?? undefined}
+                              >
                                 {(row.type === "Vente Aliment" || row.type === "Vente Fumier") ? (
                                   <div className="relative">
                                     <input
@@ -1171,7 +1258,10 @@ export default function SortiesFerme() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "nbre_dinde")}`}
+                                title={fieldErrors.fieldError(row.id, "nbre_dinde") ?? undefined}
+                              >
                                 {rowReadOnly || typeDisablesNbreDinde(row.type) ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {typeDisablesNbreDinde(row.type) ? "—" : formatNbreDisplay(row.nbre_dinde)}
@@ -1188,7 +1278,10 @@ export default function SortiesFerme() {
                                   />
                                 )}
                               </td>
-                              <td className="min-w-[128px] text-center">
+                              <td
+                                className={`min-w-[128px] text-center ${fieldErrors.cellClass(row.id, "qte_brute_kg")}`}
+                                title={fieldErrors.fieldError(row.id, "qte_brute_kg") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatQtyDisplay(row.qte_brute_kg)}
@@ -1205,7 +1298,10 @@ export default function SortiesFerme() {
                                   />
                                 )}
                               </td>
-                              <td className="text-center">
+                              <td
+                                className={`text-center ${fieldErrors.cellClass(row.id, "prix_kg")}`}
+                                title={fieldErrors.fieldError(row.id, "prix_kg") ?? undefined}
+                              >
                                 {rowReadOnly ? (
                                   <span className="block text-center tabular-nums px-1 py-0.5">
                                     {formatMoneyDisplay(row.prix_kg)}
@@ -1222,10 +1318,14 @@ export default function SortiesFerme() {
                                   />
                                 )}
                               </td>
-                              <td className="font-semibold text-sm text-center tabular-nums whitespace-nowrap">
+                              <td
+                                className={`font-semibold text-sm text-center tabular-nums whitespace-nowrap ${fieldErrors.cellClass(row.id, "montant_ttc")}`}
+                                title={fieldErrors.fieldError(row.id, "montant_ttc") ?? undefined}
+                              >
                                 {formatMontantCell(row)}
                               </td>
                               <td className="w-9 max-w-9 shrink-0 !px-1 text-center align-middle">
+                                {row.rejection && <RejectedRowMarker rejection={row.rejection} />}
                                 {canSaveRow && (
                                   <button
                                     type="button"
@@ -1242,8 +1342,25 @@ export default function SortiesFerme() {
                                   </button>
                                 )}
                               </td>
-                              <td className="w-14 max-w-14 shrink-0 !px-1 text-center align-middle">
+                              <td className="w-20 max-w-20 shrink-0 !px-1 text-center align-middle">
                                 <div className="flex gap-0.5 justify-center">
+                                  {row.serverId != null && (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        rowHistory.open({
+                                          entityType: "SORTIE",
+                                          entityId: row.serverId as number,
+                                          title: [row.date, row.designation].filter(Boolean).join(" — "),
+                                          meta: { version: row.version },
+                                        })
+                                      }
+                                      className="text-muted-foreground hover:text-primary transition-colors p-1 inline-flex justify-center items-center rounded hover:bg-muted"
+                                      title="Historique"
+                                    >
+                                      <History className="w-4 h-4" />
+                                    </button>
+                                  )}
                                   {row.serverId != null && hasFullAccess && (
                                     <button
                                       type="button"
@@ -1330,6 +1447,8 @@ export default function SortiesFerme() {
           )}
         </>
       )}
+      {conflicts.dialog}
+      {rowHistory.sheet}
     </AppLayout>
   );
 }
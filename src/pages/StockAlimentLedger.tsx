@@ -0,0 +1,386 @@
+/**
+ * Page "Registre du stock aliment" — /registre-stock-aliment?farmId=8&lot=12
+ * Every feed movement of the lot in order (report, livraisons, ajustements, consommation, comptage, transferts
+ * between bâtiments) with the running theoretical stock, per sex (feedStockLedger.ts). Gaps between theoretical
+ * and counted stock are flagged so they can be corrected before the résumé des coûts is computed.
+ */
+
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Loader2, Warehouse } from "lucide-react";
+import AppLayout from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useFarmsQuery, useLotsWithStatusQuery } from "@/hooks/useApiQueries";
+import { formatGroupedNumber } from "@/lib/formatResumeAmount";
+import {
+  buildFeedStockLedger,
+  FEED_LEDGER_FLAG_LABELS,
+  FEED_LEDGER_KIND_LABELS,
+  loadFeedStockLedgerSources,
+  type FeedLedgerEntryKind,
+} from "@/lib/feedStockLedger";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess } from "@/hooks/usePermission";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+
+const KIND_COLORS: Record<FeedLedgerEntryKind, string> = {
+  opening: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
+  delivery: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/50 dark:text-emerald-300",
+  adjustment: "bg-violet-100 text-violet-700 dark:bg-violet-950/50 dark:text-violet-300",
+  transfer: "bg-sky-100 text-sky-700 dark:bg-sky-950/50 dark:text-sky-300",
+  consumption: "bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300",
+  count: "bg-blue-100 text-blue-700 dark:bg-blue-950/50 dark:text-blue-300",
+};
+
+function formatKg(value: number | null | undefined, signed = false): string {
+  if (value == null) return "—";
+  const text = formatGroupedNumber(Math.abs(value) < 0.005 ? 0 : value, 2);
+  return signed && value > 0 ? `+${text}` : text;
+}
+
+/** Display yyyy-mm-dd as dd/mm/yyyy. */
+function formatDay(iso: string | null): string {
+  if (!iso) return "";
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? `${m[3]}/${m[2]}/${m[1]}` : iso;
+}
+
+export default function StockAlimentLedger() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const farmIdParam = searchParams.get("farmId");
+  const parsedFarmId = farmIdParam ? parseInt(farmIdParam, 10) : null;
+  const lot = (searchParams.get("lot") ?? "").trim();
+  const {
+    canAccessAllFarms,
+    selectedFarmId: authSelectedFarmId,
+  } = useAuth();
+  const farmId = parsedFarmId != null && !Number.isNaN(parsedFarmId) ? parsedFarmId : authSelectedFarmId;
+
+  const [sexFilter, setSexFilter] = useState("");
+  const [batimentFilter, setBatimentFilter] = useState("");
+  const [anomaliesOnly, setAnomaliesOnly] = useState(false);
+
+  const farmsQuery = useFarmsQuery(canAccessAllFarms);
+  const lotsQuery = useLotsWithStatusQuery(farmId);
+  const lotAccessCtx = useClosedLotAccess();
+  const lotStatus = lotsQuery.data?.find((l) => l.lot === lot);
+  const isBlocked = isClosedLotBlockedForSession(lotStatus, lotAccessCtx);
+
+  const ledgerQuery = useQuery({
+    queryKey: queryKeys.feedStockLedger.get({ farmId, lot }),
+    queryFn: async () =>
+      buildFeedStockLedger(await loadFeedStockLedgerSources(farmId as number, lot), farmId as number, lot),
+    enabled: farmId != null && Boolean(lot) && !isBlocked,
+  });
+  const ledger = ledgerQuery.data;
+
+  const sex = sexFilter || ledger?.sexes[0]?.sex || "";
+  const batiments = ledger?.sexes.find((s) => s.sex === sex)?.batiments ?? [];
+  const summaries = useMemo(() => (ledger?.summaries ?? []).filter((s) => s.sex === sex), [ledger, sex]);
+  const entries = useMemo(
+    () =>
+      (ledger?.entries ?? []).filter(
+        (e) =>
+          e.sex === sex &&
+          (!batimentFilter || e.batiment == null || e.batiment === batimentFilter) &&
+          (!anomaliesOnly || e.flags.length > 0)
+      ),
+    [ledger, sex, batimentFilter, anomaliesOnly]
+  );
+  const anomalyCount = (ledger?.entries ?? []).filter((e) => e.sex === sex && e.flags.length > 0).length;
+
+  const setParam = (key: "farmId" | "lot", value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    if (key === "farmId") next.delete("lot");
+    setSearchParams(next);
+  };
+
+  return (
+    <AppLayout>
+      <div className="page-header">
+        <h1>Registre du stock aliment</h1>
+        <p>
+          Livraisons, consommation, comptages et transferts entre bâtiments, avec le stock théorique ligne par ligne.
+          Les écarts avec le stock compté sont signalés avant le calcul du résumé des coûts.
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg border border-border shadow-sm p-4 mb-6 flex flex-wrap items-end gap-4">
+        {canAccessAllFarms && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+            Ferme
+            <select
+              value={farmId != null ? String(farmId) : ""}
+              onChange={(e) => setParam("farmId", e.target.value)}
+              className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[180px]"
+            >
+              <option value="">Choisir une ferme…</option>
+              {(farmsQuery.data ?? []).map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+          Lot
+          <select
+            value={lot}
+            onChange={(e) => setParam("lot", e.target.value)}
+            disabled={farmId == null}
+            className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground min-w-[120px]"
+          >
+            <option value="">Choisir un lot…</option>
+            {(lotsQuery.data ?? []).map((l) => (
+              <option key={l.lot} value={l.lot}>
+                {l.lot}
+                {l.closed ? " (fermé)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        {ledger && ledger.sexes.length > 0 && (
+          <>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Sexe
+              <select
+                value={sex}
+                onChange={(e) => {
+                  setSexFilter(e.target.value);
+                  setBatimentFilter("");
+                }}
+                className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground"
+              >
+                {ledger.sexes.map((s) => (
+                  <option key={s.sex} value={s.sex}>
+                    {s.sex}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-muted-foreground">
+              Bâtiment
+              <select
+                value={batimentFilter}
+                onChange={(e) => setBatimentFilter(e.target.value)}
+                className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground"
+              >
+                <option value="">Tous</option>
+                {batiments.map((b) => (
+                  <option key={b} value={b}>
+                    {b}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground pb-1.5">
+              <input type="checkbox" checked={anomaliesOnly} onChange={(e) => setAnomaliesOnly(e.target.checked)} />
+              Anomalies seulement ({anomalyCount})
+            </label>
+          </>
+        )}
+      </div>
+
+      {farmId == null || !lot ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <Warehouse className="mx-auto mb-2 h-8 w-8 opacity-50" />
+          <p>Choisissez une ferme et un lot pour afficher le registre.</p>
+        </div>
+      ) : isBlocked ? (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 p-4">
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            Ce lot est fermé. Les données ne sont pas accessibles.
+          </p>
+        </div>
+      ) : ledgerQuery.isPending ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          <span>Chargement du registre…</span>
+        </div>
+      ) : ledgerQuery.isError ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/40 p-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">
+            Impossible de charger le registre : les livraisons, le suivi hebdomadaire ou les stocks n'ont pas pu être lus.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => void ledgerQuery.refetch()}>
+            Réessayer
+          </Button>
+        </div>
+      ) : !ledger || ledger.sexes.length === 0 || ledger.weeks.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-center text-muted-foreground">
+          <p>Aucune donnée de stock pour ce lot (bâtiments mis en place, livraisons ou suivi hebdomadaire).</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {ledger.unassignedMovements.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 p-4 text-sm text-amber-800 dark:text-amber-200">
+              {ledger.unassignedMovements.length} livraison(s) sans semaine ou sans répartition par sexe ne sont pas
+              imputées au stock.{" "}
+              <Link
+                to={`/livraisons-aliment?farmId=${farmId}&lot=${encodeURIComponent(lot)}`}
+                className="font-medium underline"
+              >
+                Compléter les livraisons
+              </Link>
+            </div>
+          )}
+
+          <div className="bg-card rounded-lg border border-border shadow-sm w-full min-w-0">
+            <div className="px-5 py-4 border-b border-border">
+              <h2 className="text-lg font-display font-bold text-foreground">Synthèse par semaine — {sex}</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="table-farm">
+                <thead>
+                  <tr>
+                    <th>SEM</th>
+                    <th className="!text-right">REPORT</th>
+                    <th className="!text-right">LIVRÉ</th>
+                    <th className="!text-right">AJUSTÉ</th>
+                    <th className="!text-right">CONSOMMÉ</th>
+                    <th className="!text-right">STOCK COMPTÉ</th>
+                    <th className="!text-right">ÉCART</th>
+                    <th>CONTRÔLE</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summaries.map((s) => (
+                    <tr key={s.semaine}>
+                      <td className="font-medium">{s.semaine}</td>
+                      <td className="text-right tabular-nums">{formatKg(s.openingKg)}</td>
+                      <td className="text-right tabular-nums">{formatKg(s.deliveredKg)}</td>
+                      <td className="text-right tabular-nums">{s.adjustedKg !== 0 ? formatKg(s.adjustedKg, true) : "—"}</td>
+                      <td className="text-right tabular-nums">{formatKg(s.consumedKg)}</td>
+                      <td className="text-right tabular-nums">{formatKg(s.closingCountedKg)}</td>
+                      <td
+                        className={cn(
+                          "text-right tabular-nums",
+                          s.flags.includes("gap") && "font-semibold text-red-600 dark:text-red-400"
+                        )}
+                      >
+                        {formatKg(s.gapKg, true)}
+                      </td>
+                      <td className="text-xs">
+                        {s.flags.length === 0 ? (
+                          <span className="inline-flex items-center gap-1 text-emerald-700 dark:text-emerald-400">
+                            <CheckCircle2 className="w-3.5 h-3.5" /> OK
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                            <AlertTriangle className="w-3.5 h-3.5" />
+                            {s.flags.map((f) => FEED_LEDGER_FLAG_LABELS[f]).join(" · ")}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-card rounded-lg border border-border shadow-sm w-full min-w-0">
+            <div className="px-5 py-4 border-b border-border">
+              <h2 className="text-lg font-display font-bold text-foreground">Mouvements — {sex}</h2>
+              <p className="text-xs text-muted-foreground mt-1">
+                Stock théorique = report + livraisons ± ajustements − consommation ; après chaque comptage il repart du
+                stock compté, transféré au bâtiment suivant.
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="table-farm">
+                <thead>
+                  <tr>
+                    <th>SEM</th>
+                    <th>DATE</th>
+                    <th>TYPE</th>
+                    <th>LIBELLÉ</th>
+                    <th className="!text-right">MOUVEMENT (kg)</th>
+                    <th className="!text-right">STOCK THÉORIQUE</th>
+                    <th className="!text-right">COMPTÉ</th>
+                    <th className="!text-right">ÉCART</th>
+                    <th className="!text-right">STOCK ENREGISTRÉ</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={10} className="text-center text-muted-foreground py-6">
+                        Aucun mouvement avec les filtres sélectionnés.
+                      </td>
+                    </tr>
+                  ) : (
+                    entries.map((e) => (
+                      <tr
+                        key={e.key}
+                        className={cn(
+                          e.kind === "opening" && "bg-muted/40",
+                          e.flags.length > 0 && "bg-amber-50/70 dark:bg-amber-950/20"
+                        )}
+                        title={e.flags.map((f) => FEED_LEDGER_FLAG_LABELS[f]).join(" · ") || undefined}
+                      >
+                        <td className="font-medium">{e.semaine}</td>
+                        <td className="text-sm whitespace-nowrap">{formatDay(e.date)}</td>
+                        <td>
+                          <span className={cn("rounded px-1.5 py-0.5 text-[11px] font-medium", KIND_COLORS[e.kind])}>
+                            {FEED_LEDGER_KIND_LABELS[e.kind]}
+                          </span>
+                        </td>
+                        <td className="text-sm">
+                          {e.label}
+                          {e.flags.length > 0 && (
+                            <span className="ml-2 inline-flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400">
+                              <AlertTriangle className="w-3 h-3" />
+                              {e.flags.map((f) => FEED_LEDGER_FLAG_LABELS[f]).join(" · ")}
+                            </span>
+                          )}
+                        </td>
+                        <td
+                          className={cn(
+                            "text-right tabular-nums",
+                            e.quantityKg != null && e.quantityKg < 0 && "text-amber-700 dark:text-amber-400"
+                          )}
+                        >
+                          {formatKg(e.quantityKg, true)}
+                        </td>
+                        <td className="text-right tabular-nums font-medium">{formatKg(e.balanceKg)}</td>
+                        <td className="text-right tabular-nums">{e.kind === "count" ? formatKg(e.countedKg) : ""}</td>
+                        <td
+                          className={cn(
+                            "text-right tabular-nums",
+                            e.flags.includes("gap") && "font-semibold text-red-600 dark:text-red-400"
+                          )}
+                        >
+                          {e.kind === "count" ? formatKg(e.gapKg, true) : ""}
+                        </td>
+                        <td className="text-right tabular-nums text-xs text-muted-foreground">
+                          {e.recordedStockBeforeKg != null || e.recordedStockAfterKg != null
+                            ? `${formatKg(e.recordedStockBeforeKg)} → ${formatKg(e.recordedStockAfterKg)}`
+                            : ""}
+                        </td>
+                        <td className="text-right">
+                          {e.link && (
+                            <Link to={e.link} className="text-xs text-primary hover:underline">
+                              Ouvrir
+                            </Link>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </AppLayout>
+  );
+}
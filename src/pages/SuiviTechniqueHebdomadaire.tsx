@@ -1,10 +1,12 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useSearchParams } from "react-router-dom";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Loader2, Building2, Calendar, Plus, Building, BarChart3, DollarSign, UserPlus, Trash2, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { ArrowLeft, Loader2, Building2, Calendar, Plus, Building, BarChart3, DollarSign, UserPlus, Trash2, Download, FileSpreadsheet, FileText, RefreshCw } from "lucide-react";
 import AppLayout from "@/components/layout/AppLayout";
 import LotSelectorView from "@/components/lot/LotSelectorView";
 import SuiviTechniqueBatimentContent from "@/components/suivi-technique/SuiviTechniqueBatimentContent";
+import HebdoDailySyncDialog from "@/components/suivi-technique/HebdoDailySyncDialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -31,8 +33,12 @@ import {
 import { ShimmerButton } from "@/components/ui/shimmer-button";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
-import { api, type FarmResponse, type SetupInfoResponse, type LotWithStatusResponse, getStoredSelectedFarm } from "@/lib/api";
-import { isClosedLotBlockedForSession, type ClosedLotSessionContext } from "@/lib/lotAccess";
+import { api, type SetupInfoResponse, getStoredSelectedFarm } from "@/lib/api";
+import { useFarmsQuery, useLotsWithStatusQuery, useSetupInfoListQuery } from "@/hooks/useApiQueries";
+import { useInvalidateAfterWrite } from "@/hooks/useApiMutations";
+import { queryKeys } from "@/lib/queryKeys";
+import { isClosedLotBlockedForSession } from "@/lib/lotAccess";
+import { useClosedLotAccess, usePermission } from "@/hooks/usePermission";
 import { exportWeeklyTrackingToExcel, exportWeeklyTrackingToPdf } from "@/lib/weeklyTrackingExportHelper";
 import { formatGroupedNumber } from "@/lib/formatResumeAmount";
 import { QuantityInput } from "@/components/ui/QuantityInput";
@@ -111,48 +117,59 @@ export default function SuiviTechniqueHebdomadaire() {
 
   const {
     user,
-    isAdministrateur,
-    isResponsableTechnique,
-    isBackofficeEmployer,
     canAccessAllFarms,
     isReadOnly,
     selectedFarmId: authSelectedFarmId,
   } = useAuth();
-  const canAccessResumeCouts = isAdministrateur || isResponsableTechnique || isBackofficeEmployer;
+  const canAccessResumeCouts = usePermission("resumeCouts", "read");
+  const invalidateAfterWrite = useInvalidateAfterWrite();
   const { toast } = useToast();
   const navigate = useNavigate();
   const showFarmSelector = canAccessAllFarms && !isValidFarmId;
 
-  const [farms, setFarms] = useState<FarmResponse[]>([]);
-  const [farmsLoading, setFarmsLoading] = useState(showFarmSelector);
-  const [lots, setLots] = useState<string[]>([]);
-  const [lotsWithStatus, setLotsWithStatus] = useState<LotWithStatusResponse[]>([]);
-  const [lotsLoading, setLotsLoading] = useState(false);
-  const lotAccessCtx: ClosedLotSessionContext = useMemo(
-    () => ({
-      currentUserId: user?.id ?? null,
-      isAdministrateur,
-      isResponsableTechnique,
-    }),
-    [user?.id, isAdministrateur, isResponsableTechnique]
-  );
+  const reportingFarmId = isValidFarmId ? selectedFarmId : (canAccessAllFarms ? undefined : authSelectedFarmId ?? undefined);
+
+  // Farms for admin/RT (farm selector), export farm name when viewing bâtiment, or download per bâtiment
+  const farmsQuery = useFarmsQuery(showFarmSelector || hasContentView || (hasLotInUrl && hasSemaineInUrl));
+  const farms = useMemo(() => farmsQuery.data ?? [], [farmsQuery.data]);
+  const farmsLoading = farmsQuery.isLoading;
+  // Lots of the selected farm (with status for closed-lot blocking)
+  const lotsQuery = useLotsWithStatusQuery(showFarmSelector ? null : reportingFarmId);
+  const lotsWithStatus = useMemo(() => lotsQuery.data ?? [], [lotsQuery.data]);
+  const lots = useMemo(() => lotsWithStatus.map((x) => x.lot), [lotsWithStatus]);
+  const lotsLoading = lotsQuery.isLoading;
+  const lotAccessCtx = useClosedLotAccess();
   const isSelectedLotClosed = Boolean(
     hasLotInUrl &&
       lotParam.trim() &&
       isClosedLotBlockedForSession(lotsWithStatus.find((l) => l.lot === lotParam.trim()), lotAccessCtx)
   );
   
-  /** Setup info data from InfosSetup page - contains building/sex/effectif configurations */
-  const [setupInfoData, setSetupInfoData] = useState<SetupInfoResponse[]>([]);
-  const [loadingSetupInfo, setLoadingSetupInfo] = useState(false);
+  /** The sync creates and updates hebdo lines of the farm. Closed lots stay as they are: no bulk write from the reporting journalier. */
+  const canCreateHebdo = usePermission("donnees", "create", reportingFarmId);
+  const canUpdateHebdo = usePermission("donnees", "update", reportingFarmId);
+  const canSyncDaily =
+    canCreateHebdo &&
+    canUpdateHebdo &&
+    !isReadOnly &&
+    Boolean(lotParam.trim()) &&
+    lotsWithStatus.find((l) => l.lot === lotParam.trim())?.closed !== true;
+
+  /**
+   * Setup info data from InfosSetup page - contains building/sex/effectif configurations.
+   * Building names normalized to standard format (B1, B2, etc.). Not loaded when lot is closed (no data access).
+   */
+  const setupInfoQuery = useSetupInfoListQuery(isSelectedLotClosed ? null : reportingFarmId, lotParam.trim());
+  const setupInfoData = useMemo<SetupInfoResponse[]>(
+    () => (setupInfoQuery.data ?? []).map((d) => ({ ...d, building: normalizeBatimentName(d.building) })),
+    [setupInfoQuery.data]
+  );
 
   const [activeTab, setActiveTab] = useState<TabType>("male");
   /** After batiment is chosen: null = show sex chooser; set when user picks Mâle or Femelle. */
   const [initialSex, setInitialSex] = useState<TabType | null>(null);
   /** True after user confirms "Ajouter l'autre sexe" dialog; then calculated values are copied to the other sex. */
   const [otherSexEnabled, setOtherSexEnabled] = useState(false);
-  /** Loading state for fetching configured sexes from backend. */
-  const [loadingSexes, setLoadingSexes] = useState(false);
   const [newSemaineInput, setNewSemaineInput] = useState("");
   /** Extra batiments added by user (default is B1–B4). */
   const [extraBatiments, setExtraBatiments] = useState<string[]>([]);
@@ -166,6 +183,8 @@ export default function SuiviTechniqueHebdomadaire() {
   /** Dialog: delete all data for the active sex. */
   const [deleteSexDialogOpen, setDeleteSexDialogOpen] = useState(false);
   const [deleteSexLoading, setDeleteSexLoading] = useState(false);
+  /** Dialog: lot-wide sync of the reporting journalier into suivi hebdo (dry run, then apply). */
+  const [dailySyncOpen, setDailySyncOpen] = useState(false);
   /** Export functions from WeeklyTrackingTable */
   const [weeklyTrackingExportFunctions, setWeeklyTrackingExportFunctions] = useState<any>(null);
 
@@ -183,128 +202,84 @@ export default function SuiviTechniqueHebdomadaire() {
     return combined;
   }, [setupInfoData, extraBatiments]);
 
-  // Load farms for admin/RT (farm selector), export farm name when viewing bâtiment, or download per bâtiment
-  useEffect(() => {
-    if (!showFarmSelector && !hasContentView && !(hasLotInUrl && hasSemaineInUrl)) return;
-    setFarmsLoading(true);
-    api.farms
-      .list()
-      .then((list) => setFarms(list ?? []))
-      .catch(() => setFarms([]))
-      .finally(() => setFarmsLoading(false));
-  }, [showFarmSelector, hasContentView, hasLotInUrl, hasSemaineInUrl]);
-
-  const reportingFarmId = isValidFarmId ? selectedFarmId : (canAccessAllFarms ? undefined : authSelectedFarmId ?? undefined);
+  // Configured sexes from backend when batiment and semaine are selected
+  const hasSexScope = Boolean(reportingFarmId && lotParam.trim() && selectedBatiment && trimmedSemaine);
+  const sexScope = { farmId: reportingFarmId, lot: lotParam.trim(), batiment: selectedBatiment, semaine: trimmedSemaine };
+  const sexScopeKey = JSON.stringify(sexScope);
+  const configuredSexesQuery = useQuery({
+    queryKey: queryKeys.suiviTechniqueSetup.configuredSexes(sexScope),
+    queryFn: () => api.suiviTechniqueSetup.getConfiguredSexes({ ...sexScope, farmId: reportingFarmId as number }),
+    enabled: hasSexScope,
+  });
+  const loadingSexes = hasSexScope && (configuredSexesQuery.isPending || setupInfoQuery.isLoading);
+  const configuredSexes = configuredSexesQuery.data;
+  const configuredSexesFailed = configuredSexesQuery.isError;
+  /** Scope whose tabs were already chosen: a refetch after a save must not switch the tab being edited. */
+  const sexTabsScopeRef = useRef<string | null>(null);
 
-  // Fetch configured sexes from backend when batiment and semaine are selected
   // Also check setupInfo data to determine which sexes have effectifMisEnPlace configured
   useEffect(() => {
-    if (!reportingFarmId || !lotParam.trim() || !selectedBatiment || !trimmedSemaine) {
+    if (!hasSexScope) {
+      sexTabsScopeRef.current = null;
       setInitialSex(null);
       setOtherSexEnabled(false);
       return;
     }
+    if (loadingSexes || sexTabsScopeRef.current === sexScopeKey) return;
+    sexTabsScopeRef.current = sexScopeKey;
 
-    setLoadingSexes(true);
-    
     // First check setupInfo to see which sexes have effectifMisEnPlace configured for this batiment
     const setupInfoSexes = setupInfoData
       .filter(info => info.building === selectedBatiment && info.effectifMisEnPlace > 0)
       .map(info => info.sex);
-    
-    api.suiviTechniqueSetup
-      .getConfiguredSexes({ farmId: reportingFarmId, lot: lotParam.trim(), batiment: selectedBatiment, semaine: trimmedSemaine })
-      .then((configuredSexes) => {
-        // Combine configured sexes from suivi and available sexes from setupInfo
-        // A sex is "available" if it has effectifMisEnPlace in setupInfo OR is already configured in suivi
-        const availableSexes = [...new Set([...configuredSexes, ...setupInfoSexes])];
-        
-        if (availableSexes.length === 0) {
-          // No sexes available - show sex chooser (user needs to configure in InfosSetup first)
-          setInitialSex(null);
-          setOtherSexEnabled(false);
-        } else if (availableSexes.length === 1) {
-          // One sex available - show that tab, allow adding the other if it has setupInfo
-          const sex = availableSexes[0];
-          const tabId: TabType = sex === "Mâle" ? "male" : "femelle";
-          setInitialSex(tabId);
-          setActiveTab(tabId);
-          // Check if the other sex has setupInfo configured
-          const otherSex = sex === "Mâle" ? "Femelle" : "Mâle";
-          const otherSexHasSetupInfo = setupInfoData.some(
-            info => info.building === selectedBatiment && info.sex === otherSex && info.effectifMisEnPlace > 0
-          );
-          setOtherSexEnabled(otherSexHasSetupInfo);
-        } else {
-          // Both sexes available - show both tabs
-          // Default to male tab if available, otherwise femelle
-          const defaultTab: TabType = availableSexes.includes("Mâle") ? "male" : "femelle";
-          setInitialSex(defaultTab);
-          setActiveTab(defaultTab);
-          setOtherSexEnabled(true);
-        }
-      })
-      .catch(() => {
-        // On error, try to use setupInfo data only
-        if (setupInfoSexes.length === 0) {
-          setInitialSex(null);
-          setOtherSexEnabled(false);
-        } else if (setupInfoSexes.length === 1) {
-          const sex = setupInfoSexes[0];
-          const tabId: TabType = sex === "Mâle" ? "male" : "femelle";
-          setInitialSex(tabId);
-          setActiveTab(tabId);
-          setOtherSexEnabled(false);
-        } else {
-          setInitialSex("male");
-          setActiveTab("male");
-          setOtherSexEnabled(true);
-        }
-      })
-      .finally(() => setLoadingSexes(false));
-  }, [reportingFarmId, lotParam, selectedBatiment, trimmedSemaine, setupInfoData]);
 
-  // Load lots for selected farm (with status for closed-lot blocking)
-  useEffect(() => {
-    if (showFarmSelector || !reportingFarmId) return;
-    setLotsLoading(true);
-    api.farms
-      .lotsWithStatus(reportingFarmId)
-      .then((data) => {
-        setLotsWithStatus(data ?? []);
-        setLots((data ?? []).map((x) => x.lot));
-      })
-      .catch(() => { setLotsWithStatus([]); setLots([]); })
-      .finally(() => setLotsLoading(false));
-  }, [showFarmSelector, reportingFarmId]);
+    if (configuredSexes) {
+      // Combine configured sexes from suivi and available sexes from setupInfo
+      // A sex is "available" if it has effectifMisEnPlace in setupInfo OR is already configured in suivi
+      const availableSexes = [...new Set([...configuredSexes, ...setupInfoSexes])];
 
-  // Load setupInfo data when lot is selected - this provides building/sex configurations from InfosSetup page
-  // Normalize building names to standard format (B1, B2, etc.). Skip when lot is closed (no data access).
-  useEffect(() => {
-    if (!reportingFarmId || !hasLotInUrl || !lotParam.trim() || isSelectedLotClosed) {
-      setSetupInfoData([]);
-      return;
+      if (availableSexes.length === 0) {
+        // No sexes available - show sex chooser (user needs to configure in InfosSetup first)
+        setInitialSex(null);
+        setOtherSexEnabled(false);
+      } else if (availableSexes.length === 1) {
+        // One sex available - show that tab, allow adding the other if it has setupInfo
+        const sex = availableSexes[0];
+        const tabId: TabType = sex === "Mâle" ? "male" : "femelle";
+        setInitialSex(tabId);
+        setActiveTab(tabId);
+        // Check if the other sex has setupInfo configured
+        const otherSex = sex === "Mâle" ? "Femelle" : "Mâle";
+        const otherSexHasSetupInfo = setupInfoData.some(
+          info => info.building === selectedBatiment && info.sex === otherSex && info.effectifMisEnPlace > 0
+        );
+        setOtherSexEnabled(otherSexHasSetupInfo);
+      } else {
+        // Both sexes available - show both tabs
+        // Default to male tab if available, otherwise femelle
+        const defaultTab: TabType = availableSexes.includes("Mâle") ? "male" : "femelle";
+        setInitialSex(defaultTab);
+        setActiveTab(defaultTab);
+        setOtherSexEnabled(true);
+      }
+    } else if (configuredSexesFailed) {
+      // On error, try to use setupInfo data only
+      if (setupInfoSexes.length === 0) {
+        setInitialSex(null);
+        setOtherSexEnabled(false);
+      } else if (setupInfoSexes.length === 1) {
+        const sex = setupInfoSexes[0];
+        const tabId: TabType = sex === "Mâle" ? "male" : "femelle";
+        setInitialSex(tabId);
+        setActiveTab(tabId);
+        setOtherSexEnabled(false);
+      } else {
+        setInitialSex("male");
+        setActiveTab("male");
+        setOtherSexEnabled(true);
+      }
     }
-    setLoadingSetupInfo(true);
-    api.setupInfo
-      .list(reportingFarmId, lotParam.trim())
-      .then((data) => {
-        // Normalize building names in the loaded data
-        const normalizedData = (data ?? []).map(d => ({
-          ...d,
-          building: normalizeBatimentName(d.building),
-        }));
-        setSetupInfoData(normalizedData);
-        // Extract unique normalized buildings from setupInfo and add to extraBatiments if not already present
-        const setupBuildings = [...new Set(normalizedData.map(d => d.building))];
-        const newBuildings = setupBuildings.filter(b => !DEFAULT_BATIMENTS.includes(b) && !extraBatiments.includes(b));
-        if (newBuildings.length > 0) {
-          setExtraBatiments(prev => [...prev, ...newBuildings]);
-        }
-      })
-      .catch(() => setSetupInfoData([]))
-      .finally(() => setLoadingSetupInfo(false));
-  }, [reportingFarmId, hasLotInUrl, lotParam, isSelectedLotClosed]);
+  }, [hasSexScope, sexScopeKey, loadingSexes, selectedBatiment, configuredSexes, configuredSexesFailed, setupInfoData]);
 
   // Get available sexes for the selected batiment from setupInfo data
   const getAvailableSexesFromSetupInfo = useCallback((batiment: string): BuildingSexSetup[] => {
@@ -423,6 +398,12 @@ export default function SuiviTechniqueHebdomadaire() {
       });
       setDeleteSexDialogOpen(false);
       refreshStock();
+      void invalidateAfterWrite("suiviTechniqueSetup", {
+        farmId: reportingFarmId,
+        lot: lotParam.trim(),
+        semaine: selectedSemaine,
+        batiment: selectedBatiment,
+      });
       const sexes = await api.suiviTechniqueSetup.getConfiguredSexes({
         farmId: reportingFarmId,
         lot: lotParam.trim(),
@@ -453,9 +434,9 @@ export default function SuiviTechniqueHebdomadaire() {
     } finally {
       setDeleteSexLoading(false);
     }
-  }, [reportingFarmId, lotParam, selectedBatiment, selectedSemaine, activeTab, refreshStock, toast]);
+  }, [reportingFarmId, lotParam, selectedBatiment, selectedSemaine, activeTab, refreshStock, invalidateAfterWrite, toast]);
 
-  const canDeleteSexData = isResponsableTechnique || isAdministrateur;
+  const canDeleteSexData = usePermission("lots", "delete", reportingFarmId);
 
   const exportFarmName =
     canAccessAllFarms && isValidFarmId && reportingFarmId != null
@@ -620,9 +601,21 @@ export default function SuiviTechniqueHebdomadaire() {
                   Changer de lot
                 </button>
               </div>
-              <p className="text-sm text-muted-foreground">
-                Choisissez une semaine pour consulter et gérer le suivi technique hebdomadaire.
-              </p>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  Choisissez une semaine pour consulter et gérer le suivi technique hebdomadaire.
+                </p>
+                {canSyncDaily && (
+                  <button
+                    type="button"
+                    onClick={() => setDailySyncOpen(true)}
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-md border border-input bg-background text-sm font-medium hover:bg-muted"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    Remplir depuis le reporting journalier
+                  </button>
+                )}
+              </div>
               <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-12 gap-3">
                 {SEMAINES.map((s) => (
                   <button
@@ -1205,6 +1198,15 @@ export default function SuiviTechniqueHebdomadaire() {
           )}
         </>
       )}
+      {canSyncDaily && reportingFarmId != null && (
+        <HebdoDailySyncDialog
+          open={dailySyncOpen}
+          onOpenChange={setDailySyncOpen}
+          farmId={reportingFarmId}
+          lot={lotParam.trim()}
+          onApplied={refreshStock}
+        />
+      )}
     </AppLayout>
   );
 }
@@ -45,7 +45,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RolePermissionMatrixEditor from "@/components/utilisateurs/RolePermissionMatrixEditor";
 import { useToast } from "@/hooks/use-toast";
+import { useRolesQuery } from "@/hooks/useApiQueries";
+import { roleLabel, roleNeedsAssignedFarms } from "@/lib/permissions";
 
 /** Password rules (aligned with Spring Security BCrypt): 8–72 chars, no common weak passwords */
 const PASSWORD_MIN = 8;
@@ -65,13 +69,6 @@ function validatePassword(pwd: string): string | null {
   return null;
 }
 
-const ROLE_OPTIONS: { value: string; label: string }[] = [
-  { value: "ADMINISTRATEUR", label: "Administrateur" },
-  { value: "RESPONSABLE_TECHNIQUE", label: "Responsable technique" },
-  { value: "RESPONSABLE_FERME", label: "Responsable de ferme" },
-  { value: "BACKOFFICE_EMPLOYER", label: "Employé Back-office" },
-];
-
 function useUsers(isUserManager: boolean, user: { id: number } | null, authLoading: boolean) {
   return useQuery({
     queryKey: ["users", user?.id],
@@ -80,14 +77,6 @@ function useUsers(isUserManager: boolean, user: { id: number } | null, authLoadi
   });
 }
 
-function useRoles(user: { id: number } | null) {
-  return useQuery({
-    queryKey: ["roles", user?.id],
-    queryFn: () => api.roles.list(),
-    enabled: !!user,
-  });
-}
-
 function useFarms(user: { id: number } | null, isUserManager: boolean) {
   return useQuery({
     queryKey: ["farms"],
@@ -98,12 +87,13 @@ function useFarms(user: { id: number } | null, isUserManager: boolean) {
 }
 
 export default function Utilisateurs() {
-  const { user, canManageUsers, loading: authLoading } = useAuth();
+  const { user, canManageUsers, can, loading: authLoading } = useAuth();
   const { toast } = useToast();
   const { forceRefreshAll } = useProfileImageCache();
   const queryClient = useQueryClient();
   const { data: users = [], isLoading, error } = useUsers(canManageUsers, user, authLoading);
-  useRoles(user);
+  const { data: roles = [] } = useRolesQuery(!!user);
+  const canReadRoles = can("roles", "read");
   const { data: farms = [], isLoading: farmsLoading, error: farmsError, refetch: refetchFarms } = useFarms(user, canManageUsers);
 
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -175,7 +165,10 @@ export default function Utilisateurs() {
     }
   };
 
-  const isResponsableFerme = form.roleNames?.[0] === "RESPONSABLE_FERME";
+  /** Roles limited to assigned farms (Responsable de ferme by default) need at least one farm. */
+  const roleNeedsFarms = (name: string | undefined) =>
+    !!name && roleNeedsAssignedFarms(roles.find((r) => r.name === name) ?? { name });
+  const isResponsableFerme = roleNeedsFarms(form.roleNames?.[0]);
 
   const createMutation = useMutation({
     mutationFn: (body: UserRequest) => api.users.create(body),
@@ -276,7 +269,7 @@ export default function Utilisateurs() {
     
     // For RESPONSABLE_FERME, at least one farm is required
     if (isResponsableFerme && selectedFarmIds.length === 0) {
-      toast({ title: "Au moins une ferme est obligatoire pour le rôle Responsable de ferme", variant: "destructive" });
+      toast({ title: "Au moins une ferme est obligatoire pour ce rôle", variant: "destructive" });
       return;
     }
     
@@ -347,89 +340,104 @@ export default function Utilisateurs() {
         </Button>
       </div>
 
-      <div className="bg-card rounded-lg border border-border shadow-sm animate-fade-in">
-        {error && (
-          <div className="p-4 text-destructive text-sm">
-            {error instanceof Error ? error.message : "Erreur de chargement"}
-          </div>
+      <Tabs defaultValue="utilisateurs">
+        {canReadRoles && (
+          <TabsList className="mb-4">
+            <TabsTrigger value="utilisateurs">Utilisateurs</TabsTrigger>
+            <TabsTrigger value="roles">Rôles et permissions</TabsTrigger>
+          </TabsList>
         )}
-        {isLoading ? (
-          <div className="p-8 text-center text-muted-foreground">Chargement...</div>
-        ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-12">Photo</TableHead>
-                <TableHead>Identifiant</TableHead>
-                <TableHead>Nom</TableHead>
-                <TableHead>Email</TableHead>
-                <TableHead>Téléphone</TableHead>
-                <TableHead>Rôles</TableHead>
-                <TableHead>Ferme</TableHead>
-                <TableHead>Actif</TableHead>
-                <TableHead className="w-[100px]">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {users.map((u) => {
-                // Display assigned farms or fallback to single farm
-                const farmDisplay = u.assignedFarms && u.assignedFarms.length > 0
-                  ? u.assignedFarms.map(f => f.name).join(", ")
-                  : u.farmName ?? "—";
-                const farmCount = u.assignedFarms?.length ?? (u.farmId ? 1 : 0);
-                
-                return (
-                  <TableRow key={u.id}>
-                    <TableCell>
-                      <UserAvatar 
-                        userId={u.id} 
-                        hasProfileImage={true} 
-                        size="sm" 
-                        user={{ id: u.id, email: u.email }} 
-                      />
-                    </TableCell>
-                    <TableCell className="font-medium">{u.username}</TableCell>
-                    <TableCell>{u.displayName ?? "—"}</TableCell>
-                    <TableCell>{u.email ?? "—"}</TableCell>
-                    <TableCell>{u.phoneNumber ?? "—"}</TableCell>
-                    <TableCell>
-                      {u.roles?.map((r) => r.name).join(", ") ?? "—"}
-                    </TableCell>
-                    <TableCell>
-                      <div className="max-w-[200px]">
-                        <span className="truncate block" title={farmDisplay}>
-                          {farmDisplay}
-                        </span>
-                        {farmCount > 1 && (
-                          <span className="text-xs text-muted-foreground">
-                            ({farmCount} fermes)
-                          </span>
-                        )}
-                      </div>
-                    </TableCell>
-                    <TableCell>{u.enabled ? "Oui" : "Non"}</TableCell>
-                    <TableCell>
-                      <div className="flex gap-2">
-                        <Button variant="ghost" size="icon" onClick={() => openEdit(u)}>
-                          <Pencil className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => setDeleteTarget(u)}
-                          className="text-destructive hover:text-destructive"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </TableCell>
+        <TabsContent value="utilisateurs" className="mt-0">
+          <div className="bg-card rounded-lg border border-border shadow-sm animate-fade-in">
+            {error && (
+              <div className="p-4 text-destructive text-sm">
+                {error instanceof Error ? error.message : "Erreur de chargement"}
+              </div>
+            )}
+            {isLoading ? (
+              <div className="p-8 text-center text-muted-foreground">Chargement...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Photo</TableHead>
+                    <TableHead>Identifiant</TableHead>
+                    <TableHead>Nom</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Téléphone</TableHead>
+                    <TableHead>Rôles</TableHead>
+                    <TableHead>Ferme</TableHead>
+                    <TableHead>Actif</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
                   </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
+                </TableHeader>
+                <TableBody>
+                  {users.map((u) => {
+                    // Display assigned farms or fallback to single farm
+                    const farmDisplay = u.assignedFarms && u.assignedFarms.length > 0
+                      ? u.assignedFarms.map(f => f.name).join(", ")
+                      : u.farmName ?? "—";
+                    const farmCount = u.assignedFarms?.length ?? (u.farmId ? 1 : 0);
+                    
+                    return (
+                      <TableRow key={u.id}>
+                        <TableCell>
+                          <UserAvatar 
+                            userId={u.id} 
+                            hasProfileImage={true} 
+                            size="sm" 
+                            user={{ id: u.id, email: u.email }} 
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">{u.username}</TableCell>
+                        <TableCell>{u.displayName ?? "—"}</TableCell>
+                        <TableCell>{u.email ?? "—"}</TableCell>
+                        <TableCell>{u.phoneNumber ?? "—"}</TableCell>
+                        <TableCell>
+                          {u.roles?.map((r) => r.name).join(", ") ?? "—"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="max-w-[200px]">
+                            <span className="truncate block" title={farmDisplay}>
+                              {farmDisplay}
+                            </span>
+                            {farmCount > 1 && (
+                              <span className="text-xs text-muted-foreground">
+                                ({farmCount} fermes)
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{u.enabled ? "Oui" : "Non"}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button variant="ghost" size="icon" onClick={() => openEdit(u)}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setDeleteTarget(u)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </TabsContent>
+        {canReadRoles && (
+          <TabsContent value="roles" className="mt-0">
+            <RolePermissionMatrixEditor canEdit={can("roles", "update")} />
+          </TabsContent>
         )}
-      </div>
+      </Tabs>
 
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent
@@ -439,7 +447,7 @@ export default function Utilisateurs() {
           <DialogHeader className="shrink-0 px-6 pt-6 pb-2">
             <DialogTitle>{editingUser ? "Modifier l'utilisateur" : "Nouvel utilisateur"}</DialogTitle>
             <DialogDescription id="user-dialog-description">
-              {editingUser ? "Modifier les informations et le rôle de l'utilisateur." : "Créer un nouveau compte. Choisissez le rôle et, pour Responsable de ferme, les fermes."}
+              {editingUser ? "Modifier les informations et le rôle de l'utilisateur." : "Créer un nouveau compte. Choisissez le rôle et, pour les rôles limités à leurs fermes, les fermes."}
             </DialogDescription>
           </DialogHeader>
           <form onSubmit={handleSubmit} className="flex flex-col flex-1 min-h-0">
@@ -634,7 +642,7 @@ export default function Utilisateurs() {
                   setForm((f) => ({
                     ...f,
                     roleNames: v ? [v] : [],
-                    farmId: v === "RESPONSABLE_FERME" ? f.farmId : undefined,
+                    farmId: roleNeedsFarms(v) ? f.farmId : undefined,
                   }))
                 }
               >
@@ -642,9 +650,9 @@ export default function Utilisateurs() {
                   <SelectValue placeholder="Sélectionner un rôle" />
                 </SelectTrigger>
                 <SelectContent className="z-[100]">
-                  {ROLE_OPTIONS.map((r) => (
-                    <SelectItem key={r.value} value={r.value}>
-                      {r.label}
+                  {roles.map((r) => (
+                    <SelectItem key={r.id} value={r.name}>
+                      {roleLabel(r)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -652,7 +660,7 @@ export default function Utilisateurs() {
             </div>
             {isResponsableFerme && (
               <div>
-                <Label>Fermes assignées (obligatoire pour Responsable de ferme)</Label>
+                <Label>Fermes assignées (obligatoire pour ce rôle)</Label>
                 <p className="text-xs text-muted-foreground mb-2">
                   Sélectionnez une ou plusieurs fermes auxquelles cet utilisateur aura accès.
                 </p>
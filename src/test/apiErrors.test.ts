@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApiConflictError,
+  ApiError,
+  ApiForbiddenError,
+  ApiNetworkError,
+  ApiNotFoundError,
+  ApiUnauthorizedError,
+  ApiValidationError,
+  apiFieldErrorsOf,
+  noneIfNotFound,
+  toApiError,
+} from "@/lib/apiErrors";
+
+describe("toApiError", () => {
+  it("maps the HTTP status to the error class", () => {
+    expect(toApiError("", 401)).toBeInstanceOf(ApiUnauthorizedError);
+    expect(toApiError("", 403)).toBeInstanceOf(ApiForbiddenError);
+    expect(toApiError("", 404)).toBeInstanceOf(ApiNotFoundError);
+    expect(toApiError("", 409)).toBeInstanceOf(ApiConflictError);
+    expect(toApiError("", 400)).toBeInstanceOf(ApiValidationError);
+    expect(toApiError("", 422)).toBeInstanceOf(ApiValidationError);
+    const other = toApiError("", 500);
+    expect(other).toBeInstanceOf(ApiError);
+    expect(other.status).toBe(500);
+  });
+
+  it("keeps the ProblemDetail message and type", () => {
+    const e = toApiError(JSON.stringify({ type: "urn:lot-closed", detail: " Lot fermé " }), 403);
+    expect(e.message).toBe("Lot fermé");
+    expect(e.type).toBe("urn:lot-closed");
+  });
+
+  it("falls back to a generic message on a non-JSON body", () => {
+    expect(toApiError("<html>", 500).message).toBe("Une erreur est survenue.");
+    expect(toApiError("", 400).message).toBe("Certaines valeurs sont invalides.");
+  });
+
+  it("carries the server row of a 409", () => {
+    const e = toApiError(JSON.stringify({ detail: "modifiée", current: { id: 3, version: 2 } }), 409);
+    expect((e as ApiConflictError).current).toEqual({ id: 3, version: 2 });
+  });
+
+  it("reads field errors from maps and Spring violation arrays", () => {
+    const fromMap = toApiError(JSON.stringify({ fieldErrors: { qte: ["doit être positif"], prix_kg: "" } }), 400);
+    expect(fromMap.fieldErrors).toEqual({ qte: "doit être positif", prix_kg: "Valeur invalide." });
+
+    const fromArray = toApiError(
+      JSON.stringify({
+        errors: [
+          { field: "date", defaultMessage: "obligatoire" },
+          { propertyPath: "nbr", message: "trop grand" },
+          { field: "date", message: "ignored: first message wins" },
+        ],
+      }),
+      422
+    );
+    expect(fromArray.fieldErrors).toEqual({ date: "obligatoire", nbr: "trop grand" });
+    expect(fromArray.hasFieldErrors).toBe(true);
+  });
+
+  it("returns no field errors for values that are not ApiErrors", () => {
+    expect(apiFieldErrorsOf(new Error("x"))).toEqual({});
+    expect(apiFieldErrorsOf(toApiError(JSON.stringify({ fieldErrors: { qte: "x" } }), 400))).toEqual({ qte: "x" });
+  });
+});
+
+describe("noneIfNotFound", () => {
+  it("reads a 404 as no data and lets any other failure through", async () => {
+    await expect(noneIfNotFound(Promise.reject(new ApiNotFoundError()))).resolves.toBeNull();
+    await expect(noneIfNotFound(Promise.resolve(3))).resolves.toBe(3);
+    await expect(noneIfNotFound(Promise.reject(new ApiNetworkError()))).rejects.toBeInstanceOf(ApiNetworkError);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  api,
+  type SuiviConsommationHebdoResponse,
+  type SuiviTechniqueHebdoResponse,
+  type TemperatureTargetsResponse,
+} from "@/lib/api";
+import { ApiNotFoundError } from "@/lib/apiErrors";
+import {
+  buildBatimentControlSeries,
+  DEFAULT_TEMPERATURE_TARGETS,
+  loadBatimentControlSources,
+  loadTemperatureTargets,
+  temperatureTargetAt,
+} from "@/lib/batimentControlCharts";
+
+const params = { farmId: 8, lot: "12", batiment: "B1", sex: "Mâle" };
+
+function day(partial: Partial<SuiviTechniqueHebdoResponse>): SuiviTechniqueHebdoResponse {
+  return { semaine: "S1", batiment: "B1", sex: "Mâle", ...partial } as SuiviTechniqueHebdoResponse;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("buildBatimentControlSeries", () => {
+  it("divides the water of each day by the birds left that morning, and skips placeholder rows", () => {
+    const { days } = buildBatimentControlSeries(
+      {
+        hebdoRows: [
+          day({ recordDate: "2026-01-02", ageJour: 2, consoEauL: 99, mortaliteNbre: 5 }),
+          day({ recordDate: "2026-01-01", ageJour: 1, consoEauL: 100, mortaliteNbre: 10, effectifDepart: 1000 }),
+          day({ recordDate: "2026-01-03", isPlaceholder: true }),
+          day({ semaine: "S02", recordDate: "2026-01-08", consoEauL: 50 }),
+        ],
+        consommations: [],
+      },
+      DEFAULT_TEMPERATURE_TARGETS
+    );
+    expect(days.map((d) => [d.semaine, d.dayLabel, d.effectif, d.eauParSujetMl])).toEqual([
+      ["S1", "J1", 1000, 100],
+      ["S1", "J2", 990, 100],
+      ["S2", "2026-01-08", null, null],
+    ]);
+    expect(days.map((d) => d.cibleMin)).toEqual([30, expect.closeTo(29.667, 3), null]);
+  });
+
+  it("computes the water / feed index from the totals when the consommation has none", () => {
+    const { weeks } = buildBatimentControlSeries(
+      {
+        hebdoRows: [day({ recordDate: "2026-01-01" }), day({ semaine: "S2", recordDate: "2026-01-08" })],
+        consommations: [
+          { semaine: "S1", totalEauSemaineL: 1800, consommationAlimentSemaine: 1000 },
+          { semaine: "S2", totalEauSemaineL: 1800, consommationAlimentSemaine: 0 },
+        ] as SuiviConsommationHebdoResponse[],
+      },
+      DEFAULT_TEMPERATURE_TARGETS
+    );
+    expect(weeks.map((w) => [w.semaine, w.indiceEauAliment])).toEqual([
+      ["S1", 1.8],
+      ["S2", null],
+    ]);
+  });
+});
+
+describe("loadBatimentControlSources", () => {
+  it("keeps the semaines up to `upTo`, asks each semaine once, and reads a missing consommation (404) as no index", async () => {
+    vi.spyOn(api.suiviTechniqueHebdo, "list").mockResolvedValue([
+      day({ semaine: "S1", recordDate: "2026-01-01" }),
+      day({ semaine: "S01", recordDate: "2026-01-02" }),
+      day({ semaine: "S2", recordDate: "2026-01-08" }),
+      day({ semaine: null, recordDate: "2026-01-09" }),
+    ]);
+    const get = vi.spyOn(api.suiviConsommationHebdo, "get").mockImplementation(async (p) => {
+      if (p.semaine === "S1") throw new ApiNotFoundError();
+      return { semaine: p.semaine, indiceEauAliment: 1.8 } as SuiviConsommationHebdoResponse;
+    });
+
+    const loaded = await loadBatimentControlSources(params);
+
+    expect(loaded.hebdoRows).toHaveLength(3);
+    expect(get.mock.calls.map(([p]) => p.semaine)).toEqual(["S1", "S2"]);
+    expect(loaded.consommations.map((c) => c.semaine)).toEqual(["S2"]);
+    expect((await loadBatimentControlSources({ ...params, upTo: "S1" })).hebdoRows).toHaveLength(2);
+  });
+});
+
+describe("temperatureTargetAt", () => {
+  const points = [
+    { ageJour: 7, min: 28, max: 34 },
+    { ageJour: 1, min: 30, max: 36 },
+  ];
+
+  it("interpolates between the points, in any order, and stays flat outside them", () => {
+    expect(temperatureTargetAt(points, 4)).toEqual({ min: 29, max: 35 });
+    expect(temperatureTargetAt(points, 0)).toEqual({ min: 30, max: 36 });
+    expect(temperatureTargetAt(points, 40)).toEqual({ min: 28, max: 34 });
+    expect(temperatureTargetAt(points, null)).toBeNull();
+  });
+});
+
+describe("loadTemperatureTargets", () => {
+  it("sorts the curve saved for the farm and drops invalid points", async () => {
+    const get = vi.spyOn(api.temperatureTargets, "get").mockResolvedValue({
+      farmId: 8,
+      points: [
+        { ageJour: 14, min: 25, max: 31 },
+        { ageJour: 1, min: 30, max: 36 },
+        { ageJour: 7, min: 34, max: 28 },
+      ],
+    } as TemperatureTargetsResponse);
+
+    expect(await loadTemperatureTargets(8)).toEqual([
+      { ageJour: 1, min: 30, max: 36 },
+      { ageJour: 14, min: 25, max: 31 },
+    ]);
+    expect(get).toHaveBeenCalledWith(8);
+  });
+
+  it("uses the default curve when the farm never saved one (404) or saved nothing valid", async () => {
+    const get = vi.spyOn(api.temperatureTargets, "get").mockRejectedValue(new ApiNotFoundError());
+    expect(await loadTemperatureTargets(8)).toBe(DEFAULT_TEMPERATURE_TARGETS);
+    get.mockResolvedValue({ farmId: 8, points: [{ ageJour: -1, min: 20, max: 25 }] });
+    expect(await loadTemperatureTargets(8)).toBe(DEFAULT_TEMPERATURE_TARGETS);
+  });
+});
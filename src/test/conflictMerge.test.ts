@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  conflictValuesDiffer,
+  differingConflictFields,
+  formatConflictValue,
+  mergeConflictRows,
+  withConflictFieldsFrom,
+  type ConflictField,
+} from "@/lib/conflictMerge";
+
+interface Row {
+  qte: number | null;
+  prix: number | null;
+  designation: string | null;
+  version?: number;
+}
+
+const fields: ConflictField<Row>[] = [
+  { key: "qte", label: "Qté" },
+  { key: "prix", label: "Prix", format: (v) => `${v} DH` },
+  { key: "designation", label: "Désignation" },
+];
+
+describe("conflictMerge", () => {
+  it("treats null, undefined, empty and blank strings as equal", () => {
+    expect(conflictValuesDiffer(null, "")).toBe(false);
+    expect(conflictValuesDiffer(undefined, "  ")).toBe(false);
+    expect(conflictValuesDiffer(" Aliment ", "Aliment")).toBe(false);
+    expect(conflictValuesDiffer(12, "12")).toBe(false);
+    expect(conflictValuesDiffer(12, 13)).toBe(true);
+  });
+
+  it("lists only the fields that differ", () => {
+    const mine: Row = { qte: 10, prix: 5, designation: "" };
+    const theirs: Row = { qte: 12, prix: 5, designation: null };
+    expect(differingConflictFields(fields, mine, theirs).map((f) => f.key)).toEqual(["qte"]);
+  });
+
+  it("formats values with the field formatter and a dash when empty", () => {
+    expect(formatConflictValue(fields[1], { qte: null, prix: 4, designation: null })).toBe("4 DH");
+    expect(formatConflictValue(fields[0], { qte: null, prix: 4, designation: null })).toBe("—");
+  });
+
+  it("merges on the server row, taking mine by default", () => {
+    const mine: Row = { qte: 10, prix: 5, designation: "A", version: 1 };
+    const theirs: Row = { qte: 12, prix: 6, designation: "B", version: 4 };
+    expect(mergeConflictRows(fields, mine, theirs, { prix: "theirs" })).toEqual({
+      qte: 10,
+      prix: 6,
+      designation: "A",
+      version: 4,
+    });
+  });
+
+  it("projects a server row onto the request shape", () => {
+    const base: Row = { qte: 10, prix: 5, designation: "A", version: 1 };
+    expect(withConflictFieldsFrom(fields, base, { qte: 3, designation: "C" })).toEqual({
+      qte: 3,
+      prix: null,
+      designation: "C",
+      version: 1,
+    });
+  });
+});
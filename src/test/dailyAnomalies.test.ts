@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  api,
+  type AnomalyAcknowledgementResponse,
+  type DailyReportResponse,
+  type PerformanceNormeProfileResponse,
+  type PerformanceNormeResponse,
+  type SetupInfoResponse,
+  type SuiviTechniqueHebdoResponse,
+} from "@/lib/api";
+import { ApiNotFoundError } from "@/lib/apiErrors";
+import {
+  detectDailyAnomalies,
+  isAnomalyOpen,
+  loadDailyAnomalySources,
+  neededViabiliteNormes,
+  type DailyAnomalySources,
+} from "@/lib/dailyAnomalies";
+
+function report(day: number, partial: Partial<DailyReportResponse>): DailyReportResponse {
+  return {
+    reportDate: `2026-03-${String(day).padStart(2, "0")}`,
+    ageJour: day,
+    building: "Bâtiment 01",
+    designation: "Mâle",
+    ...partial,
+  } as DailyReportResponse;
+}
+
+const setupInfo = [{ building: "Bâtiment 01", sex: "Mâle", effectifMisEnPlace: 10000 }] as SetupInfoResponse[];
+
+function detect(
+  dailyReports: DailyReportResponse[],
+  { suiviHebdo = [], viabiliteNormes = new Map() }: Partial<Pick<DailyAnomalySources, "suiviHebdo" | "viabiliteNormes">> = {}
+) {
+  return detectDailyAnomalies({ dailyReports, suiviHebdo, setupInfo, viabiliteNormes }, 8, "12");
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("detectDailyAnomalies", () => {
+  it("flags a mortality spike against the rolling mean of the previous days", () => {
+    const anomalies = detect([1, 2, 3, 4].map((d) => report(d, { nbr: 2 })).concat(report(5, { nbr: 7 })));
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      id: "mortalite|8|12|2026-03-05|B1|Mâle",
+      severity: "critical",
+      link: "/reporting-journalier?farmId=8&lot=12&date=2026-03-05",
+    });
+  });
+
+  it("never flags fewer than 3 deaths, and needs 3 previous days or a norme as reference", () => {
+    expect(detect([1, 2, 3, 4].map((d) => report(d, { nbr: 0 })).concat(report(5, { nbr: 2 })))).toEqual([]);
+    expect(detect([report(1, { nbr: 1 }), report(2, { nbr: 1 }), report(3, { nbr: 10 })])).toEqual([]);
+  });
+
+  it("compares the first days with the daily mortality of the viabilité norme, on the effectif still alive", () => {
+    // S1 norme 99.3 %: 0.1 % a day, i.e. 10 then 9.975 morts for 10 000 then 9 975 birds.
+    const anomalies = detect([report(1, { nbr: 25 }), report(2, { nbr: 35 })], {
+      viabiliteNormes: new Map([["Mâle|S1", 99.3]]),
+    });
+    expect(anomalies.map((a) => [a.date, a.severity])).toEqual([
+      ["2026-03-02", "critical"],
+      ["2026-03-01", "warning"],
+    ]);
+  });
+
+  it("flags a water drop, and completes the days without report from the suivi hebdo", () => {
+    const suiviHebdo = [1, 2].map((d) => ({
+      recordDate: `2026-03-0${d}`,
+      ageJour: d,
+      batiment: "Bâtiment 01",
+      sex: "Mâle",
+      consoEauL: 1000,
+    })) as SuiviTechniqueHebdoResponse[];
+    const anomalies = detect([report(3, { waterL: 800 })], { suiviHebdo });
+    expect(anomalies.map((a) => `${a.kind} ${a.severity}`)).toEqual(["eau warning"]);
+  });
+
+  it("flags a temperature outside the comfort band of the age, critical beyond the delta", () => {
+    expect(detect([report(1, { tempMin: 27, tempMax: 37 })])).toEqual([]);
+    const anomalies = detect([report(1, { tempMin: 22, tempMax: 37 })]);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ kind: "temperature", severity: "critical" });
+  });
+
+  it("merges the reports of a day and reports only the last 14 days of the lot", () => {
+    const anomalies = detect([
+      report(1, { tempMin: 10 }),
+      report(20, { nbr: 1, tempMax: 31 }),
+      report(20, { nbr: 1, tempMax: 34 }),
+    ]);
+    expect(anomalies.map((a) => [a.date, a.kind, a.severity])).toEqual([["2026-03-20", "temperature", "warning"]]);
+  });
+});
+
+describe("neededViabiliteNormes", () => {
+  it("lists the semaines of the window of each sex and the semaine before them", () => {
+    const needed = neededViabiliteNormes({
+      dailyReports: [report(1, {}), report(20, {}), report(8, { designation: "Femelle" })],
+      suiviHebdo: [],
+      setupInfo,
+    });
+    expect(needed.map((n) => `${n.sex} ${n.semaine}`)).toEqual(["Mâle S2", "Mâle S3", "Femelle S1", "Femelle S2"]);
+  });
+});
+
+describe("isAnomalyOpen", () => {
+  const ack = (snoozedUntil: string | null) =>
+    new Map([["a", { anomalyId: "a", snoozedUntil } as AnomalyAcknowledgementResponse]]);
+  const now = new Date("2026-03-10T12:00:00Z");
+
+  it("hides acknowledged and still-snoozed anomalies", () => {
+    expect(isAnomalyOpen({ id: "a" }, ack(null), now)).toBe(false);
+    expect(isAnomalyOpen({ id: "a" }, ack("2026-03-11T00:00:00Z"), now)).toBe(false);
+    expect(isAnomalyOpen({ id: "a" }, ack("2026-03-09T00:00:00Z"), now)).toBe(true);
+    expect(isAnomalyOpen({ id: "b" }, ack(null), now)).toBe(true);
+  });
+});
+
+describe("loadDailyAnomalySources", () => {
+  it("takes the farm viabilité norme, else the week of the souche profile", async () => {
+    vi.spyOn(api.dailyReports, "list").mockResolvedValue([report(10, { nbr: 2 }), report(15, { nbr: 2 })]);
+    vi.spyOn(api.suiviTechniqueHebdo, "list").mockResolvedValue([]);
+    vi.spyOn(api.setupInfo, "list").mockResolvedValue([{ ...setupInfo[0], souche: "Hybrid Converter" }]);
+    vi.spyOn(api.performanceNormeProfiles, "list").mockResolvedValue([
+      {
+        souche: "Hybrid Converter",
+        sex: "Mâle",
+        weeks: [
+          { semaine: "S1", viabiliteNorme: 99.5 },
+          { semaine: "S2", viabiliteNorme: 99 },
+          { semaine: "S3", viabiliteNorme: 97 },
+        ],
+      },
+    ] as PerformanceNormeProfileResponse[]);
+    vi.spyOn(api.performanceNorme, "get").mockImplementation(async (p) => {
+      if (p.semaine === "S1") throw new ApiNotFoundError();
+      return { viabiliteNorme: p.semaine === "S3" ? 98 : null } as PerformanceNormeResponse;
+    });
+
+    const loaded = await loadDailyAnomalySources(8, "12");
+
+    expect([...loaded.viabiliteNormes].sort()).toEqual([
+      ["Mâle|S1", 99.5],
+      ["Mâle|S2", 99],
+      ["Mâle|S3", 98],
+    ]);
+  });
+});
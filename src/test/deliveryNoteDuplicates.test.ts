@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { api, type LivraisonAlimentResponse, type LotWithStatusResponse } from "@/lib/api";
+import { ApiNetworkError, ApiNotFoundError } from "@/lib/apiErrors";
+import {
+  deliveryNoteEntriesOf,
+  findDeliveryNoteDuplicates,
+  loadDeliveryNoteIndex,
+  normalizeNoteNumber,
+  type DeliveryNoteEntry,
+} from "@/lib/deliveryNoteDuplicates";
+
+const base = {
+  source: "livraisonsAliment" as const,
+  id: null,
+  farmId: 8,
+  lot: "12",
+  semaine: "S1",
+  date: "2026-03-02",
+  supplier: "Alimex",
+};
+
+function entry(partial: Partial<DeliveryNoteEntry>): DeliveryNoteEntry {
+  return { ...base, kind: "BL", number: "1", ...partial };
+}
+
+function mockEmptyIndex() {
+  vi.spyOn(api.livraisonsAliment, "list").mockResolvedValue([]);
+  vi.spyOn(api.livraisonsGaz, "list").mockResolvedValue([]);
+  vi.spyOn(api.livraisonsPaille, "list").mockResolvedValue([]);
+  vi.spyOn(api.livraisonsProduitsVeterinaires, "list").mockResolvedValue([]);
+  vi.spyOn(api.livraisonsProduitsHygiene, "list").mockResolvedValue([]);
+  vi.spyOn(api.depensesDivers, "list").mockResolvedValue([]);
+  vi.spyOn(api.farms, "lotsWithStatus").mockResolvedValue([{ lot: "12" }] as LotWithStatusResponse[]);
+  vi.spyOn(api.videSanitaire, "get").mockRejectedValue(new ApiNotFoundError());
+  vi.spyOn(api.videSanitairePaille, "get").mockRejectedValue(new ApiNotFoundError());
+  vi.spyOn(api.videSanitaireGaz, "get").mockRejectedValue(new ApiNotFoundError());
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("normalizeNoteNumber", () => {
+  it("ignores case, separators and leading zeros", () => {
+    expect(normalizeNoteNumber(" bl-00 123/4 ")).toBe("BL001234");
+    expect(normalizeNoteNumber("000123")).toBe("123");
+    expect(normalizeNoteNumber(null)).toBe("");
+  });
+});
+
+describe("deliveryNoteEntriesOf", () => {
+  it("skips empty numbers", () => {
+    const entries = deliveryNoteEntriesOf(base, { bl: " 42 ", br: " - " });
+    expect(entries).toEqual([{ ...base, kind: "BL", number: "42" }]);
+  });
+});
+
+describe("findDeliveryNoteDuplicates", () => {
+  it("matches the same supplier, kind and number across pages", () => {
+    const candidate = entry({ rowKey: "r1", number: "00042" });
+    const other = entry({ source: "depensesDivers", id: 5, number: "42", supplier: " ALIMEX " });
+    const br = entry({ id: 6, kind: "BR", number: "42" });
+    const otherSupplier = entry({ id: 7, number: "42", supplier: "Autre" });
+    expect(findDeliveryNoteDuplicates([candidate], [other, br, otherSupplier])).toEqual([other]);
+  });
+
+  it("excludes the row itself, saved or not", () => {
+    const saved = entry({ id: 3, rowKey: "r1" });
+    expect(findDeliveryNoteDuplicates([saved], [entry({ id: 3 }), entry({ rowKey: "r1" })])).toEqual([]);
+  });
+
+  it("treats the vide sanitaire record of the same lot as the row itself", () => {
+    const vs = entry({ source: "videSanitaire", id: 9, semaine: "VS" });
+    const sameLot = entry({ source: "videSanitaire", id: 10, semaine: "VS" });
+    const otherLot = entry({ source: "videSanitaire", id: 11, lot: "13", semaine: "VS" });
+    expect(findDeliveryNoteDuplicates([vs], [sameLot, otherLot])).toEqual([otherLot]);
+  });
+});
+
+describe("loadDeliveryNoteIndex", () => {
+  it("indexes the BL / BR of the lists and skips lots without vide sanitaire", async () => {
+    mockEmptyIndex();
+    vi.spyOn(api.livraisonsAliment, "list").mockResolvedValue([
+      { id: 1, farmId: 8, lot: "12", sem: "S2", supplier: "Alimex", deliveryNoteNumber: "42", numeroBonReception: "R7" },
+    ] as LivraisonAlimentResponse[]);
+
+    const index = await loadDeliveryNoteIndex(8);
+
+    expect(index.map((e) => `${e.source} ${e.kind} ${e.number}`)).toEqual([
+      "livraisonsAliment BL 42",
+      "livraisonsAliment BR R7",
+    ]);
+  });
+
+  it("rejects when a list fails instead of returning an incomplete index", async () => {
+    mockEmptyIndex();
+    vi.spyOn(api.depensesDivers, "list").mockRejectedValue(new ApiNetworkError());
+    await expect(loadDeliveryNoteIndex(8)).rejects.toBeInstanceOf(ApiNetworkError);
+  });
+
+  it("rejects when a vide sanitaire fails with something else than a 404", async () => {
+    mockEmptyIndex();
+    vi.spyOn(api.videSanitaireGaz, "get").mockRejectedValue(new ApiNetworkError());
+    await expect(loadDeliveryNoteIndex(8)).rejects.toBeInstanceOf(ApiNetworkError);
+  });
+});
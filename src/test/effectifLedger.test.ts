@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  api,
+  type PlacementResponse,
+  type SetupInfoResponse,
+  type SortieResponse,
+  type SuiviProductionHebdoResponse,
+  type SuiviStockResponse,
+  type SuiviTechniqueHebdoResponse,
+} from "@/lib/api";
+import { ApiNotFoundError } from "@/lib/apiErrors";
+import { buildEffectifLedger, loadEffectifLedgerSources, type EffectifLedgerSources } from "@/lib/effectifLedger";
+
+function hebdo(semaine: string, recordDate: string, partial: Partial<SuiviTechniqueHebdoResponse> = {}): SuiviTechniqueHebdoResponse {
+  return { semaine, batiment: "B1", sex: "Mâle", recordDate, ...partial } as SuiviTechniqueHebdoResponse;
+}
+
+const lot12: EffectifLedgerSources = {
+  setupInfo: [{ building: "Bâtiment 01", sex: "Mâle", effectifMisEnPlace: 1000 }] as SetupInfoResponse[],
+  placements: [],
+  hebdoRows: [
+    hebdo("S1", "2026-01-01", { mortaliteNbre: 5, effectifDepart: 1000 }),
+    hebdo("S1", "2026-01-02", { mortaliteNbre: 3 }),
+    hebdo("S2", "2026-01-08", { mortaliteNbre: 2, effectifDepart: 992 }),
+  ],
+  sorties: [],
+  production: new Map(),
+  stock: new Map(),
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("buildEffectifLedger", () => {
+  it("carries the end of each week to the next and splits the transport mortalité of S1", () => {
+    const [group] = buildEffectifLedger(lot12, 8, "12");
+    expect(group.weeks.map((w) => [w.semaine, w.start, w.mortaliteTransport, w.mortalite, w.end])).toEqual([
+      ["S1", 1000, 5, 3, 992],
+      ["S2", 992, 0, 2, 990],
+    ]);
+    expect(group.weeks.flatMap((w) => w.ecarts)).toEqual([]);
+  });
+
+  it("flags the recorded effectif restant and the sorties that differ from the computed ledger", () => {
+    const [group] = buildEffectifLedger(
+      {
+        ...lot12,
+        production: new Map([["S1|Bâtiment 01|Mâle", { venteNbre: 10 } as SuiviProductionHebdoResponse]]),
+        stock: new Map([["S1|Bâtiment 01|Mâle", { effectifRestantFinSemaine: 990 } as SuiviStockResponse]]),
+        sorties: [{ semaine: 1, type: "Vente Dinde Vive", designation: "Mâle", nbre_dinde: 8 }] as SortieResponse[],
+      },
+      8,
+      "12"
+    );
+    expect(group.weeks[0].ecarts.map((e) => [e.kind, e.ecart])).toEqual([
+      ["effectifRestant", 8],
+      ["sorties", 2],
+    ]);
+    expect(group.weeks[1].ecarts.map((e) => e.kind)).toEqual(["effectifDepart"]);
+  });
+
+  it("sums the setup lines of a bâtiment and checks them against its placements", () => {
+    const [group] = buildEffectifLedger(
+      {
+        ...lot12,
+        setupInfo: [
+          { building: "Bâtiment 01", sex: "Mâle", effectifMisEnPlace: 600 },
+          { building: "B1", sex: "Mâle", effectifMisEnPlace: 400 },
+        ] as SetupInfoResponse[],
+        placements: [
+          { lot: "12", building: "Bâtiment 1", sex: "Mâle", initialCount: 980 },
+          { lot: "12", building: "B1", sex: "Femelle", initialCount: 500 },
+        ] as PlacementResponse[],
+      },
+      8,
+      "12"
+    );
+    expect(group.effectifMisEnPlace).toBe(1000);
+    expect(group.weeks[0].ecarts).toEqual([
+      { kind: "placement", ecart: -20, recorded: 980, expected: 1000, link: "/infos-setup?farmId=8&lot=12" },
+    ]);
+  });
+
+  it("matches the sorties of a sex against the production of all its bâtiments, birds only", () => {
+    const groups = buildEffectifLedger(
+      {
+        ...lot12,
+        setupInfo: [
+          { building: "B1", sex: "Mâle", effectifMisEnPlace: 1000 },
+          { building: "B2", sex: "Mâle", effectifMisEnPlace: 1000 },
+        ] as SetupInfoResponse[],
+        hebdoRows: [hebdo("S1", "2026-01-01"), hebdo("S1", "2026-01-01", { batiment: "B2" })],
+        production: new Map([
+          ["S1|B1|Mâle", { venteNbre: 6 } as SuiviProductionHebdoResponse],
+          ["S1|B2|Mâle", { consoNbre: 4 } as SuiviProductionHebdoResponse],
+        ]),
+        sorties: [
+          { semaine: 1, type: "Vente Dinde Vive", designation: "Mâle", nbre_dinde: 10 },
+          { semaine: 1, type: "Vente Dinde Vive", designation: "Femelle", nbre_dinde: 7 },
+          { semaine: 1, type: "Vente fumier", designation: "Mâle", nbre_dinde: 3 },
+        ] as SortieResponse[],
+      },
+      8,
+      "12"
+    );
+    expect(groups.flatMap((g) => g.weeks.flatMap((w) => w.ecarts))).toEqual([]);
+  });
+
+  it("leaves the effectif unknown without mise en place instead of counting from zero", () => {
+    const [group] = buildEffectifLedger(
+      { ...lot12, setupInfo: [{ building: "B1", sex: "Mâle", effectifMisEnPlace: 0 }] as SetupInfoResponse[] },
+      8,
+      "12"
+    );
+    expect(group.weeks.map((w) => [w.start, w.end, w.ecarts.length])).toEqual([
+      [null, null, 0],
+      [null, null, 0],
+    ]);
+  });
+});
+
+describe("loadEffectifLedgerSources", () => {
+  it("asks every semaine up to the last hebdo line, keeps the placements of the lot and skips what is not saved (404)", async () => {
+    vi.spyOn(api.setupInfo, "list").mockResolvedValue(lot12.setupInfo);
+    vi.spyOn(api.placements, "list").mockResolvedValue([
+      { lot: "12", building: "B1", sex: "Mâle", initialCount: 1000 },
+      { lot: "13", building: "B1", sex: "Mâle", initialCount: 500 },
+    ] as PlacementResponse[]);
+    vi.spyOn(api.suiviTechniqueHebdo, "list").mockResolvedValue([hebdo("S1", "2026-01-01"), hebdo("S03", "2026-01-15")]);
+    vi.spyOn(api.sorties, "list").mockResolvedValue([]);
+    const production = vi.spyOn(api.suiviProductionHebdo, "get").mockRejectedValue(new ApiNotFoundError());
+    vi.spyOn(api.suiviStock, "get").mockImplementation(async (p) => {
+      if (p.semaine === "S2") throw new ApiNotFoundError();
+      return { effectifRestantFinSemaine: 992 } as SuiviStockResponse;
+    });
+
+    const loaded = await loadEffectifLedgerSources(8, "12");
+
+    expect(production.mock.calls.map(([p]) => p.semaine)).toEqual(["S1", "S2", "S3"]);
+    expect(loaded.placements.map((p) => p.lot)).toEqual(["12"]);
+    expect(loaded.production.size).toBe(0);
+    expect([...loaded.stock.keys()]).toEqual(["S1|Bâtiment 01|Mâle", "S3|Bâtiment 01|Mâle"]);
+  });
+});
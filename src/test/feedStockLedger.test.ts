@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  api,
+  type LivraisonAlimentResponse,
+  type SetupInfoResponse,
+  type SuiviConsommationHebdoResponse,
+  type SuiviStockResponse,
+} from "@/lib/api";
+import { ApiNotFoundError } from "@/lib/apiErrors";
+import { buildFeedStockLedger, loadFeedStockLedgerSources } from "@/lib/feedStockLedger";
+
+const delivery = (partial: Partial<LivraisonAlimentResponse>): LivraisonAlimentResponse =>
+  ({ id: 1, farmId: 8, lot: "12", date: "2026-01-02", sem: "S1", movementType: "DELIVERY", ...partial }) as LivraisonAlimentResponse;
+
+/** Ledger of S1 and the semaines saisies; stock and consommation are keyed `semaine|sex|bâtiment` like feedLedgerKey. */
+function ledgerOf(
+  movements: LivraisonAlimentResponse[],
+  stock: Record<string, number>,
+  consumption: Record<string, number> = {},
+  groups = [{ sex: "Mâle", batiment: "B1" }]
+) {
+  const weeks = [...new Set(["S1", ...Object.keys({ ...stock, ...consumption }).map((k) => k.split("|")[0])])].sort();
+  return buildFeedStockLedger(
+    {
+      groups,
+      weeks,
+      movements,
+      stockByKey: new Map(Object.entries(stock)),
+      consumptionByKey: new Map(Object.entries(consumption)),
+    },
+    8,
+    "12"
+  );
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("buildFeedStockLedger", () => {
+  it("carries the counted stock to the next week and flags a gap with the theoretical stock", () => {
+    const ledger = ledgerOf(
+      [delivery({ maleQty: 1000 })],
+      { "S1|Mâle|B1": 700, "S2|Mâle|B1": 400 },
+      { "S1|Mâle|B1": 300, "S2|Mâle|B1": 200 }
+    );
+
+    const [s1, s2] = ledger.summaries;
+    expect(s1).toMatchObject({ openingKg: 0, deliveredKg: 1000, consumedKg: 300, closingCountedKg: 700, gapKg: 0, flags: [] });
+    expect(s2).toMatchObject({ openingKg: 700, consumedKg: 200, closingCountedKg: 400, gapKg: -100, flags: ["gap"] });
+  });
+
+  it("tolerates a gap up to 0.5 % of the stock available before consumption", () => {
+    const movements = [delivery({ maleQty: 10000 })];
+    expect(ledgerOf(movements, { "S1|Mâle|B1": 7960 }, { "S1|Mâle|B1": 2000 }).summaries[0].flags).toEqual([]);
+    expect(ledgerOf(movements, { "S1|Mâle|B1": 7940 }, { "S1|Mâle|B1": 2000 }).summaries[0].flags).toEqual(["gap"]);
+  });
+
+  it("derives the consommation from the count and flags a missing count", () => {
+    const ledger = ledgerOf([delivery({ maleQty: 500 })], { "S1|Mâle|B1": 600 }, {}, [
+      { sex: "Mâle", batiment: "B1" },
+      { sex: "Mâle", batiment: "B2" },
+    ]);
+
+    const consumption = ledger.entries.find((e) => e.kind === "consumption" && e.batiment === "B1");
+    expect(consumption).toMatchObject({ quantityKg: 100, flags: ["derivedConsumption", "negativeConsumption"] });
+    expect(ledger.summaries[0].flags).toContain("missingCount");
+  });
+
+  it("passes the counted stock from one bâtiment to the next and closes on the last one", () => {
+    const ledger = ledgerOf(
+      [delivery({ maleQty: 1000 })],
+      { "S1|Mâle|B1": 700, "S1|Mâle|B2": 600 },
+      { "S1|Mâle|B1": 300, "S1|Mâle|B2": 100 },
+      [
+        { sex: "Mâle", batiment: "B2" },
+        { sex: "Mâle", batiment: "B1" },
+      ]
+    );
+
+    expect(ledger.entries.map((e) => [e.kind, e.batiment, e.balanceKg])).toEqual([
+      ["opening", null, 0],
+      ["delivery", null, 1000],
+      ["consumption", "B1", 700],
+      ["count", "B1", 700],
+      ["transfer", "B2", 700],
+      ["consumption", "B2", 600],
+      ["count", "B2", 600],
+    ]);
+    expect(ledger.summaries[0]).toMatchObject({ consumedKg: 400, closingCountedKg: 600, flags: [] });
+  });
+
+  it("splits the livraisons by sex, keeps adjustments apart and leaves out those without semaine or sex", () => {
+    const ledger = ledgerOf(
+      [
+        delivery({ id: 1, sex: "FEMELLE", qte: 200 }),
+        delivery({ id: 2, movementType: "ADJUSTMENT", maleQty: -50 }),
+        delivery({ id: 3, sem: null, maleQty: 100 }),
+        delivery({ id: 4, qte: 50 }),
+      ],
+      {},
+      {},
+      [
+        { sex: "Mâle", batiment: "B1" },
+        { sex: "Femelle", batiment: "B2" },
+      ]
+    );
+
+    expect(ledger.summaries.map((s) => [s.sex, s.deliveredKg, s.adjustedKg])).toEqual([
+      ["Mâle", 0, -50],
+      ["Femelle", 200, 0],
+    ]);
+    expect(ledger.unassignedMovements.map((m) => m.id)).toEqual([3, 4]);
+  });
+});
+
+describe("loadFeedStockLedgerSources", () => {
+  it("lists every semaine up to the last one seen and counts a stock not saisi (404 or aggregate) as none", async () => {
+    vi.spyOn(api.setupInfo, "list").mockResolvedValue([
+      { building: "B1", sex: "Mâle", effectifMisEnPlace: 1000 },
+      { building: "B1 ", sex: "Mâle", effectifMisEnPlace: 500 },
+      { building: "B2", sex: "Femelle", effectifMisEnPlace: 0 },
+      { building: " ", sex: "Mâle", effectifMisEnPlace: 100 },
+    ] as SetupInfoResponse[]);
+    vi.spyOn(api.livraisonsAliment, "list").mockResolvedValue([delivery({ sem: "S03", maleQty: 1000 })]);
+    vi.spyOn(api.suiviTechniqueHebdo, "list").mockResolvedValue([]);
+    vi.spyOn(api.suiviStock, "get").mockImplementation(async (p) => {
+      if (p.semaine === "S1") throw new ApiNotFoundError();
+      return (p.semaine === "S2"
+        ? { stockAliment: 500, stockAlimentRecordExists: false }
+        : { stockAliment: 700 }) as SuiviStockResponse;
+    });
+    vi.spyOn(api.suiviConsommationHebdo, "get").mockResolvedValue({
+      consommationAlimentSemaine: 300,
+    } as SuiviConsommationHebdoResponse);
+
+    const loaded = await loadFeedStockLedgerSources(8, "12");
+
+    expect(loaded.groups).toEqual([{ sex: "Mâle", batiment: "B1" }]);
+    expect(loaded.weeks).toEqual(["S1", "S2", "S3"]);
+    expect([...loaded.stockByKey]).toEqual([
+      ["S1|Mâle|B1", null],
+      ["S2|Mâle|B1", null],
+      ["S3|Mâle|B1", 700],
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  api,
+  type DailyReportResponse,
+  type SetupInfoResponse,
+  type SuiviStockResponse,
+  type SuiviTechniqueHebdoResponse,
+} from "@/lib/api";
+import { ApiNetworkError, ApiNotFoundError } from "@/lib/apiErrors";
+import {
+  applyHebdoDailySync,
+  dailyReportSemaines,
+  hebdoSyncCounts,
+  planHebdoDailySync,
+  type HebdoSyncSources,
+} from "@/lib/hebdoDailySync";
+
+function report(partial: Partial<DailyReportResponse>): DailyReportResponse {
+  return { lot: "12", building: "Bâtiment 01", designation: "Mâle", semaine: 1, ...partial } as DailyReportResponse;
+}
+
+function hebdo(partial: Partial<SuiviTechniqueHebdoResponse>): SuiviTechniqueHebdoResponse {
+  return { lot: "12", batiment: "B1", sex: "Mâle", semaine: "S1", effectifDepart: 980, ...partial } as SuiviTechniqueHebdoResponse;
+}
+
+const sources: HebdoSyncSources = {
+  setupInfo: [
+    { building: "Bâtiment 01", sex: "Mâle", effectifMisEnPlace: 1000 },
+    { building: "Bâtiment 02", sex: "Femelle", effectifMisEnPlace: 800 },
+  ] as SetupInfoResponse[],
+  dailyReports: [
+    report({ reportDate: "2026-01-01", ageJour: 1, nbr: 2, waterL: 100, tempMin: 30, tempMax: 35 }),
+    report({ reportDate: "2026-01-02", ageJour: 2, nbr: 5, waterL: 110 }),
+    report({ reportDate: "2026-01-03", ageJour: 3, nbr: 1 }),
+    report({ reportDate: "2026-01-03", building: "Bâtiment 09", nbr: 4 }),
+    report({ reportDate: "2026-01-08", ageJour: 8, semaine: 2, nbr: 1 }),
+  ],
+  hebdoRows: [
+    hebdo({ id: 1, recordDate: "2026-01-01", ageJour: 1, mortaliteNbre: 2, consoEauL: 100, tempMin: 30, tempMax: 35 }),
+    hebdo({ id: 2, recordDate: "2026-01-02", ageJour: 2, mortaliteNbre: 3, consoEauL: 110 }),
+  ],
+};
+
+describe("planHebdoDailySync", () => {
+  const plan = planHebdoDailySync(sources, { lot: "12", fromSemaine: "S1", toSemaine: "S1" });
+
+  it("plans a create, an update and an unchanged line from the journalier of the range", () => {
+    expect(plan.groups).toHaveLength(1);
+    const [group] = plan.groups;
+    expect(group).toMatchObject({ semaine: "S1", batiment: "Bâtiment 01", sex: "Mâle", effectifDepart: 980 });
+    expect(group.rows).toEqual([
+      { date: "2026-01-01", action: "unchanged", changedFields: [] },
+      { date: "2026-01-02", action: "update", changedFields: ["Mortalité"] },
+      { date: "2026-01-03", action: "create", changedFields: [] },
+    ]);
+    expect(group.requests.map((r) => [r.recordDate, r.mortaliteNbre])).toEqual([
+      ["2026-01-01", 2],
+      ["2026-01-02", 5],
+      ["2026-01-03", 1],
+    ]);
+    expect(hebdoSyncCounts(plan)).toEqual({ create: 1, update: 1, unchanged: 1 });
+  });
+
+  it("lists the journalier lines of a bâtiment / sex missing from the mise en place", () => {
+    expect(plan.unmatchedReports.map((d) => d.building)).toEqual(["Bâtiment 09"]);
+  });
+
+  it("takes the effectif mis en place as effectif départ of a new S1", () => {
+    const fresh = planHebdoDailySync({ ...sources, hebdoRows: [] }, { lot: "12", fromSemaine: "S1", toSemaine: "S2" });
+    expect(fresh.groups.map((g) => [g.semaine, g.effectifDepart])).toEqual([
+      ["S1", 1000],
+      ["S2", null],
+    ]);
+    expect(hebdoSyncCounts(fresh)).toEqual({ create: 4, update: 0, unchanged: 0 });
+  });
+});
+
+describe("applyHebdoDailySync", () => {
+  const fresh = planHebdoDailySync({ ...sources, hebdoRows: [] }, { lot: "12", fromSemaine: "S1", toSemaine: "S2" });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockWrites() {
+    const saveBatch = vi.spyOn(api.suiviTechniqueHebdo, "saveBatch").mockResolvedValue([]);
+    vi.spyOn(api.suiviTechniqueHebdo, "recalculateCumulative").mockResolvedValue(undefined);
+    return saveBatch;
+  }
+
+  it("takes the effectif départ of a week from the effectif restant of the previous week", async () => {
+    const saveBatch = mockWrites();
+    vi.spyOn(api.suiviStock, "get").mockResolvedValue({ effectifRestantFinSemaine: 992 } as SuiviStockResponse);
+
+    const result = await applyHebdoDailySync(8, "12", fresh);
+
+    expect(result.written.map((g) => g.semaine)).toEqual(["S1", "S2"]);
+    expect(result.skipped).toEqual([]);
+    expect(saveBatch.mock.calls.map(([reqs]) => reqs.map((r) => r.effectifDepart))).toEqual([
+      [1000, 1000, 1000],
+      [992],
+    ]);
+  });
+
+  it("skips a week without previous stock (404) instead of saving it without effectif départ", async () => {
+    const saveBatch = mockWrites();
+    vi.spyOn(api.suiviStock, "get").mockRejectedValue(new ApiNotFoundError());
+
+    const result = await applyHebdoDailySync(8, "12", fresh);
+
+    expect(result.written.map((g) => g.semaine)).toEqual(["S1"]);
+    expect(result.skipped.map((g) => g.semaine)).toEqual(["S2"]);
+    expect(saveBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects when the previous stock fails with something else than a 404", async () => {
+    const saveBatch = mockWrites();
+    vi.spyOn(api.suiviStock, "get").mockRejectedValue(new ApiNetworkError());
+
+    await expect(applyHebdoDailySync(8, "12", fresh)).rejects.toBeInstanceOf(ApiNetworkError);
+    expect(saveBatch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("dailyReportSemaines", () => {
+  it("lists the semaines with journalier lines in order", () => {
+    expect(dailyReportSemaines(sources.dailyReports)).toEqual(["S1", "S2"]);
+  });
+});
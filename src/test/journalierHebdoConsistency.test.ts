@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { api, type DailyReportResponse, type SuiviTechniqueHebdoResponse } from "@/lib/api";
+import {
+  applyHebdoToJournalier,
+  applyJournalierToHebdo,
+  detectConsistencyIssues,
+} from "@/lib/journalierHebdoConsistency";
+
+function daily(partial: Partial<DailyReportResponse>): DailyReportResponse {
+  return {
+    id: 1,
+    reportDate: "2026-01-02",
+    semaine: 1,
+    lot: "12",
+    building: "Bâtiment 01",
+    designation: "Mâle",
+    nbr: 0,
+    verified: false,
+    ...partial,
+  } as DailyReportResponse;
+}
+
+function hebdo(partial: Partial<SuiviTechniqueHebdoResponse>): SuiviTechniqueHebdoResponse {
+  return { id: 7, recordDate: "2026-01-02", semaine: "S01", lot: "12", batiment: "B1", sex: "Mâle", ...partial } as SuiviTechniqueHebdoResponse;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("detectConsistencyIssues", () => {
+  it("matches bâtiments and semaines across both sides and lists the differing fields", () => {
+    const issues = detectConsistencyIssues({
+      dailyReports: [daily({ nbr: 4, waterL: 120, tempMin: 20 })],
+      hebdoRows: [hebdo({ mortaliteNbre: 3, consoEauL: 120, tempMin: 20 })],
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ id: "2026-01-02|B1|Mâle", kind: "mismatch", semaine: "S1" });
+    expect(issues[0].values.filter((v) => v.differs).map((v) => v.field)).toEqual(["mortalite"]);
+  });
+
+  it("reads a blank hebdo mortalité as 0, like the journalier count", () => {
+    const issues = detectConsistencyIssues({
+      dailyReports: [daily({ nbr: 0, waterL: 120 })],
+      hebdoRows: [hebdo({ mortaliteNbre: null, consoEauL: 120 })],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("reports the lines missing on one side and ignores placeholder hebdo lines", () => {
+    const issues = detectConsistencyIssues({
+      dailyReports: [daily({ reportDate: "2026-01-03", nbr: 2 })],
+      hebdoRows: [
+        hebdo({ recordDate: "2026-01-02", consoEauL: 100 }),
+        hebdo({ recordDate: "2026-01-04", isPlaceholder: true, effectifDepart: 1000 }),
+      ],
+    });
+    expect(issues.map((i) => `${i.date} ${i.kind}`)).toEqual(["2026-01-02 missingJournalier", "2026-01-03 missingHebdo"]);
+  });
+});
+
+describe("fix actions", () => {
+  it("journalier wins: saves the hebdo line with the effectif départ of the week, then recalculates", async () => {
+    const save = vi.spyOn(api.suiviTechniqueHebdo, "save").mockResolvedValue({} as SuiviTechniqueHebdoResponse);
+    const recalc = vi.spyOn(api.suiviTechniqueHebdo, "recalculateCumulative").mockResolvedValue(undefined as never);
+    const [issue] = detectConsistencyIssues({ dailyReports: [daily({ nbr: 5, waterL: 90 })], hebdoRows: [] });
+    const weekRows = [hebdo({ recordDate: "2026-01-01", effectifDepart: 1000 })];
+
+    await applyJournalierToHebdo(8, "12", issue, weekRows);
+
+    expect(save).toHaveBeenCalledWith(
+      expect.objectContaining({ recordDate: "2026-01-02", semaine: "S1", mortaliteNbre: 5, consoEauL: 90, effectifDepart: 1000 }),
+      8
+    );
+    expect(recalc).toHaveBeenCalledWith({ farmId: 8, lot: "12", sex: "Mâle", batiment: "B1", semaine: "S1" });
+  });
+
+  it("suivi hebdo wins: updates the journalier line, a blank mortalité becoming 0", async () => {
+    const update = vi.spyOn(api.dailyReports, "update").mockResolvedValue({} as DailyReportResponse);
+    const [issue] = detectConsistencyIssues({
+      dailyReports: [daily({ id: 3, nbr: 0, waterL: 50 })],
+      hebdoRows: [hebdo({ mortaliteNbre: null, consoEauL: 80 })],
+    });
+
+    await applyHebdoToJournalier(8, "12", issue);
+
+    expect(update).toHaveBeenCalledWith(3, expect.objectContaining({ nbr: 0, waterL: 80, building: "Bâtiment 01" }));
+  });
+});
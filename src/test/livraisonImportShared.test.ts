@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildLivraisonImportPreview,
+  guessImportMapping,
+  parseImportDate,
+  type ImportSheet,
+  type LivraisonImportContext,
+} from "@/lib/livraisonImportShared";
+
+const ctx: LivraisonImportContext = { farmId: 8, lot: "12", semaine: "S3", supplier: "Provendes du Sud" };
+
+function sheet(columns: string[], rows: ImportSheet["rows"][number]["cells"][]): ImportSheet {
+  return { sheetName: "BL", columns, rows: rows.map((cells, i) => ({ line: i + 2, cells })) };
+}
+
+describe("parseImportDate", () => {
+  it("reads Excel dates, serial numbers, jj/mm/aaaa and aaaa-mm-jj", () => {
+    expect(parseImportDate(new Date(Date.UTC(2026, 1, 3)))).toBe("2026-02-03");
+    expect(parseImportDate(45658)).toBe("2025-01-01");
+    expect(parseImportDate("3/2/2026")).toBe("2026-02-03");
+    expect(parseImportDate("03.02.26")).toBe("2026-02-03");
+    expect(parseImportDate("2026-2-3")).toBe("2026-02-03");
+  });
+
+  it("rejects impossible days, out-of-range serials and free text", () => {
+    expect(parseImportDate("31/02/2026")).toBeNull();
+    expect(parseImportDate(120)).toBeNull();
+    expect(parseImportDate("livré lundi")).toBeNull();
+    expect(parseImportDate(null)).toBeNull();
+  });
+});
+
+describe("guessImportMapping", () => {
+  it("matches supplier headers ignoring accents, case and N° spelling, each column only once", () => {
+    const columns = ["Date BL", "No. BL", "Article", "Quantité (kg)", "Prix unitaire", "Montant TTC", "Date"];
+    expect(guessImportMapping("gaz", columns)).toEqual({
+      DATE: "Date",
+      "N° BL": "No. BL",
+      DÉSIGNATION: "Article",
+      QTE: "Quantité (kg)",
+      PRIX: "Prix unitaire",
+      MONTANT: "Montant TTC",
+    });
+  });
+
+  it("only guesses the columns of the page", () => {
+    expect(guessImportMapping("gaz", ["Date", "Sexe", "UG"])).toEqual({ DATE: "Date" });
+    expect(guessImportMapping("aliment", ["Date", "Sexe"])).toEqual({ DATE: "Date", SEX: "Sexe" });
+  });
+});
+
+describe("buildLivraisonImportPreview", () => {
+  const columns = ["Date", "Sem", "Désignation", "Qté", "Sexe", "Prix", "Montant"];
+  const mapping = { DATE: "Date", SEM: "Sem", DÉSIGNATION: "Désignation", QTE: "Qté", SEX: "Sexe", PRIX: "Prix", MONTANT: "Montant" };
+
+  it("builds the aliment request: formule de quantité, split of Male & Femelle, montant from the prix", () => {
+    const [row] = buildLivraisonImportPreview(
+      "aliment",
+      sheet(columns, [["03/02/2026", null, "Croissance", "100+21", "Mâle & Femelle", 2, null]]),
+      mapping,
+      ctx
+    );
+    expect(row.errors).toEqual({});
+    expect(row.values.DATE).toBe("03/02/2026");
+    expect(row.request).toMatchObject({
+      date: "2026-02-03",
+      sem: "S3",
+      supplier: "Provendes du Sud",
+      qte: 121,
+      sex: "MALE & FEMELLE",
+      maleQty: 60,
+      femaleQty: 61,
+      prixPerUnit: 2,
+      montant: 242,
+    });
+  });
+
+  it("reports each invalid cell and builds no request for the row", () => {
+    const [row] = buildLivraisonImportPreview(
+      "aliment",
+      sheet(columns, [["31/02/2026", "X", "Croissance", "abc", "Poulet", -1, "-5"]]),
+      mapping,
+      ctx
+    );
+    expect(Object.keys(row.errors).sort()).toEqual(["DATE", "MONTANT", "PRIX", "QTE", "SEM", "SEX"]);
+    expect(row.request).toBeNull();
+  });
+
+  it("skips empty rows, requires a date and a designation, quantité or BL", () => {
+    const rows = buildLivraisonImportPreview(
+      "gaz",
+      sheet(["Date", "Désignation", "Qté"], [
+        [null, null, null],
+        [null, "Propane", 10],
+        ["2026-02-03", null, null],
+      ]),
+      { DATE: "Date", DÉSIGNATION: "Désignation", QTE: "Qté" },
+      ctx
+    );
+    expect(rows.map((r) => [r.line, r.errors])).toEqual([
+      [3, { DATE: "Date manquante" }],
+      [4, { DÉSIGNATION: "Ligne sans désignation, quantité ni N° BL / BR" }],
+    ]);
+  });
+
+  it("accepts the vide sanitaire semaine on Produits hygiène only", () => {
+    const cells = [["2026-02-03", "VS", "Désinfectant", 5]];
+    const hygiene = buildLivraisonImportPreview("hygiene", sheet(["Date", "Sem", "Désignation", "Qté"], cells), mapping, ctx);
+    const gaz = buildLivraisonImportPreview("gaz", sheet(["Date", "Sem", "Désignation", "Qté"], cells), mapping, ctx);
+    expect(hygiene[0].request?.sem).toBe("VS");
+    expect(gaz[0].errors.SEM).toBe("Semaine invalide (S1, S2…)");
+  });
+});
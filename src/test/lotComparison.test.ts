@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  api,
+  type SetupInfoResponse,
+  type SuiviPerformancesHebdoResponse,
+  type SuiviTechniqueHebdoResponse,
+} from "@/lib/api";
+import { ApiNetworkError, ApiNotFoundError } from "@/lib/apiErrors";
+import {
+  comparisonLotLabel,
+  comparisonWeeks,
+  lastTwoWeeksWithValue,
+  loadLotComparisonSeries,
+  type ComparisonLotSeries,
+  type ComparisonWeekValues,
+} from "@/lib/lotComparison";
+
+const ref = { farmId: 8, farmName: "Ferme A", lot: "12" };
+
+function weekValues(partial: Partial<ComparisonWeekValues>): ComparisonWeekValues {
+  return { mortaliteCumulPct: null, poidsMoyen: null, indiceConsommation: null, gmq: null, prixRevientKg: null, ...partial };
+}
+
+function series(values: Record<string, Partial<ComparisonWeekValues>>): ComparisonLotSeries {
+  return {
+    ...ref,
+    weeks: Object.keys(values),
+    values: Object.fromEntries(Object.entries(values).map(([w, v]) => [w, weekValues(v)])),
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("comparisonWeeks / lastTwoWeeksWithValue", () => {
+  it("merges the semaines of every lot in order", () => {
+    expect(comparisonWeeks([series({ S1: {}, S10: {} }), series({ S2: {}, S1: {} })])).toEqual(["S1", "S2", "S10"]);
+  });
+
+  it("skips semaines without a value for the metric", () => {
+    const s = series({ S1: { gmq: 40 }, S2: {}, S3: { gmq: 55 }, S4: {} });
+    expect(lastTwoWeeksWithValue(s, "gmq")).toEqual(["S1", "S3"]);
+    expect(lastTwoWeeksWithValue(s, "poidsMoyen")).toBeNull();
+  });
+
+  it("labels a lot with its farm", () => {
+    expect(comparisonLotLabel(ref)).toBe("Ferme A — Lot 12");
+  });
+});
+
+describe("loadLotComparisonSeries", () => {
+  it("weights mortalité by effectif départ and averages the bâtiment performances", async () => {
+    vi.spyOn(api.setupInfo, "list").mockResolvedValue([
+      { building: "B1", sex: "Mâle", effectifMisEnPlace: 1000 },
+      { building: "B2", sex: "Mâle", effectifMisEnPlace: 3000 },
+      { building: "B3", sex: "Mâle", effectifMisEnPlace: 0 },
+    ] as SetupInfoResponse[]);
+    vi.spyOn(api.suiviTechniqueHebdo, "list").mockResolvedValue([
+      { semaine: "S01", sex: "Mâle", batiment: "B1", recordDate: "2026-01-01", mortaliteCumulPct: 9, effectifDepart: 1000 },
+      { semaine: "S01", sex: "Mâle", batiment: "B1", recordDate: "2026-01-07", mortaliteCumulPct: 2, effectifDepart: 1000 },
+      { semaine: "S1", sex: "Mâle", batiment: "B2", recordDate: "2026-01-07", mortaliteCumulPct: 4, effectifDepart: 3000 },
+    ] as SuiviTechniqueHebdoResponse[]);
+    const perf = vi.spyOn(api.suiviPerformancesHebdo, "get").mockImplementation(async (p) =>
+      p.batiment === "B1"
+        ? ({ poidsMoyenReel: 200, gmqReel: 20 } as SuiviPerformancesHebdoResponse)
+        : ({ poidsMoyenReel: 300, gmqReel: null } as SuiviPerformancesHebdoResponse)
+    );
+    vi.spyOn(api.suiviCoutHebdo, "getResumeSummary").mockResolvedValue({ prixRevientParKg: 1.25 } as never);
+
+    const result = await loadLotComparisonSeries(ref);
+
+    expect(result.weeks).toEqual(["S1"]);
+    expect(perf).toHaveBeenCalledTimes(2);
+    expect(result.values.S1.mortaliteCumulPct).toBeCloseTo(3.5);
+    expect(result.values.S1.poidsMoyen).toBe(250);
+    expect(result.values.S1.gmq).toBe(20);
+    expect(result.values.S1.prixRevientKg).toBe(1.25);
+  });
+
+  it("reads a semaine without performances or costs (404) as no value, and rejects on any other failure", async () => {
+    vi.spyOn(api.setupInfo, "list").mockResolvedValue([{ building: "B1", sex: "Mâle", effectifMisEnPlace: 1000 }] as SetupInfoResponse[]);
+    vi.spyOn(api.suiviTechniqueHebdo, "list").mockResolvedValue([
+      { semaine: "S1", sex: "Mâle", batiment: "B1", recordDate: "2026-01-07", mortaliteCumulPct: 1, effectifDepart: 1000 },
+    ] as SuiviTechniqueHebdoResponse[]);
+    vi.spyOn(api.suiviPerformancesHebdo, "get").mockRejectedValue(new ApiNotFoundError());
+    const cout = vi.spyOn(api.suiviCoutHebdo, "getResumeSummary").mockRejectedValue(new ApiNotFoundError());
+
+    const result = await loadLotComparisonSeries(ref);
+    expect(result.values.S1).toEqual(weekValues({ mortaliteCumulPct: 1 }));
+
+    cout.mockRejectedValue(new ApiNetworkError());
+    await expect(loadLotComparisonSeries(ref)).rejects.toBeInstanceOf(ApiNetworkError);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "@/lib/mapWithConcurrency";
+
+describe("mapWithConcurrency", () => {
+  it("keeps the input order and never runs more than the limit at once", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40, 10]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("rejects with the first failure and runs nothing for an empty list", async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (n) => {
+        if (n === 2) throw new Error("semaine 2");
+        return n;
+      })
+    ).rejects.toThrow("semaine 2");
+    expect(await mapWithConcurrency([], 6, async () => 1)).toEqual([]);
+  });
+});
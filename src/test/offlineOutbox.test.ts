@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiNetworkError, ApiTimeoutError, ApiValidationError } from "@/lib/apiErrors";
+import {
+  discardOutboxEntry,
+  enqueueOutbox,
+  flushOutbox,
+  listOutbox,
+  registerOutboxHandler,
+  retryOutboxEntry,
+  type OutboxEntry,
+  type OutboxReplayResult,
+} from "@/lib/offlineOutbox";
+
+const replay = vi.fn<(entry: OutboxEntry) => Promise<OutboxReplayResult>>();
+registerOutboxHandler("test", (entry) => replay(entry), { idempotentOps: ["replace"] });
+
+function enqueue(op: string) {
+  return enqueueOutbox({ kind: "test", op, payload: { op } });
+}
+
+beforeEach(async () => {
+  replay.mockReset();
+  for (const e of await listOutbox()) await discardOutboxEntry(e.id);
+});
+
+describe("flushOutbox", () => {
+  it("removes entries replayed successfully", async () => {
+    replay.mockResolvedValue({ status: "ok" });
+    await enqueue("create");
+    const summary = await flushOutbox();
+    expect(summary).toMatchObject({ synced: 1, remaining: 0 });
+  });
+
+  it("keeps a conflict reported by the handler", async () => {
+    replay.mockResolvedValue({ status: "conflict", message: "modifiée" });
+    await enqueue("create");
+    await flushOutbox();
+    expect(await listOutbox()).toMatchObject([{ status: "conflict", lastError: "modifiée" }]);
+  });
+
+  it("keeps a network failure pending for the next flush", async () => {
+    replay.mockRejectedValue(new ApiNetworkError());
+    await enqueue("create");
+    await flushOutbox();
+    expect(await listOutbox()).toMatchObject([{ status: "pending", attempts: 1 }]);
+  });
+
+  it("fails HTTP errors instead of replaying them", async () => {
+    replay.mockRejectedValue(new ApiValidationError("invalide", {}));
+    await enqueue("create");
+    const summary = await flushOutbox();
+    expect(summary.failed).toBe(1);
+    expect(await listOutbox()).toMatchObject([{ status: "failed" }]);
+  });
+
+  it("does not replay a timed-out non-idempotent write", async () => {
+    replay.mockRejectedValue(new ApiTimeoutError());
+    await enqueue("create");
+    await flushOutbox();
+    expect(await listOutbox()).toMatchObject([{ status: "conflict" }]);
+  });
+
+  it("replays a timed-out idempotent write", async () => {
+    replay.mockRejectedValue(new ApiTimeoutError());
+    await enqueue("replace");
+    await flushOutbox();
+    expect(await listOutbox()).toMatchObject([{ status: "pending" }]);
+  });
+});
+
+describe("retryOutboxEntry", () => {
+  it("retries a failed entry after the flush already running", async () => {
+    replay.mockRejectedValueOnce(new ApiValidationError("invalide", {}));
+    const failed = await enqueue("create");
+    await flushOutbox();
+    expect(await listOutbox()).toMatchObject([{ status: "failed" }]);
+
+    let release: () => void = () => undefined;
+    replay.mockImplementationOnce(
+      () => new Promise<OutboxReplayResult>((resolve) => (release = () => resolve({ status: "ok" })))
+    );
+    await enqueue("other");
+    replay.mockResolvedValue({ status: "ok" });
+    // The failed entry is skipped by the automatic flush, so only "other" is replayed here
+    const running = flushOutbox();
+    await vi.waitFor(() => expect(replay).toHaveBeenCalledTimes(2));
+    const retried = retryOutboxEntry(failed.id);
+    release();
+    await Promise.all([running, retried]);
+
+    expect(replay).toHaveBeenCalledTimes(3);
+    expect(replay.mock.calls[2][0].id).toBe(failed.id);
+    expect(await listOutbox()).toEqual([]);
+  });
+});
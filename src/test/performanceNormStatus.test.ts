@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  buildPerformanceNormMatrix,
+  loadPerformanceNormWeeks,
+  DEFAULT_PERFORMANCE_TOLERANCES,
+  PERFORMANCE_NORM_METRICS,
+  performanceNormStatus,
+  performanceNormWeekFrom,
+  resolvePerformanceTolerances,
+  semainesUpTo,
+  unfavourableEcartPct,
+  type PerformanceNormValues,
+} from "@/lib/performanceNormStatus";
+import { api, type PerformanceNormeResponse, type SuiviPerformancesHebdoResponse } from "@/lib/api";
+import { ApiNetworkError, ApiNotFoundError } from "@/lib/apiErrors";
+
+const metric = (key: string) => PERFORMANCE_NORM_METRICS.find((m) => m.key === key)!;
+const poids = metric("poidsMoyen");
+const ic = metric("indiceConsommation");
+
+function values(partial: Partial<PerformanceNormValues>): PerformanceNormValues {
+  return { poidsMoyen: null, homogeneite: null, indiceConsommation: null, gmq: null, viabilite: null, ...partial };
+}
+
+describe("unfavourableEcartPct", () => {
+  it("counts réel below norme as unfavourable when higher is better", () => {
+    expect(unfavourableEcartPct(900, 1000, poids)).toBeCloseTo(10);
+    expect(unfavourableEcartPct(1100, 1000, poids)).toBeCloseTo(-10);
+  });
+
+  it("counts réel above norme as unfavourable for the indice de consommation", () => {
+    expect(unfavourableEcartPct(1.6, 1.5, ic)).toBeCloseTo(6.667, 2);
+  });
+
+  it("is null without réel, without norme or with a zero norme", () => {
+    expect(unfavourableEcartPct(null, 1000, poids)).toBeNull();
+    expect(unfavourableEcartPct(900, undefined, poids)).toBeNull();
+    expect(unfavourableEcartPct(900, 0, poids)).toBeNull();
+  });
+});
+
+describe("performanceNormStatus", () => {
+  it("applies the ok / watch limits inclusively", () => {
+    expect(performanceNormStatus(950, 1000, poids)).toBe("ok");
+    expect(performanceNormStatus(900, 1000, poids)).toBe("watch");
+    expect(performanceNormStatus(899, 1000, poids)).toBe("bad");
+  });
+
+  it("uses the given bands", () => {
+    const bands = { ...DEFAULT_PERFORMANCE_TOLERANCES, poidsMoyen: { ok: 15, watch: 20 } };
+    expect(performanceNormStatus(880, 1000, poids, bands)).toBe("ok");
+  });
+});
+
+describe("resolvePerformanceTolerances", () => {
+  it("keeps the defaults when nothing is saved", () => {
+    expect(resolvePerformanceTolerances(null)).toEqual(DEFAULT_PERFORMANCE_TOLERANCES);
+  });
+
+  it("merges valid saved bands and ignores invalid or unknown ones", () => {
+    const bands = resolvePerformanceTolerances({
+      gmq: { ok: 2, watch: 4 },
+      poidsMoyen: { ok: 8, watch: 3 },
+      viabilite: { ok: -1, watch: 2 },
+      unknown: { ok: 1, watch: 2 },
+    });
+    expect(bands.gmq).toEqual({ ok: 2, watch: 4 });
+    expect(bands.poidsMoyen).toEqual(DEFAULT_PERFORMANCE_TOLERANCES.poidsMoyen);
+    expect(bands.viabilite).toEqual(DEFAULT_PERFORMANCE_TOLERANCES.viabilite);
+    expect(bands).not.toHaveProperty("unknown");
+  });
+});
+
+describe("performanceNormWeekFrom", () => {
+  it("averages the bâtiment rows and falls back from bâtiment norme to farm norme to profile", () => {
+    const performances = [
+      { poidsMoyenReel: 900, poidsMoyenNorme: 1000 },
+      { poidsMoyenReel: 1100, poidsMoyenNorme: null, gmqReel: 50 },
+    ] as SuiviPerformancesHebdoResponse[];
+    const normes = [{ gmqNorme: 55, homogeneiteNorme: 80 }] as PerformanceNormeResponse[];
+    const week = performanceNormWeekFrom("S3", performances, normes, [{ semaine: "S3", viabiliteNorme: 99 }]);
+    expect(week.reel.poidsMoyen).toBe(1000);
+    expect(week.norme.poidsMoyen).toBe(1000);
+    expect(week.norme.gmq).toBe(55);
+    expect(week.norme.viabilite).toBe(99);
+    expect(week.reel.homogeneite).toBeNull();
+  });
+});
+
+describe("buildPerformanceNormMatrix", () => {
+  it("takes the status of the latest semaine that has one", () => {
+    const weeks = [
+      { semaine: "S1", reel: values({ poidsMoyen: 800 }), norme: values({ poidsMoyen: 1000 }) },
+      { semaine: "S2", reel: values({ poidsMoyen: 990 }), norme: values({ poidsMoyen: 1000 }) },
+      { semaine: "S3", reel: values({}), norme: values({ poidsMoyen: 1000 }) },
+    ];
+    const row = buildPerformanceNormMatrix(weeks).find((r) => r.metric.key === "poidsMoyen")!;
+    expect(row.cellStatuses).toEqual(["bad", "ok", null]);
+    expect(row.status).toBe("ok");
+    expect(row.values[2]).toBe("—");
+  });
+});
+
+describe("semainesUpTo", () => {
+  it("lists S1 to Sn, and nothing for a non Sn label", () => {
+    expect(semainesUpTo("S3")).toEqual(["S1", "S2", "S3"]);
+    expect(semainesUpTo("VS")).toEqual([]);
+  });
+});
+
+describe("loadPerformanceNormWeeks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const params = { farmId: 8, lot: "12", weeks: ["S1", "S2"], groups: [{ sex: "Mâle", batiment: "B1" }] };
+
+  it("reads a semaine without performances or norme (404) as no value", async () => {
+    vi.spyOn(api.suiviPerformancesHebdo, "get").mockImplementation(async (p) => {
+      if (p.semaine === "S1") throw new ApiNotFoundError();
+      return { poidsMoyenReel: 900 } as SuiviPerformancesHebdoResponse;
+    });
+    vi.spyOn(api.performanceNorme, "get").mockImplementation(async (p) => {
+      if (p.semaine === "S2") throw new ApiNotFoundError();
+      return { poidsMoyenNorme: 800 } as PerformanceNormeResponse;
+    });
+
+    const weeks = await loadPerformanceNormWeeks(params);
+
+    expect(weeks.map((w) => [w.semaine, w.reel.poidsMoyen, w.norme.poidsMoyen])).toEqual([
+      ["S1", null, 800],
+      ["S2", 900, null],
+    ]);
+  });
+
+  it("rejects when a norme fails with something else than a 404", async () => {
+    vi.spyOn(api.suiviPerformancesHebdo, "get").mockResolvedValue({} as SuiviPerformancesHebdoResponse);
+    vi.spyOn(api.performanceNorme, "get").mockRejectedValue(new ApiNetworkError());
+    await expect(loadPerformanceNormWeeks(params)).rejects.toBeInstanceOf(ApiNetworkError);
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { api, type PerformanceNormeProfileResponse, type SetupInfoResponse } from "@/lib/api";
+import { ApiNetworkError, ApiNotFoundError } from "@/lib/apiErrors";
+import { loadProfileNormeFallback, soucheFromSetup } from "@/lib/performanceNormeProfilesShared";
+
+const profiles = [
+  { id: 1, souche: "Hybrid Converter", sex: "Mâle", weeks: [{ semaine: "S1", poidsMoyenNorme: 150 }] },
+] as PerformanceNormeProfileResponse[];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("soucheFromSetup", () => {
+  it("prefers the souche of the bâtiment, else the first one declared for the sex", () => {
+    const rows = [
+      { sex: "Mâle", building: "B1", souche: " " },
+      { sex: "Mâle", building: "B2", souche: "Hybrid Converter " },
+    ] as SetupInfoResponse[];
+    expect(soucheFromSetup(rows, "Mâle", "B2")).toBe("Hybrid Converter");
+    expect(soucheFromSetup(rows, "Mâle", "B1")).toBe("Hybrid Converter");
+    expect(soucheFromSetup(rows, "Femelle")).toBeNull();
+  });
+});
+
+describe("loadProfileNormeFallback", () => {
+  it("resolves the profile week of the lot's souche, matching the souche loosely", async () => {
+    vi.spyOn(api.setupInfo, "list").mockResolvedValue([
+      { sex: "Mâle", building: "B1", souche: "hybrid  converter" },
+    ] as SetupInfoResponse[]);
+    vi.spyOn(api.performanceNormeProfiles, "list").mockResolvedValue(profiles);
+
+    const fallback = await loadProfileNormeFallback(8, "12");
+
+    expect(fallback("Mâle", "S01")).toEqual({ semaine: "S1", poidsMoyenNorme: 150 });
+    expect(fallback("Femelle", "S1")).toBeNull();
+  });
+
+  it("has no fallback when the profiles are not found (404), and rejects on any other failure", async () => {
+    vi.spyOn(api.setupInfo, "list").mockResolvedValue([{ sex: "Mâle", souche: "Hybrid Converter" }] as SetupInfoResponse[]);
+    const list = vi.spyOn(api.performanceNormeProfiles, "list").mockRejectedValue(new ApiNotFoundError());
+    expect((await loadProfileNormeFallback(8, "12"))("Mâle", "S1")).toBeNull();
+
+    list.mockRejectedValue(new ApiNetworkError());
+    await expect(loadProfileNormeFallback(8, "12")).rejects.toBeInstanceOf(ApiNetworkError);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { RoleResponse } from "@/lib/api";
+import {
+  buildPermissionSet,
+  DEFAULT_ROLE_PERMISSIONS,
+  hasPermission,
+  permissionScope,
+  roleNeedsAssignedFarms,
+  rolePermissions,
+} from "@/lib/permissions";
+
+const role = (name: string, permissions?: RoleResponse["permissions"]): RoleResponse => ({ id: 1, name, permissions });
+
+describe("rolePermissions", () => {
+  it("falls back to the historical matrix only when the backend sends no list", () => {
+    expect(rolePermissions(role("ADMINISTRATEUR"))).toBe(DEFAULT_ROLE_PERMISSIONS.ADMINISTRATEUR);
+    expect(rolePermissions(role("ADMINISTRATEUR", null))).toBe(DEFAULT_ROLE_PERMISSIONS.ADMINISTRATEUR);
+  });
+
+  it("grants nothing for an empty list", () => {
+    expect(rolePermissions(role("ADMINISTRATEUR", []))).toEqual([]);
+  });
+
+  it("grants nothing to an unknown role without list", () => {
+    expect(rolePermissions(role("STAGIAIRE"))).toEqual([]);
+  });
+});
+
+describe("buildPermissionSet", () => {
+  it("keeps the widest farm scope granted by any role", () => {
+    const set = buildPermissionSet(
+      [role("A", [{ resource: "donnees", action: "read", farmScope: "ASSIGNED" }]), role("B", [{ resource: "donnees", action: "read" }])],
+      []
+    );
+    expect(permissionScope(set, "donnees", "read")).toBe("ALL");
+  });
+
+  it("reads the grants of the /api/roles catalog over those embedded in the user", () => {
+    const set = buildPermissionSet([role("RESPONSABLE_FERME")], [role("RESPONSABLE_FERME", [{ resource: "audit", action: "read" }])]);
+    expect(permissionScope(set, "audit", "read")).toBe("ALL");
+    expect(permissionScope(set, "donnees", "read")).toBeNull();
+  });
+});
+
+describe("hasPermission", () => {
+  const set = buildPermissionSet([role("RESPONSABLE_FERME")], null);
+
+  it("limits ASSIGNED grants to the user's farms when a farm is given", () => {
+    expect(hasPermission(set, "donnees", "create", 3, new Set([3]))).toBe(true);
+    expect(hasPermission(set, "donnees", "create", 4, new Set([3]))).toBe(false);
+    expect(hasPermission(set, "donnees", "create")).toBe(true);
+  });
+
+  it("denies what no role grants", () => {
+    expect(hasPermission(set, "donnees", "update", 3, new Set([3]))).toBe(false);
+  });
+});
+
+describe("DEFAULT_ROLE_PERMISSIONS", () => {
+  const can = (roleName: string, resource: Parameters<typeof hasPermission>[1], action: Parameters<typeof hasPermission>[2]) =>
+    hasPermission(buildPermissionSet([role(roleName)], null), resource, action);
+
+  it("keeps the weekly dashboard, prices and sex data deletion for RT and Admin", () => {
+    for (const name of ["ADMINISTRATEUR", "RESPONSABLE_TECHNIQUE"]) {
+      expect(can(name, "tableauBordHebdo", "read")).toBe(true);
+      expect(can(name, "lots", "delete")).toBe(true);
+    }
+    expect(can("BACKOFFICE_EMPLOYER", "tableauBordHebdo", "read")).toBe(false);
+    expect(can("BACKOFFICE_EMPLOYER", "lots", "delete")).toBe(false);
+  });
+
+  it("keeps price alerts and montants of the main d'œuvre away from the Responsable Ferme", () => {
+    expect(can("BACKOFFICE_EMPLOYER", "verification", "update")).toBe(true);
+    expect(can("BACKOFFICE_EMPLOYER", "employes", "read")).toBe(true);
+    expect(can("RESPONSABLE_FERME", "verification", "read")).toBe(false);
+    expect(can("RESPONSABLE_FERME", "employes", "read")).toBe(false);
+  });
+
+  it("keeps the acknowledgement of the sanitary alerts away from the Back-office", () => {
+    for (const name of ["ADMINISTRATEUR", "RESPONSABLE_TECHNIQUE", "RESPONSABLE_FERME"]) {
+      expect(can(name, "alertesSanitaires", "update")).toBe(true);
+    }
+    expect(can("BACKOFFICE_EMPLOYER", "alertesSanitaires", "update")).toBe(false);
+  });
+
+  it("limits the Responsable Ferme to assigned farms", () => {
+    expect(roleNeedsAssignedFarms(role("RESPONSABLE_FERME"))).toBe(true);
+    expect(roleNeedsAssignedFarms(role("BACKOFFICE_EMPLOYER"))).toBe(false);
+  });
+});
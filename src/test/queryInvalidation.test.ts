@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { QueryClient, type QueryKey } from "@tanstack/react-query";
+import { invalidateAfterWrite } from "@/lib/queryInvalidation";
+import { queryKeys } from "@/lib/queryKeys";
+
+let queryClient: QueryClient;
+
+function seed(...keys: QueryKey[]) {
+  for (const key of keys) queryClient.setQueryData(key, {});
+}
+
+function isStale(key: QueryKey): boolean {
+  return queryClient.getQueryState(key)?.isInvalidated ?? false;
+}
+
+beforeEach(() => {
+  queryClient = new QueryClient();
+});
+
+const week = (semaine: string, extra: { farmId?: number; lot?: string; sex?: string; batiment?: string } = {}) => ({
+  farmId: 8,
+  lot: "12",
+  semaine,
+  sex: "Mâle",
+  batiment: "B1",
+  ...extra,
+});
+
+describe("invalidateAfterWrite", () => {
+  it("invalidates the written week and the following ones, never the previous weeks", async () => {
+    const s1 = queryKeys.suiviStock.get(week("S1"));
+    const s3 = queryKeys.suiviStock.get(week("S3"));
+    const s5 = queryKeys.suiviStock.get(week("S5"));
+    seed(s1, s3, s5);
+    await invalidateAfterWrite(queryClient, "suiviTechniqueHebdo", week("S3"));
+    expect([isStale(s1), isStale(s3), isStale(s5)]).toEqual([false, true, true]);
+  });
+
+  it("keeps other lots, farms, sexes and bâtiments", async () => {
+    const otherLot = queryKeys.suiviStock.get(week("S3", { lot: "13" }));
+    const otherFarm = queryKeys.suiviStock.get(week("S3", { farmId: 9 }));
+    const otherSex = queryKeys.suiviStock.get(week("S3", { sex: "Femelle" }));
+    const otherBatiment = queryKeys.suiviStock.get(week("S3", { batiment: "B2" }));
+    seed(otherLot, otherFarm, otherSex, otherBatiment);
+    await invalidateAfterWrite(queryClient, "suiviTechniqueHebdo", week("S3"));
+    expect([otherLot, otherFarm, otherSex, otherBatiment].map(isStale)).toEqual([false, false, false, false]);
+  });
+
+  it("matches S02 and S2 as the same week", async () => {
+    const key = queryKeys.suiviPerformancesHebdo.get(week("S2"));
+    seed(key);
+    await invalidateAfterWrite(queryClient, "suiviPerformancesHebdo", week("S02"));
+    expect(isStale(key)).toBe(true);
+  });
+
+  it("invalidates lot-wide lists loaded without semaine", async () => {
+    const list = queryKeys.livraisonsAliment.list({ farmId: 8, lot: "12" });
+    const stock = queryKeys.suiviStock.get(week("S4"));
+    seed(list, stock);
+    await invalidateAfterWrite(queryClient, "livraisonsAliment", { farmId: 8, lot: "12" });
+    expect(isStale(list)).toBe(true);
+    expect(isStale(stock)).toBe(true);
+  });
+
+  it("falls back to the entity itself when it has no declared dependents", async () => {
+    const own = queryKeys.roles.list();
+    const other = queryKeys.farms.list();
+    seed(own, other);
+    await invalidateAfterWrite(queryClient, "roles", {});
+    expect([isStale(own), isStale(other)]).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { LivraisonProduitVeterinaireResponse, VaccinationAdministrationResponse } from "@/lib/api";
+import { matchingStock, veterinaryStock } from "@/lib/vaccinationAdministrationsShared";
+
+function livraison(id: number, designation: string, qte: number | null, date: string): LivraisonProduitVeterinaireResponse {
+  return { id, designation, qte, date } as LivraisonProduitVeterinaireResponse;
+}
+
+function administration(livraisonProduitVeterinaireId: number | null, quantite: number | null): VaccinationAdministrationResponse {
+  return { livraisonProduitVeterinaireId, quantite, produit: "x" } as VaccinationAdministrationResponse;
+}
+
+describe("veterinaryStock", () => {
+  it("subtracts the quantities of the administrations linked to each livraison", () => {
+    const stock = veterinaryStock(
+      [livraison(1, "ND Clone 30", 10, "2026-01-05"), livraison(2, "Gumboro", null, "2026-01-06")],
+      [administration(1, 4), administration(1, null), administration(null, 3), administration(2, 1)]
+    );
+    expect(stock.map((s) => [s.livraison.id, s.remaining])).toEqual([
+      [1, 6],
+      [2, -1],
+    ]);
+  });
+
+  it("leaves out livraisons without designation", () => {
+    expect(veterinaryStock([livraison(1, "  ", 10, "2026-01-05")], [])).toEqual([]);
+  });
+});
+
+describe("matchingStock", () => {
+  const stock = veterinaryStock(
+    [
+      livraison(1, "ND Clone 30", 5, "2026-01-10"),
+      livraison(2, "Clone 30", 5, "2026-01-02"),
+      livraison(3, "Clone 30", 2, "2026-01-01"),
+      livraison(4, "Gumboro", 5, "2026-01-01"),
+    ],
+    [administration(3, 2)]
+  );
+
+  it("matches either way ignoring accents and punctuation, with stock first then the oldest livraison", () => {
+    expect(matchingStock(stock, "clone-30").map((s) => s.livraison.id)).toEqual([2, 1, 3]);
+    expect(matchingStock(stock, "Vaccin ND Clone 30 (Ceva)").map((s) => s.livraison.id)).toEqual([2, 1, 3]);
+    expect(matchingStock(stock, "Gumboro D78").map((s) => s.livraison.id)).toEqual([4]);
+    expect(matchingStock(stock, "ND  Clône 30").map((s) => s.livraison.id)).toEqual([2, 1, 3]);
+  });
+
+  it("matches nothing for an empty product", () => {
+    expect(matchingStock(stock, " - ")).toEqual([]);
+  });
+});
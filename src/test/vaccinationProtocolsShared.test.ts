@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  api,
+  type SetupInfoResponse,
+  type VaccinationPlanningRequest,
+  type VaccinationPlanningResponse,
+  type VaccinationProtocolResponse,
+} from "@/lib/api";
+import { ApiNetworkError, ApiNotFoundError } from "@/lib/apiErrors";
+import {
+  ageToDays,
+  diffPlanningWithProtocol,
+  findProtocolForLot,
+  loadLotPlanningContext,
+  planDateForAge,
+} from "@/lib/vaccinationProtocolsShared";
+
+function line(partial: Partial<VaccinationPlanningRequest>): VaccinationPlanningRequest {
+  return { farmId: 8, lot: "12", ordre: 0, age: "1 J", planDate: null, motif: null, vaccinTraitement: null, ...partial };
+}
+
+function protocol(id: number, souche: string, typeElevage: string): VaccinationProtocolResponse {
+  return { id, souche, typeElevage } as VaccinationProtocolResponse;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("ageToDays / planDateForAge", () => {
+  it("reads « X J » and « X Jours », Couvoir as day 0, and nothing else", () => {
+    expect(ageToDays("7 J")).toBe(7);
+    expect(ageToDays(" 21 jours")).toBe(21);
+    expect(ageToDays("couvoir")).toBe(0);
+    expect(ageToDays("S3")).toBeNull();
+    expect(ageToDays("")).toBeNull();
+  });
+
+  it("dates a line from the mise en place, leaving Couvoir and unparsed ages undated", () => {
+    expect(planDateForAge("2026-01-30", "3 J")).toBe("2026-02-02");
+    expect(planDateForAge("2026-01-30", "0 J")).toBe("2026-01-30");
+    expect(planDateForAge("2026-01-30", "Couvoir")).toBe("");
+    expect(planDateForAge("2026-01-30", "S3")).toBe("");
+    expect(planDateForAge(null, "3 J")).toBe("");
+  });
+});
+
+describe("findProtocolForLot", () => {
+  const protocols = [protocol(1, "Hybrid Converter", "Chair"), protocol(2, "Hybrid Converter", "Repro"), protocol(3, "BUT 6", "Chair")];
+
+  it("matches souche and typeElevage loosely", () => {
+    expect(findProtocolForLot(protocols, " hybrid  converter", "REPRO")?.id).toBe(2);
+  });
+
+  it("falls back to the only protocol of the souche, never to one of several", () => {
+    expect(findProtocolForLot(protocols, "BUT 6", "Repro")?.id).toBe(3);
+    expect(findProtocolForLot(protocols, "Hybrid Converter", "Plein air")).toBeNull();
+    expect(findProtocolForLot(protocols, null, "Chair")).toBeNull();
+  });
+});
+
+describe("diffPlanningWithProtocol", () => {
+  it("pairs lines by age in days, lists changed fields and ignores empty current lines", () => {
+    const current = [
+      { id: 1, ordre: 0, age: "1 Jours", motif: "Marek", vaccinTraitement: "Rispens", planDate: "2026-01-31" },
+      { id: 2, ordre: 1, age: "7 J", motif: "Newcastle", vaccinTraitement: "HB1" },
+      { id: 3, ordre: 2, age: "14 J", motif: "", vaccinTraitement: "" },
+      { id: 4, ordre: 3, age: "28 J", motif: "Coccidiose" },
+    ] as VaccinationPlanningResponse[];
+    const next = [
+      line({ age: "1 J", motif: "Marek", vaccinTraitement: "Rispens", planDate: "2026-01-31" }),
+      line({ age: "7 J", motif: "Newcastle", vaccinTraitement: "La Sota" }),
+      line({ age: "14 J", motif: "Gumboro" }),
+    ];
+
+    const diff = diffPlanningWithProtocol(current, next);
+
+    expect(diff.map((r) => [r.age, r.kind, r.fields])).toEqual([
+      ["1 J", "same", []],
+      ["7 J", "change", ["vaccinTraitement"]],
+      ["14 J", "add", []],
+      ["28 J", "remove", []],
+    ]);
+  });
+
+  it("pairs several lines of the same age in planning order", () => {
+    const current = [
+      { id: 2, ordre: 1, age: "7 J", motif: "B" },
+      { id: 1, ordre: 0, age: "7 J", motif: "A" },
+    ] as VaccinationPlanningResponse[];
+    const diff = diffPlanningWithProtocol(current, [line({ age: "7 J", motif: "A" }), line({ age: "7 J", motif: "C" })]);
+    expect(diff.map((r) => [r.kind, r.before?.id])).toEqual([
+      ["same", 1],
+      ["change", 2],
+    ]);
+  });
+});
+
+describe("loadLotPlanningContext", () => {
+  it("has no dateMiseEnPlace when the lot has no Données mises en place (404)", async () => {
+    vi.spyOn(api.setupInfo, "list").mockRejectedValue(new ApiNotFoundError());
+    vi.spyOn(api.vaccinationPlanning, "list").mockResolvedValue([]);
+    expect(await loadLotPlanningContext(8, "12")).toEqual({ dateMiseEnPlace: null, planning: [] });
+  });
+
+  it("takes the earliest mise en place and rejects when the setup fails otherwise", async () => {
+    const list = vi.spyOn(api.setupInfo, "list").mockResolvedValue([
+      { dateMiseEnPlace: "2026-02-03" },
+      { dateMiseEnPlace: "2026-01-30" },
+    ] as SetupInfoResponse[]);
+    vi.spyOn(api.vaccinationPlanning, "list").mockResolvedValue([]);
+    expect((await loadLotPlanningContext(8, "12")).dateMiseEnPlace).toBe("2026-01-30");
+
+    list.mockRejectedValue(new ApiNetworkError());
+    await expect(loadLotPlanningContext(8, "12")).rejects.toBeInstanceOf(ApiNetworkError);
+  });
+});
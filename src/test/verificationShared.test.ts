@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { canEditSavedRow, rowRejection } from "@/lib/verificationShared";
+
+const rejected = {
+  rejection: rowRejection({ verificationStatus: "REJECTED", rejectionComment: " Quantité ", createdByUsername: "rf.ahmed" }),
+};
+
+describe("rowRejection", () => {
+  it("is null unless the row is rejected", () => {
+    expect(rowRejection({ verificationStatus: "PENDING", createdByUsername: "rf.ahmed" })).toBeNull();
+    expect(rejected.rejection).toMatchObject({ comment: "Quantité", createdBy: "rf.ahmed" });
+  });
+});
+
+describe("canEditSavedRow", () => {
+  it("lets only the author correct a rejected row", () => {
+    expect(canEditSavedRow(false, rejected, "RF.Ahmed")).toBe(true);
+    expect(canEditSavedRow(false, rejected, "rf.karim")).toBe(false);
+    expect(canEditSavedRow(false, rejected, null)).toBe(false);
+  });
+
+  it("closes the correction once the rejection is cleared, unless the user has update rights", () => {
+    expect(canEditSavedRow(false, { rejection: null }, "rf.ahmed")).toBe(false);
+    expect(canEditSavedRow(true, { rejection: null }, "rf.karim")).toBe(true);
+  });
+});